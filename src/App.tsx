@@ -18,6 +18,7 @@ import _OfflineIndicator from './components/OfflineIndicator/OfflineIndicator'
 import withOfflineFallback from './components/OfflineIndicator/withOfflineFallback'
 import _PerformanceProfiler from './components/PerformanceProfiler'
 import CSPMeta from './components/Security/CSPMeta'
+import SyncConflictDialog from './components/Sync/SyncConflictDialog'
 import LoadingFallback from './components/UI/LoadingFallback'
 import { ActionFeedbackProvider } from './contexts/ActionFeedbackContext'
 import { I18nProvider, useI18n } from './contexts/I18nContext'
@@ -33,8 +34,14 @@ import performanceMonitoring, { PerformanceCategory } from './utils/performanceM
 const HomePage = lazy(() => import('./pages/HomePage'))
 const ProjectDashboard = lazy(() => import('./pages/ProjectDashboard'))
 const ProjectDetailPage = lazy(() => import('./pages/ProjectDetailPage'))
+const ProjectTagsPage = lazy(() => import('./pages/ProjectTagsPage'))
+const ProjectCategoriesPage = lazy(() => import('./pages/ProjectCategoriesPage'))
+const FilteredProjectsPage = lazy(() => import('./pages/FilteredProjectsPage'))
 const SettingsPage = lazy(() => import('./pages/SettingsPage'))
+const KeyboardShortcutsPage = lazy(() => import('./pages/KeyboardShortcutsPage'))
 const PerformancePage = lazy(() => import('./pages/PerformancePage'))
+const CanvasBenchmarkPage = lazy(() => import('./pages/CanvasBenchmarkPage'))
+const SnippetLibraryPage = lazy(() => import('./pages/SnippetLibraryPage'))
 
 // Lazy load Material UI components that are heavy
 // These components are used dynamically based on user interactions
@@ -195,6 +202,9 @@ const AppWithTheme = () => {
 
 					// Extract results
 					;[loggerInitialized, dbInitialized] = results
+
+					// Restore the operations queued before the last reload
+					void offlineService.setQueueStorage(indexedDBService)
 				} catch (error) {
 					console.error('Error during service initialization:', error)
 					// Continue with default values (false) for both services
@@ -318,6 +328,41 @@ const AppWithTheme = () => {
 												/>
 											}
 										/>
+										<Route
+											path="/projects/tags"
+											element={
+												<ProjectTagsPage onThemeToggle={toggleThemeMode} isDarkMode={mode === 'dark'} />
+											}
+										/>
+										<Route
+											path="/projects/categories"
+											element={
+												<ProjectCategoriesPage
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+												/>
+											}
+										/>
+										<Route
+											path="/projects/pinned"
+											element={
+												<FilteredProjectsPage
+													view="pinned"
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+												/>
+											}
+										/>
+										<Route
+											path="/projects/recent"
+											element={
+												<FilteredProjectsPage
+													view="recent"
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+												/>
+											}
+										/>
 										<Route
 											path="/projects/:projectId/*"
 											element={withOfflineFallback(ProjectDetailPage)({
@@ -348,6 +393,15 @@ const AppWithTheme = () => {
 												/>
 											}
 										/>
+										<Route
+											path="/settings/shortcuts"
+											element={
+												<KeyboardShortcutsPage
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+												/>
+											}
+										/>
 										<Route
 											path="/performance"
 											element={
@@ -357,6 +411,34 @@ const AppWithTheme = () => {
 												/>
 											}
 										/>
+										<Route
+											path="/performance/canvas"
+											element={
+												<CanvasBenchmarkPage
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+												/>
+											}
+										/>
+										<Route
+											path="/resources/snippets"
+											element={
+												<SnippetLibraryPage
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+												/>
+											}
+										/>
+										<Route
+											path="/resources/assets"
+											element={
+												<SnippetLibraryPage
+													onThemeToggle={toggleThemeMode}
+													isDarkMode={mode === 'dark'}
+													initialView="nodes"
+												/>
+											}
+										/>
 										{/* Demo route for our redesigned UI */}
 										<Route path="/brainstorm-demo" element={<BrainstormDemoPage />} />
 										<Route path="*" element={<Navigate to="/" replace />} />
@@ -368,6 +450,9 @@ const AppWithTheme = () => {
 								{/* Screen reader announcer - always visible */}
 								<ScreenReaderAnnouncer messages={[]} politeness="polite" />
 
+								{/* Review dialog for sync merge conflicts */}
+								<SyncConflictDialog />
+
 								{/* Update notification */}
 								<Snackbar
 									open={updateAvailable}
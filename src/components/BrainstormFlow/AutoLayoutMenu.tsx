@@ -0,0 +1,76 @@
+import { AutoFixHigh as AutoFixHighIcon, Undo as UndoIcon } from '@mui/icons-material'
+import { Divider, IconButton, ListItemIcon, ListItemText, Menu, MenuItem, Tooltip } from '@mui/material'
+import { useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+
+import type { LayoutAlgorithm } from './utils/layoutEngine'
+
+interface AutoLayoutMenuProps {
+	onLayout: (algorithm: LayoutAlgorithm) => void
+	onUndo?: () => void
+	canUndo?: boolean
+	size?: 'small' | 'medium'
+}
+
+const LAYOUT_OPTIONS: { algorithm: LayoutAlgorithm; labelKey: string }[] = [
+	{ algorithm: 'layered-tb', labelKey: 'autoLayout.layeredTopDown' },
+	{ algorithm: 'layered-lr', labelKey: 'autoLayout.layeredLeftRight' },
+	{ algorithm: 'radial', labelKey: 'autoLayout.radial' },
+	{ algorithm: 'force', labelKey: 'autoLayout.force' },
+	{ algorithm: 'grid', labelKey: 'autoLayout.grid' },
+]
+
+/**
+ * Button with a menu of the available layout algorithms
+ */
+export const AutoLayoutMenu = ({ onLayout, onUndo, canUndo = false, size = 'small' }: AutoLayoutMenuProps) => {
+	const { t } = useI18n()
+	const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+
+	const handleSelect = (algorithm: LayoutAlgorithm) => {
+		setAnchorEl(null)
+		onLayout(algorithm)
+	}
+
+	return (
+		<>
+			<Tooltip title={t('autoLayout.title')}>
+				<IconButton
+					onClick={(event) => setAnchorEl(event.currentTarget)}
+					size={size}
+					color="primary"
+					aria-label={t('autoLayout.title')}
+					aria-haspopup="menu">
+					<AutoFixHighIcon />
+				</IconButton>
+			</Tooltip>
+			<Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+				{LAYOUT_OPTIONS.map(({ algorithm, labelKey }) => (
+					<MenuItem key={algorithm} onClick={() => handleSelect(algorithm)}>
+						<ListItemText primary={t(labelKey)} />
+					</MenuItem>
+				))}
+				<Divider />
+				<MenuItem disabled sx={{ whiteSpace: 'normal', maxWidth: 260 }}>
+					<ListItemText secondary={t('autoLayout.selectionHint')} />
+				</MenuItem>
+				{onUndo && (
+					<MenuItem
+						disabled={!canUndo}
+						onClick={() => {
+							setAnchorEl(null)
+							onUndo()
+						}}>
+						<ListItemIcon>
+							<UndoIcon fontSize="small" />
+						</ListItemIcon>
+						<ListItemText primary={t('autoLayout.undo')} />
+					</MenuItem>
+				)}
+			</Menu>
+		</>
+	)
+}
+
+export default AutoLayoutMenu
@@ -11,8 +11,11 @@ import { Menu, MenuItem, ListItemIcon, ListItemText, Divider, useTheme } from '@
 import React from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
+import type { GraphOperation } from '../../types'
 import { NodeType } from '../../types'
 
+import { renderGraphOperationMenuItems } from './graphOperationMenuItems'
+
 interface CanvasContextMenuProps {
 	anchorPosition: { x: number; y: number } | null
 	open: boolean
@@ -27,11 +30,15 @@ interface CanvasContextMenuProps {
 	canUndo: boolean
 	canRedo: boolean
 	canPaste: boolean
+	/** Runs an AI operation on the selected nodes */
+	onAIAction?: (operation: GraphOperation) => void
+	hasSelection?: boolean
 }
 
 /**
  * CanvasContextMenu component for displaying a context menu for the canvas
- * Provides options for adding nodes, pasting, fitting view, toggling grid, and undo/redo
+ * Provides options for adding nodes, pasting, fitting view, toggling grid, and undo/redo,
+ * and AI actions on the selected nodes when `onAIAction` is given
  */
 export const CanvasContextMenu: React.FC<CanvasContextMenuProps> = ({
 	anchorPosition,
@@ -47,6 +54,8 @@ export const CanvasContextMenu: React.FC<CanvasContextMenuProps> = ({
 	canUndo,
 	canRedo,
 	canPaste,
+	onAIAction,
+	hasSelection = false,
 }) => {
 	const theme = useTheme()
 	const { t } = useI18n()
@@ -201,6 +210,17 @@ export const CanvasContextMenu: React.FC<CanvasContextMenuProps> = ({
 				</ListItemIcon>
 				<ListItemText>{t('brainstorm.redo') || 'Redo'}</ListItemText>
 			</MenuItem>
+
+			{onAIAction
+				? renderGraphOperationMenuItems({
+					t,
+					onSelect: (operation) => {
+						onAIAction(operation)
+						onClose()
+					},
+					disabled: !hasSelection,
+				})
+				: null}
 		</Menu>
 	)
 }
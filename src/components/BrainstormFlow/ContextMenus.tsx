@@ -1,6 +1,6 @@
 import React from 'react'
 
-import type { Node, Edge, NodeType } from '../../types'
+import type { Node, Edge, GraphOperation, NodeType } from '../../types'
 
 import { CanvasContextMenu } from './CanvasContextMenu'
 import { EdgeContextMenu } from './EdgeContextMenu'
@@ -18,6 +18,7 @@ interface ContextMenusProps {
 	onStyleNode: (node: Node) => void
 	onAddChildNode: (node: Node) => void
 	onLinkNodeToChat: (node: Node) => void
+	onNodeAIAction?: (node: Node, operation: GraphOperation) => void
 
 	// Edge context menu props
 	edgeContextMenuOpen: boolean
@@ -42,6 +43,8 @@ interface ContextMenusProps {
 	canUndo: boolean
 	canRedo: boolean
 	canPaste: boolean
+	onCanvasAIAction?: (operation: GraphOperation) => void
+	hasSelection?: boolean
 }
 
 /**
@@ -60,6 +63,7 @@ export const ContextMenus: React.FC<ContextMenusProps> = ({
 	onStyleNode,
 	onAddChildNode,
 	onLinkNodeToChat,
+	onNodeAIAction,
 
 	// Edge context menu props
 	edgeContextMenuOpen,
@@ -84,6 +88,8 @@ export const ContextMenus: React.FC<ContextMenusProps> = ({
 	canUndo,
 	canRedo,
 	canPaste,
+	onCanvasAIAction,
+	hasSelection,
 }) => {
 	return (
 		<>
@@ -99,6 +105,7 @@ export const ContextMenus: React.FC<ContextMenusProps> = ({
 				onStyle={onStyleNode}
 				onAddChild={onAddChildNode}
 				onLinkToChat={onLinkNodeToChat}
+				{...(onNodeAIAction ? { onAIAction: onNodeAIAction } : {})}
 			/>
 
 			{/* Edge Context Menu */}
@@ -127,6 +134,8 @@ export const ContextMenus: React.FC<ContextMenusProps> = ({
 				canUndo={canUndo}
 				canRedo={canRedo}
 				canPaste={canPaste}
+				{...(onCanvasAIAction ? { onAIAction: onCanvasAIAction } : {})}
+				{...(hasSelection !== undefined ? { hasSelection } : {})}
 			/>
 		</>
 	)
@@ -6,7 +6,6 @@ import {
 	GridOn as GridOnIcon,
 	GridOff as GridOffIcon,
 	Settings as SettingsIcon,
-	AutoFixHigh as AutoFixHighIcon,
 } from '@mui/icons-material'
 import {
 	Box,
@@ -17,13 +16,18 @@ import {
 	alpha,
 } from '@mui/material'
 
+import { AutoLayoutMenu } from './AutoLayoutMenu'
+import type { LayoutAlgorithm } from './utils/layoutEngine'
+
 interface ControlsPanelProps {
 	handleSettingsOpen: (event: React.MouseEvent<HTMLElement>) => void
 	toggleGrid: () => void
 	toggleFullscreen: () => void
 	zoomIn: () => void
 	zoomOut: () => void
-	handleAutoLayout?: () => void
+	handleAutoLayout?: (algorithm: LayoutAlgorithm) => void
+	handleUndoLayout?: () => void
+	canUndoLayout?: boolean
 	isFullscreen: boolean
 	showGrid: boolean
 }
@@ -35,6 +39,8 @@ export default function ControlsPanel({
 	zoomIn,
 	zoomOut,
 	handleAutoLayout,
+	handleUndoLayout,
+	canUndoLayout,
 	isFullscreen,
 	showGrid,
 }: ControlsPanelProps) {
@@ -79,15 +85,11 @@ export default function ControlsPanel({
 					</IconButton>
 				</Tooltip>
 				{handleAutoLayout && (
-					<Tooltip title="Auto-arrange nodes">
-						<IconButton
-							onClick={handleAutoLayout}
-							size="small"
-							color="primary"
-							aria-label="Auto-arrange nodes">
-							<AutoFixHighIcon />
-						</IconButton>
-					</Tooltip>
+					<AutoLayoutMenu
+						onLayout={handleAutoLayout}
+						{...(handleUndoLayout ? { onUndo: handleUndoLayout } : {})}
+						{...(canUndoLayout !== undefined ? { canUndo: canUndoLayout } : {})}
+					/>
 				)}
 				<Tooltip title={isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen'}>
 					<IconButton
@@ -159,6 +159,8 @@ describe('EnhancedBrainstormFlow', () => {
 		;(useBrainstormStore as any).mockReturnValue({
 			nodes: [defaultNode],
 			edges: [],
+			past: [],
+			future: [],
 			setNodes: mockSetNodes,
 			setEdges: mockSetEdges,
 			updateNodeData: mockUpdateNodeData,
@@ -207,7 +209,7 @@ describe('EnhancedBrainstormFlow', () => {
 				</I18nProvider>
 			</BrowserRouter>,
 		)
-		expect(screen.getByTestId('panel')).toBeInTheDocument()
+		expect(screen.getAllByTestId('panel')).toHaveLength(2)
 		expect(screen.getByTestId('minimap')).toBeInTheDocument()
 	})
 
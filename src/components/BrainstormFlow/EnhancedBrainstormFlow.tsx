@@ -1,5 +1,10 @@
-import { FullscreenExit as FullscreenExitIcon, Fullscreen as FullscreenIcon, Save as SaveIcon } from '@mui/icons-material'
-import { Box, IconButton, Menu, MenuItem, Typography, Divider, Slider, useTheme, Button } from '@mui/material'
+import {
+	FullscreenExit as FullscreenExitIcon,
+	Fullscreen as FullscreenIcon,
+	LibraryBooks as SnippetsIcon,
+	Save as SaveIcon,
+} from '@mui/icons-material'
+import { Box, IconButton, Menu, MenuItem, Typography, Divider, Slider, useTheme, Button, Snackbar, Tooltip } from '@mui/material'
 import React, { useCallback, useRef, useState, useEffect, useMemo } from 'react'
 import type {
 	ReactFlowInstance,
@@ -9,6 +14,7 @@ import type {
 	NodeProps,
 	NodeChange,
 	NodeDragHandler,
+	SelectionDragHandler,
 	EdgeChange,
 	NodeMouseHandler,
 	Viewport,
@@ -27,29 +33,57 @@ import { useDebouncedCallback } from 'use-debounce'
 import 'reactflow/dist/style.css'
 
 // Project imports
+import { useI18n } from '../../contexts/I18nContext'
 import { useSettings } from '../../contexts/SettingsContext'
 import LLMChatPanel from '../../features/brainstorming/LLMChatPanel'
 import type { BrainstormNode } from '../../features/brainstorming/types'
+import { useVirtualization } from '../../hooks/useVirtualization'
+import snippetService from '../../services/SnippetService'
 import { useBrainstormStore } from '../../store/brainstormStore'
+import type { GraphOperation, Node } from '../../types'
 import { NodeType, EdgeType } from '../../types/enums'
+import { LOD_NODE_TYPE, VIRTUALIZATION_THRESHOLD } from '../../utils/canvasVirtualization'
+import {
+	COLLAPSED_GROUP_SIZE,
+	findGroupAt,
+	getAbsolutePosition,
+	getNodeSize,
+	isGroupNode,
+	orderGroupsFirst,
+} from '../../utils/groups'
+import { generateUniqueId } from '../../utils/idGenerator'
+import { placeSnippet, SNIPPET_MIME_TYPE } from '../../utils/snippets'
+import { copySubgraph, pasteSubgraph } from '../../utils/subgraphClipboard'
 import DeleteConfirmationDialog from '../DeleteConfirmationDialog'
+import SnippetPanel from '../Snippets/SnippetPanel'
 
 // Local Components
+import { AutoLayoutMenu } from './AutoLayoutMenu'
+import { CanvasContextMenu } from './CanvasContextMenu'
 import ControlsPanel from './ControlsPanel'
 import { EnhancedMiniMap } from './EnhancedMiniMap'
 import EnhancedZoomControls from './EnhancedZoomControls'
 import { FloatingControls } from './FloatingControls'
+import FlowToolbar from './FlowToolbar'
+import { GraphDiffDialog } from './GraphDiffDialog'
+import { useAutoLayout } from './hooks/useAutoLayout'
+import { useCanvasClipboard } from './hooks/useCanvasClipboard'
+import { useGraphOperations } from './hooks/useGraphOperations'
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import { NodeContextMenu } from './NodeContextMenu'
 import NodeEditDialog from './NodeEditDialog'
 import CustomNodeComponent from './nodes/CustomNode'
+import GroupNodeComponent from './nodes/GroupNode'
+import LodNodeComponent from './nodes/LodNode'
 import type { CustomNodeType, CustomEdge, NodeData } from './types'
-import { getLayoutedElements } from './utils/autoLayout'
 
 const nodeTypes = {
 	[NodeType.IDEA]: CustomNodeComponent,
 	[NodeType.TASK]: CustomNodeComponent,
 	[NodeType.RESOURCE]: CustomNodeComponent,
 	[NodeType.NOTE]: CustomNodeComponent,
+	[NodeType.GROUP]: GroupNodeComponent,
+	[LOD_NODE_TYPE]: LodNodeComponent,
 }
 
 // Removed redundant interface as it's likely defined in NodeEditDialog component
@@ -80,6 +114,20 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 		toggleArchiveNode,
 		removeNode,
 		updateNodePositions,
+		addNode,
+		past,
+		future,
+		undo,
+		redo,
+		beginBatch,
+		endBatch,
+		transact,
+		groupNodes,
+		ungroupNodes,
+		setNodeGroup,
+		focusedNodeId,
+		focusNode,
+		pasteNodes,
 	} = useBrainstormStore()
 
 	const [showArchived, setShowArchived] = useState(false)
@@ -93,7 +141,11 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 	const [zoomLevel, setZoomLevel] = useState(1)
 	const [showGrid, setShowGrid] = useState(true)
 	const [nodeSpacing, setNodeSpacing] = useState(50)
+	// Context menus open at the pointer; the node menu keeps the node it was opened on
+	const [nodeMenu, setNodeMenu] = useState<{ node: Node; position: { x: number; y: number } } | null>(null)
+	const [canvasMenuPosition, setCanvasMenuPosition] = useState<{ x: number; y: number } | null>(null)
 	const { settings } = useSettings()
+	const { t } = useI18n()
 
 	// Fullscreen handling
 	const toggleFullscreen = useCallback(() => {
@@ -165,22 +217,77 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 				color: insight.color,
 			},
 		}
-		setNodes((nodes) => [...nodes, newNode])
-	}, [setNodes])
+		transact('insertNodes', () => setNodes((nodes) => [...nodes, newNode]))
+	}, [setNodes, transact])
 
 	const nodesWithHandlers = useMemo(() => {
-		return (storeNodes as CustomNodeType[]).map((node) => ({
-			...node,
-			data: {
-				...node.data,
-				onEdit: (id: string): void => handleEditNode(id),
-				onDelete: (id: string, event: React.MouseEvent): void =>
-					handleDeleteNode(id, event),
-				onChat: (id: string): void => handleChatNode(id),
-			},
-		})).filter((node) => showArchived || !node.data.isArchived)
+		const visible = (storeNodes as CustomNodeType[]).filter((node) => showArchived || !node.data.isArchived)
+		const visibleIds = new Set(visible.map((node) => node.id))
+		const collapsedGroups = new Set(
+			visible.filter((node) => isGroupNode(node) && node.data.collapsed === true).map((node) => node.id),
+		)
+		// Members follow their group; React Flow needs the group first
+		return orderGroupsFirst(visible)
+			.filter((node) => node.parentId === undefined || visibleIds.has(node.parentId))
+			.map((node) => ({
+				...node,
+				...(node.parentId !== undefined ? { parentNode: node.parentId } : {}),
+				...(collapsedGroups.has(node.id) ? { style: { ...node.style, ...COLLAPSED_GROUP_SIZE } } : {}),
+				hidden: node.parentId !== undefined && collapsedGroups.has(node.parentId),
+				data: {
+					...node.data,
+					onEdit: (id: string): void => handleEditNode(id),
+					onDelete: (id: string, event: React.MouseEvent): void =>
+						handleDeleteNode(id, event),
+					onChat: (id: string): void => handleChatNode(id),
+				},
+			}))
 	}, [storeNodes, showArchived])
 
+	// Large maps only render what is in view
+	const virtualization = useVirtualization(nodesWithHandlers, storeEdges, { viewport, containerRef: flowRef })
+
+	// React Flow only fits the nodes it renders, so large maps fit to the bounds of all nodes
+	const fitAllNodes = useCallback((duration?: number) => {
+		if (!reactFlowInstance) return
+		if (virtualization.virtualized && virtualization.bounds !== null) {
+			reactFlowInstance.fitBounds(virtualization.bounds, { padding: 0.1, ...(duration !== undefined ? { duration } : {}) })
+		} else {
+			reactFlowInstance.fitView(duration !== undefined ? { duration } : undefined)
+		}
+	}, [reactFlowInstance, virtualization.virtualized, virtualization.bounds])
+
+	// React Flow's own fit on load is left out for large maps, see fitView below
+	const initialFitDone = useRef(false)
+	useEffect(() => {
+		if (initialFitDone.current || !reactFlowInstance || !virtualization.virtualized) return
+		initialFitDone.current = true
+		fitAllNodes()
+	}, [reactFlowInstance, virtualization.virtualized, fitAllNodes])
+
+	// Scroll to and select a node picked elsewhere, e.g. from search, once it is loaded
+	useEffect(() => {
+		if (focusedNodeId === null || !reactFlowInstance) return
+		const nodes = storeNodes as CustomNodeType[]
+		const nodesById = new Map(nodes.map((node) => [node.id, node]))
+		const node = nodesById.get(focusedNodeId)
+		if (!node) return
+
+		// Members of a collapsed group are hidden, so the group is shown instead
+		const parent = node.parentId !== undefined ? nodesById.get(node.parentId) : undefined
+		const target = parent?.data.collapsed === true ? parent : node
+		if (target.data.isArchived === true) setShowArchived(true)
+		const position = getAbsolutePosition(target, nodesById)
+		const size = target.data.collapsed === true ? COLLAPSED_GROUP_SIZE : getNodeSize(target)
+
+		setNodes(nodes.map((item) => ({ ...item, selected: item.id === target.id })))
+		reactFlowInstance.setCenter(position.x + size.width / 2, position.y + size.height / 2, {
+			zoom: Math.max(reactFlowInstance.getZoom(), 1),
+			duration: 400,
+		})
+		focusNode(null)
+	}, [focusedNodeId, storeNodes, reactFlowInstance, setNodes, focusNode])
+
 	const handleMouseMove = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
 		const bounds = flowRef.current?.getBoundingClientRect()
 		if (bounds) {
@@ -194,7 +301,7 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 	const onNodesChange = useCallback(
 		(changes: NodeChange[]) => {
 			// Batch node changes
-			setNodes((currentNodes) => {
+			const applyChanges = () => setNodes((currentNodes) => {
 				const updatedNodes = applyNodeChanges(changes, currentNodes)
 				// Ensure proper type conversion for each node
 				return updatedNodes.map((node) => ({
@@ -207,37 +314,48 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 					},
 				})) as CustomNodeType[]
 			})
+			// Selection and drag frames are not undoable, deleting with the keyboard is
+			if (changes.some((change) => change.type === 'remove')) {
+				transact('removeNode', applyChanges)
+			} else {
+				applyChanges()
+			}
 			setHasUnsavedChanges(true)
 		},
-		[setNodes],
+		[setNodes, transact],
 	)
 
 	const onEdgesChange = useCallback(
 		(changes: EdgeChange[]) => {
 			// Batch edge changes
-			setEdges((currentEdges) => {
+			const applyChanges = () => setEdges((currentEdges) => {
 				const updatedEdges = applyEdgeChanges(changes, currentEdges)
 				return updatedEdges.map((edge) => ({
 					...edge,
 					type: (edge.type as EdgeType) ?? EdgeType.DEFAULT,
 				})) as CustomEdge[]
 			})
+			if (changes.some((change) => change.type === 'remove')) {
+				transact('removeEdge', applyChanges)
+			} else {
+				applyChanges()
+			}
 			setHasUnsavedChanges(true)
 		},
-		[setEdges],
+		[setEdges, transact],
 	)
 
 	const onConnect = useCallback((connection: Connection) => {
-		setEdges((currentEdges) => {
+		transact('addEdge', () => setEdges((currentEdges) => {
 			const edge = {
 				...connection,
 				type: EdgeType.DEFAULT,
 				id: `e${connection.source}-${connection.target}`,
 			}
 			return addEdge(edge, currentEdges) as CustomEdge[]
-		})
+		}))
 		setHasUnsavedChanges(true)
-	}, [setEdges])
+	}, [setEdges, transact])
 
 	const handleEditNode = useCallback((nodeId: string): void => {
 		const node = nodesWithHandlers.find((n: CustomNodeType) => n.id === nodeId)
@@ -324,6 +442,41 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 		setViewport(viewport)
 	}, [])
 
+	// Nodes dropped onto a group frame join it, nodes dragged out of their group leave it
+	const adoptDroppedNodes = useCallback((dropped: ReactFlowNode[]) => {
+		const droppedIds = new Set(dropped.map((node) => node.id))
+		const candidates = storeNodes.filter((node) => !droppedIds.has(node.id))
+		for (const node of dropped) {
+			const current = storeNodes.find((n) => n.id === node.id)?.parentId
+			// Members dragged along with their group stay in it
+			if (isGroupNode({ type: node.type ?? '' }) || (current !== undefined && droppedIds.has(current))) continue
+			const { width, height } = getNodeSize(node)
+			const absolute = node.positionAbsolute ?? node.position
+			const center = { x: absolute.x + width / 2, y: absolute.y + height / 2 }
+			const target = findGroupAt(candidates, center, (group) => group.data.collapsed === true)
+			if (target?.id !== current) {
+				setNodeGroup(node.id, target?.id ?? null)
+			}
+		}
+	}, [storeNodes, setNodeGroup])
+
+	const handleGroupSelection = useCallback(() => {
+		const selected = storeNodes.filter((node) => node.selected === true && !isGroupNode(node))
+		if (selected.length === 0) return
+		groupNodes(selected.map((node) => node.id), t('groups.defaultTitle'))
+		setHasUnsavedChanges(true)
+	}, [storeNodes, groupNodes, t])
+
+	const handleUngroupSelection = useCallback(() => {
+		const groups = storeNodes.filter((node) => node.selected === true && isGroupNode(node))
+		if (groups.length === 0) return
+		transact('ungroupNodes', () => groups.forEach((group) => ungroupNodes(group.id)))
+		setHasUnsavedChanges(true)
+	}, [storeNodes, ungroupNodes, transact])
+
+	// A drag of one or many nodes is a single history step from start to drop
+	const startMoveBatch = useCallback(() => beginBatch('moveNodes'), [beginBatch])
+
 	const onNodeDragStop: NodeDragHandler = useCallback((event, node, nodes) => {
 		// Update positions of all dragged nodes
 		const updatedNodes = nodes
@@ -335,30 +488,146 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 		if (updatedNodes.length > 0) {
 			updateNodePositions(updatedNodes)
 		}
-	}, [updateNodePositions])
-
-	// Add auto-layout handler with proper type conversion
-	const handleAutoLayout = useCallback(() => {
-		if (reactFlowInstance) {
-			const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-				storeNodes,
-				storeEdges,
-				{ direction: 'TB', spacing: nodeSpacing },
-			)
-			setNodes(layoutedNodes.map((node) => ({
-				...node,
-				type: node.type as NodeType,
-			})) as CustomNodeType[])
-			setEdges(layoutedEdges.map((edge) => ({
-				...edge,
-				type: (edge.type as EdgeType) ?? EdgeType.DEFAULT,
-			})) as CustomEdge[])
-			setTimeout(() => reactFlowInstance.fitView(), 50)
+		adoptDroppedNodes(nodes.filter((n) => n.dragging))
+		endBatch()
+	}, [updateNodePositions, adoptDroppedNodes, endBatch])
+
+	const onSelectionDragStop: SelectionDragHandler = useCallback((_event, nodes) => {
+		updateNodePositions(nodes.map((n) => ({ id: n.id, position: n.position })))
+		adoptDroppedNodes(nodes)
+		endBatch()
+	}, [updateNodePositions, adoptDroppedNodes, endBatch])
+
+	const handleAddNode = useCallback((type: NodeType) => {
+		const bounds = flowRef.current?.getBoundingClientRect()
+		const position = reactFlowInstance && bounds
+			? reactFlowInstance.project({ x: bounds.width / 2, y: bounds.height / 2 })
+			: { x: 100, y: 100 }
+		addNode({ type, position })
+		setHasUnsavedChanges(true)
+	}, [reactFlowInstance, addNode])
+
+	// Layouts animate through the store so they are saved like manual moves
+	const [layoutNoticeOpen, setLayoutNoticeOpen] = useState(false)
+	const { applyLayout, undoLayout, canUndo: canUndoLayout } = useAutoLayout({
+		nodes: storeNodes,
+		edges: storeEdges,
+		updateNodePositions,
+		spacing: nodeSpacing,
+		onLayoutApplied: () => {
+			setLayoutNoticeOpen(true)
+			setHasUnsavedChanges(true)
+			setTimeout(() => fitAllNodes(400), 450)
+		},
+	})
+
+	const handleAutoLayout = useCallback(() => applyLayout('layered-tb'), [applyLayout])
+
+	const markUnsaved = useCallback(() => setHasUnsavedChanges(true), [])
+	useCanvasClipboard({ flowRef, title: t('clipboard.heading'), onChange: markUnsaved })
+
+	// AI operations are previewed as a diff and only applied when accepted
+	const graphOperations = useGraphOperations({ onApplied: markUnsaved })
+	const selectedIds = storeNodes.filter((node) => node.selected === true && !isGroupNode(node)).map((node) => node.id)
+
+	const handleNodeContextMenu: NodeMouseHandler = useCallback((event, node) => {
+		event.preventDefault()
+		const storeNode = storeNodes.find((item) => item.id === node.id)
+		if (!storeNode) return
+		const { id, type, position, data, parentId } = storeNode
+		setNodeMenu({
+			node: { id, type, position, data, ...(parentId !== undefined ? { parentId } : {}) },
+			position: { x: event.clientX, y: event.clientY },
+		})
+	}, [storeNodes])
+
+	const handlePaneContextMenu = useCallback((event: React.MouseEvent) => {
+		event.preventDefault()
+		setCanvasMenuPosition({ x: event.clientX, y: event.clientY })
+	}, [])
+
+	// Acts on the selection the node is part of, or on the node alone
+	const handleNodeAIAction = useCallback((node: Node, operation: GraphOperation) => {
+		void graphOperations.run(operation, selectedIds.includes(node.id) ? selectedIds : [node.id])
+	}, [graphOperations, selectedIds])
+
+	const handleDuplicateNode = useCallback((node: Node) => {
+		const payload = copySubgraph(storeNodes, storeEdges, [node.id], projectId)
+		if (payload === null) return
+		const { nodes, edges } = pasteSubgraph(payload)
+		pasteNodes(nodes, edges)
+		setHasUnsavedChanges(true)
+	}, [storeNodes, storeEdges, projectId, pasteNodes])
+
+	const handleAddChildNode = useCallback((node: Node) => {
+		const id = generateUniqueId()
+		const title = t('brainstorm.newIdea')
+		const now = new Date().toISOString()
+		const child: CustomNodeType = {
+			id,
+			type: NodeType.IDEA,
+			position: { x: node.position.x, y: node.position.y + 180 },
+			...(node.parentId !== undefined ? { parentId: node.parentId } : {}),
+			data: { id, type: NodeType.IDEA, title, label: title, content: '', tags: [], createdAt: now, updatedAt: now },
 		}
-	}, [reactFlowInstance, storeNodes, storeEdges, nodeSpacing, setNodes, setEdges])
+		transact('addNode', () => {
+			setNodes((nodes) => [...nodes, child])
+			setEdges((edges) => [...edges, { id: `e${node.id}-${id}`, source: node.id, target: id, type: EdgeType.DEFAULT }])
+		})
+		setHasUnsavedChanges(true)
+	}, [setNodes, setEdges, transact, t])
+
+	// Snippets dragged from the library panel are placed where they are dropped
+	const [showSnippets, setShowSnippets] = useState(false)
+	const [snippetError, setSnippetError] = useState(false)
+
+	const handleDragOver = useCallback((event: React.DragEvent) => {
+		if (!event.dataTransfer.types.includes(SNIPPET_MIME_TYPE)) return
+		event.preventDefault()
+		event.dataTransfer.dropEffect = 'copy'
+	}, [])
+
+	const handleDrop = useCallback((event: React.DragEvent) => {
+		const snippetId = event.dataTransfer.getData(SNIPPET_MIME_TYPE)
+		if (snippetId === '' || !reactFlowInstance) return
+		event.preventDefault()
+		const at = reactFlowInstance.screenToFlowPosition({ x: event.clientX, y: event.clientY })
+
+		const placeDropped = async () => {
+			const snippet = await snippetService.getSnippet(snippetId)
+			if (snippet === null) {
+				throw new Error(`Snippet ${snippetId} not found`)
+			}
+			const { nodes, edges } = placeSnippet(snippet, at)
+			pasteNodes(nodes, edges)
+			setHasUnsavedChanges(true)
+		}
+		placeDropped().catch((error: unknown) => {
+			console.error('Error placing snippet:', error)
+			setSnippetError(true)
+		})
+	}, [reactFlowInstance, pasteNodes])
+
+	const handleAddNodeAt = useCallback((type: NodeType, screenPosition: { x: number; y: number }) => {
+		if (!reactFlowInstance) return
+		addNode({ type, position: reactFlowInstance.screenToFlowPosition(screenPosition) })
+		setHasUnsavedChanges(true)
+	}, [reactFlowInstance, addNode])
 
 	// Initialize keyboard shortcuts
-	useKeyboardShortcuts({ reactFlowInstance, saveCurrentState, removeNode, nodeSpacing })
+	useKeyboardShortcuts({
+		saveCurrentState,
+		removeNode,
+		onAutoLayout: handleAutoLayout,
+		onGroupSelection: handleGroupSelection,
+		onUngroupSelection: handleUngroupSelection,
+		onAddNode: () => handleAddNode(NodeType.IDEA),
+		onUndo: () => undo(),
+		onRedo: () => redo(),
+		onToggleGrid: () => setShowGrid((show) => !show),
+		onToggleFullscreen: toggleFullscreen,
+		onFitView: () => fitAllNodes(),
+	})
 
 	return (
 		<div
@@ -373,10 +642,19 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 				position: 'relative',
 			}}
 			onMouseMove={handleMouseMove}>
+			<FlowToolbar
+				onZoomIn={() => reactFlowInstance?.zoomIn()}
+				onZoomOut={() => reactFlowInstance?.zoomOut()}
+				onFitView={() => fitAllNodes()}
+				onAddNode={handleAddNode}
+				onGroupSelection={handleGroupSelection}
+				canGroup={storeNodes.some((node) => node.selected === true && !isGroupNode(node))}
+				history={{ past, future, onUndo: undo, onRedo: redo }}
+			/>
 			<EnhancedZoomControls
 				zoomIn={() => reactFlowInstance?.zoomIn()}
 				zoomOut={() => reactFlowInstance?.zoomOut()}
-				fitView={() => reactFlowInstance?.fitView()}
+				fitView={() => fitAllNodes()}
 				zoomLevel={viewport.zoom}
 				onZoomChange={(zoom) => reactFlowInstance?.setViewport({ x: viewport.x, y: viewport.y, zoom })}
 				showGrid={showGrid}
@@ -384,6 +662,27 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 				isFullscreen={isFullscreen}
 				onToggleFullscreen={toggleFullscreen}
 			/>
+			<Panel position="top-left" style={{ margin: '10px' }}>
+				<Box
+					sx={{
+						display: 'flex',
+						backgroundColor: theme.palette.background.paper,
+						borderRadius: 1,
+						boxShadow: theme.shadows[2],
+					}}>
+					<AutoLayoutMenu onLayout={applyLayout} onUndo={undoLayout} canUndo={canUndoLayout} />
+					<Tooltip title={t('snippets.openPanel')}>
+						<IconButton
+							size="small"
+							onClick={() => setShowSnippets((show) => !show)}
+							color={showSnippets ? 'primary' : 'default'}
+							aria-label={t('snippets.openPanel')}
+							aria-pressed={showSnippets}>
+							<SnippetsIcon />
+						</IconButton>
+					</Tooltip>
+				</Box>
+			</Panel>
 			<Panel position="top-right" style={{ margin: '10px' }}>
 				<IconButton
 					onClick={toggleFullscreen}
@@ -399,16 +698,23 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 				</IconButton>
 			</Panel>
 			<ReactFlow
-				nodes={nodesWithHandlers}
-				edges={storeEdges}
+				nodes={virtualization.nodes}
+				edges={virtualization.edges}
 				onNodesChange={onNodesChange}
 				onEdgesChange={onEdgesChange}
 				onConnect={onConnect}
+				onNodeDragStart={startMoveBatch}
+				onNodeContextMenu={handleNodeContextMenu}
+				onPaneContextMenu={handlePaneContextMenu}
+				onDragOver={handleDragOver}
+				onDrop={handleDrop}
 				onNodeDragStop={onNodeDragStop}
+				onSelectionDragStart={startMoveBatch}
+				onSelectionDragStop={onSelectionDragStop}
 				onInit={(instance: ReactFlowInstance) => setReactFlowInstance(instance)}
 				onMove={handleViewportChange}
 				nodeTypes={nodeTypes}
-				fitView
+				fitView={initialNodes.length < VIRTUALIZATION_THRESHOLD}
 				minZoom={0.1}
 				maxZoom={1.5}
 				attributionPosition="bottom-left"
@@ -487,6 +793,73 @@ export const EnhancedBrainstormFlow: React.FC<EnhancedBrainstormFlowProps> = ({
 					/>
 				)}
 			</ReactFlow>
+			{showSnippets && <SnippetPanel onClose={() => setShowSnippets(false)} />}
+			<NodeContextMenu
+				node={nodeMenu?.node ?? null}
+				anchorPosition={nodeMenu?.position ?? null}
+				open={nodeMenu !== null}
+				onClose={() => setNodeMenu(null)}
+				onEdit={(node) => handleEditNode(node.id)}
+				onDuplicate={handleDuplicateNode}
+				onDelete={(node) => {
+					const target = nodesWithHandlers.find((item) => item.id === node.id)
+					if (!target) return
+					setSelectedNode(target)
+					setShowDeleteDialog(true)
+				}}
+				onStyle={(node) => handleEditNode(node.id)}
+				onAddChild={handleAddChildNode}
+				onLinkToChat={(node) => handleChatNode(node.id)}
+				onAIAction={handleNodeAIAction}
+			/>
+			<CanvasContextMenu
+				anchorPosition={canvasMenuPosition}
+				open={canvasMenuPosition !== null}
+				onClose={() => setCanvasMenuPosition(null)}
+				onAddNode={handleAddNodeAt}
+				// Pasting goes through the system clipboard with Ctrl+V
+				onPaste={() => undefined}
+				onFitView={() => fitAllNodes()}
+				onToggleGrid={() => setShowGrid(!showGrid)}
+				onUndo={() => undo()}
+				onRedo={() => redo()}
+				showGrid={showGrid}
+				canUndo={past.length > 0}
+				canRedo={future.length > 0}
+				canPaste={false}
+				onAIAction={(operation) => void graphOperations.run(operation, selectedIds)}
+				hasSelection={selectedIds.length > 0}
+			/>
+			<GraphDiffDialog
+				state={graphOperations.state}
+				nodes={storeNodes}
+				onApply={graphOperations.apply}
+				onRetry={graphOperations.retry}
+				onClose={graphOperations.dismiss}
+			/>
+			<Snackbar
+				open={layoutNoticeOpen}
+				autoHideDuration={5000}
+				onClose={() => setLayoutNoticeOpen(false)}
+				message={t('autoLayout.applied')}
+				action={
+					<Button
+						color="secondary"
+						size="small"
+						onClick={() => {
+							undoLayout()
+							setLayoutNoticeOpen(false)
+						}}>
+						{t('autoLayout.undo')}
+					</Button>
+				}
+			/>
+			<Snackbar
+				open={snippetError}
+				autoHideDuration={5000}
+				onClose={() => setSnippetError(false)}
+				message={t('snippets.placeError')}
+			/>
 		</div>
 	)
 }
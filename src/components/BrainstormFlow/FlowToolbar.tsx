@@ -1,19 +1,34 @@
-import { ZoomIn, ZoomOut, FitScreen, Add } from '@mui/icons-material'
-import { Box, IconButton, Tooltip } from '@mui/material'
+import { ZoomIn, ZoomOut, FitScreen, Add, Undo, Redo, GroupWork } from '@mui/icons-material'
+import { Box, Divider, IconButton, Tooltip } from '@mui/material'
 import { memo } from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
+import type { HistoryEntry } from '../../store/canvasHistory'
 import { NodeType } from '../../types'
 
+import { HistoryMenu } from './HistoryMenu'
+
+interface FlowToolbarHistory {
+	past: HistoryEntry[]
+	future: HistoryEntry[]
+	onUndo: (steps?: number) => void
+	onRedo: (steps?: number) => void
+}
+
 interface FlowToolbarProps {
 	onZoomIn: () => void
 	onZoomOut: () => void
 	onFitView: () => void
 	onAddNode: (type: NodeType) => void
 	readOnly?: boolean
+	/** Wraps the selected nodes in a group frame */
+	onGroupSelection?: () => void
+	canGroup?: boolean
+	/** Shows undo, redo and the history list when given */
+	history?: FlowToolbarHistory
 }
 
-const FlowToolbar = memo(({ onZoomIn, onZoomOut, onFitView, onAddNode, readOnly }: FlowToolbarProps) => {
+const FlowToolbar = memo(({ onZoomIn, onZoomOut, onFitView, onAddNode, readOnly, onGroupSelection, canGroup = false, history }: FlowToolbarProps) => {
 	const { t } = useI18n()
 
 	return (
@@ -58,6 +73,52 @@ const FlowToolbar = memo(({ onZoomIn, onZoomOut, onFitView, onAddNode, readOnly
 					</IconButton>
 				</Tooltip>
 			)}
+			{readOnly !== true && onGroupSelection !== undefined && (
+				<Tooltip title={t('groups.group')}>
+					<span>
+						<IconButton
+							onClick={onGroupSelection}
+							disabled={!canGroup}
+							size="medium"
+							aria-label={t('groups.group')}>
+							<GroupWork fontSize="small" />
+						</IconButton>
+					</span>
+				</Tooltip>
+			)}
+			{readOnly !== true && history !== undefined && (
+				<>
+					<Divider orientation="vertical" flexItem />
+					<Tooltip title={t('brainstorm.undo')}>
+						<span>
+							<IconButton
+								onClick={() => history.onUndo()}
+								disabled={history.past.length === 0}
+								size="medium"
+								aria-label={t('brainstorm.undo')}>
+								<Undo fontSize="small" />
+							</IconButton>
+						</span>
+					</Tooltip>
+					<Tooltip title={t('brainstorm.redo')}>
+						<span>
+							<IconButton
+								onClick={() => history.onRedo()}
+								disabled={history.future.length === 0}
+								size="medium"
+								aria-label={t('brainstorm.redo')}>
+								<Redo fontSize="small" />
+							</IconButton>
+						</span>
+					</Tooltip>
+					<HistoryMenu
+						past={history.past}
+						future={history.future}
+						onUndo={history.onUndo}
+						onRedo={history.onRedo}
+					/>
+				</>
+			)}
 		</Box>
 	)
 })
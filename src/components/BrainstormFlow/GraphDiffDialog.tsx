@@ -0,0 +1,184 @@
+import {
+	Alert,
+	Box,
+	Button,
+	Checkbox,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	List,
+	ListItem,
+	ListItemIcon,
+	Typography,
+} from '@mui/material'
+import { useEffect, useMemo, useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import type { GraphChange } from '../../types'
+
+import type { GraphOperationState } from './hooks/useGraphOperations'
+import type { CustomNodeType } from './types'
+
+interface GraphDiffDialogProps {
+	/** Operation to review; the dialog is closed without one */
+	state: GraphOperationState | null
+	/** Canvas nodes, for showing the titles of nodes the changes refer to */
+	nodes: CustomNodeType[]
+	onApply: (acceptedChangeIds: string[]) => void
+	onRetry: () => void
+	onClose: () => void
+}
+
+/**
+ * Previews the changes an AI graph operation proposes. Each change can be
+ * accepted or rejected on its own; only accepted ones reach the canvas.
+ */
+export const GraphDiffDialog = ({ state, nodes, onApply, onRetry, onClose }: GraphDiffDialogProps) => {
+	const { t } = useI18n()
+	const diff = state?.diff ?? null
+	const [accepted, setAccepted] = useState<Set<string>>(new Set())
+
+	// Every change is accepted until it is unticked
+	useEffect(() => {
+		setAccepted(new Set(diff?.changes.map((change) => change.id) ?? []))
+	}, [diff])
+
+	const titles = useMemo(() => {
+		const result = new Map(nodes.map((node) => [node.id, node.data.title]))
+		diff?.changes.forEach((change) => {
+			if (change.kind === 'add') result.set(change.node.id, change.node.title)
+		})
+		return result
+	}, [nodes, diff])
+	const getTitle = (id: string) => titles.get(id) ?? id
+
+	const toggle = (id: string) =>
+		setAccepted((current) => {
+			const next = new Set(current)
+			if (next.has(id)) next.delete(id)
+			else next.add(id)
+			return next
+		})
+
+	const renderChange = (change: GraphChange) => {
+		switch (change.kind) {
+		case 'add': {
+			const connections = (diff?.edges ?? [])
+				.filter((edge) => edge.source === change.node.id || edge.target === change.node.id)
+				.map((edge) => getTitle(edge.source === change.node.id ? edge.target : edge.source))
+			return (
+				<>
+					<Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 0.5 }}>
+						<Chip size="small" color="success" label={t('graphOperations.added')} />
+						<Chip size="small" variant="outlined" label={change.node.type} />
+						<Typography variant="subtitle2">{change.node.title}</Typography>
+					</Box>
+					<Typography variant="body2" color="text.secondary">
+						{change.node.content}
+					</Typography>
+					{connections.length > 0 && (
+						<Typography variant="caption" color="text.secondary">
+							{t('graphOperations.connectsTo', { nodes: connections.join(', ') })}
+						</Typography>
+					)}
+				</>
+			)
+		}
+		case 'update':
+			return (
+				<>
+					<Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 0.5 }}>
+						<Chip size="small" color="info" label={t('graphOperations.updated')} />
+						<Typography variant="subtitle2">{getTitle(change.nodeId)}</Typography>
+					</Box>
+					<Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+						<Box>
+							<Typography variant="caption" color="text.secondary">
+								{t('graphOperations.before')}
+							</Typography>
+							<Typography variant="body2" color="text.secondary" sx={{ textDecoration: 'line-through' }}>
+								<strong>{change.before.title}</strong> {change.before.content}
+							</Typography>
+						</Box>
+						<Box>
+							<Typography variant="caption" color="text.secondary">
+								{t('graphOperations.after')}
+							</Typography>
+							<Typography variant="body2">
+								<strong>{change.after.title}</strong> {change.after.content}
+							</Typography>
+						</Box>
+					</Box>
+				</>
+			)
+		case 'group':
+			return (
+				<>
+					<Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 0.5 }}>
+						<Chip size="small" color="secondary" label={t('graphOperations.grouped')} />
+						<Typography variant="subtitle2">{change.title}</Typography>
+					</Box>
+					<Typography variant="caption" color="text.secondary">
+						{t('graphOperations.members', { nodes: change.nodeIds.map(getTitle).join(', ') })}
+					</Typography>
+				</>
+			)
+		}
+	}
+
+	const changes = diff?.changes ?? []
+
+	return (
+		<Dialog open={state !== null} onClose={onClose} maxWidth="md" fullWidth>
+			<DialogTitle>{state ? t(`graphOperations.${state.operation}`) : ''}</DialogTitle>
+			<DialogContent dividers>
+				{state?.loading === true && (
+					<Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+						<CircularProgress size={20} />
+						<Typography>{t('graphOperations.running')}</Typography>
+					</Box>
+				)}
+				{typeof state?.error === 'string' && <Alert severity="error">{state.error}</Alert>}
+				{diff && changes.length === 0 && (
+					<Typography color="text.secondary">{t('graphOperations.noChanges')}</Typography>
+				)}
+				{changes.length > 0 && (
+					<List dense disablePadding>
+						{changes.map((change) => (
+							<ListItem key={change.id} alignItems="flex-start" disableGutters divider>
+								<ListItemIcon sx={{ minWidth: 40 }}>
+									<Checkbox
+										edge="start"
+										checked={accepted.has(change.id)}
+										onChange={() => toggle(change.id)}
+										inputProps={{ 'aria-labelledby': `graph-change-${change.id}` }}
+									/>
+								</ListItemIcon>
+								<Box id={`graph-change-${change.id}`} sx={{ flex: 1, minWidth: 0 }}>
+									{renderChange(change)}
+								</Box>
+							</ListItem>
+						))}
+					</List>
+				)}
+			</DialogContent>
+			<DialogActions>
+				{typeof state?.error === 'string' && <Button onClick={onRetry}>{t('graphOperations.retry')}</Button>}
+				{changes.length > 0 && accepted.size < changes.length && (
+					<Button onClick={() => setAccepted(new Set(changes.map((change) => change.id)))}>
+						{t('graphOperations.selectAll')}
+					</Button>
+				)}
+				<Button onClick={onClose}>{t('graphOperations.rejectAll')}</Button>
+				<Button variant="contained" onClick={() => onApply([...accepted])} disabled={accepted.size === 0}>
+					{t('graphOperations.apply', { count: accepted.size })}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	)
+}
+
+export default GraphDiffDialog
@@ -0,0 +1,83 @@
+import { History as HistoryIcon } from '@mui/icons-material'
+import { Divider, IconButton, ListItemText, Menu, MenuItem, Tooltip } from '@mui/material'
+import { useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import type { HistoryEntry } from '../../store/canvasHistory'
+
+interface HistoryMenuProps {
+	past: HistoryEntry[]
+	future: HistoryEntry[]
+	onUndo: (steps: number) => void
+	onRedo: (steps: number) => void
+	size?: 'small' | 'medium'
+}
+
+/**
+ * Button with the canvas history, newest first. Selecting an entry undoes or
+ * redoes everything up to and including it.
+ */
+export const HistoryMenu = ({ past, future, onUndo, onRedo, size = 'medium' }: HistoryMenuProps) => {
+	const { t } = useI18n()
+	const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+
+	const select = (travel: () => void) => {
+		setAnchorEl(null)
+		travel()
+	}
+
+	const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString()
+
+	return (
+		<>
+			<Tooltip title={t('history.title')}>
+				<IconButton
+					onClick={(event) => setAnchorEl(event.currentTarget)}
+					size={size}
+					aria-label={t('history.title')}
+					aria-haspopup="menu">
+					<HistoryIcon fontSize="small" />
+				</IconButton>
+			</Tooltip>
+			<Menu
+				anchorEl={anchorEl}
+				open={anchorEl !== null}
+				onClose={() => setAnchorEl(null)}
+				slotProps={{ paper: { sx: { maxHeight: 400, minWidth: 240 } } }}>
+				{/* Redo entries, the furthest one on top */}
+				{future.map((entry, index) => (
+					<MenuItem key={entry.id} onClick={() => select(() => onRedo(future.length - index))}>
+						<ListItemText
+							primary={t(`history.actions.${entry.action}`)}
+							secondary={formatTime(entry.timestamp)}
+							sx={{ opacity: 0.5 }}
+						/>
+					</MenuItem>
+				))}
+				{future.length > 0 && <Divider />}
+				{past
+					.map((entry, index) => ({ entry, steps: past.length - 1 - index }))
+					.reverse()
+					.map(({ entry, steps }) => (
+						<MenuItem key={entry.id} selected={steps === 0} onClick={() => select(() => onUndo(steps))}>
+							<ListItemText
+								primary={t(`history.actions.${entry.action}`)}
+								secondary={formatTime(entry.timestamp)}
+							/>
+						</MenuItem>
+					))}
+				<MenuItem
+					selected={past.length === 0}
+					disabled={past.length === 0 && future.length === 0}
+					onClick={() => select(() => onUndo(past.length))}>
+					<ListItemText
+						primary={t('history.initialState')}
+						secondary={past.length === 0 && future.length === 0 ? t('history.empty') : undefined}
+					/>
+				</MenuItem>
+			</Menu>
+		</>
+	)
+}
+
+export default HistoryMenu
@@ -19,8 +19,10 @@ import {
 	Box,
 } from '@mui/material'
 import React from 'react'
+import { useNavigate } from 'react-router-dom'
 
 import { useI18n } from '../../contexts/I18nContext'
+import { useKeymapSections } from '../../hooks/useKeymap'
 
 interface KeyboardShortcutsDialogProps {
 	open: boolean
@@ -28,88 +30,20 @@ interface KeyboardShortcutsDialogProps {
 }
 
 /**
- * Dialog that displays all available keyboard shortcuts
+ * Dialog that displays all keyboard shortcuts of the keymap
  */
 const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open, onClose }) => {
 	const theme = useTheme()
 	const { t } = useI18n()
 	const isMobile = useMediaQuery(theme.breakpoints.down('sm'))
 
-	// Define all keyboard shortcuts
-	const shortcuts = [
-		{
-			category: t('shortcuts.category.navigation') || 'Navigation',
-			items: [
-				{
-					action: t('shortcuts.zoomIn') || 'Zoom In',
-					shortcut: 'Ctrl + =, Ctrl + +',
-				},
-				{
-					action: t('shortcuts.zoomOut') || 'Zoom Out',
-					shortcut: 'Ctrl + -, Ctrl + _',
-				},
-				{
-					action: t('shortcuts.fitView') || 'Fit View',
-					shortcut: 'Ctrl + 0',
-				},
-				{
-					action: t('shortcuts.toggleGrid') || 'Toggle Grid',
-					shortcut: 'Ctrl + G',
-				},
-			],
-		},
-		{
-			category: t('shortcuts.category.editing') || 'Editing',
-			items: [
-				{
-					action: t('shortcuts.addNode') || 'Add Node',
-					shortcut: 'Ctrl + N',
-				},
-				{
-					action: t('shortcuts.delete') || 'Delete Selected',
-					shortcut: 'Delete, Backspace',
-				},
-				{
-					action: t('shortcuts.copy') || 'Copy Selected',
-					shortcut: 'Ctrl + C',
-				},
-				{
-					action: t('shortcuts.paste') || 'Paste',
-					shortcut: 'Ctrl + V',
-				},
-			],
-		},
-		{
-			category: t('shortcuts.category.history') || 'History',
-			items: [
-				{
-					action: t('shortcuts.undo') || 'Undo',
-					shortcut: 'Ctrl + Z',
-				},
-				{
-					action: t('shortcuts.redo') || 'Redo',
-					shortcut: 'Ctrl + Shift + Z, Ctrl + Y',
-				},
-				{
-					action: t('shortcuts.save') || 'Save',
-					shortcut: 'Ctrl + S',
-				},
-			],
-		},
-		{
-			category: t('shortcuts.category.help') || 'Help',
-			items: [
-				{
-					action: t('shortcuts.help') || 'Help',
-					shortcut: 'F1, ?',
-				},
-				{
-					action: t('shortcuts.showShortcuts') || 'Show Shortcuts',
-					shortcut: 'Ctrl + /',
-				},
-			],
-		},
-	]
+	const navigate = useNavigate()
+	const sections = useKeymapSections()
+
+	const handleCustomize = () => {
+		onClose()
+		void navigate('/settings/shortcuts')
+	}
 
 	return (
 		<Dialog
@@ -121,30 +55,30 @@ const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open,
 			aria-labelledby="keyboard-shortcuts-dialog-title">
 			<DialogTitle id="keyboard-shortcuts-dialog-title" sx={{ display: 'flex', alignItems: 'center' }}>
 				<Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
-					{t('shortcuts.title') || 'Keyboard Shortcuts'}
+					{t('shortcuts.title')}
 				</Typography>
-				<IconButton edge="end" color="inherit" onClick={onClose} aria-label="close">
+				<IconButton edge="end" color="inherit" onClick={onClose} aria-label={t('common.close')}>
 					<CloseIcon />
 				</IconButton>
 			</DialogTitle>
 			<DialogContent dividers>
-				{shortcuts.map((category) => (
-					<Box key={category.category} sx={{ marginBottom: theme.spacing(3) }}>
+				{sections.map((section) => (
+					<Box key={section.category} sx={{ marginBottom: theme.spacing(3) }}>
 						<Typography variant="h6" gutterBottom>
-							{category.category}
+							{section.title}
 						</Typography>
 						<TableContainer component={Paper} variant="outlined">
 							<Table size={isMobile ? 'small' : 'medium'}>
 								<TableHead>
 									<TableRow>
-										<TableCell>{t('shortcuts.action') || 'Action'}</TableCell>
-										<TableCell>{t('shortcuts.shortcut') || 'Shortcut'}</TableCell>
+										<TableCell>{t('shortcuts.action')}</TableCell>
+										<TableCell>{t('shortcuts.shortcut')}</TableCell>
 									</TableRow>
 								</TableHead>
 								<TableBody>
-									{category.items.map((item) => (
-										<TableRow key={item.action}>
-											<TableCell>{item.action}</TableCell>
+									{section.items.map((item) => (
+										<TableRow key={item.id}>
+											<TableCell>{item.label}</TableCell>
 											<TableCell>
 												<Typography
 													component="code"
@@ -154,7 +88,7 @@ const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open,
 														borderRadius: 1,
 														fontFamily: 'monospace',
 													}}>
-													{item.shortcut}
+													{item.bindings.join(', ') || t('shortcuts.unbound')}
 												</Typography>
 											</TableCell>
 										</TableRow>
@@ -166,8 +100,9 @@ const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open,
 				))}
 			</DialogContent>
 			<DialogActions>
+				<Button onClick={handleCustomize}>{t('shortcuts.customize')}</Button>
 				<Button onClick={onClose} color="primary">
-					{t('common.close') || 'Close'}
+					{t('common.close')}
 				</Button>
 			</DialogActions>
 		</Dialog>
@@ -1,16 +1,9 @@
 import { Close as CloseIcon, Keyboard as KeyboardIcon } from '@mui/icons-material'
 import { Box, Typography, Paper, IconButton, useTheme, Fade, Backdrop, Grid, Divider } from '@mui/material'
-import React, { useEffect, useState } from 'react'
+import React, { useEffect } from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
-
-interface ShortcutCategory {
-	category: string
-	items: {
-		action: string
-		shortcut: string
-	}[]
-}
+import { useKeymapSections } from '../../hooks/useKeymap'
 
 interface KeyboardShortcutsOverlayProps {
 	open: boolean
@@ -18,91 +11,13 @@ interface KeyboardShortcutsOverlayProps {
 }
 
 /**
- * Overlay that displays keyboard shortcuts when Shift+? is pressed
+ * Overlay that displays the keyboard shortcuts of the keymap
  * Appears as a semi-transparent overlay on top of the canvas
  */
 const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ open, onClose }) => {
 	const theme = useTheme()
 	const { t } = useI18n()
-	const [shortcuts, setShortcuts] = useState<ShortcutCategory[]>([])
-
-	// Define all keyboard shortcuts
-	useEffect(() => {
-		setShortcuts([
-			{
-				category: t('shortcuts.category.navigation') || 'Navigation',
-				items: [
-					{
-						action: t('shortcuts.zoomIn') || 'Zoom In',
-						shortcut: 'Ctrl + =',
-					},
-					{
-						action: t('shortcuts.zoomOut') || 'Zoom Out',
-						shortcut: 'Ctrl + -',
-					},
-					{
-						action: t('shortcuts.fitView') || 'Fit View',
-						shortcut: 'Ctrl + 0',
-					},
-					{
-						action: t('shortcuts.toggleGrid') || 'Toggle Grid',
-						shortcut: 'Ctrl + G',
-					},
-				],
-			},
-			{
-				category: t('shortcuts.category.editing') || 'Editing',
-				items: [
-					{
-						action: t('shortcuts.addNode') || 'Add Node',
-						shortcut: 'Ctrl + N',
-					},
-					{
-						action: t('shortcuts.delete') || 'Delete Selected',
-						shortcut: 'Delete',
-					},
-					{
-						action: t('shortcuts.copy') || 'Copy Selected',
-						shortcut: 'Ctrl + C',
-					},
-					{
-						action: t('shortcuts.paste') || 'Paste',
-						shortcut: 'Ctrl + V',
-					},
-				],
-			},
-			{
-				category: t('shortcuts.category.history') || 'History',
-				items: [
-					{
-						action: t('shortcuts.undo') || 'Undo',
-						shortcut: 'Ctrl + Z',
-					},
-					{
-						action: t('shortcuts.redo') || 'Redo',
-						shortcut: 'Ctrl + Y',
-					},
-					{
-						action: t('shortcuts.save') || 'Save',
-						shortcut: 'Ctrl + S',
-					},
-				],
-			},
-			{
-				category: t('shortcuts.category.help') || 'Help',
-				items: [
-					{
-						action: t('shortcuts.help') || 'Help',
-						shortcut: 'F1',
-					},
-					{
-						action: t('shortcuts.showShortcuts') || 'Show Shortcuts',
-						shortcut: 'Shift + ?',
-					},
-				],
-			},
-		])
-	}, [t])
+	const sections = useKeymapSections()
 
 	// Close on Escape key
 	useEffect(() => {
@@ -149,14 +64,14 @@ const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ ope
 							top: 8,
 						}}
 						onClick={onClose}
-						aria-label={t('common.close') || 'Close'}>
+						aria-label={t('common.close')}>
 						<CloseIcon />
 					</IconButton>
 
 					<Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
 						<KeyboardIcon sx={{ mr: 1 }} />
 						<Typography variant="h5" component="h2">
-							{t('shortcuts.title') || 'Keyboard Shortcuts'}
+							{t('shortcuts.title')}
 						</Typography>
 					</Box>
 
@@ -168,15 +83,15 @@ const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ ope
 							gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' },
 							gap: 3,
 						}}>
-						{shortcuts.map((category) => (
-							<Box key={category.category}>
+						{sections.map((section) => (
+							<Box key={section.category}>
 								<Typography variant="h6" gutterBottom sx={{ fontWeight: 'bold' }}>
-									{category.category}
+									{section.title}
 								</Typography>
 								<Box sx={{ mb: 3 }}>
-									{category.items.map((item) => (
+									{section.items.map((item) => (
 										<Box
-											key={item.action}
+											key={item.id}
 											sx={{
 												display: 'flex',
 												justifyContent: 'space-between',
@@ -184,7 +99,7 @@ const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ ope
 												py: 1,
 												borderBottom: `1px solid ${theme.palette.divider}`,
 											}}>
-											<Typography variant="body1">{item.action}</Typography>
+											<Typography variant="body1">{item.label}</Typography>
 											<Typography
 												component="code"
 												sx={{
@@ -194,7 +109,7 @@ const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ ope
 													fontFamily: 'monospace',
 													fontSize: '0.875rem',
 												}}>
-												{item.shortcut}
+												{item.bindings.join(', ') || t('shortcuts.unbound')}
 											</Typography>
 										</Box>
 									))}
@@ -205,7 +120,7 @@ const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ ope
 
 					<Box sx={{ mt: 3, textAlign: 'center', opacity: 0.7 }}>
 						<Typography variant="body2">
-							{t('shortcuts.tip') || 'Tip: Press Escape to close this overlay'}
+							{t('shortcuts.tip')}
 						</Typography>
 					</Box>
 				</Paper>
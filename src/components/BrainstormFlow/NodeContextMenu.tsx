@@ -12,7 +12,9 @@ import { Menu, MenuItem, ListItemIcon, ListItemText, Divider, useTheme } from '@
 import React from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
-import type { Node } from '../../types'
+import type { GraphOperation, Node } from '../../types'
+
+import { renderGraphOperationMenuItems } from './graphOperationMenuItems'
 
 interface NodeContextMenuProps {
 	node: Node | null
@@ -25,11 +27,14 @@ interface NodeContextMenuProps {
 	onStyle: (node: Node) => void
 	onAddChild: (node: Node) => void
 	onLinkToChat: (node: Node) => void
+	/** Runs an AI operation on the node, or on the selection it is part of */
+	onAIAction?: (node: Node, operation: GraphOperation) => void
 }
 
 /**
  * NodeContextMenu component for displaying a context menu for nodes
- * Provides options for editing, duplicating, styling, and deleting nodes
+ * Provides options for editing, duplicating, styling, and deleting nodes, and
+ * AI actions when `onAIAction` is given
  */
 export const NodeContextMenu: React.FC<NodeContextMenuProps> = ({
 	node,
@@ -42,6 +47,7 @@ export const NodeContextMenu: React.FC<NodeContextMenuProps> = ({
 	onStyle,
 	onAddChild,
 	onLinkToChat,
+	onAIAction,
 }) => {
 	const theme = useTheme()
 	const { t } = useI18n()
@@ -133,6 +139,16 @@ export const NodeContextMenu: React.FC<NodeContextMenuProps> = ({
 				<ListItemText>{t('flow.linkToChat') || 'Link to Chat'}</ListItemText>
 			</MenuItem>
 
+			{onAIAction
+				? renderGraphOperationMenuItems({
+					t,
+					onSelect: (operation) => {
+						onAIAction(node, operation)
+						onClose()
+					},
+				})
+				: null}
+
 			<Divider />
 
 			<MenuItem
@@ -139,15 +139,18 @@ const NodeEditDialog = ({ open, onClose, onSave, initialData, initialType = Node
 			<DialogContent>
 				<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
 					{/* Form Controls... */}
-					<FormControl fullWidth>
-						<InputLabel id="node-type-label">Node Type</InputLabel>
-						<Select labelId="node-type-label" value={type} label="Node Type" onChange={handleTypeChange}>
-							<MenuItem value={NodeType.IDEA}>Idea</MenuItem>
-							<MenuItem value={NodeType.TASK}>Task</MenuItem>
-							<MenuItem value={NodeType.NOTE}>Note</MenuItem>
-							<MenuItem value={NodeType.RESOURCE}>Resource</MenuItem>
-						</Select>
-					</FormControl>
+					{/* Group frames keep their type */}
+					{type !== NodeType.GROUP && (
+						<FormControl fullWidth>
+							<InputLabel id="node-type-label">Node Type</InputLabel>
+							<Select labelId="node-type-label" value={type} label="Node Type" onChange={handleTypeChange}>
+								<MenuItem value={NodeType.IDEA}>Idea</MenuItem>
+								<MenuItem value={NodeType.TASK}>Task</MenuItem>
+								<MenuItem value={NodeType.NOTE}>Note</MenuItem>
+								<MenuItem value={NodeType.RESOURCE}>Resource</MenuItem>
+							</Select>
+						</FormControl>
+					)}
 					<TextField
 						label="Label"
 						value={label}
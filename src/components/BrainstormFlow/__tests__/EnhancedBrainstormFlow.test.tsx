@@ -114,6 +114,8 @@ vi.mock('../../../store/brainstormStore', () => ({
 	useBrainstormStore: vi.fn(() => ({
 		nodes: [],
 		edges: [],
+		past: [],
+		future: [],
 		setNodes: vi.fn(),
 		setEdges: vi.fn(),
 	})),
@@ -148,6 +150,21 @@ vi.mock('@mui/icons-material', () => ({
 	FitScreen: () => <svg data-testid="FitScreenIcon" />,
 	GridOn: () => <svg data-testid="GridOnIcon" />,
 	GridOff: () => <svg data-testid="GridOffIcon" />,
+	AccountTree: () => <svg data-testid="AccountTreeIcon" />,
+	Summarize: () => <svg data-testid="SummarizeIcon" />,
+	Workspaces: () => <svg data-testid="WorkspacesIcon" />,
+	FactCheck: () => <svg data-testid="FactCheckIcon" />,
+	AutoFixHigh: () => <svg data-testid="AutoFixHighIcon" />,
+	LibraryBooks: () => <svg data-testid="LibraryBooksIcon" />,
+	Fullscreen: () => <svg data-testid="FullscreenIcon" />,
+	Add: () => <svg data-testid="AddIcon" />,
+	GroupWork: () => <svg data-testid="GroupWorkIcon" />,
+	Undo: () => <svg data-testid="UndoIcon" />,
+	Redo: () => <svg data-testid="RedoIcon" />,
+	History: () => <svg data-testid="HistoryIcon" />,
+	AddCircleOutline: () => <svg data-testid="AddCircleOutlineIcon" />,
+	ContentPaste: () => <svg data-testid="ContentPasteIcon" />,
+	ZoomOutMap: () => <svg data-testid="ZoomOutMapIcon" />,
 	// Add other icons if needed by components used here
 }))
 
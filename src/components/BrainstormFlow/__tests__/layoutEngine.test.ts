@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import type { LayoutEdge, LayoutNode, NodePosition } from '../utils/layoutEngine'
+import { animatePositions, computeLayout, getLayoutTargets } from '../utils/layoutEngine'
+
+const node = (id: string, x = 0, y = 0, selected = false): LayoutNode => ({
+	id,
+	position: { x, y },
+	width: 100,
+	height: 40,
+	selected,
+})
+
+const edge = (source: string, target: string): LayoutEdge => ({ source, target })
+
+const positionOf = (positions: NodePosition[], id: string) => positions.find((item) => item.id === id)!.position
+
+// Chain a -> b -> c with a second child of a
+const nodes = [node('a', 500, 500), node('b', 510, 520), node('c', 520, 540), node('d', 530, 560)]
+const edges = [edge('a', 'b'), edge('b', 'c'), edge('a', 'd')]
+
+describe('layoutEngine', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	it('puts layers below each other top-down and next to each other left-right', () => {
+		const topDown = computeLayout(nodes, edges, { algorithm: 'layered-tb', spacing: 20 })
+		expect(positionOf(topDown, 'b').y).toBeGreaterThan(positionOf(topDown, 'a').y)
+		expect(positionOf(topDown, 'c').y).toBeGreaterThan(positionOf(topDown, 'b').y)
+		expect(positionOf(topDown, 'b').y).toBe(positionOf(topDown, 'd').y)
+		// The bounding box keeps its top-left corner
+		expect(Math.min(...topDown.map((item) => item.position.x))).toBe(500)
+		expect(Math.min(...topDown.map((item) => item.position.y))).toBe(500)
+
+		const leftRight = computeLayout(nodes, edges, { algorithm: 'layered-lr', spacing: 20 })
+		expect(positionOf(leftRight, 'b').x).toBeGreaterThan(positionOf(leftRight, 'a').x)
+		expect(positionOf(leftRight, 'b').x).toBe(positionOf(leftRight, 'd').x)
+	})
+
+	it('places rings around the chosen root', () => {
+		const positions = computeLayout(nodes, edges, { algorithm: 'radial', spacing: 20, rootId: 'b' })
+		const center = { x: 560, y: 540 }
+		const distance = (id: string) => {
+			const { x, y } = positionOf(positions, id)
+			return Math.hypot(x + 50 - center.x, y + 20 - center.y)
+		}
+
+		// The root keeps its place
+		expect(positionOf(positions, 'b')).toEqual({ x: 510, y: 520 })
+		expect(distance('a')).toBeCloseTo(distance('c'))
+		expect(distance('d')).toBeCloseTo(distance('a') * 2)
+	})
+
+	it('separates nodes with the force-directed layout', () => {
+		const stacked = [node('a'), node('b'), node('c')]
+		const positions = computeLayout(stacked, [edge('a', 'b')], { algorithm: 'force', spacing: 50 })
+
+		for (const [first, second] of [
+			['a', 'b'],
+			['a', 'c'],
+			['b', 'c'],
+		] as const) {
+			const p = positionOf(positions, first)
+			const q = positionOf(positions, second)
+			expect(Math.hypot(p.x - q.x, p.y - q.y)).toBeGreaterThan(100)
+		}
+	})
+
+	it('fills a square grid in reading order', () => {
+		const scattered = [node('a', 900, 0), node('b', 0, 0), node('c', 0, 300), node('d', 400, 300), node('e', 0, 900)]
+		const positions = computeLayout(scattered, [], { algorithm: 'grid', spacing: 10 })
+
+		expect(positionOf(positions, 'b')).toEqual({ x: 0, y: 0 })
+		expect(positionOf(positions, 'a')).toEqual({ x: 110, y: 0 })
+		expect(positionOf(positions, 'c')).toEqual({ x: 220, y: 0 })
+		expect(positionOf(positions, 'd')).toEqual({ x: 0, y: 50 })
+	})
+
+	it('targets the selection only when several nodes are selected', () => {
+		expect(getLayoutTargets([node('a', 0, 0, true), node('b')])).toHaveLength(2)
+		expect(getLayoutTargets([node('a', 0, 0, true), node('b', 0, 0, true), node('c')]).map((n) => n.id)).toEqual([
+			'a',
+			'b',
+		])
+	})
+
+	it('animates to the target positions', () => {
+		const frames: FrameRequestCallback[] = []
+		vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback))
+		vi.stubGlobal('cancelAnimationFrame', vi.fn())
+		const onFrame = vi.fn()
+
+		animatePositions([{ id: 'a', position: { x: 0, y: 0 } }], [{ id: 'a', position: { x: 100, y: 0 } }], onFrame, 100)
+		frames.shift()!(0)
+		frames.shift()!(50)
+		frames.shift()!(100)
+
+		expect(onFrame).toHaveBeenNthCalledWith(2, [{ id: 'a', position: { x: 50, y: 0 } }])
+		expect(onFrame).toHaveBeenLastCalledWith([{ id: 'a', position: { x: 100, y: 0 } }])
+		expect(frames).toHaveLength(0)
+	})
+})
@@ -0,0 +1,50 @@
+import {
+	AccountTree as ExpandIcon,
+	AutoFixHigh as RewriteIcon,
+	FactCheck as CritiqueIcon,
+	Summarize as SummarizeIcon,
+	Workspaces as ClusterIcon,
+} from '@mui/icons-material'
+import { Divider, ListItemIcon, ListItemText, ListSubheader, MenuItem } from '@mui/material'
+import type { ReactElement } from 'react'
+
+import type { GraphOperation } from '../../types'
+import { GRAPH_OPERATIONS } from '../../types'
+
+const renderIcon = (operation: GraphOperation): ReactElement => {
+	switch (operation) {
+	case 'expand':
+		return <ExpandIcon fontSize="small" />
+	case 'summarize':
+		return <SummarizeIcon fontSize="small" />
+	case 'cluster':
+		return <ClusterIcon fontSize="small" />
+	case 'critique':
+		return <CritiqueIcon fontSize="small" />
+	case 'rewrite':
+		return <RewriteIcon fontSize="small" />
+	}
+}
+
+interface GraphOperationMenuItemsOptions {
+	t: (key: string) => string
+	onSelect: (operation: GraphOperation) => void
+	disabled?: boolean
+}
+
+/**
+ * Menu items for the AI graph operations, as an array because MUI menus need
+ * their items as direct children
+ */
+export const renderGraphOperationMenuItems = ({ t, onSelect, disabled = false }: GraphOperationMenuItemsOptions) => [
+	<Divider key="graph-operations-divider" />,
+	<ListSubheader key="graph-operations-heading" sx={{ lineHeight: '32px' }}>
+		{t('graphOperations.heading')}
+	</ListSubheader>,
+	...GRAPH_OPERATIONS.map((operation) => (
+		<MenuItem key={operation} onClick={() => onSelect(operation)} disabled={disabled}>
+			<ListItemIcon>{renderIcon(operation)}</ListItemIcon>
+			<ListItemText>{t(`graphOperations.${operation}`)}</ListItemText>
+		</MenuItem>
+	)),
+]
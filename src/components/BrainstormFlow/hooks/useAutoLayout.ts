@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+import { useBrainstormStore } from '../../../store/brainstormStore'
+import type { CustomEdge, CustomNodeType } from '../types'
+import type { LayoutAlgorithm, NodePosition } from '../utils/layoutEngine'
+import { animatePositions, computeLayout, getLayoutTargets } from '../utils/layoutEngine'
+
+interface UseAutoLayoutProps {
+	nodes: CustomNodeType[]
+	edges: CustomEdge[]
+	updateNodePositions: (positions: NodePosition[]) => void
+	spacing: number
+	onLayoutApplied?: (algorithm: LayoutAlgorithm) => void
+}
+
+const prefersReducedMotion = () =>
+	typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches
+
+/**
+ * Applies layouts to the selection (two or more nodes) or the whole canvas and
+ * animates nodes into place. A single selected node becomes the root of the
+ * radial layout. Each layout is a single step of the canvas history.
+ */
+export const useAutoLayout = ({
+	nodes,
+	edges,
+	updateNodePositions,
+	spacing,
+	onLayoutApplied,
+}: UseAutoLayoutProps) => {
+	const beginBatch = useBrainstormStore((state) => state.beginBatch)
+	const endBatch = useBrainstormStore((state) => state.endBatch)
+	const undo = useBrainstormStore((state) => state.undo)
+	const canUndo = useBrainstormStore((state) => state.past[state.past.length - 1]?.action === 'autoLayout')
+	const stopAnimation = useRef<(() => void) | null>(null)
+
+	const finishAnimation = useCallback(() => {
+		stopAnimation.current?.()
+		stopAnimation.current = null
+	}, [])
+
+	useEffect(() => finishAnimation, [finishAnimation])
+
+	const applyLayout = useCallback(
+		(algorithm: LayoutAlgorithm) => {
+			const targets = getLayoutTargets(nodes)
+			if (targets.length === 0) return
+
+			const selected = nodes.filter((node) => node.selected === true)
+			const rootId = selected.length === 1 ? selected[0]?.id : undefined
+			const next = computeLayout(targets, edges, {
+				algorithm,
+				spacing,
+				...(rootId !== undefined ? { rootId } : {}),
+			})
+			const previous = targets.map(({ id, position }) => ({ id, position }))
+
+			// A layout started mid-animation records the interrupted one first
+			finishAnimation()
+			beginBatch('autoLayout')
+			let finished = false
+			const done = () => {
+				if (finished) return
+				finished = true
+				endBatch()
+			}
+			const cancel = animatePositions(
+				previous,
+				next,
+				updateNodePositions,
+				prefersReducedMotion() ? 0 : undefined,
+				done,
+			)
+			stopAnimation.current = () => {
+				cancel()
+				done()
+			}
+			onLayoutApplied?.(algorithm)
+		},
+		[nodes, edges, spacing, updateNodePositions, beginBatch, endBatch, finishAnimation, onLayoutApplied],
+	)
+
+	const undoLayout = useCallback(() => {
+		finishAnimation()
+		const { past } = useBrainstormStore.getState()
+		if (past[past.length - 1]?.action === 'autoLayout') {
+			undo()
+		}
+	}, [finishAnimation, undo])
+
+	return { applyLayout, undoLayout, canUndo }
+}
@@ -0,0 +1,95 @@
+import type { RefObject } from 'react'
+import { useEffect, useRef } from 'react'
+import { useReactFlow } from 'reactflow'
+
+import { useBrainstormStore } from '../../../store/brainstormStore'
+import {
+	copySubgraph,
+	parseSubgraph,
+	pasteSubgraph,
+	serializeSubgraph,
+	SUBGRAPH_MIME_TYPE,
+} from '../../../utils/subgraphClipboard'
+
+interface UseCanvasClipboardProps {
+	flowRef: RefObject<HTMLDivElement>
+	/** Heading of the Markdown outline copied along for other apps */
+	title: string
+	onChange?: () => void
+}
+
+// Fields and editors keep the browser's own clipboard handling
+const isTextTarget = (target: EventTarget | null) =>
+	target instanceof HTMLElement &&
+	(target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+const hasTextSelection = () => (window.getSelection()?.toString() ?? '') !== ''
+
+/**
+ * Copies, cuts and pastes the selected nodes through the system clipboard, so
+ * they can be pasted into another project, tab or window. Uses the native
+ * clipboard events that Ctrl+C, Ctrl+X and Ctrl+V or the browser menu fire.
+ */
+export const useCanvasClipboard = ({ flowRef, title, onChange }: UseCanvasClipboardProps) => {
+	const { screenToFlowPosition } = useReactFlow()
+	const { pasteNodes, cutNodes } = useBrainstormStore()
+	// Last pointer position over the canvas, where pasted nodes are placed
+	const pointer = useRef<{ x: number; y: number } | null>(null)
+
+	useEffect(() => {
+		const container = flowRef.current
+		if (!container) return
+
+		const handlePointerMove = (event: PointerEvent) => {
+			pointer.current = { x: event.clientX, y: event.clientY }
+		}
+		const handlePointerLeave = () => {
+			pointer.current = null
+		}
+		// Hidden canvases, e.g. on another tab, leave the clipboard alone
+		const isCanvasShown = () => container.isConnected && container.getClientRects().length > 0
+
+		const handleCopy = (event: ClipboardEvent) => {
+			if (!event.clipboardData || !isCanvasShown() || isTextTarget(event.target) || hasTextSelection()) return
+			const { nodes, edges, projectId } = useBrainstormStore.getState()
+			const selectedIds = nodes.filter((node) => node.selected === true).map((node) => node.id)
+			const payload = copySubgraph(nodes, edges, selectedIds, projectId ?? undefined)
+			if (payload === null) return
+
+			event.preventDefault()
+			for (const [type, data] of Object.entries(serializeSubgraph(payload, title))) {
+				event.clipboardData.setData(type, data)
+			}
+			if (event.type === 'cut') {
+				cutNodes(selectedIds)
+				onChange?.()
+			}
+		}
+
+		const handlePaste = (event: ClipboardEvent) => {
+			if (!isCanvasShown() || isTextTarget(event.target)) return
+			const data = event.clipboardData?.getData(SUBGRAPH_MIME_TYPE) ?? ''
+			const payload = data !== '' ? parseSubgraph(data) : null
+			if (payload === null) return
+
+			event.preventDefault()
+			const at = pointer.current ? screenToFlowPosition(pointer.current) : undefined
+			const { nodes, edges } = pasteSubgraph(payload, at)
+			pasteNodes(nodes, edges)
+			onChange?.()
+		}
+
+		container.addEventListener('pointermove', handlePointerMove)
+		container.addEventListener('pointerleave', handlePointerLeave)
+		document.addEventListener('copy', handleCopy)
+		document.addEventListener('cut', handleCopy)
+		document.addEventListener('paste', handlePaste)
+		return () => {
+			container.removeEventListener('pointermove', handlePointerMove)
+			container.removeEventListener('pointerleave', handlePointerLeave)
+			document.removeEventListener('copy', handleCopy)
+			document.removeEventListener('cut', handleCopy)
+			document.removeEventListener('paste', handlePaste)
+		}
+	}, [flowRef, title, onChange, screenToFlowPosition, pasteNodes, cutNodes])
+}
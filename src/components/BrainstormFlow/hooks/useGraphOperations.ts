@@ -0,0 +1,84 @@
+import { useCallback, useRef, useState } from 'react'
+
+import chatService from '../../../services/ChatService'
+import { useBrainstormStore } from '../../../store/brainstormStore'
+import type { GraphDiff, GraphOperation } from '../../../types'
+import { createNodeSuggestionFromNodeData } from '../../../types/chat'
+import { isGroupNode } from '../../../utils/groups'
+import type { CustomNodeType } from '../types'
+
+/**
+ * A running or finished graph operation waiting for review
+ */
+export interface GraphOperationState {
+	operation: GraphOperation
+	nodeIds: string[]
+	loading: boolean
+	diff: GraphDiff | null
+	error: string | null
+}
+
+interface UseGraphOperationsProps {
+	onApplied?: () => void
+}
+
+const toSuggestion = (node: CustomNodeType) => createNodeSuggestionFromNodeData(node.data, node.type)
+
+/**
+ * Runs AI operations on canvas nodes and keeps the resulting diff for review.
+ * Nothing touches the canvas until accepted changes are applied.
+ */
+export const useGraphOperations = ({ onApplied }: UseGraphOperationsProps = {}) => {
+	const applyGraphDiff = useBrainstormStore((state) => state.applyGraphDiff)
+	const [state, setState] = useState<GraphOperationState | null>(null)
+	// Replies to dismissed or replaced requests are dropped
+	const requestId = useRef(0)
+
+	const run = useCallback(async (operation: GraphOperation, nodeIds: string[]) => {
+		const request = ++requestId.current
+		setState({ operation, nodeIds, loading: true, diff: null, error: null })
+
+		// Group frames and archived nodes are left out, the rest of the canvas is context
+		const ids = new Set(nodeIds)
+		const candidates = useBrainstormStore
+			.getState()
+			.nodes.filter((node) => !isGroupNode(node) && node.data.isArchived !== true)
+		try {
+			const diff = await chatService.generateGraphDiff(
+				operation,
+				candidates.filter((node) => ids.has(node.id)).map(toSuggestion),
+				candidates.filter((node) => !ids.has(node.id)).map(toSuggestion),
+			)
+			if (request === requestId.current) {
+				setState({ operation, nodeIds, loading: false, diff, error: null })
+			}
+		} catch (error) {
+			if (request === requestId.current) {
+				const message = error instanceof Error ? error.message : String(error)
+				setState({ operation, nodeIds, loading: false, diff: null, error: message })
+			}
+		}
+	}, [])
+
+	const dismiss = useCallback(() => {
+		requestId.current++
+		setState(null)
+	}, [])
+
+	const retry = useCallback(() => {
+		if (state) void run(state.operation, state.nodeIds)
+	}, [state, run])
+
+	const apply = useCallback(
+		(acceptedChangeIds: string[]) => {
+			if (state?.diff && acceptedChangeIds.length > 0) {
+				applyGraphDiff(state.diff, acceptedChangeIds)
+				onApplied?.()
+			}
+			dismiss()
+		},
+		[state, applyGraphDiff, onApplied, dismiss],
+	)
+
+	return { state, run, retry, apply, dismiss }
+}
@@ -1,56 +1,59 @@
-import { useEffect } from 'react'
-import type { ReactFlowInstance } from 'reactflow'
 import { useReactFlow } from 'reactflow'
 
-import { getLayoutedElements } from '../utils/autoLayout'
+import { useKeymapHandlers } from '../../../hooks/useKeymap'
 
 interface UseKeyboardShortcutsProps {
-  reactFlowInstance: ReactFlowInstance | null;
   saveCurrentState: () => void;
   removeNode: (id: string) => void;
-  nodeSpacing: number;
+  onAutoLayout: () => void;
+  onGroupSelection: () => void;
+  onUngroupSelection: () => void;
+  onAddNode: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onToggleGrid: () => void;
+  onToggleFullscreen: () => void;
+  onFitView: () => void;
 }
 
+/**
+ * Registers the canvas actions with the keymap, so they run on the keys the
+ * user has bound to them
+ */
 export const useKeyboardShortcuts = ({
-	reactFlowInstance,
 	saveCurrentState,
 	removeNode,
-	nodeSpacing,
+	onAutoLayout,
+	onGroupSelection,
+	onUngroupSelection,
+	onAddNode,
+	onUndo,
+	onRedo,
+	onToggleGrid,
+	onToggleFullscreen,
+	onFitView,
 }: UseKeyboardShortcutsProps) => {
-	const { getNodes, getEdges, setNodes, setEdges } = useReactFlow()
+	const { getNodes, zoomIn, zoomOut } = useReactFlow()
 
-	useEffect(() => {
-		const handleKeyPress = (event: KeyboardEvent) => {
-			// Save - Ctrl+S
-			if (event.ctrlKey && event.key === 's') {
-				event.preventDefault()
-				saveCurrentState()
-			}
-
-			// Auto-layout - Ctrl+L
-			if (event.ctrlKey && event.key === 'l') {
-				event.preventDefault()
-				if (reactFlowInstance) {
-					const { nodes, edges } = getLayoutedElements(
-						getNodes(),
-						getEdges(),
-						'TB',
-						nodeSpacing,
-					)
-					setNodes(nodes)
-					setEdges(edges)
-					setTimeout(() => reactFlowInstance.fitView(), 50)
-				}
-			}
-
-			// Delete - Del
-			if (event.key === 'Delete') {
-				const selectedNodes = getNodes().filter((node) => node.selected)
-				selectedNodes.forEach((node) => removeNode(node.id))
-			}
-		}
-
-		document.addEventListener('keydown', handleKeyPress)
-		return () => document.removeEventListener('keydown', handleKeyPress)
-	}, [reactFlowInstance, getNodes, getEdges, setNodes, setEdges, removeNode, saveCurrentState, nodeSpacing])
+	useKeymapHandlers({
+		'general.save': saveCurrentState,
+		'edit.autoLayout': onAutoLayout,
+		'edit.group': onGroupSelection,
+		'edit.ungroup': onUngroupSelection,
+		'edit.addNode': onAddNode,
+		'edit.delete': () => {
+			const selectedNodes = getNodes().filter((node) => node.selected)
+			// Without a selection the key is left to the page
+			if (selectedNodes.length === 0) return false
+			selectedNodes.forEach((node) => removeNode(node.id))
+			return true
+		},
+		'history.undo': onUndo,
+		'history.redo': onRedo,
+		'view.zoomIn': () => zoomIn(),
+		'view.zoomOut': () => zoomOut(),
+		'view.fitView': onFitView,
+		'view.toggleGrid': onToggleGrid,
+		'view.toggleFullscreen': onToggleFullscreen,
+	})
 }
@@ -0,0 +1,162 @@
+import DeleteIcon from '@mui/icons-material/Delete'
+import EditIcon from '@mui/icons-material/Edit'
+import LayersClearIcon from '@mui/icons-material/LayersClear'
+import UnfoldLessIcon from '@mui/icons-material/UnfoldLess'
+import UnfoldMoreIcon from '@mui/icons-material/UnfoldMore'
+import { alpha, Box, Chip, IconButton, Paper, Tooltip, Typography, useTheme } from '@mui/material'
+import React, { memo, useEffect, useRef } from 'react'
+import type { NodeProps } from 'reactflow'
+import { NodeResizer } from 'reactflow'
+
+import { useI18n } from '../../../contexts/I18nContext'
+import { useSettings } from '../../../contexts/SettingsContext'
+import { useBrainstormStore } from '../../../store/brainstormStore'
+import { NodeType } from '../../../types/enums'
+import type { NodeData } from '../types'
+
+// Smallest frame the resize handles allow
+const MIN_WIDTH = 200
+const MIN_HEIGHT = 120
+
+/**
+ * Frame holding other nodes. React Flow moves members along with it; when
+ * collapsed it shrinks to a chip with the title and the number of members.
+ */
+const GroupNode: React.FC<NodeProps<NodeData>> = ({ id, data, selected }) => {
+	const { t } = useI18n()
+	const theme = useTheme()
+	const { getNodeColor } = useSettings()
+	const toggleGroupCollapsed = useBrainstormStore((state) => state.toggleGroupCollapsed)
+	const ungroupNodes = useBrainstormStore((state) => state.ungroupNodes)
+	const beginBatch = useBrainstormStore((state) => state.beginBatch)
+	const endBatch = useBrainstormStore((state) => state.endBatch)
+	const memberCount = useBrainstormStore((state) => state.nodes.filter((node) => node.parentId === id).length)
+	// Whether a resize began the open history batch
+	const resizing = useRef(false)
+
+	const color = data.color ?? getNodeColor(NodeType.GROUP)
+	const collapsed = data.collapsed === true
+	const title = data.title || data.label || t('groups.defaultTitle')
+	const members = t('groups.memberCount', { count: memberCount })
+
+	// A resize cut short by collapsing or removing the group would leave the batch open
+	useEffect(
+		() => () => {
+			if (resizing.current) {
+				resizing.current = false
+				endBatch()
+			}
+		},
+		[collapsed, endBatch],
+	)
+
+	const handleResizeStart = () => {
+		resizing.current = true
+		beginBatch('resizeGroup')
+	}
+
+	const handleResizeEnd = () => {
+		if (!resizing.current) return
+		resizing.current = false
+		endBatch()
+	}
+
+	const toggleButton = (
+		<Tooltip title={collapsed ? t('groups.expand') : t('groups.collapse')}>
+			<IconButton
+				size="small"
+				onClick={(event) => {
+					event.stopPropagation()
+					toggleGroupCollapsed(id)
+				}}
+				aria-label={collapsed ? t('groups.expand') : t('groups.collapse')}
+				data-testid={`toggle-group-${id}`}>
+				{collapsed ? <UnfoldMoreIcon fontSize="small" /> : <UnfoldLessIcon fontSize="small" />}
+			</IconButton>
+		</Tooltip>
+	)
+
+	if (collapsed) {
+		return (
+			<Paper
+				elevation={selected ? 3 : 1}
+				sx={{
+					display: 'flex',
+					alignItems: 'center',
+					gap: 1,
+					height: '100%',
+					px: 1.5,
+					borderRadius: 28,
+					backgroundColor: color,
+					border: selected ? `2px solid ${theme.palette.primary.main}` : `1px solid ${alpha(theme.palette.text.primary, 0.2)}`,
+				}}>
+				<Box sx={{ flex: 1, minWidth: 0 }}>
+					<Typography variant="subtitle2" noWrap>
+						{title}
+					</Typography>
+					<Typography variant="caption" color="text.secondary" noWrap>
+						{members}
+					</Typography>
+				</Box>
+				{toggleButton}
+			</Paper>
+		)
+	}
+
+	return (
+		<>
+			<NodeResizer
+				isVisible={selected}
+				minWidth={MIN_WIDTH}
+				minHeight={MIN_HEIGHT}
+				color={theme.palette.primary.main}
+				onResizeStart={handleResizeStart}
+				onResizeEnd={handleResizeEnd}
+			/>
+			<Box
+				sx={{
+					width: '100%',
+					height: '100%',
+					borderRadius: 2,
+					backgroundColor: alpha(color, 0.35),
+					border: `2px ${selected ? 'solid' : 'dashed'} ${selected ? theme.palette.primary.main : alpha(theme.palette.text.primary, 0.3)}`,
+				}}>
+				<Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 1.5, py: 0.5 }}>
+					<Typography variant="subtitle2" noWrap sx={{ minWidth: 0 }}>
+						{title}
+					</Typography>
+					<Typography variant="caption" color="text.secondary" noWrap>
+						{members}
+					</Typography>
+					<Box sx={{ display: 'flex', gap: 0.5, overflow: 'hidden', flex: 1 }}>
+						{data.tags?.map((tag) => (
+							<Chip key={tag} label={tag} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+						))}
+					</Box>
+					{toggleButton}
+					<Tooltip title={t('groups.ungroup')}>
+						<IconButton size="small" onClick={() => ungroupNodes(id)} aria-label={t('groups.ungroup')}>
+							<LayersClearIcon fontSize="small" />
+						</IconButton>
+					</Tooltip>
+					<IconButton size="small" onClick={() => data.onEdit?.(id)} data-testid={`edit-${id}`}>
+						<EditIcon fontSize="small" />
+					</IconButton>
+					<IconButton
+						size="small"
+						color="error"
+						onClick={(event) => {
+							event.stopPropagation()
+							data.onDelete?.(id, event)
+						}}
+						data-testid={`delete-${id}`}
+						aria-label={t('groups.delete')}>
+						<DeleteIcon fontSize="small" />
+					</IconButton>
+				</Box>
+			</Box>
+		</>
+	)
+}
+
+export default memo(GroupNode)
@@ -0,0 +1,36 @@
+import { Box, useTheme } from '@mui/material'
+import React, { memo } from 'react'
+import type { NodeProps } from 'reactflow'
+import { Handle, Position } from 'reactflow'
+
+import { useSettings } from '../../../contexts/SettingsContext'
+import type { NodeData } from '../types'
+
+// Edges still attach to the handles, they are just not drawn
+const hiddenHandle = { visibility: 'hidden' } as const
+
+/**
+ * Simplified node drawn when zoomed out too far to read a node: a box in the
+ * node's color and size without text or buttons
+ */
+const LodNode: React.FC<NodeProps<NodeData>> = ({ data, selected }) => {
+	const { getNodeColor } = useSettings()
+	const theme = useTheme()
+
+	return (
+		<Box
+			sx={{
+				width: '100%',
+				height: '100%',
+				borderRadius: 1,
+				bgcolor: data.color || getNodeColor(data.type),
+				// Thick enough to still show the selection when zoomed out
+				border: selected ? `4px solid ${theme.palette.primary.main}` : '1px solid #ccc',
+			}}>
+			<Handle type="target" position={Position.Top} style={hiddenHandle} />
+			<Handle type="source" position={Position.Bottom} style={hiddenHandle} />
+		</Box>
+	)
+}
+
+export default memo(LodNode)
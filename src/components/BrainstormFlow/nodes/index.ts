@@ -1,10 +1,12 @@
 import { NodeType } from '../../../types/enums'
 
 import CustomNodeComponent from './CustomNode'
+import GroupNodeComponent from './GroupNode'
 
 export const nodeTypes = {
 	[NodeType.IDEA]: CustomNodeComponent,
 	[NodeType.TASK]: CustomNodeComponent,
 	[NodeType.RESOURCE]: CustomNodeComponent,
 	[NodeType.NOTE]: CustomNodeComponent,
+	[NodeType.GROUP]: GroupNodeComponent,
 } as const
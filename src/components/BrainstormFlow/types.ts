@@ -2,6 +2,9 @@ import type { CSSProperties } from 'react'
 import type { Node, Edge } from 'reactflow'
 
 import type { NodeType, EdgeType } from '../../types/enums'
+import type { SnippetRef } from '../../types/snippet'
+
+import type { LayoutAlgorithm } from './utils/layoutEngine'
 
 export interface NodeData {
 	id: string
@@ -14,6 +17,9 @@ export interface NodeData {
 	type: NodeType
 	label?: string
 	isArchived?: boolean
+	collapsed?: boolean
+	/** Library snippet the node was placed from */
+	snippet?: SnippetRef
 	onEdit?: (id: string) => void
 	onDelete?: (id: string, event: React.MouseEvent) => void
 	onChat?: (id: string) => void
@@ -22,6 +28,8 @@ export interface NodeData {
 // Keep ReactFlow's Node type but enforce our NodeType and NodeData
 export type CustomNodeType = Omit<Node<NodeData>, 'type'> & {
 	type: NodeType
+	/** Group frame holding the node, mapped to React Flow's `parentNode` */
+	parentId?: string
 }
 
 // Keep ReactFlow's Edge type but enforce our EdgeType
@@ -49,7 +57,9 @@ export interface ControlsPanelProps {
 	toggleFullscreen: () => Promise<void>
 	zoomIn: () => void
 	zoomOut: () => void
-	handleAutoLayout?: () => void
+	handleAutoLayout?: (algorithm: LayoutAlgorithm) => void
+	handleUndoLayout?: () => void
+	canUndoLayout?: boolean
 }
 
 export interface EnhancedMiniMapProps {
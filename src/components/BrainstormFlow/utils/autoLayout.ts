@@ -1,9 +1,10 @@
-import dagre from 'dagre'
 import type { Edge } from 'reactflow'
 
 import { NodeType } from '../../../types/enums'
 import type { CustomNodeType } from '../types'
 
+import { computeLayout } from './layoutEngine'
+
 interface LayoutOptions {
   direction?: 'TB' | 'LR';
   spacing?: number;
@@ -14,6 +15,10 @@ const DEFAULT_OPTIONS: LayoutOptions = {
 	spacing: 50,
 }
 
+/**
+ * Layered layout of the whole graph without animation. See `layoutEngine` for
+ * the other algorithms.
+ */
 export const getLayoutedElements = (
 	nodes: CustomNodeType[],
 	edges: Edge[],
@@ -21,43 +26,18 @@ export const getLayoutedElements = (
 ) => {
 	const { direction = 'TB', spacing = 50 } = options
 
-	const dagreGraph = new dagre.graphlib.Graph()
-	dagreGraph.setDefaultEdgeLabel(() => ({}))
-
-	const isHorizontal = direction === 'LR'
-	dagreGraph.setGraph({ rankdir: direction, ranksep: spacing, nodesep: spacing })
-
-	// Add nodes to dagre
-	nodes.forEach((node) => {
-		dagreGraph.setNode(node.id, {
-			width: 150, // Default width
-			height: 50, // Default height
-		})
-	})
-
-	// Add edges to dagre
-	edges.forEach((edge) => {
-		if (edge.source && edge.target) {
-			dagreGraph.setEdge(edge.source, edge.target)
-		}
-	})
-
-	// Calculate layout
-	dagre.layout(dagreGraph)
+	const positions = new Map(
+		computeLayout(nodes, edges, { algorithm: direction === 'LR' ? 'layered-lr' : 'layered-tb', spacing }).map(
+			(item) => [item.id, item.position],
+		),
+	)
 
 	// Retrieve positions while preserving node type and data
-	const layoutedNodes: CustomNodeType[] = nodes.map((node) => {
-		const nodeWithPosition = dagreGraph.node(node.id)
-
-		return {
-			...node,
-			position: {
-				x: nodeWithPosition.x - 75, // half of default width
-				y: nodeWithPosition.y - 25, // half of default height
-			},
-			type: node.type || NodeType.IDEA, // Ensure node type is preserved
-		}
-	})
+	const layoutedNodes: CustomNodeType[] = nodes.map((node) => ({
+		...node,
+		position: positions.get(node.id) ?? node.position,
+		type: node.type || NodeType.IDEA, // Ensure node type is preserved
+	}))
 
 	return {
 		nodes: layoutedNodes,
@@ -0,0 +1,368 @@
+import dagre from 'dagre'
+import type { XYPosition } from 'reactflow'
+
+export type LayoutAlgorithm = 'layered-tb' | 'layered-lr' | 'radial' | 'force' | 'grid'
+
+export const LAYOUT_ALGORITHMS: LayoutAlgorithm[] = ['layered-tb', 'layered-lr', 'radial', 'force', 'grid']
+
+/**
+ * The parts of a canvas node the layouts need. `width` and `height` are the
+ * measured size from React Flow and may be missing before the first render.
+ */
+export interface LayoutNode {
+	id: string
+	position: XYPosition
+	width?: number | null
+	height?: number | null
+	selected?: boolean
+}
+
+export interface LayoutEdge {
+	source: string
+	target: string
+}
+
+export interface LayoutOptions {
+	algorithm: LayoutAlgorithm
+	/** Gap between neighbouring nodes */
+	spacing?: number
+	/** Center of the radial layout; defaults to the best connected node */
+	rootId?: string
+}
+
+export interface NodePosition {
+	id: string
+	position: XYPosition
+}
+
+// Size used for nodes React Flow has not measured yet
+const DEFAULT_WIDTH = 150
+const DEFAULT_HEIGHT = 50
+const DEFAULT_SPACING = 50
+const FORCE_ITERATIONS = 200
+
+interface Size {
+	width: number
+	height: number
+}
+
+const sizeOf = (node: LayoutNode): Size => ({
+	width: node.width ?? DEFAULT_WIDTH,
+	height: node.height ?? DEFAULT_HEIGHT,
+})
+
+const byPosition = (a: LayoutNode, b: LayoutNode) => a.position.y - b.position.y || a.position.x - b.position.x
+
+/**
+ * Neighbours of every node, ignoring edge direction, self loops and edges
+ * leaving the laid out set
+ */
+function buildAdjacency(nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, string[]> {
+	const adjacency = new Map(nodes.map((node) => [node.id, [] as string[]]))
+	for (const edge of edges) {
+		const sources = adjacency.get(edge.source)
+		const targets = adjacency.get(edge.target)
+		if (!sources || !targets || edge.source === edge.target) continue
+		if (!sources.includes(edge.target)) sources.push(edge.target)
+		if (!targets.includes(edge.source)) targets.push(edge.source)
+	}
+	return adjacency
+}
+
+function layered(nodes: LayoutNode[], edges: LayoutEdge[], direction: 'TB' | 'LR', spacing: number): NodePosition[] {
+	const graph = new dagre.graphlib.Graph()
+	graph.setDefaultEdgeLabel(() => ({}))
+	graph.setGraph({ rankdir: direction, ranksep: spacing * 2, nodesep: spacing })
+
+	const ids = new Set(nodes.map((node) => node.id))
+	nodes.forEach((node) => graph.setNode(node.id, sizeOf(node)))
+	edges.forEach((edge) => {
+		if (ids.has(edge.source) && ids.has(edge.target)) graph.setEdge(edge.source, edge.target)
+	})
+
+	dagre.layout(graph)
+
+	// dagre returns centers, React Flow positions are top-left corners
+	return nodes.map((node) => {
+		const { x, y } = graph.node(node.id)
+		const { width, height } = sizeOf(node)
+		return { id: node.id, position: { x: x - width / 2, y: y - height / 2 } }
+	})
+}
+
+/**
+ * Rings around a root. Every node gets an angular wedge sized by the number of
+ * leaves below it, so subtrees stay together. Nodes that cannot be reached from
+ * the root hang off the root as if they were its children.
+ */
+function radial(nodes: LayoutNode[], edges: LayoutEdge[], spacing: number, rootId?: string): NodePosition[] {
+	const adjacency = buildAdjacency(nodes, edges)
+	const root =
+		nodes.find((node) => node.id === rootId) ??
+		[...nodes].sort((a, b) => (adjacency.get(b.id)?.length ?? 0) - (adjacency.get(a.id)?.length ?? 0))[0]
+	if (root === undefined) return []
+
+	// Spanning tree by breadth-first search
+	const children = new Map<string, string[]>(nodes.map((node) => [node.id, []]))
+	const depth = new Map<string, number>([[root.id, 0]])
+	const walk = (start: string, parent: string) => {
+		if (start !== parent) {
+			children.get(parent)?.push(start)
+			depth.set(start, (depth.get(parent) ?? 0) + 1)
+		}
+		const queue = [start]
+		while (queue.length > 0) {
+			const id = queue.shift() ?? ''
+			for (const next of adjacency.get(id) ?? []) {
+				if (depth.has(next)) continue
+				depth.set(next, (depth.get(id) ?? 0) + 1)
+				children.get(id)?.push(next)
+				queue.push(next)
+			}
+		}
+	}
+	walk(root.id, root.id)
+	for (const node of [...nodes].sort(byPosition)) {
+		if (!depth.has(node.id)) walk(node.id, root.id)
+	}
+
+	const leaves = new Map<string, number>()
+	const countLeaves = (id: string): number => {
+		const own = children.get(id) ?? []
+		const count = own.length === 0 ? 1 : own.reduce((sum, child) => sum + countLeaves(child), 0)
+		leaves.set(id, count)
+		return count
+	}
+	countLeaves(root.id)
+
+	const largest = Math.max(...nodes.map((node) => Math.max(sizeOf(node).width, sizeOf(node).height)))
+	const ringSpacing = largest + spacing * 2
+	const sizes = new Map(nodes.map((node) => [node.id, sizeOf(node)]))
+	const rootSize = sizeOf(root)
+	const center = { x: root.position.x + rootSize.width / 2, y: root.position.y + rootSize.height / 2 }
+	const positions: NodePosition[] = []
+
+	const place = (id: string, start: number, end: number) => {
+		const ring = depth.get(id) ?? 0
+		const angle = (start + end) / 2
+		const size = sizes.get(id) ?? { width: DEFAULT_WIDTH, height: DEFAULT_HEIGHT }
+		positions.push({
+			id,
+			position: {
+				x: center.x + Math.cos(angle) * ring * ringSpacing - size.width / 2,
+				y: center.y + Math.sin(angle) * ring * ringSpacing - size.height / 2,
+			},
+		})
+
+		const total = leaves.get(id) ?? 1
+		let cursor = start
+		for (const child of children.get(id) ?? []) {
+			const share = ((end - start) * (leaves.get(child) ?? 1)) / total
+			place(child, cursor, cursor + share)
+			cursor += share
+		}
+	}
+	place(root.id, -Math.PI / 2, (Math.PI * 3) / 2)
+
+	return positions
+}
+
+/**
+ * Fruchterman-Reingold spring embedder. Starts from the current positions so
+ * running it twice refines rather than reshuffles the graph.
+ */
+function forceDirected(nodes: LayoutNode[], edges: LayoutEdge[], spacing: number): NodePosition[] {
+	const largest = Math.max(...nodes.map((node) => sizeOf(node).width))
+	// Ideal edge length
+	const k = largest + spacing
+
+	// Spread nodes that sit on top of each other, otherwise the forces cancel out
+	const seen = new Set<string>()
+	const points = nodes.map((node, i) => {
+		let x = node.position.x
+		let y = node.position.y
+		while (seen.has(`${Math.round(x)},${Math.round(y)}`)) {
+			x += k * Math.cos(i)
+			y += k * Math.sin(i)
+		}
+		seen.add(`${Math.round(x)},${Math.round(y)}`)
+		return { id: node.id, x, y, dx: 0, dy: 0 }
+	})
+
+	const byId = new Map(points.map((point) => [point.id, point]))
+	const springs = [...buildAdjacency(nodes, edges)].flatMap(([id, neighbours]) =>
+		neighbours
+			.filter((neighbour) => neighbour > id)
+			.map((neighbour) => [byId.get(id), byId.get(neighbour)] as const)
+			.flatMap(([a, b]) => (a && b ? [[a, b] as const] : [])),
+	)
+
+	let temperature = k * Math.sqrt(nodes.length)
+	const cooling = temperature / FORCE_ITERATIONS
+
+	for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+		points.forEach((point) => {
+			point.dx = 0
+			point.dy = 0
+		})
+
+		// Repulsion between every pair
+		points.forEach((a, i) => {
+			for (const b of points.slice(i + 1)) {
+				const ox = a.x - b.x
+				const oy = a.y - b.y
+				const distance = Math.max(Math.hypot(ox, oy), 0.01)
+				const force = (k * k) / distance
+				a.dx += (ox / distance) * force
+				a.dy += (oy / distance) * force
+				b.dx -= (ox / distance) * force
+				b.dy -= (oy / distance) * force
+			}
+		})
+
+		// Attraction along edges
+		for (const [a, b] of springs) {
+			const ox = a.x - b.x
+			const oy = a.y - b.y
+			const distance = Math.max(Math.hypot(ox, oy), 0.01)
+			const force = (distance * distance) / k
+			a.dx -= (ox / distance) * force
+			a.dy -= (oy / distance) * force
+			b.dx += (ox / distance) * force
+			b.dy += (oy / distance) * force
+		}
+
+		// Move by at most the current temperature
+		for (const point of points) {
+			const length = Math.max(Math.hypot(point.dx, point.dy), 0.01)
+			const step = Math.min(length, temperature)
+			point.x += (point.dx / length) * step
+			point.y += (point.dy / length) * step
+		}
+		temperature = Math.max(temperature - cooling, 1)
+	}
+
+	return points.map(({ id, x, y }) => ({ id, position: { x, y } }))
+}
+
+/**
+ * Square grid in reading order of the current positions
+ */
+function grid(nodes: LayoutNode[], spacing: number): NodePosition[] {
+	const columns = Math.ceil(Math.sqrt(nodes.length))
+	const cellWidth = Math.max(...nodes.map((node) => sizeOf(node).width)) + spacing
+	const cellHeight = Math.max(...nodes.map((node) => sizeOf(node).height)) + spacing
+
+	return [...nodes].sort(byPosition).map((node, i) => ({
+		id: node.id,
+		position: { x: (i % columns) * cellWidth, y: Math.floor(i / columns) * cellHeight },
+	}))
+}
+
+const boundingBoxOrigin = (positions: XYPosition[]): XYPosition => ({
+	x: Math.min(...positions.map((position) => position.x)),
+	y: Math.min(...positions.map((position) => position.y)),
+})
+
+/**
+ * Picks the nodes a layout applies to: the selection if at least two nodes are
+ * selected, otherwise the whole canvas
+ * @param nodes All nodes of the canvas
+ * @returns Nodes to lay out
+ */
+export function getLayoutTargets<T extends LayoutNode>(nodes: T[]): T[] {
+	const selected = nodes.filter((node) => node.selected === true)
+	return selected.length > 1 ? selected : nodes
+}
+
+/**
+ * Computes new positions for a set of nodes. Only edges between the given
+ * nodes are considered. The result keeps the top-left corner of the original
+ * bounding box, except for the radial layout which stays centered on its root.
+ * @param nodes Nodes to lay out
+ * @param edges Edges of the canvas
+ * @param options Algorithm and spacing
+ * @returns New position of every given node
+ */
+export function computeLayout(nodes: LayoutNode[], edges: LayoutEdge[], options: LayoutOptions): NodePosition[] {
+	if (nodes.length === 0) return []
+	const spacing = options.spacing ?? DEFAULT_SPACING
+
+	let positions: NodePosition[]
+	switch (options.algorithm) {
+	case 'layered-tb':
+		positions = layered(nodes, edges, 'TB', spacing)
+		break
+	case 'layered-lr':
+		positions = layered(nodes, edges, 'LR', spacing)
+		break
+	case 'radial':
+		return radial(nodes, edges, spacing, options.rootId)
+	case 'force':
+		positions = forceDirected(nodes, edges, spacing)
+		break
+	case 'grid':
+		positions = grid(nodes, spacing)
+		break
+	}
+
+	const before = boundingBoxOrigin(nodes.map((node) => node.position))
+	const after = boundingBoxOrigin(positions.map((item) => item.position))
+	return positions.map(({ id, position }) => ({
+		id,
+		position: {
+			x: Math.round(position.x - after.x + before.x),
+			y: Math.round(position.y - after.y + before.y),
+		},
+	}))
+}
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2)
+
+/**
+ * Moves nodes from their current to their target positions over a number of
+ * animation frames
+ * @param from Start positions
+ * @param to Target positions
+ * @param onFrame Called with the interpolated positions on every frame and with the targets at the end
+ * @param duration Animation length in milliseconds
+ * @param onDone Called once the targets are reached
+ * @returns Function that stops the animation where it is
+ */
+export function animatePositions(
+	from: NodePosition[],
+	to: NodePosition[],
+	onFrame: (positions: NodePosition[]) => void,
+	duration = 400,
+	onDone?: () => void,
+): () => void {
+	const start = new Map(from.map((item) => [item.id, item.position]))
+	let frame = 0
+	let startTime: number | null = null
+
+	const step = (time: number) => {
+		startTime ??= time
+		const progress = duration > 0 ? Math.min((time - startTime) / duration, 1) : 1
+		const eased = easeInOutCubic(progress)
+		onFrame(
+			to.map(({ id, position }) => {
+				const origin = start.get(id) ?? position
+				return {
+					id,
+					position: {
+						x: origin.x + (position.x - origin.x) * eased,
+						y: origin.y + (position.y - origin.y) * eased,
+					},
+				}
+			}),
+		)
+		if (progress < 1) {
+			frame = requestAnimationFrame(step)
+		} else {
+			onDone?.()
+		}
+	}
+	frame = requestAnimationFrame(step)
+
+	return () => cancelAnimationFrame(frame)
+}
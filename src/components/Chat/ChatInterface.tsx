@@ -1,22 +1,41 @@
 import { Box, Paper, Typography } from '@mui/material'
 
-import type { NodeData } from '../../types'
+import type { EdgeSuggestion, ModelChoice, NodeData, NodeSuggestion } from '../../types'
 
 import { ChatPanel } from './ChatPanel'
 
 interface ChatInterfaceProps {
 	projectId?: string
+	/** Context sent with every message; derived from the project ID when left out */
+	projectContext?: Record<string, unknown>
+	/** Nodes of the project that suggested nodes may be connected to */
+	existingNodes?: NodeSuggestion[]
+	/** Shows a node cited in a reply on the canvas */
+	onFocusNode?: (nodeId: string) => void
+	onAddNodes?: (nodes: NodeData[], edges: EdgeSuggestion[]) => void
+	/** Provider and model chosen for the project */
+	modelChoice?: ModelChoice
 }
 
-export function ChatInterface({ projectId }: ChatInterfaceProps) {
+export function ChatInterface({
+	projectId,
+	projectContext: context,
+	existingNodes,
+	onFocusNode,
+	onAddNodes,
+	modelChoice,
+}: ChatInterfaceProps) {
 	// Create a simple project context object
-	const projectContext = projectId !== undefined && projectId !== null && projectId !== '' ? { projectId } : undefined
+	const projectContext =
+		context ?? (projectId !== undefined && projectId !== null && projectId !== '' ? { projectId } : undefined)
 
 	// Optional handler for adding nodes (not used in standalone chat)
-	const handleAddNodes = (nodes: NodeData[]) => {
-		console.log('Nodes added:', nodes)
-		// In a standalone chat, we don't actually add nodes anywhere
-	}
+	const handleAddNodes =
+		onAddNodes ??
+		((nodes: NodeData[]) => {
+			console.log('Nodes added:', nodes)
+			// In a standalone chat, we don't actually add nodes anywhere
+		})
 
 	return (
 		<Box
@@ -35,7 +54,14 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
 					p: { xs: 1, sm: 2 },
 					pt: 0,
 				}}>
-				<ChatPanel projectId={projectId} projectContext={projectContext} onAddNodes={handleAddNodes} />
+				<ChatPanel
+					{...(projectId !== undefined ? { projectId } : {})}
+					{...(projectContext ? { projectContext } : {})}
+					{...(existingNodes ? { existingNodes } : {})}
+					{...(onFocusNode ? { onFocusNode } : {})}
+					{...(modelChoice ? { modelChoice } : {})}
+					onAddNodes={handleAddNodes}
+				/>
 			</Box>
 		</Box>
 	)
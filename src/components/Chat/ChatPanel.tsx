@@ -6,6 +6,8 @@ import {
 	// Info as InfoIcon, // Unused
 	Psychology as PsychologyIcon,
 	Clear as ClearIcon,
+	Stop as StopIcon,
+	Replay as ResumeIcon,
 } from '@mui/icons-material'
 import {
 	Box,
@@ -18,38 +20,98 @@ import {
 	// IconButton, // Unused
 	Avatar,
 	Alert,
+	Chip,
 	Tooltip,
 	alpha,
 	useTheme,
 } from '@mui/material'
-import { useState, useEffect, useRef, memo } from 'react'
+import { useState, useEffect, useRef, useMemo, useCallback, memo } from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
 import { useSettings } from '../../contexts/SettingsContext'
+import chatHistoryService from '../../services/ChatHistoryService'
 import chatService from '../../services/ChatService'
+import { getProvider, isLocalEndpoint, isProviderReady } from '../../services/llm'
 import offlineService from '../../services/OfflineService'
-import type { ChatMessage, ChatSuggestion, NodeData } from '../../types'
+import type {
+	ChatMessage,
+	ChatSuggestion,
+	ChatThread,
+	EdgeSuggestion,
+	ModelChoice,
+	NodeData,
+	NodeSuggestion,
+} from '../../types'
+import { getRetrievalBudget, NodeRetrievalIndex, splitCitations } from '../../utils/nodeRetrieval'
 
 import ChatSuggestionPanel from './ChatSuggestionPanel'
+import { ChatThreadBar } from './ChatThreadBar'
+
+// Length of a thread title taken from the first message
+const THREAD_TITLE_LENGTH = 60
 
 interface ChatPanelProps {
+	/** Project whose chat threads are shown; the chat is not kept without it */
 	projectId?: string
 	projectContext?: Record<string, unknown>
-	onAddNodes?: (nodes: NodeData[]) => void
+	/**
+	 * Nodes of the project that suggested nodes may be connected to. The most
+	 * relevant ones are sent with each question and can be cited in replies.
+	 */
+	existingNodes?: NodeSuggestion[]
+	/** Shows a cited node on the canvas; citations are plain text without it */
+	onFocusNode?: (nodeId: string) => void
+	/** Receives accepted nodes and the suggested edges among them and to existing nodes */
+	onAddNodes?: (nodes: NodeData[], edges: EdgeSuggestion[]) => void
 	onClose?: () => void
+	/** Provider and model chosen for the project; the default from the settings when left out */
+	modelChoice?: ModelChoice
 }
 
-const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanelProps) => {
-	const { settings } = useSettings()
+const ChatPanel = ({
+	projectId,
+	projectContext,
+	existingNodes,
+	onFocusNode,
+	onAddNodes,
+	onClose,
+	modelChoice,
+}: ChatPanelProps) => {
+	const { llm, vaultStatus } = useSettings()
 	const { t } = useI18n()
+	const model = modelChoice ?? llm.defaultModel
+	const provider = getProvider(model.provider)
+	const providerConfig = llm.providers.get(model.provider)
+	const isConfigured = isProviderReady(provider, providerConfig)
+	// A locked vault hides the API key until it is unlocked
+	const apiKeyMissingMessage =
+		vaultStatus === 'locked' ? t('chat.vaultLocked') : t('chat.apiKeyMissing', { provider: provider.label })
 	const [messages, setMessages] = useState<ChatMessage[]>([])
+	const [threads, setThreads] = useState<ChatThread[]>([])
+	// Null while a new conversation has no messages yet; it is stored with the first reply
+	const [activeThread, setActiveThread] = useState<ChatThread | null>(null)
+	// Messages as last loaded or stored, so that unchanged ones are not stored again
+	const savedMessagesRef = useRef<ChatMessage[]>(messages)
 	const [input, setInput] = useState('')
 	const [isLoading, setIsLoading] = useState(false)
 	const [error, setError] = useState<string | null>(null)
 	const [isOnline, setIsOnline] = useState(offlineService.getOnlineStatus())
+	// Local model servers keep working without internet access
+	const isReachable = isOnline || isLocalEndpoint(providerConfig?.baseUrl ?? provider.defaultBaseUrl)
 	const [nodeSuggestion, setNodeSuggestion] = useState<ChatSuggestion | null>(null)
 	const [isGeneratingNodes, setIsGeneratingNodes] = useState(false)
+	const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
 	const messagesEndRef = useRef<HTMLDivElement>(null)
+	const abortControllerRef = useRef<AbortController | null>(null)
+	const retrievalIndex = useMemo(() => new NodeRetrievalIndex(existingNodes ?? []), [existingNodes])
+	const nodeTitles = useMemo(
+		() => new Map((existingNodes ?? []).flatMap((node) => (node.id !== undefined ? [[node.id, node.title]] : []))),
+		[existingNodes],
+	)
+	const citableIds = useMemo(() => new Set(nodeTitles.keys()), [nodeTitles])
+
+	// Stop a running stream when the panel closes
+	useEffect(() => () => abortControllerRef.current?.abort(), [])
 
 	// Monitor online status
 	useEffect(() => {
@@ -62,29 +124,58 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 		}
 	}, [])
 
-	// Load chat history from localStorage on mount
+	/**
+	 * Show a thread, or an empty new conversation without one
+	 */
+	const openThread = useCallback((thread: ChatThread | null) => {
+		const threadMessages = thread?.messages ?? []
+		savedMessagesRef.current = threadMessages
+		setActiveThread(thread)
+		setMessages(threadMessages)
+		setNodeSuggestion(null)
+		setError(null)
+	}, [])
+
+	// Load the chat threads of the project and open the most recent one
 	useEffect(() => {
-		if (projectId !== undefined && projectId !== null && projectId !== '') {
-			const storedMessages = localStorage.getItem(`chat_history_${projectId}`)
-			try {
-				if (storedMessages !== null) {
-					const parsedMessages = JSON.parse(storedMessages)
-					if (Array.isArray(parsedMessages)) {
-						setMessages(parsedMessages)
-					}
-				}
-			} catch (error) {
-				console.error('Error loading chat history:', error)
-			}
+		if (projectId === undefined || projectId === '') return
+		let cancelled = false
+		chatHistoryService
+			.getThreads(projectId)
+			.then((loaded) => {
+				if (cancelled) return
+				setThreads(loaded)
+				openThread(loaded[0] ?? null)
+			})
+			.catch((error) => console.error('Error loading chat history:', error))
+		return () => {
+			cancelled = true
 		}
-	}, [projectId])
+	}, [projectId, openThread])
+
+	/**
+	 * Put a stored thread at the top of the thread list and make it the active one
+	 */
+	const showSavedThread = useCallback((thread: ChatThread) => {
+		setThreads((prev) => [thread, ...prev.filter((item) => item.id !== thread.id)])
+		setActiveThread((current) => (current === null || current.id === thread.id ? thread : current))
+	}, [])
 
-	// Save chat history to localStorage when messages change
+	// Store the messages of the thread once a reply has finished streaming; the
+	// first reply of a new conversation starts a thread titled by its question.
+	// Messages already stored are skipped, so a newly active thread stores nothing.
 	useEffect(() => {
-		if (projectId !== undefined && projectId !== null && projectId !== '' && messages.length > 0) {
-			localStorage.setItem(`chat_history_${projectId}`, JSON.stringify(messages))
-		}
-	}, [messages, projectId])
+		if (projectId === undefined || projectId === '' || isLoading) return
+		if (messages.length === 0 || messages === savedMessagesRef.current) return
+		savedMessagesRef.current = messages
+
+		const saved = activeThread
+			? chatHistoryService.saveMessages(activeThread, messages)
+			: chatHistoryService.createThread(projectId, (messages[0]?.content ?? '').slice(0, THREAD_TITLE_LENGTH), {
+				messages,
+			})
+		saved.then(showSavedThread).catch((error) => console.error('Error saving chat history:', error))
+	}, [messages, projectId, isLoading, activeThread, showSavedThread])
 
 	// Scroll to bottom when messages change
 	useEffect(() => {
@@ -102,18 +193,14 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 		if (input.trim() === '') return
 
 		// Check if online
-		if (isOnline !== true) {
+		if (!isReachable) {
 			setError(t('chat.offlineError') ?? 'Cannot send messages while offline')
 			return
 		}
 
 		// Check if API key is configured
-		if (
-			settings.openRouterApiKey === undefined ||
-			settings.openRouterApiKey === null ||
-			settings.openRouterApiKey === ''
-		) {
-			setError(t('chat.apiKeyMissing') ?? 'API key is not configured')
+		if (!isConfigured) {
+			setError(apiKeyMissingMessage)
 			return
 		}
 
@@ -124,20 +211,81 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 			timestamp: new Date().toISOString(),
 		}
 
-		setMessages((prev) => [...prev, userMessage])
+		// Placeholder the streamed reply is written into
+		const reply: ChatMessage = {
+			id: crypto.randomUUID(),
+			role: 'assistant',
+			content: '',
+			timestamp: new Date().toISOString(),
+			status: 'streaming',
+		}
+
+		setMessages((prev) => [...prev, userMessage, reply])
 		setInput('')
-		setIsLoading(true)
-		setError(null)
 
 		// Clear any existing node suggestions
 		setNodeSuggestion(null)
 
+		await streamReply([...messages, userMessage], reply)
+	}
+
+	/**
+	 * Stream a reply into an assistant message. A partial reply is sent back as
+	 * the last message so that the model continues it.
+	 * @param history Messages the reply answers
+	 * @param reply Message receiving the text, possibly holding a partial reply
+	 */
+	const streamReply = async (history: ChatMessage[], reply: ChatMessage) => {
+		const controller = new AbortController()
+		abortControllerRef.current = controller
+		setStreamingMessageId(reply.id)
+		setIsLoading(true)
+		setError(null)
+
+		const updateReply = (update: (message: ChatMessage) => ChatMessage) =>
+			setMessages((prev) => prev.map((message) => (message.id === reply.id ? update(message) : message)))
+
 		try {
-			const assistantMessage = await chatService.sendMessage([...messages, userMessage], projectContext)
-			setMessages((prev) => [...prev, assistantMessage])
+			// The nodes most relevant to the question, as many as the model's context allows
+			const question = history.filter((message) => message.role === 'user').at(-1)?.content ?? ''
+			const retrieved = retrievalIndex.retrieve(
+				question,
+				getRetrievalBudget(chatService.getCapabilities(model).contextWindow),
+			)
+			// The node the thread is attached to always comes first
+			const threadNode = existingNodes?.find(
+				(node) => node.id !== undefined && node.id === activeThread?.nodeId,
+			)
+			const contextNodes =
+				threadNode?.id !== undefined
+					? [{ ...threadNode, id: threadNode.id }, ...retrieved.filter((node) => node.id !== threadNode.id)]
+					: retrieved
+			const result = await chatService.streamMessage(history, {
+				...(projectContext ? { projectContext } : {}),
+				contextNodes,
+				model,
+				signal: controller.signal,
+				onToken: (_delta, content) =>
+					updateReply((message) => ({ ...message, content: reply.content + content, status: 'streaming' })),
+			})
+			updateReply((message) => ({
+				...message,
+				content: reply.content + result.content,
+				timestamp: result.timestamp,
+				...(result.status ? { status: result.status } : {}),
+				...(result.usage ? { usage: result.usage } : {}),
+				...(result.citations ? { citations: result.citations } : {}),
+			}))
 		} catch (error) {
 			console.error('Error sending message:', error)
 
+			// Drop the empty placeholder, but keep a partial reply so it can be resumed
+			if (reply.content === '') {
+				setMessages((prev) => prev.filter((message) => message.id !== reply.id))
+			} else {
+				updateReply((message) => ({ ...message, status: 'interrupted' }))
+			}
+
 			// Check if the error is due to being offline
 			if (navigator.onLine !== true) {
 				setError(t('chat.offlineError') ?? 'Cannot send messages while offline')
@@ -145,11 +293,30 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 				setError(t('chat.errorSendingMessage') ?? 'Error sending message')
 			}
 		} finally {
+			abortControllerRef.current = null
+			setStreamingMessageId(null)
 			setIsLoading(false)
 			scrollToBottom()
 		}
 	}
 
+	/**
+	 * Stop the reply being streamed, keeping the text received so far
+	 */
+	const handleStop = () => {
+		abortControllerRef.current?.abort()
+	}
+
+	/**
+	 * Continue a reply whose stream was interrupted
+	 */
+	const handleResume = (message: ChatMessage) => {
+		if (isLoading || !isReachable) return
+		const index = messages.findIndex((item) => item.id === message.id)
+		if (index === -1) return
+		void streamReply(messages.slice(0, index + 1), message)
+	}
+
 	/**
 	 * Generate node suggestions from the current input
 	 */
@@ -157,18 +324,14 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 		if (input.trim() === '' || isGeneratingNodes === true) return
 
 		// Check if online
-		if (isOnline !== true) {
+		if (!isReachable) {
 			setError(t('chat.offlineError') ?? 'Cannot generate nodes while offline')
 			return
 		}
 
 		// Check if API key is configured
-		if (
-			settings.openRouterApiKey === undefined ||
-			settings.openRouterApiKey === null ||
-			settings.openRouterApiKey === ''
-		) {
-			setError(t('chat.apiKeyMissing') ?? 'API key is not configured')
+		if (!isConfigured) {
+			setError(apiKeyMissingMessage)
 			return
 		}
 
@@ -182,7 +345,7 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 		setError(null)
 
 		try {
-			const suggestion = await chatService.generateNodeSuggestions(input, projectContext)
+			const suggestion = await chatService.generateNodeSuggestions(input, projectContext, existingNodes, model)
 			setNodeSuggestion(suggestion)
 			setInput('') // Clear input after generating
 		} catch (error) {
@@ -202,18 +365,18 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 	/**
 	 * Handle accepting a single node
 	 */
-	const handleAcceptNode = (nodeData: NodeData) => {
+	const handleAcceptNode = (nodeData: NodeData, edges: EdgeSuggestion[]) => {
 		if (onAddNodes !== undefined && onAddNodes !== null) {
-			onAddNodes([nodeData])
+			onAddNodes([nodeData], edges)
 		}
 	}
 
 	/**
 	 * Handle accepting all nodes
 	 */
-	const handleAcceptAllNodes = (nodeDataList: NodeData[]) => {
+	const handleAcceptAllNodes = (nodeDataList: NodeData[], edges: EdgeSuggestion[]) => {
 		if (onAddNodes !== undefined && onAddNodes !== null) {
-			onAddNodes(nodeDataList)
+			onAddNodes(nodeDataList, edges)
 		}
 		setNodeSuggestion(null) // Clear suggestions after accepting all
 	}
@@ -232,11 +395,53 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 		}
 	}
 
+	/**
+	 * Render a message with the nodes it cites as chips that show the node
+	 */
+	const renderContent = (message: ChatMessage) => {
+		if (message.role !== 'assistant') return message.content
+		return splitCitations(message.content, citableIds).map((segment, index) =>
+			'nodeId' in segment ? (
+				<Tooltip key={index} title={t('chat.showNode')}>
+					<Chip
+						size="small"
+						variant="outlined"
+						color="primary"
+						label={nodeTitles.get(segment.nodeId) ?? segment.nodeId}
+						{...(onFocusNode ? { onClick: () => onFocusNode(segment.nodeId) } : {})}
+						sx={{ mx: 0.25, maxWidth: 200, verticalAlign: 'baseline' }}
+					/>
+				</Tooltip>
+			) : (
+				<span key={index}>{segment.text}</span>
+			),
+		)
+	}
+
+	/**
+	 * Delete the current thread and show the next most recent one
+	 */
 	const clearChat = () => {
-		if (projectId !== undefined && projectId !== null && projectId !== '') {
-			localStorage.removeItem(`chat_history_${projectId}`)
+		if (activeThread) {
+			const remaining = threads.filter((thread) => thread.id !== activeThread.id)
+			void chatHistoryService
+				.deleteThread(activeThread.id)
+				.catch((error) => console.error('Error deleting chat thread:', error))
+			setThreads(remaining)
+			openThread(remaining[0] ?? null)
+		} else {
+			openThread(null)
 		}
-		setMessages([])
+	}
+
+	/**
+	 * Attach the thread to a node, or detach it
+	 */
+	const handleAttachThread = (thread: ChatThread, nodeId: string | null) => {
+		chatHistoryService
+			.updateThread(thread, { nodeId })
+			.then(showSavedThread)
+			.catch((error) => console.error('Error updating chat thread:', error))
 	}
 
 	return (
@@ -296,19 +501,32 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 								overflow: 'hidden',
 								textOverflow: 'ellipsis',
 							}}>
-							{t('chat.poweredBy')} OpenRouter
+							{t('chat.poweredByProvider', { provider: provider.label })} · {model.model}
 						</Typography>
 					</Box>
 				</Box>
-				{!isOnline && (
+				{!isReachable && (
 					<Tooltip title={t('chat.offlineMode') || 'Offline Mode - Chat functionality is limited'}>
 						<OfflineIcon color="warning" fontSize="small" sx={{ ml: 1, flexShrink: 0 }} />
 					</Tooltip>
 				)}
 			</Box>
 
+			{projectId !== undefined && projectId !== '' && (
+				<ChatThreadBar
+					projectId={projectId}
+					threads={threads}
+					activeThread={activeThread}
+					nodeTitles={nodeTitles}
+					onSelect={openThread}
+					onNewThread={() => openThread(null)}
+					onAttach={handleAttachThread}
+					disabled={isLoading || isGeneratingNodes}
+				/>
+			)}
+
 			{/* Offline warning banner */}
-			{!isOnline && (
+			{!isReachable && (
 				<Alert
 					severity="warning"
 					sx={{
@@ -330,7 +548,9 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 			{/* Node suggestions panel */}
 			{nodeSuggestion && (
 				<ChatSuggestionPanel
+					key={nodeSuggestion.id}
 					suggestion={nodeSuggestion}
+					{...(existingNodes ? { existingNodes } : {})}
 					onAcceptNode={handleAcceptNode}
 					onAcceptAll={handleAcceptAllNodes}
 					onDismiss={handleDismissSuggestions}
@@ -391,9 +611,9 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 						<Typography variant="body1" color="text.secondary">
 							{t('chat.startConversation')}
 						</Typography>
-						{!settings.openRouterApiKey && (
+						{!isConfigured && (
 							<Alert severity="info" sx={{ mt: 3, width: '100%' }}>
-								{t('chat.apiKeyMissing')}
+								{apiKeyMissingMessage}
 							</Alert>
 						)}
 					</Box>
@@ -455,22 +675,33 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 											: {},
 								}}>
 								<Typography variant="body1" sx={{ whiteSpace: 'pre-wrap' }}>
-									{message.content}
+									{renderContent(message)}
 								</Typography>
+								{message.id === streamingMessageId && message.content === '' && <CircularProgress size={16} />}
 								<Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
 									{new Date(message.timestamp).toLocaleTimeString()}
+									{message.usage && ` · ${t('chat.tokenUsage', { count: message.usage.totalTokens })}`}
+									{message.status === 'stopped' && ` · ${t('chat.stopped')}`}
 								</Typography>
+								{message.status === 'interrupted' && message.id !== streamingMessageId && (
+									<Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+										<Typography variant="caption" color="warning.main">
+											{t('chat.interrupted')}
+										</Typography>
+										<Button
+											size="small"
+											startIcon={<ResumeIcon fontSize="small" />}
+											onClick={() => handleResume(message)}
+											disabled={isLoading || !isReachable}>
+											{t('chat.resume')}
+										</Button>
+									</Box>
+								)}
 							</Paper>
 						</Box>
 					))
 				)}
 
-				{isLoading && (
-					<Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
-						<CircularProgress size={24} />
-					</Box>
-				)}
-
 				{error !== undefined && error !== null && error !== '' ? (
 					<Paper
 						elevation={0}
@@ -508,7 +739,7 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 				<TextField
 					fullWidth
 					placeholder={
-						isOnline ? t('chat.typeMessage') : t('chat.offlineDisabled') || 'Chat unavailable while offline'
+						isReachable ? t('chat.typeMessage') : t('chat.offlineDisabled') || 'Chat unavailable while offline'
 					}
 					value={input}
 					onChange={(e) => setInput(e.target.value)}
@@ -516,7 +747,7 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 					multiline
 					maxRows={3}
 					size="small"
-					disabled={isLoading || isGeneratingNodes || !settings.openRouterApiKey || !isOnline}
+					disabled={isLoading || isGeneratingNodes || !isConfigured || !isReachable}
 					sx={{
 						flexGrow: 1,
 						'& .MuiOutlinedInput-root': {
@@ -532,7 +763,7 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 							fontSize: '0.7rem',
 						},
 					}}
-					helperText={!isOnline ? t('chat.offlineHelp') || 'Chat will be available when you reconnect' : ''}
+					helperText={!isReachable ? t('chat.offlineHelp') || 'Chat will be available when you reconnect' : ''}
 				/>
 
 				<Box
@@ -583,10 +814,8 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 											isLoading === true ||
 											isGeneratingNodes === true ||
 											input.trim() === '' ||
-											settings.openRouterApiKey === undefined ||
-											settings.openRouterApiKey === null ||
-											settings.openRouterApiKey === '' ||
-											isOnline !== true
+											!isConfigured ||
+											!isReachable
 										}
 										sx={{
 											borderRadius: '8px',
@@ -605,29 +834,42 @@ const ChatPanel = ({ projectId, projectContext, onAddNodes, onClose }: ChatPanel
 							</Tooltip>
 						)}
 
-						<Button
-							variant="contained"
-							color="primary"
-							endIcon={<SendIcon fontSize="small" />}
-							onClick={() => void handleSendMessage()} // Use void to explicitly ignore the promise
-							disabled={
-								isLoading === true ||
-								isGeneratingNodes === true ||
-								input.trim() === '' ||
-								settings.openRouterApiKey === undefined ||
-								settings.openRouterApiKey === null ||
-								settings.openRouterApiKey === '' ||
-								isOnline !== true
-							}
-							sx={{
-								borderRadius: '8px',
-								height: '36px',
-								flex: { xs: '1 1 auto', sm: '0 0 auto' },
-								boxShadow: (theme) => theme.shadows[2],
-								fontSize: { xs: '0.75rem', sm: '0.8125rem' },
-							}}>
-							{t('chat.send')}
-						</Button>
+						{isLoading ? (
+							<Button
+								variant="outlined"
+								color="primary"
+								endIcon={<StopIcon fontSize="small" />}
+								onClick={handleStop}
+								sx={{
+									borderRadius: '8px',
+									height: '36px',
+									flex: { xs: '1 1 auto', sm: '0 0 auto' },
+									fontSize: { xs: '0.75rem', sm: '0.8125rem' },
+								}}>
+								{t('chat.stop')}
+							</Button>
+						) : (
+							<Button
+								variant="contained"
+								color="primary"
+								endIcon={<SendIcon fontSize="small" />}
+								onClick={() => void handleSendMessage()} // Use void to explicitly ignore the promise
+								disabled={
+									isGeneratingNodes === true ||
+									input.trim() === '' ||
+									!isConfigured ||
+									!isReachable
+								}
+								sx={{
+									borderRadius: '8px',
+									height: '36px',
+									flex: { xs: '1 1 auto', sm: '0 0 auto' },
+									boxShadow: (theme) => theme.shadows[2],
+									fontSize: { xs: '0.75rem', sm: '0.8125rem' },
+								}}>
+								{t('chat.send')}
+							</Button>
+						)}
 					</Box>
 				</Box>
 			</Box>
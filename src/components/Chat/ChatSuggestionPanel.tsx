@@ -3,6 +3,7 @@ import {
 	Delete as DeleteIcon,
 	Check as CheckIcon,
 	CheckCircle as CheckCircleIcon,
+	ArrowForward as ArrowForwardIcon,
 } from '@mui/icons-material'
 import {
 	Box,
@@ -22,47 +23,80 @@ import {
 import { useState, memo } from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
-import type { ChatSuggestion, NodeSuggestion, NodeData } from '../../types'
-import { createNodeDataFromSuggestion } from '../../types'
+import type { ChatSuggestion, EdgeSuggestion, NodeSuggestion, NodeData } from '../../types'
+import { createNodeDataFromSuggestion, resolveSuggestedEdges } from '../../types'
 
 interface ChatSuggestionPanelProps {
 	suggestion: ChatSuggestion | null
-	onAcceptNode: (nodeData: NodeData) => void
-	onAcceptAll: (nodeDatas: NodeData[]) => void
+	/** Existing nodes the suggested edges may connect to, for showing their titles */
+	existingNodes?: NodeSuggestion[]
+	/** Receives the node and the suggested edges it completes, with node IDs */
+	onAcceptNode: (nodeData: NodeData, edges: EdgeSuggestion[]) => void
+	onAcceptAll: (nodeDatas: NodeData[], edges: EdgeSuggestion[]) => void
 	onDismiss: () => void
 }
 
 /**
  * Component for displaying and accepting chat-generated node suggestions
  */
-function ChatSuggestionPanel({ suggestion, onAcceptNode, onAcceptAll, onDismiss }: ChatSuggestionPanelProps) {
+function ChatSuggestionPanel({
+	suggestion,
+	existingNodes = [],
+	onAcceptNode,
+	onAcceptAll,
+	onDismiss,
+}: ChatSuggestionPanelProps) {
 	const { t } = useI18n()
-	const [acceptedNodes, setAcceptedNodes] = useState<Set<string>>(new Set())
+	// Node ID created for each accepted suggestion, by its index
+	const [acceptedNodes, setAcceptedNodes] = useState<Map<number, string>>(new Map())
 
 	if (!suggestion) {
 		return null
 	}
 
-	const handleAcceptNode = (nodeSuggestion: NodeSuggestion) => {
+	// Edges made complete by accepting the given nodes
+	const getCompletedEdges = (accepted: Map<number, string>, newNodeIds: Set<string>) => {
+		const createdIds = new Map<string, string>()
+		accepted.forEach((nodeId, index) => {
+			const suggestionId = suggestion.nodes.at(index)?.id
+			if (suggestionId !== undefined) createdIds.set(suggestionId, nodeId)
+		})
+		return resolveSuggestedEdges(suggestion, createdIds).filter(
+			(edge) => newNodeIds.has(edge.source) || newNodeIds.has(edge.target),
+		)
+	}
+
+	const handleAcceptNode = (nodeSuggestion: NodeSuggestion, index: number) => {
 		const nodeData = createNodeDataFromSuggestion(nodeSuggestion)
-		onAcceptNode(nodeData)
 
 		// Mark this node as accepted
-		const newAcceptedNodes = new Set(acceptedNodes)
-		newAcceptedNodes.add(nodeData.id)
+		const newAcceptedNodes = new Map(acceptedNodes)
+		newAcceptedNodes.set(index, nodeData.id)
 		setAcceptedNodes(newAcceptedNodes)
+
+		onAcceptNode(nodeData, getCompletedEdges(newAcceptedNodes, new Set([nodeData.id])))
 	}
 
 	const handleAcceptAll = () => {
-		const nodeDatas = suggestion.nodes.map(createNodeDataFromSuggestion)
-		onAcceptAll(nodeDatas)
+		const newAcceptedNodes = new Map(acceptedNodes)
+		const nodeDatas: NodeData[] = []
+		suggestion.nodes.forEach((node, index) => {
+			if (newAcceptedNodes.has(index)) return
+			const nodeData = createNodeDataFromSuggestion(node)
+			nodeDatas.push(nodeData)
+			newAcceptedNodes.set(index, nodeData.id)
+		})
 
 		// Mark all nodes as accepted
-		const newAcceptedNodes = new Set(acceptedNodes)
-		nodeDatas.forEach((node) => newAcceptedNodes.add(node.id))
 		setAcceptedNodes(newAcceptedNodes)
+
+		onAcceptAll(nodeDatas, getCompletedEdges(newAcceptedNodes, new Set(nodeDatas.map((node) => node.id))))
 	}
 
+	// Title of a node an edge refers to by its suggestion ID
+	const getNodeTitle = (id: string) =>
+		[...suggestion.nodes, ...existingNodes].find((node) => node.id === id)?.title ?? id
+
 	const getNodeTypeColor = (type: string) => {
 		switch (type) {
 		case 'idea':
@@ -112,9 +146,7 @@ function ChatSuggestionPanel({ suggestion, onAcceptNode, onAcceptAll, onDismiss
 
 			<List>
 				{suggestion.nodes.map((node, index) => {
-					const isAccepted = Array.from(acceptedNodes).some(
-						(id) => id === createNodeDataFromSuggestion(node).id,
-					)
+					const isAccepted = acceptedNodes.has(index)
 
 					return (
 						<Card
@@ -157,7 +189,7 @@ function ChatSuggestionPanel({ suggestion, onAcceptNode, onAcceptAll, onDismiss
 										<Button
 											size="small"
 											startIcon={isAccepted ? <CheckCircleIcon /> : <AddIcon />}
-											onClick={() => handleAcceptNode(node)}
+											onClick={() => handleAcceptNode(node, index)}
 											disabled={isAccepted}
 											color={isAccepted ? 'success' : 'primary'}>
 											{isAccepted ? t('chat.accepted') : t('chat.accept')}
@@ -170,6 +202,26 @@ function ChatSuggestionPanel({ suggestion, onAcceptNode, onAcceptAll, onDismiss
 				})}
 			</List>
 
+			{suggestion.edges && suggestion.edges.length > 0 && (
+				<Box sx={{ mb: 2 }}>
+					<Typography variant="subtitle2" gutterBottom>
+						{t('chat.suggestedConnections')}
+					</Typography>
+					<Stack spacing={0.5}>
+						{suggestion.edges.map((edge, index) => (
+							<Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+								<Typography variant="body2">{getNodeTitle(edge.source)}</Typography>
+								<ArrowForwardIcon fontSize="small" color="action" />
+								<Typography variant="body2">{getNodeTitle(edge.target)}</Typography>
+								{edge.label !== undefined && edge.label !== '' && (
+									<Chip label={edge.label} size="small" variant="outlined" />
+								)}
+							</Box>
+						))}
+					</Stack>
+				</Box>
+			)}
+
 			<Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 2 }}>
 				<Button variant="outlined" color="secondary" onClick={onDismiss}>
 					{t('chat.dismiss')}
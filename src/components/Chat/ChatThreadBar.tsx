@@ -0,0 +1,172 @@
+import { Add as AddIcon, Search as SearchIcon } from '@mui/icons-material'
+import {
+	Box,
+	IconButton,
+	InputAdornment,
+	List,
+	ListItemButton,
+	ListItemText,
+	MenuItem,
+	Paper,
+	TextField,
+	Tooltip,
+	Typography,
+} from '@mui/material'
+import { useEffect, useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import chatHistoryService, { type ChatThreadMatch } from '../../services/ChatHistoryService'
+import type { ChatThread } from '../../types'
+
+interface ChatThreadBarProps {
+	projectId: string
+	/** Threads of the project, most recently updated first */
+	threads: ChatThread[]
+	/** Thread shown in the chat; null while a new conversation has no messages yet */
+	activeThread: ChatThread | null
+	/** Titles of the nodes a thread can be attached to, by node ID */
+	nodeTitles: Map<string, string>
+	onSelect: (thread: ChatThread) => void
+	onNewThread: () => void
+	onAttach: (thread: ChatThread, nodeId: string | null) => void
+	disabled?: boolean
+}
+
+/**
+ * Switches between the chat threads of a project, attaches the current one to
+ * a node and searches all of them
+ */
+export const ChatThreadBar = ({
+	projectId,
+	threads,
+	activeThread,
+	nodeTitles,
+	onSelect,
+	onNewThread,
+	onAttach,
+	disabled = false,
+}: ChatThreadBarProps) => {
+	const { t } = useI18n()
+	const [query, setQuery] = useState('')
+	const [matches, setMatches] = useState<ChatThreadMatch[]>([])
+
+	useEffect(() => {
+		let cancelled = false
+		if (query.trim() === '') {
+			setMatches([])
+			return
+		}
+		void chatHistoryService.searchThreads(query, projectId).then((result) => {
+			if (!cancelled) setMatches(result)
+		})
+		return () => {
+			cancelled = true
+		}
+	}, [query, projectId, threads])
+
+	const getLabel = (thread: ChatThread) => {
+		const nodeTitle = thread.nodeId !== undefined ? nodeTitles.get(thread.nodeId) : undefined
+		return nodeTitle !== undefined ? `${thread.title} · ${nodeTitle}` : thread.title
+	}
+
+	const handleSelectMatch = (thread: ChatThread) => {
+		setQuery('')
+		onSelect(thread)
+	}
+
+	return (
+		<Box sx={{ px: { xs: 1, sm: 2 }, py: 1, borderBottom: 1, borderColor: 'divider', flexShrink: 0 }}>
+			<Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+				<TextField
+					select
+					size="small"
+					label={t('chat.threads')}
+					value={activeThread?.id ?? ''}
+					onChange={(e) => {
+						const thread = threads.find((item) => item.id === e.target.value)
+						if (thread) onSelect(thread)
+					}}
+					disabled={disabled}
+					sx={{ flex: 2, minWidth: 0 }}
+					slotProps={{ select: { displayEmpty: true }, inputLabel: { shrink: true } }}>
+					{activeThread === null && <MenuItem value="">{t('chat.newThread')}</MenuItem>}
+					{threads.map((thread) => (
+						<MenuItem key={thread.id} value={thread.id}>
+							{getLabel(thread)}
+						</MenuItem>
+					))}
+				</TextField>
+				<TextField
+					select
+					size="small"
+					label={t('chat.attachToNode')}
+					value={activeThread?.nodeId ?? ''}
+					onChange={(e) => {
+						if (activeThread) onAttach(activeThread, e.target.value === '' ? null : e.target.value)
+					}}
+					disabled={disabled || activeThread === null || nodeTitles.size === 0}
+					sx={{ flex: 1, minWidth: 0 }}
+					slotProps={{ select: { displayEmpty: true }, inputLabel: { shrink: true } }}>
+					<MenuItem value="">{t('chat.noNode')}</MenuItem>
+					{[...nodeTitles].map(([nodeId, title]) => (
+						<MenuItem key={nodeId} value={nodeId}>
+							{title}
+						</MenuItem>
+					))}
+				</TextField>
+				<Tooltip title={t('chat.newThread')}>
+					<span>
+						<IconButton
+							size="small"
+							onClick={onNewThread}
+							disabled={disabled || activeThread === null}
+							aria-label={t('chat.newThread')}>
+							<AddIcon fontSize="small" />
+						</IconButton>
+					</span>
+				</Tooltip>
+			</Box>
+			<TextField
+				fullWidth
+				size="small"
+				value={query}
+				onChange={(e) => setQuery(e.target.value)}
+				placeholder={t('chat.searchThreads')}
+				disabled={disabled}
+				sx={{ mt: 1 }}
+				slotProps={{
+					input: {
+						startAdornment: (
+							<InputAdornment position="start">
+								<SearchIcon fontSize="small" />
+							</InputAdornment>
+						),
+					},
+				}}
+			/>
+			{query.trim() !== '' && (
+				<Paper variant="outlined" sx={{ mt: 1, maxHeight: 200, overflow: 'auto' }}>
+					{matches.length === 0 ? (
+						<Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+							{t('chat.noThreadMatches')}
+						</Typography>
+					) : (
+						<List dense disablePadding>
+							{matches.map(({ thread, messages }) => (
+								<ListItemButton key={thread.id} onClick={() => handleSelectMatch(thread)}>
+									<ListItemText
+										primary={getLabel(thread)}
+										secondary={messages[0]?.content.slice(0, 120)}
+										slotProps={{ secondary: { noWrap: true } }}
+									/>
+								</ListItemButton>
+							))}
+						</List>
+					)}
+				</Paper>
+			)}
+		</Box>
+	)
+}
+
+export default ChatThreadBar
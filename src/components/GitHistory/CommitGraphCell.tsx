@@ -0,0 +1,81 @@
+import { useTheme } from '@mui/material'
+
+import type { CommitGraphRow } from '../../utils/commitGraph'
+
+const LANE_WIDTH = 14
+export const COMMIT_ROW_HEIGHT = 56
+const DOT_RADIUS = 4
+
+interface CommitGraphCellProps {
+	row: CommitGraphRow
+	laneCount: number
+	highlighted?: boolean
+}
+
+const laneX = (lane: number) => LANE_WIDTH / 2 + lane * LANE_WIDTH
+
+/**
+ * Draws the lanes of one commit row of the branch graph
+ */
+export const CommitGraphCell = ({ row, laneCount, highlighted = false }: CommitGraphCellProps) => {
+	const theme = useTheme()
+	const palette = [
+		theme.palette.primary.main,
+		theme.palette.secondary.main,
+		theme.palette.success.main,
+		theme.palette.warning.main,
+		theme.palette.info.main,
+		theme.palette.error.main,
+	]
+	const color = (lane: number) => palette[lane % palette.length]
+	const middle = COMMIT_ROW_HEIGHT / 2
+	const x = laneX(row.lane)
+
+	return (
+		<svg
+			width={Math.max(laneCount, 1) * LANE_WIDTH}
+			height={COMMIT_ROW_HEIGHT}
+			style={{ flexShrink: 0, display: 'block' }}
+			aria-hidden="true">
+			{row.passThrough.map((lane) => (
+				<line
+					key={`pass-${lane}`}
+					x1={laneX(lane)}
+					y1={0}
+					x2={laneX(lane)}
+					y2={COMMIT_ROW_HEIGHT}
+					stroke={color(lane)}
+					strokeWidth={2}
+				/>
+			))}
+			{row.incoming.map((lane) => (
+				<path
+					key={`in-${lane}`}
+					d={`M ${laneX(lane)} 0 C ${laneX(lane)} ${middle / 2}, ${x} ${middle / 2}, ${x} ${middle}`}
+					stroke={color(lane)}
+					strokeWidth={2}
+					fill="none"
+				/>
+			))}
+			{row.outgoing.map((lane) => (
+				<path
+					key={`out-${lane}`}
+					d={`M ${x} ${middle} C ${x} ${middle * 1.5}, ${laneX(lane)} ${middle * 1.5}, ${laneX(lane)} ${COMMIT_ROW_HEIGHT}`}
+					stroke={color(lane)}
+					strokeWidth={2}
+					fill="none"
+				/>
+			))}
+			<circle
+				cx={x}
+				cy={middle}
+				r={highlighted ? DOT_RADIUS + 1.5 : DOT_RADIUS}
+				fill={highlighted ? theme.palette.background.paper : color(row.lane)}
+				stroke={color(row.lane)}
+				strokeWidth={2}
+			/>
+		</svg>
+	)
+}
+
+export default CommitGraphCell
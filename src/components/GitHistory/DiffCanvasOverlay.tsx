@@ -0,0 +1,114 @@
+import { Box, useTheme } from '@mui/material'
+import { useMemo } from 'react'
+import { Background, Controls, MarkerType, ReactFlow } from 'reactflow'
+import type { Edge as FlowEdge, Node as FlowNode } from 'reactflow'
+import 'reactflow/dist/style.css'
+
+import type { ProjectDiff } from '../../utils/projectDiff'
+
+import { getDiffStatusColor } from './ProjectDiffList'
+
+interface DiffCanvasOverlayProps {
+	diff: ProjectDiff
+	height?: number | string
+	onSelectNode?: (nodeId: string) => void
+}
+
+// Prefix of the placeholder nodes drawn at the old position of moved nodes
+const GHOST_PREFIX = 'diff-ghost-'
+
+/**
+ * Read-only canvas of the compared version with changed nodes and edges
+ * colored by status. Removed items are drawn dashed at their old place and
+ * moved nodes keep a faded placeholder where they were before.
+ */
+export const DiffCanvasOverlay = ({ diff, height = 400, onSelectNode }: DiffCanvasOverlayProps) => {
+	const theme = useTheme()
+
+	const { nodes, edges } = useMemo(() => {
+		const flowNodes: FlowNode[] = []
+		const flowEdges: FlowEdge[] = []
+
+		for (const item of diff.nodes) {
+			const node = item.after ?? item.before
+			if (!node) continue
+			const color = getDiffStatusColor(theme, item.status)
+			const changed = item.status !== 'unchanged'
+
+			flowNodes.push({
+				id: node.id,
+				position: node.position,
+				data: { label: node.data.title },
+				style: {
+					border: `${changed ? 2 : 1}px ${item.status === 'removed' ? 'dashed' : 'solid'} ${color}`,
+					backgroundColor: changed ? `${color}22` : theme.palette.background.paper,
+					color: theme.palette.text.primary,
+					opacity: item.status === 'removed' ? 0.7 : 1,
+				},
+			})
+
+			if (item.moved && item.before) {
+				const ghostId = `${GHOST_PREFIX}${node.id}`
+				flowNodes.push({
+					id: ghostId,
+					position: item.before.position,
+					data: { label: item.before.data.title },
+					selectable: false,
+					style: {
+						border: `1px dashed ${getDiffStatusColor(theme, 'moved')}`,
+						backgroundColor: 'transparent',
+						color: theme.palette.text.disabled,
+						opacity: 0.5,
+					},
+				})
+				flowEdges.push({
+					id: `${ghostId}-edge`,
+					source: ghostId,
+					target: node.id,
+					animated: true,
+					style: { stroke: getDiffStatusColor(theme, 'moved'), strokeDasharray: '4 4' },
+					markerEnd: { type: MarkerType.ArrowClosed, color: getDiffStatusColor(theme, 'moved') },
+				})
+			}
+		}
+
+		for (const item of diff.edges) {
+			const edge = item.after ?? item.before
+			if (!edge) continue
+			const color = getDiffStatusColor(theme, item.status)
+			flowEdges.push({
+				id: edge.id,
+				source: edge.source,
+				target: edge.target,
+				...(edge.label !== undefined ? { label: edge.label } : {}),
+				style: {
+					stroke: item.status === 'unchanged' ? theme.palette.text.disabled : color,
+					strokeWidth: item.status === 'unchanged' ? 1 : 2,
+					...(item.status === 'removed' ? { strokeDasharray: '6 4' } : {}),
+				},
+			})
+		}
+
+		return { nodes: flowNodes, edges: flowEdges }
+	}, [diff, theme])
+
+	return (
+		<Box sx={{ height, border: 1, borderColor: 'divider', borderRadius: 1 }} data-testid="diff-canvas-overlay">
+			<ReactFlow
+				nodes={nodes}
+				edges={edges}
+				fitView
+				nodesDraggable={false}
+				nodesConnectable={false}
+				onNodeClick={(_event, node) => {
+					if (!node.id.startsWith(GHOST_PREFIX)) onSelectNode?.(node.id)
+				}}
+				proOptions={{ hideAttribution: true }}>
+				<Background />
+				<Controls showInteractive={false} />
+			</ReactFlow>
+		</Box>
+	)
+}
+
+export default DiffCanvasOverlay
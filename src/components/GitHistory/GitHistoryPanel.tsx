@@ -1,8 +1,11 @@
 import {
-	Commit as CommitIcon,
+	CallSplit as BranchIcon,
+	Compare as CompareIcon,
 	History as HistoryIcon,
+	LocalOffer as TagIcon,
 	Restore as RestoreIcon,
 	Save as SaveIcon,
+	Undo as RevertIcon,
 } from '@mui/icons-material'
 import {
 	Box,
@@ -10,46 +13,72 @@ import {
 	List,
 	ListItem,
 	ListItemText,
-	ListItemIcon,
 	ListItemButton,
-	Divider,
 	Paper,
 	Button,
+	Chip,
 	Dialog,
 	DialogTitle,
 	DialogContent,
 	DialogActions,
+	IconButton,
+	MenuItem,
+	Select,
 	TextField,
+	Tooltip,
 	CircularProgress,
 	Alert,
 } from '@mui/material'
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 
 import { useI18n } from '../../contexts/I18nContext'
 import gitService from '../../services/GitService'
 import projectService from '../../services/ProjectService'
-import type { GitCommit, Project } from '../../types'
+import type { GitCommit, GitRef, Project } from '../../types'
+import { layoutCommitGraph } from '../../utils/commitGraph'
+import { diffProjects, type ProjectDiff } from '../../utils/projectDiff'
+
+import { COMMIT_ROW_HEIGHT, CommitGraphCell } from './CommitGraphCell'
+import { ProjectDiffDialog } from './ProjectDiffDialog'
 
 interface GitHistoryPanelProps {
 	project: Project
 	onProjectUpdate: (project: Project) => void
 }
 
+type RefDialogMode = { type: 'branch' } | { type: 'tag'; commitId: string }
+
 export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelProps) => {
 	const { t } = useI18n()
 	const [commits, setCommits] = useState<GitCommit[]>([])
+	const [refs, setRefs] = useState<GitRef[]>([])
+	const [currentBranch, setCurrentBranch] = useState<string | null>(null)
+	const [currentCommitId, setCurrentCommitId] = useState<string | null>(null)
 	const [loading, setLoading] = useState(false)
 	const [commitDialogOpen, setCommitDialogOpen] = useState(false)
 	const [commitMessage, setCommitMessage] = useState('')
+	const [refDialog, setRefDialog] = useState<RefDialogMode | null>(null)
+	const [refName, setRefName] = useState('')
+	const [review, setReview] = useState<{ commit: GitCommit; diff: ProjectDiff } | null>(null)
 	const [error, setError] = useState<string | null>(null)
 	const [success, setSuccess] = useState<string | null>(null)
 
-	// Define loadCommits function with useCallback
-	const loadCommits = useCallback(() => {
+	const graph = useMemo(() => layoutCommitGraph(commits), [commits])
+	const branches = useMemo(() => refs.filter((ref) => ref.type === 'branch'), [refs])
+
+	const loadCommits = useCallback(async () => {
 		setLoading(true)
 		try {
-			const projectCommits = gitService.getCommits(project.id)
+			const [projectCommits, projectRefs, branch, current] = await Promise.all([
+				gitService.getCommits(project.id),
+				Promise.all([gitService.listBranches(project.id), gitService.listTags(project.id)]),
+				gitService.getCurrentBranch(project.id),
+				gitService.getCurrentCommit(project.id),
+			])
 			setCommits(projectCommits)
+			setRefs(projectRefs.flat())
+			setCurrentBranch(branch)
+			setCurrentCommitId(current?.id ?? null)
 		} catch (error) {
 			console.error('Error loading commits:', error)
 			setError(t('gitHistory.errorLoadingCommits'))
@@ -61,7 +90,7 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 	// Load commits on mount and when project changes
 	useEffect(() => {
 		if (project?.id) {
-			loadCommits()
+			void loadCommits()
 		}
 	}, [project?.id, loadCommits])
 
@@ -81,7 +110,7 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 			setCommitDialogOpen(false)
 			setCommitMessage('')
 			setSuccess(t('gitHistory.commitSuccessful'))
-			loadCommits()
+			await loadCommits()
 		} catch (error) {
 			console.error('Error creating commit:', error)
 			setError(t('gitHistory.errorCreatingCommit'))
@@ -90,17 +119,18 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 		}
 	}
 
-	const handleCheckout = (commitId: string) => {
+	const handleCheckout = async (ref: string) => {
 		setLoading(true)
 		setError(null)
 		setSuccess(null)
 
 		try {
-			const projectSnapshot = gitService.checkout(project.id, commitId)
+			const projectSnapshot = await gitService.checkout(project.id, ref)
 
 			if (projectSnapshot) {
 				onProjectUpdate(projectSnapshot)
 				setSuccess(t('gitHistory.checkoutSuccessful'))
+				await loadCommits()
 			} else {
 				setError(t('gitHistory.errorCheckingOut'))
 			}
@@ -112,6 +142,75 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 		}
 	}
 
+	// Show what checking out a commit would change in the current project
+	const handleReview = async (commit: GitCommit) => {
+		setError(null)
+		try {
+			const snapshot = await gitService.getSnapshot(commit.id)
+			if (!snapshot) {
+				setError(t('gitHistory.errorCheckingOut'))
+				return
+			}
+			setReview({ commit, diff: diffProjects(project, snapshot) })
+		} catch (error) {
+			console.error('Error comparing commit:', error)
+			setError(t('gitHistory.errorLoadingCommits'))
+		}
+	}
+
+	const handleRevert = async (commit: GitCommit) => {
+		setLoading(true)
+		setError(null)
+		setSuccess(null)
+
+		try {
+			const revertedProject = await gitService.revert(project.id, commit.id)
+			const savedProject = await projectService.updateProject(revertedProject)
+			onProjectUpdate(savedProject)
+			setSuccess(t('gitHistory.revertSuccessful', { message: commit.message }))
+			await loadCommits()
+		} catch (error) {
+			console.error('Error reverting commit:', error)
+			setError(t('gitHistory.errorReverting'))
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const handleCreateRef = async () => {
+		if (!refDialog || !refName.trim()) {
+			return
+		}
+
+		setError(null)
+		setSuccess(null)
+
+		try {
+			if (refDialog.type === 'branch') {
+				const branch = await gitService.createBranch(project.id, refName)
+				await gitService.checkout(project.id, branch.name)
+				setSuccess(t('gitHistory.branchCreated', { name: branch.name }))
+			} else {
+				const tag = await gitService.createTag(project.id, refName, refDialog.commitId)
+				setSuccess(t('gitHistory.tagCreated', { name: tag.name }))
+			}
+			setRefDialog(null)
+			setRefName('')
+			await loadCommits()
+		} catch (error) {
+			console.error('Error creating ref:', error)
+			setError(error instanceof Error ? error.message : t('gitHistory.errorCreatingRef'))
+		}
+	}
+
+	const refsByCommit = useMemo(() => {
+		const map = new Map<string, GitRef[]>()
+		for (const ref of refs) {
+			map.set(ref.target, [...(map.get(ref.target) ?? []), ref])
+		}
+		return map
+	}, [refs])
+
 	return (
 		<Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
 			<Box
@@ -122,6 +221,7 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 					display: 'flex',
 					justifyContent: 'space-between',
 					alignItems: 'center',
+					gap: 1,
 				}}>
 				<Box>
 					<Typography variant="h6">{t('gitHistory.title')}</Typography>
@@ -130,13 +230,41 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 					</Typography>
 				</Box>
 
-				<Button
-					variant="contained"
-					color="primary"
-					startIcon={<SaveIcon />}
-					onClick={() => setCommitDialogOpen(true)}>
-					{t('gitHistory.commit')}
-				</Button>
+				<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+					{branches.length > 0 && (
+						<Select
+							size="small"
+							value={currentBranch ?? ''}
+							displayEmpty
+							renderValue={(value) => (value ? value : t('gitHistory.detachedHead'))}
+							onChange={(event) => void handleCheckout(event.target.value)}
+							inputProps={{ 'aria-label': t('gitHistory.branch') }}
+							disabled={loading}>
+							{branches.map((branch) => (
+								<MenuItem key={branch.name} value={branch.name}>
+									{branch.name}
+								</MenuItem>
+							))}
+						</Select>
+					)}
+					<Tooltip title={t('gitHistory.newBranch')}>
+						<span>
+							<IconButton
+								onClick={() => setRefDialog({ type: 'branch' })}
+								disabled={loading || currentCommitId === null}
+								aria-label={t('gitHistory.newBranch')}>
+								<BranchIcon />
+							</IconButton>
+						</span>
+					</Tooltip>
+					<Button
+						variant="contained"
+						color="primary"
+						startIcon={<SaveIcon />}
+						onClick={() => setCommitDialogOpen(true)}>
+						{t('gitHistory.commit')}
+					</Button>
+				</Box>
 			</Box>
 
 			{error && (
@@ -152,7 +280,7 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 			)}
 
 			<Box sx={{ flexGrow: 1, overflow: 'auto', p: 2 }}>
-				{loading ? (
+				{loading && commits.length === 0 ? (
 					<Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
 						<CircularProgress />
 					</Box>
@@ -165,42 +293,94 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 						</Typography>
 					</Paper>
 				) : (
-					<List>
-						{commits.map((commit, index) => (
-							<Box key={commit.id}>
+					<List disablePadding>
+						{graph.rows.map((row) => {
+							const { commit } = row
+							const isCurrent = commit.id === currentCommitId
+							const labels = (refsByCommit.get(commit.id) ?? []).filter((ref) => ref.type !== 'head')
+
+							return (
 								<ListItem
+									key={commit.id}
 									disablePadding
 									secondaryAction={
-										<Button
-											size="small"
-											startIcon={<RestoreIcon />}
-											onClick={() => handleCheckout(commit.id)}
-											disabled={commit.id === gitService.getCurrentCommit(project.id)?.id}>
-											{t('gitHistory.checkout')}
-										</Button>
+										<Box sx={{ display: 'flex' }}>
+											<Tooltip title={t('gitHistory.checkout')}>
+												<span>
+													<IconButton
+														size="small"
+														onClick={() => void handleCheckout(commit.id)}
+														disabled={loading || isCurrent}
+														aria-label={t('gitHistory.checkout')}>
+														<RestoreIcon fontSize="small" />
+													</IconButton>
+												</span>
+											</Tooltip>
+											<Tooltip title={t('gitDiff.review')}>
+												<IconButton
+													size="small"
+													onClick={() => void handleReview(commit)}
+													disabled={loading}
+													aria-label={t('gitDiff.review')}>
+													<CompareIcon fontSize="small" />
+												</IconButton>
+											</Tooltip>
+											<Tooltip title={t('gitHistory.createTag')}>
+												<IconButton
+													size="small"
+													onClick={() => setRefDialog({ type: 'tag', commitId: commit.id })}
+													disabled={loading}
+													aria-label={t('gitHistory.createTag')}>
+													<TagIcon fontSize="small" />
+												</IconButton>
+											</Tooltip>
+											<Tooltip title={t('gitHistory.revert')}>
+												<span>
+													<IconButton
+														size="small"
+														onClick={() => void handleRevert(commit)}
+														disabled={loading || currentCommitId === null}
+														aria-label={t('gitHistory.revert')}>
+														<RevertIcon fontSize="small" />
+													</IconButton>
+												</span>
+											</Tooltip>
+										</Box>
 									}>
-									<ListItemButton
-										selected={commit.id === gitService.getCurrentCommit(project.id)?.id}>
-										<ListItemIcon>
-											<CommitIcon />
-										</ListItemIcon>
+									<ListItemButton selected={isCurrent} sx={{ py: 0, pr: 18, height: COMMIT_ROW_HEIGHT }}>
+										<Box sx={{ mr: 1.5 }}>
+											<CommitGraphCell row={row} laneCount={graph.laneCount} highlighted={isCurrent} />
+										</Box>
 										<ListItemText
-											primary={commit.message}
+											primary={
+												<Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+													{labels.map((ref) => (
+														<Chip
+															key={`${ref.type}-${ref.name}`}
+															size="small"
+															variant={ref.type === 'tag' ? 'outlined' : 'filled'}
+															color={ref.type === 'branch' ? 'primary' : 'default'}
+															label={ref.name}
+														/>
+													))}
+													<Typography variant="body2" noWrap>
+														{commit.message}
+													</Typography>
+												</Box>
+											}
 											secondary={
 												<>
 													<Typography component="span" variant="body2" color="text.primary">
-														{commit.version}
+														{commit.id.substring(0, 7)}
 													</Typography>
-													{' — '}
-													{new Date(commit.timestamp).toLocaleString()}
+													{` — ${commit.version} • ${new Date(commit.timestamp).toLocaleString()}`}
 												</>
 											}
 										/>
 									</ListItemButton>
 								</ListItem>
-								{index < commits.length - 1 && <Divider />}
-							</Box>
-						))}
+							)
+						})}
 					</List>
 				)}
 			</Box>
@@ -231,6 +411,47 @@ export const GitHistoryPanel = ({ project, onProjectUpdate }: GitHistoryPanelPro
 					</Button>
 				</DialogActions>
 			</Dialog>
+
+			<ProjectDiffDialog
+				open={review !== null}
+				title={t('gitDiff.reviewTitle')}
+				subtitle={review ? `${review.commit.id.substring(0, 7)} — ${review.commit.message}` : ''}
+				diff={review?.diff ?? null}
+				onClose={() => setReview(null)}
+				actions={
+					<Button
+						variant="contained"
+						startIcon={<RestoreIcon />}
+						disabled={loading || review?.commit.id === currentCommitId}
+						onClick={() => {
+							if (review) void handleCheckout(review.commit.id)
+							setReview(null)
+						}}>
+						{t('gitHistory.checkout')}
+					</Button>
+				}
+			/>
+
+			<Dialog open={refDialog !== null} onClose={() => setRefDialog(null)}>
+				<DialogTitle>
+					{refDialog?.type === 'tag' ? t('gitHistory.createTag') : t('gitHistory.newBranch')}
+				</DialogTitle>
+				<DialogContent>
+					<TextField
+						margin="dense"
+						label={refDialog?.type === 'tag' ? t('gitHistory.tagName') : t('gitHistory.branchName')}
+						fullWidth
+						value={refName}
+						onChange={(e) => setRefName(e.target.value)}
+					/>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setRefDialog(null)}>{t('common.cancel')}</Button>
+					<Button onClick={() => void handleCreateRef()} variant="contained" disabled={!refName.trim()}>
+						{t('common.create')}
+					</Button>
+				</DialogActions>
+			</Dialog>
 		</Box>
 	)
 }
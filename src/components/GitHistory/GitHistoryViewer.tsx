@@ -1,105 +1,277 @@
-import { Box, Paper, Typography, List, ListItem, ListItemText, Divider, CircularProgress } from '@mui/material'
-import { useState, useEffect } from 'react'
-
-interface Commit {
-	hash: string
-	message: string
-	author: string
-	date: string
-}
+import { Compare as CompareIcon, Person as PersonIcon } from '@mui/icons-material'
+import {
+	Box,
+	Paper,
+	Typography,
+	List,
+	ListItem,
+	ListItemButton,
+	ListItemText,
+	Chip,
+	CircularProgress,
+	MenuItem,
+	Select,
+} from '@mui/material'
+import { useState, useEffect, useMemo } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import { compareGitCommits } from '../../lib/gitService'
+import gitService from '../../services/GitService'
+import type { GitCommit, GitRef } from '../../types'
+import { layoutCommitGraph } from '../../utils/commitGraph'
+import type { ProjectDiff } from '../../utils/projectDiff'
+
+import { COMMIT_ROW_HEIGHT, CommitGraphCell } from './CommitGraphCell'
+import { ProjectDiffDialog } from './ProjectDiffDialog'
 
 interface GitHistoryViewerProps {
-	projectId?: string
+	projectId: string
 }
 
-export default function GitHistoryViewer({ projectId }: GitHistoryViewerProps) {
-	const [commits, setCommits] = useState<Commit[]>([])
+// Empty value of the ref filter: show commits of all branches
+const ALL_REFS = ''
+
+export const GitHistoryViewer = ({ projectId }: GitHistoryViewerProps) => {
+	const { t } = useI18n()
+	const [commits, setCommits] = useState<GitCommit[]>([])
+	const [refs, setRefs] = useState<GitRef[]>([])
+	const [refFilter, setRefFilter] = useState(ALL_REFS)
 	const [loading, setLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+	const [selectedCommit, setSelectedCommit] = useState<GitCommit | null>(null)
+	const [comparison, setComparison] = useState<{ base: GitCommit; compare: GitCommit } | null>(null)
+	const [compareResult, setCompareResult] = useState<ProjectDiff | null>(null)
+	const [compareLoading, setCompareLoading] = useState(false)
 
 	useEffect(() => {
-		// Simulate loading git history
-		const loadHistory = async () => {
-			setLoading(true)
-
-			// Simulate API call delay
-			await new Promise((resolve) => setTimeout(resolve, 1000))
-
-			// Mock data
-			const mockCommits: Commit[] = [
-				{
-					hash: 'abc1234',
-					message: 'Initial commit',
-					author: 'User',
-					date: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-				},
-				{
-					hash: 'def5678',
-					message: 'Add new features',
-					author: 'User',
-					date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-				},
-				{
-					hash: 'ghi9012',
-					message: 'Fix bugs',
-					author: 'User',
-					date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-				},
-				{
-					hash: 'jkl3456',
-					message: 'Update documentation',
-					author: 'User',
-					date: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-				},
-			]
-
-			setCommits(mockCommits)
-			setLoading(false)
+		const fetchHistory = async () => {
+			try {
+				setLoading(true)
+				const [history, branches, tags] = await Promise.all([
+					refFilter === ALL_REFS ? gitService.getCommits(projectId) : gitService.log(projectId, refFilter),
+					gitService.listBranches(projectId),
+					gitService.listTags(projectId),
+				])
+				setCommits(history)
+				setRefs([...branches, ...tags])
+				setError(null)
+			} catch (err) {
+				setError(t('gitHistory.errorLoadingCommits'))
+				console.error(err)
+			} finally {
+				setLoading(false)
+			}
+		}
+
+		void fetchHistory()
+	}, [projectId, refFilter, t])
+
+	const graph = useMemo(() => layoutCommitGraph(commits), [commits])
+
+	const refsByCommit = useMemo(() => {
+		const map = new Map<string, GitRef[]>()
+		for (const ref of refs) {
+			map.set(ref.target, [...(map.get(ref.target) ?? []), ref])
+		}
+		return map
+	}, [refs])
+
+	const handleCompareClick = async (commit: GitCommit) => {
+		if (!selectedCommit || selectedCommit.id === commit.id) {
+			return
 		}
 
-		void loadHistory()
-	}, [projectId])
+		// Always show the change from the older to the newer version
+		const [base, compare] =
+			new Date(commit.timestamp).getTime() < new Date(selectedCommit.timestamp).getTime()
+				? [commit, selectedCommit]
+				: [selectedCommit, commit]
 
-	const formatDate = (dateString: string) => {
-		const date = new Date(dateString)
-		return date.toLocaleDateString() + ' ' + date.toLocaleTimeString()
+		setComparison({ base, compare })
+		setCompareResult(null)
+		try {
+			setCompareLoading(true)
+			setCompareResult(await compareGitCommits(base.id, compare.id))
+		} catch (err) {
+			console.error('Failed to compare commits:', err)
+		} finally {
+			setCompareLoading(false)
+		}
+	}
+
+	const formatDate = (dateString: string) => new Date(dateString).toLocaleString()
+
+	if (loading && commits.length === 0) {
+		return (
+			<Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+				<CircularProgress />
+			</Box>
+		)
+	}
+
+	if (error) {
+		return (
+			<Box sx={{ p: 3 }}>
+				<Typography color="error">{error}</Typography>
+			</Box>
+		)
 	}
 
 	return (
-		<Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
-			<Paper
-				elevation={0}
-				sx={{ p: 2, flexGrow: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
-				<Typography variant="h6" gutterBottom>
-					Git History {projectId ? `for Project ${projectId}` : ''}
-				</Typography>
-
-				{loading ? (
-					<Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', flexGrow: 1 }}>
-						<CircularProgress />
-					</Box>
+		<Box sx={{ display: 'flex', gap: 2, height: '100%' }}>
+			<Paper sx={{ width: '50%', overflow: 'auto', height: '100%' }}>
+				<Box
+					sx={{
+						p: 2,
+						borderBottom: 1,
+						borderColor: 'divider',
+						display: 'flex',
+						justifyContent: 'space-between',
+						alignItems: 'center',
+					}}>
+					<Typography variant="h6">{t('gitHistory.title')}</Typography>
+					<Select
+						size="small"
+						value={refFilter}
+						displayEmpty
+						onChange={(event) => setRefFilter(event.target.value)}
+						inputProps={{ 'aria-label': t('gitHistory.branch') }}>
+						<MenuItem value={ALL_REFS}>{t('gitHistory.allBranches')}</MenuItem>
+						{refs.map((ref) => (
+							<MenuItem key={`${ref.type}-${ref.name}`} value={ref.name}>
+								{ref.name}
+							</MenuItem>
+						))}
+					</Select>
+				</Box>
+
+				{commits.length === 0 ? (
+					<Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+						{t('gitHistory.noCommits')}
+					</Typography>
 				) : (
-					<List sx={{ overflow: 'auto' }}>
-						{commits.map((commit, index) => (
-							<Box key={commit.hash}>
-								<ListItem alignItems="flex-start">
+					<List disablePadding>
+						{graph.rows.map((row) => (
+							<ListItem key={row.commit.id} disablePadding>
+								<ListItemButton
+									selected={selectedCommit?.id === row.commit.id}
+									onClick={() => setSelectedCommit(row.commit)}
+									sx={{ py: 0, height: COMMIT_ROW_HEIGHT }}>
+									<Box sx={{ mr: 1.5 }}>
+										<CommitGraphCell
+											row={row}
+											laneCount={graph.laneCount}
+											highlighted={selectedCommit?.id === row.commit.id}
+										/>
+									</Box>
 									<ListItemText
-										primary={commit.message}
-										secondary={
-											<>
-												<Typography component="span" variant="body2" color="text.primary">
-													{commit.hash.substring(0, 7)}
+										primary={
+											<Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+												{(refsByCommit.get(row.commit.id) ?? []).map((ref) => (
+													<Chip
+														key={`${ref.type}-${ref.name}`}
+														size="small"
+														variant={ref.type === 'tag' ? 'outlined' : 'filled'}
+														color={ref.type === 'branch' ? 'primary' : 'default'}
+														label={ref.name}
+													/>
+												))}
+												<Typography variant="body2" noWrap>
+													{row.commit.message}
 												</Typography>
-												{` — ${commit.author} • ${formatDate(commit.date)}`}
-											</>
+											</Box>
 										}
+										secondary={`${row.commit.id.substring(0, 7)} — ${row.commit.author} • ${formatDate(row.commit.timestamp)}`}
 									/>
-								</ListItem>
-								{index < commits.length - 1 && <Divider />}
-							</Box>
+								</ListItemButton>
+							</ListItem>
 						))}
 					</List>
 				)}
 			</Paper>
+
+			<Paper sx={{ width: '50%', p: 2, height: '100%', overflow: 'auto' }}>
+				{selectedCommit ? (
+					<Box>
+						<Typography variant="h6" gutterBottom>
+							{t('gitHistory.commitDetails')}
+						</Typography>
+
+						<Box sx={{ mb: 2 }}>
+							<Typography variant="subtitle1">{t('gitHistory.commitMessage')}</Typography>
+							<Typography variant="body1">{selectedCommit.message}</Typography>
+						</Box>
+
+						<Box sx={{ mb: 2 }}>
+							<Typography variant="subtitle1">{t('gitHistory.author')}</Typography>
+							<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+								<PersonIcon color="action" />
+								<Typography variant="body1">{selectedCommit.author}</Typography>
+							</Box>
+						</Box>
+
+						<Box sx={{ mb: 2 }}>
+							<Typography variant="subtitle1">{t('gitHistory.date')}</Typography>
+							<Typography variant="body1">{formatDate(selectedCommit.timestamp)}</Typography>
+						</Box>
+
+						<Box sx={{ mb: 2 }}>
+							<Typography variant="subtitle1">{t('gitHistory.commitHash')}</Typography>
+							<Chip label={selectedCommit.id.substring(0, 12)} color="primary" />
+						</Box>
+
+						<Box sx={{ mb: 2 }}>
+							<Typography variant="subtitle1">{t('gitHistory.parents')}</Typography>
+							<Box sx={{ display: 'flex', gap: 1 }}>
+								{selectedCommit.parents.length === 0 ? (
+									<Typography variant="body2" color="text.secondary">
+										—
+									</Typography>
+								) : (
+									selectedCommit.parents.map((parent) => (
+										<Chip key={parent} label={parent.substring(0, 7)} size="small" variant="outlined" />
+									))
+								)}
+							</Box>
+						</Box>
+
+						<Box sx={{ mt: 3 }}>
+							<Typography variant="subtitle1">{t('gitHistory.compareWith')}</Typography>
+							<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+								{commits
+									.filter((commit) => commit.id !== selectedCommit.id)
+									.slice(0, 5)
+									.map((commit) => (
+										<Chip
+											key={commit.id}
+											label={`${commit.id.substring(0, 7)} - ${commit.message.substring(0, 20)}`}
+											onClick={() => void handleCompareClick(commit)}
+											icon={<CompareIcon />}
+											clickable
+										/>
+									))}
+							</Box>
+						</Box>
+					</Box>
+				) : (
+					<Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+						<Typography variant="body1" color="text.secondary">
+							{t('gitHistory.selectCommit')}
+						</Typography>
+					</Box>
+				)}
+			</Paper>
+
+			<ProjectDiffDialog
+				open={comparison !== null}
+				title={t('gitHistory.compareCommits')}
+				subtitle={`${comparison?.base.id.substring(0, 7) ?? ''} → ${comparison?.compare.id.substring(0, 7) ?? ''}`}
+				diff={compareResult}
+				loading={compareLoading}
+				onClose={() => setComparison(null)}
+			/>
 		</Box>
 	)
 }
+
+export default GitHistoryViewer
@@ -0,0 +1,88 @@
+import {
+	Box,
+	Button,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	Tab,
+	Tabs,
+	Typography,
+} from '@mui/material'
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import type { ProjectDiff } from '../../utils/projectDiff'
+
+import { DiffCanvasOverlay } from './DiffCanvasOverlay'
+import { ProjectDiffList } from './ProjectDiffList'
+
+interface ProjectDiffDialogProps {
+	open: boolean
+	title: string
+	subtitle?: string
+	diff: ProjectDiff | null
+	loading?: boolean
+	onClose: () => void
+	// Extra buttons, e.g. to restore the reviewed version
+	actions?: ReactNode
+}
+
+/**
+ * Shows a project diff as a change list or as a colored canvas
+ */
+export const ProjectDiffDialog = ({
+	open,
+	title,
+	subtitle,
+	diff,
+	loading = false,
+	onClose,
+	actions,
+}: ProjectDiffDialogProps) => {
+	const { t } = useI18n()
+	const [view, setView] = useState<'list' | 'canvas'>('list')
+
+	return (
+		<Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+			<DialogTitle>
+				{title}
+				{subtitle && (
+					<Typography variant="subtitle2" color="text.secondary">
+						{subtitle}
+					</Typography>
+				)}
+			</DialogTitle>
+
+			<Tabs value={view} onChange={(_event, value: 'list' | 'canvas') => setView(value)} sx={{ px: 3 }}>
+				<Tab value="list" label={t('gitDiff.changes')} />
+				<Tab value="canvas" label={t('gitDiff.canvas')} />
+			</Tabs>
+
+			<DialogContent dividers>
+				{loading ? (
+					<Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+						<CircularProgress />
+					</Box>
+				) : diff ? (
+					view === 'list' ? (
+						<ProjectDiffList diff={diff} />
+					) : (
+						<DiffCanvasOverlay diff={diff} height="60vh" />
+					)
+				) : (
+					<Typography>{t('gitHistory.noChanges')}</Typography>
+				)}
+			</DialogContent>
+
+			<DialogActions>
+				<Button onClick={onClose}>{t('common.close')}</Button>
+				{actions}
+			</DialogActions>
+		</Dialog>
+	)
+}
+
+export default ProjectDiffDialog
@@ -0,0 +1,182 @@
+import { Box, Chip, List, ListItem, Typography, useTheme } from '@mui/material'
+import type { Theme } from '@mui/material'
+
+import { useI18n } from '../../contexts/I18nContext'
+import type { DiffStatus, EdgeDiff, FieldDiff, NodeDiff, ProjectDiff, TextSegment } from '../../utils/projectDiff'
+
+/**
+ * Color used for a change status in the diff list and on the canvas overlay
+ * @param theme MUI theme
+ * @param status Change status
+ * @returns CSS color
+ */
+export const getDiffStatusColor = (theme: Theme, status: DiffStatus): string => {
+	switch (status) {
+	case 'added':
+		return theme.palette.success.main
+	case 'removed':
+		return theme.palette.error.main
+	case 'edited':
+		return theme.palette.warning.main
+	case 'moved':
+		return theme.palette.info.main
+	default:
+		return theme.palette.divider
+	}
+}
+
+const TextDiff = ({ segments }: { segments: TextSegment[] }) => {
+	const theme = useTheme()
+	return (
+		<Typography variant="body2" component="div" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+			{segments.map((segment, index) =>
+				segment.type === 'equal' ? (
+					<span key={index}>{segment.value}</span>
+				) : segment.type === 'insert' ? (
+					<ins
+						key={index}
+						style={{ backgroundColor: `${theme.palette.success.main}33`, textDecoration: 'none' }}>
+						{segment.value}
+					</ins>
+				) : (
+					<del key={index} style={{ backgroundColor: `${theme.palette.error.main}33` }}>
+						{segment.value}
+					</del>
+				),
+			)}
+		</Typography>
+	)
+}
+
+const formatValue = (value: unknown): string => {
+	if (value === undefined || value === null || value === '') return '—'
+	return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+const FieldChange = ({ field }: { field: FieldDiff }) => {
+	const { t } = useI18n()
+
+	return (
+		<Box sx={{ mt: 1 }}>
+			<Typography variant="caption" color="text.secondary">
+				{field.field}
+			</Typography>
+			{field.kind === 'text' && <TextDiff segments={field.segments} />}
+			{field.kind === 'tags' && (
+				<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+					{field.added.map((tag) => (
+						<Chip key={`+${tag}`} size="small" color="success" variant="outlined" label={`+ ${tag}`} />
+					))}
+					{field.removed.map((tag) => (
+						<Chip key={`-${tag}`} size="small" color="error" variant="outlined" label={`− ${tag}`} />
+					))}
+				</Box>
+			)}
+			{field.kind === 'value' && (
+				<Typography variant="body2">
+					{t('gitDiff.valueChange', { before: formatValue(field.before), after: formatValue(field.after) })}
+				</Typography>
+			)}
+		</Box>
+	)
+}
+
+const StatusChip = ({ status }: { status: DiffStatus }) => {
+	const { t } = useI18n()
+	const theme = useTheme()
+	const color = getDiffStatusColor(theme, status)
+	return (
+		<Chip
+			size="small"
+			label={t(`gitDiff.status.${status}`)}
+			sx={{ borderColor: color, color, minWidth: 72 }}
+			variant="outlined"
+		/>
+	)
+}
+
+interface ProjectDiffListProps {
+	diff: ProjectDiff
+	onSelectNode?: (nodeId: string) => void
+}
+
+/**
+ * Lists the node and edge changes of a project diff with field-level details
+ */
+export const ProjectDiffList = ({ diff, onSelectNode }: ProjectDiffListProps) => {
+	const { t } = useI18n()
+	const changedNodes = diff.nodes.filter((node) => node.status !== 'unchanged')
+	const changedEdges = diff.edges.filter((edge) => edge.status !== 'unchanged')
+
+	const nodeTitle = (node: NodeDiff) => (node.after ?? node.before)?.data.title ?? node.id
+	const titles = new Map(diff.nodes.map((node) => [node.id, nodeTitle(node)]))
+	const edgeTitle = (edge: EdgeDiff) => {
+		const item = edge.after ?? edge.before
+		if (!item) return edge.id
+		return `${titles.get(item.source) ?? item.source} → ${titles.get(item.target) ?? item.target}`
+	}
+
+	if (changedNodes.length === 0 && changedEdges.length === 0) {
+		return <Typography color="text.secondary">{t('gitHistory.noChanges')}</Typography>
+	}
+
+	return (
+		<Box>
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+				{Object.entries(diff.summary).map(([status, count]) => (
+					<Chip key={status} size="small" label={`${t(`gitDiff.status.${status}`)}: ${count}`} />
+				))}
+			</Box>
+
+			{changedNodes.length > 0 && (
+				<>
+					<Typography variant="subtitle1">{t('gitDiff.nodes')}</Typography>
+					<List dense>
+						{changedNodes.map((node) => (
+							<ListItem
+								key={node.id}
+								sx={{ display: 'block', cursor: onSelectNode ? 'pointer' : 'default' }}
+								onClick={() => onSelectNode?.(node.id)}>
+								<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+									<StatusChip status={node.status} />
+									<Typography variant="body2" fontWeight="medium">
+										{nodeTitle(node)}
+									</Typography>
+									{node.moved && node.status !== 'moved' && (
+										<Typography variant="caption" color="text.secondary">
+											{t('gitDiff.alsoMoved')}
+										</Typography>
+									)}
+								</Box>
+								{node.fields.map((field) => (
+									<FieldChange key={field.field} field={field} />
+								))}
+							</ListItem>
+						))}
+					</List>
+				</>
+			)}
+
+			{changedEdges.length > 0 && (
+				<>
+					<Typography variant="subtitle1">{t('gitDiff.edges')}</Typography>
+					<List dense>
+						{changedEdges.map((edge) => (
+							<ListItem key={edge.id} sx={{ display: 'block' }}>
+								<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+									<StatusChip status={edge.status} />
+									<Typography variant="body2">{edgeTitle(edge)}</Typography>
+								</Box>
+								{edge.fields.map((field) => (
+									<FieldChange key={field.field} field={field} />
+								))}
+							</ListItem>
+						))}
+					</List>
+				</>
+			)}
+		</Box>
+	)
+}
+
+export default ProjectDiffList
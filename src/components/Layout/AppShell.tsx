@@ -11,6 +11,7 @@ import {
 	FolderOpen as ProjectsIcon,
 	BubbleChart as BrainstormIcon,
 	BarChart as BarChartIcon,
+	Search as SearchIcon,
 } from '@mui/icons-material'
 import {
 	Box,
@@ -33,6 +34,7 @@ import {
 	CircularProgress,
 	Snackbar,
 	Alert,
+	Tooltip,
 } from '@mui/material'
 import type { ReactNode } from 'react'
 import { useState, useEffect } from 'react'
@@ -41,11 +43,13 @@ import { useLocation, useNavigate } from 'react-router-dom'
 import { useI18n } from '../../contexts/I18nContext'
 import { useSettings } from '../../contexts/SettingsContext'
 import { handleQuickBrainstorm } from '../../features/brainstorming/quickBrainstormUtils'
+import { useKeymapHandlers } from '../../hooks/useKeymap'
 import SkipLink from '../Accessibility/SkipLink'
 import LanguageSelector from '../I18n/LanguageSelector'
 import NetworkInfoDialog from '../OfflineIndicator/NetworkInfoDialog'
 import NetworkStatusIcon from '../OfflineIndicator/NetworkStatusIcon'
 import _OfflineIndicator from '../OfflineIndicator/OfflineIndicator'
+import CommandPalette from '../Search/CommandPalette'
 
 interface AppShellProps {
 	children: ReactNode
@@ -79,6 +83,32 @@ const AppShell = ({
 	const [drawerOpen, setDrawerOpen] = useState(false)
 	const [errorOpen, setErrorOpen] = useState(!!error)
 	const [networkInfoDialogOpen, setNetworkInfoDialogOpen] = useState(false)
+	const [searchOpen, setSearchOpen] = useState(false)
+
+	// Ctrl+K / Cmd+K toggles the search palette on every page
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+				event.preventDefault()
+				setSearchOpen((open) => !open)
+			}
+		}
+		window.addEventListener('keydown', handleKeyDown)
+		return () => window.removeEventListener('keydown', handleKeyDown)
+	}, [])
+
+	// Navigation shortcuts of the keymap, e.g. G then P for the projects
+	useKeymapHandlers({
+		'navigation.projects': () => {
+			void navigate('/projects')
+		},
+		'navigation.settings': () => {
+			void navigate('/settings')
+		},
+		'navigation.home': () => {
+			void navigate('/')
+		},
+	})
 
 	// Update error state when prop changes
 	useEffect(() => {
@@ -259,6 +289,12 @@ const AppShell = ({
 						)}
 					</Typography>
 
+					<Tooltip title={`${t('search.title')} (Ctrl+K)`}>
+						<IconButton color="inherit" onClick={() => setSearchOpen(true)} aria-label={t('search.title')}>
+							<SearchIcon />
+						</IconButton>
+					</Tooltip>
+
 					{/* Network status icon in header */}
 					<NetworkStatusIcon onClick={() => setNetworkInfoDialogOpen(true)} />
 
@@ -352,6 +388,7 @@ const AppShell = ({
 
 				{/* Network info dialog */}
 				<NetworkInfoDialog open={networkInfoDialogOpen} onClose={() => setNetworkInfoDialogOpen(false)} />
+				<CommandPalette open={searchOpen} onClose={() => setSearchOpen(false)} />
 			</Box>
 
 			{/* Loading indicator */}
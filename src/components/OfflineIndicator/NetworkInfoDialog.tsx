@@ -11,6 +11,8 @@ import {
 	CheckCircle as ReliableIcon,
 	AccessTime as TimeIcon,
 	Refresh as RefreshIcon,
+	Replay as RetryIcon,
+	Delete as DiscardIcon,
 } from '@mui/icons-material'
 import {
 	Dialog,
@@ -32,9 +34,30 @@ import {
 } from '@mui/material'
 import React, { useState, useEffect } from 'react'
 
-import type { NetworkStatus } from '../../services/OfflineService'
+import type { NetworkStatus, OfflineCommandType, QueuedOperation } from '../../services/OfflineService'
 import offlineService from '../../services/OfflineService'
 
+const OPERATION_LABELS: Record<OfflineCommandType, string> = {
+	'project.sync': 'Sync project',
+	'log.send': 'Send log entry',
+	'logs.send': 'Send log entries',
+	'logs.sync': 'Sync logs',
+}
+
+// Describe the state of a queued operation
+const getOperationStatus = (operation: QueuedOperation): string => {
+	const parts = [
+		operation.projectId !== undefined ? `Project ${operation.projectId}` : null,
+		operation.failed === true
+			? `Failed after ${operation.retries} attempts`
+			: operation.retries > 0
+				? `Attempt ${operation.retries + 1} at ${new Date(operation.nextAttemptAt ?? operation.timestamp).toLocaleTimeString()}`
+				: `Queued ${new Date(operation.timestamp).toLocaleTimeString()}`,
+		operation.lastError ?? null,
+	]
+	return parts.filter((part) => part !== null).join(' · ')
+}
+
 interface NetworkInfoDialogProps {
 	open: boolean
 	onClose: () => void
@@ -43,6 +66,7 @@ interface NetworkInfoDialogProps {
 export const NetworkInfoDialog: React.FC<NetworkInfoDialogProps> = ({ open, onClose }) => {
 	const [isOnline, setIsOnline] = useState(offlineService.getOnlineStatus())
 	const [networkStatus, setNetworkStatus] = useState<NetworkStatus>(offlineService.getNetworkStatus())
+	const [operations, setOperations] = useState<QueuedOperation[]>(offlineService.getQueuedOperations())
 
 	// Monitor online status
 	useEffect(() => {
@@ -56,9 +80,13 @@ export const NetworkInfoDialog: React.FC<NetworkInfoDialogProps> = ({ open, onCl
 			setIsOnline(status.online)
 		})
 
+		// Monitor the offline queue
+		const removeQueueListener = offlineService.addQueueListener(setOperations)
+
 		return () => {
 			removeStatusListener()
 			removeNetworkStatusListener()
+			removeQueueListener()
 		}
 	}, [])
 
@@ -340,23 +368,66 @@ export const NetworkInfoDialog: React.FC<NetworkInfoDialogProps> = ({ open, onCl
 						<ListItemIcon>
 							<Chip
 								size="small"
-								label={offlineService.getPendingOperationsCount()}
-								color={offlineService.getPendingOperationsCount() > 0 ? 'warning' : 'success'}
+								label={operations.length}
+								color={operations.length > 0 ? 'warning' : 'success'}
 							/>
 						</ListItemIcon>
 						<ListItemText
 							primary="Pending Operations"
 							secondary={
-								offlineService.getPendingOperationsCount() > 0
+								operations.length > 0
 									? 'Operations waiting to be synchronized'
 									: 'All operations synchronized'
 							}
 						/>
 					</ListItem>
 				</List>
+
+				{operations.length > 0 && (
+					<List dense aria-label="Queued operations">
+						{operations.map((operation) => (
+							<ListItem
+								key={operation.id}
+								secondaryAction={
+									<Box>
+										<Tooltip title="Retry now">
+											<span>
+												<IconButton
+													edge="end"
+													aria-label={`Retry ${OPERATION_LABELS[operation.operation]}`}
+													disabled={!isOnline}
+													onClick={() => void offlineService.retryOperation(operation.id)}
+												>
+													<RetryIcon fontSize="small" />
+												</IconButton>
+											</span>
+										</Tooltip>
+										<Tooltip title="Discard">
+											<IconButton
+												edge="end"
+												aria-label={`Discard ${OPERATION_LABELS[operation.operation]}`}
+												onClick={() => void offlineService.discardOperation(operation.id)}
+											>
+												<DiscardIcon fontSize="small" />
+											</IconButton>
+										</Tooltip>
+									</Box>
+								}
+							>
+								<ListItemIcon>
+									{operation.failed === true ? <WarningIcon color="error" /> : <TimeIcon color="action" />}
+								</ListItemIcon>
+								<ListItemText
+									primary={OPERATION_LABELS[operation.operation]}
+									secondary={getOperationStatus(operation)}
+								/>
+							</ListItem>
+						))}
+					</List>
+				)}
 			</DialogContent>
 			<DialogActions>
-				{offlineService.getPendingOperationsCount() > 0 && isOnline && (
+				{operations.length > 0 && isOnline && (
 					<Button onClick={() => void offlineService.processSyncQueue()} color="primary">
 						Sync Now
 					</Button>
@@ -0,0 +1,325 @@
+import { PlayArrow as RunIcon } from '@mui/icons-material'
+import {
+	Alert,
+	Box,
+	Button,
+	CircularProgress,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	Typography,
+} from '@mui/material'
+import React, { useEffect, useRef, useState } from 'react'
+import ReactFlow, { ReactFlowProvider, useReactFlow, useViewport } from 'reactflow'
+import 'reactflow/dist/style.css'
+
+import { useI18n } from '../../contexts/I18nContext'
+import { useVirtualization } from '../../hooks/useVirtualization'
+import { EdgeType, NodeType } from '../../types/enums'
+import { LOD_NODE_TYPE } from '../../utils/canvasVirtualization'
+import { SpatialIndex, rectsIntersect, type Rect } from '../../utils/spatialIndex'
+import CustomNodeComponent from '../BrainstormFlow/nodes/CustomNode'
+import LodNodeComponent from '../BrainstormFlow/nodes/LodNode'
+import type { CustomEdge, CustomNodeType } from '../BrainstormFlow/types'
+
+const nodeTypes = {
+	[NodeType.IDEA]: CustomNodeComponent,
+	[LOD_NODE_TYPE]: LodNodeComponent,
+}
+
+const NODE_COUNTS = [500, 1000, 2000, 5000]
+
+// Frames per pan and how far each frame pans, in screen pixels
+const FRAMES = 120
+const PAN_STEP = 40
+
+type Phase = 'pan' | 'zoomedOut'
+
+// Zoom of each phase
+const ZOOM_LEVELS = new Map<Phase, number>([
+	['pan', 1],
+	['zoomedOut', 0.2],
+])
+
+// Viewport queries timed against a linear scan
+const QUERY_COUNT = 1000
+
+const CANVAS_SIZE = { width: 800, height: 500 }
+
+type Mode = 'allNodes' | 'virtualized'
+
+interface FrameResult {
+	mode: Mode
+	phase: Phase
+	renderedNodes: number
+	averageFrame: number
+	p95Frame: number
+}
+
+interface QueryResult {
+	linearScan: number
+	spatialIndex: number
+}
+
+// Grid of idea nodes, each linked to its right and lower neighbor
+const generateGraph = (count: number): { nodes: CustomNodeType[]; edges: CustomEdge[] } => {
+	const columns = Math.ceil(Math.sqrt(count))
+	const now = new Date().toISOString()
+	const nodes: CustomNodeType[] = Array.from({ length: count }, (_, index) => ({
+		id: `n${index}`,
+		type: NodeType.IDEA,
+		position: { x: (index % columns) * 260, y: Math.floor(index / columns) * 160 },
+		data: {
+			id: `n${index}`,
+			title: `Idea ${index + 1}`,
+			label: `Idea ${index + 1}`,
+			content: 'Benchmark node',
+			type: NodeType.IDEA,
+			createdAt: now,
+			updatedAt: now,
+		},
+	}))
+	const edges: CustomEdge[] = nodes.flatMap((_, index) =>
+		[index + 1, index + columns]
+			.filter((other) => other < count && (other !== index + 1 || other % columns !== 0))
+			.map((other) => ({ id: `e${index}-${other}`, source: `n${index}`, target: `n${other}`, type: EdgeType.DEFAULT })),
+	)
+	return { nodes, edges }
+}
+
+const percentile = (values: number[], fraction: number): number => {
+	const sorted = [...values].sort((a, b) => a - b)
+	return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] ?? 0
+}
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1)
+
+// Times viewport-sized queries through the index and by checking every node
+const measureQueries = (nodes: CustomNodeType[]): QueryResult => {
+	const rects = new Map<string, Rect>(
+		nodes.map((node) => [node.id, { ...node.position, width: 200, height: 100 }]),
+	)
+	const rectList = [...rects.values()]
+	const index = new SpatialIndex()
+	rects.forEach((rect, id) => index.set(id, rect))
+	const areas = Array.from({ length: QUERY_COUNT }, (_, query) => ({
+		x: (query * 97) % 10000,
+		y: (query * 53) % 6000,
+		...CANVAS_SIZE,
+	}))
+
+	let start = performance.now()
+	areas.forEach((area) => rectList.filter((rect) => rectsIntersect(rect, area)))
+	const linearScan = performance.now() - start
+
+	start = performance.now()
+	areas.forEach((area) => index.search(area))
+	return { linearScan, spatialIndex: performance.now() - start }
+}
+
+interface BenchmarkCanvasProps {
+	nodes: CustomNodeType[]
+	edges: CustomEdge[]
+	mode: Mode
+	onDone: (results: FrameResult[]) => void
+}
+
+/**
+ * Canvas that pans itself frame by frame and reports the frame times
+ */
+const BenchmarkCanvas: React.FC<BenchmarkCanvasProps> = ({ nodes, edges, mode, onDone }) => {
+	const containerRef = useRef<HTMLDivElement>(null)
+	const viewport = useViewport()
+	const { setViewport } = useReactFlow()
+	const [ready, setReady] = useState(false)
+	const onDoneRef = useRef(onDone)
+	onDoneRef.current = onDone
+	const visible = useVirtualization(nodes, edges, {
+		viewport,
+		containerRef,
+		enabled: mode === 'virtualized',
+		threshold: 0,
+	})
+
+	useEffect(() => {
+		if (!ready) return undefined
+		let cancelled = false
+
+		const runPhase = (phase: Phase) =>
+			new Promise<FrameResult>((resolve) => {
+				const frameTimes: number[] = []
+				let renderedNodes = 0
+				let frame = 0
+				let last = performance.now()
+
+				const step = (now: number) => {
+					if (cancelled) return
+					if (frame > 0) frameTimes.push(now - last)
+					last = now
+					renderedNodes = Math.max(
+						renderedNodes,
+						containerRef.current?.querySelectorAll('.react-flow__node').length ?? 0,
+					)
+					if (frame === FRAMES) {
+						resolve({
+							mode,
+							phase,
+							renderedNodes,
+							averageFrame: average(frameTimes),
+							p95Frame: percentile(frameTimes, 0.95),
+						})
+						return
+					}
+					setViewport({ x: -frame * PAN_STEP, y: (-frame * PAN_STEP) / 2, zoom: ZOOM_LEVELS.get(phase) ?? 1 })
+					frame += 1
+					requestAnimationFrame(step)
+				}
+				requestAnimationFrame(step)
+			})
+
+		const run = async () => {
+			const results = [await runPhase('pan'), await runPhase('zoomedOut')]
+			if (!cancelled) onDoneRef.current(results)
+		}
+		void run()
+
+		return () => {
+			cancelled = true
+		}
+	}, [ready, mode, setViewport])
+
+	return (
+		<Box ref={containerRef} sx={{ ...CANVAS_SIZE, border: 1, borderColor: 'divider' }}>
+			<ReactFlow
+				nodes={visible.nodes}
+				edges={visible.edges}
+				nodeTypes={nodeTypes}
+				minZoom={0.1}
+				onInit={() => setReady(true)}
+			/>
+		</Box>
+	)
+}
+
+/**
+ * Benchmark of the canvas with and without viewport virtualization: pans a
+ * generated map at full size and zoomed out and times the frames
+ */
+export const CanvasBenchmark: React.FC = () => {
+	const { t } = useI18n()
+	const [nodeCount, setNodeCount] = useState(2000)
+	const [graph, setGraph] = useState<ReturnType<typeof generateGraph> | null>(null)
+	const [mode, setMode] = useState<Mode | null>(null)
+	const [results, setResults] = useState<FrameResult[]>([])
+	const [queries, setQueries] = useState<QueryResult | null>(null)
+
+	const handleRun = () => {
+		const generated = generateGraph(nodeCount)
+		setGraph(generated)
+		setResults([])
+		setQueries(measureQueries(generated.nodes))
+		setMode('allNodes')
+	}
+
+	const handleDone = (modeResults: FrameResult[]) => {
+		setResults((current) => [...current, ...modeResults])
+		setMode((current) => (current === 'allNodes' ? 'virtualized' : null))
+	}
+
+	const averageOf = (resultMode: Mode) =>
+		average(results.filter((result) => result.mode === resultMode).map((result) => result.averageFrame))
+	const finished = mode === null && results.length > 0
+
+	return (
+		<Box>
+			<Stack direction="row" spacing={2} sx={{ mb: 3, alignItems: 'center' }}>
+				<FormControl size="small" sx={{ minWidth: 160 }}>
+					<InputLabel id="canvas-benchmark-count">{t('canvasBenchmark.nodeCount')}</InputLabel>
+					<Select
+						labelId="canvas-benchmark-count"
+						value={nodeCount}
+						label={t('canvasBenchmark.nodeCount')}
+						disabled={mode !== null}
+						onChange={(event) => setNodeCount(Number(event.target.value))}>
+						{NODE_COUNTS.map((count) => (
+							<MenuItem key={count} value={count}>
+								{count}
+							</MenuItem>
+						))}
+					</Select>
+				</FormControl>
+				<Button
+					variant="contained"
+					startIcon={mode !== null ? <CircularProgress size={16} color="inherit" /> : <RunIcon />}
+					onClick={handleRun}
+					disabled={mode !== null}>
+					{mode !== null ? t('canvasBenchmark.running', { mode: t(`canvasBenchmark.${mode}`) }) : t('canvasBenchmark.run')}
+				</Button>
+			</Stack>
+
+			{finished && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					{t('canvasBenchmark.summary', {
+						count: nodeCount,
+						factor: (averageOf('allNodes') / Math.max(averageOf('virtualized'), 0.01)).toFixed(1),
+					})}
+				</Alert>
+			)}
+
+			{results.length > 0 && (
+				<TableContainer sx={{ mb: 3 }}>
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>{t('canvasBenchmark.mode')}</TableCell>
+								<TableCell>{t('canvasBenchmark.phase')}</TableCell>
+								<TableCell align="right">{t('canvasBenchmark.renderedNodes')}</TableCell>
+								<TableCell align="right">{t('canvasBenchmark.averageFrame')}</TableCell>
+								<TableCell align="right">{t('canvasBenchmark.p95Frame')}</TableCell>
+								<TableCell align="right">{t('canvasBenchmark.fps')}</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{results.map((result) => (
+								<TableRow key={`${result.mode}-${result.phase}`}>
+									<TableCell>{t(`canvasBenchmark.${result.mode}`)}</TableCell>
+									<TableCell>{t(`canvasBenchmark.${result.phase}`)}</TableCell>
+									<TableCell align="right">{result.renderedNodes}</TableCell>
+									<TableCell align="right">{result.averageFrame.toFixed(1)} ms</TableCell>
+									<TableCell align="right">{result.p95Frame.toFixed(1)} ms</TableCell>
+									<TableCell align="right">{(1000 / Math.max(result.averageFrame, 1)).toFixed(0)}</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</TableContainer>
+			)}
+
+			{queries && (
+				<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+					{t('canvasBenchmark.queries', {
+						count: QUERY_COUNT,
+						linearScan: queries.linearScan.toFixed(1),
+						spatialIndex: queries.spatialIndex.toFixed(1),
+					})}
+				</Typography>
+			)}
+
+			{graph && mode !== null && (
+				<ReactFlowProvider key={mode}>
+					<BenchmarkCanvas nodes={graph.nodes} edges={graph.edges} mode={mode} onDone={handleDone} />
+				</ReactFlowProvider>
+			)}
+		</Box>
+	)
+}
+
+export default CanvasBenchmark
@@ -28,6 +28,7 @@ const mapNodeToCustomNode = (node: Node): CustomNode => {
 		},
 		style: node.style as React.CSSProperties,
 		selected: node.selected,
+		...(node.parentId !== undefined ? { parentId: node.parentId } : {}),
 	}
 }
 
@@ -59,6 +60,7 @@ const mapCustomNodeToNode = (customNode: CustomNode, existingNodes: Node[]): Nod
 		},
 		style: customNode.style as Record<string, unknown> | undefined,
 		selected: customNode.selected,
+		...(customNode.parentId !== undefined ? { parentId: customNode.parentId } : {}),
 	}
 }
 
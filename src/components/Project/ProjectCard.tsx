@@ -23,6 +23,7 @@ import {
 	useTheme,
 	Tooltip,
 	CardActionArea,
+	Checkbox,
 	Divider,
 } from '@mui/material'
 import { useState } from 'react'
@@ -39,9 +40,20 @@ interface ProjectCardProps {
 	onArchive?: (id: string) => void
 	onSync?: (id: string) => void
 	onPin?: (id: string, isPinned: boolean) => void
+	/** Shows a checkbox to select the project, e.g. for bulk tagging */
+	onSelect?: (id: string, selected: boolean) => void
+	selected?: boolean
 }
 
-export const ProjectCard = ({ project, onDelete, onArchive, onSync, onPin }: ProjectCardProps) => {
+export const ProjectCard = ({
+	project,
+	onDelete,
+	onArchive,
+	onSync,
+	onPin,
+	onSelect,
+	selected = false,
+}: ProjectCardProps) => {
 	const theme = useTheme()
 	const navigate = useNavigate()
 	const { t } = useI18n()
@@ -159,9 +171,25 @@ export const ProjectCard = ({ project, onDelete, onArchive, onSync, onPin }: Pro
 					p: 2,
 					pb: 0,
 				}}>
-				<Typography variant="h6" noWrap sx={{ fontWeight: 600 }}>
-					{project.name}
-				</Typography>
+				{onSelect && (
+					<Checkbox
+						size="small"
+						checked={selected}
+						onChange={(event) => onSelect(project.id, event.target.checked)}
+						inputProps={{ 'aria-label': t('collections.selectProject', { name: project.name }) }}
+						sx={{ p: 0.5, mr: 1 }}
+					/>
+				)}
+				<Box sx={{ flexGrow: 1, minWidth: 0 }}>
+					<Typography variant="h6" noWrap sx={{ fontWeight: 600 }}>
+						{project.name}
+					</Typography>
+					{project.category && (
+						<Typography variant="caption" color="text.secondary" noWrap component="div">
+							{project.category}
+						</Typography>
+					)}
+				</Box>
 				<IconButton aria-label="settings" onClick={handleMenuOpen} size="small">
 					<MoreVertIcon />
 				</IconButton>
@@ -209,6 +237,9 @@ export const ProjectCard = ({ project, onDelete, onArchive, onSync, onPin }: Pro
 								}}
 							/>
 						)}
+						{project.tags?.map((tag) => (
+							<Chip key={`tag-${tag}`} label={`#${tag}`} size="small" variant="outlined" />
+						))}
 					</Box>
 
 					<Divider sx={{ my: 1.5 }} />
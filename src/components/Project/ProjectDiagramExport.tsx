@@ -0,0 +1,102 @@
+import { ContentCopy as CopyIcon, Download as DownloadIcon } from '@mui/icons-material'
+import { Box, Button, Typography } from '@mui/material'
+import { useCallback } from 'react'
+
+import { useErrorNotification } from '../../contexts/ErrorNotificationContext'
+import { useI18n } from '../../contexts/I18nContext'
+import loggerService from '../../services/LoggerService'
+import type { Project } from '../../types'
+import type { DiagramFormat } from '../../utils/diagramFormats'
+import { exportProjectDiagram } from '../../utils/diagramFormats'
+
+interface ProjectDiagramExportProps {
+	project: Project
+	disabled?: boolean
+}
+
+const getFileType = (format: DiagramFormat): { extension: string; mimeType: string } =>
+	format === 'dot'
+		? { extension: 'gv', mimeType: 'text/vnd.graphviz' }
+		: { extension: 'mmd', mimeType: 'text/plain' }
+
+/**
+ * Exports the project graph as a Mermaid flowchart or Graphviz DOT file
+ */
+export const ProjectDiagramExport = ({ project, disabled = false }: ProjectDiagramExportProps) => {
+	const { showError } = useErrorNotification()
+	const { t } = useI18n()
+
+	const handleDownload = useCallback(
+		(format: DiagramFormat) => {
+			try {
+				const { extension, mimeType } = getFileType(format)
+				const blob = new Blob([exportProjectDiagram(project, format)], { type: mimeType })
+				const url = URL.createObjectURL(blob)
+				const a = document.createElement('a')
+				a.href = url
+				a.download = `${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`
+				document.body.appendChild(a)
+				a.click()
+
+				setTimeout(() => {
+					document.body.removeChild(a)
+					URL.revokeObjectURL(url)
+				}, 100)
+
+				void loggerService.info('Project exported as diagram', { projectId: project.id, format })
+			} catch (err) {
+				const errorMessage = t('diagram.exportFailed')
+				void loggerService.error(errorMessage, err instanceof Error ? err : new Error(String(err)))
+				showError(errorMessage)
+			}
+		},
+		[project, showError, t],
+	)
+
+	const handleCopyMermaid = useCallback(async () => {
+		try {
+			await navigator.clipboard.writeText(exportProjectDiagram(project, 'mermaid'))
+			showError({ message: t('diagram.copied'), severity: 'info' })
+		} catch (err) {
+			const errorMessage = t('diagram.exportFailed')
+			void loggerService.error(errorMessage, err instanceof Error ? err : new Error(String(err)))
+			showError(errorMessage)
+		}
+	}, [project, showError, t])
+
+	return (
+		<Box>
+			<Typography variant="subtitle1" gutterBottom>
+				{t('diagram.title')}
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				{t('diagram.description')}
+			</Typography>
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+				<Button
+					variant="outlined"
+					startIcon={<DownloadIcon />}
+					onClick={() => handleDownload('mermaid')}
+					disabled={disabled}>
+					{t('diagram.exportMermaid')}
+				</Button>
+				<Button
+					variant="outlined"
+					startIcon={<CopyIcon />}
+					onClick={() => void handleCopyMermaid()}
+					disabled={disabled}>
+					{t('diagram.copyMermaid')}
+				</Button>
+				<Button
+					variant="outlined"
+					startIcon={<DownloadIcon />}
+					onClick={() => handleDownload('dot')}
+					disabled={disabled}>
+					{t('diagram.exportDot')}
+				</Button>
+			</Box>
+		</Box>
+	)
+}
+
+export default ProjectDiagramExport
@@ -0,0 +1,123 @@
+import type { SelectChangeEvent } from '@mui/material'
+import { Box, Button, Chip, FormControl, InputLabel, MenuItem, Select, TextField, Typography } from '@mui/material'
+import { useEffect, useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import { useSettings } from '../../contexts/SettingsContext'
+import { getProvider, isLocalEndpoint, LLM_PROVIDERS } from '../../services/llm'
+import type { LLMProviderId, Project } from '../../types'
+import { LLMProviderIdSchema } from '../../types'
+
+interface ProjectModelSettingsProps {
+	project: Project
+	onSave: (project: Project) => void
+	disabled?: boolean
+}
+
+// Select value for following the default from the settings
+const DEFAULT_OPTION = 'default'
+
+/**
+ * Chooses the LLM provider and model the assistant uses for this project,
+ * e.g. a local model for projects that must stay on the machine
+ */
+export const ProjectModelSettings = ({ project, onSave, disabled = false }: ProjectModelSettingsProps) => {
+	const { t } = useI18n()
+	const { llm } = useSettings()
+	const [providerId, setProviderId] = useState<LLMProviderId | typeof DEFAULT_OPTION>(
+		project.modelChoice?.provider ?? DEFAULT_OPTION,
+	)
+	const [model, setModel] = useState(project.modelChoice?.model ?? '')
+
+	useEffect(() => {
+		setProviderId(project.modelChoice?.provider ?? DEFAULT_OPTION)
+		setModel(project.modelChoice?.model ?? '')
+	}, [project.modelChoice])
+
+	const choice = providerId === DEFAULT_OPTION ? llm.defaultModel : { provider: providerId, model: model.trim() }
+	const provider = getProvider(choice.provider)
+	const providerConfig = llm.providers.get(choice.provider) ?? { apiKey: '' }
+	const capabilities = provider.getCapabilities(choice.model, providerConfig)
+	const isLocal = isLocalEndpoint(providerConfig.baseUrl ?? provider.defaultBaseUrl)
+
+	const isUnchanged =
+		providerId === DEFAULT_OPTION
+			? project.modelChoice === undefined
+			: project.modelChoice?.provider === providerId && project.modelChoice.model === model.trim()
+
+	const handleProviderChange = (event: SelectChangeEvent) => {
+		const parsed = LLMProviderIdSchema.safeParse(event.target.value)
+		if (!parsed.success) {
+			setProviderId(DEFAULT_OPTION)
+			return
+		}
+		setProviderId(parsed.data)
+		// Suggest the model configured for the provider in the settings
+		const configured =
+			llm.defaultModel.provider === parsed.data ? llm.defaultModel.model : getProvider(parsed.data).defaultModel
+		setModel(configured)
+	}
+
+	const handleSave = () => {
+		if (providerId === DEFAULT_OPTION) {
+			const { modelChoice: _modelChoice, ...rest } = project
+			onSave(rest)
+		} else {
+			onSave({ ...project, modelChoice: { provider: providerId, model: model.trim() } })
+		}
+	}
+
+	return (
+		<Box>
+			<Typography variant="subtitle1" gutterBottom>
+				{t('llm.projectModel')}
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				{t('llm.projectModelDescription')}
+			</Typography>
+
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+				<FormControl sx={{ minWidth: 220 }}>
+					<InputLabel id="project-llm-provider-label">{t('llm.provider')}</InputLabel>
+					<Select
+						labelId="project-llm-provider-label"
+						value={providerId}
+						label={t('llm.provider')}
+						onChange={handleProviderChange}
+						disabled={disabled}>
+						<MenuItem value={DEFAULT_OPTION}>
+							{t('llm.useDefault', { provider: getProvider(llm.defaultModel.provider).label })}
+						</MenuItem>
+						{LLM_PROVIDERS.map((option) => (
+							<MenuItem key={option.id} value={option.id}>
+								{option.label}
+							</MenuItem>
+						))}
+					</Select>
+				</FormControl>
+
+				<TextField
+					label={t('llm.model')}
+					value={providerId === DEFAULT_OPTION ? llm.defaultModel.model : model}
+					onChange={(event) => setModel(event.target.value)}
+					disabled={disabled || providerId === DEFAULT_OPTION}
+					sx={{ flexGrow: 1, minWidth: 220 }}
+				/>
+			</Box>
+
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+				{capabilities.streaming && <Chip size="small" label={t('llm.streaming')} />}
+				{capabilities.jsonMode && <Chip size="small" label={t('llm.jsonMode')} />}
+				<Chip size="small" label={t('llm.contextWindow', { count: capabilities.contextWindow.toLocaleString() })} />
+				{isLocal && <Chip size="small" color="success" label={t('llm.worksOffline')} />}
+			</Box>
+
+			<Button
+				variant="outlined"
+				onClick={handleSave}
+				disabled={disabled || isUnchanged || (providerId !== DEFAULT_OPTION && model.trim() === '')}>
+				{t('llm.saveModel')}
+			</Button>
+		</Box>
+	)
+}
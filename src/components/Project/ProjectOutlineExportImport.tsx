@@ -0,0 +1,144 @@
+import { Description as MarkdownIcon, AccountTree as OpmlIcon, Upload as UploadIcon } from '@mui/icons-material'
+import { Box, Button, Typography } from '@mui/material'
+import { useCallback } from 'react'
+
+import { useErrorNotification } from '../../contexts/ErrorNotificationContext'
+import { useI18n } from '../../contexts/I18nContext'
+import loggerService from '../../services/LoggerService'
+import type { Project } from '../../types'
+import type { OutlineFormat } from '../../utils/outline'
+import { exportProjectOutline, outlineToGraph, parseOutline } from '../../utils/outline'
+
+interface ProjectOutlineExportImportProps {
+	project: Project
+	onSave: (project: Project) => void
+	disabled?: boolean
+}
+
+// Space between the existing graph and an imported outline
+const IMPORT_MARGIN = 200
+
+const getFileType = (format: OutlineFormat): { extension: string; mimeType: string } =>
+	format === 'opml'
+		? { extension: 'opml', mimeType: 'text/x-opml' }
+		: { extension: 'md', mimeType: 'text/markdown' }
+
+/**
+ * Exports the project graph as a Markdown or OPML outline and imports outlines
+ * below the existing nodes
+ */
+export const ProjectOutlineExportImport = ({ project, onSave, disabled = false }: ProjectOutlineExportImportProps) => {
+	const { showError } = useErrorNotification()
+	const { t } = useI18n()
+
+	const handleExport = useCallback(
+		(format: OutlineFormat) => {
+			try {
+				const { extension, mimeType } = getFileType(format)
+				const blob = new Blob([exportProjectOutline(project, format)], { type: mimeType })
+				const url = URL.createObjectURL(blob)
+				const a = document.createElement('a')
+				a.href = url
+				a.download = `${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`
+				document.body.appendChild(a)
+				a.click()
+
+				setTimeout(() => {
+					document.body.removeChild(a)
+					URL.revokeObjectURL(url)
+				}, 100)
+
+				void loggerService.info('Project exported as outline', { projectId: project.id, format })
+			} catch (err) {
+				const errorMessage = t('outline.exportFailed')
+				void loggerService.error(errorMessage, err instanceof Error ? err : new Error(String(err)))
+				showError(errorMessage)
+			}
+		},
+		[project, showError, t],
+	)
+
+	const handleImport = useCallback(() => {
+		const input = document.createElement('input')
+		input.type = 'file'
+		input.accept = '.md,.markdown,.txt,.opml,.xml'
+
+		input.onchange = (event) => {
+			const file = (event.target as HTMLInputElement).files?.[0]
+			if (!file) return
+
+			const reader = new FileReader()
+			reader.onload = (e) => {
+				try {
+					const outline = parseOutline(file.name, String(e.target?.result ?? ''))
+					if (outline.items.length === 0) {
+						throw new Error('Outline is empty')
+					}
+
+					// Place the imported tree below the current graph
+					const bottom = project.nodes.reduce(
+						(max, node) => Math.max(max, node.position.y),
+						-IMPORT_MARGIN,
+					)
+					const left = project.nodes.reduce((min, node) => Math.min(min, node.position.x), Infinity)
+					const { nodes, edges } = outlineToGraph(outline, {
+						x: Number.isFinite(left) ? left : 0,
+						y: bottom + IMPORT_MARGIN,
+					})
+
+					onSave({
+						...project,
+						nodes: [...project.nodes, ...nodes],
+						edges: [...project.edges, ...edges],
+						updatedAt: new Date().toISOString(),
+					})
+					void loggerService.info('Outline imported', { projectId: project.id, nodeCount: nodes.length })
+				} catch (err) {
+					const errorMessage = t('outline.importFailed')
+					void loggerService.error(errorMessage, err instanceof Error ? err : new Error(String(err)))
+					showError(errorMessage)
+				}
+			}
+
+			reader.onerror = () => {
+				showError(t('importExport.failedToReadFile'))
+			}
+
+			reader.readAsText(file)
+		}
+
+		input.click()
+	}, [project, onSave, showError, t])
+
+	return (
+		<Box>
+			<Typography variant="subtitle1" gutterBottom>
+				{t('outline.title')}
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				{t('outline.description')}
+			</Typography>
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+				<Button
+					variant="outlined"
+					startIcon={<MarkdownIcon />}
+					onClick={() => handleExport('markdown')}
+					disabled={disabled}>
+					{t('outline.exportMarkdown')}
+				</Button>
+				<Button
+					variant="outlined"
+					startIcon={<OpmlIcon />}
+					onClick={() => handleExport('opml')}
+					disabled={disabled}>
+					{t('outline.exportOpml')}
+				</Button>
+				<Button variant="outlined" startIcon={<UploadIcon />} onClick={handleImport} disabled={disabled}>
+					{t('outline.import')}
+				</Button>
+			</Box>
+		</Box>
+	)
+}
+
+export default ProjectOutlineExportImport
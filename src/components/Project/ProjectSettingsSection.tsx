@@ -3,6 +3,7 @@ import {
 	CloudUpload as CloudUploadIcon,
 	CloudDownload as CloudDownloadIcon,
 	Download as DownloadIcon,
+	FolderOpen as FolderOpenIcon,
 	Upload as UploadIcon,
 } from '@mui/icons-material'
 import type { SelectChangeEvent } from '@mui/material'
@@ -28,8 +29,21 @@ import { useState, useEffect, useCallback } from 'react'
 import { useErrorNotification } from '../../contexts/ErrorNotificationContext'
 import { useI18n } from '../../contexts/I18nContext'
 import { uploadProject, downloadProject } from '../../lib/s3Service'
+import chatHistoryService from '../../services/ChatHistoryService'
 import loggerService from '../../services/LoggerService'
-import type { Project, SyncSettings } from '../../types'
+import { storageSyncService } from '../../services/StorageSyncService'
+import { SYNC_BACKENDS, chooseSyncFolder, getSyncBackend, isLocalFolderSupported } from '../../services/sync'
+import type { Project, SyncBackendId, SyncSettings, WithChatThreads } from '../../types'
+
+import { ProjectDiagramExport } from './ProjectDiagramExport'
+import { ProjectModelSettings } from './ProjectModelSettings'
+import { ProjectOutlineExportImport } from './ProjectOutlineExportImport'
+
+const BACKEND_LABEL_KEYS: Record<SyncBackendId, string> = {
+	s3: 's3.backendS3',
+	webdav: 's3.backendWebdav',
+	localFolder: 's3.backendLocalFolder',
+}
 
 interface ProjectSettingsSectionProps {
 	project: Project
@@ -50,6 +64,7 @@ export const ProjectSettingsSection = ({
 		enableS3Sync: false,
 		syncFrequency: 'manual',
 		intervalMinutes: 30,
+		autoSave: true,
 	})
 	const [isS3Available, setIsS3Available] = useState<boolean>(false)
 	const [isSyncing, setIsSyncing] = useState<boolean>(false)
@@ -136,8 +151,57 @@ export const ProjectSettingsSection = ({
 		[handleSyncSettingsChange],
 	)
 
-	// Handle manual sync
+	// Handle sync backend change
+	const handleBackendChange = useCallback(
+		(event: SelectChangeEvent<string>) => {
+			handleSyncSettingsChange({ backend: event.target.value as SyncBackendId })
+		},
+		[handleSyncSettingsChange],
+	)
+
+	// Handle local sync folder choice
+	const handleChooseFolder = useCallback(async () => {
+		try {
+			const folderName = await chooseSyncFolder(project.id)
+			if (folderName !== null) {
+				handleSyncSettingsChange({ localFolderName: folderName })
+			}
+		} catch (err) {
+			const errorMessage = t('s3.folderUnsupported')
+			void loggerService.error(errorMessage, err instanceof Error ? err : new Error(String(err)))
+			showError(errorMessage)
+		}
+	}, [project.id, t, showError, handleSyncSettingsChange])
+
+	// Handle manual sync with the chosen backend
 	const handleManualSync = useCallback(async () => {
+		const backend = getSyncBackend(syncSettings.backend)
+		if (!(await backend.isReady(project.id, syncSettings))) {
+			showError(backend.id === 's3' ? t('s3.notConfigured') : t('s3.backendNotReady'))
+			return
+		}
+
+		setIsSyncing(true)
+		try {
+			const synced = await storageSyncService.syncProject({ ...project, syncSettings })
+			if (!synced) {
+				throw new Error(`Sync with ${backend.id} failed`)
+			}
+			const now = new Date().toISOString()
+			setLastSyncTime(now)
+			handleSyncSettingsChange({ lastSyncedAt: now })
+			void loggerService.info('Project synced', { projectId: project.id, backend: backend.id })
+		} catch (err) {
+			const errorMessage = t('s3.failedToSync')
+			void loggerService.error(errorMessage, err instanceof Error ? err : new Error(String(err)))
+			showError(errorMessage)
+		} finally {
+			setIsSyncing(false)
+		}
+	}, [project, syncSettings, t, showError, handleSyncSettingsChange])
+
+	// Handle export to S3
+	const handleExportToS3 = useCallback(async () => {
 		if (!isS3Available) {
 			showError(t('s3.notConfigured'))
 			return
@@ -160,11 +224,15 @@ export const ProjectSettingsSection = ({
 	}, [project, isS3Available, showError, handleSyncSettingsChange])
 
 	// Handle export to file
-	const handleExportToFile = useCallback(() => {
+	const handleExportToFile = useCallback(async () => {
 		setExportLoading(true)
 		try {
-			// Create a JSON string from the project
-			const projectJson = JSON.stringify(project, null, 2)
+			// Create a JSON string from the project and its chat threads
+			const bundle: Project & WithChatThreads = {
+				...project,
+				chatThreads: await chatHistoryService.getThreads(project.id),
+			}
+			const projectJson = JSON.stringify(bundle, null, 2)
 
 			// Create a blob and download link
 			const blob = new Blob([projectJson], { type: 'application/json' })
@@ -208,10 +276,10 @@ export const ProjectSettingsSection = ({
 				}
 
 				const reader = new FileReader()
-				reader.onload = (e) => {
+				reader.onload = async (e) => {
 					try {
 						const content = e.target?.result as string
-						const importedProject = JSON.parse(content) as Project
+						const importedProject = JSON.parse(content) as Project & WithChatThreads
 
 						// Validate the imported project
 						if (!importedProject.id || !importedProject.name) {
@@ -230,6 +298,9 @@ export const ProjectSettingsSection = ({
 						}
 
 						onSave(updatedProject)
+						if (Array.isArray(importedProject.chatThreads)) {
+							await chatHistoryService.importThreads(project.id, importedProject.chatThreads)
+						}
 						void loggerService.info('Project imported from file', { projectId: project.id })
 					} catch (err) {
 						const errorMessage = t('importExport.invalidFileFormat')
@@ -301,6 +372,10 @@ export const ProjectSettingsSection = ({
 		}
 	}, [project, syncSettings, isS3Available, showError, onSave])
 
+	const backendId = syncSettings.backend ?? 's3'
+	const isBackendAvailable =
+		backendId === 's3' ? isS3Available : backendId === 'localFolder' ? isLocalFolderSupported() : true
+
 	if (error) {
 		return (
 			<Alert severity="error" sx={{ mb: 2 }}>
@@ -316,9 +391,25 @@ export const ProjectSettingsSection = ({
 					{t('s3.title')}
 				</Typography>
 
-				{!isS3Available && (
+				<FormControl fullWidth sx={{ mb: 2 }}>
+					<InputLabel id="sync-backend-label">{t('s3.backend')}</InputLabel>
+					<Select
+						labelId="sync-backend-label"
+						value={backendId}
+						label={t('s3.backend')}
+						onChange={handleBackendChange}
+						disabled={isSaving}>
+						{SYNC_BACKENDS.map((backend) => (
+							<MenuItem key={backend.id} value={backend.id}>
+								{t(BACKEND_LABEL_KEYS[backend.id])}
+							</MenuItem>
+						))}
+					</Select>
+				</FormControl>
+
+				{!isBackendAvailable && (
 					<Alert severity="info" sx={{ mb: 2 }}>
-						{t('s3.integration')}
+						{backendId === 's3' ? t('s3.integration') : t('s3.folderUnsupported')}
 					</Alert>
 				)}
 
@@ -327,7 +418,7 @@ export const ProjectSettingsSection = ({
 						<Switch
 							checked={syncSettings.enableS3Sync}
 							onChange={handleS3SyncToggle}
-							disabled={!isS3Available || isSaving}
+							disabled={!isBackendAvailable || isSaving}
 						/>
 					}
 					label={t('s3.enable')}
@@ -335,6 +426,47 @@ export const ProjectSettingsSection = ({
 
 				{syncSettings.enableS3Sync && (
 					<Box sx={{ mt: 2 }}>
+						{backendId === 'webdav' && (
+							<Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+								<TextField
+									label={t('s3.webdavUrl')}
+									placeholder="https://cloud.example.com/remote.php/dav/files/me/Brainstorming"
+									value={syncSettings.webdavUrl ?? ''}
+									onChange={(e) => setSyncSettings((prev) => ({ ...prev, webdavUrl: e.target.value }))}
+									onBlur={() => handleSyncSettingsChange({})}
+									sx={{ flex: 2 }}
+									disabled={isSaving}
+									slotProps={{ htmlInput: { type: 'url' } }}
+								/>
+								<TextField
+									label={t('s3.webdavUsername')}
+									value={syncSettings.webdavUsername ?? ''}
+									onChange={(e) =>
+										setSyncSettings((prev) => ({ ...prev, webdavUsername: e.target.value }))
+									}
+									onBlur={() => handleSyncSettingsChange({})}
+									helperText={t('s3.webdavPasswordHint')}
+									sx={{ flex: 1 }}
+									disabled={isSaving}
+								/>
+							</Box>
+						)}
+
+						{backendId === 'localFolder' && (
+							<Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+								<Button
+									variant="outlined"
+									startIcon={<FolderOpenIcon />}
+									onClick={() => void handleChooseFolder()}
+									disabled={isSaving || !isBackendAvailable}>
+									{t('s3.chooseFolder')}
+								</Button>
+								<Typography variant="body2" color="text.secondary">
+									{syncSettings.localFolderName ?? t('s3.noFolder')}
+								</Typography>
+							</Box>
+						)}
+
 						<FormControl fullWidth sx={{ mb: 2 }}>
 							<InputLabel id="sync-frequency-label">{t('s3.syncFrequency')}</InputLabel>
 							<Select
@@ -369,7 +501,7 @@ export const ProjectSettingsSection = ({
 								variant="contained"
 								startIcon={isSyncing ? <CircularProgress size={20} /> : <CloudUploadIcon />}
 								onClick={() => void handleManualSync()}
-								disabled={isSyncing || isSaving || !isS3Available}
+								disabled={isSyncing || isSaving || !isBackendAvailable}
 								sx={{
 									mr: 2,
 									minWidth: '120px', // Fixed width to prevent layout shifts
@@ -398,6 +530,13 @@ export const ProjectSettingsSection = ({
 				)}
 			</Paper>
 
+			<Paper sx={{ p: 3, mb: 3 }}>
+				<Typography variant="h6" gutterBottom>
+					{t('llm.title')}
+				</Typography>
+				<ProjectModelSettings project={project} onSave={onSave} disabled={isSaving} />
+			</Paper>
+
 			<Paper sx={{ p: 3 }}>
 				<Typography variant="h6" gutterBottom>
 					{t('importExport.title')}
@@ -462,7 +601,7 @@ export const ProjectSettingsSection = ({
 							<Button
 								variant="outlined"
 								startIcon={isSyncing ? <CircularProgress size={20} /> : <CloudUploadIcon />}
-								onClick={() => void handleManualSync()}
+								onClick={() => void handleExportToS3()}
 								disabled={isSyncing || isSaving || !isS3Available}
 								sx={{
 									minWidth: '120px', // Fixed width to prevent layout shifts
@@ -504,6 +643,14 @@ export const ProjectSettingsSection = ({
 						</Box>
 					</Grid>
 				</Grid>
+
+				<Box sx={{ mt: 3 }}>
+					<ProjectOutlineExportImport project={project} onSave={onSave} disabled={isSaving} />
+				</Box>
+
+				<Box sx={{ mt: 3 }}>
+					<ProjectDiagramExport project={project} disabled={isSaving} />
+				</Box>
 			</Paper>
 		</Box>
 	)
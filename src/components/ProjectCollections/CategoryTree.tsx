@@ -0,0 +1,111 @@
+import { ExpandLess as ExpandLessIcon, ExpandMore as ExpandMoreIcon } from '@mui/icons-material'
+import { Collapse, IconButton, List, ListItem, ListItemButton, ListItemText } from '@mui/material'
+import { useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import { CATEGORY_SEPARATOR, type CategoryTreeNode } from '../../utils/projectCollections'
+
+interface CategoryTreeProps {
+	categories: CategoryTreeNode[]
+	selectedCategory?: string | null
+	onSelect: (path: string) => void
+}
+
+interface CategoryItemProps extends Omit<CategoryTreeProps, 'categories'> {
+	node: CategoryTreeNode
+	depth: number
+	expanded: Set<string>
+	onToggle: (path: string) => void
+}
+
+const CategoryItem = ({ node, depth, expanded, onToggle, selectedCategory, onSelect }: CategoryItemProps) => {
+	const { t } = useI18n()
+	const isExpanded = expanded.has(node.path)
+
+	return (
+		<>
+			<ListItem
+				disablePadding
+				secondaryAction={
+					node.children.length > 0 && (
+						<IconButton
+							edge="end"
+							size="small"
+							onClick={() => onToggle(node.path)}
+							aria-label={t(isExpanded ? 'collections.collapse' : 'collections.expand', { name: node.name })}
+							aria-expanded={isExpanded}>
+							{isExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+						</IconButton>
+					)
+				}>
+				<ListItemButton
+					selected={node.path === selectedCategory}
+					onClick={() => onSelect(node.path)}
+					sx={{ pl: 2 + depth * 2 }}>
+					<ListItemText primary={node.name} secondary={t('collections.projectCount', { count: node.count })} />
+				</ListItemButton>
+			</ListItem>
+			{node.children.length > 0 && (
+				<Collapse in={isExpanded} unmountOnExit>
+					<List disablePadding>
+						{node.children.map((child) => (
+							<CategoryItem
+								key={child.path}
+								node={child}
+								depth={depth + 1}
+								expanded={expanded}
+								onToggle={onToggle}
+								selectedCategory={selectedCategory ?? null}
+								onSelect={onSelect}
+							/>
+						))}
+					</List>
+				</Collapse>
+			)}
+		</>
+	)
+}
+
+// The selected category and the ones above it start expanded
+const ancestorPaths = (path: string | null | undefined): string[] => {
+	const levels = path ? path.split(CATEGORY_SEPARATOR) : []
+	return levels.map((_level, index) => levels.slice(0, index + 1).join(CATEGORY_SEPARATOR))
+}
+
+/**
+ * Categories of the projects as a tree, with the number of projects in each
+ */
+export const CategoryTree = ({ categories, selectedCategory = null, onSelect }: CategoryTreeProps) => {
+	const { t } = useI18n()
+	const [expanded, setExpanded] = useState(() => new Set(ancestorPaths(selectedCategory)))
+
+	const handleToggle = (path: string) => {
+		setExpanded((current) => {
+			const next = new Set(current)
+			if (next.has(path)) {
+				next.delete(path)
+			} else {
+				next.add(path)
+			}
+			return next
+		})
+	}
+
+	return (
+		<List aria-label={t('collections.categories')} dense>
+			{categories.map((node) => (
+				<CategoryItem
+					key={node.path}
+					node={node}
+					depth={0}
+					expanded={expanded}
+					onToggle={handleToggle}
+					selectedCategory={selectedCategory}
+					onSelect={onSelect}
+				/>
+			))}
+		</List>
+	)
+}
+
+export default CategoryTree
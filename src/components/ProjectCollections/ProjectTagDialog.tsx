@@ -0,0 +1,137 @@
+import {
+	Alert,
+	Autocomplete,
+	Button,
+	Checkbox,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControlLabel,
+	Stack,
+	TextField,
+	type TextFieldProps,
+} from '@mui/material'
+import { useMemo, useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import projectService from '../../services/ProjectService'
+import type { Project } from '../../types'
+import { buildCategoryTree, getTagCounts, type CategoryTreeNode } from '../../utils/projectCollections'
+
+interface ProjectTagDialogProps {
+	open: boolean
+	/** Projects to tag */
+	projects: Project[]
+	/** All projects, to suggest their tags and categories */
+	allProjects: Project[]
+	onClose: () => void
+	onTagged: (projects: Project[]) => void
+}
+
+const categoryPaths = (nodes: CategoryTreeNode[]): string[] =>
+	nodes.flatMap((node) => [node.path, ...categoryPaths(node.children)])
+
+/**
+ * Dialog to add and remove tags and set the category of several projects
+ */
+export const ProjectTagDialog = ({ open, projects, allProjects, onClose, onTagged }: ProjectTagDialogProps) => {
+	const { t } = useI18n()
+	const [addTags, setAddTags] = useState<string[]>([])
+	const [removeTags, setRemoveTags] = useState<string[]>([])
+	const [category, setCategory] = useState('')
+	const [removeCategory, setRemoveCategory] = useState(false)
+	const [saving, setSaving] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const knownTags = useMemo(() => getTagCounts(allProjects).map(({ tag }) => tag), [allProjects])
+	const selectedTags = useMemo(() => getTagCounts(projects).map(({ tag }) => tag), [projects])
+	const knownCategories = useMemo(() => categoryPaths(buildCategoryTree(allProjects)), [allProjects])
+
+	const handleClose = () => {
+		setAddTags([])
+		setRemoveTags([])
+		setCategory('')
+		setRemoveCategory(false)
+		setError(null)
+		onClose()
+	}
+
+	const handleApply = async () => {
+		setSaving(true)
+		setError(null)
+		try {
+			const categoryChange = removeCategory ? '' : category.trim()
+			const tagged = await projectService.tagProjects(
+				projects.map((project) => project.id),
+				{
+					addTags,
+					removeTags,
+					...(categoryChange !== '' || removeCategory ? { category: categoryChange } : {}),
+				},
+			)
+			onTagged(tagged)
+			handleClose()
+		} catch (err) {
+			console.error('Error tagging projects:', err)
+			setError(t('collections.tagError'))
+		} finally {
+			setSaving(false)
+		}
+	}
+
+	return (
+		<Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+			<DialogTitle>{t('collections.tagDialogTitle', { count: projects.length })}</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					{error && <Alert severity="error">{error}</Alert>}
+					<Autocomplete
+						multiple
+						freeSolo
+						options={knownTags}
+						value={addTags}
+						onChange={(_event, value) => setAddTags(value)}
+						renderInput={(params) => <TextField {...(params as TextFieldProps)} label={t('collections.addTags')} />}
+					/>
+					<Autocomplete
+						multiple
+						options={selectedTags}
+						value={removeTags}
+						onChange={(_event, value) => setRemoveTags(value)}
+						disabled={selectedTags.length === 0}
+						renderInput={(params) => <TextField {...(params as TextFieldProps)} label={t('collections.removeTags')} />}
+					/>
+					<Autocomplete
+						freeSolo
+						options={knownCategories}
+						inputValue={category}
+						onInputChange={(_event, value) => setCategory(value)}
+						disabled={removeCategory}
+						renderInput={(params) => (
+							<TextField
+								{...(params as TextFieldProps)}
+								label={t('collections.category')}
+								helperText={t('collections.categoryHelp')}
+							/>
+						)}
+					/>
+					<FormControlLabel
+						control={
+							<Checkbox checked={removeCategory} onChange={(event) => setRemoveCategory(event.target.checked)} />
+						}
+						label={t('collections.removeCategory')}
+					/>
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={handleClose}>{t('common.cancel')}</Button>
+				<Button variant="contained" onClick={() => void handleApply()} disabled={saving || projects.length === 0}>
+					{t('collections.apply')}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	)
+}
+
+export default ProjectTagDialog
@@ -0,0 +1,48 @@
+import { Box, Chip } from '@mui/material'
+
+import { useI18n } from '../../contexts/I18nContext'
+import type { TagCount } from '../../utils/projectCollections'
+
+interface TagCloudProps {
+	tags: TagCount[]
+	selectedTag?: string | null
+	onSelect: (tag: string) => void
+}
+
+// Font sizes of the least and most used tags, in rem
+const MIN_FONT_SIZE = 0.8
+const MAX_FONT_SIZE = 1.6
+
+/**
+ * Tags of the projects, sized by how many projects use them
+ */
+export const TagCloud = ({ tags, selectedTag = null, onSelect }: TagCloudProps) => {
+	const { t } = useI18n()
+	const counts = tags.map(({ count }) => count)
+	const min = Math.min(...counts)
+	const range = Math.max(...counts) - min
+
+	return (
+		<Box
+			component="ul"
+			aria-label={t('collections.tags')}
+			sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, listStyle: 'none', p: 0, m: 0 }}>
+			{tags.map(({ tag, count }) => {
+				const weight = range === 0 ? 0.5 : (count - min) / range
+				return (
+					<li key={tag}>
+						<Chip
+							label={`#${tag} (${count})`}
+							color={tag === selectedTag ? 'primary' : 'default'}
+							variant={tag === selectedTag ? 'filled' : 'outlined'}
+							onClick={() => onSelect(tag)}
+							sx={{ fontSize: `${MIN_FONT_SIZE + weight * (MAX_FONT_SIZE - MIN_FONT_SIZE)}rem`, height: 'auto', py: 0.5 }}
+						/>
+					</li>
+				)
+			})}
+		</Box>
+	)
+}
+
+export default TagCloud
@@ -1,4 +1,9 @@
-import { Add as AddIcon, History as HistoryIcon } from '@mui/icons-material'
+import {
+	AccountTree as DiagramIcon,
+	Add as AddIcon,
+	History as HistoryIcon,
+	LocalOffer as TagIcon,
+} from '@mui/icons-material'
 import {
 	Box,
 	Typography,
@@ -13,22 +18,27 @@ import {
 	Alert,
 	useTheme,
 } from '@mui/material'
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 
 import { useI18n } from '../../contexts/I18nContext'
 import projectService from '../../services/ProjectService'
 import type { Project } from '../../types'
 import type { ProjectTemplate } from '../../types/project'
+import { filterProjects, type ProjectListFilter } from '../../utils/projectCollections'
 import ProjectCard from '../Project/ProjectCard'
 import ProjectCreateForm from '../Project/ProjectCreateForm'
+import ProjectTagDialog from '../ProjectCollections/ProjectTagDialog'
 
 interface ProjectListProps {
 	onCreateProject?: (project: Project) => void
 	onRefresh?: () => void
+	/** Shows only the matching projects, all when not set */
+	filter?: ProjectListFilter
+	title?: string
 }
 
-export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRefresh }) => {
+export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRefresh, filter, title }) => {
 	const navigate = useNavigate()
 	const theme = useTheme()
 	const { t } = useI18n()
@@ -39,6 +49,14 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 	const [confirmDialogOpen, setConfirmDialogOpen] = useState<boolean>(false)
 	const [actionType, setActionType] = useState<'delete' | 'archive' | null>(null)
 	const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null)
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+	const [tagDialogOpen, setTagDialogOpen] = useState<boolean>(false)
+
+	const visibleProjects = useMemo(() => (filter ? filterProjects(projects, filter) : projects), [projects, filter])
+	const selectedProjects = useMemo(
+		() => visibleProjects.filter((project) => selectedIds.has(project.id)),
+		[visibleProjects, selectedIds],
+	)
 
 	const loadProjects = async () => {
 		setLoading(true)
@@ -82,6 +100,35 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 		}
 	}
 
+	const handleImportDiagram = () => {
+		const input = document.createElement('input')
+		input.type = 'file'
+		input.accept = '.mmd,.mermaid,.dot,.gv,.txt'
+
+		input.onchange = async (event) => {
+			const file = (event.target as HTMLInputElement).files?.[0]
+			if (!file) return
+
+			try {
+				setLoading(true)
+				const newProject = await projectService.importDiagram(file.name, await file.text())
+				setProjects([newProject, ...projects])
+
+				if (onRefresh) {
+					onRefresh()
+				}
+				void navigate(`/projects/${newProject.id}`)
+			} catch (err) {
+				console.error('Error importing diagram:', err)
+				setError(t('diagram.importFailed'))
+			} finally {
+				setLoading(false)
+			}
+		}
+
+		input.click()
+	}
+
 	// This function is used by the ProjectCard component
 	// eslint-disable-next-line @typescript-eslint/no-unused-vars
 	const handleOpenProject = (id: string) => {
@@ -149,6 +196,28 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 		}
 	}
 
+	const handleSelectProject = (projectId: string, selected: boolean) => {
+		setSelectedIds((current) => {
+			const next = new Set(current)
+			if (selected) {
+				next.add(projectId)
+			} else {
+				next.delete(projectId)
+			}
+			return next
+		})
+	}
+
+	const handleProjectsTagged = (tagged: Project[]) => {
+		const byId = new Map(tagged.map((project) => [project.id, project]))
+		setProjects(projects.map((project) => byId.get(project.id) ?? project))
+		setSelectedIds(new Set())
+
+		if (onRefresh) {
+			onRefresh()
+		}
+	}
+
 	const handleConfirmAction = async () => {
 		if (!selectedProjectId || !actionType) return
 
@@ -181,18 +250,46 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 
 			<Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
 				<Typography variant="h5" component="h2">
-					My Projects
+					{title ?? 'My Projects'}
 				</Typography>
-				<Button
-					variant="contained"
-					color="primary"
-					startIcon={<AddIcon />}
-					onClick={() => setCreateDialogOpen(true)}>
-					New Project
-				</Button>
+				<Box sx={{ display: 'flex', gap: 1 }}>
+					<Button variant="outlined" startIcon={<DiagramIcon />} onClick={handleImportDiagram}>
+						{t('diagram.importDiagram')}
+					</Button>
+					<Button
+						variant="contained"
+						color="primary"
+						startIcon={<AddIcon />}
+						onClick={() => setCreateDialogOpen(true)}>
+						New Project
+					</Button>
+				</Box>
 			</Box>
 
-			{projects.length === 0 ? (
+			{selectedProjects.length > 0 && (
+				<Alert
+					severity="info"
+					icon={<TagIcon />}
+					sx={{ mb: 2, alignItems: 'center' }}
+					action={
+						<Box sx={{ display: 'flex', gap: 1 }}>
+							<Button color="inherit" size="small" onClick={() => setTagDialogOpen(true)}>
+								{t('collections.tagSelected')}
+							</Button>
+							<Button color="inherit" size="small" onClick={() => setSelectedIds(new Set())}>
+								{t('collections.clearSelection')}
+							</Button>
+						</Box>
+					}>
+					{t('collections.selected', { count: selectedProjects.length })}
+				</Alert>
+			)}
+
+			{projects.length > 0 && visibleProjects.length === 0 ? (
+				<Typography color="text.secondary" sx={{ textAlign: 'center', p: 4 }}>
+					{t('collections.noMatchingProjects')}
+				</Typography>
+			) : projects.length === 0 ? (
 				<Box
 					sx={{
 						textAlign: 'center',
@@ -231,7 +328,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 						gap: 3,
 						width: '100%',
 					}}>
-					{projects.map((project) => (
+					{visibleProjects.map((project) => (
 						<Box
 							key={project.id}
 							sx={{
@@ -244,6 +341,8 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 								onArchive={(id) => openConfirmDialog('archive', id)}
 								onSync={(id) => void handleSyncToS3(id)}
 								onPin={(id, isPinned) => void handlePinProject(id, isPinned)}
+								onSelect={handleSelectProject}
+								selected={selectedIds.has(project.id)}
 							/>
 						</Box>
 					))}
@@ -263,6 +362,15 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onCreateProject, onRef
 				</DialogContent>
 			</Dialog>
 
+			{/* Bulk Tagging Dialog */}
+			<ProjectTagDialog
+				open={tagDialogOpen}
+				projects={selectedProjects}
+				allProjects={projects}
+				onClose={() => setTagDialogOpen(false)}
+				onTagged={handleProjectsTagged}
+			/>
+
 			{/* Confirmation Dialog */}
 			<Dialog open={confirmDialogOpen} onClose={() => setConfirmDialogOpen(false)}>
 				<DialogTitle>{actionType === 'archive' ? 'Archive Project' : 'Delete Project'}</DialogTitle>
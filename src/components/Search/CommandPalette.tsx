@@ -0,0 +1,282 @@
+import { Search as SearchIcon } from '@mui/icons-material'
+import {
+	Box,
+	Button,
+	Chip,
+	Dialog,
+	DialogContent,
+	Divider,
+	FormControlLabel,
+	InputAdornment,
+	List,
+	ListItemButton,
+	ListItemText,
+	Switch,
+	TextField,
+	Typography,
+} from '@mui/material'
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import { useI18n } from '../../contexts/I18nContext'
+import loggerService from '../../services/LoggerService'
+import { searchService } from '../../services/SearchService'
+import type { NodeType } from '../../types/enums'
+import type { FacetCount, SearchFilters, SearchHit, SearchResults } from '../../utils/searchIndex'
+
+interface CommandPaletteProps {
+	open: boolean
+	onClose: () => void
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 150
+
+// Characters of node content shown below a result
+const SNIPPET_LENGTH = 120
+
+const toggleValue = <T extends string>(values: T[] | undefined, value: T): T[] =>
+	values?.includes(value) === true ? values.filter((item) => item !== value) : [...(values ?? []), value]
+
+/**
+ * Dialog searching the nodes of all projects, with facets to narrow the
+ * results down by project, type, tag, date and archive state. Picking a
+ * result opens its project with the node focused on the canvas.
+ */
+export const CommandPalette = ({ open, onClose }: CommandPaletteProps) => {
+	const { t } = useI18n()
+	const navigate = useNavigate()
+	const [query, setQuery] = useState('')
+	const [filters, setFilters] = useState<SearchFilters>({})
+	const [results, setResults] = useState<SearchResults | null>(null)
+	const [activeIndex, setActiveIndex] = useState(0)
+
+	useEffect(() => {
+		if (!open) return
+		let cancelled = false
+		const timer = setTimeout(() => {
+			searchService
+				.search(query, filters)
+				.then((next) => {
+					if (cancelled) return
+					setResults(next)
+					setActiveIndex(0)
+				})
+				.catch((error: unknown) => {
+					void loggerService.error('Search failed', error instanceof Error ? error : new Error(String(error)))
+				})
+		}, SEARCH_DELAY_MS)
+		return () => {
+			cancelled = true
+			clearTimeout(timer)
+		}
+	}, [open, query, filters])
+
+	const hits = results?.hits ?? []
+
+	const openHit = (hit: SearchHit) => {
+		onClose()
+		const { projectId, nodeId } = hit.document
+		void navigate(`/projects/${projectId}/brainstorm?node=${encodeURIComponent(nodeId)}`)
+	}
+
+	const handleKeyDown = (event: React.KeyboardEvent) => {
+		if (event.key === 'ArrowDown') {
+			event.preventDefault()
+			setActiveIndex((index) => Math.min(index + 1, hits.length - 1))
+		} else if (event.key === 'ArrowUp') {
+			event.preventDefault()
+			setActiveIndex((index) => Math.max(index - 1, 0))
+		} else if (event.key === 'Enter') {
+			const hit = hits.find((_, index) => index === activeIndex)
+			if (hit !== undefined) openHit(hit)
+		}
+	}
+
+	const hasFilters =
+		(filters.projectIds?.length ?? 0) > 0 ||
+		(filters.types?.length ?? 0) > 0 ||
+		(filters.tags?.length ?? 0) > 0 ||
+		filters.from !== undefined ||
+		filters.to !== undefined ||
+		filters.archived !== undefined
+
+	// Selected values stay visible even when nothing matches them anymore
+	const renderFacet = (
+		label: string,
+		facets: FacetCount[],
+		selected: string[] | undefined,
+		onToggle: (value: string) => void,
+		format: (facet: FacetCount) => string = (facet) => facet.value,
+	) => {
+		const missing = (selected ?? [])
+			.filter((value) => !facets.some((facet) => facet.value === value))
+			.map((value) => ({ value, count: 0 }))
+		const all = [...facets, ...missing]
+		if (all.length === 0) return null
+		return (
+			<Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+				<Typography variant="caption" color="text.secondary" sx={{ minWidth: 64 }}>
+					{label}
+				</Typography>
+				{all.map((facet) => (
+					<Chip
+						key={facet.value}
+						size="small"
+						label={`${format(facet)} (${facet.count})`}
+						variant={selected?.includes(facet.value) === true ? 'filled' : 'outlined'}
+						color={selected?.includes(facet.value) === true ? 'primary' : 'default'}
+						onClick={() => onToggle(facet.value)}
+					/>
+				))}
+			</Box>
+		)
+	}
+
+	const setDate = (key: 'from' | 'to', value: string) =>
+		setFilters((previous) => {
+			const { [key]: _removed, ...rest } = previous
+			return value ? { ...rest, [key]: value } : rest
+		})
+
+	return (
+		<Dialog open={open} onClose={onClose} fullWidth maxWidth="md" aria-label={t('search.title')}>
+			<DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+				<TextField
+					// The palette exists to type into
+					// eslint-disable-next-line jsx-a11y/no-autofocus
+					autoFocus
+					fullWidth
+					value={query}
+					onChange={(event) => setQuery(event.target.value)}
+					onKeyDown={handleKeyDown}
+					placeholder={t('search.placeholder')}
+					slotProps={{
+						input: {
+							startAdornment: (
+								<InputAdornment position="start">
+									<SearchIcon />
+								</InputAdornment>
+							),
+						},
+						htmlInput: { 'aria-label': t('search.placeholder') },
+					}}
+				/>
+
+				{results && (
+					<Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+						{renderFacet(
+							t('search.projects'),
+							results.facets.projects,
+							filters.projectIds,
+							(value) => setFilters((previous) => ({ ...previous, projectIds: toggleValue(previous.projectIds, value) })),
+							(facet) => results.facets.projects.find((item) => item.value === facet.value)?.label ?? facet.value,
+						)}
+						{renderFacet(
+							t('search.types'),
+							results.facets.types,
+							filters.types,
+							(value) =>
+								setFilters((previous) => ({ ...previous, types: toggleValue(previous.types, value as NodeType) })),
+							(facet) => t(`search.nodeTypes.${facet.value}`),
+						)}
+						{renderFacet(t('search.tags'), results.facets.tags, filters.tags, (value) =>
+							setFilters((previous) => ({ ...previous, tags: toggleValue(previous.tags, value) })),
+						)}
+						<Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+							<TextField
+								type="date"
+								size="small"
+								label={t('search.from')}
+								value={filters.from ?? ''}
+								onChange={(event) => setDate('from', event.target.value)}
+								slotProps={{ inputLabel: { shrink: true } }}
+							/>
+							<TextField
+								type="date"
+								size="small"
+								label={t('search.to')}
+								value={filters.to ?? ''}
+								onChange={(event) => setDate('to', event.target.value)}
+								slotProps={{ inputLabel: { shrink: true } }}
+							/>
+							<FormControlLabel
+								control={
+									<Switch
+										checked={filters.archived === 'include'}
+										onChange={(event) =>
+											setFilters((previous) => ({
+												...previous,
+												archived: event.target.checked ? 'include' : 'exclude',
+											}))
+										}
+									/>
+								}
+								label={t('search.includeArchived', { count: results.facets.archived })}
+							/>
+							{hasFilters && (
+								<Button size="small" onClick={() => setFilters({})}>
+									{t('search.clearFilters')}
+								</Button>
+							)}
+						</Box>
+					</Box>
+				)}
+
+				<Divider />
+
+				<Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+					<Typography variant="caption" color="text.secondary">
+						{t('search.resultCount', { count: results?.total ?? 0 })}
+					</Typography>
+					<Typography variant="caption" color="text.secondary">
+						{t('search.hint')}
+					</Typography>
+				</Box>
+
+				{results && hits.length === 0 ? (
+					<Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+						{t('search.noResults')}
+					</Typography>
+				) : (
+					<List dense sx={{ maxHeight: 360, overflowY: 'auto' }} role="listbox">
+						{hits.map((hit, index) => {
+							const { document } = hit
+							const snippet = document.content.replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH)
+							return (
+								<ListItemButton
+									key={document.id}
+									role="option"
+									selected={index === activeIndex}
+									aria-selected={index === activeIndex}
+									onMouseEnter={() => setActiveIndex(index)}
+									onClick={() => openHit(hit)}>
+									<ListItemText
+										primary={document.title || t('search.untitled')}
+										secondary={
+											<>
+												{[
+													document.projectName,
+													t(`search.nodeTypes.${document.type}`),
+													new Date(document.updatedAt).toLocaleDateString(),
+													...document.tags.map((tag) => `#${tag}`),
+												].join(' · ')}
+												{snippet && (
+													<Typography component="span" variant="body2" sx={{ display: 'block' }} noWrap>
+														{snippet}
+													</Typography>
+												)}
+											</>
+										}
+									/>
+								</ListItemButton>
+							)
+						})}
+					</List>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default CommandPalette
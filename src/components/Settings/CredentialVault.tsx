@@ -0,0 +1,247 @@
+import { Lock as LockIcon, LockOpen as LockOpenIcon } from '@mui/icons-material'
+import type { SelectChangeEvent } from '@mui/material'
+import {
+	Alert,
+	Box,
+	Button,
+	Chip,
+	Collapse,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogContentText,
+	DialogTitle,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	TextField,
+	Typography,
+} from '@mui/material'
+import { useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import { useSettings } from '../../contexts/SettingsContext'
+import credentialVaultService, { MIN_PASSPHRASE_LENGTH } from '../../services/CredentialVaultService'
+
+const IDLE_MINUTES_OPTIONS = [5, 15, 30, 60]
+
+/**
+ * Creates, unlocks and locks the credential vault that keeps API keys and
+ * AWS secrets encrypted, and changes its passphrase
+ */
+export const CredentialVault = () => {
+	const { settings, updateSettings, credentials, vaultStatus } = useSettings()
+	const { t } = useI18n()
+	const [passphrase, setPassphrase] = useState('')
+	const [confirmation, setConfirmation] = useState('')
+	const [newPassphrase, setNewPassphrase] = useState('')
+	const [changingPassphrase, setChangingPassphrase] = useState(false)
+	const [resetDialogOpen, setResetDialogOpen] = useState(false)
+	const [busy, setBusy] = useState(false)
+	const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null)
+
+	const clearFields = () => {
+		setPassphrase('')
+		setConfirmation('')
+		setNewPassphrase('')
+	}
+
+	// Checks a new passphrase and its confirmation, showing what is wrong
+	const isValidNewPassphrase = (value: string) => {
+		if (value.length < MIN_PASSPHRASE_LENGTH) {
+			setMessage({ severity: 'error', text: t('vault.tooShort', { count: MIN_PASSPHRASE_LENGTH }) })
+			return false
+		}
+		if (value !== confirmation) {
+			setMessage({ severity: 'error', text: t('vault.mismatch') })
+			return false
+		}
+		return true
+	}
+
+	// Runs a vault operation, reporting failures
+	const run = async (operation: () => Promise<void>) => {
+		setBusy(true)
+		setMessage(null)
+		try {
+			await operation()
+		} catch (error) {
+			console.error('Credential vault operation failed:', error)
+			setMessage({ severity: 'error', text: t('vault.error') })
+		} finally {
+			setBusy(false)
+		}
+	}
+
+	const handleCreate = () =>
+		run(async () => {
+			if (!isValidNewPassphrase(passphrase)) return
+			// Credentials still kept in plain settings move into the new vault
+			await credentialVaultService.create(passphrase)
+			clearFields()
+		})
+
+	const handleUnlock = () =>
+		run(async () => {
+			if (await credentialVaultService.unlock(passphrase)) {
+				clearFields()
+			} else {
+				setMessage({ severity: 'error', text: t('vault.wrongPassphrase') })
+			}
+		})
+
+	const handleChangePassphrase = () =>
+		run(async () => {
+			if (!isValidNewPassphrase(newPassphrase)) return
+			if (await credentialVaultService.changePassphrase(passphrase, newPassphrase)) {
+				clearFields()
+				setChangingPassphrase(false)
+				setMessage({ severity: 'success', text: t('vault.passphraseChanged') })
+			} else {
+				setMessage({ severity: 'error', text: t('vault.wrongPassphrase') })
+			}
+		})
+
+	const handleReset = () => {
+		setResetDialogOpen(false)
+		void run(async () => {
+			await credentialVaultService.destroy()
+			clearFields()
+		})
+	}
+
+	const handleIdleMinutesChange = (event: SelectChangeEvent<number>) => {
+		updateSettings({ vaultIdleMinutes: Number(event.target.value) })
+	}
+
+	const hasPlainCredentials =
+		vaultStatus === 'none' && Object.values(credentials).some((value) => value !== '')
+
+	const passphraseField = (label: string, value: string, onChange: (value: string) => void) => (
+		<TextField
+			fullWidth
+			type="password"
+			label={label}
+			value={value}
+			onChange={(e) => onChange(e.target.value)}
+			margin="dense"
+			autoComplete="off"
+			disabled={busy}
+		/>
+	)
+
+	return (
+		<Box sx={{ mb: 3 }}>
+			<Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+				<Typography variant="subtitle1">{t('vault.title')}</Typography>
+				<Chip
+					size="small"
+					icon={vaultStatus === 'unlocked' ? <LockOpenIcon /> : <LockIcon />}
+					color={vaultStatus === 'unlocked' ? 'success' : 'default'}
+					label={t(`vault.status.${vaultStatus}`)}
+				/>
+			</Box>
+			<Typography variant="body2" color="text.secondary" paragraph>
+				{t('vault.description')}
+			</Typography>
+
+			{hasPlainCredentials && (
+				<Alert severity="warning" sx={{ mb: 2 }}>
+					{t('vault.plainCredentials')}
+				</Alert>
+			)}
+
+			{message && (
+				<Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+					{message.text}
+				</Alert>
+			)}
+
+			{vaultStatus === 'none' && (
+				<>
+					{passphraseField(t('vault.passphrase'), passphrase, setPassphrase)}
+					{passphraseField(t('vault.confirmPassphrase'), confirmation, setConfirmation)}
+					<Button variant="contained" onClick={() => void handleCreate()} disabled={busy} sx={{ mt: 1 }}>
+						{t('vault.create')}
+					</Button>
+				</>
+			)}
+
+			{vaultStatus === 'locked' && (
+				<>
+					{passphraseField(t('vault.passphrase'), passphrase, setPassphrase)}
+					<Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+						<Button
+							variant="contained"
+							startIcon={<LockOpenIcon />}
+							onClick={() => void handleUnlock()}
+							disabled={busy || passphrase === ''}>
+							{t('vault.unlock')}
+						</Button>
+						<Button color="error" onClick={() => setResetDialogOpen(true)} disabled={busy}>
+							{t('vault.reset')}
+						</Button>
+					</Box>
+				</>
+			)}
+
+			{vaultStatus === 'unlocked' && (
+				<>
+					<Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+						<Button
+							variant="outlined"
+							startIcon={<LockIcon />}
+							onClick={() => credentialVaultService.lock()}
+							disabled={busy}>
+							{t('vault.lock')}
+						</Button>
+						<Button onClick={() => setChangingPassphrase(!changingPassphrase)} disabled={busy}>
+							{t('vault.changePassphrase')}
+						</Button>
+						<FormControl size="small" sx={{ minWidth: 200, ml: 'auto' }}>
+							<InputLabel id="vault-idle-label">{t('vault.idleTimeout')}</InputLabel>
+							<Select
+								labelId="vault-idle-label"
+								value={settings.vaultIdleMinutes}
+								label={t('vault.idleTimeout')}
+								onChange={handleIdleMinutesChange}>
+								{IDLE_MINUTES_OPTIONS.map((minutes) => (
+									<MenuItem key={minutes} value={minutes}>
+										{t('vault.minutes', { count: minutes })}
+									</MenuItem>
+								))}
+								<MenuItem value={0}>{t('vault.never')}</MenuItem>
+							</Select>
+						</FormControl>
+					</Box>
+					<Collapse in={changingPassphrase}>
+						{passphraseField(t('vault.currentPassphrase'), passphrase, setPassphrase)}
+						{passphraseField(t('vault.newPassphrase'), newPassphrase, setNewPassphrase)}
+						{passphraseField(t('vault.confirmPassphrase'), confirmation, setConfirmation)}
+						<Button
+							variant="contained"
+							onClick={() => void handleChangePassphrase()}
+							disabled={busy || passphrase === ''}
+							sx={{ mt: 1 }}>
+							{t('vault.changePassphrase')}
+						</Button>
+					</Collapse>
+				</>
+			)}
+
+			<Dialog open={resetDialogOpen} onClose={() => setResetDialogOpen(false)}>
+				<DialogTitle>{t('vault.reset')}</DialogTitle>
+				<DialogContent>
+					<DialogContentText>{t('vault.resetConfirm')}</DialogContentText>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setResetDialogOpen(false)}>{t('common.cancel')}</Button>
+					<Button color="error" onClick={handleReset}>
+						{t('vault.reset')}
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Box>
+	)
+}
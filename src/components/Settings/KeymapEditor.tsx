@@ -0,0 +1,286 @@
+import {
+	Add as AddIcon,
+	FileDownload as DownloadIcon,
+	FileUpload as UploadIcon,
+	RestartAlt as ResetIcon,
+} from '@mui/icons-material'
+import {
+	Alert,
+	Box,
+	Button,
+	Chip,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
+	IconButton,
+	InputLabel,
+	MenuItem,
+	Select,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableRow,
+	TextField,
+	Tooltip,
+	Typography,
+} from '@mui/material'
+import React, { useRef, useState } from 'react'
+
+import { fixedActionIds, keymapActions, keymapPresetIds } from '../../config/keymapConfig'
+import { useI18n } from '../../contexts/I18nContext'
+import { useKeymap, useKeymapSections } from '../../hooks/useKeymap'
+import keymapService from '../../services/KeymapService'
+import type { KeymapActionId, KeymapPresetId } from '../../types/keymap'
+import { MAX_CHORD_LENGTH, eventToStroke, formatBinding, getBindings } from '../../utils/keymap'
+
+interface RecordBindingDialogProps {
+	actionId: KeymapActionId | null
+	onClose: () => void
+}
+
+// Keys that keep their meaning in the dialog instead of being recorded
+const UNRECORDED_KEYS = new Set(['Escape', 'Tab'])
+
+/**
+ * Dialog that records a keystroke or chord for an action and warns when it
+ * is bound to other actions
+ */
+const RecordBindingDialog: React.FC<RecordBindingDialogProps> = ({ actionId, onClose }) => {
+	const { t } = useI18n()
+	const [strokes, setStrokes] = useState<string[]>([])
+	const inputRef = useRef<HTMLInputElement>(null)
+
+	const binding = strokes.join(' ')
+	const labelOf = (id: KeymapActionId) =>
+		t(keymapActions.find((action) => action.id === id)?.labelKey ?? id)
+	const conflicts = actionId !== null && binding !== '' ? keymapService.getConflicts(actionId, binding) : []
+	const reserved = conflicts.filter((conflict) => fixedActionIds.has(conflict.actionId))
+	const actionsOf = (found: typeof conflicts) =>
+		[...new Set(found.map((conflict) => labelOf(conflict.actionId)))].join(', ')
+
+	const handleClose = () => {
+		setStrokes([])
+		onClose()
+	}
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (UNRECORDED_KEYS.has(event.key)) return
+		event.preventDefault()
+		const stroke = eventToStroke(event.nativeEvent)
+		if (stroke === null) return
+		// A full chord starts over with the next key
+		setStrokes((current) => (current.length >= MAX_CHORD_LENGTH ? [stroke] : [...current, stroke]))
+	}
+
+	const handleSave = () => {
+		if (actionId === null || binding === '' || reserved.length > 0) return
+		keymapService.setBindings(actionId, [...getBindings(keymapService.getKeymap(), actionId), binding])
+		handleClose()
+	}
+
+	return (
+		<Dialog
+			open={actionId !== null}
+			onClose={handleClose}
+			maxWidth="xs"
+			fullWidth
+			slotProps={{ transition: { onEntered: () => inputRef.current?.focus() } }}>
+			<DialogTitle>{actionId !== null && t('shortcuts.recordTitle', { action: labelOf(actionId) })}</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					<TextField
+						inputRef={inputRef}
+						fullWidth
+						value={binding === '' ? '' : formatBinding(binding)}
+						placeholder={t('shortcuts.recordPlaceholder')}
+						helperText={t('shortcuts.recordHelp', { count: MAX_CHORD_LENGTH })}
+						onKeyDown={handleKeyDown}
+						slotProps={{ htmlInput: { readOnly: true, 'aria-label': t('shortcuts.shortcut') } }}
+					/>
+					{reserved.length > 0 ? (
+						<Alert severity="error">{t('shortcuts.reserved', { actions: actionsOf(reserved) })}</Alert>
+					) : (
+						conflicts.length > 0 && (
+							<Alert severity="warning">{t('shortcuts.conflict', { actions: actionsOf(conflicts) })}</Alert>
+						)
+					)}
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={() => setStrokes([])} disabled={binding === ''}>
+					{t('shortcuts.clear')}
+				</Button>
+				<Button onClick={handleClose}>{t('common.cancel')}</Button>
+				<Button variant="contained" onClick={handleSave} disabled={binding === '' || reserved.length > 0}>
+					{t('common.save')}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	)
+}
+
+/**
+ * Editor of the keyboard shortcuts: preset, bindings per action and import
+ * and export of the keymap
+ */
+export const KeymapEditor: React.FC = () => {
+	const { t } = useI18n()
+	const keymap = useKeymap()
+	const sections = useKeymapSections()
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [recordingAction, setRecordingAction] = useState<KeymapActionId | null>(null)
+	const [status, setStatus] = useState<{ severity: 'success' | 'error'; message: string } | null>(null)
+
+	const { preset, bindings: changedBindings } = keymapService.getSettings()
+
+	const handleRemoveBinding = (actionId: KeymapActionId, binding: string) => {
+		keymapService.setBindings(
+			actionId,
+			getBindings(keymap, actionId).filter((other) => other !== binding),
+		)
+	}
+
+	const handleExport = () => {
+		const blob = new Blob([keymapService.exportKeymap()], { type: 'application/json' })
+		const url = URL.createObjectURL(blob)
+		const a = document.createElement('a')
+		a.href = url
+		a.download = 'd.o.it.brainstorming-keymap.json'
+		document.body.appendChild(a)
+		a.click()
+		document.body.removeChild(a)
+		URL.revokeObjectURL(url)
+	}
+
+	const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0]
+		if (!file) return
+
+		const reader = new FileReader()
+		reader.onload = (loadEvent) => {
+			try {
+				keymapService.importKeymap(String(loadEvent.target?.result ?? ''))
+				setStatus({ severity: 'success', message: t('shortcuts.importSuccess') })
+			} catch (err) {
+				const error = err instanceof Error ? err : new Error(String(err))
+				setStatus({ severity: 'error', message: t('shortcuts.importError', { message: error.message }) })
+			}
+		}
+		reader.onerror = () => setStatus({ severity: 'error', message: t('importExport.failedToReadFile') })
+		reader.readAsText(file)
+
+		// Reset the input so the same file can be selected again
+		event.target.value = ''
+	}
+
+	return (
+		<Box>
+			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 3, alignItems: { sm: 'center' } }}>
+				<FormControl size="small" sx={{ minWidth: 200 }}>
+					<InputLabel id="keymap-preset-label">{t('shortcuts.preset')}</InputLabel>
+					<Select
+						labelId="keymap-preset-label"
+						value={preset}
+						label={t('shortcuts.preset')}
+						onChange={(event) => keymapService.setPreset(event.target.value as KeymapPresetId)}>
+						{keymapPresetIds.map((presetId) => (
+							<MenuItem key={presetId} value={presetId}>
+								{t(`shortcuts.presets.${presetId}`)}
+							</MenuItem>
+						))}
+					</Select>
+				</FormControl>
+				<Box sx={{ flexGrow: 1 }} />
+				<Button startIcon={<ResetIcon />} onClick={() => keymapService.resetBindings()}>
+					{t('shortcuts.resetAll')}
+				</Button>
+				<Button startIcon={<DownloadIcon />} onClick={handleExport}>
+					{t('shortcuts.export')}
+				</Button>
+				<Button startIcon={<UploadIcon />} onClick={() => fileInputRef.current?.click()}>
+					{t('shortcuts.import')}
+				</Button>
+				<input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleImport} />
+			</Stack>
+
+			{status && (
+				<Alert severity={status.severity} onClose={() => setStatus(null)} sx={{ mb: 2 }}>
+					{status.message}
+				</Alert>
+			)}
+
+			{sections.map((section) => (
+				<Box key={section.category} sx={{ mb: 3 }}>
+					<Typography variant="h6" gutterBottom>
+						{section.title}
+					</Typography>
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell width="35%">{t('shortcuts.action')}</TableCell>
+								<TableCell>{t('shortcuts.shortcut')}</TableCell>
+								<TableCell align="right" width="120">
+									{t('common.actions')}
+								</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{section.items.map((item) => (
+								<TableRow key={item.id}>
+									<TableCell>{item.label}</TableCell>
+									<TableCell>
+										<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+											{keymap[item.id].length === 0 && (
+												<Typography variant="body2" color="text.secondary">
+													{t('shortcuts.unbound')}
+												</Typography>
+											)}
+											{keymap[item.id].map((binding) => (
+												<Chip
+													key={binding}
+													size="small"
+													label={formatBinding(binding)}
+													{...(!item.fixed ? { onDelete: () => handleRemoveBinding(item.id, binding) } : {})}
+													sx={{ fontFamily: 'monospace' }}
+												/>
+											))}
+										</Box>
+									</TableCell>
+									<TableCell align="right">
+										{!item.fixed && (
+											<>
+												<Tooltip title={t('shortcuts.addBinding')}>
+													<IconButton size="small" onClick={() => setRecordingAction(item.id)}>
+														<AddIcon fontSize="small" />
+													</IconButton>
+												</Tooltip>
+												<Tooltip title={t('shortcuts.reset')}>
+													<span>
+														<IconButton
+															size="small"
+															onClick={() => keymapService.resetBindings(item.id)}
+															disabled={changedBindings[item.id] === undefined}>
+															<ResetIcon fontSize="small" />
+														</IconButton>
+													</span>
+												</Tooltip>
+											</>
+										)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</Box>
+			))}
+
+			<RecordBindingDialog actionId={recordingAction} onClose={() => setRecordingAction(null)} />
+		</Box>
+	)
+}
+
+export default KeymapEditor
@@ -13,6 +13,8 @@ import {
 	CardContent,
 	Divider,
 	Alert,
+	Checkbox,
+	FormControlLabel,
 	Snackbar,
 	Dialog,
 	DialogTitle,
@@ -31,7 +33,9 @@ import loggerService from '../../services/LoggerService'
 import offlineService from '../../services/OfflineService'
 
 export const SettingsExportImport = () => {
-	const { exportSettings, importSettings } = useSettings()
+	const { exportSettings, importSettings, vaultStatus } = useSettings()
+	// Credentials are only exported when asked for, sealed with the vault passphrase
+	const [includeCredentials, setIncludeCredentials] = useState(false)
 	const { t } = useI18n()
 	const fileInputRef = useRef<HTMLInputElement>(null)
 	const [isOnline, setIsOnline] = useState(offlineService.getOnlineStatus())
@@ -79,7 +83,9 @@ export const SettingsExportImport = () => {
 	const handleExport = async () => {
 		try {
 			setLoading(true)
-			const settingsJson = await exportSettings()
+			const settingsJson = await exportSettings({
+				includeCredentials: includeCredentials && vaultStatus === 'unlocked',
+			})
 
 			// Create a blob and download it
 			const blob = new Blob([settingsJson], { type: 'application/json' })
@@ -291,6 +297,17 @@ export const SettingsExportImport = () => {
 					<Typography variant="body2" color="text.secondary" paragraph>
 						{t('importExport.exportSettingsDetail')}
 					</Typography>
+					<FormControlLabel
+						control={
+							<Checkbox
+								checked={includeCredentials && vaultStatus === 'unlocked'}
+								onChange={(e) => setIncludeCredentials(e.target.checked)}
+								disabled={vaultStatus !== 'unlocked'}
+							/>
+						}
+						label={t('importExport.includeCredentials')}
+						sx={{ display: 'flex', mb: 1 }}
+					/>
 					<Button
 						variant="contained"
 						startIcon={<DownloadIcon />}
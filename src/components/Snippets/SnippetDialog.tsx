@@ -0,0 +1,226 @@
+import { Restore as RestoreIcon } from '@mui/icons-material'
+import {
+	Alert,
+	Autocomplete,
+	Button,
+	Checkbox,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControlLabel,
+	FormHelperText,
+	IconButton,
+	List,
+	ListItem,
+	ListItemText,
+	Stack,
+	TextField,
+	Tooltip,
+	Typography,
+	type TextFieldProps,
+} from '@mui/material'
+import { useEffect, useRef, useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import snippetService from '../../services/SnippetService'
+import type { Snippet } from '../../types/snippet'
+import type { SubgraphPayload } from '../../utils/subgraphClipboard'
+
+// Color of nodes without one, for the color input
+const DEFAULT_NODE_COLOR = '#ffffff'
+
+interface SnippetDialogProps {
+	open: boolean
+	/** Snippet to edit; without it the content is saved as a new snippet */
+	snippet?: Snippet | null
+	/** Nodes and edges of a new snippet */
+	content?: SubgraphPayload | null
+	/** Tags of the library, to suggest */
+	knownTags: string[]
+	onClose: () => void
+	/**
+	 * Called with the saved snippet and, when placed nodes were updated, how many
+	 */
+	onSaved: (snippet: Snippet, updatedInstances?: number) => void
+}
+
+/**
+ * Dialog to save nodes to the snippet library or to edit a snippet: its name,
+ * tags and the text and colors of its nodes. Edited nodes make a new version,
+ * which can be carried over to the nodes placed from earlier versions.
+ */
+export const SnippetDialog = ({ open, snippet, content, knownTags, onClose, onSaved }: SnippetDialogProps) => {
+	const { t } = useI18n()
+	const [name, setName] = useState('')
+	const [description, setDescription] = useState('')
+	const [tags, setTags] = useState<string[]>([])
+	const [nodes, setNodes] = useState<SubgraphPayload['nodes']>([])
+	const [updateInstances, setUpdateInstances] = useState(false)
+	const [saving, setSaving] = useState(false)
+	const nameRef = useRef<HTMLInputElement>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (!open) return
+		setName(snippet?.name ?? content?.nodes[0]?.title ?? '')
+		setDescription(snippet?.description ?? '')
+		setTags(snippet?.tags ?? [])
+		setNodes(snippet?.content.nodes ?? [])
+		setUpdateInstances(false)
+		setError(null)
+	}, [open, snippet, content])
+
+	const updateNode = (id: string, changes: Partial<SubgraphPayload['nodes'][number]>) =>
+		setNodes((current) => current.map((node) => (node.id === id ? { ...node, ...changes } : node)))
+
+	const runSave = async (save: () => Promise<Snippet>) => {
+		setSaving(true)
+		setError(null)
+		try {
+			const saved = await save()
+			const updated =
+				updateInstances && saved.version !== snippet?.version ? await snippetService.updateInstances(saved) : undefined
+			onSaved(saved, updated)
+			onClose()
+		} catch (err) {
+			console.error('Error saving snippet:', err)
+			setError(t('snippets.saveError'))
+		} finally {
+			setSaving(false)
+		}
+	}
+
+	const handleSave = () => {
+		if (snippet) {
+			void runSave(() =>
+				snippetService.updateSnippet(snippet, { name, description, tags, content: { ...snippet.content, nodes } }),
+			)
+		} else if (content) {
+			void runSave(() => snippetService.createSnippet(name, content, { description, tags }))
+		}
+	}
+
+	const handleRestore = (version: number) => {
+		if (snippet) void runSave(() => snippetService.restoreVersion(snippet, version))
+	}
+
+	return (
+		<Dialog
+			open={open}
+			onClose={onClose}
+			maxWidth="sm"
+			fullWidth
+			slotProps={{ transition: { onEntered: () => nameRef.current?.focus() } }}>
+			<DialogTitle>{snippet ? t('snippets.editTitle') : t('snippets.saveTitle')}</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					{error && <Alert severity="error">{error}</Alert>}
+					<TextField
+						label={t('snippets.name')}
+						value={name}
+						onChange={(event) => setName(event.target.value)}
+						required
+						inputRef={nameRef}
+					/>
+					<TextField
+						label={t('snippets.descriptionLabel')}
+						value={description}
+						onChange={(event) => setDescription(event.target.value)}
+						multiline
+						minRows={2}
+					/>
+					<Autocomplete
+						multiple
+						freeSolo
+						options={knownTags}
+						value={tags}
+						onChange={(_event, value) => setTags(value)}
+						renderInput={(params) => <TextField {...(params as TextFieldProps)} label={t('snippets.tags')} />}
+					/>
+
+					{snippet && (
+						<>
+							<Typography variant="subtitle2">{t('snippets.nodeList')}</Typography>
+							{nodes.map((node) => (
+								<Stack key={node.id} direction="row" spacing={1} sx={{ alignItems: 'flex-start' }}>
+									<TextField
+										label={t('snippets.nodeColor')}
+										type="color"
+										size="small"
+										value={node.color ?? DEFAULT_NODE_COLOR}
+										onChange={(event) => updateNode(node.id, { color: event.target.value })}
+										sx={{ width: 72, flexShrink: 0 }}
+									/>
+									<Stack spacing={1} sx={{ flex: 1 }}>
+										<TextField
+											label={t('snippets.nodeTitle')}
+											size="small"
+											value={node.title}
+											onChange={(event) => updateNode(node.id, { title: event.target.value })}
+										/>
+										<TextField
+											label={t('snippets.nodeContent')}
+											size="small"
+											value={node.content}
+											onChange={(event) => updateNode(node.id, { content: event.target.value })}
+											multiline
+											maxRows={4}
+										/>
+									</Stack>
+								</Stack>
+							))}
+							<FormControlLabel
+								control={
+									<Checkbox checked={updateInstances} onChange={(event) => setUpdateInstances(event.target.checked)} />
+								}
+								label={t('snippets.updateInstances')}
+							/>
+							<FormHelperText sx={{ mt: '0 !important' }}>{t('snippets.updateInstancesHelp')}</FormHelperText>
+
+							{snippet.history.length > 0 && (
+								<>
+									<Typography variant="subtitle2">{t('snippets.history')}</Typography>
+									<List dense disablePadding>
+										{snippet.history.map((revision) => (
+											<ListItem
+												key={revision.version}
+												disableGutters
+												secondaryAction={
+													<Tooltip title={t('snippets.restore')}>
+														<IconButton
+															edge="end"
+															aria-label={t('snippets.restore')}
+															onClick={() => handleRestore(revision.version)}
+															disabled={saving}>
+															<RestoreIcon />
+														</IconButton>
+													</Tooltip>
+												}>
+												<ListItemText
+													primary={t('snippets.revision', {
+														version: revision.version,
+														date: new Date(revision.savedAt).toLocaleString(),
+													})}
+													secondary={revision.content.nodes.map((node) => node.title).join(', ')}
+												/>
+											</ListItem>
+										))}
+									</List>
+								</>
+							)}
+						</>
+					)}
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>{t('common.cancel')}</Button>
+				<Button variant="contained" onClick={handleSave} disabled={saving || name.trim() === ''}>
+					{saving ? t('common.saving') : t('common.save')}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	)
+}
+
+export default SnippetDialog
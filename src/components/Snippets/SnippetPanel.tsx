@@ -0,0 +1,167 @@
+import { Close as CloseIcon, BookmarkAdd as SaveSnippetIcon, Search as SearchIcon } from '@mui/icons-material'
+import {
+	Alert,
+	Box,
+	Button,
+	Chip,
+	IconButton,
+	InputAdornment,
+	List,
+	ListItemButton,
+	ListItemText,
+	Paper,
+	Stack,
+	TextField,
+	Typography,
+} from '@mui/material'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+
+import { useI18n } from '../../contexts/I18nContext'
+import snippetService from '../../services/SnippetService'
+import { useBrainstormStore } from '../../store/brainstormStore'
+import type { Snippet } from '../../types/snippet'
+import { getSnippetTags, matchesSnippet, SNIPPET_MIME_TYPE } from '../../utils/snippets'
+import { copySubgraph, type SubgraphPayload } from '../../utils/subgraphClipboard'
+
+import SnippetDialog from './SnippetDialog'
+
+interface SnippetPanelProps {
+	onClose: () => void
+}
+
+/**
+ * Side panel of the canvas listing the snippet library. Snippets are dragged
+ * from it onto the canvas, and the selected nodes can be saved to it.
+ */
+export const SnippetPanel = ({ onClose }: SnippetPanelProps) => {
+	const { t } = useI18n()
+	const [snippets, setSnippets] = useState<Snippet[]>([])
+	const [query, setQuery] = useState('')
+	const [error, setError] = useState<string | null>(null)
+	const [newContent, setNewContent] = useState<SubgraphPayload | null>(null)
+	const hasSelection = useBrainstormStore((state) => state.nodes.some((node) => node.selected === true))
+
+	const loadSnippets = useCallback(async () => {
+		try {
+			setSnippets(await snippetService.getSnippets())
+			setError(null)
+		} catch (err) {
+			console.error('Error loading snippets:', err)
+			setError(t('snippets.loadError'))
+		}
+	}, [t])
+
+	useEffect(() => {
+		void loadSnippets()
+	}, [loadSnippets])
+
+	const visibleSnippets = useMemo(() => snippets.filter((snippet) => matchesSnippet(snippet, query)), [snippets, query])
+	const knownTags = useMemo(() => getSnippetTags(snippets).map(({ tag }) => tag), [snippets])
+
+	const handleSaveSelection = () => {
+		const { nodes, edges, projectId } = useBrainstormStore.getState()
+		const selectedIds = nodes.filter((node) => node.selected === true).map((node) => node.id)
+		setNewContent(copySubgraph(nodes, edges, selectedIds, projectId ?? undefined))
+	}
+
+	return (
+		<Paper
+			elevation={4}
+			sx={{
+				position: 'absolute',
+				top: 70,
+				left: 10,
+				bottom: 20,
+				width: 280,
+				zIndex: 6,
+				display: 'flex',
+				flexDirection: 'column',
+			}}>
+			<Stack direction="row" sx={{ alignItems: 'center', px: 2, pt: 1 }}>
+				<Typography variant="subtitle1" sx={{ flex: 1 }}>
+					{t('snippets.panelTitle')}
+				</Typography>
+				<IconButton size="small" onClick={onClose} aria-label={t('common.close')}>
+					<CloseIcon fontSize="small" />
+				</IconButton>
+			</Stack>
+			<Box sx={{ px: 2, py: 1 }}>
+				<TextField
+					size="small"
+					fullWidth
+					placeholder={t('snippets.search')}
+					value={query}
+					onChange={(event) => setQuery(event.target.value)}
+					slotProps={{
+						input: {
+							startAdornment: (
+								<InputAdornment position="start">
+									<SearchIcon fontSize="small" />
+								</InputAdornment>
+							),
+						},
+					}}
+				/>
+				<Typography variant="caption" color="text.secondary">
+					{t('snippets.dragHint')}
+				</Typography>
+			</Box>
+			{error && (
+				<Alert severity="error" sx={{ mx: 2 }}>
+					{error}
+				</Alert>
+			)}
+			<List dense sx={{ flex: 1, overflowY: 'auto' }}>
+				{visibleSnippets.map((snippet) => (
+					<ListItemButton
+						key={snippet.id}
+						draggable
+						onDragStart={(event) => {
+							event.dataTransfer.setData(SNIPPET_MIME_TYPE, snippet.id)
+							event.dataTransfer.effectAllowed = 'copy'
+						}}
+						sx={{ cursor: 'grab', alignItems: 'flex-start' }}>
+						<ListItemText
+							primary={snippet.name}
+							secondary={
+								<>
+									{t('snippets.nodeCount', { count: snippet.content.nodes.length })}
+									{snippet.tags.length > 0 && (
+										<Box component="span" sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+											{snippet.tags.map((tag) => (
+												<Chip key={tag} label={tag} size="small" component="span" />
+											))}
+										</Box>
+									)}
+								</>
+							}
+						/>
+					</ListItemButton>
+				))}
+				{visibleSnippets.length === 0 && (
+					<Typography variant="body2" color="text.secondary" sx={{ px: 2 }}>
+						{snippets.length === 0 ? t('snippets.empty') : t('snippets.noMatches')}
+					</Typography>
+				)}
+			</List>
+			<Stack spacing={1} sx={{ p: 2 }}>
+				<Button variant="contained" startIcon={<SaveSnippetIcon />} onClick={handleSaveSelection} disabled={!hasSelection}>
+					{t('snippets.saveSelection')}
+				</Button>
+				<Button component={Link} to="/resources/snippets">
+					{t('snippets.manage')}
+				</Button>
+			</Stack>
+			<SnippetDialog
+				open={newContent !== null}
+				content={newContent}
+				knownTags={knownTags}
+				onClose={() => setNewContent(null)}
+				onSaved={() => void loadSnippets()}
+			/>
+		</Paper>
+	)
+}
+
+export default SnippetPanel
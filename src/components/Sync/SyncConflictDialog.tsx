@@ -0,0 +1,170 @@
+import {
+	Box,
+	Button,
+	Chip,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogContentText,
+	DialogTitle,
+	Divider,
+	FormControlLabel,
+	List,
+	ListItem,
+	Radio,
+	RadioGroup,
+	Typography,
+} from '@mui/material'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { useI18n } from '../../contexts/I18nContext'
+import type { SyncConflictReview } from '../../services/StorageSyncService'
+import { storageSyncService } from '../../services/StorageSyncService'
+import type { Project } from '../../types'
+import type { ConflictChoice, ConflictResolutions, MergeConflict } from '../../utils/projectMerge'
+
+const formatValue = (value: unknown): string => {
+	if (value === undefined) return '—'
+	if (typeof value === 'string') return value
+	return JSON.stringify(value)
+}
+
+const getEntityLabel = (conflict: MergeConflict, review: SyncConflictReview): string => {
+	if (conflict.entity === 'project') {
+		return review.projectName
+	}
+	if (conflict.entity === 'edge') {
+		return conflict.entityId
+	}
+	const findTitle = (project: Project | null) =>
+		project?.nodes.find((node) => node.id === conflict.entityId)?.data.title
+	return findTitle(review.localVersion) ?? findTitle(review.remoteVersion) ?? findTitle(review.baseVersion) ?? conflict.entityId
+}
+
+/**
+ * Lets the user pick the local or remote side for every change that could not
+ * be merged automatically during sync. Registers itself as the conflict handler
+ * of the storage sync service while mounted.
+ */
+const SyncConflictDialog = () => {
+	const { t } = useI18n()
+	const [review, setReview] = useState<SyncConflictReview | null>(null)
+	const [choices, setChoices] = useState<ConflictResolutions>({})
+	const resolverRef = useRef<((resolutions: ConflictResolutions | null) => void) | null>(null)
+
+	useEffect(() => {
+		const unregister = storageSyncService.setConflictHandler(
+			(nextReview) =>
+				new Promise((resolve) => {
+					resolverRef.current = resolve
+					setChoices(Object.fromEntries(nextReview.conflicts.map((conflict) => [conflict.id, 'local'])))
+					setReview(nextReview)
+				}),
+		)
+
+		return () => {
+			unregister()
+			resolverRef.current?.(null)
+			resolverRef.current = null
+		}
+	}, [])
+
+	const finish = useCallback((resolutions: ConflictResolutions | null) => {
+		resolverRef.current?.(resolutions)
+		resolverRef.current = null
+		setReview(null)
+	}, [])
+
+	const setAll = (choice: ConflictChoice) => {
+		if (!review) return
+		setChoices(Object.fromEntries(review.conflicts.map((conflict) => [conflict.id, choice])))
+	}
+
+	const describeField = (conflict: MergeConflict) =>
+		conflict.field === '*' ? t('syncConflict.deletedOnOneSide') : conflict.field.replace(/^data\./, '')
+
+	const describeSide = (conflict: MergeConflict, side: ConflictChoice) => {
+		const value = side === 'local' ? conflict.local : conflict.remote
+		if (conflict.field === '*') {
+			return value !== undefined ? t('syncConflict.kept') : t('syncConflict.deleted')
+		}
+		return formatValue(value)
+	}
+
+	return (
+		<Dialog
+			open={review !== null}
+			onClose={() => finish(null)}
+			maxWidth="md"
+			fullWidth
+			aria-labelledby="sync-conflict-dialog-title"
+			data-testid="sync-conflict-dialog">
+			<DialogTitle id="sync-conflict-dialog-title">{t('syncConflict.title')}</DialogTitle>
+			<DialogContent dividers>
+				<DialogContentText sx={{ mb: 2 }}>
+					{t('syncConflict.description', {
+						project: review?.projectName ?? '',
+						count: review?.conflicts.length ?? 0,
+					})}
+				</DialogContentText>
+
+				<Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+					<Button size="small" variant="outlined" onClick={() => setAll('local')}>
+						{t('syncConflict.keepAllLocal')}
+					</Button>
+					<Button size="small" variant="outlined" onClick={() => setAll('remote')}>
+						{t('syncConflict.keepAllRemote')}
+					</Button>
+				</Box>
+
+				<List disablePadding>
+					{review?.conflicts.map((conflict, index) => (
+						<Box key={conflict.id}>
+							{index > 0 && <Divider />}
+							<ListItem sx={{ display: 'block', px: 0 }}>
+								<Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+									<Chip
+										size="small"
+										label={t(`syncConflict.${conflict.entity}`)}
+									/>
+									<Typography variant="subtitle2">{getEntityLabel(conflict, review)}</Typography>
+									<Typography variant="body2" color="text.secondary">
+										{describeField(conflict)}
+									</Typography>
+								</Box>
+								<RadioGroup
+									row
+									value={choices[conflict.id] ?? 'local'}
+									onChange={(event) =>
+										setChoices((prev) => ({
+											...prev,
+											[conflict.id]: event.target.value as ConflictChoice,
+										}))
+									}>
+									<FormControlLabel
+										value="local"
+										control={<Radio size="small" />}
+										label={`${t('syncConflict.local')}: ${describeSide(conflict, 'local')}`}
+									/>
+									<FormControlLabel
+										value="remote"
+										control={<Radio size="small" />}
+										label={`${t('syncConflict.remote')}: ${describeSide(conflict, 'remote')}`}
+									/>
+								</RadioGroup>
+							</ListItem>
+						</Box>
+					))}
+				</List>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={() => finish(null)}>{t('syncConflict.later')}</Button>
+				<Button variant="contained" onClick={() => finish(choices)} data-testid="apply-merge">
+					{t('syncConflict.applyMerge')}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	)
+}
+
+export default SyncConflictDialog
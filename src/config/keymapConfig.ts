@@ -0,0 +1,89 @@
+import type { Keymap, KeymapAction, KeymapPresetId } from '../types/keymap'
+
+export const keymapActions: KeymapAction[] = [
+	{ id: 'navigation.projects', labelKey: 'shortcuts.goToProjects', category: 'navigation' },
+	{ id: 'navigation.settings', labelKey: 'shortcuts.goToSettings', category: 'navigation' },
+	{ id: 'navigation.home', labelKey: 'shortcuts.goToHome', category: 'navigation' },
+	{ id: 'view.zoomIn', labelKey: 'shortcuts.zoomIn', category: 'view' },
+	{ id: 'view.zoomOut', labelKey: 'shortcuts.zoomOut', category: 'view' },
+	{ id: 'view.fitView', labelKey: 'shortcuts.fitView', category: 'view' },
+	{ id: 'view.toggleGrid', labelKey: 'shortcuts.toggleGrid', category: 'view' },
+	{ id: 'view.toggleFullscreen', labelKey: 'shortcuts.toggleFullscreen', category: 'view' },
+	{ id: 'view.toggleChat', labelKey: 'shortcuts.toggleChat', category: 'view' },
+	{ id: 'edit.addNode', labelKey: 'shortcuts.addNode', category: 'editing' },
+	{ id: 'edit.delete', labelKey: 'shortcuts.delete', category: 'editing' },
+	{ id: 'edit.group', labelKey: 'shortcuts.group', category: 'editing' },
+	{ id: 'edit.ungroup', labelKey: 'shortcuts.ungroup', category: 'editing' },
+	{ id: 'edit.autoLayout', labelKey: 'shortcuts.autoLayout', category: 'editing' },
+	// The canvas copies and pastes nodes on the browser's clipboard events
+	{ id: 'edit.copy', labelKey: 'shortcuts.copy', category: 'editing', fixed: true },
+	{ id: 'edit.cut', labelKey: 'shortcuts.cut', category: 'editing', fixed: true },
+	{ id: 'edit.paste', labelKey: 'shortcuts.paste', category: 'editing', fixed: true },
+	{ id: 'history.undo', labelKey: 'shortcuts.undo', category: 'history' },
+	{ id: 'history.redo', labelKey: 'shortcuts.redo', category: 'history' },
+	{ id: 'general.save', labelKey: 'shortcuts.save', category: 'general' },
+	{ id: 'general.showShortcuts', labelKey: 'shortcuts.showShortcuts', category: 'general' },
+	{ id: 'general.help', labelKey: 'shortcuts.help', category: 'general' },
+]
+
+const defaultKeymap: Keymap = {
+	'navigation.projects': ['G P'],
+	'navigation.settings': ['G S'],
+	'navigation.home': ['G H'],
+	'view.zoomIn': ['Ctrl+=', 'Ctrl+Plus', 'Ctrl+Shift+Plus'],
+	'view.zoomOut': ['Ctrl+-'],
+	'view.fitView': ['Ctrl+0'],
+	'view.toggleGrid': ["Ctrl+'"],
+	'view.toggleFullscreen': ['Ctrl+Shift+F'],
+	'view.toggleChat': ['Ctrl+Shift+C'],
+	'edit.addNode': ['Ctrl+N'],
+	'edit.delete': ['Delete'],
+	'edit.group': ['Ctrl+G'],
+	'edit.ungroup': ['Ctrl+Shift+G'],
+	'edit.autoLayout': ['Ctrl+L'],
+	'edit.copy': ['Ctrl+C'],
+	'edit.cut': ['Ctrl+X'],
+	'edit.paste': ['Ctrl+V'],
+	'history.undo': ['Ctrl+Z'],
+	'history.redo': ['Ctrl+Y', 'Ctrl+Shift+Z'],
+	'general.save': ['Ctrl+S'],
+	'general.showShortcuts': ['Shift+?'],
+	'general.help': ['F1'],
+}
+
+/**
+ * Complete keymaps to start from. The vim-like and Miro-like ones change the
+ * default where those tools differ.
+ */
+export const keymapPresets: Record<KeymapPresetId, Keymap> = {
+	default: defaultKeymap,
+	vim: {
+		...defaultKeymap,
+		'view.zoomIn': ['Shift+Plus', '='],
+		'view.zoomOut': ['-'],
+		'view.fitView': ['Z Z'],
+		'view.toggleGrid': ['G R'],
+		'view.toggleChat': ['G C'],
+		'edit.addNode': ['O'],
+		'edit.delete': ['D D', 'X'],
+		'edit.group': ['G G'],
+		'edit.ungroup': ['G U'],
+		'edit.autoLayout': ['G L'],
+		'history.undo': ['U'],
+		'history.redo': ['Ctrl+R'],
+		'general.save': ['Shift+: W', 'Ctrl+S'],
+	},
+	miro: {
+		...defaultKeymap,
+		'view.fitView': ['Shift+1'],
+		'view.toggleChat': ['C'],
+		'edit.addNode': ['N'],
+		'edit.delete': ['Delete', 'Backspace'],
+		'edit.autoLayout': ['Ctrl+Shift+L'],
+		'history.redo': ['Ctrl+Shift+Z', 'Ctrl+Y'],
+	},
+}
+
+export const keymapPresetIds = Object.keys(keymapPresets) as KeymapPresetId[]
+
+export const fixedActionIds = new Set(keymapActions.filter((action) => action.fixed === true).map((action) => action.id))
@@ -1,19 +1,33 @@
 import type { ReactNode } from 'react'
-import React, { createContext, useContext, useState, useEffect } from 'react'
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react'
 
 import chatService from '../services/ChatService'
+import type { Credentials, VaultStatus } from '../services/CredentialVaultService'
+import credentialVaultService, {
+	CREDENTIAL_KEYS,
+	DEFAULT_VAULT_IDLE_MINUTES,
+	EMPTY_CREDENTIALS,
+	pickCredentials,
+} from '../services/CredentialVaultService'
 import type { ColorScheme, NodePreferences } from '../services/IndexedDBService'
 import indexedDBService from '../services/IndexedDBService'
+import { anthropicProvider, openAICompatibleProvider, type ProviderConfig } from '../services/llm'
 import s3Service from '../services/S3Service'
 import { ThemeMode, NodeType } from '../types'
+import type { LLMProviderId, ModelChoice } from '../types'
 
 interface Settings {
 	themeMode: ThemeMode
 	language: string
-	openRouterApiKey: string
+	/** Provider used unless a project chooses another */
+	llmProvider: LLMProviderId
 	openRouterModel: string
-	awsAccessKeyId: string
-	awsSecretAccessKey: string
+	anthropicModel: string
+	/** API root of OpenAI or a local server such as Ollama */
+	openAICompatibleBaseUrl: string
+	openAICompatibleModel: string
+	/** Context window of the local model, 0 when unknown */
+	openAICompatibleContextWindow: number
 	awsRegion: string
 	awsBucketName: string
 	autoSave: boolean
@@ -22,20 +36,38 @@ interface Settings {
 	skipDeleteConfirmation: boolean
 	activeColorSchemeId: string
 	preferredNodeSize: 'small' | 'medium' | 'large'
+	/** Minutes without activity before the credential vault locks, 0 for never */
+	vaultIdleMinutes: number
 	accessibilityPreferences?: {
 		reducedMotion?: boolean
 	}
 }
 
+export interface ExportSettingsOptions {
+	/** Add the credentials, encrypted with the vault passphrase */
+	includeCredentials?: boolean
+}
+
+export interface LLMSettings {
+	defaultModel: ModelChoice
+	providers: ReadonlyMap<LLMProviderId, ProviderConfig>
+}
+
 interface SettingsContextType {
 	settings: Settings
 	updateSettings: (newSettings: Partial<Settings>) => void
 	resetSettings: () => void
+	/** API keys and AWS secrets; empty while the credential vault is locked */
+	credentials: Credentials
+	vaultStatus: VaultStatus
+	updateCredentials: (changes: Partial<Credentials>) => Promise<void>
 	colorSchemes: ColorScheme[]
 	activeColorScheme: ColorScheme | null
 	nodePreferences: NodePreferences | null
 	getNodeColor: (type: NodeType, customColor?: string) => string
-	exportSettings: () => Promise<string>
+	/** Default model and the connection to every provider */
+	llm: LLMSettings
+	exportSettings: (options?: ExportSettingsOptions) => Promise<string>
 	importSettings: (jsonData: string) => Promise<boolean>
 	updateColorScheme: (colorScheme: ColorScheme) => Promise<void>
 	createColorScheme: (name: string, colors: Record<NodeType, string>) => Promise<ColorScheme>
@@ -46,10 +78,12 @@ interface SettingsContextType {
 const defaultSettings: Settings = {
 	themeMode: ThemeMode.SYSTEM,
 	language: 'en',
-	openRouterApiKey: '',
+	llmProvider: 'openrouter',
 	openRouterModel: 'anthropic/claude-3-opus',
-	awsAccessKeyId: '',
-	awsSecretAccessKey: '',
+	anthropicModel: anthropicProvider.defaultModel,
+	openAICompatibleBaseUrl: openAICompatibleProvider.defaultBaseUrl,
+	openAICompatibleModel: openAICompatibleProvider.defaultModel,
+	openAICompatibleContextWindow: 0,
 	awsRegion: 'us-east-1',
 	awsBucketName: 'do-it-brainstorming',
 	autoSave: true,
@@ -58,6 +92,7 @@ const defaultSettings: Settings = {
 	skipDeleteConfirmation: false,
 	activeColorSchemeId: 'default',
 	preferredNodeSize: 'medium',
+	vaultIdleMinutes: DEFAULT_VAULT_IDLE_MINUTES,
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
@@ -68,6 +103,81 @@ interface ImportedSettingsData {
 	metadata?: object
 	colorSchemes?: any[] // TODO: Define a proper type for color schemes
 	nodePreferences?: NodePreferences // Use the imported NodePreferences type
+	credentials?: string // Sealed by the credential vault
+}
+
+// Settings without the credentials that older versions stored in plain text
+function withoutCredentials<T extends object>(stored: T): Omit<T, keyof Credentials> {
+	const {
+		openRouterApiKey: _openRouterApiKey,
+		anthropicApiKey: _anthropicApiKey,
+		openAICompatibleApiKey: _openAICompatibleApiKey,
+		awsAccessKeyId: _awsAccessKeyId,
+		awsSecretAccessKey: _awsSecretAccessKey,
+		webdavPassword: _webdavPassword,
+		...rest
+	} = stored as T & Partial<Credentials>
+	return rest
+}
+
+// Settings the model and provider connections are made of
+type LLMSettingsSource = Pick<
+	Settings,
+	| 'llmProvider'
+	| 'openRouterModel'
+	| 'anthropicModel'
+	| 'openAICompatibleBaseUrl'
+	| 'openAICompatibleModel'
+	| 'openAICompatibleContextWindow'
+>
+
+// Default model and provider connections from settings and credentials
+const getLLMSettings = (settingsToUse: LLMSettingsSource, credentialsToUse: Credentials): LLMSettings => {
+	const models: Record<LLMProviderId, string> = {
+		openrouter: settingsToUse.openRouterModel,
+		'openai-compatible': settingsToUse.openAICompatibleModel,
+		anthropic: settingsToUse.anthropicModel,
+	}
+	return {
+		defaultModel: { provider: settingsToUse.llmProvider, model: models[settingsToUse.llmProvider] },
+		providers: new Map<LLMProviderId, ProviderConfig>([
+			['openrouter', { apiKey: credentialsToUse.openRouterApiKey }],
+			[
+				'openai-compatible',
+				{
+					apiKey: credentialsToUse.openAICompatibleApiKey,
+					baseUrl: settingsToUse.openAICompatibleBaseUrl,
+					...(settingsToUse.openAICompatibleContextWindow > 0
+						? { contextWindow: settingsToUse.openAICompatibleContextWindow }
+						: {}),
+				},
+			],
+			['anthropic', { apiKey: credentialsToUse.anthropicApiKey }],
+		]),
+	}
+}
+
+// Configure services with the S3 settings and credentials
+const configureServices = (
+	settingsToUse: Pick<Settings, 'awsRegion' | 'awsBucketName'>,
+	credentialsToUse: Credentials,
+) => {
+	if (!s3Service.isS3Available()) return
+	// Only configure S3 if credentials are provided
+	if (credentialsToUse.awsAccessKeyId !== '' && credentialsToUse.awsSecretAccessKey !== '') {
+		s3Service
+			.configure(
+				credentialsToUse.awsAccessKeyId,
+				credentialsToUse.awsSecretAccessKey,
+				settingsToUse.awsRegion,
+				settingsToUse.awsBucketName,
+			)
+			.catch((error) => {
+				console.warn('Failed to configure S3 service:', error)
+			})
+	} else {
+		s3Service.reset()
+	}
 }
 
 // Type guard for NodePreferences
@@ -109,6 +219,23 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 	const [colorSchemes, setColorSchemes] = useState<ColorScheme[]>([])
 	const [activeColorScheme, setActiveColorScheme] = useState<ColorScheme | null>(null)
 	const [nodePreferences, setNodePreferences] = useState<NodePreferences | null>(null)
+	const [credentials, setCredentials] = useState<Credentials>(EMPTY_CREDENTIALS)
+	const [vaultStatus, setVaultStatus] = useState<VaultStatus>(credentialVaultService.getStatus())
+	// Credentials found in plain settings, moved into the vault once it is unlocked
+	const legacyCredentials = useRef<Partial<Credentials>>({})
+
+	// Set aside plain-text credentials of stored or imported settings
+	const takeLegacyCredentials = <T extends object>(stored: T): Omit<T, keyof Credentials> => {
+		const found = pickCredentials(stored as Record<string, unknown>)
+		if (Object.keys(found).length > 0) {
+			legacyCredentials.current = { ...legacyCredentials.current, ...found }
+			if (credentialVaultService.getStatus() === 'none') {
+				// Keep working with them until a vault is created
+				setCredentials({ ...EMPTY_CREDENTIALS, ...legacyCredentials.current })
+			}
+		}
+		return withoutCredentials(stored)
+	}
 
 	// Initialize IndexedDB and load data
 	useEffect(() => {
@@ -117,18 +244,14 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 			const storedSettings = localStorage.getItem('app_settings')
 			if (storedSettings) {
 				try {
-					const parsedSettings = JSON.parse(storedSettings)
-					const mergedSettings = { ...defaultSettings, ...parsedSettings }
-					setSettings(mergedSettings)
-					configureServices(mergedSettings)
+					const parsedSettings = takeLegacyCredentials(JSON.parse(storedSettings))
+					setSettings({ ...defaultSettings, ...parsedSettings })
 				} catch (error) {
 					console.error('Error parsing settings from localStorage:', error)
 					setSettings(defaultSettings)
-					configureServices(defaultSettings)
 				}
 			} else {
 				setSettings(defaultSettings)
-				configureServices(defaultSettings)
 			}
 		}
 
@@ -152,25 +275,23 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 				setNodePreferences(prefs)
 
 				// Load settings from IndexedDB or localStorage
-				const dbSettings = await indexedDBService.getAllSettings()
+				const dbSettings = takeLegacyCredentials(await indexedDBService.getAllSettings())
 				const storedSettings = localStorage.getItem('app_settings')
 
 				if (Object.keys(dbSettings).length > 0) {
 					// Use settings from IndexedDB
 					const mergedSettings = { ...defaultSettings, ...dbSettings }
 					setSettings(mergedSettings as Settings)
-					configureServices(mergedSettings as Settings)
 
 					// Migrate settings from localStorage to IndexedDB if needed
 					if (storedSettings) {
 						localStorage.removeItem('app_settings')
 					}
 				} else if (storedSettings) {
-					// Use settings from localStorage and migrate to IndexedDB
-					const parsedSettings = JSON.parse(storedSettings)
-					setSettings(parsedSettings)
+					// Use settings from localStorage and migrate to IndexedDB, without credentials
+					const parsedSettings = takeLegacyCredentials(JSON.parse(storedSettings))
+					setSettings({ ...defaultSettings, ...parsedSettings })
 					await indexedDBService.saveSettings(parsedSettings)
-					configureServices(parsedSettings)
 					localStorage.removeItem('app_settings')
 				}
 
@@ -192,27 +313,100 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 		void initializeData() // Add void operator to explicitly ignore the promise
 	}, [settings.activeColorSchemeId])
 
-	// Configure services with settings
-	const configureServices = (settingsToUse: Settings) => {
-		// Configure chat service
-		if (settingsToUse.openRouterApiKey) {
-			chatService.configure(settingsToUse.openRouterApiKey, settingsToUse.openRouterModel)
+	// Follow the credential vault
+	useEffect(() => {
+		// Move plain-text credentials into the vault and out of the settings store
+		const migrateLegacyCredentials = async (unlocked: Credentials) => {
+			const legacy = legacyCredentials.current
+			legacyCredentials.current = {}
+			// Credentials already in the vault win
+			const stored = new Map(Object.entries(unlocked))
+			const missing = pickCredentials(
+				Object.fromEntries(Object.entries(legacy).filter(([key]) => stored.get(key) === '')),
+			)
+			try {
+				if (Object.keys(missing).length > 0) {
+					await credentialVaultService.updateCredentials(missing)
+				}
+				await Promise.all(CREDENTIAL_KEYS.map((key) => indexedDBService.deleteSetting(key)))
+			} catch (error) {
+				console.error('Failed to move credentials into the vault:', error)
+			}
 		}
 
-		// Only configure S3 if it's available and credentials are provided
-		if (s3Service.isS3Available() && settingsToUse.awsAccessKeyId && settingsToUse.awsSecretAccessKey) {
-			s3Service
-				.configure(
-					settingsToUse.awsAccessKeyId,
-					settingsToUse.awsSecretAccessKey,
-					settingsToUse.awsRegion,
-					settingsToUse.awsBucketName,
-				)
-				.catch((error) => {
-					console.warn('Failed to configure S3 service:', error)
-				})
+		const applyVaultStatus = (status: VaultStatus) => {
+			setVaultStatus(status)
+			const unlocked = credentialVaultService.getCredentials()
+			if (unlocked !== null && Object.keys(legacyCredentials.current).length > 0) {
+				void migrateLegacyCredentials(unlocked)
+			}
+			setCredentials(
+				unlocked ??
+					(status === 'none' ? { ...EMPTY_CREDENTIALS, ...legacyCredentials.current } : EMPTY_CREDENTIALS),
+			)
 		}
-	}
+
+		// Any activity keeps the vault unlocked
+		const handleActivity = () => credentialVaultService.touch()
+
+		const removeStatusListener = credentialVaultService.addStatusListener(applyVaultStatus)
+		void credentialVaultService.init().then(applyVaultStatus)
+		window.addEventListener('pointerdown', handleActivity)
+		window.addEventListener('keydown', handleActivity)
+		return () => {
+			removeStatusListener()
+			window.removeEventListener('pointerdown', handleActivity)
+			window.removeEventListener('keydown', handleActivity)
+		}
+	}, [])
+
+	useEffect(() => {
+		credentialVaultService.setIdleTimeout(settings.vaultIdleMinutes)
+	}, [settings.vaultIdleMinutes])
+
+	// Configure services with settings and credentials
+	const { awsRegion, awsBucketName } = settings
+	useEffect(() => {
+		configureServices({ awsRegion, awsBucketName }, credentials)
+	}, [credentials, awsRegion, awsBucketName])
+
+	const {
+		llmProvider,
+		openRouterModel,
+		anthropicModel,
+		openAICompatibleBaseUrl,
+		openAICompatibleModel,
+		openAICompatibleContextWindow,
+	} = settings
+	const llm = useMemo(
+		() =>
+			getLLMSettings(
+				{
+					llmProvider,
+					openRouterModel,
+					anthropicModel,
+					openAICompatibleBaseUrl,
+					openAICompatibleModel,
+					openAICompatibleContextWindow,
+				},
+				credentials,
+			),
+		[
+			credentials,
+			llmProvider,
+			openRouterModel,
+			anthropicModel,
+			openAICompatibleBaseUrl,
+			openAICompatibleModel,
+			openAICompatibleContextWindow,
+		],
+	)
+
+	// An empty key leaves a hosted provider unconfigured, e.g. after locking the vault
+	useEffect(() => {
+		llm.providers.forEach((config, id) => chatService.configureProvider(id, config))
+		chatService.setDefaultModel(llm.defaultModel)
+	}, [llm])
 
 	// Update settings
 	const updateSettings = (newSettings: Partial<Settings>) => {
@@ -235,33 +429,6 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 				localStorage.setItem('app_settings', JSON.stringify(updatedSettings))
 			})
 
-			// Configure services with new settings
-			if (newSettings.openRouterApiKey || newSettings.openRouterModel) {
-				chatService.configure(updatedSettings.openRouterApiKey, updatedSettings.openRouterModel)
-			}
-
-			// Only configure S3 if it's available and credentials are provided
-			if (
-				s3Service.isS3Available() &&
-				(newSettings.awsAccessKeyId ||
-					newSettings.awsSecretAccessKey ||
-					newSettings.awsRegion ||
-					newSettings.awsBucketName)
-			) {
-				if (updatedSettings.awsAccessKeyId && updatedSettings.awsSecretAccessKey) {
-					s3Service
-						.configure(
-							updatedSettings.awsAccessKeyId,
-							updatedSettings.awsSecretAccessKey,
-							updatedSettings.awsRegion,
-							updatedSettings.awsBucketName,
-						)
-						.catch((error) => {
-							console.warn('Failed to configure S3 service:', error)
-						})
-				}
-			}
-
 			// Update active color scheme if changed
 			if (
 				newSettings.activeColorSchemeId &&
@@ -286,6 +453,21 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 		})
 	}
 
+	// Update credentials in the unlocked vault
+	const updateCredentials = async (changes: Partial<Credentials>): Promise<void> => {
+		await credentialVaultService.updateCredentials(changes)
+	}
+
+	// Store credentials found in imported settings
+	const adoptCredentials = async (found: Partial<Credentials>): Promise<void> => {
+		if (Object.keys(found).length === 0) return
+		if (credentialVaultService.getStatus() === 'unlocked') {
+			await credentialVaultService.updateCredentials(found)
+		} else {
+			takeLegacyCredentials(found)
+		}
+	}
+
 	// Get node color based on type and active color scheme
 	const getNodeColor = (type: NodeType, customColor?: string): string => {
 		// If a custom color is provided for this specific node, use it
@@ -328,18 +510,23 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 			return '#fff8e1' // Light yellow
 		case NodeType.RESOURCE:
 			return '#f3e5f5' // Light purple
+		case NodeType.GROUP:
+			return '#eceff1' // Blue grey
 		default:
 			return '#f5f5f5' // Light grey
 		}
 	}
 
-	// Export settings to JSON
-	const exportSettings = async (): Promise<string> => {
+	// Export settings to JSON; credentials are left out unless asked for
+	const exportSettings = async (options: ExportSettingsOptions = {}): Promise<string> => {
 		try {
 			const exportData = {
 				settings,
 				colorSchemes,
 				nodePreferences,
+				...(options.includeCredentials === true
+					? { credentials: await credentialVaultService.exportCredentials() }
+					: {}),
 				metadata: {
 					exportDate: new Date().toISOString(),
 					version: '1.0.0',
@@ -362,12 +549,14 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 			if (!isImportedSettingsData(importData)) {
 				// Try to handle legacy format
 				try {
-					const legacySettings = JSON.parse(jsonData) as Settings
+					const parsedSettings = JSON.parse(jsonData) as Record<string, unknown>
+					const legacySettings = withoutCredentials(parsedSettings) as Partial<Settings>
 					setSettings((prevSettings) => ({
 						...prevSettings,
 						...legacySettings,
 					}))
 					await indexedDBService.saveSettings((legacySettings as unknown) as Record<string, unknown>)
+					await adoptCredentials(pickCredentials(parsedSettings))
 					return true
 				} catch (_) {
 					throw new Error('Invalid settings data')
@@ -379,12 +568,22 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 				console.log('Importing settings from:', importData.metadata)
 			}
 
-			// Import settings
+			// Import settings, credentials go into the vault
+			const importedSettings = withoutCredentials(importData.settings)
 			setSettings((prevSettings) => ({
 				...prevSettings,
-				...importData.settings,
+				...importedSettings,
 			}))
-			await indexedDBService.saveSettings(importData.settings as unknown as Record<string, unknown>)
+			await indexedDBService.saveSettings(importedSettings as unknown as Record<string, unknown>)
+			await adoptCredentials(pickCredentials(importData.settings as unknown as Record<string, unknown>))
+
+			// Sealed credentials can only be opened with the same vault passphrase
+			if (typeof importData.credentials === 'string' && credentialVaultService.getStatus() === 'unlocked') {
+				const imported = await credentialVaultService.importCredentials(importData.credentials)
+				if (!imported) {
+					console.warn('Imported credentials were sealed with another passphrase and were skipped')
+				}
+			}
 
 			// Import color schemes if available
 			if (importData.colorSchemes && Array.isArray(importData.colorSchemes)) {
@@ -413,9 +612,6 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 				} // Added missing closing brace
 			}
 
-			// Configure services with imported settings
-			configureServices(importData.settings)
-
 			return true // Added return true for try block
 		} catch (error) { // Added missing catch block
 			console.error('Failed to import settings:', error)
@@ -504,10 +700,14 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 				settings,
 				updateSettings,
 				resetSettings,
+				credentials,
+				vaultStatus,
+				updateCredentials,
 				colorSchemes,
 				activeColorScheme,
 				nodePreferences,
 				getNodeColor,
+				llm,
 				exportSettings,
 				importSettings,
 				updateColorScheme,
@@ -1,13 +1,14 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { v4 as uuidv4 } from 'uuid'
 
-import { sendMessage } from '@/lib/openRouterService'
+import { streamMessage } from '@/lib/openRouterService'
 import type { ChatMessage } from '@/types'
 
 export const useChat = () => {
 	const [messages, setMessages] = useState<ChatMessage[]>([])
 	const [isLoading, setIsLoading] = useState<boolean>(false)
 	const [error, setError] = useState<string | null>(null)
+	const abortControllerRef = useRef<AbortController | null>(null)
 
 	// Add a user message
 	const addUserMessage = useCallback(
@@ -27,22 +28,46 @@ export const useChat = () => {
 			setIsLoading(true)
 			setError(null)
 
+			// Placeholder the streamed text is written into
+			const replyId = uuidv4()
+			setMessages((prev) => [
+				...prev,
+				{ id: replyId, role: 'assistant', content: '', timestamp: new Date().toISOString(), status: 'streaming' },
+			])
+			const replaceReply = (reply: ChatMessage) =>
+				setMessages((prev) => prev.map((message) => (message.id === replyId ? reply : message)))
+
+			const controller = new AbortController()
+			abortControllerRef.current = controller
+
 			try {
-				// Send message to OpenRouter API
-				const assistantMessage = await sendMessage([...messages, userMessage])
+				// Stream the reply from OpenRouter API
+				const assistantMessage = await streamMessage([...messages, userMessage], {
+					signal: controller.signal,
+					onToken: (_delta, content) =>
+						setMessages((prev) =>
+							prev.map((message) => (message.id === replyId ? { ...message, content } : message)),
+						),
+				})
 
-				// Add assistant message to chat
-				setMessages((prev) => [...prev, assistantMessage])
+				replaceReply({ ...assistantMessage, id: replyId })
 			} catch (err) {
 				console.error('Error in chat:', err)
+				setMessages((prev) => prev.filter((message) => message.id !== replyId))
 				setError('Failed to get response from assistant')
 			} finally {
+				abortControllerRef.current = null
 				setIsLoading(false)
 			}
 		},
 		[messages],
 	)
 
+	// Stop the reply being streamed, keeping the text received so far
+	const stop = useCallback(() => {
+		abortControllerRef.current?.abort()
+	}, [])
+
 	// Clear chat history
 	const clearChat = useCallback(() => {
 		setMessages([])
@@ -54,6 +79,7 @@ export const useChat = () => {
 		isLoading,
 		error,
 		addUserMessage,
+		stop,
 		clearChat,
 	}
 }
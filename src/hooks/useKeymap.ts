@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+import { keymapActions } from '../config/keymapConfig'
+import { useI18n } from '../contexts/I18nContext'
+import keymapService, { type KeymapHandlers } from '../services/KeymapService'
+import type { Keymap, KeymapActionId, KeymapCategory } from '../types/keymap'
+import { formatBinding } from '../utils/keymap'
+
+export interface KeymapSection {
+	category: KeymapCategory
+	title: string
+	items: Array<{ id: KeymapActionId; label: string; bindings: string[]; fixed: boolean }>
+}
+
+const CATEGORY_ORDER: KeymapCategory[] = ['navigation', 'view', 'editing', 'history', 'general']
+
+/**
+ * The keymap in effect, updated when the user rebinds keys
+ * @returns Bindings per action
+ */
+export function useKeymap(): Keymap {
+	const [keymap, setKeymap] = useState(() => keymapService.getKeymap())
+	useEffect(() => keymapService.addListener(setKeymap), [])
+	return keymap
+}
+
+/**
+ * The actions grouped by category with their labels and formatted bindings,
+ * for lists of the shortcuts
+ * @returns One section per category
+ */
+export function useKeymapSections(): KeymapSection[] {
+	const keymap = useKeymap()
+	const { t } = useI18n()
+
+	return useMemo(
+		() =>
+			CATEGORY_ORDER.map((category) => ({
+				category,
+				title: t(`shortcuts.category.${category}`),
+				items: keymapActions
+					.filter((action) => action.category === category)
+					.map((action) => ({
+						id: action.id,
+						label: t(action.labelKey),
+						bindings: keymap[action.id].map(formatBinding),
+						fixed: action.fixed === true,
+					})),
+			})),
+		[keymap, t],
+	)
+}
+
+/**
+ * Run the given handlers when their keys are pressed while the component is
+ * mounted. The latest handlers are used without registering them again.
+ * @param handlers Handler per action
+ * @param enabled Whether the handlers are active
+ */
+export function useKeymapHandlers(handlers: KeymapHandlers, enabled: boolean = true): void {
+	const handlersRef = useRef(handlers)
+	useEffect(() => {
+		handlersRef.current = handlers
+	})
+
+	const registered = Object.entries(handlers)
+		.filter(([, handler]) => handler !== undefined)
+		.map(([actionId]) => actionId)
+		.sort()
+		.join(',')
+
+	useEffect(() => {
+		if (!enabled || registered === '') return undefined
+
+		const actionIds = registered.split(',') as KeymapActionId[]
+		return keymapService.registerHandlers(
+			Object.fromEntries(
+				actionIds.map((actionId) => [actionId, () => new Map(Object.entries(handlersRef.current)).get(actionId)?.()]),
+			) as KeymapHandlers,
+		)
+	}, [enabled, registered])
+}
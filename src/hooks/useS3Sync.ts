@@ -1,6 +1,10 @@
 import { useState, useCallback, useEffect } from 'react'
 import { z } from 'zod'
 
+import projectService from '../services/ProjectService'
+import { storageSyncService } from '../services/StorageSyncService'
+import { getSyncBackend } from '../services/sync'
+import type { Edge, Node } from '../types'
 import type { SyncSettings } from '../types/project'
 
 interface S3SyncPayload {
@@ -42,11 +46,12 @@ export const useS3Sync = ({ projectId, syncSettings, data }: UseS3SyncProps) =>
 			return
 		}
 
-		const { enableS3Sync, s3Path } = syncSettings
-		const isEnabled = enableS3Sync === true
-		const hasPath = typeof s3Path === 'string' && s3Path.length > 0
+		if (syncSettings.enableS3Sync !== true) {
+			return
+		}
 
-		if (!isEnabled || !hasPath) {
+		const backend = getSyncBackend(syncSettings.backend)
+		if (!(await backend.isReady(projectId, syncSettings))) {
 			return
 		}
 
@@ -58,27 +63,27 @@ export const useS3Sync = ({ projectId, syncSettings, data }: UseS3SyncProps) =>
 		setSyncStatus('syncing')
 
 		try {
-			const response = await fetch('/api/s3/sync', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
-					projectId,
-					s3Path,
-					data,
-				}),
-			})
+			const project = await projectService.getProject(projectId)
+			if (project === null) {
+				throw new Error(`Project ${projectId} not found`)
+			}
 
-			if (!response.ok) {
-				throw new Error(`Sync failed: ${response.statusText}`)
+			// Sync what is on screen, which may be ahead of the stored project
+			const synced = await storageSyncService.syncProject({
+				...project,
+				nodes: data.nodes as Node[],
+				edges: data.edges as Edge[],
+				syncSettings,
+			})
+			if (!synced) {
+				throw new Error(`Sync with ${backend.id} failed`)
 			}
 
 			setLastSyncTime(new Date().toISOString())
 			setSyncStatus('success')
 			setRetryCount(0)
 		} catch (error) {
-			console.error('S3 sync error:', error)
+			console.error('Sync error:', error)
 			setSyncStatus('error')
 
 			if (typeof retryCount === 'number' && retryCount >= 0 && retryCount < MAX_RETRIES) {
@@ -1,26 +1,101 @@
-import { useMemo } from 'react'
+import { useEffect, useMemo, useState, type RefObject } from 'react'
+import type { Viewport } from 'reactflow'
 
-import type { Node } from '../types'
+import {
+	LOD_ZOOM,
+	VIEWPORT_MARGIN,
+	VIRTUALIZATION_THRESHOLD,
+	selectVisibleElements,
+	syncSpatialIndex,
+	toLevelOfDetail,
+	viewportToRect,
+} from '../utils/canvasVirtualization'
+import type { GroupableNode } from '../utils/groups'
+import { SpatialIndex, expandRect, type Rect } from '../utils/spatialIndex'
 
 interface VirtualizationOptions {
-	itemHeight: number
-	overscan?: number
-	visibleItems?: number
+	viewport: Viewport
+	// Element the canvas fills, to know how much of it is shown
+	containerRef: RefObject<HTMLElement>
+	enabled?: boolean
+	// Screen pixels rendered around the viewport
+	margin?: number
+	// Zoom below which nodes are drawn as simplified shapes
+	lodZoom?: number
+	// Node count from which nodes outside the viewport are left out
+	threshold?: number
 }
 
-export function useVirtualization<T extends Node>(items: T[], options: VirtualizationOptions): T[] {
-	const { itemHeight, overscan = 5, visibleItems = Math.ceil(window.innerHeight / itemHeight) } = options
+interface VirtualizationResult<N, E> {
+	nodes: N[]
+	edges: E[]
+	// Whether nodes outside the viewport are left out
+	virtualized: boolean
+	// Bounds of all nodes, for fitting the view to nodes that aren't rendered
+	bounds: Rect | null
+}
+
+type VirtualNode = GroupableNode & { selected?: boolean }
+
+const useContainerSize = (containerRef: RefObject<HTMLElement>) => {
+	const [size, setSize] = useState({ width: window.innerWidth, height: window.innerHeight })
+
+	useEffect(() => {
+		const element = containerRef.current
+		if (!element || typeof ResizeObserver === 'undefined') return undefined
+		const observer = new ResizeObserver(([entry]) => {
+			if (entry !== undefined) setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+		})
+		observer.observe(element)
+		return () => observer.disconnect()
+	}, [containerRef])
+
+	return size
+}
+
+/**
+ * Renders only the nodes and edges in the viewport plus a margin, found
+ * through a spatial index over the node bounds that follows drags, and draws
+ * nodes as simplified shapes when zoomed out
+ * @param nodes All nodes of the canvas, in render order
+ * @param edges All edges of the canvas
+ * @param options Viewport, canvas element and tuning
+ * @returns The nodes and edges to pass to React Flow
+ */
+export function useVirtualization<N extends VirtualNode, E extends { source: string; target: string }>(
+	nodes: N[],
+	edges: E[],
+	options: VirtualizationOptions,
+): VirtualizationResult<N, E> {
+	const {
+		viewport,
+		containerRef,
+		enabled = true,
+		margin = VIEWPORT_MARGIN,
+		lodZoom = LOD_ZOOM,
+		threshold = VIRTUALIZATION_THRESHOLD,
+	} = options
+	const [index] = useState(() => new SpatialIndex())
+	const { width, height } = useContainerSize(containerRef)
+
+	// Moving the index along is idempotent, so it can run while rendering
+	const bounds = useMemo(() => {
+		syncSpatialIndex(index, nodes)
+		return index.getBounds()
+	}, [index, nodes])
+
+	const virtualized = enabled && nodes.length >= threshold
+	const lod = virtualized && viewport.zoom < lodZoom
 
-	return useMemo(() => {
-		if (!items.length) return items
+	const visible = useMemo(() => {
+		if (!virtualized) return { nodes, edges }
+		const area = expandRect(viewportToRect(viewport, width, height), margin / viewport.zoom)
+		return selectVisibleElements(index, nodes, edges, area)
+	}, [virtualized, index, nodes, edges, viewport, width, height, margin])
 
-		// Calculate visible range with overscan
-		const startIndex = Math.max(0, 0 - overscan)
-		const endIndex = Math.min(items.length, visibleItems + overscan)
+	const visibleNodes = useMemo(() => (lod ? visible.nodes.map(toLevelOfDetail) : visible.nodes), [lod, visible])
 
-		// Return only the items in the visible range
-		return items.slice(startIndex, endIndex)
-	}, [items, overscan, visibleItems, itemHeight])
+	return { nodes: visibleNodes, edges: visible.edges, virtualized, bounds }
 }
 
 export default useVirtualization
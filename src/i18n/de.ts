@@ -77,6 +77,158 @@ export const translations = {
 		version: 'Version',
 		history: 'Verlauf',
 	},
+	collections: {
+		tags: 'Tags',
+		categories: 'Kategorien',
+		pinned: 'Angeheftete Projekte',
+		recent: 'Zuletzt geöffnet',
+		noTags: 'Noch kein Projekt hat Tags. Wählen Sie Projekte in einer Projektliste aus, um sie zu taggen.',
+		noCategories:
+			'Noch kein Projekt hat eine Kategorie. Wählen Sie Projekte in einer Projektliste aus, um eine festzulegen.',
+		selectTag: 'Wählen Sie einen Tag, um seine Projekte zu sehen',
+		selectCategory: 'Wählen Sie eine Kategorie, um ihre Projekte zu sehen',
+		noMatchingProjects: 'Hier gibt es noch keine Projekte',
+		projectCount: '{{count}} Projekte',
+		expand: '{{name}} aufklappen',
+		collapse: '{{name}} zuklappen',
+		selectProject: '{{name}} auswählen',
+		selected: '{{count}} ausgewählt',
+		tagSelected: 'Taggen',
+		clearSelection: 'Auswahl aufheben',
+		tagDialogTitle: '{{count}} Projekte taggen',
+		addTags: 'Tags hinzufügen',
+		removeTags: 'Tags entfernen',
+		category: 'Kategorie',
+		categoryHelp:
+			"Ebenen mit '/' trennen, z. B. Kunden/Acme. Leer lassen, um die aktuellen Kategorien zu behalten.",
+		removeCategory: 'Kategorie entfernen',
+		apply: 'Anwenden',
+		tagError: 'Projekte konnten nicht getaggt werden',
+	},
+	shortcuts: {
+		title: 'Tastenkürzel',
+		description:
+			'Wählen Sie eine Vorlage und ändern Sie die Tasten einzelner Aktionen. Eine Folge wie G dann P wird Taste für Taste getippt.',
+		tip: 'Drücken Sie jederzeit Umschalt + ?, um diese Übersicht anzuzeigen',
+		unbound: 'Nicht belegt',
+		action: 'Aktion',
+		shortcut: 'Tastenkürzel',
+		customize: 'Anpassen',
+		goToProjects: 'Zu den Projekten',
+		goToSettings: 'Zu den Einstellungen',
+		goToHome: 'Zur Startseite',
+		zoomIn: 'Vergrößern',
+		zoomOut: 'Verkleinern',
+		fitView: 'Ansicht anpassen',
+		toggleGrid: 'Raster umschalten',
+		toggleFullscreen: 'Vollbild umschalten',
+		toggleChat: 'Chat umschalten',
+		addNode: 'Knoten hinzufügen',
+		delete: 'Auswahl löschen',
+		group: 'Auswahl gruppieren',
+		ungroup: 'Gruppierung aufheben',
+		autoLayout: 'Automatisches Layout',
+		undo: 'Rückgängig',
+		redo: 'Wiederholen',
+		save: 'Speichern',
+		showShortcuts: 'Tastenkürzel anzeigen',
+		help: 'Hilfe',
+		copy: 'Kopieren',
+		paste: 'Einfügen',
+		cut: 'Ausschneiden',
+		escape: 'Aktuelle Aktion abbrechen',
+		selectAll: 'Alles auswählen',
+		preset: 'Vorlage',
+		addBinding: 'Tastenkürzel hinzufügen',
+		reset: 'Auf Vorlage zurücksetzen',
+		resetAll: 'Alle zurücksetzen',
+		export: 'Tastenbelegung exportieren',
+		import: 'Tastenbelegung importieren',
+		importSuccess: 'Tastenbelegung importiert',
+		importError: 'Tastenbelegung konnte nicht importiert werden: {{message}}',
+		recordTitle: 'Tastenkürzel für {{action}}',
+		recordPlaceholder: 'Tasten drücken',
+		recordHelp: 'Drücken Sie eine Taste oder bis zu {{count}} Tasten nacheinander für eine Folge',
+		conflict: 'Wird auch von {{actions}} verwendet. Beim Speichern wird es dort entfernt.',
+		reserved: 'Wird von {{actions}} verwendet und kann keiner anderen Aktion zugewiesen werden.',
+		clear: 'Leeren',
+		category: {
+			navigation: 'Navigation',
+			view: 'Ansicht',
+			editing: 'Bearbeiten',
+			history: 'Verlauf',
+			general: 'Allgemein',
+		},
+		presets: {
+			default: 'Standard',
+			vim: 'Wie Vim',
+			miro: 'Wie Miro',
+		},
+	},
+	canvasBenchmark: {
+		title: 'Canvas-Benchmark',
+		description:
+			'Verschiebt eine erzeugte Map einmal mit allen Knoten und einmal mit Viewport-Virtualisierung, in voller Größe und herausgezoomt, und vergleicht die Framezeiten.',
+		open: 'Canvas-Benchmark öffnen',
+		nodeCount: 'Knoten',
+		run: 'Benchmark starten',
+		running: 'Läuft: {{mode}}',
+		mode: 'Darstellung',
+		phase: 'Durchlauf',
+		renderedNodes: 'Gerenderte Knoten',
+		averageFrame: 'Durchschnittlicher Frame',
+		p95Frame: '95. Perzentil',
+		fps: 'FPS',
+		allNodes: 'Alle Knoten',
+		virtualized: 'Viewport-Virtualisierung',
+		pan: 'Verschieben bei 100 %',
+		zoomedOut: 'Verschieben herausgezoomt',
+		summary: 'Frames waren mit Virtualisierung bei einer Map mit {{count}} Knoten {{factor}}× schneller',
+		queries:
+			'{{count}} Viewport-Abfragen: {{linearScan}} ms beim Prüfen jedes Knotens, {{spatialIndex}} ms über den räumlichen Index',
+	},
+	snippets: {
+		title: 'Snippet-Bibliothek',
+		assetsTitle: 'Asset-Bibliothek',
+		description:
+			'Knoten und kleine Teilgraphen zur Wiederverwendung, mit Tags, Farben und Verbindungen. Öffne das Snippet-Panel auf einer Canvas und ziehe ein Snippet darauf, um es zu platzieren.',
+		all: 'Alle',
+		nodes: 'Einzelne Knoten',
+		subgraphs: 'Teilgraphen',
+		search: 'Snippets durchsuchen',
+		empty: 'Noch keine Snippets. Wähle Knoten auf einer Canvas aus und speichere sie im Snippet-Panel.',
+		noMatches: 'Keine Snippets passen zur Suche.',
+		nodeCount: '{{count}} Knoten',
+		edgeCount: '{{count}} Verbindungen',
+		version: 'v{{version}}',
+		deleteTitle: 'Snippet löschen',
+		deleteConfirm: '„{{name}}“ löschen? Daraus platzierte Knoten bleiben auf ihren Canvases.',
+		saveSelection: 'Auswahl als Snippet speichern',
+		saveTitle: 'In der Snippet-Bibliothek speichern',
+		editTitle: 'Snippet bearbeiten',
+		name: 'Name',
+		descriptionLabel: 'Beschreibung',
+		tags: 'Tags',
+		nodeList: 'Knoten',
+		nodeTitle: 'Titel',
+		nodeContent: 'Inhalt',
+		nodeColor: 'Farbe',
+		updateInstances: 'Aus früheren Versionen platzierte Knoten aktualisieren',
+		updateInstancesHelp:
+			'Titel, Inhalt, Tags und Farbe platzierter Knoten werden in allen Projekten ersetzt; ihre Positionen bleiben erhalten.',
+		history: 'Frühere Versionen',
+		restore: 'Wiederherstellen',
+		revision: 'Version {{version}}, {{date}}',
+		saved: 'Snippet „{{name}}“ gespeichert',
+		instancesUpdated: 'Snippet gespeichert, {{count}} platzierte Knoten aktualisiert',
+		loadError: 'Die Snippets konnten nicht geladen werden',
+		saveError: 'Das Snippet konnte nicht gespeichert werden',
+		panelTitle: 'Snippets',
+		openPanel: 'Snippet-Bibliothek',
+		dragHint: 'Ziehe ein Snippet auf die Canvas, um es zu platzieren',
+		manage: 'Bibliothek verwalten',
+		placeError: 'Das Snippet konnte nicht platziert werden',
+	},
 	brainstorm: {
 		title: 'Brainstorming',
 		overview: 'Übersicht',
@@ -152,6 +304,61 @@ export const translations = {
 	},
 	gitHistory: {
 		title: 'Verlauf',
+		currentVersion: 'Aktuelle Version',
+		commit: 'Commit',
+		createCommit: 'Commit erstellen',
+		commitMessage: 'Commit-Nachricht',
+		commitMessageRequired: 'Bitte eine Commit-Nachricht eingeben',
+		commitSuccessful: 'Commit erstellt',
+		errorCreatingCommit: 'Commit konnte nicht erstellt werden',
+		errorLoadingCommits: 'Verlauf konnte nicht geladen werden',
+		noCommits: 'Noch keine Commits',
+		createFirstCommit: 'Erstelle einen Commit, um eine Version dieses Projekts zu speichern',
+		checkout: 'Auschecken',
+		checkoutSuccessful: 'Version ausgecheckt',
+		errorCheckingOut: 'Diese Version konnte nicht ausgecheckt werden',
+		branch: 'Branch',
+		allBranches: 'Alle Branches',
+		detachedHead: 'Losgelöst',
+		newBranch: 'Neuer Branch',
+		branchName: 'Branch-Name',
+		branchCreated: 'Branch {{name}} erstellt',
+		createTag: 'Tag erstellen',
+		tagName: 'Tag-Name',
+		tagCreated: 'Tag {{name}} erstellt',
+		errorCreatingRef: 'Branch oder Tag konnte nicht erstellt werden',
+		revert: 'Rückgängig machen',
+		revertSuccessful: '"{{message}}" rückgängig gemacht',
+		errorReverting: 'Dieser Commit konnte nicht rückgängig gemacht werden',
+		commitDetails: 'Commit-Details',
+		author: 'Autor',
+		date: 'Datum',
+		commitHash: 'Commit-Hash',
+		parents: 'Eltern',
+		compareWith: 'Mit anderem Commit vergleichen',
+		compareCommits: 'Commits vergleichen',
+		added: 'Hinzugefügt',
+		removed: 'Entfernt',
+		modified: 'Geändert',
+		noChanges: 'Keine Änderungen',
+		selectCommit: 'Commit auswählen, um Details anzuzeigen',
+	},
+	gitDiff: {
+		changes: 'Änderungen',
+		canvas: 'Canvas',
+		nodes: 'Knoten',
+		edges: 'Verbindungen',
+		review: 'Änderungen prüfen',
+		reviewTitle: 'Änderungen gegenüber dem aktuellen Projekt',
+		alsoMoved: 'auch verschoben',
+		valueChange: '{{before}} → {{after}}',
+		status: {
+			added: 'Hinzugefügt',
+			removed: 'Entfernt',
+			edited: 'Bearbeitet',
+			moved: 'Verschoben',
+			unchanged: 'Unverändert',
+		},
 	},
 	chat: {
 		title: 'Chat',
@@ -161,6 +368,39 @@ export const translations = {
 		chatAssistant: 'Chat-Assistent',
 		brainstormingAssistant: 'Brainstorming-Assistent',
 		poweredBy: 'Unterstützt von OpenRouter AI',
+		poweredByProvider: 'Unterstützt von {{provider}}',
+		stop: 'Stoppen',
+		stopped: 'Gestoppt',
+		interrupted: 'Verbindung verloren, die Antwort ist unvollständig',
+		resume: 'Fortsetzen',
+		tokenUsage: '{{count}} Tokens',
+		showNode: 'Auf der Leinwand zeigen',
+		threads: 'Unterhaltungen',
+		newThread: 'Neue Unterhaltung',
+		attachToNode: 'An Knoten anhängen',
+		noNode: 'Kein Knoten',
+		searchThreads: 'Unterhaltungen durchsuchen',
+		noThreadMatches: 'Keine Unterhaltungen gefunden',
+		apiKeyMissing: 'Hinterlege in den Einstellungen einen {{provider}}-API-Schlüssel, um den Assistenten zu nutzen',
+		vaultLocked: 'Entsperre den Zugangsdaten-Tresor in den Einstellungen, um den Assistenten zu nutzen',
+		suggestedConnections: 'Vorgeschlagene Verbindungen',
+	},
+	syncConflict: {
+		title: 'Synchronisierungskonflikte lösen',
+		description:
+			'"{{project}}" wurde lokal und entfernt geändert. {{count}} Änderung(en) konnten nicht automatisch zusammengeführt werden. Wählen Sie jeweils die Version, die erhalten bleiben soll.',
+		keepAllLocal: 'Alle lokalen behalten',
+		keepAllRemote: 'Alle entfernten behalten',
+		local: 'Lokal',
+		remote: 'Entfernt',
+		project: 'Projekt',
+		node: 'Knoten',
+		edge: 'Verbindung',
+		kept: 'behalten',
+		deleted: 'gelöscht',
+		deletedOnOneSide: 'auf einer Seite gelöscht, auf der anderen geändert',
+		later: 'Später entscheiden',
+		applyMerge: 'Zusammenführen',
 	},
 	s3: {
 		title: 'S3 Synchronisation',
@@ -189,6 +429,194 @@ export const translations = {
 		intervalMinutes: 'Intervall (Minuten)',
 		notConfigured: 'S3 ist nicht konfiguriert. Bitte überprüfen Sie Ihre Umgebungsvariablen.',
 		failedToSync: 'Fehler beim Synchronisieren des Projekts mit S3',
+		backend: 'Synchronisieren mit',
+		backendS3: 'Amazon S3',
+		backendWebdav: 'WebDAV (z. B. Nextcloud)',
+		backendLocalFolder: 'Lokaler Ordner',
+		webdavUrl: 'URL des WebDAV-Ordners',
+		webdavUsername: 'Benutzername',
+		webdavPasswordHint: 'Das Passwort liegt im Zugangsdaten-Tresor in den Einstellungen',
+		chooseFolder: 'Ordner wählen',
+		noFolder: 'Kein Ordner gewählt',
+		folderUnsupported: 'Dieser Browser kann nicht mit einem lokalen Ordner synchronisieren',
+		backendNotReady: 'Die Synchronisierung ist noch nicht eingerichtet. Prüfen Sie Server, Benutzer und Passwort oder wählen Sie einen Ordner.',
+	},
+	search: {
+		title: 'Alle Projekte durchsuchen',
+		placeholder: 'Knoten nach Titel, Inhalt, Tag oder Typ suchen…',
+		projects: 'Projekte',
+		types: 'Typen',
+		tags: 'Tags',
+		from: 'Geändert ab',
+		to: 'Geändert bis',
+		includeArchived: 'Archivierte einbeziehen ({{count}})',
+		clearFilters: 'Filter zurücksetzen',
+		resultCount: '{{count}} Treffer',
+		hint: '↑↓ zum Wechseln, Enter zum Öffnen',
+		noResults: 'Keine passenden Knoten',
+		untitled: 'Ohne Titel',
+		nodeTypes: {
+			idea: 'Idee',
+			task: 'Aufgabe',
+			note: 'Notiz',
+			resource: 'Ressource',
+			group: 'Gruppe',
+		},
+	},
+	clipboard: {
+		heading: 'Kopierte Knoten',
+	},
+	flow: {
+		nodeContextMenu: 'Knoten-Kontextmenü',
+		editNode: 'Knoten bearbeiten',
+		edit: 'Bearbeiten',
+		duplicateNode: 'Knoten duplizieren',
+		duplicate: 'Duplizieren',
+		styleNode: 'Knoten gestalten',
+		style: 'Stil',
+		addChildNode: 'Unterknoten hinzufügen',
+		addChild: 'Unterknoten',
+		linkToChat: 'Mit Chat verknüpfen',
+		deleteNode: 'Knoten löschen',
+		delete: 'Löschen',
+	},
+	graphOperations: {
+		heading: 'KI-Aktionen',
+		expand: 'In Unterideen aufteilen',
+		summarize: 'In einer übergeordneten Notiz zusammenfassen',
+		cluster: 'Nach Thema gruppieren',
+		critique: 'Lücken und Widersprüche finden',
+		rewrite: 'Verständlicher formulieren',
+		running: 'Der Assistent arbeitet…',
+		noChanges: 'Der Assistent hat keine Änderungen vorgeschlagen.',
+		added: 'Neuer Knoten',
+		updated: 'Umformuliert',
+		grouped: 'Neue Gruppe',
+		before: 'Vorher',
+		after: 'Nachher',
+		connectsTo: 'Verbunden mit {{nodes}}',
+		members: 'Gruppiert {{nodes}}',
+		apply: '{{count}} Änderungen übernehmen',
+		rejectAll: 'Alle verwerfen',
+		retry: 'Erneut versuchen',
+		selectAll: 'Alle auswählen',
+	},
+	groups: {
+		defaultTitle: 'Gruppe',
+		group: 'Ausgewählte Knoten gruppieren',
+		ungroup: 'Gruppierung aufheben',
+		collapse: 'Gruppe einklappen',
+		expand: 'Gruppe ausklappen',
+		delete: 'Gruppe löschen',
+		memberCount: '{{count}} Knoten',
+	},
+	history: {
+		title: 'Verlauf',
+		initialState: 'Canvas geöffnet',
+		empty: 'Noch keine Änderungen',
+		actions: {
+			addNode: 'Knoten hinzufügen',
+			removeNode: 'Knoten löschen',
+			editNode: 'Knoten bearbeiten',
+			archiveNode: 'Knoten archivieren',
+			moveNodes: 'Knoten verschieben',
+			addTag: 'Tag hinzufügen',
+			removeTag: 'Tag entfernen',
+			addEdge: 'Knoten verbinden',
+			removeEdge: 'Verbindung löschen',
+			autoLayout: 'Automatisches Layout',
+			insertNodes: 'Generierte Knoten einfügen',
+			groupNodes: 'Knoten gruppieren',
+			ungroupNodes: 'Gruppierung aufheben',
+			collapseGroup: 'Gruppe ein- oder ausklappen',
+			resizeGroup: 'Gruppengröße ändern',
+			pasteNodes: 'Knoten einfügen',
+			cutNodes: 'Knoten ausschneiden',
+			applyGraphDiff: 'KI-Änderungen übernehmen',
+		},
+	},
+	autoLayout: {
+		title: 'Automatisches Layout',
+		layeredTopDown: 'Ebenen (von oben nach unten)',
+		layeredLeftRight: 'Ebenen (von links nach rechts)',
+		radial: 'Radial um den ausgewählten Knoten',
+		force: 'Kräftebasiert',
+		grid: 'Kompaktes Raster',
+		selectionHint: 'Gilt für die ausgewählten Knoten, wenn zwei oder mehr ausgewählt sind, sonst für die ganze Arbeitsfläche.',
+		applied: 'Layout angewendet',
+		undo: 'Layout rückgängig machen',
+	},
+	diagram: {
+		title: 'Diagramm',
+		description: 'Exportieren Sie die Mindmap als Mermaid-Flussdiagramm oder Graphviz-DOT-Graph. Knotentypen werden zu Formen und Kantentypen zu Linienstilen.',
+		exportMermaid: 'Mermaid exportieren',
+		copyMermaid: 'Mermaid kopieren',
+		exportDot: 'DOT exportieren',
+		copied: 'Mermaid-Diagramm in die Zwischenablage kopiert',
+		exportFailed: 'Diagramm konnte nicht exportiert werden',
+		importDiagram: 'Diagramm importieren',
+		importFailed: 'Diagramm konnte nicht importiert werden: kein Mermaid-Flussdiagramm oder DOT-Graph',
+	},
+	outline: {
+		title: 'Gliederung',
+		description: 'Exportiere die Mindmap als verschachtelte Markdown-Liste oder OPML oder importiere eine Gliederung als neue Knoten.',
+		exportMarkdown: 'Markdown exportieren',
+		exportOpml: 'OPML exportieren',
+		import: 'Gliederung importieren',
+		exportFailed: 'Gliederung konnte nicht exportiert werden',
+		importFailed: 'Gliederung konnte nicht importiert werden: keine Einträge gefunden',
+	},
+	llm: {
+		title: 'KI-Modell',
+		projectModel: 'Modell für dieses Projekt',
+		projectModelDescription:
+			'Wähle, welchen Anbieter und welches Modell der Assistent in diesem Projekt nutzt. Mit einem lokalen Server funktioniert das Brainstorming auch ohne Internetzugang.',
+		provider: 'Anbieter',
+		model: 'Modell',
+		useDefault: 'Standard aus den Einstellungen ({{provider}})',
+		defaultProvider: 'Standardanbieter',
+		defaultProviderHelp: 'Gilt für Projekte, die kein eigenes Modell wählen',
+		streaming: 'Streaming',
+		jsonMode: 'JSON-Modus',
+		contextWindow: '{{count}} Tokens Kontext',
+		worksOffline: 'Funktioniert offline',
+		saveModel: 'Modell speichern',
+		apiKey: '{{provider}}-API-Schlüssel',
+		apiKeyOptional: 'API-Schlüssel (optional)',
+		baseUrl: 'Basis-URL',
+		baseUrlHelp: 'OpenAI oder ein lokaler Server wie Ollama (http://localhost:11434/v1), llama.cpp oder LM Studio',
+		invalidBaseUrl: 'Gib eine gültige URL ein, z. B. http://localhost:11434/v1',
+		contextWindowTokens: 'Kontextfenster (Tokens)',
+		contextWindowHelp: '0, um es am Modellnamen zu erkennen',
+	},
+	vault: {
+		title: 'Zugangsdaten-Tresor',
+		description:
+			'API-Schlüssel und AWS-Geheimnisse werden mit deiner Passphrase verschlüsselt und bleiben auf diesem Gerät. Exporte enthalten sie nur, wenn du sie einschließt.',
+		status: {
+			none: 'Nicht eingerichtet',
+			locked: 'Gesperrt',
+			unlocked: 'Entsperrt',
+		},
+		plainCredentials: 'Deine gespeicherten Zugangsdaten liegen noch unverschlüsselt vor. Lege einen Tresor an, um sie dorthin zu verschieben.',
+		passphrase: 'Passphrase',
+		confirmPassphrase: 'Passphrase bestätigen',
+		currentPassphrase: 'Aktuelle Passphrase',
+		newPassphrase: 'Neue Passphrase',
+		create: 'Tresor anlegen',
+		unlock: 'Entsperren',
+		lock: 'Sperren',
+		changePassphrase: 'Passphrase ändern',
+		passphraseChanged: 'Passphrase geändert',
+		reset: 'Tresor zurücksetzen',
+		resetConfirm: 'Beim Zurücksetzen werden alle gespeicherten Zugangsdaten gelöscht. Nutze dies nur, wenn du die Passphrase vergessen hast.',
+		idleTimeout: 'Sperren nach Inaktivität',
+		minutes: '{{count}} Minuten',
+		never: 'Nie',
+		tooShort: 'Die Passphrase braucht mindestens {{count}} Zeichen',
+		mismatch: 'Die Passphrasen stimmen nicht überein',
+		wrongPassphrase: 'Falsche Passphrase',
+		error: 'Der Zugangsdaten-Tresor konnte nicht aktualisiert werden',
 	},
 	importExport: {
 		title: 'Import/Export',
@@ -206,6 +634,7 @@ export const translations = {
 			'Exportieren Sie alle Ihre Einstellungen, Farbschemata und Knotenpräferenzen in eine JSON-Datei. Sie können diese Datei verwenden, um Ihre Einstellungen zu sichern oder auf ein anderes Gerät zu übertragen.',
 		importSettingsDetail:
 			'Importieren Sie Einstellungen aus einer zuvor exportierten JSON-Datei. Dies ersetzt Ihre aktuellen Einstellungen, Farbschemata und Knotenpräferenzen.',
+		includeCredentials: 'API-Schlüssel und AWS-Geheimnisse einschließen, verschlüsselt mit der Tresor-Passphrase',
 		offline: 'Offline',
 		offlineTooltip: 'Sie sind derzeit offline. Einige Funktionen können eingeschränkt sein.',
 		warning: 'Warnung:',
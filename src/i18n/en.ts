@@ -75,6 +75,156 @@ export const translations = {
 		version: 'Version {{version}}',
 		history: 'History',
 	},
+	collections: {
+		tags: 'Tags',
+		categories: 'Categories',
+		pinned: 'Pinned Projects',
+		recent: 'Recently Opened',
+		noTags: 'No project has tags yet. Select projects in a project list to tag them.',
+		noCategories: 'No project has a category yet. Select projects in a project list to set one.',
+		selectTag: 'Select a tag to see its projects',
+		selectCategory: 'Select a category to see its projects',
+		noMatchingProjects: 'No projects here yet',
+		projectCount: '{{count}} projects',
+		expand: 'Expand {{name}}',
+		collapse: 'Collapse {{name}}',
+		selectProject: 'Select {{name}}',
+		selected: '{{count}} selected',
+		tagSelected: 'Tag',
+		clearSelection: 'Clear selection',
+		tagDialogTitle: 'Tag {{count}} projects',
+		addTags: 'Add tags',
+		removeTags: 'Remove tags',
+		category: 'Category',
+		categoryHelp: "Separate levels with '/', e.g. Clients/Acme. Leave empty to keep the current categories.",
+		removeCategory: 'Remove category',
+		apply: 'Apply',
+		tagError: 'Failed to tag projects',
+	},
+	shortcuts: {
+		title: 'Keyboard Shortcuts',
+		description:
+			'Choose a preset and change the keys of single actions. A chord like G then P is typed one key after the other.',
+		tip: 'Press Shift + ? to show this overlay at any time',
+		unbound: 'Not bound',
+		action: 'Action',
+		shortcut: 'Shortcut',
+		customize: 'Customize',
+		goToProjects: 'Go to projects',
+		goToSettings: 'Go to settings',
+		goToHome: 'Go to home',
+		zoomIn: 'Zoom in',
+		zoomOut: 'Zoom out',
+		fitView: 'Fit view',
+		toggleGrid: 'Toggle grid',
+		toggleFullscreen: 'Toggle fullscreen',
+		toggleChat: 'Toggle chat',
+		addNode: 'Add node',
+		delete: 'Delete selected',
+		group: 'Group selection',
+		ungroup: 'Ungroup',
+		autoLayout: 'Auto-layout',
+		undo: 'Undo',
+		redo: 'Redo',
+		save: 'Save',
+		showShortcuts: 'Show shortcuts',
+		help: 'Help',
+		copy: 'Copy',
+		paste: 'Paste',
+		cut: 'Cut',
+		escape: 'Cancel current action',
+		selectAll: 'Select all',
+		preset: 'Preset',
+		addBinding: 'Add shortcut',
+		reset: 'Reset to preset',
+		resetAll: 'Reset all',
+		export: 'Export keymap',
+		import: 'Import keymap',
+		importSuccess: 'Keymap imported',
+		importError: 'Failed to import keymap: {{message}}',
+		recordTitle: 'Shortcut for {{action}}',
+		recordPlaceholder: 'Press the keys',
+		recordHelp: 'Press a key, or up to {{count}} keys one after the other for a chord',
+		conflict: 'Also used by {{actions}}. Saving removes it there.',
+		reserved: 'Used by {{actions}} and cannot be bound to another action.',
+		clear: 'Clear',
+		category: {
+			navigation: 'Navigation',
+			view: 'View',
+			editing: 'Editing',
+			history: 'History',
+			general: 'General',
+		},
+		presets: {
+			default: 'Default',
+			vim: 'Vim-like',
+			miro: 'Miro-like',
+		},
+	},
+	canvasBenchmark: {
+		title: 'Canvas benchmark',
+		description:
+			'Pans a generated map with all nodes rendered and with viewport virtualization, once at full size and once zoomed out, and compares the frame times.',
+		open: 'Open canvas benchmark',
+		nodeCount: 'Nodes',
+		run: 'Run benchmark',
+		running: 'Running: {{mode}}',
+		mode: 'Rendering',
+		phase: 'Pass',
+		renderedNodes: 'Rendered nodes',
+		averageFrame: 'Average frame',
+		p95Frame: '95th percentile',
+		fps: 'FPS',
+		allNodes: 'All nodes',
+		virtualized: 'Viewport virtualization',
+		pan: 'Pan at 100 %',
+		zoomedOut: 'Pan zoomed out',
+		summary: 'Frames were {{factor}}× faster with virtualization on a map of {{count}} nodes',
+		queries:
+			'{{count}} viewport queries: {{linearScan}} ms checking every node, {{spatialIndex}} ms through the spatial index',
+	},
+	snippets: {
+		title: 'Snippet library',
+		assetsTitle: 'Asset library',
+		description:
+			'Nodes and small subgraphs saved for reuse, with their tags, colors and connections. Open the snippet panel on a canvas and drag one onto it to place it.',
+		all: 'All',
+		nodes: 'Single nodes',
+		subgraphs: 'Subgraphs',
+		search: 'Search snippets',
+		empty: 'No snippets yet. Select nodes on a canvas and save them from the snippet panel.',
+		noMatches: 'No snippets match the search.',
+		nodeCount: '{{count}} nodes',
+		edgeCount: '{{count}} connections',
+		version: 'v{{version}}',
+		deleteTitle: 'Delete snippet',
+		deleteConfirm: 'Delete "{{name}}"? Nodes placed from it stay on their canvases.',
+		saveSelection: 'Save selection as snippet',
+		saveTitle: 'Save to snippet library',
+		editTitle: 'Edit snippet',
+		name: 'Name',
+		descriptionLabel: 'Description',
+		tags: 'Tags',
+		nodeList: 'Nodes',
+		nodeTitle: 'Title',
+		nodeContent: 'Content',
+		nodeColor: 'Color',
+		updateInstances: 'Update nodes placed from earlier versions',
+		updateInstancesHelp:
+			'Title, content, tags and color of placed nodes are replaced in every project; their positions stay as they are.',
+		history: 'Earlier versions',
+		restore: 'Restore',
+		revision: 'Version {{version}}, {{date}}',
+		saved: 'Snippet "{{name}}" saved',
+		instancesUpdated: 'Snippet saved, {{count}} placed nodes updated',
+		loadError: 'The snippets could not be loaded',
+		saveError: 'The snippet could not be saved',
+		panelTitle: 'Snippets',
+		openPanel: 'Snippet library',
+		dragHint: 'Drag a snippet onto the canvas to place it',
+		manage: 'Manage library',
+		placeError: 'The snippet could not be placed',
+	},
 	brainstorm: {
 		title: 'Brainstorm',
 		overview: 'Overview',
@@ -150,6 +300,61 @@ export const translations = {
 	},
 	gitHistory: {
 		title: 'History',
+		currentVersion: 'Current version',
+		commit: 'Commit',
+		createCommit: 'Create commit',
+		commitMessage: 'Commit message',
+		commitMessageRequired: 'Please enter a commit message',
+		commitSuccessful: 'Commit created',
+		errorCreatingCommit: 'Could not create the commit',
+		errorLoadingCommits: 'Could not load the history',
+		noCommits: 'No commits yet',
+		createFirstCommit: 'Create a commit to save a version of this project',
+		checkout: 'Checkout',
+		checkoutSuccessful: 'Version checked out',
+		errorCheckingOut: 'Could not check out this version',
+		branch: 'Branch',
+		allBranches: 'All branches',
+		detachedHead: 'Detached',
+		newBranch: 'New branch',
+		branchName: 'Branch name',
+		branchCreated: 'Branch {{name}} created',
+		createTag: 'Create tag',
+		tagName: 'Tag name',
+		tagCreated: 'Tag {{name}} created',
+		errorCreatingRef: 'Could not create the branch or tag',
+		revert: 'Revert',
+		revertSuccessful: 'Reverted "{{message}}"',
+		errorReverting: 'Could not revert this commit',
+		commitDetails: 'Commit details',
+		author: 'Author',
+		date: 'Date',
+		commitHash: 'Commit hash',
+		parents: 'Parents',
+		compareWith: 'Compare with another commit',
+		compareCommits: 'Compare commits',
+		added: 'Added',
+		removed: 'Removed',
+		modified: 'Modified',
+		noChanges: 'No changes',
+		selectCommit: 'Select a commit to view details',
+	},
+	gitDiff: {
+		changes: 'Changes',
+		canvas: 'Canvas',
+		nodes: 'Nodes',
+		edges: 'Connections',
+		review: 'Review changes',
+		reviewTitle: 'Changes compared to the current project',
+		alsoMoved: 'also moved',
+		valueChange: '{{before}} → {{after}}',
+		status: {
+			added: 'Added',
+			removed: 'Removed',
+			edited: 'Edited',
+			moved: 'Moved',
+			unchanged: 'Unchanged',
+		},
 	},
 	chat: {
 		title: 'Chat',
@@ -159,6 +364,39 @@ export const translations = {
 		chatAssistant: 'Chat Assistant',
 		brainstormingAssistant: 'Brainstorming Assistant',
 		poweredBy: 'Powered by OpenRouter AI',
+		poweredByProvider: 'Powered by {{provider}}',
+		stop: 'Stop',
+		stopped: 'Stopped',
+		interrupted: 'Connection lost, the reply is incomplete',
+		resume: 'Resume',
+		tokenUsage: '{{count}} tokens',
+		showNode: 'Show on canvas',
+		threads: 'Conversations',
+		newThread: 'New conversation',
+		attachToNode: 'Attach to node',
+		noNode: 'No node',
+		searchThreads: 'Search conversations',
+		noThreadMatches: 'No conversations found',
+		apiKeyMissing: 'Add an {{provider}} API key in the settings to use the assistant',
+		vaultLocked: 'Unlock the credential vault in the settings to use the assistant',
+		suggestedConnections: 'Suggested connections',
+	},
+	syncConflict: {
+		title: 'Resolve Sync Conflicts',
+		description:
+			'"{{project}}" was changed locally and remotely. {{count}} change(s) could not be merged automatically. Choose which version to keep for each.',
+		keepAllLocal: 'Keep all local',
+		keepAllRemote: 'Keep all remote',
+		local: 'Local',
+		remote: 'Remote',
+		project: 'Project',
+		node: 'Node',
+		edge: 'Edge',
+		kept: 'kept',
+		deleted: 'deleted',
+		deletedOnOneSide: 'deleted on one side, changed on the other',
+		later: 'Decide Later',
+		applyMerge: 'Apply Merge',
 	},
 	s3: {
 		title: 'S3 Synchronization',
@@ -187,6 +425,194 @@ export const translations = {
 		intervalMinutes: 'Interval (minutes)',
 		notConfigured: 'S3 is not configured. Please check your environment variables.',
 		failedToSync: 'Failed to sync project to S3',
+		backend: 'Sync to',
+		backendS3: 'Amazon S3',
+		backendWebdav: 'WebDAV (e.g. Nextcloud)',
+		backendLocalFolder: 'Local folder',
+		webdavUrl: 'WebDAV folder URL',
+		webdavUsername: 'Username',
+		webdavPasswordHint: 'The password is kept in the credential vault in the settings',
+		chooseFolder: 'Choose folder',
+		noFolder: 'No folder chosen',
+		folderUnsupported: 'This browser cannot sync to a local folder',
+		backendNotReady: 'Sync is not set up yet. Check the server, user and password or choose a folder.',
+	},
+	search: {
+		title: 'Search all projects',
+		placeholder: 'Search nodes by title, content, tag or type…',
+		projects: 'Projects',
+		types: 'Types',
+		tags: 'Tags',
+		from: 'Updated from',
+		to: 'Updated until',
+		includeArchived: 'Include archived ({{count}})',
+		clearFilters: 'Clear filters',
+		resultCount: '{{count}} results',
+		hint: '↑↓ to move, Enter to open',
+		noResults: 'No matching nodes',
+		untitled: 'Untitled',
+		nodeTypes: {
+			idea: 'Idea',
+			task: 'Task',
+			note: 'Note',
+			resource: 'Resource',
+			group: 'Group',
+		},
+	},
+	clipboard: {
+		heading: 'Copied nodes',
+	},
+	flow: {
+		nodeContextMenu: 'Node context menu',
+		editNode: 'Edit node',
+		edit: 'Edit',
+		duplicateNode: 'Duplicate node',
+		duplicate: 'Duplicate',
+		styleNode: 'Style node',
+		style: 'Style',
+		addChildNode: 'Add child node',
+		addChild: 'Add Child',
+		linkToChat: 'Link to Chat',
+		deleteNode: 'Delete node',
+		delete: 'Delete',
+	},
+	graphOperations: {
+		heading: 'AI actions',
+		expand: 'Expand into child ideas',
+		summarize: 'Summarize into a parent note',
+		cluster: 'Group by theme',
+		critique: 'Find gaps and contradictions',
+		rewrite: 'Rewrite for clarity',
+		running: 'Asking the assistant…',
+		noChanges: 'The assistant suggested no changes.',
+		added: 'New node',
+		updated: 'Rewritten',
+		grouped: 'New group',
+		before: 'Before',
+		after: 'After',
+		connectsTo: 'Connects to {{nodes}}',
+		members: 'Groups {{nodes}}',
+		apply: 'Apply {{count}} changes',
+		rejectAll: 'Reject all',
+		retry: 'Try again',
+		selectAll: 'Select all',
+	},
+	groups: {
+		defaultTitle: 'Group',
+		group: 'Group selected nodes',
+		ungroup: 'Ungroup',
+		collapse: 'Collapse group',
+		expand: 'Expand group',
+		delete: 'Delete group',
+		memberCount: '{{count}} nodes',
+	},
+	history: {
+		title: 'History',
+		initialState: 'Opened canvas',
+		empty: 'No changes yet',
+		actions: {
+			addNode: 'Add node',
+			removeNode: 'Delete node',
+			editNode: 'Edit node',
+			archiveNode: 'Archive node',
+			moveNodes: 'Move nodes',
+			addTag: 'Add tag',
+			removeTag: 'Remove tag',
+			addEdge: 'Connect nodes',
+			removeEdge: 'Delete connection',
+			autoLayout: 'Auto layout',
+			insertNodes: 'Insert generated nodes',
+			groupNodes: 'Group nodes',
+			ungroupNodes: 'Ungroup',
+			collapseGroup: 'Collapse or expand group',
+			resizeGroup: 'Resize group',
+			pasteNodes: 'Paste nodes',
+			cutNodes: 'Cut nodes',
+			applyGraphDiff: 'Apply AI changes',
+		},
+	},
+	autoLayout: {
+		title: 'Auto layout',
+		layeredTopDown: 'Layered (top to bottom)',
+		layeredLeftRight: 'Layered (left to right)',
+		radial: 'Radial around selected node',
+		force: 'Force-directed',
+		grid: 'Compact grid',
+		selectionHint: 'Applies to the selected nodes when two or more are selected, otherwise to the whole canvas.',
+		applied: 'Layout applied',
+		undo: 'Undo layout',
+	},
+	diagram: {
+		title: 'Diagram',
+		description: 'Export the mind map as a Mermaid flowchart or Graphviz DOT graph. Node types become shapes and edge types line styles.',
+		exportMermaid: 'Export Mermaid',
+		copyMermaid: 'Copy Mermaid',
+		exportDot: 'Export DOT',
+		copied: 'Mermaid diagram copied to the clipboard',
+		exportFailed: 'Failed to export diagram',
+		importDiagram: 'Import diagram',
+		importFailed: 'Failed to import diagram: not a Mermaid flowchart or DOT graph',
+	},
+	outline: {
+		title: 'Outline',
+		description: 'Export the mind map as nested Markdown bullets or OPML, or import an outline as new nodes.',
+		exportMarkdown: 'Export Markdown',
+		exportOpml: 'Export OPML',
+		import: 'Import outline',
+		exportFailed: 'Failed to export outline',
+		importFailed: 'Failed to import outline: no outline items found',
+	},
+	llm: {
+		title: 'AI model',
+		projectModel: 'Model for this project',
+		projectModelDescription:
+			'Choose which provider and model the assistant uses in this project. A local server keeps brainstorming working without internet access.',
+		provider: 'Provider',
+		model: 'Model',
+		useDefault: 'Default from settings ({{provider}})',
+		defaultProvider: 'Default provider',
+		defaultProviderHelp: 'Used by projects that do not choose their own model',
+		streaming: 'Streaming',
+		jsonMode: 'JSON mode',
+		contextWindow: '{{count}} tokens context',
+		worksOffline: 'Works offline',
+		saveModel: 'Save model',
+		apiKey: '{{provider}} API key',
+		apiKeyOptional: 'API key (optional)',
+		baseUrl: 'Base URL',
+		baseUrlHelp: 'OpenAI, or a local server such as Ollama (http://localhost:11434/v1), llama.cpp or LM Studio',
+		invalidBaseUrl: 'Enter a valid URL, e.g. http://localhost:11434/v1',
+		contextWindowTokens: 'Context window (tokens)',
+		contextWindowHelp: '0 to detect it from the model name',
+	},
+	vault: {
+		title: 'Credential vault',
+		description:
+			'API keys and AWS secrets are encrypted with your passphrase and stay on this device. They are left out of exports unless you include them.',
+		status: {
+			none: 'Not set up',
+			locked: 'Locked',
+			unlocked: 'Unlocked',
+		},
+		plainCredentials: 'Your saved credentials are still stored unencrypted. Create a vault to move them into it.',
+		passphrase: 'Passphrase',
+		confirmPassphrase: 'Confirm passphrase',
+		currentPassphrase: 'Current passphrase',
+		newPassphrase: 'New passphrase',
+		create: 'Create vault',
+		unlock: 'Unlock',
+		lock: 'Lock',
+		changePassphrase: 'Change passphrase',
+		passphraseChanged: 'Passphrase changed',
+		reset: 'Reset vault',
+		resetConfirm: 'Resetting the vault deletes all stored credentials. Use this only if you forgot the passphrase.',
+		idleTimeout: 'Lock after inactivity',
+		minutes: '{{count}} minutes',
+		never: 'Never',
+		tooShort: 'The passphrase needs at least {{count}} characters',
+		mismatch: 'The passphrases do not match',
+		wrongPassphrase: 'Wrong passphrase',
+		error: 'The credential vault could not be updated',
 	},
 	importExport: {
 		title: 'Import/Export',
@@ -203,6 +629,7 @@ export const translations = {
 			'Export all your settings, color schemes, and node preferences to a JSON file. You can use this file to backup your settings or transfer them to another device.',
 		importSettingsDetail:
 			'Import settings from a previously exported JSON file. This will replace your current settings, color schemes, and node preferences.',
+		includeCredentials: 'Include API keys and AWS secrets, encrypted with the vault passphrase',
 		offline: 'Offline',
 		offlineTooltip: 'You are currently offline. Some functionality may be limited.',
 		warning: 'Warning:',
@@ -76,6 +76,159 @@ export const translations = {
 		version: 'Versión',
 		history: 'Historial',
 	},
+	collections: {
+		tags: 'Etiquetas',
+		categories: 'Categorías',
+		pinned: 'Proyectos fijados',
+		recent: 'Abiertos recientemente',
+		noTags:
+			'Ningún proyecto tiene etiquetas todavía. Seleccione proyectos en una lista de proyectos para etiquetarlos.',
+		noCategories:
+			'Ningún proyecto tiene categoría todavía. Seleccione proyectos en una lista de proyectos para asignar una.',
+		selectTag: 'Seleccione una etiqueta para ver sus proyectos',
+		selectCategory: 'Seleccione una categoría para ver sus proyectos',
+		noMatchingProjects: 'Todavía no hay proyectos aquí',
+		projectCount: '{{count}} proyectos',
+		expand: 'Expandir {{name}}',
+		collapse: 'Contraer {{name}}',
+		selectProject: 'Seleccionar {{name}}',
+		selected: '{{count}} seleccionados',
+		tagSelected: 'Etiquetar',
+		clearSelection: 'Borrar selección',
+		tagDialogTitle: 'Etiquetar {{count}} proyectos',
+		addTags: 'Añadir etiquetas',
+		removeTags: 'Quitar etiquetas',
+		category: 'Categoría',
+		categoryHelp:
+			"Separe los niveles con '/', p. ej. Clientes/Acme. Déjelo vacío para mantener las categorías actuales.",
+		removeCategory: 'Quitar categoría',
+		apply: 'Aplicar',
+		tagError: 'No se pudieron etiquetar los proyectos',
+	},
+	shortcuts: {
+		title: 'Atajos de teclado',
+		description:
+			'Elija un preajuste y cambie las teclas de cada acción. Una secuencia como G y luego P se escribe tecla por tecla.',
+		tip: 'Pulse Mayús + ? para mostrar este resumen en cualquier momento',
+		unbound: 'Sin asignar',
+		action: 'Acción',
+		shortcut: 'Atajo',
+		customize: 'Personalizar',
+		goToProjects: 'Ir a proyectos',
+		goToSettings: 'Ir a configuración',
+		goToHome: 'Ir al inicio',
+		zoomIn: 'Acercar',
+		zoomOut: 'Alejar',
+		fitView: 'Ajustar vista',
+		toggleGrid: 'Mostrar/ocultar cuadrícula',
+		toggleFullscreen: 'Pantalla completa',
+		toggleChat: 'Mostrar/ocultar chat',
+		addNode: 'Añadir nodo',
+		delete: 'Eliminar selección',
+		group: 'Agrupar selección',
+		ungroup: 'Desagrupar',
+		autoLayout: 'Diseño automático',
+		undo: 'Deshacer',
+		redo: 'Rehacer',
+		save: 'Guardar',
+		showShortcuts: 'Mostrar atajos',
+		help: 'Ayuda',
+		copy: 'Copiar',
+		paste: 'Pegar',
+		cut: 'Cortar',
+		escape: 'Cancelar la acción actual',
+		selectAll: 'Seleccionar todo',
+		preset: 'Preajuste',
+		addBinding: 'Añadir atajo',
+		reset: 'Restablecer al preajuste',
+		resetAll: 'Restablecer todo',
+		export: 'Exportar atajos',
+		import: 'Importar atajos',
+		importSuccess: 'Atajos importados',
+		importError: 'No se pudieron importar los atajos: {{message}}',
+		recordTitle: 'Atajo para {{action}}',
+		recordPlaceholder: 'Pulse las teclas',
+		recordHelp: 'Pulse una tecla, o hasta {{count}} teclas una tras otra para una secuencia',
+		conflict: 'También lo usa {{actions}}. Al guardar se quita de allí.',
+		reserved: 'Lo usa {{actions}} y no se puede asignar a otra acción.',
+		clear: 'Borrar',
+		category: {
+			navigation: 'Navegación',
+			view: 'Vista',
+			editing: 'Edición',
+			history: 'Historial',
+			general: 'General',
+		},
+		presets: {
+			default: 'Predeterminado',
+			vim: 'Estilo Vim',
+			miro: 'Estilo Miro',
+		},
+	},
+	canvasBenchmark: {
+		title: 'Benchmark del lienzo',
+		description:
+			'Desplaza un mapa generado con todos los nodos renderizados y con virtualización de la vista, a tamaño completo y alejado, y compara los tiempos de fotograma.',
+		open: 'Abrir benchmark del lienzo',
+		nodeCount: 'Nodos',
+		run: 'Ejecutar benchmark',
+		running: 'Ejecutando: {{mode}}',
+		mode: 'Renderizado',
+		phase: 'Pasada',
+		renderedNodes: 'Nodos renderizados',
+		averageFrame: 'Fotograma medio',
+		p95Frame: 'Percentil 95',
+		fps: 'FPS',
+		allNodes: 'Todos los nodos',
+		virtualized: 'Virtualización de la vista',
+		pan: 'Desplazar al 100 %',
+		zoomedOut: 'Desplazar alejado',
+		summary: 'Los fotogramas fueron {{factor}}× más rápidos con virtualización en un mapa de {{count}} nodos',
+		queries:
+			'{{count}} consultas de vista: {{linearScan}} ms revisando cada nodo, {{spatialIndex}} ms con el índice espacial',
+	},
+	snippets: {
+		title: 'Biblioteca de fragmentos',
+		assetsTitle: 'Biblioteca de recursos',
+		description:
+			'Nodos y pequeños subgrafos guardados para reutilizarlos, con sus etiquetas, colores y conexiones. Abre el panel de fragmentos en un lienzo y arrastra uno para colocarlo.',
+		all: 'Todos',
+		nodes: 'Nodos sueltos',
+		subgraphs: 'Subgrafos',
+		search: 'Buscar fragmentos',
+		empty: 'Aún no hay fragmentos. Selecciona nodos en un lienzo y guárdalos desde el panel de fragmentos.',
+		noMatches: 'Ningún fragmento coincide con la búsqueda.',
+		nodeCount: '{{count}} nodos',
+		edgeCount: '{{count}} conexiones',
+		version: 'v{{version}}',
+		deleteTitle: 'Eliminar fragmento',
+		deleteConfirm: '¿Eliminar «{{name}}»? Los nodos colocados desde él se quedan en sus lienzos.',
+		saveSelection: 'Guardar selección como fragmento',
+		saveTitle: 'Guardar en la biblioteca de fragmentos',
+		editTitle: 'Editar fragmento',
+		name: 'Nombre',
+		descriptionLabel: 'Descripción',
+		tags: 'Etiquetas',
+		nodeList: 'Nodos',
+		nodeTitle: 'Título',
+		nodeContent: 'Contenido',
+		nodeColor: 'Color',
+		updateInstances: 'Actualizar los nodos colocados desde versiones anteriores',
+		updateInstancesHelp:
+			'El título, el contenido, las etiquetas y el color de los nodos colocados se sustituyen en todos los proyectos; sus posiciones se mantienen.',
+		history: 'Versiones anteriores',
+		restore: 'Restaurar',
+		revision: 'Versión {{version}}, {{date}}',
+		saved: 'Fragmento «{{name}}» guardado',
+		instancesUpdated: 'Fragmento guardado, {{count}} nodos colocados actualizados',
+		loadError: 'No se pudieron cargar los fragmentos',
+		saveError: 'No se pudo guardar el fragmento',
+		panelTitle: 'Fragmentos',
+		openPanel: 'Biblioteca de fragmentos',
+		dragHint: 'Arrastra un fragmento al lienzo para colocarlo',
+		manage: 'Gestionar biblioteca',
+		placeError: 'No se pudo colocar el fragmento',
+	},
 	brainstorm: {
 		title: 'Lluvia de Ideas',
 		overview: 'Resumen',
@@ -151,6 +304,61 @@ export const translations = {
 	},
 	gitHistory: {
 		title: 'Historial',
+		currentVersion: 'Versión actual',
+		commit: 'Commit',
+		createCommit: 'Crear commit',
+		commitMessage: 'Mensaje del commit',
+		commitMessageRequired: 'Introduce un mensaje de commit',
+		commitSuccessful: 'Commit creado',
+		errorCreatingCommit: 'No se pudo crear el commit',
+		errorLoadingCommits: 'No se pudo cargar el historial',
+		noCommits: 'Aún no hay commits',
+		createFirstCommit: 'Crea un commit para guardar una versión de este proyecto',
+		checkout: 'Restaurar',
+		checkoutSuccessful: 'Versión restaurada',
+		errorCheckingOut: 'No se pudo restaurar esta versión',
+		branch: 'Rama',
+		allBranches: 'Todas las ramas',
+		detachedHead: 'Desacoplado',
+		newBranch: 'Nueva rama',
+		branchName: 'Nombre de la rama',
+		branchCreated: 'Rama {{name}} creada',
+		createTag: 'Crear etiqueta',
+		tagName: 'Nombre de la etiqueta',
+		tagCreated: 'Etiqueta {{name}} creada',
+		errorCreatingRef: 'No se pudo crear la rama o la etiqueta',
+		revert: 'Revertir',
+		revertSuccessful: '"{{message}}" revertido',
+		errorReverting: 'No se pudo revertir este commit',
+		commitDetails: 'Detalles del commit',
+		author: 'Autor',
+		date: 'Fecha',
+		commitHash: 'Hash del commit',
+		parents: 'Padres',
+		compareWith: 'Comparar con otro commit',
+		compareCommits: 'Comparar commits',
+		added: 'Añadido',
+		removed: 'Eliminado',
+		modified: 'Modificado',
+		noChanges: 'Sin cambios',
+		selectCommit: 'Selecciona un commit para ver los detalles',
+	},
+	gitDiff: {
+		changes: 'Cambios',
+		canvas: 'Lienzo',
+		nodes: 'Nodos',
+		edges: 'Conexiones',
+		review: 'Revisar cambios',
+		reviewTitle: 'Cambios respecto al proyecto actual',
+		alsoMoved: 'también movido',
+		valueChange: '{{before}} → {{after}}',
+		status: {
+			added: 'Añadido',
+			removed: 'Eliminado',
+			edited: 'Editado',
+			moved: 'Movido',
+			unchanged: 'Sin cambios',
+		},
 	},
 	chat: {
 		title: 'Chat',
@@ -160,6 +368,39 @@ export const translations = {
 		chatAssistant: 'Asistente de Chat',
 		brainstormingAssistant: 'Asistente de Lluvia de Ideas',
 		poweredBy: 'Impulsado por OpenRouter AI',
+		poweredByProvider: 'Impulsado por {{provider}}',
+		stop: 'Detener',
+		stopped: 'Detenido',
+		interrupted: 'Conexión perdida, la respuesta está incompleta',
+		resume: 'Reanudar',
+		tokenUsage: '{{count}} tokens',
+		showNode: 'Mostrar en el lienzo',
+		threads: 'Conversaciones',
+		newThread: 'Nueva conversación',
+		attachToNode: 'Vincular a un nodo',
+		noNode: 'Ningún nodo',
+		searchThreads: 'Buscar conversaciones',
+		noThreadMatches: 'No se encontraron conversaciones',
+		apiKeyMissing: 'Añade una clave API de {{provider}} en la configuración para usar el asistente',
+		vaultLocked: 'Desbloquea la bóveda de credenciales en la configuración para usar el asistente',
+		suggestedConnections: 'Conexiones sugeridas',
+	},
+	syncConflict: {
+		title: 'Resolver conflictos de sincronización',
+		description:
+			'"{{project}}" se modificó localmente y en remoto. {{count}} cambio(s) no se pudieron combinar automáticamente. Elige qué versión conservar en cada caso.',
+		keepAllLocal: 'Conservar todo lo local',
+		keepAllRemote: 'Conservar todo lo remoto',
+		local: 'Local',
+		remote: 'Remoto',
+		project: 'Proyecto',
+		node: 'Nodo',
+		edge: 'Conexión',
+		kept: 'conservado',
+		deleted: 'eliminado',
+		deletedOnOneSide: 'eliminado en un lado, modificado en el otro',
+		later: 'Decidir más tarde',
+		applyMerge: 'Aplicar combinación',
 	},
 	s3: {
 		title: 'Sincronización S3',
@@ -188,6 +429,194 @@ export const translations = {
 		intervalMinutes: 'Intervalo (minutos)',
 		notConfigured: 'S3 no está configurado. Por favor, compruebe sus variables de entorno.',
 		failedToSync: 'Error al sincronizar el proyecto con S3',
+		backend: 'Sincronizar con',
+		backendS3: 'Amazon S3',
+		backendWebdav: 'WebDAV (p. ej. Nextcloud)',
+		backendLocalFolder: 'Carpeta local',
+		webdavUrl: 'URL de la carpeta WebDAV',
+		webdavUsername: 'Usuario',
+		webdavPasswordHint: 'La contraseña se guarda en el almacén de credenciales de la configuración',
+		chooseFolder: 'Elegir carpeta',
+		noFolder: 'Ninguna carpeta elegida',
+		folderUnsupported: 'Este navegador no puede sincronizar con una carpeta local',
+		backendNotReady: 'La sincronización aún no está configurada. Revisa el servidor, el usuario y la contraseña o elige una carpeta.',
+	},
+	search: {
+		title: 'Buscar en todos los proyectos',
+		placeholder: 'Buscar nodos por título, contenido, etiqueta o tipo…',
+		projects: 'Proyectos',
+		types: 'Tipos',
+		tags: 'Etiquetas',
+		from: 'Modificado desde',
+		to: 'Modificado hasta',
+		includeArchived: 'Incluir archivados ({{count}})',
+		clearFilters: 'Borrar filtros',
+		resultCount: '{{count}} resultados',
+		hint: '↑↓ para moverse, Intro para abrir',
+		noResults: 'Ningún nodo coincide',
+		untitled: 'Sin título',
+		nodeTypes: {
+			idea: 'Idea',
+			task: 'Tarea',
+			note: 'Nota',
+			resource: 'Recurso',
+			group: 'Grupo',
+		},
+	},
+	clipboard: {
+		heading: 'Nodos copiados',
+	},
+	flow: {
+		nodeContextMenu: 'Menú contextual del nodo',
+		editNode: 'Editar nodo',
+		edit: 'Editar',
+		duplicateNode: 'Duplicar nodo',
+		duplicate: 'Duplicar',
+		styleNode: 'Dar estilo al nodo',
+		style: 'Estilo',
+		addChildNode: 'Añadir nodo hijo',
+		addChild: 'Añadir hijo',
+		linkToChat: 'Vincular al chat',
+		deleteNode: 'Eliminar nodo',
+		delete: 'Eliminar',
+	},
+	graphOperations: {
+		heading: 'Acciones de IA',
+		expand: 'Desarrollar en ideas hijas',
+		summarize: 'Resumir en una nota principal',
+		cluster: 'Agrupar por tema',
+		critique: 'Buscar lagunas y contradicciones',
+		rewrite: 'Reescribir con más claridad',
+		running: 'El asistente está trabajando…',
+		noChanges: 'El asistente no ha propuesto cambios.',
+		added: 'Nodo nuevo',
+		updated: 'Reescrito',
+		grouped: 'Grupo nuevo',
+		before: 'Antes',
+		after: 'Después',
+		connectsTo: 'Conectado con {{nodes}}',
+		members: 'Agrupa {{nodes}}',
+		apply: 'Aplicar {{count}} cambios',
+		rejectAll: 'Rechazar todo',
+		retry: 'Reintentar',
+		selectAll: 'Seleccionar todo',
+	},
+	groups: {
+		defaultTitle: 'Grupo',
+		group: 'Agrupar nodos seleccionados',
+		ungroup: 'Desagrupar',
+		collapse: 'Contraer grupo',
+		expand: 'Expandir grupo',
+		delete: 'Eliminar grupo',
+		memberCount: '{{count}} nodos',
+	},
+	history: {
+		title: 'Historial',
+		initialState: 'Lienzo abierto',
+		empty: 'Sin cambios todavía',
+		actions: {
+			addNode: 'Añadir nodo',
+			removeNode: 'Eliminar nodo',
+			editNode: 'Editar nodo',
+			archiveNode: 'Archivar nodo',
+			moveNodes: 'Mover nodos',
+			addTag: 'Añadir etiqueta',
+			removeTag: 'Quitar etiqueta',
+			addEdge: 'Conectar nodos',
+			removeEdge: 'Eliminar conexión',
+			autoLayout: 'Diseño automático',
+			insertNodes: 'Insertar nodos generados',
+			groupNodes: 'Agrupar nodos',
+			ungroupNodes: 'Desagrupar',
+			collapseGroup: 'Contraer o expandir grupo',
+			resizeGroup: 'Cambiar tamaño del grupo',
+			pasteNodes: 'Pegar nodos',
+			cutNodes: 'Cortar nodos',
+			applyGraphDiff: 'Aplicar cambios de la IA',
+		},
+	},
+	autoLayout: {
+		title: 'Diseño automático',
+		layeredTopDown: 'Por niveles (de arriba abajo)',
+		layeredLeftRight: 'Por niveles (de izquierda a derecha)',
+		radial: 'Radial alrededor del nodo seleccionado',
+		force: 'Dirigido por fuerzas',
+		grid: 'Cuadrícula compacta',
+		selectionHint: 'Se aplica a los nodos seleccionados cuando hay dos o más, si no a todo el lienzo.',
+		applied: 'Diseño aplicado',
+		undo: 'Deshacer diseño',
+	},
+	diagram: {
+		title: 'Diagrama',
+		description: 'Exporta el mapa mental como diagrama de flujo Mermaid o grafo Graphviz DOT. Los tipos de nodo se convierten en formas y los tipos de conexión en estilos de línea.',
+		exportMermaid: 'Exportar Mermaid',
+		copyMermaid: 'Copiar Mermaid',
+		exportDot: 'Exportar DOT',
+		copied: 'Diagrama Mermaid copiado al portapapeles',
+		exportFailed: 'Error al exportar el diagrama',
+		importDiagram: 'Importar diagrama',
+		importFailed: 'Error al importar el diagrama: no es un diagrama de flujo Mermaid ni un grafo DOT',
+	},
+	outline: {
+		title: 'Esquema',
+		description: 'Exporta el mapa mental como lista anidada de Markdown u OPML, o importa un esquema como nodos nuevos.',
+		exportMarkdown: 'Exportar Markdown',
+		exportOpml: 'Exportar OPML',
+		import: 'Importar esquema',
+		exportFailed: 'No se pudo exportar el esquema',
+		importFailed: 'No se pudo importar el esquema: no se encontraron elementos',
+	},
+	llm: {
+		title: 'Modelo de IA',
+		projectModel: 'Modelo para este proyecto',
+		projectModelDescription:
+			'Elige qué proveedor y modelo usa el asistente en este proyecto. Con un servidor local, la lluvia de ideas funciona incluso sin acceso a internet.',
+		provider: 'Proveedor',
+		model: 'Modelo',
+		useDefault: 'Predeterminado de la configuración ({{provider}})',
+		defaultProvider: 'Proveedor predeterminado',
+		defaultProviderHelp: 'Lo usan los proyectos que no eligen su propio modelo',
+		streaming: 'Streaming',
+		jsonMode: 'Modo JSON',
+		contextWindow: '{{count}} tokens de contexto',
+		worksOffline: 'Funciona sin conexión',
+		saveModel: 'Guardar modelo',
+		apiKey: 'Clave API de {{provider}}',
+		apiKeyOptional: 'Clave API (opcional)',
+		baseUrl: 'URL base',
+		baseUrlHelp: 'OpenAI, o un servidor local como Ollama (http://localhost:11434/v1), llama.cpp o LM Studio',
+		invalidBaseUrl: 'Introduce una URL válida, p. ej. http://localhost:11434/v1',
+		contextWindowTokens: 'Ventana de contexto (tokens)',
+		contextWindowHelp: '0 para deducirla del nombre del modelo',
+	},
+	vault: {
+		title: 'Bóveda de credenciales',
+		description:
+			'Las claves API y los secretos de AWS se cifran con tu frase de contraseña y permanecen en este dispositivo. Se excluyen de las exportaciones salvo que los incluyas.',
+		status: {
+			none: 'Sin configurar',
+			locked: 'Bloqueada',
+			unlocked: 'Desbloqueada',
+		},
+		plainCredentials: 'Tus credenciales guardadas aún no están cifradas. Crea una bóveda para moverlas a ella.',
+		passphrase: 'Frase de contraseña',
+		confirmPassphrase: 'Confirmar frase de contraseña',
+		currentPassphrase: 'Frase de contraseña actual',
+		newPassphrase: 'Nueva frase de contraseña',
+		create: 'Crear bóveda',
+		unlock: 'Desbloquear',
+		lock: 'Bloquear',
+		changePassphrase: 'Cambiar frase de contraseña',
+		passphraseChanged: 'Frase de contraseña cambiada',
+		reset: 'Restablecer bóveda',
+		resetConfirm: 'Al restablecer la bóveda se eliminan todas las credenciales guardadas. Úsalo solo si olvidaste la frase de contraseña.',
+		idleTimeout: 'Bloquear tras inactividad',
+		minutes: '{{count}} minutos',
+		never: 'Nunca',
+		tooShort: 'La frase de contraseña necesita al menos {{count}} caracteres',
+		mismatch: 'Las frases de contraseña no coinciden',
+		wrongPassphrase: 'Frase de contraseña incorrecta',
+		error: 'No se pudo actualizar la bóveda de credenciales',
 	},
 	importExport: {
 		title: 'Importar/Exportar',
@@ -204,6 +633,7 @@ export const translations = {
 			'Exporte toda su configuración, esquemas de colores y preferencias de nodos a un archivo JSON. Puede usar este archivo para hacer una copia de seguridad de su configuración o transferirla a otro dispositivo.',
 		importSettingsDetail:
 			'Importe la configuración desde un archivo JSON exportado previamente. Esto reemplazará su configuración actual, esquemas de colores y preferencias de nodos.',
+		includeCredentials: 'Incluir claves API y secretos de AWS, cifrados con la frase de contraseña de la bóveda',
 		offline: 'Sin conexión',
 		offlineTooltip: 'Actualmente está sin conexión. Algunas funcionalidades pueden estar limitadas.',
 		warning: 'Advertencia:',
@@ -76,6 +76,159 @@ export const translations = {
 		version: 'Version',
 		history: 'Historique',
 	},
+	collections: {
+		tags: 'Tags',
+		categories: 'Catégories',
+		pinned: 'Projets épinglés',
+		recent: 'Ouverts récemment',
+		noTags: "Aucun projet n'a encore de tags. Sélectionnez des projets dans une liste de projets pour les taguer.",
+		noCategories:
+			"Aucun projet n'a encore de catégorie. Sélectionnez des projets dans une liste de projets pour en définir une.",
+		selectTag: 'Sélectionnez un tag pour voir ses projets',
+		selectCategory: 'Sélectionnez une catégorie pour voir ses projets',
+		noMatchingProjects: "Aucun projet ici pour l'instant",
+		projectCount: '{{count}} projets',
+		expand: 'Déplier {{name}}',
+		collapse: 'Replier {{name}}',
+		selectProject: 'Sélectionner {{name}}',
+		selected: '{{count}} sélectionnés',
+		tagSelected: 'Taguer',
+		clearSelection: 'Effacer la sélection',
+		tagDialogTitle: 'Taguer {{count}} projets',
+		addTags: 'Ajouter des tags',
+		removeTags: 'Retirer des tags',
+		category: 'Catégorie',
+		categoryHelp:
+			"Séparez les niveaux par '/', par ex. Clients/Acme. Laissez vide pour garder les catégories actuelles.",
+		removeCategory: 'Retirer la catégorie',
+		apply: 'Appliquer',
+		tagError: "Les projets n'ont pas pu être tagués",
+	},
+	shortcuts: {
+		title: 'Raccourcis clavier',
+		description:
+			'Choisissez un préréglage et modifiez les touches de chaque action. Une séquence comme G puis P se tape touche après touche.',
+		tip: 'Appuyez sur Maj + ? pour afficher cet aperçu à tout moment',
+		unbound: 'Non attribué',
+		action: 'Action',
+		shortcut: 'Raccourci',
+		customize: 'Personnaliser',
+		goToProjects: 'Aller aux projets',
+		goToSettings: 'Aller aux paramètres',
+		goToHome: 'Aller à l’accueil',
+		zoomIn: 'Zoom avant',
+		zoomOut: 'Zoom arrière',
+		fitView: 'Ajuster la vue',
+		toggleGrid: 'Afficher/masquer la grille',
+		toggleFullscreen: 'Plein écran',
+		toggleChat: 'Afficher/masquer le chat',
+		addNode: 'Ajouter un nœud',
+		delete: 'Supprimer la sélection',
+		group: 'Grouper la sélection',
+		ungroup: 'Dégrouper',
+		autoLayout: 'Disposition automatique',
+		undo: 'Annuler',
+		redo: 'Rétablir',
+		save: 'Enregistrer',
+		showShortcuts: 'Afficher les raccourcis',
+		help: 'Aide',
+		copy: 'Copier',
+		paste: 'Coller',
+		cut: 'Couper',
+		escape: 'Annuler l’action en cours',
+		selectAll: 'Tout sélectionner',
+		preset: 'Préréglage',
+		addBinding: 'Ajouter un raccourci',
+		reset: 'Revenir au préréglage',
+		resetAll: 'Tout réinitialiser',
+		export: 'Exporter les raccourcis',
+		import: 'Importer les raccourcis',
+		importSuccess: 'Raccourcis importés',
+		importError: 'Échec de l’import des raccourcis : {{message}}',
+		recordTitle: 'Raccourci pour {{action}}',
+		recordPlaceholder: 'Appuyez sur les touches',
+		recordHelp: 'Appuyez sur une touche, ou jusqu’à {{count}} touches l’une après l’autre pour une séquence',
+		conflict: 'Également utilisé par {{actions}}. L’enregistrement le retire là-bas.',
+		reserved: 'Utilisé par {{actions}}, il ne peut pas être attribué à une autre action.',
+		clear: 'Effacer',
+		category: {
+			navigation: 'Navigation',
+			view: 'Affichage',
+			editing: 'Édition',
+			history: 'Historique',
+			general: 'Général',
+		},
+		presets: {
+			default: 'Par défaut',
+			vim: 'Style Vim',
+			miro: 'Style Miro',
+		},
+	},
+	canvasBenchmark: {
+		title: 'Benchmark du canevas',
+		description:
+			'Fait défiler une carte générée avec tous les nœuds rendus puis avec la virtualisation de la vue, en taille réelle et dézoomée, et compare les temps d’image.',
+		open: 'Ouvrir le benchmark du canevas',
+		nodeCount: 'Nœuds',
+		run: 'Lancer le benchmark',
+		running: 'En cours : {{mode}}',
+		mode: 'Rendu',
+		phase: 'Passe',
+		renderedNodes: 'Nœuds rendus',
+		averageFrame: 'Image moyenne',
+		p95Frame: '95e centile',
+		fps: 'IPS',
+		allNodes: 'Tous les nœuds',
+		virtualized: 'Virtualisation de la vue',
+		pan: 'Défilement à 100 %',
+		zoomedOut: 'Défilement dézoomé',
+		summary: 'Les images étaient {{factor}}× plus rapides avec la virtualisation sur une carte de {{count}} nœuds',
+		queries:
+			'{{count}} requêtes de vue : {{linearScan}} ms en vérifiant chaque nœud, {{spatialIndex}} ms avec l’index spatial',
+	},
+	snippets: {
+		title: 'Bibliothèque d’extraits',
+		assetsTitle: 'Bibliothèque de ressources',
+		description:
+			'Nœuds et petits sous-graphes enregistrés pour être réutilisés, avec leurs étiquettes, couleurs et connexions. Ouvrez le panneau des extraits sur un canevas et faites-en glisser un pour le placer.',
+		all: 'Tous',
+		nodes: 'Nœuds seuls',
+		subgraphs: 'Sous-graphes',
+		search: 'Rechercher des extraits',
+		empty:
+			'Aucun extrait pour l’instant. Sélectionnez des nœuds sur un canevas et enregistrez-les depuis le panneau des extraits.',
+		noMatches: 'Aucun extrait ne correspond à la recherche.',
+		nodeCount: '{{count}} nœuds',
+		edgeCount: '{{count}} connexions',
+		version: 'v{{version}}',
+		deleteTitle: 'Supprimer l’extrait',
+		deleteConfirm: 'Supprimer « {{name}} » ? Les nœuds placés depuis cet extrait restent sur leurs canevas.',
+		saveSelection: 'Enregistrer la sélection comme extrait',
+		saveTitle: 'Enregistrer dans la bibliothèque d’extraits',
+		editTitle: 'Modifier l’extrait',
+		name: 'Nom',
+		descriptionLabel: 'Description',
+		tags: 'Étiquettes',
+		nodeList: 'Nœuds',
+		nodeTitle: 'Titre',
+		nodeContent: 'Contenu',
+		nodeColor: 'Couleur',
+		updateInstances: 'Mettre à jour les nœuds placés depuis des versions antérieures',
+		updateInstancesHelp:
+			'Le titre, le contenu, les étiquettes et la couleur des nœuds placés sont remplacés dans tous les projets ; leurs positions sont conservées.',
+		history: 'Versions antérieures',
+		restore: 'Restaurer',
+		revision: 'Version {{version}}, {{date}}',
+		saved: 'Extrait « {{name}} » enregistré',
+		instancesUpdated: 'Extrait enregistré, {{count}} nœuds placés mis à jour',
+		loadError: 'Les extraits n’ont pas pu être chargés',
+		saveError: 'L’extrait n’a pas pu être enregistré',
+		panelTitle: 'Extraits',
+		openPanel: 'Bibliothèque d’extraits',
+		dragHint: 'Faites glisser un extrait sur le canevas pour le placer',
+		manage: 'Gérer la bibliothèque',
+		placeError: 'L’extrait n’a pas pu être placé',
+	},
 	brainstorm: {
 		title: 'Brainstorming',
 		overview: 'Aperçu',
@@ -151,6 +304,61 @@ export const translations = {
 	},
 	gitHistory: {
 		title: 'Historique',
+		currentVersion: 'Version actuelle',
+		commit: 'Valider',
+		createCommit: 'Créer un commit',
+		commitMessage: 'Message du commit',
+		commitMessageRequired: 'Veuillez saisir un message de commit',
+		commitSuccessful: 'Commit créé',
+		errorCreatingCommit: 'Impossible de créer le commit',
+		errorLoadingCommits: "Impossible de charger l'historique",
+		noCommits: 'Aucun commit pour le moment',
+		createFirstCommit: 'Créez un commit pour enregistrer une version de ce projet',
+		checkout: 'Extraire',
+		checkoutSuccessful: 'Version extraite',
+		errorCheckingOut: "Impossible d'extraire cette version",
+		branch: 'Branche',
+		allBranches: 'Toutes les branches',
+		detachedHead: 'Détachée',
+		newBranch: 'Nouvelle branche',
+		branchName: 'Nom de la branche',
+		branchCreated: 'Branche {{name}} créée',
+		createTag: 'Créer une étiquette',
+		tagName: "Nom de l'étiquette",
+		tagCreated: 'Étiquette {{name}} créée',
+		errorCreatingRef: "Impossible de créer la branche ou l'étiquette",
+		revert: 'Annuler le commit',
+		revertSuccessful: '« {{message}} » annulé',
+		errorReverting: "Impossible d'annuler ce commit",
+		commitDetails: 'Détails du commit',
+		author: 'Auteur',
+		date: 'Date',
+		commitHash: 'Hash du commit',
+		parents: 'Parents',
+		compareWith: 'Comparer avec un autre commit',
+		compareCommits: 'Comparer les commits',
+		added: 'Ajouté',
+		removed: 'Supprimé',
+		modified: 'Modifié',
+		noChanges: 'Aucune modification',
+		selectCommit: 'Sélectionnez un commit pour voir les détails',
+	},
+	gitDiff: {
+		changes: 'Modifications',
+		canvas: 'Canevas',
+		nodes: 'Nœuds',
+		edges: 'Connexions',
+		review: 'Examiner les modifications',
+		reviewTitle: 'Modifications par rapport au projet actuel',
+		alsoMoved: 'également déplacé',
+		valueChange: '{{before}} → {{after}}',
+		status: {
+			added: 'Ajouté',
+			removed: 'Supprimé',
+			edited: 'Modifié',
+			moved: 'Déplacé',
+			unchanged: 'Inchangé',
+		},
 	},
 	chat: {
 		title: 'Chat',
@@ -160,6 +368,39 @@ export const translations = {
 		chatAssistant: 'Assistant de Chat',
 		brainstormingAssistant: 'Assistant de Brainstorming',
 		poweredBy: 'Propulsé par OpenRouter AI',
+		poweredByProvider: 'Propulsé par {{provider}}',
+		stop: 'Arrêter',
+		stopped: 'Arrêté',
+		interrupted: 'Connexion perdue, la réponse est incomplète',
+		resume: 'Reprendre',
+		tokenUsage: '{{count}} jetons',
+		showNode: 'Afficher sur le canevas',
+		threads: 'Conversations',
+		newThread: 'Nouvelle conversation',
+		attachToNode: 'Rattacher à un nœud',
+		noNode: 'Aucun nœud',
+		searchThreads: 'Rechercher dans les conversations',
+		noThreadMatches: 'Aucune conversation trouvée',
+		apiKeyMissing: "Ajoutez une clé API {{provider}} dans les paramètres pour utiliser l'assistant",
+		vaultLocked: "Déverrouillez le coffre des identifiants dans les paramètres pour utiliser l'assistant",
+		suggestedConnections: 'Connexions suggérées',
+	},
+	syncConflict: {
+		title: 'Résoudre les conflits de synchronisation',
+		description:
+			'"{{project}}" a été modifié localement et à distance. {{count}} modification(s) n\'ont pas pu être fusionnées automatiquement. Choisissez la version à conserver pour chacune.',
+		keepAllLocal: 'Tout garder en local',
+		keepAllRemote: 'Tout garder à distance',
+		local: 'Local',
+		remote: 'Distant',
+		project: 'Projet',
+		node: 'Nœud',
+		edge: 'Lien',
+		kept: 'conservé',
+		deleted: 'supprimé',
+		deletedOnOneSide: 'supprimé d\'un côté, modifié de l\'autre',
+		later: 'Décider plus tard',
+		applyMerge: 'Appliquer la fusion',
 	},
 	s3: {
 		title: 'Synchronisation S3',
@@ -188,6 +429,194 @@ export const translations = {
 		intervalMinutes: 'Intervalle (minutes)',
 		notConfigured: "S3 n'est pas configuré. Veuillez vérifier vos variables d'environnement.",
 		failedToSync: 'Échec de la synchronisation du projet vers S3',
+		backend: 'Synchroniser avec',
+		backendS3: 'Amazon S3',
+		backendWebdav: 'WebDAV (p. ex. Nextcloud)',
+		backendLocalFolder: 'Dossier local',
+		webdavUrl: 'URL du dossier WebDAV',
+		webdavUsername: "Nom d'utilisateur",
+		webdavPasswordHint: 'Le mot de passe est conservé dans le coffre des identifiants, dans les paramètres',
+		chooseFolder: 'Choisir un dossier',
+		noFolder: 'Aucun dossier choisi',
+		folderUnsupported: 'Ce navigateur ne peut pas synchroniser avec un dossier local',
+		backendNotReady: "La synchronisation n'est pas encore configurée. Vérifiez le serveur, l'utilisateur et le mot de passe ou choisissez un dossier.",
+	},
+	search: {
+		title: 'Rechercher dans tous les projets',
+		placeholder: 'Rechercher des nœuds par titre, contenu, tag ou type…',
+		projects: 'Projets',
+		types: 'Types',
+		tags: 'Tags',
+		from: 'Modifié depuis',
+		to: "Modifié jusqu'au",
+		includeArchived: 'Inclure les archivés ({{count}})',
+		clearFilters: 'Effacer les filtres',
+		resultCount: '{{count}} résultats',
+		hint: '↑↓ pour naviguer, Entrée pour ouvrir',
+		noResults: 'Aucun nœud correspondant',
+		untitled: 'Sans titre',
+		nodeTypes: {
+			idea: 'Idée',
+			task: 'Tâche',
+			note: 'Note',
+			resource: 'Ressource',
+			group: 'Groupe',
+		},
+	},
+	clipboard: {
+		heading: 'Nœuds copiés',
+	},
+	flow: {
+		nodeContextMenu: 'Menu contextuel du nœud',
+		editNode: 'Modifier le nœud',
+		edit: 'Modifier',
+		duplicateNode: 'Dupliquer le nœud',
+		duplicate: 'Dupliquer',
+		styleNode: 'Mettre en forme le nœud',
+		style: 'Style',
+		addChildNode: 'Ajouter un nœud enfant',
+		addChild: 'Ajouter un enfant',
+		linkToChat: 'Lier au chat',
+		deleteNode: 'Supprimer le nœud',
+		delete: 'Supprimer',
+	},
+	graphOperations: {
+		heading: 'Actions IA',
+		expand: 'Développer en idées filles',
+		summarize: 'Résumer dans une note parente',
+		cluster: 'Regrouper par thème',
+		critique: 'Trouver les lacunes et contradictions',
+		rewrite: 'Reformuler plus clairement',
+		running: "L'assistant travaille…",
+		noChanges: "L'assistant n'a proposé aucune modification.",
+		added: 'Nouveau nœud',
+		updated: 'Reformulé',
+		grouped: 'Nouveau groupe',
+		before: 'Avant',
+		after: 'Après',
+		connectsTo: 'Relié à {{nodes}}',
+		members: 'Regroupe {{nodes}}',
+		apply: 'Appliquer {{count}} modifications',
+		rejectAll: 'Tout rejeter',
+		retry: 'Réessayer',
+		selectAll: 'Tout sélectionner',
+	},
+	groups: {
+		defaultTitle: 'Groupe',
+		group: 'Grouper les nœuds sélectionnés',
+		ungroup: 'Dissocier',
+		collapse: 'Replier le groupe',
+		expand: 'Déplier le groupe',
+		delete: 'Supprimer le groupe',
+		memberCount: '{{count}} nœuds',
+	},
+	history: {
+		title: 'Historique',
+		initialState: 'Canevas ouvert',
+		empty: 'Aucune modification',
+		actions: {
+			addNode: 'Ajouter un nœud',
+			removeNode: 'Supprimer un nœud',
+			editNode: 'Modifier un nœud',
+			archiveNode: 'Archiver un nœud',
+			moveNodes: 'Déplacer des nœuds',
+			addTag: 'Ajouter une étiquette',
+			removeTag: 'Retirer une étiquette',
+			addEdge: 'Relier des nœuds',
+			removeEdge: 'Supprimer une liaison',
+			autoLayout: 'Disposition automatique',
+			insertNodes: 'Insérer des nœuds générés',
+			groupNodes: 'Grouper des nœuds',
+			ungroupNodes: 'Dissocier',
+			collapseGroup: 'Replier ou déplier un groupe',
+			resizeGroup: 'Redimensionner un groupe',
+			pasteNodes: 'Coller des nœuds',
+			cutNodes: 'Couper des nœuds',
+			applyGraphDiff: 'Appliquer les modifications IA',
+		},
+	},
+	autoLayout: {
+		title: 'Disposition automatique',
+		layeredTopDown: 'Par niveaux (de haut en bas)',
+		layeredLeftRight: 'Par niveaux (de gauche à droite)',
+		radial: 'Radiale autour du nœud sélectionné',
+		force: 'Dirigée par les forces',
+		grid: 'Grille compacte',
+		selectionHint: 'S\'applique aux nœuds sélectionnés lorsque deux ou plus sont sélectionnés, sinon à tout le canevas.',
+		applied: 'Disposition appliquée',
+		undo: 'Annuler la disposition',
+	},
+	diagram: {
+		title: 'Diagramme',
+		description: 'Exportez la carte mentale en organigramme Mermaid ou en graphe Graphviz DOT. Les types de nœuds deviennent des formes et les types de liens des styles de ligne.',
+		exportMermaid: 'Exporter Mermaid',
+		copyMermaid: 'Copier Mermaid',
+		exportDot: 'Exporter DOT',
+		copied: 'Diagramme Mermaid copié dans le presse-papiers',
+		exportFailed: 'Échec de l\'export du diagramme',
+		importDiagram: 'Importer un diagramme',
+		importFailed: 'Échec de l\'import du diagramme : ce n\'est ni un organigramme Mermaid ni un graphe DOT',
+	},
+	outline: {
+		title: 'Plan',
+		description: 'Exportez la carte mentale en liste Markdown imbriquée ou en OPML, ou importez un plan sous forme de nouveaux nœuds.',
+		exportMarkdown: 'Exporter en Markdown',
+		exportOpml: 'Exporter en OPML',
+		import: 'Importer un plan',
+		exportFailed: "Échec de l'export du plan",
+		importFailed: "Échec de l'import du plan : aucun élément trouvé",
+	},
+	llm: {
+		title: "Modèle d'IA",
+		projectModel: 'Modèle pour ce projet',
+		projectModelDescription:
+			"Choisissez le fournisseur et le modèle utilisés par l'assistant dans ce projet. Avec un serveur local, le brainstorming fonctionne même sans accès à Internet.",
+		provider: 'Fournisseur',
+		model: 'Modèle',
+		useDefault: 'Par défaut des paramètres ({{provider}})',
+		defaultProvider: 'Fournisseur par défaut',
+		defaultProviderHelp: 'Utilisé par les projets qui ne choisissent pas leur propre modèle',
+		streaming: 'Streaming',
+		jsonMode: 'Mode JSON',
+		contextWindow: '{{count}} jetons de contexte',
+		worksOffline: 'Fonctionne hors ligne',
+		saveModel: 'Enregistrer le modèle',
+		apiKey: 'Clé API {{provider}}',
+		apiKeyOptional: 'Clé API (facultative)',
+		baseUrl: 'URL de base',
+		baseUrlHelp: 'OpenAI, ou un serveur local comme Ollama (http://localhost:11434/v1), llama.cpp ou LM Studio',
+		invalidBaseUrl: 'Saisissez une URL valide, par ex. http://localhost:11434/v1',
+		contextWindowTokens: 'Fenêtre de contexte (jetons)',
+		contextWindowHelp: '0 pour la déduire du nom du modèle',
+	},
+	vault: {
+		title: 'Coffre des identifiants',
+		description:
+			'Les clés API et les secrets AWS sont chiffrés avec votre phrase secrète et restent sur cet appareil. Ils sont exclus des exports, sauf si vous les incluez.',
+		status: {
+			none: 'Non configuré',
+			locked: 'Verrouillé',
+			unlocked: 'Déverrouillé',
+		},
+		plainCredentials: 'Vos identifiants enregistrés ne sont pas encore chiffrés. Créez un coffre pour les y déplacer.',
+		passphrase: 'Phrase secrète',
+		confirmPassphrase: 'Confirmer la phrase secrète',
+		currentPassphrase: 'Phrase secrète actuelle',
+		newPassphrase: 'Nouvelle phrase secrète',
+		create: 'Créer le coffre',
+		unlock: 'Déverrouiller',
+		lock: 'Verrouiller',
+		changePassphrase: 'Changer la phrase secrète',
+		passphraseChanged: 'Phrase secrète modifiée',
+		reset: 'Réinitialiser le coffre',
+		resetConfirm: 'La réinitialisation supprime tous les identifiants enregistrés. À utiliser uniquement si vous avez oublié la phrase secrète.',
+		idleTimeout: 'Verrouiller après inactivité',
+		minutes: '{{count}} minutes',
+		never: 'Jamais',
+		tooShort: 'La phrase secrète doit contenir au moins {{count}} caractères',
+		mismatch: 'Les phrases secrètes ne correspondent pas',
+		wrongPassphrase: 'Phrase secrète incorrecte',
+		error: "Le coffre des identifiants n'a pas pu être mis à jour",
 	},
 	importExport: {
 		title: 'Import/Export',
@@ -205,6 +634,7 @@ export const translations = {
 			'Exportez tous vos paramètres, schémas de couleurs et préférences de nœuds dans un fichier JSON. Vous pouvez utiliser ce fichier pour sauvegarder vos paramètres ou les transférer vers un autre appareil.',
 		importSettingsDetail:
 			'Importez les paramètres depuis un fichier JSON précédemment exporté. Cela remplacera vos paramètres actuels, schémas de couleurs et préférences de nœuds.',
+		includeCredentials: 'Inclure les clés API et les secrets AWS, chiffrés avec la phrase secrète du coffre',
 		offline: 'Hors ligne',
 		offlineTooltip: 'Vous êtes actuellement hors ligne. Certaines fonctionnalités peuvent être limitées.',
 		warning: 'Avertissement:',
@@ -1,6 +1,7 @@
-import type { ChatMessage } from '@/types'
+import type { ChatMessage, TokenUsage } from '@/types'
 
 // import loggerService from '../services/LoggerService'; // Unused
+import { parseCompletionChunk, readServerSentEvents, STREAM_DONE } from '../utils/sse'
 import { isValidUrl, isHttpsUrl, sanitizeUrl } from '../utils/urlValidation'
 
 interface OpenRouterResponse {
@@ -116,3 +117,96 @@ export const sendMessage = async (messages: ChatMessage[]): Promise<ChatMessage>
 		}
 	}
 }
+
+interface StreamOptions {
+	/** Aborting stops the stream and keeps the reply received so far */
+	signal?: AbortSignal
+	/** Called for each piece of text with the reply received so far */
+	onToken?: (delta: string, content: string) => void
+}
+
+// Stream a reply from OpenRouter API, reporting text as it arrives
+export const streamMessage = async (messages: ChatMessage[], options: StreamOptions = {}): Promise<ChatMessage> => {
+	const { signal, onToken } = options
+	let content = ''
+	let usage: TokenUsage | undefined
+	let finished = false
+
+	const toMessage = (status: NonNullable<ChatMessage['status']>): ChatMessage => ({
+		id: crypto.randomUUID(),
+		role: 'assistant',
+		content,
+		timestamp: new Date().toISOString(),
+		status,
+		...(usage !== undefined ? { usage } : {}),
+	})
+
+	try {
+		// Validate API URL
+		const validation = validateOpenRouterApiUrl()
+
+		if (!validation.isValid) {
+			throw new Error(validation.message)
+		}
+
+		const apiUrl = sanitizeUrl(import.meta.env.VITE_OPENROUTER_API_URL)
+
+		if (!apiUrl) {
+			throw new Error('OpenRouter API URL is invalid after sanitization. Please check your configuration.')
+		}
+
+		const response = await fetch(apiUrl, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Accept: 'text/event-stream',
+			},
+			body: JSON.stringify({
+				messages: messages.map((message) => ({ role: message.role, content: message.content })),
+				model: 'anthropic/claude-3-opus', // Default model, can be changed
+				max_tokens: 1000,
+				stream: true,
+				stream_options: { include_usage: true },
+			}),
+			...(signal ? { signal } : {}),
+		})
+
+		if (!response.ok || !response.body) {
+			throw new Error(`OpenRouter API error: ${response.statusText}`)
+		}
+
+		for await (const event of readServerSentEvents(response.body)) {
+			if (event.data === STREAM_DONE) {
+				finished = true
+				break
+			}
+			const chunk = parseCompletionChunk(event.data)
+			if (chunk === null) continue
+			if (chunk.error !== undefined) throw new Error(`OpenRouter API error: ${chunk.error}`)
+			if (chunk.usage) usage = chunk.usage
+			if (chunk.finishReason !== undefined) finished = true
+			if (chunk.delta !== '') {
+				content += chunk.delta
+				onToken?.(chunk.delta, content)
+			}
+		}
+	} catch (error) {
+		if (signal?.aborted === true) return toMessage('stopped')
+		if (finished) return toMessage('complete')
+		// Keep the partial reply when the stream drops
+		if (content !== '') return toMessage('interrupted')
+
+		console.error('Error streaming message from OpenRouter:', error)
+
+		// Return error message
+		return {
+			id: `error-${Date.now()}`,
+			role: 'assistant',
+			content: 'Error: Unable to get a response from the assistant. Please try again later.',
+			timestamp: new Date().toISOString(),
+		}
+	}
+
+	if (signal?.aborted === true) return toMessage('stopped')
+	return toMessage(finished ? 'complete' : 'interrupted')
+}
@@ -4,17 +4,35 @@ import loggerService from '../services/LoggerService'
 import type { Project } from '../types'
 import { isValidUrl, /* sanitizeUrl, */ validateS3Endpoint } from '../utils/urlValidation'
 
+import {
+	downloadCompressedJson,
+	isMissingObjectError,
+	listObjectVersions,
+	restoreObjectVersion,
+	uploadCompressedJson,
+	type ObjectVersion,
+} from './s3Transfer'
+
 /**
  * Create a dummy S3 client that gracefully fails all operations
  * @param errorMessage Error message to use for rejections
  * @returns Dummy S3 client
  */
 const createDummyS3Client = (errorMessage: string): AWS.S3 => {
+	const fail = () => ({ promise: () => Promise.reject(new Error(errorMessage)) })
 	return {
-		putObject: () => ({ promise: () => Promise.reject(new Error(errorMessage)) }),
-		getObject: () => ({ promise: () => Promise.reject(new Error(errorMessage)) }),
-		listObjectsV2: () => ({ promise: () => Promise.reject(new Error(errorMessage)) }),
-		deleteObjects: () => ({ promise: () => Promise.reject(new Error(errorMessage)) }),
+		putObject: fail,
+		getObject: fail,
+		headObject: fail,
+		copyObject: fail,
+		listObjectsV2: fail,
+		listObjectVersions: fail,
+		deleteObjects: fail,
+		createMultipartUpload: fail,
+		uploadPart: fail,
+		listParts: fail,
+		completeMultipartUpload: fail,
+		abortMultipartUpload: fail,
 		upload: () => ({
 			promise: () => Promise.reject(new Error(errorMessage)),
 			on: (_event: string, _callback: unknown) => {
@@ -22,7 +40,7 @@ const createDummyS3Client = (errorMessage: string): AWS.S3 => {
 				return {}
 			},
 		}),
-	} as AWS.S3
+	} as unknown as AWS.S3
 }
 
 /**
@@ -104,6 +122,11 @@ const getBucketName = (): string => {
 	return bucket
 }
 
+/**
+ * Key of the compressed project document; the bucket keeps its earlier versions
+ */
+const getProjectKey = (projectId: string): string => `projects/${projectId}/project.json.gz`
+
 /**
  * Retry mechanism for S3 operations with exponential backoff
  * @param operation Function to retry
@@ -171,10 +194,12 @@ const withRetry = async <T>(operation: () => Promise<T>, maxRetries = 3, baseDel
 export type ProgressCallback = (progress: number) => void
 
 /**
- * Upload a project to S3 with progress tracking and error handling
+ * Upload a project to S3 as compressed JSON with progress tracking and error
+ * handling. Large projects go up in parts and resume after a reload; the
+ * bucket keeps the earlier versions when versioning is enabled on it.
  * @param project Project to upload
  * @param onProgress Optional callback for upload progress
- * @returns Promise that resolves with the S3 URL of the uploaded project
+ * @returns Promise that resolves with the S3 version ID of the upload, or its key in unversioned buckets
  */
 export const uploadProject = async (project: Project, onProgress?: ProgressCallback): Promise<string> => {
 	// First check if S3 is enabled
@@ -186,10 +211,7 @@ export const uploadProject = async (project: Project, onProgress?: ProgressCallb
 	return withRetry(async () => {
 		const s3 = initS3Client()
 		const bucketName = getBucketName()
-		const key = `projects/${project.id}/${project.version}.json`
-
-		// Also store a latest.json file for easy access to the latest version
-		const latestKey = `projects/${project.id}/latest.json`
+		const key = getProjectKey(project.id)
 
 		// Store project metadata for listing
 		const metadataKey = `projects/${project.id}/metadata.json`
@@ -204,35 +226,10 @@ export const uploadProject = async (project: Project, onProgress?: ProgressCallb
 			syncedAt: new Date().toISOString(),
 		}
 
-		// Upload the project version
-		const params = {
-			Bucket: bucketName,
-			Key: key,
-			Body: JSON.stringify(project),
-			ContentType: 'application/json',
-		}
-
-		// Use managed upload for progress tracking
-		const managedUpload = s3.upload(params)
-
-		if (onProgress) {
-			managedUpload.on('httpUploadProgress', (progress) => {
-				const percentage = Math.round((progress.loaded / progress.total) * 100)
-				onProgress(percentage)
-			})
-		}
-
-		const result = await managedUpload.promise()
-
-		// Upload latest version reference
-		await s3
-			.putObject({
-				Bucket: bucketName,
-				Key: latestKey,
-				Body: JSON.stringify(project),
-				ContentType: 'application/json',
-			})
-			.promise()
+		const result = await uploadCompressedJson(s3, { bucket: bucketName, key }, project, {
+			metadata: { 'project-version': String(project.version) },
+			...(onProgress ? { onProgress } : {}),
+		})
 
 		// Upload metadata
 		await s3
@@ -245,14 +242,15 @@ export const uploadProject = async (project: Project, onProgress?: ProgressCallb
 			.promise()
 
 		loggerService.info(`Project ${project.id} (v${project.version}) uploaded to S3 successfully`)
-		return result.Location
+		return result.versionId ?? key
 	})
 }
 
 /**
- * Download a project from S3 with error handling
+ * Download a project from S3 with error handling. Projects uploaded before
+ * compression and versioning are read from their per-version JSON files.
  * @param projectId Project ID to download
- * @param version Optional specific version to download
+ * @param version Optional S3 version ID, or project version of a project in the old format
  * @param onProgress Optional callback for download progress
  * @returns Promise that resolves with the downloaded project
  */
@@ -271,102 +269,122 @@ export const downloadProject = async (
 		const s3 = initS3Client()
 		const bucketName = getBucketName()
 
-		// If version is not specified, get the latest version
-		let key: string
+		// Reads a project stored as plain JSON in the old format
+		const readJsonProject = async (key: string): Promise<Project> => {
+			const params = {
+				Bucket: bucketName,
+				Key: key,
+			}
 
-		if (version) {
-			key = `projects/${projectId}/${version}.json`
-		} else {
-			// Try to get the latest.json file first
+			// Use getObject with progress tracking if callback provided
+			if (onProgress) {
+				const request = s3.getObject(params)
+
+				request.on('httpDownloadProgress', (progress) => {
+					const percentage = Math.round((progress.loaded / progress.total) * 100)
+					onProgress(percentage)
+				})
+
+				const result = await request.promise()
+				const project = JSON.parse(result.Body?.toString() || '{}')
+				loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
+				return project
+			} else {
+				const result = await s3.getObject(params).promise()
+				const project = JSON.parse(result.Body?.toString() || '{}')
+				loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
+				return project
+			}
+		}
+
+		// Each project version of the old format has a file of its own; any
+		// other version is an S3 version ID of the compressed document
+		const versionId = version !== undefined && version !== '' ? String(version) : undefined
+		if (versionId !== undefined) {
 			try {
-				key = `projects/${projectId}/latest.json`
-				const latestParams = {
-					Bucket: bucketName,
-					Key: key,
-				}
+				return await readJsonProject(`projects/${projectId}/${versionId}.json`)
+			} catch (error) {
+				if (!isMissingObjectError(error)) throw error
+			}
+		}
 
-				// Log the download attempt
-				loggerService.info(`Attempting to download latest version of project ${projectId} from S3`)
+		try {
+			const project = await downloadCompressedJson<Project>(
+				s3,
+				{ bucket: bucketName, key: getProjectKey(projectId) },
+				versionId,
+			)
+			onProgress?.(100)
+			void loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
+			return project
+		} catch (error) {
+			if (versionId !== undefined || !isMissingObjectError(error)) throw error
+			void loggerService.info(`No compressed copy of project ${projectId} in S3, reading the old format`)
+		}
 
-				const latestResult = await s3.getObject(latestParams).promise()
+		// Try to get the latest.json file first
+		try {
+			const latestParams = {
+				Bucket: bucketName,
+				Key: `projects/${projectId}/latest.json`,
+			}
 
-				// Validate the response
-				if (!latestResult.Body) {
-					throw new Error('Empty response body from S3')
-				}
+			// Log the download attempt
+			loggerService.info(`Attempting to download latest version of project ${projectId} from S3`)
 
-				// Parse the project data
-				try {
-					const project = JSON.parse(latestResult.Body.toString())
+			const latestResult = await s3.getObject(latestParams).promise()
 
-					// Validate the project data
-					if (!project || typeof project !== 'object') {
-						throw new Error('Invalid project data format')
-					}
+			// Validate the response
+			if (!latestResult.Body) {
+				throw new Error('Empty response body from S3')
+			}
 
-					if (project.id !== projectId) {
-						throw new Error(`Project ID mismatch: expected ${projectId}, got ${project.id}`)
-					}
+			// Parse the project data
+			try {
+				const project = JSON.parse(latestResult.Body.toString())
 
-					loggerService.info(`Downloaded latest version of project ${projectId} from S3`)
-					return project
-				} catch (parseError) {
-					loggerService.error(
-						`Failed to parse project data: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-					)
+				// Validate the project data
+				if (!project || typeof project !== 'object') {
 					throw new Error('Invalid project data format')
 				}
-			} catch (error) {
-				loggerService.warn(
-					`No latest.json found for project ${projectId}, falling back to listing versions: ${error instanceof Error ? error.message : String(error)}`,
-				)
-			}
 
-			// Fall back to listing all versions
-			const listParams = {
-				Bucket: bucketName,
-				Prefix: `projects/${projectId}/`,
-				MaxKeys: 1000,
-			}
-
-			const listedObjects = await s3.listObjectsV2(listParams).promise()
+				if (project.id !== projectId) {
+					throw new Error(`Project ID mismatch: expected ${projectId}, got ${project.id}`)
+				}
 
-			if (!listedObjects.Contents || listedObjects.Contents.length === 0) {
-				throw new Error(`No versions found for project ${projectId}`)
+				loggerService.info(`Downloaded latest version of project ${projectId} from S3`)
+				return project
+			} catch (parseError) {
+				loggerService.error(
+					`Failed to parse project data: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+				)
+				throw new Error('Invalid project data format')
 			}
-
-			// Sort by last modified date (descending)
-			const sortedObjects = listedObjects.Contents.sort((a, b) => {
-				return (b.LastModified?.getTime() || 0) - (a.LastModified?.getTime() || 0)
-			})
-
-			key = sortedObjects[0]?.Key || ''
+		} catch (error) {
+			loggerService.warn(
+				`No latest.json found for project ${projectId}, falling back to listing versions: ${error instanceof Error ? error.message : String(error)}`,
+			)
 		}
 
-		const params = {
+		// Fall back to listing all versions
+		const listParams = {
 			Bucket: bucketName,
-			Key: key,
+			Prefix: `projects/${projectId}/`,
+			MaxKeys: 1000,
 		}
 
-		// Use getObject with progress tracking if callback provided
-		if (onProgress) {
-			const request = s3.getObject(params)
-
-			request.on('httpDownloadProgress', (progress) => {
-				const percentage = Math.round((progress.loaded / progress.total) * 100)
-				onProgress(percentage)
-			})
+		const listedObjects = await s3.listObjectsV2(listParams).promise()
 
-			const result = await request.promise()
-			const project = JSON.parse(result.Body?.toString() || '{}')
-			loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
-			return project
-		} else {
-			const result = await s3.getObject(params).promise()
-			const project = JSON.parse(result.Body?.toString() || '{}')
-			loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
-			return project
+		if (!listedObjects.Contents || listedObjects.Contents.length === 0) {
+			throw new Error(`No versions found for project ${projectId}`)
 		}
+
+		// Sort by last modified date (descending)
+		const sortedObjects = listedObjects.Contents.sort((a, b) => {
+			return (b.LastModified?.getTime() || 0) - (a.LastModified?.getTime() || 0)
+		})
+
+		return readJsonProject(sortedObjects[0]?.Key || '')
 	})
 }
 
@@ -442,9 +460,15 @@ export const listProjects = async (): Promise<
 						})
 						.filter((version) => version !== '') || []
 
+				// Versions of the compressed document come first, newest first
+				const objectVersions = await listObjectVersions(s3, {
+					bucket: bucketName,
+					key: getProjectKey(projectId),
+				}).catch(() => [])
+
 				return {
 					...metadata,
-					versions,
+					versions: [...objectVersions.map((objectVersion) => objectVersion.versionId), ...versions],
 				}
 			}),
 		)
@@ -453,6 +477,36 @@ export const listProjects = async (): Promise<
 	})
 }
 
+/**
+ * List the stored versions of a project; the bucket must have versioning enabled
+ * @param projectId Project ID
+ * @returns Versions, newest first
+ */
+export const listProjectVersions = async (projectId: string): Promise<ObjectVersion[]> => {
+	return withRetry(async () => {
+		const s3 = initS3Client()
+		return listObjectVersions(s3, { bucket: getBucketName(), key: getProjectKey(projectId) })
+	})
+}
+
+/**
+ * Make an earlier version of a project the latest one. The versions after it
+ * are kept, so restoring can be undone by restoring one of those.
+ * @param projectId Project ID
+ * @param versionId S3 version ID to restore
+ * @returns The restored project
+ */
+export const restoreProjectVersion = async (projectId: string, versionId: string): Promise<Project> => {
+	return withRetry(async () => {
+		const s3 = initS3Client()
+		const target = { bucket: getBucketName(), key: getProjectKey(projectId) }
+		await restoreObjectVersion(s3, target, versionId)
+		const project = await downloadCompressedJson<Project>(s3, target)
+		void loggerService.info(`Project ${projectId} restored to S3 version ${versionId}`)
+		return project
+	})
+}
+
 // Delete a project from S3
 export const deleteProject = async (projectId: string): Promise<void> => {
 	return withRetry(async () => {
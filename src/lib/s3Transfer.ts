@@ -0,0 +1,387 @@
+import type AWS from 'aws-sdk'
+
+/**
+ * The S3 operations transfers use. Any S3-compatible server works, e.g. a
+ * local MinIO started with versioning enabled on the bucket.
+ */
+export type S3TransferClient = Pick<
+	AWS.S3,
+	| 'putObject'
+	| 'getObject'
+	| 'headObject'
+	| 'copyObject'
+	| 'createMultipartUpload'
+	| 'uploadPart'
+	| 'listParts'
+	| 'completeMultipartUpload'
+	| 'abortMultipartUpload'
+	| 'listObjectVersions'
+>
+
+export interface TransferTarget {
+	bucket: string
+	key: string
+}
+
+export interface UploadOptions {
+	/** Receives the uploaded share in percent */
+	onProgress?: (progress: number) => void
+	/** Object metadata stored next to the checksum */
+	metadata?: Record<string, string>
+	/** Part size in bytes; S3 requires at least 5 MiB for all but the last part */
+	partSize?: number
+}
+
+export interface UploadResult {
+	etag: string
+	/** Set when the bucket keeps versions */
+	versionId?: string
+	/** Base64 SHA-256 of the stored, compressed bytes */
+	checksum: string
+}
+
+export interface ObjectVersion {
+	versionId: string
+	lastModified: Date
+	size: number
+	etag: string
+	isLatest: boolean
+}
+
+// Objects larger than one part are uploaded in parts
+const DEFAULT_PART_SIZE = 5 * 1024 * 1024
+
+// Metadata key holding the SHA-256 of the object, checked on every download
+const CHECKSUM_METADATA_KEY = 'sha256'
+
+// S3 error names of objects or versions that do not exist
+const MISSING_OBJECT_ERRORS = ['NoSuchKey', 'NoSuchVersion', 'NotFound']
+
+// Unfinished multipart uploads, so that they can be resumed after a reload
+const UPLOAD_STATE_PREFIX = 's3_upload_'
+
+interface UploadState {
+	uploadId: string
+	checksum: string
+	partSize: number
+	parts: AWS.S3.CompletedPart[]
+}
+
+/**
+ * Create an error with an S3-style name, which `withRetry` and callers match on
+ */
+const createTransferError = (name: string, message: string): Error => {
+	const error = new Error(message)
+	error.name = name
+	return error
+}
+
+/**
+ * Whether an S3 error means that the object or version does not exist
+ */
+export const isMissingObjectError = (error: unknown): boolean =>
+	error instanceof Error && MISSING_OBJECT_ERRORS.includes(error.name)
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+	const writer = stream.writable.getWriter()
+	// Read while writing, a full stream holds back the write until it is read
+	const [output] = await Promise.all([
+		new Response(stream.readable).arrayBuffer(),
+		writer.write(bytes).then(() => writer.close()),
+	])
+	return new Uint8Array(output)
+}
+
+/**
+ * Serialize a value to gzip-compressed JSON
+ */
+export const gzipJson = (value: unknown): Promise<Uint8Array> =>
+	pipeThrough(new TextEncoder().encode(JSON.stringify(value)), new CompressionStream('gzip'))
+
+/**
+ * Parse gzip-compressed JSON
+ */
+export const gunzipJson = async <T>(bytes: Uint8Array): Promise<T> =>
+	JSON.parse(new TextDecoder().decode(await pipeThrough(bytes, new DecompressionStream('gzip')))) as T
+
+/**
+ * Base64 SHA-256 of some bytes, the format S3 checksums use
+ */
+export const sha256Base64 = async (bytes: Uint8Array): Promise<string> => {
+	const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+	return btoa(String.fromCharCode(...digest))
+}
+
+const toBytes = (body: AWS.S3.Body | undefined): Uint8Array => {
+	if (body === undefined) return new Uint8Array()
+	if (typeof body === 'string') return new TextEncoder().encode(body)
+	if (body instanceof Uint8Array) return body
+	throw createTransferError('InvalidBody', 'Unsupported S3 response body')
+}
+
+const readChecksum = (metadata: AWS.S3.Metadata | undefined): string | undefined =>
+	new Map(Object.entries(metadata ?? {})).get(CHECKSUM_METADATA_KEY)
+
+const getStateKey = ({ bucket, key }: TransferTarget) => `${UPLOAD_STATE_PREFIX}${bucket}/${key}`
+
+const loadUploadState = (target: TransferTarget): UploadState | null => {
+	try {
+		const json = localStorage.getItem(getStateKey(target))
+		return json !== null ? (JSON.parse(json) as UploadState) : null
+	} catch {
+		return null
+	}
+}
+
+const saveUploadState = (target: TransferTarget, state: UploadState | null) => {
+	if (state) localStorage.setItem(getStateKey(target), JSON.stringify(state))
+	else localStorage.removeItem(getStateKey(target))
+}
+
+/**
+ * Make sure the stored object is the one that was sent: same ETag, size and checksum
+ */
+const verifyUpload = async (
+	s3: S3TransferClient,
+	target: TransferTarget,
+	expected: { etag: string; size: number; checksum: string; versionId?: string },
+): Promise<void> => {
+	const head = await s3
+		.headObject({
+			Bucket: target.bucket,
+			Key: target.key,
+			...(expected.versionId !== undefined ? { VersionId: expected.versionId } : {}),
+		})
+		.promise()
+	const storedChecksum = readChecksum(head.Metadata)
+	if (head.ETag === undefined || storedChecksum === undefined) {
+		// Browsers only see the response headers the bucket's CORS rules expose
+		throw createTransferError(
+			'HeadersNotExposed',
+			`S3 did not expose the ETag and x-amz-meta-${CHECKSUM_METADATA_KEY} headers of ${target.key}, add them to ExposeHeaders in the CORS configuration of the bucket`,
+		)
+	}
+	if (head.ETag !== expected.etag || head.ContentLength !== expected.size || storedChecksum !== expected.checksum) {
+		throw createTransferError('ChecksumMismatch', `Uploaded object ${target.key} does not match what was sent`)
+	}
+}
+
+/**
+ * Upload parts that are not stored yet, continuing an upload an earlier
+ * session left unfinished when it was for the same bytes
+ */
+const uploadParts = async (
+	s3: S3TransferClient,
+	target: TransferTarget,
+	bytes: Uint8Array,
+	checksum: string,
+	options: UploadOptions,
+): Promise<AWS.S3.CompleteMultipartUploadOutput> => {
+	const partSize = options.partSize ?? DEFAULT_PART_SIZE
+	let state = loadUploadState(target)
+
+	if (state && (state.checksum !== checksum || state.partSize !== partSize)) {
+		// The project changed since, the parts uploaded so far are of no use
+		await s3
+			.abortMultipartUpload({ Bucket: target.bucket, Key: target.key, UploadId: state.uploadId })
+			.promise()
+			.catch(() => undefined)
+		state = null
+	}
+
+	if (state) {
+		// Only parts the server still has with the ETag we recorded count as done
+		const { uploadId } = state
+		const listed = await s3
+			.listParts({ Bucket: target.bucket, Key: target.key, UploadId: uploadId })
+			.promise()
+			.catch(() => null)
+		const stored = new Map((listed?.Parts ?? []).map((part) => [part.PartNumber, part.ETag]))
+		state = listed ? { ...state, parts: state.parts.filter((part) => stored.get(part.PartNumber) === part.ETag) } : null
+	}
+
+	if (!state) {
+		const created = await s3
+			.createMultipartUpload({
+				Bucket: target.bucket,
+				Key: target.key,
+				ContentType: 'application/gzip',
+				ChecksumAlgorithm: 'SHA256',
+				Metadata: { ...options.metadata, [CHECKSUM_METADATA_KEY]: checksum },
+			})
+			.promise()
+		if (created.UploadId === undefined) {
+			throw createTransferError('InvalidResponse', 'S3 did not return an upload ID')
+		}
+		state = { uploadId: created.UploadId, checksum, partSize, parts: [] }
+		saveUploadState(target, state)
+	}
+
+	const partCount = Math.ceil(bytes.length / partSize)
+	const done = new Set(state.parts.map((part) => part.PartNumber))
+	for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+		options.onProgress?.(Math.round((state.parts.length / partCount) * 100))
+		if (done.has(partNumber)) continue
+
+		const body = bytes.subarray((partNumber - 1) * partSize, partNumber * partSize)
+		const partChecksum = await sha256Base64(body)
+		const uploaded = await s3
+			.uploadPart({
+				Bucket: target.bucket,
+				Key: target.key,
+				UploadId: state.uploadId,
+				PartNumber: partNumber,
+				Body: body,
+				ChecksumSHA256: partChecksum,
+			})
+			.promise()
+		if (uploaded.ETag === undefined) {
+			throw createTransferError('InvalidResponse', `S3 did not return an ETag for part ${partNumber}`)
+		}
+		state = {
+			...state,
+			parts: [...state.parts, { PartNumber: partNumber, ETag: uploaded.ETag, ChecksumSHA256: partChecksum }],
+		}
+		saveUploadState(target, state)
+	}
+
+	const completed = await s3
+		.completeMultipartUpload({
+			Bucket: target.bucket,
+			Key: target.key,
+			UploadId: state.uploadId,
+			MultipartUpload: { Parts: [...state.parts].sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0)) },
+		})
+		.promise()
+	saveUploadState(target, null)
+	return completed
+}
+
+/**
+ * Store a value as gzip-compressed JSON. Large values go up in parts and an
+ * interrupted upload resumes where it stopped, also after a reload. The
+ * stored object is checked against the ETag and checksum afterwards.
+ * @param s3 S3 client
+ * @param target Bucket and key
+ * @param value Value to store
+ * @param options Progress callback, metadata and part size
+ * @returns ETag, version and checksum of the stored object
+ */
+export const uploadCompressedJson = async (
+	s3: S3TransferClient,
+	target: TransferTarget,
+	value: unknown,
+	options: UploadOptions = {},
+): Promise<UploadResult> => {
+	const bytes = await gzipJson(value)
+	const checksum = await sha256Base64(bytes)
+
+	const { ETag: etag, VersionId: versionId } =
+		bytes.length <= (options.partSize ?? DEFAULT_PART_SIZE)
+			? await s3
+				.putObject({
+					Bucket: target.bucket,
+					Key: target.key,
+					Body: bytes,
+					ContentType: 'application/gzip',
+					ChecksumSHA256: checksum,
+					Metadata: { ...options.metadata, [CHECKSUM_METADATA_KEY]: checksum },
+				})
+				.promise()
+			: await uploadParts(s3, target, bytes, checksum, options)
+	if (etag === undefined) {
+		throw createTransferError('InvalidResponse', `S3 did not return an ETag for ${target.key}`)
+	}
+	await verifyUpload(s3, target, { etag, size: bytes.length, checksum, ...(versionId ? { versionId } : {}) })
+	options.onProgress?.(100)
+
+	return { etag, checksum, ...(versionId ? { versionId } : {}) }
+}
+
+/**
+ * Read a value stored by `uploadCompressedJson`, checking its checksum
+ * @param s3 S3 client
+ * @param target Bucket and key
+ * @param versionId Version to read; the latest when left out
+ * @returns The stored value
+ */
+export const downloadCompressedJson = async <T>(
+	s3: S3TransferClient,
+	target: TransferTarget,
+	versionId?: string,
+): Promise<T> => {
+	const result = await s3
+		.getObject({
+			Bucket: target.bucket,
+			Key: target.key,
+			...(versionId !== undefined ? { VersionId: versionId } : {}),
+		})
+		.promise()
+	const bytes = toBytes(result.Body)
+	const expected = readChecksum(result.Metadata)
+	if (expected !== undefined && (await sha256Base64(bytes)) !== expected) {
+		throw createTransferError('ChecksumMismatch', `Downloaded object ${target.key} is corrupted`)
+	}
+	return gunzipJson<T>(bytes)
+}
+
+/**
+ * List the stored versions of an object; the bucket must keep versions
+ * @param s3 S3 client
+ * @param target Bucket and key
+ * @returns Versions, newest first
+ */
+export const listObjectVersions = async (s3: S3TransferClient, target: TransferTarget): Promise<ObjectVersion[]> => {
+	const versions: ObjectVersion[] = []
+	let keyMarker: string | undefined
+	let versionIdMarker: string | undefined
+
+	do {
+		const page = await s3
+			.listObjectVersions({
+				Bucket: target.bucket,
+				Prefix: target.key,
+				...(keyMarker !== undefined ? { KeyMarker: keyMarker } : {}),
+				...(versionIdMarker !== undefined ? { VersionIdMarker: versionIdMarker } : {}),
+			})
+			.promise()
+		for (const version of page.Versions ?? []) {
+			// The prefix also matches longer keys
+			if (version.Key !== target.key || version.VersionId === undefined) continue
+			versions.push({
+				versionId: version.VersionId,
+				lastModified: version.LastModified ?? new Date(0),
+				size: version.Size ?? 0,
+				etag: version.ETag ?? '',
+				isLatest: version.IsLatest === true,
+			})
+		}
+		keyMarker = page.IsTruncated === true ? page.NextKeyMarker : undefined
+		versionIdMarker = page.IsTruncated === true ? page.NextVersionIdMarker : undefined
+	} while (keyMarker !== undefined)
+
+	return versions.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
+}
+
+/**
+ * Make an earlier version the latest one by copying it; the versions in
+ * between stay available
+ * @param s3 S3 client
+ * @param target Bucket and key
+ * @param versionId Version to restore
+ * @returns ID of the new latest version, when the bucket keeps versions
+ */
+export const restoreObjectVersion = async (
+	s3: S3TransferClient,
+	target: TransferTarget,
+	versionId: string,
+): Promise<string | undefined> => {
+	const result = await s3
+		.copyObject({
+			Bucket: target.bucket,
+			Key: target.key,
+			CopySource: `${target.bucket}/${encodeURIComponent(target.key)}?versionId=${encodeURIComponent(versionId)}`,
+		})
+		.promise()
+	return result.VersionId
+}
@@ -0,0 +1,36 @@
+import { Container, Paper, Typography } from '@mui/material'
+import React from 'react'
+
+import AppShell from '../components/Layout/AppShell'
+import CanvasBenchmark from '../components/Performance/CanvasBenchmark'
+import { useI18n } from '../contexts/I18nContext'
+
+interface CanvasBenchmarkPageProps {
+	onThemeToggle: () => void
+	isDarkMode: boolean
+}
+
+/**
+ * Benchmark of rendering large canvases with and without viewport virtualization
+ */
+export const CanvasBenchmarkPage: React.FC<CanvasBenchmarkPageProps> = ({ onThemeToggle, isDarkMode }) => {
+	const { t } = useI18n()
+
+	return (
+		<AppShell title={t('canvasBenchmark.title')} onThemeToggle={onThemeToggle} isDarkMode={isDarkMode}>
+			<Container maxWidth="lg" sx={{ py: 2, px: { xs: 0.5, sm: 1 } }}>
+				<Paper sx={{ p: 3 }}>
+					<Typography variant="h5" component="h1" gutterBottom>
+						{t('canvasBenchmark.title')}
+					</Typography>
+					<Typography color="text.secondary" sx={{ mb: 3 }}>
+						{t('canvasBenchmark.description')}
+					</Typography>
+					<CanvasBenchmark />
+				</Paper>
+			</Container>
+		</AppShell>
+	)
+}
+
+export default CanvasBenchmarkPage
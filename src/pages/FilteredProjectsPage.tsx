@@ -0,0 +1,42 @@
+import { Container, Paper } from '@mui/material'
+import React from 'react'
+
+import AppShell from '../components/Layout/AppShell'
+import ProjectList from '../components/ProjectList/ProjectList'
+import { useI18n } from '../contexts/I18nContext'
+import type { ProjectListFilter } from '../utils/projectCollections'
+
+export type ProjectView = 'pinned' | 'recent'
+
+const PINNED_FILTER: ProjectListFilter = { pinned: true }
+const RECENT_FILTER: ProjectListFilter = { recent: true }
+
+interface FilteredProjectsPageProps {
+	view: ProjectView
+	onThemeToggle: () => void
+	isDarkMode: boolean
+}
+
+/**
+ * The project list limited to the pinned or the recently opened projects
+ */
+export const FilteredProjectsPage: React.FC<FilteredProjectsPageProps> = ({ view, onThemeToggle, isDarkMode }) => {
+	const { t } = useI18n()
+	const title = t(`collections.${view}`)
+
+	return (
+		<AppShell title={title} onThemeToggle={onThemeToggle} isDarkMode={isDarkMode}>
+			<Container maxWidth="xl" sx={{ py: 2, px: { xs: 0.5, sm: 1 } }}>
+				<Paper sx={{ p: 3 }}>
+					<ProjectList
+						key={view}
+						title={title}
+						filter={view === 'pinned' ? PINNED_FILTER : RECENT_FILTER}
+					/>
+				</Paper>
+			</Container>
+		</AppShell>
+	)
+}
+
+export default FilteredProjectsPage
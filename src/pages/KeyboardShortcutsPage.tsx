@@ -0,0 +1,36 @@
+import { Container, Paper, Typography } from '@mui/material'
+import React from 'react'
+
+import AppShell from '../components/Layout/AppShell'
+import KeymapEditor from '../components/Settings/KeymapEditor'
+import { useI18n } from '../contexts/I18nContext'
+
+interface KeyboardShortcutsPageProps {
+	onThemeToggle: () => void
+	isDarkMode: boolean
+}
+
+/**
+ * Settings page to rebind the keyboard shortcuts
+ */
+export const KeyboardShortcutsPage: React.FC<KeyboardShortcutsPageProps> = ({ onThemeToggle, isDarkMode }) => {
+	const { t } = useI18n()
+
+	return (
+		<AppShell title={t('shortcuts.title')} onThemeToggle={onThemeToggle} isDarkMode={isDarkMode}>
+			<Container maxWidth="lg" sx={{ py: 2, px: { xs: 0.5, sm: 1 } }}>
+				<Paper sx={{ p: 3 }}>
+					<Typography variant="h5" component="h1" gutterBottom>
+						{t('shortcuts.title')}
+					</Typography>
+					<Typography color="text.secondary" sx={{ mb: 3 }}>
+						{t('shortcuts.description')}
+					</Typography>
+					<KeymapEditor />
+				</Paper>
+			</Container>
+		</AppShell>
+	)
+}
+
+export default KeyboardShortcutsPage
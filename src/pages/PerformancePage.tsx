@@ -1,5 +1,6 @@
-import { Box, Typography, Container, Paper, Alert } from '@mui/material'
+import { Box, Typography, Container, Paper, Alert, Button } from '@mui/material'
 import React from 'react'
+import { Link } from 'react-router-dom'
 
 import AppShell from '../components/Layout/AppShell'
 import PerformanceDashboard from '../components/Performance/PerformanceDashboard'
@@ -39,6 +40,9 @@ const PerformancePage: React.FC<PerformancePageProps> = ({ onThemeToggle, isDark
 							{t('performance.info') ||
 								'This dashboard displays real-time performance metrics collected during your session. Use it to identify performance bottlenecks and optimize your application.'}
 						</Alert>
+						<Button component={Link} to="/performance/canvas" sx={{ mt: 2 }}>
+							{t('canvasBenchmark.open')}
+						</Button>
 					</Paper>
 
 					<Box sx={{ height: 'calc(100vh - 250px)', minHeight: '500px' }}>
@@ -0,0 +1,86 @@
+import { Box, Container, Grid, Paper, Typography } from '@mui/material'
+import React, { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+import AppShell from '../components/Layout/AppShell'
+import CategoryTree from '../components/ProjectCollections/CategoryTree'
+import ProjectList from '../components/ProjectList/ProjectList'
+import { useI18n } from '../contexts/I18nContext'
+import projectService from '../services/ProjectService'
+import type { Project } from '../types'
+import { buildCategoryTree } from '../utils/projectCollections'
+
+interface ProjectCategoriesPageProps {
+	onThemeToggle: () => void
+	isDarkMode: boolean
+}
+
+/**
+ * Category tree of all projects, with the projects of the selected category
+ * and the ones below it next to it
+ */
+export const ProjectCategoriesPage: React.FC<ProjectCategoriesPageProps> = ({ onThemeToggle, isDarkMode }) => {
+	const { t } = useI18n()
+	const [searchParams, setSearchParams] = useSearchParams()
+	const [projects, setProjects] = useState<Project[]>([])
+	const [loading, setLoading] = useState(true)
+	const [refreshKey, setRefreshKey] = useState(0)
+	const selectedCategory = searchParams.get('category')
+
+	useEffect(() => {
+		projectService
+			.getProjects(false)
+			.then(setProjects)
+			.catch((err) => console.error('Error loading projects:', err))
+			.finally(() => setLoading(false))
+	}, [refreshKey])
+
+	const categories = useMemo(() => buildCategoryTree(projects), [projects])
+
+	return (
+		<AppShell
+			title={t('collections.categories')}
+			onThemeToggle={onThemeToggle}
+			isDarkMode={isDarkMode}
+			loading={loading}>
+			<Container maxWidth="xl" sx={{ py: 2, px: { xs: 0.5, sm: 1 } }}>
+				<Grid container spacing={3}>
+					<Grid size={{ xs: 12, md: 4, lg: 3 }}>
+						<Paper sx={{ p: 2 }}>
+							<Typography variant="h5" component="h1" gutterBottom>
+								{t('collections.categories')}
+							</Typography>
+							{categories.length === 0 ? (
+								!loading && <Typography color="text.secondary">{t('collections.noCategories')}</Typography>
+							) : (
+								<CategoryTree
+									categories={categories}
+									selectedCategory={selectedCategory}
+									onSelect={(category) => setSearchParams({ category })}
+								/>
+							)}
+						</Paper>
+					</Grid>
+					<Grid size={{ xs: 12, md: 8, lg: 9 }}>
+						<Paper sx={{ p: 3 }}>
+							{selectedCategory ? (
+								<ProjectList
+									key={`category-${selectedCategory}`}
+									title={selectedCategory}
+									filter={{ category: selectedCategory }}
+									onRefresh={() => setRefreshKey((prev) => prev + 1)}
+								/>
+							) : (
+								<Box sx={{ textAlign: 'center', p: 2 }}>
+									<Typography color="text.secondary">{t('collections.selectCategory')}</Typography>
+								</Box>
+							)}
+						</Paper>
+					</Grid>
+				</Grid>
+			</Container>
+		</AppShell>
+	)
+}
+
+export default ProjectCategoriesPage
@@ -22,8 +22,8 @@ import {
 	Tooltip,
 	TextField,
 } from '@mui/material'
-import { useState, useEffect, useCallback } from 'react'
-import { useParams } from 'react-router-dom'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
 
 import KeyboardShortcutsHandler from '../components/BrainstormFlow/KeyboardShortcutsHandler'
 import { ChatInterface } from '../components/Chat/ChatInterface'
@@ -37,6 +37,7 @@ import { useProject } from '../hooks/useProject'
 import { useBrainstormStore } from '../store/brainstormStore' // Import the store
 import type { Node, Edge, Project } from '../types'
 import type { NodeSuggestion } from '../types/chat'
+import { createNodeSuggestionFromNodeData } from '../types/chat'
 
 interface TabPanelProps {
 	children?: React.ReactNode
@@ -85,6 +86,9 @@ const ProjectDetailPage = () => {
 
 	// Get the load function from the store
 	const loadNodes = useBrainstormStore((state) => state.loadNodesWithPositions)
+	const focusNode = useBrainstormStore((state) => state.focusNode)
+	const [searchParams, setSearchParams] = useSearchParams()
+	const nodeParam = searchParams.get('node')
 
 	useEffect(() => {
 		// Load nodes into the store when projectId is available
@@ -94,6 +98,14 @@ const ProjectDetailPage = () => {
 		}
 	}, [projectId, loadNodes])
 
+	// `?node=<id>` (e.g. from search) opens the canvas focused on that node
+	useEffect(() => {
+		if (nodeParam === null) return
+		setTabValue(1)
+		focusNode(nodeParam)
+		setSearchParams({}, { replace: true })
+	}, [nodeParam, focusNode, setSearchParams])
+
 	useEffect(() => {
 		if (project !== null && project !== undefined) {
 			// This local state might become redundant if ProjectBrainstormingSection reads directly from the store
@@ -174,6 +186,16 @@ const ProjectDetailPage = () => {
 		}
 	}
 
+	// Existing nodes the assistant may connect suggested nodes to and cite by their canvas ID
+	const chatExistingNodes = useMemo(
+		() =>
+			(project?.nodes ?? []).map((node) => ({
+				...createNodeSuggestionFromNodeData(node.data, node.type),
+				id: node.id,
+			})),
+		[project?.nodes],
+	)
+
 	// Function to handle adding nodes from chat suggestions
 	const handleAddNodesFromChat = useCallback(
 		(suggestions: NodeSuggestion[]) => {
@@ -543,7 +565,11 @@ const ProjectDetailPage = () => {
 							{/* Chat content */}
 							<Box sx={{ flexGrow: 1, overflow: 'hidden' }}>
 								<ChatInterface
+									projectId={project.id}
+									existingNodes={chatExistingNodes}
+									onFocusNode={focusNode}
 									onAddNodes={handleAddNodesFromChat}
+									{...(project.modelChoice ? { modelChoice: project.modelChoice } : {})}
 									projectContext={{
 										projectId: project.id,
 										projectName: project.name,
@@ -638,16 +664,8 @@ const ProjectDetailPage = () => {
 				)}
 			</Box>
 
-			{/* Keyboard shortcuts handler */}
+			{/* Keyboard shortcuts handler, the canvas registers its own actions */}
 			<KeyboardShortcutsHandler
-				onSave={() => void saveProject()}
-				onZoomIn={() => console.log('Zoom in')}
-				onZoomOut={() => console.log('Zoom out')}
-				onFitView={() => console.log('Fit view')}
-				onUndo={() => console.log('Undo')}
-				onRedo={() => console.log('Redo')}
-				onDelete={() => console.log('Delete')}
-				onAddNode={() => console.log('Add node')}
 				onToggleChat={toggleChat}
 				disabled={tabValue !== 1} // Only enable shortcuts in brainstorming tab
 			/>
@@ -0,0 +1,76 @@
+import { Box, Container, Paper, Typography } from '@mui/material'
+import React, { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+import AppShell from '../components/Layout/AppShell'
+import TagCloud from '../components/ProjectCollections/TagCloud'
+import ProjectList from '../components/ProjectList/ProjectList'
+import { useI18n } from '../contexts/I18nContext'
+import projectService from '../services/ProjectService'
+import type { Project } from '../types'
+import { getTagCounts } from '../utils/projectCollections'
+
+interface ProjectTagsPageProps {
+	onThemeToggle: () => void
+	isDarkMode: boolean
+}
+
+/**
+ * Tag cloud of all projects, with the projects of the selected tag below it
+ */
+export const ProjectTagsPage: React.FC<ProjectTagsPageProps> = ({ onThemeToggle, isDarkMode }) => {
+	const { t } = useI18n()
+	const [searchParams, setSearchParams] = useSearchParams()
+	const [projects, setProjects] = useState<Project[]>([])
+	const [loading, setLoading] = useState(true)
+	const [refreshKey, setRefreshKey] = useState(0)
+	const selectedTag = searchParams.get('tag')
+
+	useEffect(() => {
+		projectService
+			.getProjects(false)
+			.then(setProjects)
+			.catch((err) => console.error('Error loading projects:', err))
+			.finally(() => setLoading(false))
+	}, [refreshKey])
+
+	const tags = useMemo(() => getTagCounts(projects), [projects])
+
+	const handleSelectTag = (tag: string) => {
+		setSearchParams(tag === selectedTag ? {} : { tag })
+	}
+
+	return (
+		<AppShell title={t('collections.tags')} onThemeToggle={onThemeToggle} isDarkMode={isDarkMode} loading={loading}>
+			<Container maxWidth="xl" sx={{ py: 2, px: { xs: 0.5, sm: 1 } }}>
+				<Paper sx={{ p: 3, mb: 3 }}>
+					<Typography variant="h5" component="h1" gutterBottom>
+						{t('collections.tags')}
+					</Typography>
+					{tags.length === 0 ? (
+						!loading && <Typography color="text.secondary">{t('collections.noTags')}</Typography>
+					) : (
+						<TagCloud tags={tags} selectedTag={selectedTag} onSelect={handleSelectTag} />
+					)}
+				</Paper>
+
+				<Paper sx={{ p: 3 }}>
+					{selectedTag ? (
+						<ProjectList
+							key={`tag-${selectedTag}`}
+							title={`#${selectedTag}`}
+							filter={{ tag: selectedTag }}
+							onRefresh={() => setRefreshKey((prev) => prev + 1)}
+						/>
+					) : (
+						<Box sx={{ textAlign: 'center', p: 2 }}>
+							<Typography color="text.secondary">{t('collections.selectTag')}</Typography>
+						</Box>
+					)}
+				</Paper>
+			</Container>
+		</AppShell>
+	)
+}
+
+export default ProjectTagsPage
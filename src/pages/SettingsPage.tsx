@@ -32,19 +32,22 @@ import { useState, useEffect } from 'react'
 import LanguageSelector from '../components/I18n/LanguageSelector'
 import AppShell from '../components/Layout/AppShell'
 import { ColorSchemeManager } from '../components/Settings/ColorSchemeManager'
+import { CredentialVault } from '../components/Settings/CredentialVault'
 import { LogViewer } from '../components/Settings/LogViewer'
 import { NodePreferencesManager } from '../components/Settings/NodePreferencesManager'
 import { SettingsExportImport } from '../components/Settings/SettingsExportImport'
 import { useI18n } from '../contexts/I18nContext'
 import { useSettings } from '../contexts/SettingsContext'
+import { anthropicProvider, LLM_PROVIDERS, openAICompatibleProvider } from '../services/llm'
 import { ThemeMode } from '../types'
-import type { UserPreferences } from '../types'
+import type { LLMProviderId, UserPreferences } from '../types'
 import {
 	validateApiEndpoint as _validateApiEndpoint,
 	validateS3Endpoint,
 	sanitizeUrl,
 	validateOpenRouterApiKey,
 	validateAwsCredentials,
+	isValidUrl,
 } from '../utils/urlValidation'
 
 // Default user preferences
@@ -99,7 +102,9 @@ function TabPanel(props: TabPanelProps) {
 const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 	// Get application version from environment
 	const appVersion = import.meta.env.VITE_PROJECT_VERSION || '0.1.0'
-	const { settings, updateSettings } = useSettings()
+	const { settings, updateSettings, credentials, vaultStatus, updateCredentials } = useSettings()
+	const { t } = useI18n()
+	const isVaultUnlocked = vaultStatus === 'unlocked'
 	const [preferences, setPreferences] = useState<ExtendedUserPreferences>(() => {
 		// Use settings from the context
 		return {
@@ -121,17 +126,32 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 	const [s3EndpointWarning, setS3EndpointWarning] = useState('')
 
 	// AWS credentials
-	const [awsAccessKeyId, setAwsAccessKeyId] = useState(settings.awsAccessKeyId || '')
+	const [awsAccessKeyId, setAwsAccessKeyId] = useState(credentials.awsAccessKeyId)
 	const [awsAccessKeyIdError, setAwsAccessKeyIdError] = useState('')
-	const [awsSecretAccessKey, setAwsSecretAccessKey] = useState(settings.awsSecretAccessKey || '')
+	const [awsSecretAccessKey, setAwsSecretAccessKey] = useState(credentials.awsSecretAccessKey)
 	const [awsSecretAccessKeyError, setAwsSecretAccessKeyError] = useState('')
 	const [awsRegion, setAwsRegion] = useState(settings.awsRegion || 'us-east-1')
 
+	// WebDAV sync
+	const [webdavPassword, setWebdavPassword] = useState(credentials.webdavPassword)
+
 	// OpenRouter API
-	const [openRouterApiKey, setOpenRouterApiKey] = useState(settings.openRouterApiKey || '')
+	const [openRouterApiKey, setOpenRouterApiKey] = useState(credentials.openRouterApiKey)
 	const [openRouterApiKeyError, setOpenRouterApiKeyError] = useState('')
 	const [openRouterModel, setOpenRouterModel] = useState(settings.openRouterModel || 'anthropic/claude-3-opus')
 
+	// Other LLM providers
+	const [llmProvider, setLlmProvider] = useState<LLMProviderId>(settings.llmProvider)
+	const [anthropicApiKey, setAnthropicApiKey] = useState(credentials.anthropicApiKey)
+	const [anthropicModel, setAnthropicModel] = useState(settings.anthropicModel)
+	const [openAICompatibleBaseUrl, setOpenAICompatibleBaseUrl] = useState(settings.openAICompatibleBaseUrl)
+	const [openAICompatibleBaseUrlError, setOpenAICompatibleBaseUrlError] = useState('')
+	const [openAICompatibleApiKey, setOpenAICompatibleApiKey] = useState(credentials.openAICompatibleApiKey)
+	const [openAICompatibleModel, setOpenAICompatibleModel] = useState(settings.openAICompatibleModel)
+	const [openAICompatibleContextWindow, setOpenAICompatibleContextWindow] = useState(
+		settings.openAICompatibleContextWindow,
+	)
+
 	const [tabValue, setTabValue] = useState(0)
 
 	// Accordion expanded state
@@ -140,6 +160,16 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 		return savedState ? JSON.parse(savedState) : { appearance: true, behavior: false, api: false }
 	})
 
+	// Show the credentials once the vault is unlocked, hide them when it locks
+	useEffect(() => {
+		setAwsAccessKeyId(credentials.awsAccessKeyId)
+		setAwsSecretAccessKey(credentials.awsSecretAccessKey)
+		setWebdavPassword(credentials.webdavPassword)
+		setOpenRouterApiKey(credentials.openRouterApiKey)
+		setAnthropicApiKey(credentials.anthropicApiKey)
+		setOpenAICompatibleApiKey(credentials.openAICompatibleApiKey)
+	}, [credentials])
+
 	// Save accordion state to localStorage when it changes
 	useEffect(() => {
 		localStorage.setItem('settings_accordion_state', JSON.stringify(expanded))
@@ -244,21 +274,35 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 		setOpenRouterModel(value)
 	}
 
+	// Handle OpenAI-compatible base URL change with validation
+	const handleOpenAICompatibleBaseUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const value = e.target.value
+		setOpenAICompatibleBaseUrl(value)
+		setOpenAICompatibleBaseUrlError(isValidUrl(value.trim()) ? '' : t('llm.invalidBaseUrl'))
+	}
+
 	const handleSaveSettings = () => {
 		// Validate all inputs before saving
 		const isS3Valid = validateS3(s3Endpoint)
 		const isAwsValid = validateAws(awsAccessKeyId, awsSecretAccessKey)
 		const isOpenRouterApiKeyValid = validateOpenRouterApiKeyFn(openRouterApiKey)
 
-		// Check for validation errors
-		if (!isOpenRouterApiKeyValid) {
+		if (!isValidUrl(openAICompatibleBaseUrl.trim())) {
+			setSnackbarSeverity('error')
+			setSnackbarMessage(t('llm.invalidBaseUrl'))
+			setSnackbarOpen(true)
+			return
+		}
+
+		// Check for validation errors, credentials are only saved to an unlocked vault
+		if (isVaultUnlocked && !isOpenRouterApiKeyValid) {
 			setSnackbarSeverity('error')
 			setSnackbarMessage('Please fix the OpenRouter API key errors before saving.')
 			setSnackbarOpen(true)
 			return
 		}
 
-		if (!isAwsValid && awsAccessKeyId.trim() !== '') {
+		if (isVaultUnlocked && !isAwsValid && awsAccessKeyId.trim() !== '') {
 			setSnackbarSeverity('error')
 			setSnackbarMessage('Please fix the AWS credentials errors before saving.')
 			setSnackbarOpen(true)
@@ -281,21 +325,44 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 			fontSize: preferences.fontSize,
 			language: preferences.language,
 			awsBucketName: sanitizedS3Endpoint,
-			awsAccessKeyId: sanitizedAwsAccessKeyId,
-			awsSecretAccessKey: sanitizedAwsSecretAccessKey,
 			awsRegion: awsRegion,
-			openRouterApiKey: sanitizedOpenRouterApiKey,
 			openRouterModel: openRouterModel,
+			llmProvider,
+			anthropicModel: anthropicModel.trim() || anthropicProvider.defaultModel,
+			openAICompatibleBaseUrl: openAICompatibleBaseUrl.trim(),
+			openAICompatibleModel: openAICompatibleModel.trim() || openAICompatibleProvider.defaultModel,
+			openAICompatibleContextWindow: Math.max(0, Math.round(openAICompatibleContextWindow)),
 		})
 
-		// Show success message
-		setSnackbarSeverity('success')
-		setSnackbarMessage('Settings saved successfully!')
-		setSnackbarOpen(true)
+		const showSaved = () => {
+			setSnackbarSeverity('success')
+			setSnackbarMessage('Settings saved successfully!')
+			setSnackbarOpen(true)
+		}
+
+		if (!isVaultUnlocked) {
+			showSaved()
+			return
+		}
+
+		updateCredentials({
+			awsAccessKeyId: sanitizedAwsAccessKeyId,
+			awsSecretAccessKey: sanitizedAwsSecretAccessKey,
+			webdavPassword,
+			openRouterApiKey: sanitizedOpenRouterApiKey,
+			anthropicApiKey: anthropicApiKey.trim(),
+			openAICompatibleApiKey: openAICompatibleApiKey.trim(),
+		})
+			.then(showSaved)
+			.catch((error: unknown) => {
+				console.error('Failed to save credentials:', error)
+				setSnackbarSeverity('error')
+				setSnackbarMessage('Failed to save the credentials to the vault.')
+				setSnackbarOpen(true)
+			})
 	}
 
 	const theme = useTheme()
-	const { t } = useI18n()
 
 	const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
 		setTabValue(newValue)
@@ -454,7 +521,11 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 									<Typography variant="h6">API Configuration</Typography>
 								</AccordionSummary>
 								<AccordionDetails>
-									<Typography variant="subtitle1" gutterBottom sx={{ mt: 2 }}>
+									<CredentialVault />
+
+									<Divider sx={{ my: 3 }} />
+
+									<Typography variant="subtitle1" gutterBottom>
 										AWS S3 Configuration (Optional)
 									</Typography>
 									<TextField
@@ -485,6 +556,7 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 											value={awsAccessKeyId}
 											onChange={handleAwsAccessKeyIdChange}
 											margin="normal"
+											disabled={!isVaultUnlocked}
 											helperText={awsAccessKeyIdError || 'Your AWS access key ID'}
 											error={!!awsAccessKeyIdError}
 										/>
@@ -495,6 +567,7 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 											value={awsSecretAccessKey}
 											onChange={handleAwsSecretAccessKeyChange}
 											margin="normal"
+											disabled={!isVaultUnlocked}
 											type="password"
 											helperText={awsSecretAccessKeyError || 'Your AWS secret access key'}
 											error={!!awsSecretAccessKeyError}
@@ -521,6 +594,22 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 
 									<Divider sx={{ my: 3 }} />
 
+									<Typography variant="subtitle1" gutterBottom>
+										WebDAV Sync (Optional)
+									</Typography>
+									<TextField
+										fullWidth
+										label="WebDAV Password"
+										value={webdavPassword}
+										onChange={(e) => setWebdavPassword(e.target.value)}
+										margin="normal"
+										disabled={!isVaultUnlocked}
+										type="password"
+										helperText="Password or app password for the WebDAV server, e.g. Nextcloud. Server URL and user are set per project."
+									/>
+
+									<Divider sx={{ my: 3 }} />
+
 									<Typography variant="subtitle1" gutterBottom>
 										OpenRouter API Configuration
 									</Typography>
@@ -530,6 +619,8 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 										value={openRouterApiKey}
 										onChange={handleOpenRouterApiKeyChange}
 										margin="normal"
+										type="password"
+										disabled={!isVaultUnlocked}
 										helperText={openRouterApiKeyError || 'Your OpenRouter API key for AI assistant'}
 										error={!!openRouterApiKeyError}
 									/>
@@ -556,6 +647,90 @@ const SettingsPage = ({ onThemeToggle, isDarkMode }: SettingsPageProps) => {
 											Select the AI model to use for chat and node generation
 										</FormHelperText>
 									</FormControl>
+
+									<Divider sx={{ my: 3 }} />
+
+									<Typography variant="subtitle1" gutterBottom>
+										{t('llm.title')}
+									</Typography>
+									<FormControl fullWidth margin="normal">
+										<InputLabel id="llm-provider-label">{t('llm.defaultProvider')}</InputLabel>
+										<Select
+											labelId="llm-provider-label"
+											value={llmProvider}
+											label={t('llm.defaultProvider')}
+											onChange={(event) => setLlmProvider(event.target.value as LLMProviderId)}>
+											{LLM_PROVIDERS.map((provider) => (
+												<MenuItem key={provider.id} value={provider.id}>
+													{provider.label}
+												</MenuItem>
+											))}
+										</Select>
+										<FormHelperText>{t('llm.defaultProviderHelp')}</FormHelperText>
+									</FormControl>
+
+									<Typography variant="subtitle2" sx={{ mt: 2 }}>
+										{anthropicProvider.label}
+									</Typography>
+									<TextField
+										fullWidth
+										label={t('llm.apiKey', { provider: anthropicProvider.label })}
+										value={anthropicApiKey}
+										onChange={(event) => setAnthropicApiKey(event.target.value)}
+										margin="normal"
+										type="password"
+										disabled={!isVaultUnlocked}
+									/>
+									<TextField
+										fullWidth
+										label={t('llm.model')}
+										value={anthropicModel}
+										onChange={(event) => setAnthropicModel(event.target.value)}
+										margin="normal"
+										placeholder={anthropicProvider.defaultModel}
+									/>
+
+									<Typography variant="subtitle2" sx={{ mt: 2 }}>
+										{openAICompatibleProvider.label}
+									</Typography>
+									<TextField
+										fullWidth
+										label={t('llm.baseUrl')}
+										value={openAICompatibleBaseUrl}
+										onChange={handleOpenAICompatibleBaseUrlChange}
+										margin="normal"
+										helperText={openAICompatibleBaseUrlError || t('llm.baseUrlHelp')}
+										error={!!openAICompatibleBaseUrlError}
+									/>
+									<TextField
+										fullWidth
+										label={t('llm.apiKeyOptional')}
+										value={openAICompatibleApiKey}
+										onChange={(event) => setOpenAICompatibleApiKey(event.target.value)}
+										margin="normal"
+										type="password"
+										disabled={!isVaultUnlocked}
+									/>
+									<Box sx={{ display: 'flex', gap: 2 }}>
+										<TextField
+											fullWidth
+											label={t('llm.model')}
+											value={openAICompatibleModel}
+											onChange={(event) => setOpenAICompatibleModel(event.target.value)}
+											margin="normal"
+											placeholder={openAICompatibleProvider.defaultModel}
+										/>
+										<TextField
+											fullWidth
+											label={t('llm.contextWindowTokens')}
+											type="number"
+											value={openAICompatibleContextWindow}
+											onChange={(event) => setOpenAICompatibleContextWindow(Number(event.target.value))}
+											margin="normal"
+											helperText={t('llm.contextWindowHelp')}
+											InputProps={{ inputProps: { min: 0 } }}
+										/>
+									</Box>
 								</AccordionDetails>
 							</Accordion>
 						</Box>
@@ -0,0 +1,262 @@
+import { Delete as DeleteIcon, Edit as EditIcon, Search as SearchIcon } from '@mui/icons-material'
+import {
+	Alert,
+	Box,
+	Card,
+	CardActions,
+	CardContent,
+	Chip,
+	Container,
+	Grid,
+	IconButton,
+	InputAdornment,
+	Paper,
+	Snackbar,
+	Stack,
+	Tab,
+	Tabs,
+	TextField,
+	Tooltip,
+	Typography,
+} from '@mui/material'
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+
+import DeleteConfirmationDialog from '../components/DeleteConfirmationDialog'
+import AppShell from '../components/Layout/AppShell'
+import TagCloud from '../components/ProjectCollections/TagCloud'
+import SnippetDialog from '../components/Snippets/SnippetDialog'
+import { useI18n } from '../contexts/I18nContext'
+import snippetService from '../services/SnippetService'
+import type { Snippet } from '../types/snippet'
+import { getSnippetTags, matchesSnippet } from '../utils/snippets'
+
+type SnippetView = 'all' | 'nodes' | 'subgraphs'
+
+interface SnippetLibraryPageProps {
+	onThemeToggle: () => void
+	isDarkMode: boolean
+	/** Tab shown first; the asset library opens on single nodes */
+	initialView?: SnippetView
+}
+
+const VIEWS: SnippetView[] = ['all', 'nodes', 'subgraphs']
+
+const matchesView = (snippet: Snippet, view: SnippetView): boolean => {
+	if (view === 'nodes') return snippet.content.nodes.length === 1
+	if (view === 'subgraphs') return snippet.content.nodes.length > 1
+	return true
+}
+
+/**
+ * Personal library of saved nodes and subgraphs, to search, tag and edit.
+ * Snippets are placed from the library panel of a canvas.
+ */
+export const SnippetLibraryPage: React.FC<SnippetLibraryPageProps> = ({
+	onThemeToggle,
+	isDarkMode,
+	initialView = 'all',
+}) => {
+	const { t } = useI18n()
+	const [snippets, setSnippets] = useState<Snippet[]>([])
+	const [loading, setLoading] = useState(true)
+	const [error, setError] = useState<string | null>(null)
+	const [view, setView] = useState<SnippetView>(initialView)
+	const [query, setQuery] = useState('')
+	const [selectedTag, setSelectedTag] = useState<string | null>(null)
+	const [editing, setEditing] = useState<Snippet | null>(null)
+	const [deleting, setDeleting] = useState<Snippet | null>(null)
+	const [notice, setNotice] = useState<string | null>(null)
+
+	const loadSnippets = useCallback(async () => {
+		try {
+			setSnippets(await snippetService.getSnippets())
+			setError(null)
+		} catch (err) {
+			console.error('Error loading snippets:', err)
+			setError(t('snippets.loadError'))
+		} finally {
+			setLoading(false)
+		}
+	}, [t])
+
+	useEffect(() => {
+		void loadSnippets()
+	}, [loadSnippets])
+
+	useEffect(() => {
+		setView(initialView)
+	}, [initialView])
+
+	const tags = useMemo(() => getSnippetTags(snippets), [snippets])
+	const visibleSnippets = useMemo(
+		() =>
+			snippets.filter(
+				(snippet) =>
+					matchesView(snippet, view) &&
+					(selectedTag === null || snippet.tags.includes(selectedTag)) &&
+					matchesSnippet(snippet, query),
+			),
+		[snippets, view, selectedTag, query],
+	)
+
+	const handleSaved = (snippet: Snippet, updatedInstances?: number) => {
+		setNotice(
+			updatedInstances !== undefined
+				? t('snippets.instancesUpdated', { count: updatedInstances })
+				: t('snippets.saved', { name: snippet.name }),
+		)
+		void loadSnippets()
+	}
+
+	const handleDelete = async () => {
+		if (!deleting) return
+		try {
+			await snippetService.deleteSnippet(deleting.id)
+			setSnippets((current) => current.filter((snippet) => snippet.id !== deleting.id))
+		} catch (err) {
+			console.error('Error deleting snippet:', err)
+			setError(t('snippets.saveError'))
+		} finally {
+			setDeleting(null)
+		}
+	}
+
+	const title = initialView === 'nodes' ? t('snippets.assetsTitle') : t('snippets.title')
+
+	return (
+		<AppShell title={title} onThemeToggle={onThemeToggle} isDarkMode={isDarkMode} loading={loading}>
+			<Container maxWidth="xl" sx={{ py: 2, px: { xs: 0.5, sm: 1 } }}>
+				<Paper sx={{ p: 3, mb: 3 }}>
+					<Typography variant="h5" component="h1" gutterBottom>
+						{title}
+					</Typography>
+					<Typography color="text.secondary" sx={{ mb: 2 }}>
+						{t('snippets.description')}
+					</Typography>
+					<Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mb: 2 }}>
+						<TextField
+							size="small"
+							placeholder={t('snippets.search')}
+							value={query}
+							onChange={(event) => setQuery(event.target.value)}
+							sx={{ minWidth: 280 }}
+							slotProps={{
+								input: {
+									startAdornment: (
+										<InputAdornment position="start">
+											<SearchIcon fontSize="small" />
+										</InputAdornment>
+									),
+								},
+							}}
+						/>
+						<Tabs value={view} onChange={(_event, value: SnippetView) => setView(value)}>
+							{VIEWS.map((option) => (
+								<Tab key={option} value={option} label={t(`snippets.${option}`)} />
+							))}
+						</Tabs>
+					</Stack>
+					{tags.length > 0 && (
+						<TagCloud
+							tags={tags}
+							selectedTag={selectedTag}
+							onSelect={(tag) => setSelectedTag((current) => (current === tag ? null : tag))}
+						/>
+					)}
+				</Paper>
+
+				{error && (
+					<Alert severity="error" sx={{ mb: 2 }}>
+						{error}
+					</Alert>
+				)}
+
+				{!loading && visibleSnippets.length === 0 ? (
+					<Typography color="text.secondary">
+						{snippets.length === 0 ? t('snippets.empty') : t('snippets.noMatches')}
+					</Typography>
+				) : (
+					<Grid container spacing={2}>
+						{visibleSnippets.map((snippet) => (
+							<Grid key={snippet.id} size={{ xs: 12, sm: 6, md: 4, lg: 3 }}>
+								<Card variant="outlined" sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+									<CardContent sx={{ flex: 1 }}>
+										<Stack direction="row" spacing={1} sx={{ alignItems: 'center', mb: 1 }}>
+											<Typography variant="subtitle1" sx={{ flex: 1 }} noWrap>
+												{snippet.name}
+											</Typography>
+											<Chip size="small" label={t('snippets.version', { version: snippet.version })} />
+										</Stack>
+										{snippet.description !== '' && (
+											<Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+												{snippet.description}
+											</Typography>
+										)}
+										<Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1 }}>
+											{t('snippets.nodeCount', { count: snippet.content.nodes.length })}
+											{' · '}
+											{t('snippets.edgeCount', { count: snippet.content.edges.length })}
+										</Typography>
+										<Stack spacing={0.5} sx={{ mb: 1 }}>
+											{snippet.content.nodes.slice(0, 5).map((node) => (
+												<Stack key={node.id} direction="row" spacing={1} sx={{ alignItems: 'center' }}>
+													<Box
+														sx={{
+															width: 10,
+															height: 10,
+															borderRadius: '50%',
+															flexShrink: 0,
+															bgcolor: node.color ?? 'action.disabled',
+														}}
+													/>
+													<Typography variant="body2" noWrap>
+														{node.title}
+													</Typography>
+												</Stack>
+											))}
+										</Stack>
+										<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+											{snippet.tags.map((tag) => (
+												<Chip key={tag} label={tag} size="small" variant="outlined" />
+											))}
+										</Box>
+									</CardContent>
+									<CardActions>
+										<Tooltip title={t('common.edit')}>
+											<IconButton size="small" onClick={() => setEditing(snippet)} aria-label={t('common.edit')}>
+												<EditIcon fontSize="small" />
+											</IconButton>
+										</Tooltip>
+										<Tooltip title={t('common.delete')}>
+											<IconButton size="small" onClick={() => setDeleting(snippet)} aria-label={t('common.delete')}>
+												<DeleteIcon fontSize="small" />
+											</IconButton>
+										</Tooltip>
+									</CardActions>
+								</Card>
+							</Grid>
+						))}
+					</Grid>
+				)}
+			</Container>
+
+			<SnippetDialog
+				open={editing !== null}
+				snippet={editing}
+				knownTags={tags.map(({ tag }) => tag)}
+				onClose={() => setEditing(null)}
+				onSaved={handleSaved}
+			/>
+			<DeleteConfirmationDialog
+				open={deleting !== null}
+				onClose={() => setDeleting(null)}
+				onConfirm={() => void handleDelete()}
+				title={t('snippets.deleteTitle')}
+				message={t('snippets.deleteConfirm', { name: deleting?.name ?? '' })}
+			/>
+			<Snackbar open={notice !== null} autoHideDuration={5000} onClose={() => setNotice(null)} message={notice} />
+		</AppShell>
+	)
+}
+
+export default SnippetLibraryPage
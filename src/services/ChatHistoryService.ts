@@ -0,0 +1,237 @@
+import type { ChatMessage, ChatThread } from '../types'
+import { tokenize } from '../utils/searchIndex'
+
+import indexedDBService from './IndexedDBService'
+import loggerService from './LoggerService'
+
+// Oldest threads of a project and oldest messages of a thread beyond these are dropped
+export const MAX_THREADS_PER_PROJECT = 50
+export const MAX_MESSAGES_PER_THREAD = 200
+
+/**
+ * A thread found by a search, with the messages that matched
+ */
+export interface ChatThreadMatch {
+	thread: ChatThread
+	/** Empty when only the title matched */
+	messages: ChatMessage[]
+}
+
+interface NewThreadOptions {
+	nodeId?: string
+	messages?: ChatMessage[]
+}
+
+const matchesAll = (text: string, terms: string[]): boolean => {
+	const words = tokenize(text)
+	return terms.every((term) => words.some((word) => word.startsWith(term)))
+}
+
+/**
+ * Chat history of projects, kept in IndexedDB as named threads. Threads can
+ * be attached to a node and travel with the project in exports and S3 sync.
+ */
+export class ChatHistoryService {
+	private static instance: ChatHistoryService
+	// Where chat history was kept before threads, one conversation per project
+	private legacyStoragePrefix = 'chat_history_'
+	// Migrations of legacy history in progress, by project ID
+	private legacyMigrations = new Map<string, Promise<void>>()
+
+	private constructor() {
+		// Initialize if needed
+	}
+
+	public static getInstance(): ChatHistoryService {
+		if (ChatHistoryService.instance === null || ChatHistoryService.instance === undefined) {
+			ChatHistoryService.instance = new ChatHistoryService()
+		}
+		return ChatHistoryService.instance
+	}
+
+	/**
+	 * Get the threads of a project, moving history kept in localStorage over first
+	 * @param projectId Project ID
+	 * @returns Threads, most recently updated first
+	 */
+	public async getThreads(projectId: string): Promise<ChatThread[]> {
+		await this.migrateLegacyHistory(projectId)
+		return indexedDBService.getChatThreads(projectId)
+	}
+
+	/**
+	 * Start a thread
+	 * @param projectId Project ID
+	 * @param title Thread title
+	 * @param options Node to attach the thread to and first messages
+	 * @returns The new thread
+	 */
+	public async createThread(projectId: string, title: string, options: NewThreadOptions = {}): Promise<ChatThread> {
+		const now = new Date().toISOString()
+		const thread: ChatThread = {
+			id: crypto.randomUUID(),
+			projectId,
+			title,
+			...(options.nodeId !== undefined ? { nodeId: options.nodeId } : {}),
+			messages: (options.messages ?? []).slice(-MAX_MESSAGES_PER_THREAD),
+			createdAt: now,
+			updatedAt: now,
+		}
+		await this.save(projectId, [thread])
+		return thread
+	}
+
+	/**
+	 * Replace the messages of a thread, keeping the newest ones within the limit
+	 * @param thread Thread to update
+	 * @param messages All messages of the thread
+	 * @returns The updated thread
+	 */
+	public async saveMessages(thread: ChatThread, messages: ChatMessage[]): Promise<ChatThread> {
+		const updated: ChatThread = {
+			...thread,
+			messages: messages.slice(-MAX_MESSAGES_PER_THREAD),
+			updatedAt: new Date().toISOString(),
+		}
+		await this.save(thread.projectId, [updated])
+		return updated
+	}
+
+	/**
+	 * Rename a thread or attach it to another node
+	 * @param thread Thread to update
+	 * @param changes New title and node; a null node detaches the thread
+	 * @returns The updated thread
+	 */
+	public async updateThread(
+		thread: ChatThread,
+		changes: { title?: string; nodeId?: string | null },
+	): Promise<ChatThread> {
+		const { nodeId: _nodeId, ...rest } = thread
+		const nodeId = changes.nodeId === undefined ? thread.nodeId : changes.nodeId
+		const updated: ChatThread = {
+			...rest,
+			...(changes.title !== undefined ? { title: changes.title } : {}),
+			...(nodeId !== undefined && nodeId !== null ? { nodeId } : {}),
+			updatedAt: new Date().toISOString(),
+		}
+		await this.save(thread.projectId, [updated])
+		return updated
+	}
+
+	/**
+	 * Delete a thread
+	 * @param threadId Thread ID
+	 */
+	public async deleteThread(threadId: string): Promise<void> {
+		await indexedDBService.saveChatThreads([], [threadId])
+	}
+
+	/**
+	 * Delete all threads of a deleted project
+	 * @param projectId Project ID
+	 */
+	public async deleteProjectThreads(projectId: string): Promise<void> {
+		const threads = await indexedDBService.getChatThreads(projectId)
+		await indexedDBService.saveChatThreads([], threads.map((thread) => thread.id))
+		localStorage.removeItem(`${this.legacyStoragePrefix}${projectId}`)
+	}
+
+	/**
+	 * Find threads whose title or messages contain every query term; the terms
+	 * also match the start of longer words
+	 * @param query Search text
+	 * @param projectId Project to search; all projects when left out
+	 * @returns Matching threads, most recently updated first
+	 */
+	public async searchThreads(query: string, projectId?: string): Promise<ChatThreadMatch[]> {
+		const terms = tokenize(query)
+		if (terms.length === 0) return []
+
+		const threads =
+			projectId !== undefined ? await this.getThreads(projectId) : await indexedDBService.getChatThreads()
+		return threads.flatMap((thread) => {
+			const messages = thread.messages.filter((message) => matchesAll(message.content, terms))
+			return messages.length > 0 || matchesAll(thread.title, terms) ? [{ thread, messages }] : []
+		})
+	}
+
+	/**
+	 * Take threads from an export or from the synced copy of a project. A
+	 * thread that exists on both sides keeps the more recently updated version.
+	 * @param projectId Project the threads belong to, which may differ from the one they were exported from
+	 * @param threads Threads to import
+	 * @returns Number of threads added or updated
+	 */
+	public async importThreads(projectId: string, threads: ChatThread[]): Promise<number> {
+		const existing = new Map((await this.getThreads(projectId)).map((thread) => [thread.id, thread]))
+		const changed = threads
+			.map((thread) => ({ ...thread, projectId }))
+			.filter((thread) => {
+				const current = existing.get(thread.id)
+				return current === undefined || thread.updatedAt > current.updatedAt
+			})
+		if (changed.length > 0) {
+			await this.save(projectId, changed)
+		}
+		return changed.length
+	}
+
+	/**
+	 * Store threads of a project and drop the oldest ones beyond the limit
+	 */
+	private async save(projectId: string, threads: ChatThread[]): Promise<void> {
+		const savedIds = new Set(threads.map((thread) => thread.id))
+		const others = (await indexedDBService.getChatThreads(projectId)).filter((thread) => !savedIds.has(thread.id))
+		const expired = [...threads, ...others]
+			.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+			.slice(MAX_THREADS_PER_PROJECT)
+			.map((thread) => thread.id)
+		await indexedDBService.saveChatThreads(
+			threads.filter((thread) => !expired.includes(thread.id)),
+			expired.filter((id) => !savedIds.has(id)),
+		)
+	}
+
+	/**
+	 * Import the single conversation per project that was kept in localStorage
+	 * before threads as the first thread of the project. Concurrent reads of a
+	 * project wait for the same migration.
+	 */
+	private migrateLegacyHistory(projectId: string): Promise<void> {
+		const running = this.legacyMigrations.get(projectId)
+		if (running !== undefined) return running
+
+		const migration = this.importLegacyHistory(projectId).finally(() => {
+			this.legacyMigrations.delete(projectId)
+		})
+		this.legacyMigrations.set(projectId, migration)
+		return migration
+	}
+
+	private async importLegacyHistory(projectId: string): Promise<void> {
+		const key = `${this.legacyStoragePrefix}${projectId}`
+		const json = localStorage.getItem(key)
+		if (json === null) return
+
+		let messages: ChatMessage[]
+		try {
+			const parsed: unknown = JSON.parse(json)
+			messages = Array.isArray(parsed) ? (parsed as ChatMessage[]) : []
+		} catch (error) {
+			void loggerService.warn('Could not read legacy chat history', { error: String(error) })
+			localStorage.removeItem(key)
+			return
+		}
+
+		const [first] = messages
+		if (first !== undefined) {
+			await this.createThread(projectId, first.content.slice(0, 60), { messages })
+		}
+		// Removed once the thread is stored, so a failed save is retried on the next read
+		localStorage.removeItem(key)
+		void loggerService.info(`Migrated ${messages.length} legacy chat message(s) for project ${projectId}`)
+	}
+}
+
+export default ChatHistoryService.getInstance()
@@ -1,13 +1,179 @@
-import type { ChatMessage, NodeSuggestion, ChatSuggestion, NodeType } from '../types'
+import { z } from 'zod'
+
+import type {
+	ChatMessage,
+	NodeSuggestion,
+	EdgeSuggestion,
+	ChatSuggestion,
+	GraphChange,
+	GraphDiff,
+	GraphOperation,
+	NodeType,
+	TokenUsage,
+	LLMProviderId,
+	ModelChoice,
+	ProviderCapabilities,
+} from '../types'
+import { formatContextNode, parseCitations, type RetrievableNode } from '../utils/nodeRetrieval'
+import { readServerSentEvents } from '../utils/sse'
+import { parseStructuredOutput } from '../utils/structuredOutput'
+
+import {
+	getProvider,
+	isProviderReady,
+	openRouterProvider,
+	type LLMMessage,
+	type LLMProvider,
+	type ProviderConfig,
+} from './llm'
+
+/**
+ * Options for streaming a reply
+ */
+export interface StreamMessageOptions {
+	/** Context about the current project, sent as a system message */
+	projectContext?: Record<string, unknown>
+	/** Aborting stops the stream and keeps the reply received so far */
+	signal?: AbortSignal
+	/** Called for each piece of text with the reply received so far */
+	onToken?: (delta: string, content: string) => void
+	/** Provider and model to use instead of the default, e.g. the project's choice */
+	model?: ModelChoice
+	/** Project nodes retrieved for the question; the reply may cite them */
+	contextNodes?: RetrievableNode[]
+}
+
+// Times the model is asked for a usable structured reply before giving up
+const MAX_STRUCTURED_ATTEMPTS = 3
+
+// Node fields are lenient as they get defaults
+const suggestedNodeSchema = z.object({
+	id: z.string().min(1).optional(),
+	title: z.string().optional(),
+	content: z.string().optional(),
+	type: z.string().optional(),
+	tags: z.array(z.string()).optional(),
+})
+
+const suggestedEdgeSchema = z.object({
+	source: z.string(),
+	target: z.string(),
+	label: z.string().optional(),
+})
+
+const addIssue = (context: z.RefinementCtx, path: (string | number)[], message: string) =>
+	context.addIssue({ code: z.ZodIssueCode.custom, path, message })
+
+// Flags duplicate node IDs and edges that do not connect two known nodes
+const checkSuggestedGraph = (
+	payload: { nodes: { id?: string | undefined }[]; edges: { source: string; target: string }[] },
+	existingIds: Set<string>,
+	context: z.RefinementCtx,
+) => {
+	const newIds = new Set<string>()
+	payload.nodes.forEach((node, index) => {
+		if (node.id === undefined) return
+		if (newIds.has(node.id) || existingIds.has(node.id)) {
+			addIssue(context, ['nodes', index, 'id'], `Duplicate node id "${node.id}"`)
+		}
+		newIds.add(node.id)
+	})
+	payload.edges.forEach((edge, index) => {
+		const ends = [
+			['source', edge.source],
+			['target', edge.target],
+		] as const
+		for (const [end, id] of ends) {
+			if (!newIds.has(id) && !existingIds.has(id)) {
+				addIssue(context, ['edges', index, end], `Unknown node id "${id}"; use the id of a new or an existing node`)
+			}
+		}
+		if (edge.source === edge.target) {
+			addIssue(context, ['edges', index], 'An edge cannot connect a node to itself')
+		}
+	})
+}
+
+/**
+ * Schema of the node suggestions the model replies with. Edges must connect
+ * known nodes.
+ * @param existingIds IDs of existing nodes edges may connect to
+ * @returns The schema
+ */
+const createSuggestionPayloadSchema = (existingIds: Set<string>) =>
+	z
+		.object({
+			nodes: z.array(suggestedNodeSchema),
+			edges: z.array(suggestedEdgeSchema).default([]),
+		})
+		.superRefine((payload, context) => checkSuggestedGraph(payload, existingIds, context))
+
+/**
+ * Schema of the reply to a graph operation. Updates and groups may only refer
+ * to the selected nodes, and a node can be in one group only.
+ * @param selectedIds IDs of the nodes the operation runs on
+ * @param existingIds IDs of all existing nodes edges may connect to
+ * @returns The schema
+ */
+const createGraphOperationSchema = (selectedIds: Set<string>, existingIds: Set<string>) =>
+	z
+		.object({
+			nodes: z.array(suggestedNodeSchema.extend({ id: z.string().min(1) })).default([]),
+			edges: z.array(suggestedEdgeSchema).default([]),
+			updates: z
+				.array(z.object({ id: z.string(), title: z.string().optional(), content: z.string().optional() }))
+				.default([]),
+			groups: z.array(z.object({ title: z.string().min(1), nodeIds: z.array(z.string()).min(1) })).default([]),
+		})
+		.superRefine((payload, context) => {
+			checkSuggestedGraph(payload, existingIds, context)
+			payload.updates.forEach((update, index) => {
+				if (!selectedIds.has(update.id)) {
+					addIssue(context, ['updates', index, 'id'], `Node "${update.id}" is not one of the selected nodes`)
+				}
+			})
+			const grouped = new Set<string>()
+			payload.groups.forEach((group, index) => {
+				group.nodeIds.forEach((id, position) => {
+					if (!selectedIds.has(id)) {
+						addIssue(context, ['groups', index, 'nodeIds', position], `Node "${id}" is not one of the selected nodes`)
+					} else if (grouped.has(id)) {
+						addIssue(context, ['groups', index, 'nodeIds', position], `Node "${id}" is in more than one group`)
+					}
+					grouped.add(id)
+				})
+			})
+		})
+
+// What to do for each graph operation, added to the shared instructions
+const getGraphOperationInstructions = (operation: GraphOperation): string => {
+	switch (operation) {
+	case 'expand':
+		return 'Expand each selected node into 2-4 child ideas. Add them as new nodes and connect each selected node to its children with an edge from the selected node to the child.'
+	case 'summarize':
+		return 'Summarize the selected nodes in one new note node that states what they have in common. Connect the summary to each selected node with an edge from the summary to the node.'
+	case 'cluster':
+		return 'Group the selected nodes by theme. Return groups with a short title and the ids of their nodes. Leave out nodes that fit no theme. Do not add nodes.'
+	case 'critique':
+		return 'Find gaps and contradictions in the selected nodes. Add one note node per finding whose title starts with "Gap:" or "Contradiction:", and connect it to the nodes it is about with an edge from the finding to the node, labeled "gap" or "contradicts".'
+	case 'rewrite':
+		return 'Rewrite the selected nodes for clarity without changing their meaning. Return one update per node with its id and the new title and content. Do not add nodes.'
+	}
+}
+
+interface ResolvedModel {
+	provider: LLMProvider
+	config: ProviderConfig
+	model: string
+}
 
 /**
  * Service for handling LLM chat functionality
  */
 export class ChatService {
 	private static instance: ChatService
-	private apiKey: string | null = null
-	private apiUrl: string = 'https://openrouter.ai/api/v1/chat/completions'
-	private model: string = 'anthropic/claude-3-opus'
+	private providerConfigs = new Map<LLMProviderId, ProviderConfig>()
+	private defaultModel: ModelChoice = { provider: 'openrouter', model: openRouterProvider.defaultModel }
 
 	protected constructor() {
 		// Initialize if needed
@@ -21,17 +187,44 @@ export class ChatService {
 	}
 
 	/**
-	 * Configure the chat service
+	 * Configure the chat service for OpenRouter
 	 * @param apiKey OpenRouter API key
-	 * @param model Model to use (optional)
+	 * @param model Model to use by default (optional)
 	 */
 	public configure(apiKey: string, model?: string): void {
-		this.apiKey = apiKey
+		this.configureProvider('openrouter', { ...this.providerConfigs.get('openrouter'), apiKey })
 		if (model) {
-			this.model = model
+			this.defaultModel = { provider: 'openrouter', model }
 		}
 	}
 
+	/**
+	 * Configure the connection to a provider
+	 * @param id Provider to configure
+	 * @param config API key, base URL and context window
+	 */
+	public configureProvider(id: LLMProviderId, config: ProviderConfig): void {
+		this.providerConfigs.set(id, config)
+	}
+
+	/**
+	 * Set the provider and model used when a request doesn't choose one
+	 * @param choice Provider and model
+	 */
+	public setDefaultModel(choice: ModelChoice): void {
+		this.defaultModel = choice
+	}
+
+	/**
+	 * What the provider supports for a model
+	 * @param choice Provider and model; the default when left out
+	 * @returns The capabilities
+	 */
+	public getCapabilities(choice?: ModelChoice): ProviderCapabilities {
+		const { provider, model } = choice ?? this.defaultModel
+		return getProvider(provider).getCapabilities(model, this.providerConfigs.get(provider) ?? { apiKey: '' })
+	}
+
 	/**
 	 * Generate a unique ID - extracted for testability
 	 * @returns A unique ID string
@@ -51,7 +244,7 @@ export class ChatService {
 	/**
 	 * Send a message to the LLM and get a response
 	 *
-	 * This function handles communication with the OpenRouter API to send user messages
+	 * This function handles communication with the configured provider to send user messages
 	 * and receive AI responses. It formats the chat history and project context into
 	 * the format expected by the API, handles the API call, and processes the response.
 	 *
@@ -61,52 +254,21 @@ export class ChatService {
 	 *
 	 * @param messages - Array of ChatMessage objects representing the chat history
 	 * @param projectContext - Optional context about the current project to help the AI generate relevant responses
+	 * @param model - Optional provider and model to use instead of the default
 	 * @returns Promise<ChatMessage> - A promise that resolves to a ChatMessage containing the AI's response
-	 * @throws Error if the API key is not configured or if there's an API error
+	 * @throws Error if the provider is not configured or if there's an API error
 	 */
-	public async sendMessage(messages: ChatMessage[], projectContext?: Record<string, unknown>): Promise<ChatMessage> {
-		if (!this.apiKey) {
-			throw new Error('ChatService is not configured. Call configure() first.')
-		}
-
-		// Format messages for OpenRouter API
-		const formattedMessages = messages.map((msg) => ({
-			role: msg.role,
-			content: msg.content,
-		}))
-
-		// Add project context as system message if provided
-		if (projectContext) {
-			formattedMessages.unshift({
-				role: 'system',
-				content: `You are a helpful brainstorming assistant. Here is the current project context: ${JSON.stringify(projectContext)}`,
-			})
-		}
+	public async sendMessage(
+		messages: ChatMessage[],
+		projectContext?: Record<string, unknown>,
+		model?: ModelChoice,
+	): Promise<ChatMessage> {
+		const resolved = this.resolveModel(model)
+		const { provider } = resolved
 
 		try {
-			const response = await fetch(this.apiUrl, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					Authorization: `Bearer ${this.apiKey}`,
-					'HTTP-Referer': window.location.origin,
-					'X-Title': 'd.o.it.brainstorming',
-				},
-				body: JSON.stringify({
-					model: this.model,
-					messages: formattedMessages,
-				}),
-			})
-
-			if (!response.ok) {
-				const errorData = (await response.json()) as { error?: { message?: string } }
-				throw new Error(`API error: ${errorData.error?.message ?? response.statusText}`)
-			}
-
-			const data = (await response.json()) as {
-				choices?: Array<{ message?: { content?: string } }>
-			}
-			const assistantMessage = data.choices?.[0]?.message?.content ?? 'Sorry, I could not generate a response.'
+			const { content } = await this.complete(resolved, { messages: this.formatMessages(messages, projectContext) })
+			const assistantMessage = content !== '' ? content : 'Sorry, I could not generate a response.'
 
 			// Create a timestamp string that's safe for testing
 			const timestamp = this.getTimestamp()
@@ -118,43 +280,138 @@ export class ChatService {
 				timestamp,
 			}
 		} catch (error) {
-			console.error('Error calling OpenRouter API:', error)
+			console.error(`Error calling ${provider.label} API:`, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Stream a reply from the LLM, reporting text as it arrives
+	 *
+	 * The reply is requested as server-sent events. When the user aborts, the text
+	 * received so far is returned as a `stopped` message. When the connection
+	 * drops mid-reply, the partial text is returned as an `interrupted` message so
+	 * that it can be kept and resumed instead of being lost. Token usage is
+	 * attached when the provider reports it.
+	 *
+	 * @param messages - Chat history ending with the message to answer
+	 * @param options - Project context, abort signal and token callback
+	 * @returns Promise<ChatMessage> - The reply with its final status
+	 * @throws Error if the provider is not configured, on API errors, or when the
+	 * stream fails before any text arrived
+	 */
+	public async streamMessage(messages: ChatMessage[], options: StreamMessageOptions = {}): Promise<ChatMessage> {
+		const { projectContext, contextNodes = [], signal, onToken } = options
+		const { provider, config, model } = this.resolveModel(options.model)
+		const contextIds = new Set(contextNodes.map((node) => node.id))
+		const parseEvent = provider.createStreamParser()
+
+		let content = ''
+		let usage: TokenUsage | undefined
+		let finished = false
+
+		const toMessage = (status: NonNullable<ChatMessage['status']>): ChatMessage => {
+			const citations = parseCitations(content, contextIds)
+			return {
+				id: this.generateId(),
+				role: 'assistant',
+				content,
+				timestamp: this.getTimestamp(),
+				status,
+				...(usage ? { usage } : {}),
+				...(citations.length > 0 ? { citations } : {}),
+			}
+		}
+
+		try {
+			const { url, init } = provider.buildRequest(
+				{ model, messages: this.formatMessages(messages, projectContext, contextNodes), stream: true },
+				config,
+			)
+			const response = await fetch(url, { ...init, ...(signal ? { signal } : {}) })
+
+			if (!response.ok) {
+				throw new Error(`API error: ${await this.readErrorMessage(response)}`)
+			}
+			if (!response.body) {
+				throw new Error('API error: response has no body to stream')
+			}
+
+			for await (const event of readServerSentEvents(response.body)) {
+				const chunk = parseEvent(event)
+				if (chunk === 'done') {
+					finished = true
+					break
+				}
+				if (chunk === null) continue
+				if (chunk.error !== undefined) throw new Error(`API error: ${chunk.error}`)
+				if (chunk.usage) usage = chunk.usage
+				if (chunk.finishReason !== undefined) finished = true
+				if (chunk.delta !== '') {
+					content += chunk.delta
+					onToken?.(chunk.delta, content)
+				}
+			}
+		} catch (error) {
+			if (signal?.aborted === true) {
+				return toMessage('stopped')
+			}
+			// The reply was complete, only the closing event got lost
+			if (finished) return toMessage('complete')
+			// Keep what arrived before the stream failed
+			if (content !== '') {
+				console.error('Chat stream interrupted:', error)
+				return toMessage('interrupted')
+			}
+			console.error(`Error streaming from ${provider.label} API:`, error)
 			throw error
 		}
+
+		if (signal?.aborted === true) return toMessage('stopped')
+		if (!finished) {
+			if (content === '') throw new Error('The response stream ended before any text arrived')
+			return toMessage('interrupted')
+		}
+		return toMessage('complete')
 	}
 
 	/**
 	 * Generate node suggestions based on a user prompt
 	 *
-	 * This function uses the OpenRouter API to generate structured node suggestions
+	 * This function uses the configured provider to generate structured node suggestions
 	 * for brainstorming based on the user's input. It formats the response as a
-	 * ChatSuggestion object containing NodeSuggestion objects that can be displayed
-	 * to the user and converted to actual nodes in the brainstorming canvas.
+	 * ChatSuggestion object containing NodeSuggestion objects, and the edges the model
+	 * proposes among them and to existing nodes, that can be displayed to the user and
+	 * converted to actual nodes in the brainstorming canvas.
 	 *
-	 * The function handles error cases, including API errors, parsing errors, and
-	 * validation of the response format. It also includes context about the current
-	 * project and existing nodes to help the AI generate more relevant suggestions.
+	 * The reply is read leniently: prose around the JSON, code fences and output cut off
+	 * before the closing brackets are tolerated. When the reply still doesn't match the
+	 * expected format, the model is asked again with the validation error, up to
+	 * `MAX_STRUCTURED_ATTEMPTS` times.
 	 *
 	 * @param prompt - The user's text prompt describing what nodes to generate
 	 * @param projectContext - Optional context about the current project (node count, types, etc.)
-	 * @param existingNodes - Optional array of existing nodes to consider for context
+	 * @param existingNodes - Optional array of existing nodes to consider for context; edges can
+	 * connect to those with an `id`
+	 * @param model - Optional provider and model to use instead of the default
 	 * @returns Promise<ChatSuggestion> - A promise that resolves to a ChatSuggestion object
-	 * @throws Error if the API key is not configured or if there's an API error
+	 * @throws Error if the provider is not configured, if there's an API error, or if no
+	 * attempt produced valid suggestions
 	 */
 	public async generateNodeSuggestions(
 		prompt: string,
 		projectContext?: Record<string, unknown>,
 		existingNodes?: NodeSuggestion[],
+		model?: ModelChoice,
 	): Promise<ChatSuggestion> {
-		if (!this.apiKey) {
-			throw new Error('ChatService is not configured. Call configure() first.')
-		}
+		const resolved = this.resolveModel(model)
 
 		// Create a system message with instructions for generating nodes
-		const systemMessage = {
+		const systemMessage: LLMMessage = {
 			role: 'system',
 			content: `You are a brainstorming assistant that helps users organize their ideas into structured nodes.
-      Generate 3-5 nodes based on the user's input. Each node should have a title, content, type, and optional tags.
+      Generate 3-5 nodes based on the user's input. Each node should have an id, a title, content, type, and optional tags.
+      Connect related nodes with edges, to each other or to existing nodes, by their ids.
 
       Available node types are: 'idea', 'task', 'note', 'resource'.
 
@@ -162,12 +419,17 @@ export class ChatService {
       {
         "nodes": [
           {
+            "id": "new-1", // Unique among the new nodes
             "title": "Short title",
             "content": "Detailed content",
             "type": "idea", // One of: idea, task, note, resource
             "tags": ["tag1", "tag2"] // Optional
           },
           // More nodes...
+        ],
+        "edges": [
+          { "source": "new-1", "target": "new-2", "label": "Optional label" }
+          // More edges, optional
         ]
       }
 
@@ -185,86 +447,271 @@ export class ChatService {
 		}
 
 		// Create user message
-		const userMessage = {
+		const userMessage: LLMMessage = {
 			role: 'user',
 			content: prompt,
 		}
 
-		try {
-			const response = await fetch(this.apiUrl, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					Authorization: `Bearer ${this.apiKey}`,
-					'HTTP-Referer': window.location.origin,
-					'X-Title': 'd.o.it.brainstorming',
-				},
-				body: JSON.stringify({
-					model: this.model,
-					messages: [systemMessage, userMessage],
-				}),
-			})
+		const existingIds = new Set((existingNodes ?? []).map((node) => node.id).filter((id) => id !== undefined))
 
-			if (!response.ok) {
-				const errorData = (await response.json()) as { error?: { message?: string } }
-				throw new Error(`API error: ${errorData.error?.message ?? response.statusText}`)
+		try {
+			const payload = await this.requestStructured(
+				resolved,
+				[systemMessage, userMessage],
+				createSuggestionPayloadSchema(existingIds),
+				'node suggestions',
+			)
+			return {
+				id: this.generateId(),
+				nodes: payload.nodes.map((node) => ({
+					...(node.id !== undefined ? { id: node.id } : {}),
+					...this.toNodeSuggestion(node),
+				})),
+				...(payload.edges.length > 0 ? { edges: payload.edges.map((edge) => this.toEdgeSuggestion(edge)) } : {}),
+				originalMessage: prompt,
+				timestamp: this.getTimestamp(),
+				accepted: false,
 			}
+		} catch (error) {
+			console.error('Error generating node suggestions:', error)
+			throw error
+		}
+	}
 
-			const data = (await response.json()) as {
-				choices?: Array<{ message?: { content?: string } }>
-			}
-			const assistantMessage = data.choices?.[0]?.message?.content ?? '{"nodes": []}'
-
-			let parsedResponse
-			try {
-				// Parse the JSON response
-				parsedResponse = JSON.parse(assistantMessage)
-			} catch (error) {
-				console.error('Error parsing node suggestions:', error)
-				throw new Error('Failed to parse node suggestions')
-			}
+	/**
+	 * Runs an AI operation on the selected nodes, e.g. expanding them into child
+	 * ideas. Nothing is changed; the result is a diff to preview and apply.
+	 * @param operation What to do with the selected nodes
+	 * @param selection The selected nodes, with their IDs
+	 * @param existingNodes Other nodes on the canvas, for context and as edge targets
+	 * @param model Optional provider and model to use instead of the default
+	 * @returns The proposed changes
+	 * @throws Error if the provider is not configured, if there's an API error, or if no
+	 * attempt produced a valid reply
+	 */
+	public async generateGraphDiff(
+		operation: GraphOperation,
+		selection: NodeSuggestion[],
+		existingNodes: NodeSuggestion[] = [],
+		model?: ModelChoice,
+	): Promise<GraphDiff> {
+		const resolved = this.resolveModel(model)
+		const selectedIds = new Set(selection.map((node) => node.id).filter((id) => id !== undefined))
+		const existingIds = new Set(
+			[...selection, ...existingNodes].map((node) => node.id).filter((id) => id !== undefined),
+		)
+
+		const instructions = getGraphOperationInstructions(operation)
+
+		const systemMessage: LLMMessage = {
+			role: 'system',
+			content: `You are a brainstorming assistant that edits a graph of idea nodes.
+      ${instructions}
 
-			// Validate the response structure
-			const isValidResponse = (value: unknown): value is { nodes: unknown[] } => {
-				return (
-					value !== null &&
-					typeof value === 'object' &&
-					'nodes' in value &&
-					Array.isArray((value as { nodes?: unknown[] }).nodes)
-				)
-			}
+      Available node types are: 'idea', 'task', 'note', 'resource'.
 
-			if (!isValidResponse(parsedResponse)) {
-				throw new Error('Invalid response format')
-			}
+      Respond in the following JSON format only, leaving out the lists you do not need:
+      {
+        "nodes": [
+          { "id": "new-1", "title": "Short title", "content": "Detailed content", "type": "idea", "tags": ["tag1"] }
+        ],
+        "edges": [
+          { "source": "node id", "target": "node id", "label": "Optional label" }
+        ],
+        "updates": [
+          { "id": "id of a selected node", "title": "New title", "content": "New content" }
+        ],
+        "groups": [
+          { "title": "Theme", "nodeIds": ["ids of selected nodes"] }
+        ]
+      }
 
-			const nodeArray = parsedResponse.nodes as Array<{
-				title?: string
-				content?: string
-				type?: string
-				tags?: string[]
-			}>
+      New nodes need ids that are unique and differ from the existing ones. Edges connect new or existing nodes by their ids.
+      Do not include any explanatory text outside the JSON structure.`,
+		}
+		if (existingNodes.length > 0) {
+			systemMessage.content += `\n\nOther nodes on the canvas, for context:\n${JSON.stringify(existingNodes)}`
+		}
+		const userMessage: LLMMessage = {
+			role: 'user',
+			content: `Selected nodes:\n${JSON.stringify(selection)}`,
+		}
 
-			const chatSuggestion: ChatSuggestion = {
-				id: this.generateId(),
-				nodes: nodeArray.map((node) => ({
-					title: node.title || 'Untitled',
-					content: node.content || '',
-					type: this.validateNodeType(node.type || ''),
-					tags: Array.isArray(node.tags) ? node.tags : [],
+		try {
+			const payload = await this.requestStructured(
+				resolved,
+				[systemMessage, userMessage],
+				createGraphOperationSchema(selectedIds, existingIds),
+				'graph changes',
+			)
+			const selectedById = new Map(selection.map((node) => [node.id, node]))
+
+			const changes: GraphChange[] = [
+				...payload.nodes.map((node): GraphChange => ({
+					kind: 'add',
+					id: `add:${node.id}`,
+					node: { id: node.id, ...this.toNodeSuggestion(node) },
 				})),
-				originalMessage: prompt,
-				timestamp: this.getTimestamp(),
-				accepted: false,
-			}
+				...payload.updates.flatMap((update): GraphChange[] => {
+					const current = selectedById.get(update.id)
+					if (!current) return []
+					const before = { title: current.title, content: current.content }
+					const after = { title: update.title ?? current.title, content: update.content ?? current.content }
+					// Unchanged nodes are not worth reviewing
+					if (after.title === before.title && after.content === before.content) return []
+					return [{ kind: 'update', id: `update:${update.id}`, nodeId: update.id, before, after }]
+				}),
+				...payload.groups.map((group, index): GraphChange => ({
+					kind: 'group',
+					id: `group:${index + 1}`,
+					title: group.title,
+					nodeIds: group.nodeIds,
+				})),
+			]
 
-			return chatSuggestion
+			return {
+				id: this.generateId(),
+				operation,
+				nodeIds: [...selectedIds],
+				changes,
+				edges: payload.edges.map((edge) => this.toEdgeSuggestion(edge)),
+			}
 		} catch (error) {
-			console.error('Error generating node suggestions:', error)
+			console.error('Error generating graph changes:', error)
 			throw error
 		}
 	}
 
+	/**
+	 * Asks for a JSON reply until one matches the schema, showing the model its
+	 * reply and what is wrong with it after each failed attempt
+	 * @param resolved Provider and model
+	 * @param messages Conversation asking for the reply
+	 * @param schema Schema the reply must match
+	 * @param subject What is asked for, used in error messages
+	 * @returns The validated reply
+	 * @throws Error if no attempt produced a valid reply
+	 */
+	private async requestStructured<T>(
+		resolved: ResolvedModel,
+		messages: LLMMessage[],
+		schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+		subject: string,
+	): Promise<T> {
+		const conversation = [...messages]
+		// Providers with JSON mode can be held to the format instead of only asked for it
+		const jsonMode = resolved.provider.getCapabilities(resolved.model, resolved.config).jsonMode
+
+		for (let attempt = 1; ; attempt++) {
+			const { content } = await this.complete(resolved, { messages: conversation, jsonMode })
+			const result = parseStructuredOutput(content, schema)
+			if (result.success) return result.data
+
+			if (attempt >= MAX_STRUCTURED_ATTEMPTS) {
+				console.error(`Error parsing ${subject}:`, result.error)
+				throw new Error(result.kind === 'syntax' ? `Failed to parse ${subject}` : `Invalid response format: ${result.error}`)
+			}
+
+			conversation.push(
+				{ role: 'assistant', content },
+				{
+					role: 'user',
+					content: `Your reply could not be used:\n${result.error}\n\nAnswer again with only the corrected JSON object.`,
+				},
+			)
+		}
+	}
+
+	// Fills in defaults for the fields the model left out
+	private toNodeSuggestion(node: z.infer<typeof suggestedNodeSchema>): NodeSuggestion {
+		return {
+			title: node.title ?? 'Untitled',
+			content: node.content ?? '',
+			type: this.validateNodeType(node.type ?? ''),
+			tags: node.tags ?? [],
+		}
+	}
+
+	private toEdgeSuggestion({ source, target, label }: z.infer<typeof suggestedEdgeSchema>): EdgeSuggestion {
+		return { source, target, ...(label !== undefined ? { label } : {}) }
+	}
+
+	/**
+	 * Picks the provider and model for a request
+	 * @param choice Requested provider and model; the default when left out
+	 * @returns Provider, its configuration and the model
+	 * @throws Error if the provider is not configured
+	 */
+	private resolveModel(choice?: ModelChoice): ResolvedModel {
+		const { provider: id, model } = choice ?? this.defaultModel
+		const provider = getProvider(id)
+		const config = this.providerConfigs.get(id)
+		if (!config || !isProviderReady(provider, config)) {
+			const missing = config ? 'an API key' : 'its settings'
+			throw new Error(`ChatService is not configured: ${provider.label} is missing ${missing}.`)
+		}
+		return { provider, config, model }
+	}
+
+	/**
+	 * Requests a complete reply
+	 * @param resolved Provider and model
+	 * @param request Messages and options
+	 * @returns The reply
+	 * @throws Error on API errors
+	 */
+	private async complete(
+		{ provider, config, model }: ResolvedModel,
+		request: { messages: LLMMessage[]; jsonMode?: boolean },
+	): Promise<{ content: string; usage?: TokenUsage }> {
+		const { url, init } = provider.buildRequest({ model, ...request }, config)
+		const response = await fetch(url, init)
+		if (!response.ok) {
+			throw new Error(`API error: ${await this.readErrorMessage(response)}`)
+		}
+		return provider.parseResponse(await response.json())
+	}
+
+	/**
+	 * Reads the error message of a failed request, which all providers send as `error.message`
+	 * @param response Failed response
+	 * @returns The message, or the status text when there is none
+	 */
+	private async readErrorMessage(response: Response): Promise<string> {
+		const errorData = (await response.json().catch(() => ({}))) as { error?: { message?: string } }
+		return errorData.error?.message ?? response.statusText
+	}
+
+	/**
+	 * Format messages for the completion request
+	 * @param messages Chat history
+	 * @param projectContext Context added as a system message if provided
+	 * @param contextNodes Retrieved project nodes, added to the system message with citation instructions
+	 * @returns Messages in the provider-neutral format
+	 */
+	private formatMessages(
+		messages: ChatMessage[],
+		projectContext?: Record<string, unknown>,
+		contextNodes: RetrievableNode[] = [],
+	): LLMMessage[] {
+		const formattedMessages: LLMMessage[] = messages.map((msg) => ({
+			role: msg.role,
+			content: msg.content,
+		}))
+
+		if (projectContext || contextNodes.length > 0) {
+			let content = 'You are a helpful brainstorming assistant.'
+			if (projectContext) {
+				content += ` Here is the current project context: ${JSON.stringify(projectContext)}`
+			}
+			if (contextNodes.length > 0) {
+				content += `\n\nThese nodes of the project are the most relevant to the question. When you use one, cite it with its marker, e.g. [node:${contextNodes[0]?.id ?? ''}], right after the statement. Only cite nodes listed here.\n\n${contextNodes.map(formatContextNode).join('\n\n')}`
+			}
+			formattedMessages.unshift({ role: 'system', content })
+		}
+		return formattedMessages
+	}
+
 	/**
 	 * Validate node type
 	 * @param type Node type to validate
@@ -279,27 +726,20 @@ export class ChatService {
 	}
 
 	/**
-	 * Get available models from OpenRouter
+	 * Get the models a provider offers
+	 * @param providerId Provider to ask; the default provider when left out
 	 * @returns List of available models
 	 */
-	public async getAvailableModels(): Promise<unknown[]> {
-		if (!this.apiKey) {
-			throw new Error('ChatService is not configured. Call configure() first.')
-		}
+	public async getAvailableModels(providerId?: LLMProviderId): Promise<unknown[]> {
+		const id = providerId ?? this.defaultModel.provider
+		const { provider, config } = this.resolveModel({ provider: id, model: getProvider(id).defaultModel })
 
 		try {
-			const response = await fetch('https://openrouter.ai/api/v1/models', {
-				method: 'GET',
-				headers: {
-					Authorization: `Bearer ${this.apiKey}`,
-					'HTTP-Referer': window.location.origin,
-					'X-Title': 'd.o.it.brainstorming',
-				},
-			})
+			const { url, init } = provider.buildModelsRequest(config)
+			const response = await fetch(url, init)
 
 			if (!response.ok) {
-				const errorData = (await response.json()) as { error?: { message?: string } }
-				throw new Error(`API error: ${errorData.error?.message ?? response.statusText}`)
+				throw new Error(`API error: ${await this.readErrorMessage(response)}`)
 			}
 
 			const data = (await response.json()) as { data?: unknown[] }
@@ -0,0 +1,346 @@
+import { decrypt, encrypt } from '../utils/encryption'
+
+import indexedDBService from './IndexedDBService'
+import loggerService from './LoggerService'
+
+/**
+ * Secrets kept in the credential vault instead of the plain settings
+ */
+export interface Credentials {
+	openRouterApiKey: string
+	anthropicApiKey: string
+	/** Optional for local servers, needed for OpenAI itself */
+	openAICompatibleApiKey: string
+	awsAccessKeyId: string
+	awsSecretAccessKey: string
+	/** Password or app password of the WebDAV sync server */
+	webdavPassword: string
+}
+
+export type CredentialKey = keyof Credentials
+
+export const CREDENTIAL_KEYS: readonly CredentialKey[] = [
+	'openRouterApiKey',
+	'anthropicApiKey',
+	'openAICompatibleApiKey',
+	'awsAccessKeyId',
+	'awsSecretAccessKey',
+	'webdavPassword',
+]
+
+export const EMPTY_CREDENTIALS: Readonly<Credentials> = {
+	openRouterApiKey: '',
+	anthropicApiKey: '',
+	openAICompatibleApiKey: '',
+	awsAccessKeyId: '',
+	awsSecretAccessKey: '',
+	webdavPassword: '',
+}
+
+/**
+ * `none` until a passphrase has been chosen
+ */
+export type VaultStatus = 'none' | 'locked' | 'unlocked'
+
+export const MIN_PASSPHRASE_LENGTH = 8
+export const DEFAULT_VAULT_IDLE_MINUTES = 15
+
+// Secure store key of the encrypted credentials
+const VAULT_KEY = 'credential-vault'
+
+/**
+ * Picks the credential fields out of any object, e.g. settings saved before
+ * the vault existed
+ * @param source Object that may contain credentials
+ * @returns Non-empty credentials found
+ */
+export function pickCredentials(source: Record<string, unknown>): Partial<Credentials> {
+	const values = new Map(Object.entries(source))
+	return Object.fromEntries(
+		CREDENTIAL_KEYS.flatMap((key) => {
+			const value = values.get(key)
+			return typeof value === 'string' && value !== '' ? [[key, value]] : []
+		}),
+	)
+}
+
+/**
+ * Keeps API keys and AWS secrets encrypted with a passphrase in the secure
+ * store. The decrypted credentials only live in memory while the vault is
+ * unlocked, and the vault locks itself after a period without activity.
+ */
+export class CredentialVaultService {
+	private static instance: CredentialVaultService
+	private status: VaultStatus = 'none'
+	private credentials: Credentials | null = null
+	private passphrase: string | null = null
+	private initPromise: Promise<void> | null = null
+	private idleTimeoutMs = DEFAULT_VAULT_IDLE_MINUTES * 60 * 1000
+	private idleTimerId: number | null = null
+	private listeners: Array<(status: VaultStatus) => void> = []
+
+	private constructor() {
+		// Private constructor for singleton
+	}
+
+	public static getInstance(): CredentialVaultService {
+		if (CredentialVaultService.instance === null || CredentialVaultService.instance === undefined) {
+			CredentialVaultService.instance = new CredentialVaultService()
+		}
+		return CredentialVaultService.instance
+	}
+
+	/**
+	 * Check whether a vault has been created
+	 * @returns Promise that resolves with the vault status
+	 */
+	public async init(): Promise<VaultStatus> {
+		this.initPromise ??= indexedDBService
+			.hasSecureData(VAULT_KEY)
+			.then((exists) => {
+				if (this.status === 'none' && exists) this.setStatus('locked')
+			})
+			.catch((error: unknown) => {
+				// Try again on the next call
+				this.initPromise = null
+				void loggerService.error(
+					'Failed to open credential vault',
+					error instanceof Error ? error : new Error(String(error)),
+				)
+			})
+		await this.initPromise
+		return this.status
+	}
+
+	public getStatus(): VaultStatus {
+		return this.status
+	}
+
+	/**
+	 * Get the decrypted credentials
+	 * @returns Credentials, or null while the vault is locked
+	 */
+	public getCredentials(): Credentials | null {
+		return this.credentials ? { ...this.credentials } : null
+	}
+
+	/**
+	 * Create the vault and unlock it
+	 * @param passphrase Passphrase protecting the vault
+	 * @param credentials Initial credentials
+	 * @throws Error if a vault already exists or the passphrase is too short
+	 */
+	public async create(passphrase: string, credentials: Partial<Credentials> = {}): Promise<void> {
+		await this.init()
+		if (this.status !== 'none') {
+			throw new Error('Credential vault already exists')
+		}
+		this.assertPassphrase(passphrase)
+
+		const initial = { ...EMPTY_CREDENTIALS, ...credentials }
+		await this.write(initial, passphrase)
+		this.open(initial, passphrase)
+	}
+
+	/**
+	 * Unlock the vault
+	 * @param passphrase Passphrase of the vault
+	 * @returns Promise that resolves with false if the passphrase is wrong
+	 * @throws Error if there is no vault
+	 */
+	public async unlock(passphrase: string): Promise<boolean> {
+		await this.init()
+		if (this.status === 'none') {
+			throw new Error('Credential vault does not exist')
+		}
+
+		const credentials = await this.read(passphrase)
+		if (credentials === null) return false
+		this.open(credentials, passphrase)
+		return true
+	}
+
+	/**
+	 * Lock the vault and forget the decrypted credentials
+	 */
+	public lock(): void {
+		if (this.status !== 'unlocked') return
+		this.clearIdleTimer()
+		this.credentials = null
+		this.passphrase = null
+		indexedDBService.setEncryptionPassword(null)
+		this.setStatus('locked')
+	}
+
+	/**
+	 * Change some of the credentials
+	 * @param changes Credentials to replace
+	 * @returns Promise that resolves with all credentials
+	 * @throws Error if the vault is locked
+	 */
+	public async updateCredentials(changes: Partial<Credentials>): Promise<Credentials> {
+		const { credentials, passphrase } = this.requireUnlocked()
+		const updated = { ...credentials, ...changes }
+		await this.write(updated, passphrase)
+		this.credentials = updated
+		this.touch()
+		this.notifyListeners()
+		return { ...updated }
+	}
+
+	/**
+	 * Re-encrypt the vault with a new passphrase
+	 * @param current Current passphrase
+	 * @param next New passphrase
+	 * @returns Promise that resolves with false if the current passphrase is wrong
+	 * @throws Error if there is no vault or the new passphrase is too short
+	 */
+	public async changePassphrase(current: string, next: string): Promise<boolean> {
+		await this.init()
+		if (this.status === 'none') {
+			throw new Error('Credential vault does not exist')
+		}
+		this.assertPassphrase(next)
+
+		// Read with the current passphrase, so the vault may also be locked
+		const credentials = await this.read(current)
+		if (credentials === null) return false
+		await this.write(credentials, next)
+		this.open(credentials, next)
+		return true
+	}
+
+	/**
+	 * Delete the vault and its credentials, e.g. after the passphrase was forgotten
+	 */
+	public async destroy(): Promise<void> {
+		await indexedDBService.deleteSecureData(VAULT_KEY)
+		this.clearIdleTimer()
+		this.credentials = null
+		this.passphrase = null
+		indexedDBService.setEncryptionPassword(null)
+		this.setStatus('none')
+	}
+
+	/**
+	 * Seal the credentials for a settings export
+	 * @returns Promise that resolves with the credentials encrypted with the vault passphrase
+	 * @throws Error if the vault is locked
+	 */
+	public async exportCredentials(): Promise<string> {
+		const { credentials, passphrase } = this.requireUnlocked()
+		return encrypt(credentials, passphrase)
+	}
+
+	/**
+	 * Take over credentials sealed by `exportCredentials`
+	 * @param sealed Exported credentials
+	 * @returns Promise that resolves with false if they were sealed with another passphrase
+	 * @throws Error if the vault is locked
+	 */
+	public async importCredentials(sealed: string): Promise<boolean> {
+		const { passphrase } = this.requireUnlocked()
+		try {
+			const credentials = await decrypt<Partial<Credentials>>(sealed, passphrase)
+			await this.updateCredentials(pickCredentials(credentials))
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	/**
+	 * Set how long the vault stays unlocked without activity
+	 * @param minutes Idle time in minutes; 0 keeps it unlocked until the page is closed
+	 */
+	public setIdleTimeout(minutes: number): void {
+		this.idleTimeoutMs = Math.max(0, minutes) * 60 * 1000
+		this.touch()
+	}
+
+	/**
+	 * Report user activity, restarting the idle timeout
+	 */
+	public touch(): void {
+		if (this.status !== 'unlocked') return
+		this.clearIdleTimer()
+		if (this.idleTimeoutMs > 0) {
+			this.idleTimerId = window.setTimeout(() => this.lock(), this.idleTimeoutMs)
+		}
+	}
+
+	/**
+	 * Add a listener for status and credential changes
+	 * @param listener Function called with the vault status
+	 * @returns Function to remove the listener
+	 */
+	public addStatusListener(listener: (status: VaultStatus) => void): () => void {
+		this.listeners.push(listener)
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener)
+		}
+	}
+
+	// Resolves with null if the passphrase is wrong
+	private async read(passphrase: string): Promise<Credentials | null> {
+		let stored: Partial<Credentials> | null
+		try {
+			stored = await indexedDBService.getSecureData<Partial<Credentials>>(VAULT_KEY, passphrase)
+		} catch {
+			// AES-GCM refuses to decrypt with a key from the wrong passphrase
+			return null
+		}
+		if (stored === null) {
+			// Destroyed meanwhile, e.g. in another tab
+			this.setStatus('none')
+			throw new Error('Credential vault does not exist')
+		}
+		return { ...EMPTY_CREDENTIALS, ...stored }
+	}
+
+	private async write(credentials: Credentials, passphrase: string): Promise<void> {
+		await indexedDBService.storeSecureData(VAULT_KEY, credentials, passphrase)
+	}
+
+	private open(credentials: Credentials, passphrase: string): void {
+		this.credentials = credentials
+		this.passphrase = passphrase
+		indexedDBService.setEncryptionPassword(passphrase)
+		this.status = 'unlocked'
+		this.touch()
+		this.notifyListeners()
+	}
+
+	private requireUnlocked(): { credentials: Credentials; passphrase: string } {
+		if (this.status !== 'unlocked' || this.credentials === null || this.passphrase === null) {
+			throw new Error('Credential vault is locked')
+		}
+		return { credentials: this.credentials, passphrase: this.passphrase }
+	}
+
+	private assertPassphrase(passphrase: string): void {
+		if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+			throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+		}
+	}
+
+	private clearIdleTimer(): void {
+		if (this.idleTimerId !== null) {
+			window.clearTimeout(this.idleTimerId)
+			this.idleTimerId = null
+		}
+	}
+
+	private setStatus(status: VaultStatus): void {
+		this.status = status
+		this.notifyListeners()
+	}
+
+	private notifyListeners(): void {
+		for (const listener of this.listeners) {
+			listener(this.status)
+		}
+	}
+}
+
+export default CredentialVaultService.getInstance()
@@ -1,11 +1,82 @@
-import type { Project } from '../types'
+import type { Edge, GitCommit, GitDiff, GitObject, GitRef, GitTree, GitTreeEntry, Node, Project } from '../types'
+import { mergeProjects } from '../utils/projectMerge'
+
+import indexedDBService from './IndexedDBService'
+import loggerService from './LoggerService'
+
+export const DEFAULT_BRANCH = 'main'
+const HEAD = 'HEAD'
+const DEFAULT_AUTHOR = 'Local user'
+
+interface CommitOptions {
+	author?: string
+	parents?: string[]
+}
+
+/**
+ * A commit that has been built but not stored yet, so it can be written in
+ * the same transaction as the project it belongs to
+ */
+export interface PreparedCommit {
+	/** The project with the version of the commit */
+	project: Project
+	objects: GitObject[]
+	commit: GitCommit
+	refs: GitRef[]
+}
+
+// Shape of the pre-DAG history kept in localStorage
+interface LegacyCommit {
+	id: string
+	message: string
+	timestamp: string
+	version: string
+	projectSnapshot?: Project
+}
+
+interface LegacyProjectEntry {
+	id: string
+	commits?: LegacyCommit[]
+}
+
+/**
+ * Serializes a value with sorted object keys so equal content always hashes the same
+ */
+const canonicalize = (value: unknown): string => {
+	if (value === null || typeof value !== 'object') {
+		return JSON.stringify(value) ?? 'null'
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalize).join(',')}]`
+	}
+	const entries = Object.entries(value as Record<string, unknown>)
+		.filter(([, entry]) => entry !== undefined && typeof entry !== 'function')
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+	return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(',')}}`
+}
+
+const hashContent = async (value: unknown): Promise<string> => {
+	const bytes = new TextEncoder().encode(canonicalize(value))
+	const digest = await crypto.subtle.digest('SHA-256', bytes)
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('')
+}
+
+// Strip runtime-only values (callbacks, selection state) before storing
+const toStorable = <T>(value: T): T => JSON.parse(canonicalize(value)) as T
+
+const createVersion = (date: Date): string =>
+	`${date.getFullYear()}.${date.getMonth() + 1}.${date.getDate()}-${date.getHours()}${date.getMinutes()}`
 
 /**
- * Service for handling Git-like versioning of projects
+ * Service for Git-like versioning of projects.
+ * Commits form a DAG stored in IndexedDB; node, edge and metadata blobs are
+ * content-addressed, so unchanged parts of a project are stored only once.
  */
 export class GitService {
 	private static instance: GitService
-	private localStorageKey = 'git_projects'
+	private legacyStorageKey = 'git_projects'
 
 	private constructor() {
 		// Initialize if needed
@@ -19,154 +90,488 @@ export class GitService {
 	}
 
 	/**
-	 * Save a project as a new commit
+	 * Save a project as a new commit on the current branch
 	 * @param project Project to save
 	 * @param commitMessage Commit message
+	 * @param options Optional author and explicit parents (e.g. for merges)
 	 * @returns Updated project with new version
 	 */
-	public async commit(project: Project, commitMessage: string): Promise<Project> {
-		const projects = this.getProjects()
-		const existingProject = projects.find((p) => p.id === project.id)
+	public async commit(project: Project, commitMessage: string, options: CommitOptions = {}): Promise<Project> {
+		const prepared = await this.prepareCommit(project, commitMessage, options)
+		await indexedDBService.saveGitCommit(prepared.objects, prepared.commit, prepared.refs)
+		void loggerService.info(`Committed ${prepared.commit.id.substring(0, 7)} to project ${project.id}`)
 
-		// Create a new version based on the current date
+		return prepared.project
+	}
+
+	/**
+	 * Build a commit on the current branch without storing it
+	 * @param project Project to commit
+	 * @param commitMessage Commit message
+	 * @param options Optional author and explicit parents (e.g. for merges)
+	 * @returns The commit with its blobs, the refs it moves and the project with the new version
+	 */
+	public async prepareCommit(project: Project, commitMessage: string, options: CommitOptions = {}): Promise<PreparedCommit> {
 		const now = new Date()
-		const version = `${now.getFullYear()}.${now.getMonth() + 1}.${now.getDate()}-${now.getHours()}${now.getMinutes()}`
+		const version = createVersion(now)
+		const committedProject: Project = { ...project, version, updatedAt: now.toISOString() }
+
+		const { tree, objects } = await this.writeTree(committedProject)
+		const head = await this.getHead(project.id)
+		const parents = options.parents ?? (head.commitId ? [head.commitId] : [])
 
-		// Create a commit object
-		const commit = {
-			id: crypto.randomUUID(),
+		const commitBody = {
+			projectId: project.id,
+			parents,
+			tree,
 			message: commitMessage,
+			author: options.author ?? DEFAULT_AUTHOR,
 			timestamp: now.toISOString(),
 			version,
-			projectSnapshot: { ...project },
 		}
+		const commit: GitCommit = { id: await hashContent(commitBody), ...commitBody }
 
-		if (existingProject) {
-			// Update existing project
-			existingProject.commits = existingProject.commits || []
-			existingProject.commits.push(commit)
-			existingProject.currentCommitId = commit.id
-			existingProject.version = version
-			existingProject.updatedAt = now.toISOString()
+		const refs: GitRef[] = head.branch
+			? [{ projectId: project.id, type: 'branch', name: head.branch, target: commit.id }]
+			: [{ projectId: project.id, type: 'head', name: HEAD, target: commit.id, detached: true }]
 
-			// Save updated projects
-			this.saveProjects(projects)
+		if (head.commitId === null && head.branch) {
+			// First commit: make HEAD point at the default branch
+			refs.push({ projectId: project.id, type: 'head', name: HEAD, target: head.branch })
+		}
 
-			return {
-				...project,
-				version,
-				updatedAt: now.toISOString(),
-			}
-		} else {
-			// Create new project entry
-			const newProjectEntry = {
-				id: project.id,
-				name: project.name,
-				description: project.description,
-				createdAt: now.toISOString(),
-				updatedAt: now.toISOString(),
-				version,
-				currentCommitId: commit.id,
-				commits: [commit],
-			}
+		return { project: committedProject, objects, commit, refs }
+	}
 
-			// Save updated projects
-			projects.push(newProjectEntry)
-			this.saveProjects(projects)
+	/**
+	 * Get all commits of a project, newest first
+	 * @param projectId Project ID
+	 * @returns Array of commits
+	 */
+	public async getCommits(projectId: string): Promise<GitCommit[]> {
+		await this.migrateLegacyHistory(projectId)
+		return indexedDBService.getGitCommits(projectId)
+	}
 
-			return {
-				...project,
-				version,
-				createdAt: now.toISOString(),
-				updatedAt: now.toISOString(),
-			}
+	/**
+	 * Get a single commit
+	 * @param commitId Commit ID
+	 * @returns The commit or null if not found
+	 */
+	public async getCommit(commitId: string): Promise<GitCommit | null> {
+		return indexedDBService.getGitCommit(commitId)
+	}
+
+	/**
+	 * Walk the history reachable from a branch, tag or commit
+	 * @param projectId Project ID
+	 * @param ref Branch, tag or commit ID; defaults to HEAD
+	 * @param limit Maximum number of commits to return
+	 * @returns Reachable commits, newest first
+	 */
+	public async log(projectId: string, ref?: string, limit = 100): Promise<GitCommit[]> {
+		const start = ref ? await this.resolveRef(projectId, ref) : (await this.getHead(projectId)).commitId
+		if (!start) {
+			return []
 		}
+
+		const commits = await this.getCommits(projectId)
+		const byId = new Map(commits.map((commit) => [commit.id, commit]))
+		const reachable = new Set<string>()
+		const pending = [start]
+
+		while (pending.length > 0) {
+			const id = pending.pop() as string
+			if (reachable.has(id)) continue
+			const commit = byId.get(id)
+			if (!commit) continue
+			reachable.add(id)
+			pending.push(...commit.parents)
+		}
+
+		return commits.filter((commit) => reachable.has(commit.id)).slice(0, limit)
 	}
 
 	/**
-	 * Get all commits for a project
+	 * Checkout a branch, tag or commit
 	 * @param projectId Project ID
-	 * @returns Array of commits
+	 * @param ref Branch name, tag name or commit ID
+	 * @returns Project snapshot from the commit, or null if the ref does not exist
 	 */
-	public getCommits(projectId: string): { id: string; message: string; date: string; changes: unknown }[] {
-		const projects = this.getProjects()
-		const project = projects.find((p) => p.id === projectId)
+	public async checkout(projectId: string, ref: string): Promise<Project | null> {
+		const refs = await indexedDBService.getGitRefs(projectId)
+		const branch = refs.find((item) => item.type === 'branch' && item.name === ref)
+		const commitId = await this.resolveRef(projectId, ref)
 
-		if (!project) {
-			return []
+		if (!commitId) {
+			return null
+		}
+
+		const snapshot = await this.readSnapshot(commitId)
+		if (!snapshot) {
+			return null
 		}
 
-		return project.commits || []
+		await indexedDBService.saveGitRef(
+			branch
+				? { projectId, type: 'head', name: HEAD, target: branch.name }
+				: { projectId, type: 'head', name: HEAD, target: commitId, detached: true },
+		)
+
+		return snapshot
 	}
 
 	/**
-	 * Checkout a specific commit
+	 * Get the commit HEAD points at
 	 * @param projectId Project ID
+	 * @returns Current commit or null if the project has no history
+	 */
+	public async getCurrentCommit(projectId: string): Promise<GitCommit | null> {
+		const { commitId } = await this.getHead(projectId)
+		return commitId ? indexedDBService.getGitCommit(commitId) : null
+	}
+
+	/**
+	 * Get the current branch name
+	 * @param projectId Project ID
+	 * @returns Branch name, or null when HEAD is detached
+	 */
+	public async getCurrentBranch(projectId: string): Promise<string | null> {
+		return (await this.getHead(projectId)).branch
+	}
+
+	/**
+	 * Get the project as stored at a commit
 	 * @param commitId Commit ID
-	 * @returns Project snapshot from the commit
+	 * @returns Project snapshot or null if the commit does not exist
 	 */
-	public checkout(projectId: string, commitId: string): Project | null {
-		const projects = this.getProjects()
-		const project = projects.find((p) => p.id === projectId)
+	public async getSnapshot(commitId: string): Promise<Project | null> {
+		return this.readSnapshot(commitId)
+	}
 
-		if (!project) {
-			return null
+	/**
+	 * List branches of a project
+	 * @param projectId Project ID
+	 * @returns Branch refs
+	 */
+	public async listBranches(projectId: string): Promise<GitRef[]> {
+		const refs = await indexedDBService.getGitRefs(projectId)
+		return refs.filter((ref) => ref.type === 'branch')
+	}
+
+	/**
+	 * Create a branch
+	 * @param projectId Project ID
+	 * @param name Branch name
+	 * @param startPoint Branch, tag or commit to start from; defaults to HEAD
+	 * @returns The new branch ref
+	 */
+	public async createBranch(projectId: string, name: string, startPoint?: string): Promise<GitRef> {
+		return this.createRef(projectId, 'branch', name, startPoint)
+	}
+
+	/**
+	 * Delete a branch. The current branch cannot be deleted.
+	 * @param projectId Project ID
+	 * @param name Branch name
+	 */
+	public async deleteBranch(projectId: string, name: string): Promise<void> {
+		const head = await this.getHead(projectId)
+		if (head.branch === name) {
+			throw new Error(`Cannot delete the current branch ${name}`)
 		}
+		await indexedDBService.deleteGitRef(projectId, 'branch', name)
+	}
 
-		const commit = project.commits?.find((c) => c.id === commitId)
+	/**
+	 * List tags of a project
+	 * @param projectId Project ID
+	 * @returns Tag refs
+	 */
+	public async listTags(projectId: string): Promise<GitRef[]> {
+		const refs = await indexedDBService.getGitRefs(projectId)
+		return refs.filter((ref) => ref.type === 'tag')
+	}
 
-		if (!commit) {
-			return null
+	/**
+	 * Create a tag
+	 * @param projectId Project ID
+	 * @param name Tag name
+	 * @param target Branch, tag or commit to tag; defaults to HEAD
+	 * @returns The new tag ref
+	 */
+	public async createTag(projectId: string, name: string, target?: string): Promise<GitRef> {
+		return this.createRef(projectId, 'tag', name, target)
+	}
+
+	/**
+	 * Delete a tag
+	 * @param projectId Project ID
+	 * @param name Tag name
+	 */
+	public async deleteTag(projectId: string, name: string): Promise<void> {
+		await indexedDBService.deleteGitRef(projectId, 'tag', name)
+	}
+
+	/**
+	 * Compare the trees of two commits by blob hash
+	 * @param commitA Base commit ID
+	 * @param commitB Compared commit ID
+	 * @returns IDs of added, removed and modified nodes and edges
+	 */
+	public async diff(commitA: string, commitB: string): Promise<GitDiff> {
+		const [a, b] = await Promise.all([indexedDBService.getGitCommit(commitA), indexedDBService.getGitCommit(commitB)])
+		if (!a || !b) {
+			throw new Error(`Commit ${!a ? commitA : commitB} not found`)
 		}
 
-		// Update current commit ID
-		project.currentCommitId = commitId
-		this.saveProjects(projects)
+		const compare = (from: GitTreeEntry[], to: GitTreeEntry[]) => {
+			const fromById = new Map(from.map((entry) => [entry.id, entry.hash]))
+			const toById = new Map(to.map((entry) => [entry.id, entry.hash]))
+			return {
+				added: to.filter((entry) => !fromById.has(entry.id)).map((entry) => entry.id),
+				removed: from.filter((entry) => !toById.has(entry.id)).map((entry) => entry.id),
+				modified: to
+					.filter((entry) => fromById.has(entry.id) && fromById.get(entry.id) !== entry.hash)
+					.map((entry) => entry.id),
+			}
+		}
 
-		return commit.projectSnapshot
+		return {
+			from: a.id,
+			to: b.id,
+			metaChanged: a.tree.meta !== b.tree.meta,
+			nodes: compare(a.tree.nodes, b.tree.nodes),
+			edges: compare(a.tree.edges, b.tree.edges),
+		}
 	}
 
 	/**
-	 * Get the current commit for a project
+	 * Undo the changes of a commit with a new commit on the current branch.
+	 * Later changes to the same nodes and edges are kept.
 	 * @param projectId Project ID
-	 * @returns Current commit
+	 * @param commitId Commit to revert
+	 * @param message Optional commit message
+	 * @returns The reverted project
 	 */
-	public getCurrentCommit(projectId: string): { id: string; message: string; date: string; changes: unknown } | null {
-		const projects = this.getProjects()
-		const project = projects.find((p) => p.id === projectId)
+	public async revert(projectId: string, commitId: string, message?: string): Promise<Project> {
+		const target = await indexedDBService.getGitCommit(commitId)
+		const head = await this.getCurrentCommit(projectId)
+		if (!target || !head) {
+			throw new Error(`Commit ${commitId} not found`)
+		}
+
+		const [targetSnapshot, headSnapshot] = await Promise.all([
+			this.readSnapshot(target.id),
+			this.readSnapshot(head.id),
+		])
+		if (!targetSnapshot || !headSnapshot) {
+			throw new Error(`Snapshot for commit ${commitId} is incomplete`)
+		}
+
+		const parentId = target.parents[0]
+		const parentSnapshot = parentId
+			? await this.readSnapshot(parentId)
+			: { ...targetSnapshot, nodes: [], edges: [] }
+		if (!parentSnapshot) {
+			throw new Error(`Parent of commit ${commitId} not found`)
+		}
+
+		// Reverting is a three-way merge that applies "target -> parent" onto HEAD
+		const { project, conflicts } = mergeProjects(targetSnapshot, headSnapshot, parentSnapshot)
+		if (conflicts.length > 0) {
+			void loggerService.warn(
+				`Revert of ${commitId.substring(0, 7)} kept ${conflicts.length} later change(s) that conflict with it`,
+			)
+		}
+
+		return this.commit(
+			{ ...project, name: headSnapshot.name, description: headSnapshot.description },
+			message ?? `Revert "${target.message}"`,
+		)
+	}
+
+	/**
+	 * Resolve a branch, tag, HEAD or commit ID to a commit ID
+	 */
+	private async resolveRef(projectId: string, ref: string): Promise<string | null> {
+		if (ref === HEAD) {
+			return (await this.getHead(projectId)).commitId
+		}
+
+		const refs = await indexedDBService.getGitRefs(projectId)
+		const named =
+			refs.find((item) => item.type === 'branch' && item.name === ref) ??
+			refs.find((item) => item.type === 'tag' && item.name === ref)
+		if (named) {
+			return named.target
+		}
+
+		const commit = await indexedDBService.getGitCommit(ref)
+		return commit?.projectId === projectId ? commit.id : null
+	}
+
+	private async createRef(
+		projectId: string,
+		type: 'branch' | 'tag',
+		name: string,
+		startPoint?: string,
+	): Promise<GitRef> {
+		const trimmed = name.trim()
+		if (!/^[\w.\-/]+$/.test(trimmed) || trimmed === HEAD) {
+			throw new Error(`Invalid ${type} name: ${name}`)
+		}
+
+		const refs = await indexedDBService.getGitRefs(projectId)
+		if (refs.some((ref) => ref.type === type && ref.name === trimmed)) {
+			throw new Error(`A ${type} named ${trimmed} already exists`)
+		}
 
-		if (!project || !project.currentCommitId) {
+		const target = await this.resolveRef(projectId, startPoint ?? HEAD)
+		if (!target) {
+			throw new Error(`Cannot create ${type} ${trimmed}: nothing to point at`)
+		}
+
+		const ref: GitRef = { projectId, type, name: trimmed, target }
+		await indexedDBService.saveGitRef(ref)
+		return ref
+	}
+
+	/**
+	 * Read HEAD: the checked-out branch (if any) and the commit it resolves to
+	 */
+	private async getHead(projectId: string): Promise<{ branch: string | null; commitId: string | null }> {
+		await this.migrateLegacyHistory(projectId)
+		const refs = await indexedDBService.getGitRefs(projectId)
+		const head = refs.find((ref) => ref.type === 'head')
+
+		if (!head) {
+			return { branch: DEFAULT_BRANCH, commitId: null }
+		}
+
+		if (head.detached === true) {
+			return { branch: null, commitId: head.target }
+		}
+
+		const branch = refs.find((ref) => ref.type === 'branch' && ref.name === head.target)
+		return { branch: head.target, commitId: branch?.target ?? null }
+	}
+
+	/**
+	 * Split a project into content-addressed blobs
+	 */
+	private async writeTree(project: Project): Promise<{ tree: GitTree; objects: GitObject[] }> {
+		const { nodes, edges, ...meta } = toStorable(project)
+		const objects: GitObject[] = []
+
+		const addObject = async (kind: GitObject['kind'], content: unknown): Promise<string> => {
+			const hash = await hashContent({ kind, content })
+			objects.push({ hash, kind, content })
+			return hash
+		}
+
+		const metaHash = await addObject('meta', meta)
+		const nodeEntries = await Promise.all(
+			nodes.map(async (node) => ({ id: node.id, hash: await addObject('node', node) })),
+		)
+		const edgeEntries = await Promise.all(
+			edges.map(async (edge) => ({ id: edge.id, hash: await addObject('edge', edge) })),
+		)
+
+		// Identical blobs within one commit only need to be written once
+		const uniqueObjects = [...new Map(objects.map((object) => [object.hash, object])).values()]
+
+		return { tree: { meta: metaHash, nodes: nodeEntries, edges: edgeEntries }, objects: uniqueObjects }
+	}
+
+	/**
+	 * Rebuild a project from the blobs of a commit tree
+	 */
+	private async readSnapshot(commitId: string): Promise<Project | null> {
+		const commit = await indexedDBService.getGitCommit(commitId)
+		if (!commit) {
 			return null
 		}
 
-		return project.commits?.find((c) => c.id === project.currentCommitId) || null
+		const { tree } = commit
+		const hashes = [tree.meta, ...tree.nodes.map((entry) => entry.hash), ...tree.edges.map((entry) => entry.hash)]
+		const objects = await indexedDBService.getGitObjects([...new Set(hashes)])
+		const byHash = new Map(objects.map((object) => [object.hash, object.content]))
+
+		const meta = byHash.get(tree.meta)
+		if (meta === undefined) {
+			return null
+		}
+
+		return {
+			...(meta as Omit<Project, 'nodes' | 'edges'>),
+			nodes: tree.nodes.map((entry) => byHash.get(entry.hash) as Node).filter(Boolean),
+			edges: tree.edges.map((entry) => byHash.get(entry.hash) as Edge).filter(Boolean),
+		}
 	}
 
 	/**
-	 * Get all projects from local storage
+	 * Import the snapshot history that was kept in localStorage before commits were
+	 * stored as a graph, for all projects at once
+	 * @returns Number of projects whose history was imported
 	 */
-	private getProjects(): {
-		id: string
-		name: string
-		commits?: { id: string; message: string; date: string; changes: unknown }[]
-		currentCommitId?: string
-	}[] {
-		const projectsJson = localStorage.getItem(this.localStorageKey)
-		return projectsJson ? JSON.parse(projectsJson) : []
+	public async importLegacyHistory(): Promise<number> {
+		const entries = this.readLegacyHistory()
+		for (const entry of entries) {
+			await this.migrateLegacyHistory(entry.id)
+		}
+		return entries.length
+	}
+
+	private readLegacyHistory(): LegacyProjectEntry[] {
+		try {
+			const json = localStorage.getItem(this.legacyStorageKey)
+			return json ? (JSON.parse(json) as LegacyProjectEntry[]) : []
+		} catch (error) {
+			void loggerService.warn('Could not read legacy git history', { error: String(error) })
+			return []
+		}
 	}
 
 	/**
-	 * Save projects to local storage
+	 * Import the legacy snapshot history of one project. Snapshots become a
+	 * linear chain on the default branch.
 	 */
-	private saveProjects(
-		projects: {
-			id: string
-			name: string
-			commits?: { id: string; message: string; date: string; changes: unknown }[]
-			currentCommitId?: string
-		}[],
-	): void {
-		localStorage.setItem(this.localStorageKey, JSON.stringify(projects))
+	private async migrateLegacyHistory(projectId: string): Promise<void> {
+		const entries = this.readLegacyHistory()
+		const legacy = entries.find((entry) => entry.id === projectId)
+		if (!legacy) {
+			return
+		}
+
+		let parent: string | null = null
+		for (const legacyCommit of legacy.commits ?? []) {
+			if (!legacyCommit.projectSnapshot) continue
+			const { tree, objects } = await this.writeTree({ ...legacyCommit.projectSnapshot, version: legacyCommit.version })
+			const commitBody = {
+				projectId,
+				parents: parent ? [parent] : [],
+				tree,
+				message: legacyCommit.message,
+				author: DEFAULT_AUTHOR,
+				timestamp: legacyCommit.timestamp,
+				version: legacyCommit.version,
+			}
+			const commit: GitCommit = { id: await hashContent(commitBody), ...commitBody }
+			await indexedDBService.saveGitCommit(objects, commit, [
+				{ projectId, type: 'branch', name: DEFAULT_BRANCH, target: commit.id },
+				{ projectId, type: 'head', name: HEAD, target: DEFAULT_BRANCH },
+			])
+			parent = commit.id
+		}
+
+		const remaining = entries.filter((entry) => entry.id !== projectId)
+		if (remaining.length > 0) {
+			localStorage.setItem(this.legacyStorageKey, JSON.stringify(remaining))
+		} else {
+			localStorage.removeItem(this.legacyStorageKey)
+		}
+		void loggerService.info(`Migrated ${legacy.commits?.length ?? 0} legacy commit(s) for project ${projectId}`)
 	}
 }
 
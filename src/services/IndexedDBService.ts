@@ -1,9 +1,10 @@
-import type { Node, Edge } from '../types'
+import type { ChatThread, Node, Edge, GitCommit, GitObject, GitRef, GitRefType } from '../types'
 import { NodeType } from '../types'
 import type { ProjectTemplate } from '../types/project'
 import { encrypt, decrypt, isEncryptionAvailable } from '../utils/encryption'
 
 import loggerService from './LoggerService'
+import { DB_NAME, DB_VERSION, STORES, applySchemaMigrations, type StoreName } from './storage/schema'
 
 export interface SyncSettings {
 	enableS3Sync: boolean
@@ -34,26 +35,11 @@ export interface ProjectHistoryEntry {
 	projectId: string
 	action: string
 	timestamp: string
+	details?: Record<string, unknown>
 	data?: unknown
 	userId?: string
 }
 
-// Database configuration
-const DB_NAME = 'doitBrainstorming'
-const DB_VERSION = 3 // Increased for schema migration
-
-// Store names
-const STORES = {
-	SETTINGS: 'settings',
-	COLORS: 'colors',
-	NODE_PREFERENCES: 'nodePreferences',
-	LOGS: 'logs',
-	SECURE_STORE: 'secureStore',
-	PROJECTS: 'projects',
-	PROJECT_HISTORY: 'projectHistory',
-	OFFLINE_QUEUE: 'offlineQueue',
-}
-
 // Types for database entities
 export interface ColorScheme {
 	id: string
@@ -82,6 +68,7 @@ export interface NodePreferences {
 		[NodeType.TASK]?: string
 		[NodeType.NOTE]?: string
 		[NodeType.RESOURCE]?: string
+		[NodeType.GROUP]?: string
 	}
 }
 
@@ -108,6 +95,10 @@ export interface OfflineQueueEntry {
 	timestamp: string
 	retries: number
 	priority: number
+	projectId?: string
+	nextAttemptAt?: string
+	lastError?: string
+	failed?: boolean
 }
 
 /**
@@ -377,133 +368,20 @@ export class IndexedDBService {
 	 */
 	private handleDatabaseUpgrade(event: IDBVersionChangeEvent): void {
 		try {
-			const db = (event.target as IDBOpenDBRequest).result
-			const oldVersion = event.oldVersion
-			const transaction = (event.target as IDBOpenDBRequest).transaction
+			const request = event.target as IDBOpenDBRequest
+			if (request.transaction === null) return
 
 			// Handle schema migrations based on version
-			this.applyDatabaseMigrations(db, oldVersion, transaction)
+			applySchemaMigrations(request.result, request.transaction, event.oldVersion)
+
+			// Initialize with default data using the existing transaction
+			this.initializeDefaultData(request.result, request.transaction)
 		} catch (error) {
 			console.error('Error during database upgrade:', error)
 			// Don't throw, as this would abort the transaction
 		}
 	}
 
-	/**
-	 * Apply database migrations based on version
-	 */
-	private applyDatabaseMigrations(db: IDBDatabase, oldVersion: number, transaction: IDBTransaction): void {
-		// Version 1: Initial schema
-		if (oldVersion < 1) {
-			this.createInitialStores(db)
-		}
-
-		// Version 2: Add secure store and projects
-		if (oldVersion < 2) {
-			this.addVersion2Stores(db)
-		}
-
-		// Version 3: Add project history and offline queue
-		if (oldVersion < 3) {
-			this.addVersion3Stores(db)
-			this.updateProjectsStore(transaction)
-		}
-
-		// Initialize with default data using the existing transaction
-		this.initializeDefaultData(db, transaction)
-	}
-
-	/**
-	 * Create initial stores for version 1
-	 */
-	private createInitialStores(db: IDBDatabase): void {
-		if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-			db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' })
-		}
-
-		if (!db.objectStoreNames.contains(STORES.COLORS)) {
-			const colorStore = db.createObjectStore(STORES.COLORS, { keyPath: 'id' })
-			colorStore.createIndex('name', 'name', { unique: true })
-			colorStore.createIndex('isDefault', 'isDefault', { unique: false })
-		}
-
-		if (!db.objectStoreNames.contains(STORES.NODE_PREFERENCES)) {
-			db.createObjectStore(STORES.NODE_PREFERENCES, { keyPath: 'id' })
-		}
-
-		if (!db.objectStoreNames.contains(STORES.LOGS)) {
-			const logStore = db.createObjectStore(STORES.LOGS, { keyPath: 'id' })
-			logStore.createIndex('timestamp', 'timestamp', { unique: false })
-			logStore.createIndex('level', 'level', { unique: false })
-		}
-	}
-
-	/**
-	 * Add version 2 stores
-	 */
-	private addVersion2Stores(db: IDBDatabase): void {
-		if (!db.objectStoreNames.contains(STORES.SECURE_STORE)) {
-			const secureStore = db.createObjectStore(STORES.SECURE_STORE, { keyPath: 'id' })
-			secureStore.createIndex('key', 'key', { unique: true })
-			secureStore.createIndex('updatedAt', 'updatedAt', { unique: false })
-		}
-
-		if (!db.objectStoreNames.contains(STORES.PROJECTS)) {
-			const projectsStore = db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' })
-			projectsStore.createIndex('updatedAt', 'updatedAt', { unique: false })
-		}
-	}
-
-	/**
-	 * Add version 3 stores
-	 */
-	private addVersion3Stores(db: IDBDatabase): void {
-		if (!db.objectStoreNames.contains(STORES.PROJECT_HISTORY)) {
-			const historyStore = db.createObjectStore(STORES.PROJECT_HISTORY, {
-				keyPath: ['projectId', 'timestamp'],
-			})
-			historyStore.createIndex('projectId', 'projectId', { unique: false })
-			historyStore.createIndex('timestamp', 'timestamp', { unique: false })
-			historyStore.createIndex('action', 'action', { unique: false })
-		}
-
-		if (!db.objectStoreNames.contains(STORES.OFFLINE_QUEUE)) {
-			const queueStore = db.createObjectStore(STORES.OFFLINE_QUEUE, {
-				keyPath: 'id',
-				autoIncrement: true,
-			})
-			queueStore.createIndex('timestamp', 'timestamp', { unique: false })
-			queueStore.createIndex('type', 'type', { unique: false })
-		}
-	}
-
-	/**
-	 * Update projects store with new indexes
-	 */
-	private updateProjectsStore(transaction: IDBTransaction): void {
-		try {
-			// Update PROJECTS store with new indexes if it exists
-			if (transaction.objectStoreNames.contains(STORES.PROJECTS)) {
-				const projectsStore = transaction.objectStore(STORES.PROJECTS)
-
-				// Add new indexes if they don't exist
-				if (!projectsStore.indexNames.contains('isArchived')) {
-					projectsStore.createIndex('isArchived', 'isArchived', { unique: false })
-				}
-
-				if (!projectsStore.indexNames.contains('lastAccessedAt')) {
-					projectsStore.createIndex('lastAccessedAt', 'lastAccessedAt', { unique: false })
-				}
-
-				if (!projectsStore.indexNames.contains('tags')) {
-					projectsStore.createIndex('tags', 'tags', { unique: false, multiEntry: true })
-				}
-			}
-		} catch (error) {
-			console.error('Error updating projects store:', error)
-		}
-	}
-
 	/**
 	 * Initialize the database with default data
 	 * @param db Database instance
@@ -990,6 +868,35 @@ export class IndexedDBService {
 		})
 	}
 
+	/**
+	 * Delete a setting
+	 * @param key Setting key
+	 * @returns Promise that resolves when the setting is deleted
+	 */
+	public async deleteSetting(key: string): Promise<void> {
+		await this.init()
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.SETTINGS, 'readwrite')
+			const store = transaction.objectStore(STORES.SETTINGS)
+			const request = store.delete(key)
+
+			request.onsuccess = () => {
+				resolve()
+			}
+
+			request.onerror = (event) => {
+				console.error(`Error deleting setting ${key}:`, event)
+				reject(new Error(`Failed to delete setting ${key}`))
+			}
+		})
+	}
+
 	/**
 	 * Save multiple settings
 	 * @param settings Settings to save
@@ -1262,9 +1169,9 @@ export class IndexedDBService {
 
 	/**
 	 * Set encryption password for secure data
-	 * @param password Password to use for encryption
+	 * @param password Password to use for encryption, or null to forget it
 	 */
-	public setEncryptionPassword(password: string): void {
+	public setEncryptionPassword(password: string | null): void {
 		this.encryptionPassword = password
 	}
 
@@ -1280,15 +1187,27 @@ export class IndexedDBService {
 	 * Store secure data with encryption
 	 * @param key Unique key for the data
 	 * @param data Data to store securely
+	 * @param password Password to encrypt with instead of the one set with `setEncryptionPassword`
 	 * @returns Promise that resolves when the data is stored
 	 */
-	public async storeSecureData(key: string, data: unknown): Promise<void> {
+	public async storeSecureData(key: string, data: unknown, password?: string): Promise<void> {
+		// Taken before waiting, so a password set meanwhile doesn't apply
+		const secret = password ?? this.encryptionPassword
 		await this.init()
 
-		if (!this.isEncryptionConfigured()) {
+		if (!this.encryptionAvailable || secret === null) {
 			throw new Error('Encryption is not available or password is not set')
 		}
 
+		// Encrypt before the transaction starts, it would commit while waiting
+		let encryptedData: string
+		try {
+			encryptedData = await encrypt(data, secret)
+		} catch (error) {
+			console.error('Error encrypting data:', error)
+			throw new Error('Failed to encrypt data')
+		}
+
 		return new Promise((resolve, reject) => {
 			if (!this.db) {
 				reject(new Error('Database not initialized'))
@@ -1301,14 +1220,9 @@ export class IndexedDBService {
 			const index = store.index('key')
 			const request = index.get(key)
 
-			request.onsuccess = async () => {
+			request.onsuccess = () => {
 				try {
 					const now = new Date().toISOString()
-					if (!this.encryptionPassword) {
-						reject(new Error('Encryption password not set'))
-						return
-					}
-					const encryptedData = await encrypt(data, this.encryptionPassword)
 
 					if (request.result) {
 						// Update existing entry
@@ -1344,8 +1258,8 @@ export class IndexedDBService {
 						}
 					}
 				} catch (error) {
-					console.error('Error encrypting data:', error)
-					reject(new Error('Failed to encrypt data'))
+					console.error('Error storing secure data:', error)
+					reject(new Error('Failed to store secure data'))
 				}
 			}
 
@@ -1356,15 +1270,44 @@ export class IndexedDBService {
 		})
 	}
 
+	/**
+	 * Check whether secure data exists, without decrypting it
+	 * @param key Key of the data
+	 * @returns Promise that resolves with true if data is stored under the key
+	 */
+	public async hasSecureData(key: string): Promise<boolean> {
+		await this.init()
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.SECURE_STORE, 'readonly')
+			const store = transaction.objectStore(STORES.SECURE_STORE)
+			const request = store.index('key').count(key)
+
+			request.onsuccess = () => resolve(request.result > 0)
+			request.onerror = (event) => {
+				console.error('Error counting secure data:', event)
+				reject(new Error('Failed to get secure data'))
+			}
+		})
+	}
+
 	/**
 	 * Retrieve secure data with decryption
 	 * @param key Key of the data to retrieve
+	 * @param password Password to decrypt with instead of the one set with `setEncryptionPassword`
 	 * @returns Promise that resolves with the decrypted data
 	 */
-	public async getSecureData<T>(key: string): Promise<T | null> {
+	public async getSecureData<T>(key: string, password?: string): Promise<T | null> {
+		// Taken before waiting, so a password set meanwhile doesn't apply
+		const secret = password ?? this.encryptionPassword
 		await this.init()
 
-		if (!this.isEncryptionConfigured()) {
+		if (!this.encryptionAvailable || secret === null) {
 			throw new Error('Encryption is not available or password is not set')
 		}
 
@@ -1387,11 +1330,7 @@ export class IndexedDBService {
 
 				try {
 					const secureData = request.result as SecureData
-					if (!this.encryptionPassword) {
-						reject(new Error('Encryption password not set'))
-						return
-					}
-					const decryptedData = await decrypt<T>(secureData.data, this.encryptionPassword)
+					const decryptedData = await decrypt<T>(secureData.data, secret)
 					resolve(decryptedData)
 				} catch (error) {
 					console.error('Error decrypting data:', error)
@@ -1523,6 +1462,32 @@ export class IndexedDBService {
 		})
 	}
 
+	/**
+	 * Store an offline queue entry, replacing the entry with the same ID
+	 * @param entry Queue entry
+	 * @returns Promise that resolves when the entry is stored
+	 */
+	public async saveOfflineQueueEntry(entry: OfflineQueueEntry): Promise<void> {
+		await this.init()
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.OFFLINE_QUEUE, 'readwrite')
+			const store = transaction.objectStore(STORES.OFFLINE_QUEUE)
+			const request = store.put(entry)
+
+			request.onsuccess = () => resolve()
+			request.onerror = (event) => {
+				console.error(`Error saving entry ${entry.id} to offline queue:`, event)
+				reject(new Error(`Failed to save entry ${entry.id} to offline queue`))
+			}
+		})
+	}
+
 	/**
 	 * Remove an entry from the offline queue
 	 * @param id Entry ID
@@ -2016,6 +1981,403 @@ export class IndexedDBService {
 			}
 		})
 	}
+
+	/**
+	 * Store a commit together with its new blobs and the refs it moves, in one transaction
+	 * @param objects Blobs referenced by the commit tree; existing hashes are overwritten with identical content
+	 * @param commit Commit to store
+	 * @param refs Refs to create or move
+	 * @returns Promise that resolves when the transaction completes
+	 */
+	public async saveGitCommit(objects: GitObject[], commit: GitCommit, refs: GitRef[]): Promise<void> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			objects.forEach((object) => this.fallbackStorage.set(`${STORES.GIT_OBJECTS}_${object.hash}`, object))
+			this.fallbackStorage.set(`${STORES.GIT_COMMITS}_${commit.id}`, commit)
+			refs.forEach((ref) => this.fallbackStorage.set(this.getGitRefFallbackKey(ref), ref))
+			return
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(
+				[STORES.GIT_OBJECTS, STORES.GIT_COMMITS, STORES.GIT_REFS],
+				'readwrite',
+			)
+			const objectStore = transaction.objectStore(STORES.GIT_OBJECTS)
+			objects.forEach((object) => objectStore.put(object))
+			transaction.objectStore(STORES.GIT_COMMITS).put(commit)
+			const refStore = transaction.objectStore(STORES.GIT_REFS)
+			refs.forEach((ref) => refStore.put(ref))
+
+			transaction.oncomplete = () => resolve()
+			transaction.onerror = (event) => {
+				console.error('Error saving git commit:', event)
+				reject(new Error(`Failed to save commit ${commit.id}`))
+			}
+		})
+	}
+
+	/**
+	 * Get blobs by hash
+	 * @param hashes Blob hashes
+	 * @returns Promise that resolves with the blobs that exist, in the requested order
+	 */
+	public async getGitObjects(hashes: string[]): Promise<GitObject[]> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			return hashes
+				.map((hash) => this.fallbackStorage.get(`${STORES.GIT_OBJECTS}_${hash}`) as GitObject | undefined)
+				.filter((object): object is GitObject => object !== undefined)
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.GIT_OBJECTS, 'readonly')
+			const store = transaction.objectStore(STORES.GIT_OBJECTS)
+			const results = new Map<string, GitObject | undefined>()
+
+			hashes.forEach((hash) => {
+				const request = store.get(hash)
+				request.onsuccess = () => {
+					results.set(hash, request.result as GitObject | undefined)
+				}
+			})
+
+			transaction.oncomplete = () =>
+				resolve(
+					hashes.map((hash) => results.get(hash)).filter((object): object is GitObject => object !== undefined),
+				)
+			transaction.onerror = (event) => {
+				console.error('Error getting git objects:', event)
+				reject(new Error('Failed to get git objects'))
+			}
+		})
+	}
+
+	/**
+	 * Get a commit by ID
+	 * @param id Commit ID
+	 * @returns Promise that resolves with the commit or null if not found
+	 */
+	public async getGitCommit(id: string): Promise<GitCommit | null> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			return (this.fallbackStorage.get(`${STORES.GIT_COMMITS}_${id}`) as GitCommit | undefined) ?? null
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.GIT_COMMITS, 'readonly')
+			const request = transaction.objectStore(STORES.GIT_COMMITS).get(id)
+
+			request.onsuccess = () => resolve((request.result as GitCommit | undefined) ?? null)
+			request.onerror = (event) => {
+				console.error(`Error getting commit ${id}:`, event)
+				reject(new Error(`Failed to get commit ${id}`))
+			}
+		})
+	}
+
+	/**
+	 * Get all commits of a project
+	 * @param projectId Project ID
+	 * @returns Promise that resolves with the commits, newest first
+	 */
+	public async getGitCommits(projectId: string): Promise<GitCommit[]> {
+		const initialized = await this.init()
+		const sortNewestFirst = (commits: GitCommit[]) =>
+			commits.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+
+		if (!initialized || !this.db) {
+			const commits = [...this.fallbackStorage.entries()]
+				.filter(([key]) => key.startsWith(`${STORES.GIT_COMMITS}_`))
+				.map(([, value]) => value as GitCommit)
+				.filter((commit) => commit.projectId === projectId)
+			return sortNewestFirst(commits)
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.GIT_COMMITS, 'readonly')
+			const request = transaction.objectStore(STORES.GIT_COMMITS).index('projectId').getAll(projectId)
+
+			request.onsuccess = () => resolve(sortNewestFirst(request.result as GitCommit[]))
+			request.onerror = (event) => {
+				console.error(`Error getting commits for project ${projectId}:`, event)
+				reject(new Error(`Failed to get commits for project ${projectId}`))
+			}
+		})
+	}
+
+	/**
+	 * Get all refs (branches, tags and HEAD) of a project
+	 * @param projectId Project ID
+	 * @returns Promise that resolves with the refs
+	 */
+	public async getGitRefs(projectId: string): Promise<GitRef[]> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			return [...this.fallbackStorage.entries()]
+				.filter(([key]) => key.startsWith(`${STORES.GIT_REFS}_${projectId}_`))
+				.map(([, value]) => value as GitRef)
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.GIT_REFS, 'readonly')
+			const request = transaction.objectStore(STORES.GIT_REFS).index('projectId').getAll(projectId)
+
+			request.onsuccess = () => resolve(request.result as GitRef[])
+			request.onerror = (event) => {
+				console.error(`Error getting refs for project ${projectId}:`, event)
+				reject(new Error(`Failed to get refs for project ${projectId}`))
+			}
+		})
+	}
+
+	/**
+	 * Create or move a ref
+	 * @param ref Ref to save
+	 * @returns Promise that resolves when the ref is saved
+	 */
+	public async saveGitRef(ref: GitRef): Promise<void> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			this.fallbackStorage.set(this.getGitRefFallbackKey(ref), ref)
+			return
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.GIT_REFS, 'readwrite')
+			const request = transaction.objectStore(STORES.GIT_REFS).put(ref)
+
+			request.onsuccess = () => resolve()
+			request.onerror = (event) => {
+				console.error(`Error saving ref ${ref.name}:`, event)
+				reject(new Error(`Failed to save ref ${ref.name}`))
+			}
+		})
+	}
+
+	/**
+	 * Delete a ref
+	 * @param projectId Project ID
+	 * @param type Ref type
+	 * @param name Ref name
+	 * @returns Promise that resolves when the ref is deleted
+	 */
+	public async deleteGitRef(projectId: string, type: GitRefType, name: string): Promise<void> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			this.fallbackStorage.delete(this.getGitRefFallbackKey({ projectId, type, name }))
+			return
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.GIT_REFS, 'readwrite')
+			const request = transaction.objectStore(STORES.GIT_REFS).delete([projectId, type, name])
+
+			request.onsuccess = () => resolve()
+			request.onerror = (event) => {
+				console.error(`Error deleting ref ${name}:`, event)
+				reject(new Error(`Failed to delete ref ${name}`))
+			}
+		})
+	}
+
+	/**
+	 * Get the chat threads of a project, or of all projects
+	 * @param projectId Project ID; all threads when left out
+	 * @returns Promise that resolves with the threads, most recently updated first
+	 */
+	public async getChatThreads(projectId?: string): Promise<ChatThread[]> {
+		const initialized = await this.init()
+		const sortNewestFirst = (threads: ChatThread[]) => threads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+		if (!initialized || !this.db) {
+			const threads = [...this.fallbackStorage.entries()]
+				.filter(([key]) => key.startsWith(`${STORES.CHAT_THREADS}_`))
+				.map(([, value]) => value as ChatThread)
+				.filter((thread) => projectId === undefined || thread.projectId === projectId)
+			return sortNewestFirst(threads)
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const store = this.db.transaction(STORES.CHAT_THREADS, 'readonly').objectStore(STORES.CHAT_THREADS)
+			const request = projectId === undefined ? store.getAll() : store.index('projectId').getAll(projectId)
+
+			request.onsuccess = () => resolve(sortNewestFirst(request.result as ChatThread[]))
+			request.onerror = (event) => {
+				console.error('Error getting chat threads:', event)
+				reject(new Error('Failed to get chat threads'))
+			}
+		})
+	}
+
+	/**
+	 * Store chat threads and delete others, in one transaction
+	 * @param threads Threads to create or replace
+	 * @param deletedIds IDs of threads to delete
+	 * @returns Promise that resolves when the transaction completes
+	 */
+	public async saveChatThreads(threads: ChatThread[], deletedIds: string[] = []): Promise<void> {
+		const initialized = await this.init()
+
+		if (!initialized || !this.db) {
+			threads.forEach((thread) => this.fallbackStorage.set(`${STORES.CHAT_THREADS}_${thread.id}`, thread))
+			deletedIds.forEach((id) => this.fallbackStorage.delete(`${STORES.CHAT_THREADS}_${id}`))
+			return
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(STORES.CHAT_THREADS, 'readwrite')
+			const store = transaction.objectStore(STORES.CHAT_THREADS)
+			threads.forEach((thread) => store.put(thread))
+			deletedIds.forEach((id) => store.delete(id))
+
+			transaction.oncomplete = () => resolve()
+			transaction.onerror = (event) => {
+				console.error('Error saving chat threads:', event)
+				reject(new Error('Failed to save chat threads'))
+			}
+		})
+	}
+
+	/**
+	 * Get a record by key
+	 * @param storeName Store to read from
+	 * @param key Key of the record
+	 * @returns Promise that resolves with the record or null if not found
+	 */
+	public async getRecord<T>(storeName: StoreName, key: IDBValidKey): Promise<T | null> {
+		const initialized = await this.init()
+		if (!initialized || !this.db) {
+			throw new Error('Database not initialized')
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const request = this.db.transaction(storeName, 'readonly').objectStore(storeName).get(key)
+			request.onsuccess = () => resolve((request.result as T | undefined) ?? null)
+			request.onerror = () => reject(new Error(`Failed to read ${storeName}`))
+		})
+	}
+
+	/**
+	 * Get all records of a store, or those an index maps to a key
+	 * @param storeName Store to read from
+	 * @param indexName Optional index to query
+	 * @param query Optional key or key range, on the index if one is given
+	 * @returns Promise that resolves with the records
+	 */
+	public async getRecords<T>(storeName: StoreName, indexName?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> {
+		const initialized = await this.init()
+		if (!initialized || !this.db) {
+			throw new Error('Database not initialized')
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const store = this.db.transaction(storeName, 'readonly').objectStore(storeName)
+			const request = indexName !== undefined ? store.index(indexName).getAll(query) : store.getAll(query)
+			request.onsuccess = () => resolve(request.result as T[])
+			request.onerror = () => reject(new Error(`Failed to read ${storeName}`))
+		})
+	}
+
+	/**
+	 * Write to several stores in one transaction, so either all writes are
+	 * stored or none
+	 * @param storeNames Stores the writes touch
+	 * @param write Queues the writes; must not wait for anything else, or the
+	 * transaction commits before it is done
+	 * @returns Promise that resolves when the transaction completes and rejects when it is aborted
+	 */
+	public async writeTransaction(storeNames: StoreName[], write: (transaction: IDBTransaction) => void): Promise<void> {
+		const initialized = await this.init()
+		if (!initialized || !this.db) {
+			throw new Error('Database not initialized')
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction(storeNames, 'readwrite')
+			transaction.oncomplete = () => resolve()
+			transaction.onabort = () => {
+				reject(transaction.error ?? new Error(`Transaction on ${storeNames.join(', ')} was aborted`))
+			}
+
+			try {
+				write(transaction)
+			} catch (error) {
+				transaction.abort()
+				reject(error instanceof Error ? error : new Error(String(error)))
+			}
+		})
+	}
+
+	private getGitRefFallbackKey(ref: Pick<GitRef, 'projectId' | 'type' | 'name'>): string {
+		return `${STORES.GIT_REFS}_${ref.projectId}_${ref.type}_${ref.name}`
+	}
 }
 
 // Export singleton instance
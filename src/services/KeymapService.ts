@@ -0,0 +1,320 @@
+import { z } from 'zod'
+
+import { fixedActionIds, keymapActions, keymapPresetIds, keymapPresets } from '../config/keymapConfig'
+import type { Keymap, KeymapActionId, KeymapPresetId, KeymapSettings } from '../types/keymap'
+import { eventToStroke, findConflicts, getBindings, normalizeBinding, type KeymapConflict } from '../utils/keymap'
+
+/**
+ * Runs the action. Returning false leaves the key to the page, e.g. when
+ * there is nothing selected to delete.
+ */
+export type KeymapHandler = () => void | boolean
+
+export type KeymapHandlers = { [K in KeymapActionId]?: KeymapHandler | undefined }
+
+type KeymapListener = (keymap: Keymap) => void
+
+const STORAGE_KEY = 'keymap_settings'
+const EXPORT_VERSION = 1
+
+// How long the next key of a chord is waited for
+export const CHORD_TIMEOUT = 1000
+
+const actionIds = keymapActions.map((action) => action.id)
+
+const KeymapFileSchema = z.object({
+	version: z.literal(EXPORT_VERSION),
+	preset: z.enum(keymapPresetIds as [KeymapPresetId, ...KeymapPresetId[]]),
+	bindings: z.record(z.string(), z.array(z.string())),
+})
+
+// Typing in a field must not run shortcuts
+const isEditable = (target: EventTarget | null): boolean =>
+	target instanceof HTMLInputElement ||
+	target instanceof HTMLTextAreaElement ||
+	target instanceof HTMLSelectElement ||
+	(target instanceof HTMLElement && target.isContentEditable)
+
+/**
+ * Registry of the keyboard shortcuts. Components register handlers for the
+ * actions they offer; the keymap, a preset with the user's changes, decides
+ * which keys run them.
+ */
+export class KeymapService {
+	private static instance: KeymapService
+	private settings: KeymapSettings = { preset: 'default', bindings: {} }
+	private keymap: Keymap = keymapPresets.default
+	// Handlers per action, the most recently registered one runs
+	private handlers = new Map<KeymapActionId, KeymapHandler[]>()
+	private listeners = new Set<KeymapListener>()
+	private pendingStrokes: string[] = []
+	private chordTimeoutId: ReturnType<typeof setTimeout> | null = null
+
+	private constructor() {
+		this.loadSettings()
+	}
+
+	public static getInstance(): KeymapService {
+		if (KeymapService.instance === undefined || KeymapService.instance === null) {
+			KeymapService.instance = new KeymapService()
+		}
+		return KeymapService.instance
+	}
+
+	/**
+	 * Get the bindings of all actions
+	 * @returns The keymap in effect
+	 */
+	public getKeymap(): Keymap {
+		return this.keymap
+	}
+
+	/**
+	 * Get the preset and the actions bound differently from it
+	 * @returns The user's keymap settings
+	 */
+	public getSettings(): KeymapSettings {
+		return this.settings
+	}
+
+	/**
+	 * Start from another preset, dropping the changed bindings
+	 * @param preset Preset to use
+	 */
+	public setPreset(preset: KeymapPresetId): void {
+		this.update({ preset, bindings: {} })
+	}
+
+	/**
+	 * Find the bindings of other actions a binding would take over
+	 * @param actionId Action to bind
+	 * @param binding Binding as typed or recorded
+	 * @returns The conflicting bindings
+	 */
+	public getConflicts(actionId: KeymapActionId, binding: string): KeymapConflict[] {
+		const normalized = normalizeBinding(binding)
+		return normalized === null ? [] : findConflicts(this.keymap, normalized, actionId)
+	}
+
+	/**
+	 * Bind an action to other keys. Conflicting bindings of other actions are
+	 * removed from them.
+	 * @param actionId Action to bind
+	 * @param bindings New bindings, as typed or recorded
+	 * @returns The bindings taken from other actions
+	 * @throws Error when the action or a binding it conflicts with is fixed
+	 */
+	public setBindings(actionId: KeymapActionId, bindings: string[]): KeymapConflict[] {
+		if (fixedActionIds.has(actionId)) {
+			throw new Error(`${actionId} can't be rebound`)
+		}
+		const normalized = [...new Set(bindings.map((binding) => this.parseBinding(binding)))]
+		const conflicts = normalized.flatMap((binding) => findConflicts(this.keymap, binding, actionId))
+		const reserved = conflicts.find((conflict) => fixedActionIds.has(conflict.actionId))
+		if (reserved !== undefined) {
+			throw new Error(`${reserved.binding} is used by ${reserved.actionId}`)
+		}
+
+		const changed: Partial<Keymap> = { ...this.settings.bindings, [actionId]: normalized }
+		for (const conflict of conflicts) {
+			const current = changed[conflict.actionId] ?? this.keymap[conflict.actionId]
+			changed[conflict.actionId] = current.filter((binding) => binding !== conflict.binding)
+		}
+
+		this.update({ preset: this.settings.preset, bindings: changed })
+		return conflicts
+	}
+
+	/**
+	 * Bind an action to the keys of the preset again
+	 * @param actionId Action to reset, all when not given
+	 */
+	public resetBindings(actionId?: KeymapActionId): void {
+		if (actionId === undefined) {
+			this.update({ preset: this.settings.preset, bindings: {} })
+			return
+		}
+		const { [actionId]: _reset, ...bindings } = this.settings.bindings
+		this.update({ preset: this.settings.preset, bindings })
+	}
+
+	/**
+	 * Export the keymap settings
+	 * @returns JSON to save to a file
+	 */
+	public exportKeymap(): string {
+		return JSON.stringify({ version: EXPORT_VERSION, ...this.settings }, null, 2)
+	}
+
+	/**
+	 * Import keymap settings exported before
+	 * @param json Exported keymap
+	 * @throws Error when the file isn't a keymap or binds keys that conflict
+	 */
+	public importKeymap(json: string): void {
+		let data: unknown
+		try {
+			data = JSON.parse(json)
+		} catch {
+			throw new Error('The keymap file is not valid JSON')
+		}
+
+		const parsed = KeymapFileSchema.safeParse(data)
+		if (!parsed.success) {
+			throw new Error('The file is not a keymap export')
+		}
+
+		const bindings: Partial<Keymap> = {}
+		for (const [actionId, actionBindings] of Object.entries(parsed.data.bindings)) {
+			if (!actionIds.includes(actionId as KeymapActionId) || fixedActionIds.has(actionId as KeymapActionId)) continue
+			bindings[actionId as KeymapActionId] = actionBindings.map((binding) => this.parseBinding(binding))
+		}
+
+		const keymap = { ...keymapPresets[parsed.data.preset], ...bindings }
+		for (const [actionId, actionBindings] of Object.entries(bindings) as Array<[KeymapActionId, string[]]>) {
+			const conflict = actionBindings.flatMap((binding) => findConflicts(keymap, binding, actionId))[0]
+			if (conflict !== undefined) {
+				throw new Error(`${conflict.binding} is bound to both ${actionId} and ${conflict.actionId}`)
+			}
+		}
+
+		this.update({ preset: parsed.data.preset, bindings })
+	}
+
+	/**
+	 * Handle actions while the component offering them is mounted
+	 * @param handlers Handler per action
+	 * @returns Function that removes the handlers again
+	 */
+	public registerHandlers(handlers: KeymapHandlers): () => void {
+		const entries = (Object.entries(handlers) as Array<[KeymapActionId, KeymapHandler | undefined]>).filter(
+			(entry): entry is [KeymapActionId, KeymapHandler] => entry[1] !== undefined,
+		)
+		if (this.handlers.size === 0) {
+			window.addEventListener('keydown', this.handleKeyDown)
+		}
+		for (const [actionId, handler] of entries) {
+			this.handlers.set(actionId, [...(this.handlers.get(actionId) ?? []), handler])
+		}
+
+		return () => {
+			for (const [actionId, handler] of entries) {
+				const remaining = (this.handlers.get(actionId) ?? []).filter((registered) => registered !== handler)
+				if (remaining.length > 0) {
+					this.handlers.set(actionId, remaining)
+				} else {
+					this.handlers.delete(actionId)
+				}
+			}
+			if (this.handlers.size === 0) {
+				window.removeEventListener('keydown', this.handleKeyDown)
+				this.clearPendingStrokes()
+			}
+		}
+	}
+
+	/**
+	 * Listen for changes of the keymap
+	 * @param listener Called with the new keymap
+	 * @returns Function that removes the listener
+	 */
+	public addListener(listener: KeymapListener): () => void {
+		this.listeners.add(listener)
+		return () => {
+			this.listeners.delete(listener)
+		}
+	}
+
+	private handleKeyDown = (event: KeyboardEvent): void => {
+		if (isEditable(event.target)) return
+		const stroke = eventToStroke(event)
+		if (stroke === null) return
+
+		const sequence = [...this.pendingStrokes, stroke].join(' ')
+		if (this.runBinding(sequence, event)) return
+
+		// The start of a chord waits for its next key
+		if (this.isChordPrefix(sequence)) {
+			this.pendingStrokes = sequence.split(' ')
+			this.restartChordTimeout()
+			event.preventDefault()
+			return
+		}
+
+		// A key that doesn't continue the chord starts over
+		const hadPending = this.pendingStrokes.length > 0
+		this.clearPendingStrokes()
+		if (hadPending) this.handleKeyDown(event)
+	}
+
+	private runBinding(binding: string, event: KeyboardEvent): boolean {
+		const actionId = actionIds.find((id) => getBindings(this.keymap, id).includes(binding))
+		const handler = actionId !== undefined ? this.handlers.get(actionId)?.at(-1) : undefined
+		if (actionId === undefined || handler === undefined) return false
+
+		this.clearPendingStrokes()
+		if (handler() === false) return true
+
+		const action = keymapActions.find((candidate) => candidate.id === actionId)
+		if (action?.allowDefault !== true) {
+			event.preventDefault()
+		}
+		return true
+	}
+
+	private isChordPrefix(sequence: string): boolean {
+		return actionIds.some(
+			(id) => this.handlers.has(id) && getBindings(this.keymap, id).some((binding) => binding.startsWith(`${sequence} `)),
+		)
+	}
+
+	private restartChordTimeout(): void {
+		if (this.chordTimeoutId !== null) clearTimeout(this.chordTimeoutId)
+		this.chordTimeoutId = setTimeout(() => this.clearPendingStrokes(), CHORD_TIMEOUT)
+	}
+
+	private clearPendingStrokes(): void {
+		this.pendingStrokes = []
+		if (this.chordTimeoutId !== null) {
+			clearTimeout(this.chordTimeoutId)
+			this.chordTimeoutId = null
+		}
+	}
+
+	private parseBinding(binding: string): string {
+		const normalized = normalizeBinding(binding)
+		if (normalized === null) {
+			throw new Error(`"${binding}" is not a valid key binding`)
+		}
+		return normalized
+	}
+
+	private update(settings: KeymapSettings): void {
+		this.settings = settings
+		this.keymap = { ...keymapPresets[settings.preset], ...settings.bindings }
+		this.clearPendingStrokes()
+		this.saveSettings()
+		this.listeners.forEach((listener) => listener(this.keymap))
+	}
+
+	private loadSettings(): void {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY)
+			if (stored) {
+				this.importKeymap(stored)
+			}
+		} catch (error) {
+			console.error('Failed to load keymap settings:', error)
+		}
+	}
+
+	private saveSettings(): void {
+		try {
+			localStorage.setItem(STORAGE_KEY, this.exportKeymap())
+		} catch (error) {
+			console.error('Failed to save keymap settings:', error)
+		}
+	}
+}
+
+export default KeymapService.getInstance()
@@ -1,5 +1,6 @@
 import type { LogEntry } from './IndexedDBService'
 import indexedDBService from './IndexedDBService'
+import type { OfflineCommands } from './OfflineService'
 import offlineService from './OfflineService'
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'critical'
@@ -81,6 +82,9 @@ export class LoggerService {
 			// Set up global error handlers
 			this.setupGlobalErrorHandlers()
 
+			// Run the log deliveries queued while offline
+			this.registerOfflineHandlers()
+
 			this.isInitialized = true
 
 			// Process any pending logs
@@ -102,6 +106,31 @@ export class LoggerService {
 		}
 	}
 
+	/**
+	 * Register the handlers for the log operations in the offline queue. They
+	 * throw on failure, so the queue retries them with backoff.
+	 */
+	private registerOfflineHandlers(): void {
+		offlineService.registerCommandHandler('logs.sync', async () => {
+			await this.syncLogsToRemote(false)
+		})
+		offlineService.registerCommandHandler('log.send', async ({ level, message, context }) => {
+			await this.sendLogToRemote(level, message, context, false)
+		})
+		offlineService.registerCommandHandler('logs.send', async ({ logs }) => {
+			await this.sendLogsToRemote(logs, false)
+		})
+	}
+
+	/**
+	 * Queue a log operation for when the connection is back, if configured
+	 */
+	private queueForLater<T extends 'logs.sync' | 'log.send' | 'logs.send'>(type: T, payload: OfflineCommands[T]): void {
+		if (this.syncLogsWhenOnline) {
+			offlineService.enqueue(type, payload)
+		}
+	}
+
 	/**
 	 * Set up global error handlers to catch unhandled errors
 	 */
@@ -376,9 +405,10 @@ export class LoggerService {
 
 	/**
 	 * Sync logs to remote endpoint
+	 * @param queueOnFailure Queue the sync for later when it fails, instead of throwing
 	 * @returns Promise that resolves when logs are synced
 	 */
-	public async syncLogsToRemote(): Promise<void> {
+	public async syncLogsToRemote(queueOnFailure = true): Promise<void> {
 		if (!this.remoteLoggingEndpoint || !offlineService.getOnlineStatus()) {
 			return
 		}
@@ -399,20 +429,17 @@ export class LoggerService {
 			}
 
 			// Send logs to remote endpoint
-			await this.sendLogsToRemote(logs)
+			await this.sendLogsToRemote(logs, queueOnFailure)
 
 			// If successful, clear the sent logs
 			const oldestLog = new Date(Math.min(...logs.map((log) => new Date(log.timestamp).getTime())))
 			await this.clearLogs(oldestLog)
 		} catch (error) {
 			console.error('Failed to sync logs to remote:', error)
+			if (!queueOnFailure) throw error
 
 			// If we're configured to sync logs when online, add to sync queue
-			if (this.syncLogsWhenOnline) {
-				offlineService.addToSyncQueue(async () => {
-					await this.syncLogsToRemote()
-				})
-			}
+			this.queueForLater('logs.sync', {})
 		}
 	}
 
@@ -512,18 +539,22 @@ export class LoggerService {
 	 * @param level Log level
 	 * @param message Log message
 	 * @param context Additional context
+	 * @param queueOnFailure Queue the log for later when it can't be sent, instead of throwing
 	 */
-	private async sendLogToRemote(level: LogLevel, message: string, context?: Record<string, unknown>): Promise<void> {
+	private async sendLogToRemote(
+		level: LogLevel,
+		message: string,
+		context?: Record<string, unknown>,
+		queueOnFailure = true,
+	): Promise<void> {
 		if (!this.remoteLoggingEndpoint) return
 
 		// Don't attempt to send if offline
 		if (!offlineService.getOnlineStatus()) {
+			if (!queueOnFailure) throw new Error('Offline, log not sent')
+
 			// Queue for later if configured
-			if (this.syncLogsWhenOnline) {
-				offlineService.addToSyncQueue(async () => {
-					await this.sendLogToRemote(level, message, context)
-				})
-			}
+			this.queueForLater('log.send', { level, message, ...(context !== undefined ? { context } : {}) })
 			return
 		}
 
@@ -575,13 +606,10 @@ export class LoggerService {
 				// If we've reached max retries, give up
 				if (retryCount > maxRetries) {
 					console.error(`Failed to send log to remote endpoint after ${maxRetries} retries:`, lastError)
+					if (!queueOnFailure) throw lastError
 
 					// Queue for later if configured
-					if (this.syncLogsWhenOnline) {
-						offlineService.addToSyncQueue(async () => {
-							await this.sendLogToRemote(level, message, context)
-						})
-					}
+					this.queueForLater('log.send', { level, message, ...(context !== undefined ? { context } : {}) })
 					return
 				}
 
@@ -600,18 +628,17 @@ export class LoggerService {
 	/**
 	 * Send multiple logs to the remote endpoint with batching and retry
 	 * @param logs Logs to send
+	 * @param queueOnFailure Queue failed batches for later, instead of throwing
 	 */
-	private async sendLogsToRemote(logs: LogEntry[]): Promise<void> {
+	private async sendLogsToRemote(logs: LogEntry[], queueOnFailure = true): Promise<void> {
 		if (!this.remoteLoggingEndpoint) return
 
 		// Don't attempt to send if offline
 		if (!offlineService.getOnlineStatus()) {
+			if (!queueOnFailure) throw new Error('Offline, logs not sent')
+
 			// Queue for later if configured
-			if (this.syncLogsWhenOnline) {
-				offlineService.addToSyncQueue(async () => {
-					await this.sendLogsToRemote(logs)
-				})
-			}
+			this.queueForLater('logs.send', { logs })
 			return
 		}
 
@@ -664,14 +691,10 @@ export class LoggerService {
 					// If we've reached max retries, give up on this batch
 					if (retryCount > maxRetries) {
 						console.error(`Failed to send log batch to remote endpoint after ${maxRetries} retries:`, error)
+						if (!queueOnFailure) throw error
 
 						// Queue for later if configured
-						if (this.syncLogsWhenOnline) {
-							const failedBatch = batch
-							offlineService.addToSyncQueue(async () => {
-								await this.sendLogsToRemote(failedBatch)
-							})
-						}
+						this.queueForLater('logs.send', { logs: batch })
 						break
 					}
 
@@ -1,3 +1,40 @@
+import type { LogEntry, OfflineQueueEntry } from './IndexedDBService'
+import type { LogLevel } from './LoggerService'
+
+/**
+ * Operations that can wait in the offline queue, by type, with the data
+ * needed to run them again after a reload
+ */
+export interface OfflineCommands {
+	'project.sync': { projectId: string }
+	'log.send': { level: LogLevel; message: string; context?: Record<string, unknown> }
+	'logs.send': { logs: LogEntry[] }
+	'logs.sync': Record<string, never>
+}
+
+export type OfflineCommandType = keyof OfflineCommands
+
+/**
+ * Runs a queued operation; throws to have it retried later
+ */
+export type OfflineCommandHandler<T extends OfflineCommandType> = (payload: OfflineCommands[T]) => Promise<void>
+
+/**
+ * An operation waiting in the offline queue
+ */
+export interface QueuedOperation extends OfflineQueueEntry {
+	operation: OfflineCommandType
+}
+
+/**
+ * Where the offline queue is persisted, usually the offlineQueue store of IndexedDBService
+ */
+export interface OfflineQueueStorage {
+	getOfflineQueue(limit?: number): Promise<OfflineQueueEntry[]>
+	saveOfflineQueueEntry(entry: OfflineQueueEntry): Promise<void>
+	removeFromOfflineQueue(id: string): Promise<void>
+}
+
 /**
  * Network status interface with detailed connection information
  */
@@ -21,9 +58,16 @@ export class OfflineService {
 	private static instance: OfflineService
 	private isOnline: boolean = navigator.onLine
 	private listeners: Array<(online: boolean) => void> = []
-	private syncQueue: Array<() => Promise<void>> = []
+	private syncQueue: QueuedOperation[] = []
+	private queueStorage: OfflineQueueStorage | null = null
+	private queueLoaded: Promise<void> = Promise.resolve()
+	private queueListeners: Array<(operations: QueuedOperation[]) => void> = []
+	private commandHandlers = new Map<OfflineCommandType, OfflineCommandHandler<OfflineCommandType>>()
+	private retryTimeoutId: number | null = null
 	private syncInProgress: boolean = false
 	private maxRetries: number = 5
+	private retryBaseDelay: number = 2000 // 2 seconds, doubled on every failed attempt
+	private maxRetryDelay: number = 5 * 60 * 1000 // 5 minutes
 	private syncInterval: number = 60000 // 1 minute
 	private syncIntervalId: number | null = null
 	private offlineModeEnabled: boolean = true
@@ -74,6 +118,36 @@ export class OfflineService {
 		this.loadSettings()
 	}
 
+	/**
+	 * Persist the queue in the given storage and restore the operations
+	 * stored there before the last reload. Operations queued before are kept
+	 * and stored as well.
+	 * @param storage Queue storage
+	 * @returns Promise that resolves when the stored operations are loaded
+	 */
+	public async setQueueStorage(storage: OfflineQueueStorage): Promise<void> {
+		this.queueStorage = storage
+		this.queueLoaded = this.loadQueue(storage)
+		await this.queueLoaded
+
+		if (this.isOnline) {
+			void this.processSyncQueue()
+		}
+	}
+
+	private async loadQueue(storage: OfflineQueueStorage): Promise<void> {
+		try {
+			const stored = (await storage.getOfflineQueue(1000)) as QueuedOperation[]
+			const storedIds = new Set(stored.map((entry) => entry.id))
+			const unsaved = this.syncQueue.filter((entry) => !storedIds.has(entry.id))
+			this.syncQueue = [...stored, ...unsaved]
+			unsaved.forEach((entry) => this.persistEntry(entry))
+			this.notifyQueueListeners()
+		} catch (error) {
+			console.warn('Offline queue could not be loaded, queued operations are kept in memory only:', error)
+		}
+	}
+
 	/**
 	 * Load settings from localStorage
 	 */
@@ -263,11 +337,57 @@ export class OfflineService {
 	}
 
 	/**
-	 * Add an operation to the sync queue
-	 * @param operation Function to execute when online
+	 * Register the handler that runs queued operations of a type. Operations
+	 * without a handler wait until one is registered.
+	 * @param type Operation type
+	 * @param handler Runs the operation; throws to have it retried later
+	 * @returns Function to unregister the handler
 	 */
-	public addToSyncQueue(operation: () => Promise<void>): void {
-		this.syncQueue.push(operation)
+	public registerCommandHandler<T extends OfflineCommandType>(type: T, handler: OfflineCommandHandler<T>): () => void {
+		const registered = handler as OfflineCommandHandler<OfflineCommandType>
+		this.commandHandlers.set(type, registered)
+
+		if (this.isOnline && this.syncQueue.some((entry) => entry.operation === type)) {
+			void this.processSyncQueue()
+		}
+
+		return () => {
+			if (this.commandHandlers.get(type) === registered) {
+				this.commandHandlers.delete(type)
+			}
+		}
+	}
+
+	/**
+	 * Queue an operation to run when online. It is persisted once a queue
+	 * storage is set, so it survives a reload. An operation on a project replaces the queued operation of the
+	 * same type on that project.
+	 * @param type Operation type
+	 * @param payload Data the operation needs
+	 * @param priority Priority (higher number = runs first)
+	 */
+	public enqueue<T extends OfflineCommandType>(type: T, payload: OfflineCommands[T], priority = 0): void {
+		const { projectId } = payload as { projectId?: string }
+		const existing =
+			projectId !== undefined
+				? this.syncQueue.find((entry) => entry.operation === type && entry.projectId === projectId)
+				: undefined
+
+		const entry: QueuedOperation = {
+			id: existing?.id ?? crypto.randomUUID(),
+			operation: type,
+			data: payload,
+			timestamp: new Date().toISOString(),
+			retries: 0,
+			priority: Math.max(priority, existing?.priority ?? priority),
+			...(projectId !== undefined ? { projectId } : {}),
+		}
+
+		this.syncQueue = existing
+			? this.syncQueue.map((queued) => (queued === existing ? entry : queued))
+			: [...this.syncQueue, entry]
+		this.persistEntry(entry)
+		this.notifyQueueListeners()
 
 		// If we're online, try to sync immediately
 		if (this.isOnline && !this.syncInProgress) {
@@ -275,6 +395,60 @@ export class OfflineService {
 		}
 	}
 
+	/**
+	 * Get the operations waiting in the queue, in the order they run
+	 * @returns Queued operations
+	 */
+	public getQueuedOperations(): QueuedOperation[] {
+		return [...this.syncQueue].sort((a, b) => {
+			if (a.priority !== b.priority) {
+				return b.priority - a.priority // Higher priority first
+			}
+			return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+		})
+	}
+
+	/**
+	 * Add a listener for changes of the queue
+	 * @param listener Function to call with the queued operations
+	 * @returns Function to remove the listener
+	 */
+	public addQueueListener(listener: (operations: QueuedOperation[]) => void): () => void {
+		this.queueListeners.push(listener)
+		listener(this.getQueuedOperations())
+
+		return () => {
+			this.queueListeners = this.queueListeners.filter((l) => l !== listener)
+		}
+	}
+
+	/**
+	 * Run a queued operation again right away, also after it has given up
+	 * @param id Operation ID
+	 */
+	public async retryOperation(id: string): Promise<void> {
+		const entry = this.syncQueue.find((queued) => queued.id === id)
+		if (!entry) return
+
+		const { failed: _failed, nextAttemptAt: _nextAttemptAt, ...rest } = entry
+		this.replaceEntry(entry, { ...rest, retries: 0 })
+		await this.processSyncQueue()
+	}
+
+	/**
+	 * Remove an operation from the queue without running it
+	 * @param id Operation ID
+	 */
+	public async discardOperation(id: string): Promise<void> {
+		this.syncQueue = this.syncQueue.filter((entry) => entry.id !== id)
+		this.notifyQueueListeners()
+		try {
+			await this.queueStorage?.removeFromOfflineQueue(id)
+		} catch (error) {
+			console.warn(`Failed to remove operation ${id} from the stored offline queue:`, error)
+		}
+	}
+
 	/**
 	 * Start automatic synchronization
 	 */
@@ -351,10 +525,14 @@ export class OfflineService {
 	}
 
 	/**
-	 * Process the sync queue
-	 * @returns Promise that resolves when all operations are processed
+	 * Process the sync queue. Operations that fail are retried with
+	 * exponential backoff; after maxRetries attempts they stay in the queue
+	 * as failed until they are retried or discarded.
+	 * @returns Promise that resolves when the due operations are processed
 	 */
 	public async processSyncQueue(): Promise<void> {
+		await this.queueLoaded
+
 		if (!this.isOnline || this.syncInProgress || this.syncQueue.length === 0) {
 			return
 		}
@@ -362,55 +540,99 @@ export class OfflineService {
 		this.syncInProgress = true
 
 		try {
-			// Process each operation in the queue
-			const operations = [...this.syncQueue]
-			this.syncQueue = []
+			const now = Date.now()
+			const due = this.getQueuedOperations().filter(
+				(entry) =>
+					entry.failed !== true &&
+					(entry.nextAttemptAt === undefined || new Date(entry.nextAttemptAt).getTime() <= now),
+			)
+
+			for (const entry of due) {
+				if (!this.isOnline) break
+
+				// Waits until the service that runs it has registered
+				const handler = this.commandHandlers.get(entry.operation)
+				if (!handler) continue
 
-			for (const operation of operations) {
 				try {
-					await this.executeWithRetry(operation)
+					await handler(entry.data as OfflineCommands[OfflineCommandType])
+					// Queued again while it ran, keep the newer operation
+					if (this.syncQueue.includes(entry)) {
+						await this.discardOperation(entry.id)
+					}
 				} catch (error) {
-					console.error('Failed to process sync operation after retries:', error)
-					// Put the failed operation back in the queue
-					this.syncQueue.push(operation)
+					console.error(`Failed to process queued operation ${entry.operation}:`, error)
+					this.recordFailure(entry, error)
 				}
 			}
 		} finally {
 			this.syncInProgress = false
-
-			// If there are still operations in the queue, try again later
-			if (this.syncQueue.length > 0 && this.isOnline) {
-				setTimeout(() => {
-					void this.processSyncQueue()
-				}, 5000)
-			}
+			this.scheduleRetry()
 		}
 	}
 
 	/**
-	 * Execute an operation with retry logic
-	 * @param operation Function to execute
-	 * @returns Promise that resolves when the operation succeeds
+	 * Count a failed attempt and schedule the next one
 	 */
-	private async executeWithRetry(operation: () => Promise<void>): Promise<void> {
-		let retries = 0
+	private recordFailure(entry: QueuedOperation, error: unknown): void {
+		if (!this.syncQueue.includes(entry)) return
+
+		const retries = entry.retries + 1
+		const delay = Math.min(this.retryBaseDelay * Math.pow(2, retries - 1), this.maxRetryDelay)
+		this.replaceEntry(entry, {
+			...entry,
+			retries,
+			lastError: error instanceof Error ? error.message : String(error),
+			nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+			failed: retries >= this.maxRetries,
+		})
+	}
 
-		while (retries < this.maxRetries) {
-			try {
-				await operation()
-				return // Success
-			} catch (error) {
-				retries++
+	/**
+	 * Process the queue again when the next operation is due
+	 */
+	private scheduleRetry(): void {
+		if (this.retryTimeoutId !== null) {
+			window.clearTimeout(this.retryTimeoutId)
+			this.retryTimeoutId = null
+		}
 
-				if (retries >= this.maxRetries) {
-					throw error // Max retries reached
-				}
+		// Operations without a handler run once it is registered
+		const nextAttempts = this.syncQueue
+			.filter((entry) => entry.failed !== true && this.commandHandlers.has(entry.operation))
+			.map((entry) => (entry.nextAttemptAt !== undefined ? new Date(entry.nextAttemptAt).getTime() : Date.now()))
+		if (nextAttempts.length === 0 || !this.isOnline) return
 
-				// Exponential backoff
-				const delay = Math.pow(2, retries) * 1000
-				await new Promise((resolve) => setTimeout(resolve, delay))
+		this.retryTimeoutId = window.setTimeout(
+			() => {
+				this.retryTimeoutId = null
+				void this.processSyncQueue()
+			},
+			Math.max(Math.min(...nextAttempts) - Date.now(), 0),
+		)
+	}
+
+	private replaceEntry(entry: QueuedOperation, updated: QueuedOperation): void {
+		this.syncQueue = this.syncQueue.map((queued) => (queued === entry ? updated : queued))
+		this.persistEntry(updated)
+		this.notifyQueueListeners()
+	}
+
+	private persistEntry(entry: QueuedOperation): void {
+		this.queueStorage?.saveOfflineQueueEntry(entry).catch((error: unknown) => {
+			console.warn(`Failed to store operation ${entry.id} in the offline queue:`, error)
+		})
+	}
+
+	private notifyQueueListeners(): void {
+		const operations = this.getQueuedOperations()
+		this.queueListeners.forEach((listener) => {
+			try {
+				listener(operations)
+			} catch (error) {
+				console.error('Error in offline queue listener:', error)
 			}
-		}
+		})
 	}
 
 	/**
@@ -0,0 +1,417 @@
+import type { Project } from '../types/project'
+import type { ConflictResolutions, MergeConflict } from '../utils/projectMerge'
+
+import gitService from './GitService'
+import indexedDBService, { type Project as StoredProject } from './IndexedDBService'
+import loggerService from './LoggerService'
+import {
+	deleteLegacyDatabase,
+	readFallbackProjects,
+	readLegacyDatabase,
+	type LegacyConflictRecord,
+} from './storage/legacyStores'
+import { STORES, type StoreName } from './storage/schema'
+
+export interface ProjectHistoryEntry {
+	id: string
+	projectId: string
+	action: string
+	timestamp: string
+	details?: Record<string, unknown>
+}
+
+/**
+ * What happened to a project, recorded with the write that did it
+ */
+export interface ProjectHistoryInput {
+	action: string
+	details?: Record<string, unknown>
+	/** Defaults to the time of the write */
+	timestamp?: string
+}
+
+/**
+ * All versions of a project at a sync conflict, kept for recovery
+ */
+export interface ConflictRecord {
+	id: string
+	projectId: string
+	baseVersion: Project | null
+	localVersion: Project
+	remoteVersion: Project
+	mergedVersion: Project | null
+	conflicts: MergeConflict[]
+	resolutions: ConflictResolutions
+	timestamp: string
+}
+
+const MIGRATION_SETTING = 'projectRepositoryMigrated'
+
+const PROJECT_WRITE_STORES: StoreName[] = [STORES.PROJECTS, STORES.PROJECT_HISTORY]
+const COMMIT_WRITE_STORES: StoreName[] = [
+	...PROJECT_WRITE_STORES,
+	STORES.GIT_OBJECTS,
+	STORES.GIT_COMMITS,
+	STORES.GIT_REFS,
+]
+
+const toStored = (project: Project): StoredProject => project as unknown as StoredProject
+const fromStored = (project: StoredProject): Project => project as unknown as Project
+
+const isNewer = (candidate: Project, current: Project): boolean =>
+	new Date(candidate.updatedAt).getTime() > new Date(current.updatedAt).getTime()
+
+/**
+ * A conflict the old sync storage kept, in the shape of the conflict history.
+ * It only had the two versions, so there is no base, merge or field conflicts.
+ * @returns The record, or null when one of the versions is missing
+ */
+const fromLegacyConflict = (record: LegacyConflictRecord): ConflictRecord | null => {
+	const { id, projectId, timestamp, localVersion, remoteVersion } = record
+	if (localVersion === undefined || remoteVersion === undefined) return null
+	return {
+		id,
+		projectId,
+		baseVersion: null,
+		localVersion,
+		remoteVersion,
+		mergedVersion: null,
+		conflicts: [],
+		resolutions: {},
+		timestamp,
+	}
+}
+
+/**
+ * The one place projects are stored. Writes that belong together (a project,
+ * its history entry and its commit) go to IndexedDB in a single transaction.
+ * Without IndexedDB it falls back to the storage of IndexedDBService, where
+ * the writes are not atomic.
+ */
+export class ProjectRepository {
+	private static instance: ProjectRepository
+	private readyPromise: Promise<boolean> | null = null
+	// Last commit of each project still being written; commits of a project wait for it
+	private pendingCommits = new Map<string, Promise<unknown>>()
+
+	private constructor() {
+		// Private constructor for singleton
+	}
+
+	public static getInstance(): ProjectRepository {
+		if (ProjectRepository.instance === undefined || ProjectRepository.instance === null) {
+			ProjectRepository.instance = new ProjectRepository()
+		}
+		return ProjectRepository.instance
+	}
+
+	/**
+	 * Open the database and, the first time, move over the projects of the
+	 * older stores
+	 * @returns Promise that resolves with false when only the fallback storage is available
+	 */
+	public async ready(): Promise<boolean> {
+		this.readyPromise ??= this.open()
+		return this.readyPromise
+	}
+
+	/**
+	 * Get a project by ID
+	 * @param id Project ID
+	 * @returns Promise that resolves with the project or null if not found
+	 */
+	public async get(id: string): Promise<Project | null> {
+		await this.ready()
+		const project = await indexedDBService.getProject(id)
+		return project ? fromStored(project) : null
+	}
+
+	/**
+	 * Get all projects, newest first
+	 * @param includeArchived Whether to include archived projects
+	 * @returns Promise that resolves with the projects
+	 */
+	public async list(includeArchived: boolean = false): Promise<Project[]> {
+		await this.ready()
+		const projects = await indexedDBService.getAllProjects(includeArchived)
+		return projects.map(fromStored)
+	}
+
+	/**
+	 * Save a project together with its history entry
+	 * @param project Project to save, stored as given
+	 * @param history History entry for the save
+	 * @returns Promise that resolves when both are stored
+	 */
+	public async save(project: Project, history: ProjectHistoryInput): Promise<void> {
+		if (!(await this.ready())) {
+			await indexedDBService.saveProject(toStored(project))
+			await this.recordHistory(project.id, history)
+			return
+		}
+
+		const entry = this.createHistoryEntry(project.id, history)
+		await indexedDBService.writeTransaction(PROJECT_WRITE_STORES, (transaction) => {
+			transaction.objectStore(STORES.PROJECTS).put(project)
+			transaction.objectStore(STORES.PROJECT_HISTORY).put(entry)
+		})
+	}
+
+	/**
+	 * Save a project, its history entry and a new commit of it, so that the
+	 * stored project always matches the head of its history. Commits of a
+	 * project are written one after the other, so each has the one before as
+	 * its parent.
+	 * @param project Project to commit
+	 * @param commitMessage Commit message
+	 * @param history History entry; the new version and the message are added to its details
+	 * @returns Promise that resolves with the project carrying the version of the commit
+	 */
+	public saveWithCommit(project: Project, commitMessage: string, history: ProjectHistoryInput): Promise<Project> {
+		const previous = this.pendingCommits.get(project.id) ?? Promise.resolve()
+		const committed = previous.then(() => this.writeCommit(project, commitMessage, history))
+		const settled = committed.catch(() => undefined)
+		this.pendingCommits.set(project.id, settled)
+		void settled.then(() => {
+			if (this.pendingCommits.get(project.id) === settled) this.pendingCommits.delete(project.id)
+		})
+		return committed
+	}
+
+	/**
+	 * Delete a project and record the deletion
+	 * @param id Project ID
+	 * @param history History entry for the deletion
+	 * @returns Promise that resolves when the project is deleted
+	 */
+	public async delete(id: string, history: ProjectHistoryInput): Promise<void> {
+		if (!(await this.ready())) {
+			await indexedDBService.deleteProject(id)
+			await this.recordHistory(id, history)
+			return
+		}
+
+		const entry = this.createHistoryEntry(id, history)
+		await indexedDBService.writeTransaction(PROJECT_WRITE_STORES, (transaction) => {
+			transaction.objectStore(STORES.PROJECTS).delete(id)
+			transaction.objectStore(STORES.PROJECT_HISTORY).put(entry)
+		})
+	}
+
+	/**
+	 * Archive or unarchive a project
+	 * @param id Project ID
+	 * @param archive Whether to archive (true) or unarchive (false)
+	 * @returns Promise that resolves with the updated project
+	 * @throws Error if the project does not exist
+	 */
+	public async archive(id: string, archive: boolean): Promise<Project> {
+		const project = await this.get(id)
+		if (!project) {
+			throw new Error(`Project with ID ${id} not found`)
+		}
+
+		const now = new Date().toISOString()
+		const updated = { ...project, isArchived: archive, updatedAt: now }
+		await this.save(updated, { action: archive ? 'archive' : 'unarchive', timestamp: now })
+		return updated
+	}
+
+	/**
+	 * Record something that happened to a project without changing it
+	 * @param projectId Project ID
+	 * @param history History entry
+	 */
+	public async recordHistory(projectId: string, history: ProjectHistoryInput): Promise<void> {
+		const { id: _id, ...entry } = this.createHistoryEntry(projectId, history)
+		await indexedDBService.addProjectHistoryEntry(entry)
+	}
+
+	/**
+	 * Get the history of a project, newest first
+	 * @param projectId Project ID
+	 * @param limit Maximum number of entries to return
+	 * @returns Promise that resolves with the history entries
+	 */
+	public async getHistory(projectId: string, limit = 100): Promise<ProjectHistoryEntry[]> {
+		await this.ready()
+		return (await indexedDBService.getProjectHistory(projectId, limit)) as ProjectHistoryEntry[]
+	}
+
+	/**
+	 * Get the version of a project both sides agreed on at its last sync
+	 * @param projectId Project ID
+	 * @returns Promise that resolves with the version or null before the first sync
+	 */
+	public async getSyncBase(projectId: string): Promise<Project | null> {
+		if (!(await this.ready())) return null
+		return indexedDBService.getRecord<Project>(STORES.SYNC_BASES, projectId)
+	}
+
+	/**
+	 * Remember the version of a project both sides agree on
+	 * @param project Synced project
+	 */
+	public async saveSyncBase(project: Project): Promise<void> {
+		if (!(await this.ready())) return
+		await indexedDBService.writeTransaction([STORES.SYNC_BASES], (transaction) => {
+			transaction.objectStore(STORES.SYNC_BASES).put(project)
+		})
+	}
+
+	/**
+	 * Keep all versions of a sync conflict for recovery
+	 * @param record Conflict record
+	 */
+	public async addConflictRecord(record: ConflictRecord): Promise<void> {
+		if (!(await this.ready())) return
+		await indexedDBService.writeTransaction([STORES.CONFLICT_HISTORY], (transaction) => {
+			transaction.objectStore(STORES.CONFLICT_HISTORY).put(record)
+		})
+	}
+
+	/**
+	 * Get the conflict records of a project
+	 * @param projectId Project ID
+	 * @returns Promise that resolves with the records
+	 */
+	public async getConflictRecords(projectId: string): Promise<ConflictRecord[]> {
+		if (!(await this.ready())) return []
+		return indexedDBService.getRecords<ConflictRecord>(STORES.CONFLICT_HISTORY, 'projectId', projectId)
+	}
+
+	private async open(): Promise<boolean> {
+		const initialized = await indexedDBService.init()
+		if (!initialized) {
+			void loggerService.warn('IndexedDB unavailable, projects are kept in fallback storage')
+			return false
+		}
+
+		try {
+			await this.consolidateLegacyStores()
+		} catch (error) {
+			// Nothing was deleted, so the next start tries again
+			void loggerService.error(
+				'Failed to move projects from the legacy stores',
+				error instanceof Error ? error : new Error(String(error)),
+			)
+		}
+		return true
+	}
+
+	/**
+	 * Move the projects, sync bases and conflict records of the separate
+	 * projectsDB, the localStorage fallback copies and the localStorage git
+	 * history into the app database. Where a project exists more than once the
+	 * newest version is kept and the others are stored in a 'migrate' history
+	 * entry, so nothing is lost. The old copies are only removed after
+	 * everything is written.
+	 */
+	private async consolidateLegacyStores(): Promise<void> {
+		if ((await indexedDBService.getSetting(MIGRATION_SETTING)) === true) return
+
+		const legacy = await readLegacyDatabase()
+		const fallback = readFallbackProjects()
+
+		const current = new Map(
+			(await indexedDBService.getRecords<Project>(STORES.PROJECTS)).map((project) => [project.id, project]),
+		)
+		const changed = new Map<string, Project>()
+		const superseded: Project[] = []
+
+		for (const candidate of [...(legacy?.projects ?? []), ...fallback.map((entry) => entry.project)]) {
+			const existing = current.get(candidate.id)
+			if (existing !== undefined && JSON.stringify(existing) === JSON.stringify(candidate)) continue
+
+			if (existing === undefined || isNewer(candidate, existing)) {
+				current.set(candidate.id, candidate)
+				changed.set(candidate.id, candidate)
+				if (existing !== undefined) superseded.push(existing)
+			} else {
+				superseded.push(candidate)
+			}
+		}
+
+		// History entries are keyed by project and timestamp, give each its own millisecond
+		const startedAt = Date.now()
+		const history = superseded.map((project, index) =>
+			this.createHistoryEntry(project.id, {
+				action: 'migrate',
+				timestamp: new Date(startedAt + index).toISOString(),
+				details: { supersededVersion: project },
+			}),
+		)
+		// Records missing one of the versions are of no use for recovery
+		const conflicts = (legacy?.conflicts ?? [])
+			.map(fromLegacyConflict)
+			.filter((record): record is ConflictRecord => record !== null)
+
+		const importedHistories = await gitService.importLegacyHistory()
+
+		await indexedDBService.writeTransaction(
+			[...PROJECT_WRITE_STORES, STORES.SYNC_BASES, STORES.CONFLICT_HISTORY, STORES.SETTINGS],
+			(transaction) => {
+				changed.forEach((project) => transaction.objectStore(STORES.PROJECTS).put(project))
+				history.forEach((entry) => transaction.objectStore(STORES.PROJECT_HISTORY).put(entry))
+				legacy?.syncBases.forEach((base) => transaction.objectStore(STORES.SYNC_BASES).put(base))
+				conflicts.forEach((record) => transaction.objectStore(STORES.CONFLICT_HISTORY).put(record))
+				transaction.objectStore(STORES.SETTINGS).put({ key: MIGRATION_SETTING, value: true })
+			},
+		)
+
+		if (legacy !== null) {
+			await deleteLegacyDatabase()
+		}
+		fallback.forEach(({ key }) => localStorage.removeItem(key))
+
+		void loggerService.info('Moved projects from the legacy stores', {
+			projects: changed.size,
+			supersededVersions: superseded.length,
+			syncBases: legacy?.syncBases.length ?? 0,
+			conflicts: conflicts.length,
+			gitHistories: importedHistories,
+		})
+	}
+
+	private async writeCommit(project: Project, commitMessage: string, history: ProjectHistoryInput): Promise<Project> {
+		if (!(await this.ready())) {
+			const committed = await gitService.commit(project, commitMessage)
+			await this.save(committed, this.withCommitDetails(history, committed, commitMessage))
+			return committed
+		}
+
+		const prepared = await gitService.prepareCommit(project, commitMessage)
+		const entry = this.createHistoryEntry(
+			project.id,
+			this.withCommitDetails(history, prepared.project, commitMessage),
+		)
+		await indexedDBService.writeTransaction(COMMIT_WRITE_STORES, (transaction) => {
+			transaction.objectStore(STORES.PROJECTS).put(prepared.project)
+			transaction.objectStore(STORES.PROJECT_HISTORY).put(entry)
+			const objectStore = transaction.objectStore(STORES.GIT_OBJECTS)
+			prepared.objects.forEach((object) => objectStore.put(object))
+			transaction.objectStore(STORES.GIT_COMMITS).put(prepared.commit)
+			const refStore = transaction.objectStore(STORES.GIT_REFS)
+			prepared.refs.forEach((ref) => refStore.put(ref))
+		})
+
+		void loggerService.info(`Committed ${prepared.commit.id.substring(0, 7)} to project ${project.id}`)
+		return prepared.project
+	}
+
+	private createHistoryEntry(projectId: string, history: ProjectHistoryInput): ProjectHistoryEntry {
+		return {
+			id: crypto.randomUUID(),
+			projectId,
+			action: history.action,
+			timestamp: history.timestamp ?? new Date().toISOString(),
+			...(history.details !== undefined ? { details: history.details } : {}),
+		}
+	}
+
+	private withCommitDetails(history: ProjectHistoryInput, project: Project, commitMessage: string): ProjectHistoryInput {
+		return { ...history, details: { ...history.details, version: project.version, commitMessage } }
+	}
+}
+
+export default ProjectRepository.getInstance()
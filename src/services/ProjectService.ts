@@ -1,15 +1,27 @@
 import { createProjectFromTemplate, projectTemplates } from '../data/projectTemplates'
-import type { Project, ProjectHistoryEntry } from '../types'
+import type { Project } from '../types'
 import { ProjectTemplate } from '../types/project'
 // These types are used in the Project type
 // import { Node, Edge } from '../types';
+import { diagramToGraph, parseDiagram } from '../utils/diagramFormats'
 import performanceMonitoring, { PerformanceCategory } from '../utils/performanceMonitoring'
+import { normalizeCategory, normalizeTags } from '../utils/projectCollections'
 
-import gitService from './GitService'
-import indexedDBService from './IndexedDBService'
+import chatHistoryService from './ChatHistoryService'
 import loggerService from './LoggerService'
-import offlineService from './OfflineService'
+import projectRepository, { type ProjectHistoryEntry } from './ProjectRepository'
 import s3Service from './S3Service'
+import { searchService } from './SearchService'
+
+/**
+ * Tag and category changes applied to several projects at once
+ */
+export interface ProjectTagChanges {
+	addTags?: string[]
+	removeTags?: string[]
+	/** New category path, an empty string removes the category */
+	category?: string
+}
 
 /**
  * Service for managing projects
@@ -18,9 +30,9 @@ export class ProjectService {
 	private static instance: ProjectService
 
 	private constructor() {
-		// Initialize IndexedDB
-		indexedDBService
-			.init()
+		// Open the project storage
+		projectRepository
+			.ready()
 			.then((initialized) => {
 				if (!initialized) {
 					console.warn('IndexedDB initialization failed, some features may not work properly')
@@ -72,23 +84,14 @@ export class ProjectService {
 				throw new Error('Failed to create project from template')
 			}
 
-			const now = project.createdAt || new Date().toISOString()
-			// Save to IndexedDB
-			await indexedDBService.saveProject(project)
-
-			// Add history entry
-			await indexedDBService.addProjectHistoryEntry({
-				projectId: project.id,
+			// Save with its initial commit
+			const createdProject = await projectRepository.saveWithCommit(project, 'Initial commit', {
 				action: 'create',
-				timestamp: now,
-				details: { version: project.version },
 			})
+			searchService.indexProject(createdProject)
 
-			// Create initial commit
-			await gitService.commit(project, 'Initial commit')
-
-			loggerService.info(`Project created: ${project.id} - ${project.name}`)
-			return project
+			loggerService.info(`Project created: ${createdProject.id} - ${createdProject.name}`)
+			return createdProject
 		} catch (error) {
 			loggerService.error('Error creating project', error instanceof Error ? error : new Error(String(error)))
 			throw new Error('Failed to save project')
@@ -97,6 +100,28 @@ export class ProjectService {
 		}
 	}
 
+	/**
+	 * Create a new project from a Mermaid flowchart or Graphviz DOT document
+	 * @param fileName Name of the imported file, used to detect the format
+	 * @param text Diagram source
+	 * @param name Optional project name; defaults to the diagram title or the file name
+	 * @returns Promise that resolves with the new project holding the imported graph
+	 * @throws Error if the document cannot be parsed
+	 */
+	public async importDiagram(fileName: string, text: string, name?: string): Promise<Project> {
+		const diagram = parseDiagram(fileName, text)
+		if (diagram.nodes.length === 0) {
+			throw new Error('Diagram has no nodes')
+		}
+
+		const projectName = name ?? (diagram.title || fileName.replace(/\.[^.]+$/, '') || 'Imported diagram')
+		const project = await this.createProject(projectName, '')
+		const { nodes, edges } = diagramToGraph(diagram)
+
+		loggerService.info(`Diagram imported into project ${project.id}`, { nodeCount: nodes.length })
+		return this.saveProjectWithCommit({ ...project, nodes, edges }, `Import diagram ${fileName}`)
+	}
+
 	/**
 	 * Get all projects
 	 * @param includeArchived Whether to include archived projects
@@ -110,7 +135,7 @@ export class ProjectService {
 			{ includeArchived, includeTemplates },
 		)
 		try {
-			const projects = await indexedDBService.getAllProjects(includeArchived)
+			const projects = await projectRepository.list(includeArchived)
 
 			// Filter out templates if not requested
 			if (!includeTemplates) {
@@ -138,15 +163,14 @@ export class ProjectService {
 			{ projectId: id },
 		)
 		try {
-			const project = await indexedDBService.getProject(id)
+			const project = await projectRepository.get(id)
 
 			if (project) {
 				// Add history entry for viewing the project
-				await indexedDBService.addProjectHistoryEntry({
-					projectId: id,
-					action: 'view',
-					timestamp: new Date().toISOString(),
-				})
+				await projectRepository.recordHistory(id, { action: 'view' })
+
+				// The storage stamps the access time on reads, keep it when this copy is saved again
+				return { ...project, lastAccessedAt: new Date().toISOString() }
 			}
 
 			return project
@@ -180,16 +204,13 @@ export class ProjectService {
 				updatedAt: new Date().toISOString(),
 			}
 
-			// Save to IndexedDB
-			await indexedDBService.saveProject(projectToSave)
-
-			// Add history entry
-			await indexedDBService.addProjectHistoryEntry({
-				projectId: projectToSave.id,
+			// Save with its history entry
+			await projectRepository.save(projectToSave, {
 				action: 'save',
 				timestamp: projectToSave.updatedAt,
 				details: { version: projectToSave.version },
 			})
+			searchService.indexProject(projectToSave)
 
 			loggerService.info(`Project saved: ${projectToSave.id} - ${projectToSave.name}`)
 			return projectToSave
@@ -237,7 +258,7 @@ export class ProjectService {
 			})
 
 			// Get the existing project
-			projectToUpdate = await indexedDBService.getProject(projectId)
+			projectToUpdate = await projectRepository.get(projectId)
 			loggerService.debug('updateProject: Retrieved existing project', {
 				projectId,
 				found: !!projectToUpdate,
@@ -297,15 +318,12 @@ export class ProjectService {
 				nodeSample: finalProject.nodes[0] ? JSON.stringify(finalProject.nodes[0]).substring(0, 200) : 'no nodes',
 			})
 
-			await indexedDBService.saveProject(finalProject)
-
-			// Add history entry
-			await indexedDBService.addProjectHistoryEntry({
-				projectId: updatedProject.id,
+			await projectRepository.save(finalProject, {
 				action: 'update',
 				timestamp: updatedProject.updatedAt,
 				details: { version: updatedProject.version },
 			})
+			searchService.indexProject(finalProject)
 
 			loggerService.info(`Project updated: ${updatedProject.id} - ${updatedProject.name}`)
 			return updatedProject
@@ -330,25 +348,22 @@ export class ProjectService {
 		)
 		try {
 			// Get the project first for history logging
-			const project = await indexedDBService.getProject(id)
+			const project = await projectRepository.get(id)
 
 			if (!project) {
 				throw new Error(`Project with ID ${id} not found`)
 			}
 
-			// Delete the project
-			await indexedDBService.deleteProject(id)
-
-			// Add history entry
-			await indexedDBService.addProjectHistoryEntry({
-				projectId: id,
+			// Delete the project with its history entry
+			await projectRepository.delete(id, {
 				action: 'delete',
-				timestamp: new Date().toISOString(),
 				details: {
 					projectName: project.name,
 					version: project.version,
 				},
 			})
+			searchService.removeProject(id)
+			await chatHistoryService.deleteProjectThreads(id)
 
 			loggerService.info(`Project deleted: ${id} - ${project.name}`)
 		} catch (error) {
@@ -372,14 +387,8 @@ export class ProjectService {
 			{ projectId: id, archive },
 		)
 		try {
-			const updatedProject = await indexedDBService.archiveProject(id, archive)
-
-			// Add history entry
-			await indexedDBService.addProjectHistoryEntry({
-				projectId: id,
-				action: archive ? 'archive' : 'unarchive',
-				timestamp: new Date().toISOString(),
-			})
+			const updatedProject = await projectRepository.archive(id, archive)
+			searchService.indexProject(updatedProject)
 
 			loggerService.info(`Project ${archive ? 'archived' : 'unarchived'}: ${id} - ${updatedProject.name}`)
 			return updatedProject
@@ -394,6 +403,58 @@ export class ProjectService {
 		}
 	}
 
+	/**
+	 * Add and remove tags and set the category of several projects
+	 * @param projectIds IDs of the projects to change
+	 * @param changes Changes to apply to each project
+	 * @returns Promise that resolves with the changed projects
+	 */
+	public async tagProjects(projectIds: string[], changes: ProjectTagChanges): Promise<Project[]> {
+		const metricId = performanceMonitoring.startMeasure(
+			'ProjectService.tagProjects',
+			PerformanceCategory.DATA_LOADING,
+			{ projectCount: projectIds.length },
+		)
+		const removed = new Set(normalizeTags(changes.removeTags ?? []))
+
+		try {
+			const updated: Project[] = []
+			for (const id of projectIds) {
+				const project = await projectRepository.get(id)
+				if (!project) {
+					throw new Error(`Project with ID ${id} not found`)
+				}
+
+				const tags = normalizeTags([...(project.tags ?? []), ...(changes.addTags ?? [])]).filter(
+					(tag) => !removed.has(tag),
+				)
+				const { category: _category, ...rest } = project
+				const category = normalizeCategory(changes.category ?? project.category)
+				const tagged: Project = {
+					...rest,
+					tags,
+					...(category !== undefined ? { category } : {}),
+					updatedAt: new Date().toISOString(),
+				}
+
+				await projectRepository.save(tagged, {
+					action: 'tag',
+					timestamp: tagged.updatedAt,
+					details: { tags, category: category ?? null },
+				})
+				updated.push(tagged)
+			}
+
+			void loggerService.info(`Tags updated for ${updated.length} projects`)
+			return updated
+		} catch (error) {
+			void loggerService.error('Error tagging projects', error instanceof Error ? error : new Error(String(error)))
+			throw new Error('Failed to tag projects')
+		} finally {
+			performanceMonitoring.endMeasure(metricId)
+		}
+	}
+
 	/**
 	 * Save a project with a commit
 	 * @param project Project to save
@@ -402,27 +463,20 @@ export class ProjectService {
 	 */
 	public async saveProjectWithCommit(project: Project, commitMessage: string): Promise<Project> {
 		try {
-			// First update the project
-			const updatedProject = await this.updateProject(project)
-
-			// Then create a commit
-			const committedProject = await gitService.commit(updatedProject, commitMessage)
-
-			// Update the project with the new version
-			const finalProject = await this.updateProject(committedProject)
+			const existingProject = await projectRepository.get(project.id)
+			if (!existingProject) {
+				throw new Error(`Project with ID ${project.id} not found`)
+			}
 
-			// Add history entry for the commit
-			await indexedDBService.addProjectHistoryEntry({
-				projectId: project.id,
-				action: 'update',
-				timestamp: new Date().toISOString(),
-				details: {
-					version: finalProject.version,
-					commitMessage,
-				},
-			})
+			// Project, history entry and commit are stored together
+			const committedProject = await projectRepository.saveWithCommit(
+				{ ...existingProject, ...project },
+				commitMessage,
+				{ action: 'update' },
+			)
+			searchService.indexProject(committedProject)
 
-			return finalProject
+			return committedProject
 		} catch (error) {
 			loggerService.error(
 				'Error saving project with commit',
@@ -455,10 +509,8 @@ export class ProjectService {
 
 			if (result !== null) {
 				// Add history entry for the S3 sync
-				await indexedDBService.addProjectHistoryEntry({
-					projectId,
+				await projectRepository.recordHistory(projectId, {
 					action: 'export',
-					timestamp: new Date().toISOString(),
 					details: {
 						destination: 'S3',
 						version: project.version,
@@ -517,7 +569,7 @@ export class ProjectService {
 			{ projectId: id, limit },
 		)
 		try {
-			return await indexedDBService.getProjectHistory(id, limit)
+			return await projectRepository.getHistory(id, limit)
 		} catch (error) {
 			loggerService.error(
 				'Error getting project history',
@@ -530,7 +582,9 @@ export class ProjectService {
 	}
 
 	/**
-	 * Create a project with offline support
+	 * Create a project with offline support. Projects are created locally, so
+	 * nothing waits for the connection; projects with a network sync backend
+	 * are queued for sync when they are synced while offline.
 	 * @param name Project name
 	 * @param description Project description
 	 * @param template Optional template to use
@@ -542,19 +596,7 @@ export class ProjectService {
 		template: ProjectTemplate = ProjectTemplate.CUSTOM,
 	): Promise<Project> {
 		try {
-			// Create the project locally
-			const project = await this.createProject(name, description, template)
-
-			// If offline, queue for sync when back online
-			if (!offlineService.getOnlineStatus()) {
-				offlineService.addToSyncQueue(async () => {
-					// When back online, we might need to sync with a backend
-					// For now, just log the operation
-					loggerService.info(`Project ${project.id} created while offline, now synced`)
-				})
-			}
-
-			return project
+			return await this.createProject(name, description, template)
 		} catch (error) {
 			loggerService.error(
 				'Error creating project with offline support',
@@ -1,14 +1,17 @@
+import {
+	downloadCompressedJson,
+	isMissingObjectError,
+	listObjectVersions,
+	restoreObjectVersion,
+	uploadCompressedJson,
+	type ObjectVersion,
+	type S3TransferClient,
+} from '../lib/s3Transfer'
 import type { Project } from '../types'
 
 import loggerService from './LoggerService'
 import offlineService from './OfflineService'
 
-// Define a type for version info
-interface VersionInfo {
-	version: string
-	lastModified: Date
-}
-
 // Define a type for queued operations
 interface QueuedOperation {
 	type: 'upload' | 'download' | 'delete'
@@ -118,9 +121,12 @@ export class S3Service {
 					}),
 				})
 
+				// An S3-compatible server such as a local MinIO keeps buckets in the path
+				const endpoint: string | undefined = import.meta.env.VITE_AWS_S3_ENDPOINT
 				// @ts-expect-error - Dynamic AWS SDK
 				this.s3 = new this.AWS.S3({
 					region: region || this.region,
+					...(endpoint ? { endpoint, s3ForcePathStyle: true } : {}),
 				})
 			} catch (error) {
 				console.error('Error configuring AWS SDK:', error)
@@ -144,9 +150,50 @@ export class S3Service {
 	}
 
 	/**
-	 * Upload a project to S3
+	 * Drop the credentials, e.g. when the credential vault is locked
+	 */
+	public reset(): void {
+		this.s3 = null
+		this._isConfigured = false
+	}
+
+	/**
+	 * The client as used for transfers
+	 */
+	private get transferClient(): S3TransferClient {
+		return this.s3 as S3TransferClient
+	}
+
+	/**
+	 * Key of the compressed project document; the bucket keeps its earlier versions
+	 */
+	private getProjectKey(projectId: string): string {
+		return `projects/${projectId}/project.json.gz`
+	}
+
+	/**
+	 * Read a project stored as plain JSON in the old format
+	 */
+	private async readJsonProject(key: string): Promise<Project> {
+		const params = {
+			Bucket: this.bucketName,
+			Key: key,
+		}
+
+		const response = await this.s3.getObject(params).promise()
+
+		if (!response.Body) {
+			throw new Error(`Empty response body when downloading ${key}`)
+		}
+
+		return JSON.parse(response.Body.toString())
+	}
+
+	/**
+	 * Upload a project to S3 as compressed JSON. Large projects go up in parts
+	 * and an interrupted upload resumes, also after a reload.
 	 * @param project Project to upload
-	 * @returns S3 upload response or null if failed
+	 * @returns S3 upload result or null if failed
 	 */
 	public async uploadProject(project: Project): Promise<unknown> {
 		if (!this._isAvailable || !this._isConfigured) {
@@ -162,15 +209,12 @@ export class S3Service {
 		}
 
 		try {
-			const key = `projects/${project.id}/${project.version}.json`
-			const params = {
-				Bucket: this.bucketName,
-				Key: key,
-				Body: JSON.stringify(project),
-				ContentType: 'application/json',
-			}
-
-			const result = await this.s3.putObject(params).promise()
+			const result = await uploadCompressedJson(
+				this.transferClient,
+				{ bucket: this.bucketName, key: this.getProjectKey(project.id) },
+				project,
+				{ metadata: { 'project-version': String(project.version) } },
+			)
 			loggerService.info(`Project ${project.id} uploaded to S3 successfully`)
 			return result
 		} catch (error) {
@@ -294,68 +338,77 @@ export class S3Service {
 	}
 
 	/**
-	 * Download a project from S3
+	 * Download a project from S3. Projects uploaded before compression and
+	 * versioning are read from their per-version JSON files.
 	 * @param projectId Project ID
-	 * @param version Project version (optional)
-	 * @returns Project object or null if failed
+	 * @param version S3 version ID, or project version of a project in the old format (optional)
+	 * @returns Project object or null if it isn't stored in S3
+	 * @throws Error if S3 is not configured, offline or the download fails
 	 */
 	public async downloadProject(projectId: string, version?: string): Promise<Project | null> {
 		if (!this._isAvailable || !this._isConfigured) {
-			console.warn('S3 service is not available or not configured')
-			return null
+			throw new Error('S3 service is not available or not configured')
 		}
 
 		// Check if online
 		if (!offlineService.getOnlineStatus()) {
-			loggerService.info(`Cannot download project ${projectId} while offline`)
 			// Queue for later if needed
 			this.queueOperation('download', { projectId, version })
-			return null
+			throw new Error(`Cannot download project ${projectId} while offline`)
 		}
 
 		try {
-			let key: string
-
-			if (version) {
-				key = `projects/${projectId}/${version}.json`
-			} else {
-				// List all versions and get the latest
-				const listParams = {
-					Bucket: this.bucketName,
-					Prefix: `projects/${projectId}/`,
-				}
-
-				const listResponse = await this.s3.listObjectsV2(listParams).promise()
-
-				if (!listResponse.Contents || listResponse.Contents.length === 0) {
-					loggerService.warn(`No versions found for project ${projectId}`)
-					return null
+			// Each project version of the old format has a file of its own; any
+			// other version is an S3 version ID of the compressed document
+			if (version !== undefined && version !== '') {
+				try {
+					const project = await this.readJsonProject(`projects/${projectId}/${version}.json`)
+					void loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
+					return project
+				} catch (error) {
+					if (!isMissingObjectError(error)) throw error
 				}
+			}
 
-				// Sort by last modified date (descending)
-				const sortedObjects = listResponse.Contents.sort((a: AWS.S3.Object, b: AWS.S3.Object) => {
-					return (b.LastModified?.getTime() || 0) - (a.LastModified?.getTime() || 0)
-				})
-
-				key = sortedObjects[0].Key || ''
+			try {
+				const project = await downloadCompressedJson<Project>(
+					this.transferClient,
+					{ bucket: this.bucketName, key: this.getProjectKey(projectId) },
+					version,
+				)
+				void loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
+				return project
+			} catch (error) {
+				if ((version !== undefined && version !== '') || !isMissingObjectError(error)) throw error
 			}
 
-			const params = {
+			// List all versions and get the latest
+			const listParams = {
 				Bucket: this.bucketName,
-				Key: key,
+				Prefix: `projects/${projectId}/`,
 			}
 
-			const response = await this.s3.getObject(params).promise()
+			const listResponse = await this.s3.listObjectsV2(listParams).promise()
 
-			if (!response.Body) {
-				loggerService.warn('Empty response body when downloading project')
+			if (!listResponse.Contents || listResponse.Contents.length === 0) {
+				loggerService.warn(`No versions found for project ${projectId}`)
 				return null
 			}
 
-			const project = JSON.parse(response.Body.toString())
-			loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
+			// Sort by last modified date (descending)
+			const sortedObjects = listResponse.Contents.sort((a: AWS.S3.Object, b: AWS.S3.Object) => {
+				return (b.LastModified?.getTime() || 0) - (a.LastModified?.getTime() || 0)
+			})
+
+			const project = await this.readJsonProject(sortedObjects[0].Key || '')
+			void loggerService.info(`Project ${projectId} downloaded from S3 successfully`)
 			return project
 		} catch (error) {
+			if (isMissingObjectError(error)) {
+				loggerService.warn(`Project ${projectId} is not stored in S3`)
+				return null
+			}
+
 			loggerService.error(
 				'Error downloading project from S3',
 				error instanceof Error ? error : new Error(String(error)),
@@ -366,48 +419,59 @@ export class S3Service {
 				this.queueOperation('download', { projectId, version })
 			}
 
-			return null
+			throw error
 		}
 	}
 
 	/**
-	 * List all versions of a project
+	 * List the stored versions of a project; the bucket must have versioning enabled
 	 * @param projectId Project ID
-	 * @returns Array of version information or empty array if failed
+	 * @returns Versions, newest first, or empty array if failed
 	 */
-	public async listProjectVersions(projectId: string): Promise<{ version: string; lastModified: Date }[]> {
+	public async listProjectVersions(projectId: string): Promise<ObjectVersion[]> {
 		if (!this._isAvailable || !this._isConfigured) {
 			console.warn('S3 service is not available or not configured')
 			return []
 		}
 
 		try {
-			const params = {
-				Bucket: this.bucketName,
-				Prefix: `projects/${projectId}/`,
-			}
-
-			const response = await this.s3.listObjectsV2(params).promise()
-
-			if (!response.Contents) {
-				return []
-			}
-
-			return response.Contents.map((item: AWS.S3.Object) => {
-				const key = item.Key || ''
-				const version = key.split('/').pop()?.replace('.json', '') || ''
-
-				return {
-					version,
-					lastModified: item.LastModified || new Date(),
-				}
-			}).sort((a: VersionInfo, b: VersionInfo) => b.lastModified.getTime() - a.lastModified.getTime())
+			return await listObjectVersions(this.transferClient, {
+				bucket: this.bucketName,
+				key: this.getProjectKey(projectId),
+			})
 		} catch (error) {
 			console.error('Error listing project versions from S3:', error)
 			return []
 		}
 	}
 
+	/**
+	 * Make an earlier version of a project the latest one; the versions after it are kept
+	 * @param projectId Project ID
+	 * @param versionId S3 version ID to restore
+	 * @returns The restored project or null if failed
+	 */
+	public async restoreProjectVersion(projectId: string, versionId: string): Promise<Project | null> {
+		if (!this._isAvailable || !this._isConfigured) {
+			console.warn('S3 service is not available or not configured')
+			return null
+		}
+
+		try {
+			const target = { bucket: this.bucketName, key: this.getProjectKey(projectId) }
+			await restoreObjectVersion(this.transferClient, target, versionId)
+			const project = await downloadCompressedJson<Project>(this.transferClient, target)
+			void loggerService.info(`Project ${projectId} restored to S3 version ${versionId}`)
+			return project
+		} catch (error) {
+			void loggerService.error(
+				'Error restoring project version from S3',
+				error instanceof Error ? error : new Error(String(error)),
+			)
+			return null
+		}
+	}
+
 	/**
 	 * Check if the service is configured
 	 * @returns True if configured, false otherwise
@@ -0,0 +1,78 @@
+import type { IndexableProject, SearchFilters, SearchResults } from '../utils/searchIndex'
+import { SearchIndex } from '../utils/searchIndex'
+
+import loggerService from './LoggerService'
+import projectRepository from './ProjectRepository'
+
+/**
+ * Full-text search over the nodes of all projects. The index is built from
+ * the project repository on the first search and kept current by `ProjectService`
+ * and `StorageSyncService`, which report every project they save or delete.
+ */
+class SearchService {
+	private static instance: SearchService
+	private index = new SearchIndex()
+	private building: Promise<void> | null = null
+	// Projects saved or deleted since the build started; storage may be older
+	private touched = new Set<string>()
+
+	public static getInstance(): SearchService {
+		if (SearchService.instance === null || SearchService.instance === undefined) {
+			SearchService.instance = new SearchService()
+		}
+		return SearchService.instance
+	}
+
+	/**
+	 * Adds or refreshes the nodes of a project
+	 * @param project Saved project
+	 */
+	public indexProject(project: IndexableProject): void {
+		this.touched.add(project.id)
+		this.index.indexProject(project)
+	}
+
+	/**
+	 * Drops the nodes of a deleted project
+	 * @param projectId Project ID
+	 */
+	public removeProject(projectId: string): void {
+		this.touched.add(projectId)
+		this.index.removeProject(projectId)
+	}
+
+	/**
+	 * Searches all projects, including archived ones when the filters ask for them
+	 * @param query Search text
+	 * @param filters Facet filters
+	 * @param limit Maximum number of hits
+	 * @returns Promise that resolves with hits and facet counts
+	 */
+	public async search(query: string, filters?: SearchFilters, limit?: number): Promise<SearchResults> {
+		await this.ensureIndex()
+		return this.index.search(query, filters, limit)
+	}
+
+	private ensureIndex(): Promise<void> {
+		this.building ??= this.buildIndex().catch((error: unknown) => {
+			// Try again on the next search
+			this.building = null
+			void loggerService.error(
+				'Failed to build search index',
+				error instanceof Error ? error : new Error(String(error)),
+			)
+		})
+		return this.building
+	}
+
+	private async buildIndex(): Promise<void> {
+		this.touched.clear()
+		const projects = await projectRepository.list(true)
+		for (const project of projects) {
+			if (!this.touched.has(project.id)) this.index.indexProject(project)
+		}
+		void loggerService.info('Search index built', { projectCount: projects.length, nodeCount: this.index.size })
+	}
+}
+
+export const searchService = SearchService.getInstance()
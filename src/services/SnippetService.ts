@@ -0,0 +1,192 @@
+import type { Snippet } from '../types/snippet'
+import { normalizeTags } from '../utils/projectCollections'
+import { isSameContent, matchesSnippet, updateSnippetInstances } from '../utils/snippets'
+import type { SubgraphPayload } from '../utils/subgraphClipboard'
+
+import indexedDBService from './IndexedDBService'
+import loggerService from './LoggerService'
+import projectService from './ProjectService'
+import { STORES } from './storage/schema'
+
+// Earlier versions kept per snippet
+export const MAX_SNIPPET_HISTORY = 20
+
+interface SnippetChanges {
+	name?: string
+	description?: string
+	tags?: string[]
+	content?: SubgraphPayload
+}
+
+/**
+ * Personal library of nodes and small subgraphs, kept in IndexedDB, that can
+ * be placed on any canvas. Snippets are versioned, so nodes placed from an
+ * older version can be brought up to date.
+ */
+export class SnippetService {
+	private static instance: SnippetService
+
+	private constructor() {
+		// Initialize if needed
+	}
+
+	public static getInstance(): SnippetService {
+		if (SnippetService.instance === null || SnippetService.instance === undefined) {
+			SnippetService.instance = new SnippetService()
+		}
+		return SnippetService.instance
+	}
+
+	/**
+	 * Get all snippets of the library
+	 * @returns Snippets, most recently updated first
+	 */
+	public async getSnippets(): Promise<Snippet[]> {
+		const snippets = await indexedDBService.getRecords<Snippet>(STORES.SNIPPETS)
+		return snippets.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+	}
+
+	/**
+	 * Get a snippet
+	 * @param id Snippet ID
+	 * @returns The snippet or null if not found
+	 */
+	public async getSnippet(id: string): Promise<Snippet | null> {
+		return indexedDBService.getRecord<Snippet>(STORES.SNIPPETS, id)
+	}
+
+	/**
+	 * Save nodes and edges to the library
+	 * @param name Snippet name
+	 * @param content Nodes and edges, as copied from a canvas
+	 * @param options Description and tags
+	 * @returns The new snippet
+	 */
+	public async createSnippet(
+		name: string,
+		content: SubgraphPayload,
+		options: { description?: string; tags?: string[] } = {},
+	): Promise<Snippet> {
+		const now = new Date().toISOString()
+		const { sourceProjectId: _sourceProjectId, ...nodesAndEdges } = content
+		const snippet: Snippet = {
+			id: crypto.randomUUID(),
+			name: name.trim(),
+			description: options.description?.trim() ?? '',
+			tags: normalizeTags(options.tags ?? []),
+			version: 1,
+			content: nodesAndEdges,
+			history: [],
+			createdAt: now,
+			updatedAt: now,
+		}
+		await this.save(snippet)
+		void loggerService.info(`Snippet "${snippet.name}" saved with ${content.nodes.length} nodes`)
+		return snippet
+	}
+
+	/**
+	 * Change a snippet. New nodes or edges make a new version and keep the
+	 * previous one in the history.
+	 * @param snippet Snippet to update
+	 * @param changes New name, description, tags or content
+	 * @returns The updated snippet
+	 */
+	public async updateSnippet(snippet: Snippet, changes: SnippetChanges): Promise<Snippet> {
+		const now = new Date().toISOString()
+		const contentChanged = changes.content !== undefined && !isSameContent(changes.content, snippet.content)
+		const updated: Snippet = {
+			...snippet,
+			...(changes.name !== undefined ? { name: changes.name.trim() } : {}),
+			...(changes.description !== undefined ? { description: changes.description.trim() } : {}),
+			...(changes.tags !== undefined ? { tags: normalizeTags(changes.tags) } : {}),
+			...(contentChanged && changes.content !== undefined
+				? {
+					version: snippet.version + 1,
+					content: changes.content,
+					history: [
+						{ version: snippet.version, content: snippet.content, savedAt: snippet.updatedAt },
+						...snippet.history,
+					].slice(0, MAX_SNIPPET_HISTORY),
+				}
+				: {}),
+			updatedAt: now,
+		}
+		await this.save(updated)
+		return updated
+	}
+
+	/**
+	 * Make an earlier version the content of a snippet again, as a new version
+	 * @param snippet Snippet to update
+	 * @param version Version from the snippet's history
+	 * @returns The updated snippet
+	 */
+	public async restoreVersion(snippet: Snippet, version: number): Promise<Snippet> {
+		const revision = snippet.history.find((entry) => entry.version === version)
+		if (!revision) {
+			throw new Error(`Version ${version} of snippet ${snippet.id} not found`)
+		}
+		return this.updateSnippet(snippet, { content: revision.content })
+	}
+
+	/**
+	 * Delete a snippet. Nodes placed from it stay on their canvases.
+	 * @param id Snippet ID
+	 */
+	public async deleteSnippet(id: string): Promise<void> {
+		await indexedDBService.writeTransaction([STORES.SNIPPETS], (transaction) => {
+			transaction.objectStore(STORES.SNIPPETS).delete(id)
+		})
+	}
+
+	/**
+	 * Find snippets whose name, description, tags or node text contain every
+	 * query term
+	 * @param query Search text
+	 * @param tag Tag the snippets must have
+	 * @returns Matching snippets, most recently updated first
+	 */
+	public async searchSnippets(query: string, tag?: string): Promise<Snippet[]> {
+		const snippets = await this.getSnippets()
+		return snippets.filter(
+			(snippet) => (tag === undefined || snippet.tags.includes(tag)) && matchesSnippet(snippet, query),
+		)
+	}
+
+	/**
+	 * Bring the nodes placed from older versions of a snippet up to date in
+	 * every project
+	 * @param snippet Current version of the snippet
+	 * @returns Number of nodes updated
+	 */
+	public async updateInstances(snippet: Snippet): Promise<number> {
+		try {
+			const projects = await projectService.getProjects(true, true)
+			let total = 0
+			for (const project of projects) {
+				const { nodes, updated } = updateSnippetInstances(project.nodes, snippet)
+				const unchanged = new Map(project.nodes.map((node) => [node.id, node]))
+				if (nodes.every((node) => unchanged.get(node.id) === node)) continue
+				await projectService.updateProject(project.id, { nodes })
+				total += updated
+			}
+			void loggerService.info(`Updated ${total} nodes placed from snippet "${snippet.name}"`)
+			return total
+		} catch (error) {
+			void loggerService.error(
+				'Error updating snippet instances',
+				error instanceof Error ? error : new Error(String(error)),
+			)
+			throw new Error('Failed to update the nodes placed from the snippet')
+		}
+	}
+
+	private async save(snippet: Snippet): Promise<void> {
+		await indexedDBService.writeTransaction([STORES.SNIPPETS], (transaction) => {
+			transaction.objectStore(STORES.SNIPPETS).put(snippet)
+		})
+	}
+}
+
+export default SnippetService.getInstance()
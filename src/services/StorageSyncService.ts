@@ -1,22 +1,55 @@
 import type { Project } from '../types/project'
+import type { ConflictResolutions, MergeConflict } from '../utils/projectMerge'
+import { hasProjectChanges, mergeProjects } from '../utils/projectMerge'
 
-import { indexedDBStorageService } from './IndexedDBStorageService'
+import chatHistoryService from './ChatHistoryService'
 import loggerService from './LoggerService'
-import s3Service from './S3Service'
+import offlineService from './OfflineService'
+import projectRepository from './ProjectRepository'
+import { searchService } from './SearchService'
+import { getSyncBackend, type SyncBackend, type SyncedProject } from './sync'
 
 interface SyncConflict {
 	projectId: string
+	baseVersion: Project | null
 	localVersion: Project
 	remoteVersion: Project
 	timestamp: string
 }
 
+/**
+ * Conflicts of a three-way merge that need a decision from the user
+ */
+export interface SyncConflictReview {
+	projectId: string
+	projectName: string
+	conflicts: MergeConflict[]
+	baseVersion: Project | null
+	localVersion: Project
+	remoteVersion: Project
+}
+
+/**
+ * Resolves the reported conflicts, or returns null to postpone the merge
+ */
+export type SyncConflictHandler = (review: SyncConflictReview) => Promise<ConflictResolutions | null>
+
 class StorageSyncService {
 	private static instance: StorageSyncService
 	private syncInProgress = false
-	private readonly maxRetries = 3
+	private conflictHandler: SyncConflictHandler | null = null
 
-	private constructor() {}
+	private constructor() {
+		// Syncs queued while offline run with the stored version of the project
+		offlineService.registerCommandHandler('project.sync', async ({ projectId }) => {
+			const project = await projectRepository.get(projectId)
+			if (project === null) return
+
+			if (!(await this.syncProject(project))) {
+				throw new Error(`Project ${projectId} was not synced`)
+			}
+		})
+	}
 
 	public static getInstance(): StorageSyncService {
 		if (StorageSyncService.instance == null) {
@@ -26,27 +59,67 @@ class StorageSyncService {
 	}
 
 	/**
-	 * Sync a project between IndexedDB and S3
+	 * Register the handler that lets the user review merge conflicts
+	 * @param handler Conflict handler, usually provided by the conflict review dialog
+	 * @returns Function to unregister the handler
+	 */
+	public setConflictHandler(handler: SyncConflictHandler): () => void {
+		this.conflictHandler = handler
+		return () => {
+			if (this.conflictHandler === handler) {
+				this.conflictHandler = null
+			}
+		}
+	}
+
+	/**
+	 * Sync a project between the project repository and the backend chosen in its sync
+	 * settings. While offline, projects on a network backend wait in the
+	 * offline queue and sync once the connection is back.
+	 * @returns True when the project was synced
 	 */
 	public async syncProject(project: Project): Promise<boolean> {
 		if (this.syncInProgress) {
-			loggerService.warn('Sync already in progress, skipping...')
+			void loggerService.warn('Sync already in progress, skipping...')
+			return false
+		}
+
+		const backend = getSyncBackend(project.syncSettings.backend)
+		if (!(await backend.isReady(project.id, project.syncSettings))) {
+			void loggerService.warn(`Sync backend ${backend.id} is not set up for project ${project.id}`)
+			return false
+		}
+
+		if (backend.requiresNetwork && !offlineService.getOnlineStatus()) {
+			this.queueSync(project)
 			return false
 		}
 
 		this.syncInProgress = true
 
 		try {
-			// First, sync from S3 to get latest changes
-			const remoteProject = await this.pullFromS3(project.id)
+			// First, pull the stored version to get the latest changes
+			const remoteProject = await this.pull(backend, project)
 
 			if (remoteProject != null) {
-				// Check for conflicts
-				const hasConflict = await this.checkForConflicts(project, remoteProject)
-				if (hasConflict) {
-					// Handle conflict resolution
+				const baseProject = await projectRepository.getSyncBase(project.id)
+				const localChanged = baseProject == null || hasProjectChanges(project, baseProject)
+				const remoteChanged = baseProject == null || hasProjectChanges(remoteProject, baseProject)
+
+				if (!remoteChanged || !hasProjectChanges(project, remoteProject)) {
+					// Only local changes (or both sides agree), push them
+					await this.push(backend, project)
+					await this.saveSyncBase(project)
+				} else if (!localChanged) {
+					// Only remote changes, take them
+					await projectRepository.save(remoteProject, { action: 'sync', details: { backend: backend.id } })
+					searchService.indexProject(remoteProject)
+					await this.saveSyncBase(remoteProject)
+				} else {
+					// Both sides changed since the last sync, merge them
 					const resolvedProject = await this.resolveConflict({
 						projectId: project.id,
+						baseVersion: baseProject,
 						localVersion: project,
 						remoteVersion: remoteProject,
 						timestamp: new Date().toISOString(),
@@ -54,23 +127,26 @@ class StorageSyncService {
 
 					if (resolvedProject != null) {
 						// Save resolved project locally
-						await indexedDBStorageService.saveProject(resolvedProject)
-						// Push resolved project to S3
-						await this.pushToS3(resolvedProject)
+						await projectRepository.save(resolvedProject, {
+							action: 'sync',
+							details: { backend: backend.id, merged: true },
+						})
+						searchService.indexProject(resolvedProject)
+						// Push resolved project to the backend
+						await this.push(backend, resolvedProject)
+						await this.saveSyncBase(resolvedProject)
 					}
-				} else {
-					// No conflicts, push local changes to S3
-					await this.pushToS3(project)
 				}
 			} else {
 				// No remote version exists, push local version
-				await this.pushToS3(project)
+				await this.push(backend, project)
+				await this.saveSyncBase(project)
 			}
 
-			loggerService.info(`Project ${project.id} synced successfully`)
+			void loggerService.info(`Project ${project.id} synced with ${backend.id} successfully`)
 			return true
 		} catch (error) {
-			loggerService.error('Error syncing project', error instanceof Error ? error : new Error(String(error)))
+			void loggerService.error('Error syncing project', error instanceof Error ? error : new Error(String(error)))
 			return false
 		} finally {
 			this.syncInProgress = false
@@ -78,72 +154,111 @@ class StorageSyncService {
 	}
 
 	/**
-	 * Pull project from S3
+	 * Sync a project once the connection is back. The offline queue keeps one
+	 * sync per project, which syncs the version stored at that time.
 	 */
-	private async pullFromS3(projectId: string): Promise<Project | null> {
-		try {
-			return await s3Service.downloadProject(projectId)
-		} catch (error) {
-			loggerService.error(
-				'Error pulling project from S3',
-				error instanceof Error ? error : new Error(String(error)),
-			)
-			return null
+	private queueSync(project: Project): void {
+		void loggerService.info(`Offline, queued sync of project ${project.id}`)
+		offlineService.enqueue('project.sync', { projectId: project.id })
+	}
+
+	/**
+	 * Pull a project from the backend. The chat threads it carries are merged
+	 * into the local ones right away, the newer version of each thread wins.
+	 * Throws when the backend can't be read, so a failed download is never
+	 * taken for a missing project and overwritten.
+	 */
+	private async pull(backend: SyncBackend, project: Project): Promise<Project | null> {
+		const remote = await backend.download(project.id, project.syncSettings)
+		if (remote == null) return null
+
+		const { chatThreads, ...remoteProject } = remote
+		if (Array.isArray(chatThreads)) {
+			await chatHistoryService.importThreads(project.id, chatThreads)
 		}
+		// Where to sync to is a local choice, keep it
+		return { ...remoteProject, syncSettings: project.syncSettings }
 	}
 
 	/**
-	 * Push project to S3
+	 * Push a project to the backend together with its chat threads. Throws when
+	 * that fails, so the sync base stays at the last version both sides have.
 	 */
-	private async pushToS3(project: Project): Promise<boolean> {
-		try {
-			const result = await s3Service.uploadProject(project)
-			return result != null
-		} catch (error) {
-			loggerService.error(
-				'Error pushing project to S3',
-				error instanceof Error ? error : new Error(String(error)),
-			)
-			return false
+	private async push(backend: SyncBackend, project: Project): Promise<void> {
+		const bundle: SyncedProject = {
+			...project,
+			chatThreads: await chatHistoryService.getThreads(project.id),
 		}
+		await backend.upload(bundle, project.syncSettings)
 	}
 
 	/**
-	 * Check for conflicts between local and remote versions
+	 * Remember the version both sides agree on as the base of the next merge
 	 */
-	private async checkForConflicts(local: Project, remote: Project): Promise<boolean> {
-		// Compare timestamps
-		const localModified = new Date(local.updatedAt).getTime()
-		const remoteModified = new Date(remote.updatedAt).getTime()
-
-		// If remote is newer and has different content, we have a conflict
-		const hasNewerTimestamp = remoteModified > localModified
-		const hasDifferentContent = JSON.stringify(local.nodes) !== JSON.stringify(remote.nodes)
-		return hasNewerTimestamp && hasDifferentContent
+	private async saveSyncBase(project: Project): Promise<void> {
+		try {
+			await projectRepository.saveSyncBase(project)
+		} catch (error) {
+			void loggerService.error(
+				'Error saving sync base',
+				error instanceof Error ? error : new Error(String(error)),
+			)
+		}
 	}
 
 	/**
 	 * Resolve sync conflict
-	 * Currently uses a "last write wins" strategy with conflict history
+	 * Runs a three-way merge of nodes and edges against the last synced version.
+	 * Changes that touch the same field on both sides are handed to the registered
+	 * conflict handler; without one, the newer version wins those fields.
 	 */
 	private async resolveConflict(conflict: SyncConflict): Promise<Project | null> {
 		try {
-			// Store both versions in history for potential recovery
-			await this.storeConflictHistory(conflict)
+			const { baseVersion, localVersion, remoteVersion } = conflict
+			const firstPass = mergeProjects(baseVersion, localVersion, remoteVersion)
+
+			let resolutions: ConflictResolutions = {}
+			if (firstPass.conflicts.length > 0) {
+				if (this.conflictHandler != null) {
+					const chosen = await this.conflictHandler({
+						projectId: conflict.projectId,
+						projectName: localVersion.name,
+						conflicts: firstPass.conflicts,
+						baseVersion,
+						localVersion,
+						remoteVersion,
+					})
+
+					if (chosen == null) {
+						void loggerService.info(`Conflict resolution postponed for project ${conflict.projectId}`)
+						await this.storeConflictHistory(conflict, null, firstPass.conflicts, {})
+						return null
+					}
+					resolutions = chosen
+				} else {
+					const remoteIsNewer =
+						new Date(remoteVersion.updatedAt).getTime() > new Date(localVersion.updatedAt).getTime()
+					resolutions = Object.fromEntries(
+						firstPass.conflicts.map((item) => [item.id, remoteIsNewer ? 'remote' : 'local']),
+					)
+				}
+			}
 
-			// For now, take the most recent version
-			const localTime = new Date(conflict.localVersion.updatedAt).getTime()
-			const remoteTime = new Date(conflict.remoteVersion.updatedAt).getTime()
+			const resolved =
+				firstPass.conflicts.length > 0
+					? mergeProjects(baseVersion, localVersion, remoteVersion, resolutions).project
+					: firstPass.project
 
-			const resolved = localTime > remoteTime ? conflict.localVersion : conflict.remoteVersion
+			// Store all versions in history for potential recovery
+			await this.storeConflictHistory(conflict, resolved, firstPass.conflicts, resolutions)
 
-			loggerService.info(
-				`Conflict resolved for project ${conflict.projectId}, using ${localTime > remoteTime ? 'local' : 'remote'} version`,
+			void loggerService.info(
+				`Conflict resolved for project ${conflict.projectId}, merged with ${firstPass.conflicts.length} conflicting change(s)`,
 			)
 
 			return resolved
 		} catch (error) {
-			loggerService.error(
+			void loggerService.error(
 				'Error resolving sync conflict',
 				error instanceof Error ? error : new Error(String(error)),
 			)
@@ -154,23 +269,26 @@ class StorageSyncService {
 	/**
 	 * Store conflict history for potential recovery
 	 */
-	private async storeConflictHistory(conflict: SyncConflict): Promise<void> {
+	private async storeConflictHistory(
+		conflict: SyncConflict,
+		mergedVersion: Project | null,
+		conflicts: MergeConflict[],
+		resolutions: ConflictResolutions,
+	): Promise<void> {
 		try {
-			await indexedDBStorageService.queueChange({
+			await projectRepository.addConflictRecord({
 				id: `conflict_${conflict.projectId}_${Date.now()}`,
-				type: 'create',
-				timestamp: Date.now(),
-				data: {
-					type: 'conflict',
-					projectId: conflict.projectId,
-					localVersion: conflict.localVersion,
-					remoteVersion: conflict.remoteVersion,
-					timestamp: conflict.timestamp,
-				},
-				retryCount: 0,
+				projectId: conflict.projectId,
+				baseVersion: conflict.baseVersion,
+				localVersion: conflict.localVersion,
+				remoteVersion: conflict.remoteVersion,
+				mergedVersion,
+				conflicts,
+				resolutions,
+				timestamp: conflict.timestamp,
 			})
 		} catch (error) {
-			loggerService.error(
+			void loggerService.error(
 				'Error storing conflict history',
 				error instanceof Error ? error : new Error(String(error)),
 			)
@@ -0,0 +1,146 @@
+import type { ProviderCapabilities, TokenUsage } from '../../types'
+import type { CompletionChunk } from '../../utils/sse'
+
+import { trimBaseUrl } from './openAICompatibleProvider'
+import type { CompletionRequest, CompletionResult, LLMProvider, ProviderConfig, StreamEventParser } from './types'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// The Messages API requires a limit on the reply length
+const DEFAULT_MAX_TOKENS = 4096
+
+const CONTEXT_WINDOW = 200000
+
+interface AnthropicUsage {
+	input_tokens?: number
+	output_tokens?: number
+}
+
+const toUsage = (inputTokens: number, outputTokens: number): TokenUsage => ({
+	promptTokens: inputTokens,
+	completionTokens: outputTokens,
+	totalTokens: inputTokens + outputTokens,
+})
+
+const getHeaders = (config: ProviderConfig): Record<string, string> => ({
+	'Content-Type': 'application/json',
+	'x-api-key': config.apiKey,
+	'anthropic-version': ANTHROPIC_VERSION,
+	// Requests come straight from the browser, without a backend in between
+	'anthropic-dangerous-direct-browser-access': 'true',
+})
+
+const getBaseUrl = (config: ProviderConfig) => trimBaseUrl(config.baseUrl ?? anthropicProvider.defaultBaseUrl)
+
+// System messages go into a separate field, the rest must alternate between user and assistant
+const toAnthropicMessages = (request: CompletionRequest) => {
+	const system = request.messages
+		.filter((message) => message.role === 'system')
+		.map((message) => message.content)
+		.join('\n\n')
+	const messages = request.messages
+		.filter((message) => message.role !== 'system')
+		.map((message) => ({ role: message.role, content: message.content }))
+	return { system, messages }
+}
+
+const createStreamParser = (): StreamEventParser => {
+	// Input tokens arrive at the start of the stream, output tokens at its end
+	let inputTokens = 0
+
+	return (event) => {
+		let payload: {
+			type?: string
+			message?: { usage?: AnthropicUsage }
+			delta?: { type?: string; text?: string; stop_reason?: string | null }
+			usage?: AnthropicUsage
+			error?: { message?: string }
+		}
+		try {
+			payload = JSON.parse(event.data) as typeof payload
+		} catch {
+			return null
+		}
+
+		switch (payload.type) {
+		case 'message_start':
+			inputTokens = payload.message?.usage?.input_tokens ?? 0
+			return null
+		case 'content_block_delta':
+			return payload.delta?.type === 'text_delta' ? { delta: payload.delta.text ?? '' } : null
+		case 'message_delta': {
+			const chunk: CompletionChunk = { delta: '' }
+			if (typeof payload.delta?.stop_reason === 'string') chunk.finishReason = payload.delta.stop_reason
+			if (payload.usage?.output_tokens !== undefined) {
+				chunk.usage = toUsage(inputTokens, payload.usage.output_tokens)
+			}
+			return chunk
+		}
+		case 'message_stop':
+			return 'done'
+		case 'error':
+			return { delta: '', error: payload.error?.message ?? 'Unknown stream error' }
+		default:
+			// Pings and content block boundaries
+			return null
+		}
+	}
+}
+
+/**
+ * Anthropic Messages API
+ */
+export const anthropicProvider: LLMProvider = {
+	id: 'anthropic',
+	label: 'Anthropic',
+	defaultBaseUrl: 'https://api.anthropic.com/v1',
+	defaultModel: 'claude-3-5-sonnet-latest',
+	requiresApiKey: true,
+
+	getCapabilities: (_model: string, config: ProviderConfig): ProviderCapabilities => ({
+		streaming: true,
+		// There is no JSON mode, the prompt has to ask for JSON
+		jsonMode: false,
+		contextWindow: config.contextWindow ?? CONTEXT_WINDOW,
+	}),
+
+	buildRequest: (request: CompletionRequest, config: ProviderConfig) => {
+		const { system, messages } = toAnthropicMessages(request)
+		return {
+			url: `${getBaseUrl(config)}/messages`,
+			init: {
+				method: 'POST',
+				headers: { ...getHeaders(config), ...(request.stream === true ? { Accept: 'text/event-stream' } : {}) },
+				body: JSON.stringify({
+					model: request.model,
+					max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+					...(system !== '' ? { system } : {}),
+					messages,
+					...(request.stream === true ? { stream: true } : {}),
+				}),
+			},
+		}
+	},
+
+	parseResponse: (data: unknown): CompletionResult => {
+		const { content, usage } = data as {
+			content?: Array<{ type?: string; text?: string }>
+			usage?: AnthropicUsage
+		}
+		const text = (content ?? [])
+			.filter((block) => block.type === 'text')
+			.map((block) => block.text ?? '')
+			.join('')
+		return {
+			content: text,
+			...(usage !== undefined ? { usage: toUsage(usage.input_tokens ?? 0, usage.output_tokens ?? 0) } : {}),
+		}
+	},
+
+	createStreamParser,
+
+	buildModelsRequest: (config: ProviderConfig) => ({
+		url: `${getBaseUrl(config)}/models`,
+		init: { method: 'GET', headers: getHeaders(config) },
+	}),
+}
@@ -0,0 +1,57 @@
+import type { LLMProviderId } from '../../types'
+
+import { anthropicProvider } from './anthropicProvider'
+import { openAICompatibleProvider, openRouterProvider } from './openAICompatibleProvider'
+import type { LLMProvider, ProviderConfig } from './types'
+
+export { anthropicProvider, openAICompatibleProvider, openRouterProvider }
+export type { CompletionRequest, CompletionResult, LLMMessage, LLMProvider, ProviderConfig, StreamEventParser } from './types'
+
+/**
+ * All available providers, in the order offered to the user
+ */
+export const LLM_PROVIDERS: readonly LLMProvider[] = [openRouterProvider, openAICompatibleProvider, anthropicProvider]
+
+/**
+ * Looks up a provider adapter
+ * @param id Provider ID
+ * @returns The provider
+ */
+export function getProvider(id: LLMProviderId): LLMProvider {
+	const provider = LLM_PROVIDERS.find((candidate) => candidate.id === id)
+	if (!provider) {
+		throw new Error(`Unknown LLM provider: ${id}`)
+	}
+	return provider
+}
+
+/**
+ * Whether a URL points to this machine or the local network, so requests to
+ * it work without internet access
+ * @param url URL to check
+ * @returns True for local endpoints
+ */
+export function isLocalEndpoint(url: string): boolean {
+	try {
+		const { hostname } = new URL(url)
+		return (
+			hostname === 'localhost' ||
+			hostname === '127.0.0.1' ||
+			hostname === '[::1]' ||
+			hostname.endsWith('.local')
+		)
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Whether a provider has everything it needs to send requests
+ * @param provider Provider to check
+ * @param config Its configuration, if any
+ * @returns True when requests can be sent
+ */
+export function isProviderReady(provider: LLMProvider, config: ProviderConfig | undefined): boolean {
+	if (!config) return false
+	return !provider.requiresApiKey || config.apiKey !== ''
+}
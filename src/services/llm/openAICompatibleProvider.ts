@@ -0,0 +1,141 @@
+import type { LLMProviderId, ProviderCapabilities } from '../../types'
+import { parseCompletionChunk, STREAM_DONE } from '../../utils/sse'
+
+import type { CompletionRequest, CompletionResult, LLMProvider, ProviderConfig } from './types'
+
+// Context window when neither the model nor the configuration tells
+const DEFAULT_CONTEXT_WINDOW = 8192
+
+// Context windows of well-known models, matched by name prefix
+const KNOWN_CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+	['anthropic/claude-3', 200000],
+	['openai/gpt-4o', 128000],
+	['openai/gpt-4-turbo', 128000],
+	['openai/gpt-3.5-turbo', 16385],
+	['gpt-4o', 128000],
+	['gpt-4-turbo', 128000],
+	['gpt-3.5-turbo', 16385],
+]
+
+const knownContextWindow = (model: string): number | undefined =>
+	KNOWN_CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix))?.[1]
+
+/**
+ * Removes the trailing slash of a base URL
+ * @param baseUrl Configured base URL
+ * @returns URL to append paths to
+ */
+export const trimBaseUrl = (baseUrl: string): string => baseUrl.replace(/\/+$/, '')
+
+interface OpenAICompatibleOptions {
+	id: LLMProviderId
+	label: string
+	defaultBaseUrl: string
+	defaultModel: string
+	requiresApiKey: boolean
+	/** Additional headers sent with every request */
+	headers?: () => Record<string, string>
+	/** Whether the model follows `response_format: json_object` */
+	supportsJsonMode: (model: string) => boolean
+}
+
+/**
+ * Creates an adapter for the OpenAI chat completions API, which OpenRouter
+ * and most local model servers implement as well
+ * @param options What sets the provider apart
+ * @returns The provider
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+	const getHeaders = (config: ProviderConfig): Record<string, string> => ({
+		'Content-Type': 'application/json',
+		...(config.apiKey !== '' ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+		...options.headers?.(),
+	})
+	const getBaseUrl = (config: ProviderConfig) => trimBaseUrl(config.baseUrl ?? options.defaultBaseUrl)
+
+	return {
+		id: options.id,
+		label: options.label,
+		defaultBaseUrl: options.defaultBaseUrl,
+		defaultModel: options.defaultModel,
+		requiresApiKey: options.requiresApiKey,
+
+		getCapabilities: (model: string, config: ProviderConfig): ProviderCapabilities => ({
+			streaming: true,
+			jsonMode: options.supportsJsonMode(model),
+			contextWindow: config.contextWindow ?? knownContextWindow(model) ?? DEFAULT_CONTEXT_WINDOW,
+		}),
+
+		buildRequest: (request: CompletionRequest, config: ProviderConfig) => ({
+			url: `${getBaseUrl(config)}/chat/completions`,
+			init: {
+				method: 'POST',
+				headers: { ...getHeaders(config), ...(request.stream === true ? { Accept: 'text/event-stream' } : {}) },
+				body: JSON.stringify({
+					model: request.model,
+					messages: request.messages,
+					...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+					...(request.jsonMode === true && options.supportsJsonMode(request.model)
+						? { response_format: { type: 'json_object' } }
+						: {}),
+					...(request.stream === true ? { stream: true, stream_options: { include_usage: true } } : {}),
+				}),
+			},
+		}),
+
+		parseResponse: (data: unknown): CompletionResult => {
+			const { choices, usage } = data as {
+				choices?: Array<{ message?: { content?: string | null } }>
+				usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }
+			}
+			const content = choices?.[0]?.message?.content ?? ''
+			if (usage === undefined) return { content }
+			const promptTokens = usage.prompt_tokens ?? 0
+			const completionTokens = usage.completion_tokens ?? 0
+			return {
+				content,
+				usage: {
+					promptTokens,
+					completionTokens,
+					totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+				},
+			}
+		},
+
+		createStreamParser: () => (event) => (event.data === STREAM_DONE ? 'done' : parseCompletionChunk(event.data)),
+
+		buildModelsRequest: (config: ProviderConfig) => ({
+			url: `${getBaseUrl(config)}/models`,
+			init: { method: 'GET', headers: getHeaders(config) },
+		}),
+	}
+}
+
+/**
+ * OpenRouter, routing to models of many vendors
+ */
+export const openRouterProvider = createOpenAICompatibleProvider({
+	id: 'openrouter',
+	label: 'OpenRouter',
+	defaultBaseUrl: 'https://openrouter.ai/api/v1',
+	defaultModel: 'anthropic/claude-3-opus',
+	requiresApiKey: true,
+	headers: () => ({
+		'HTTP-Referer': window.location.origin,
+		'X-Title': 'd.o.it.brainstorming',
+	}),
+	// OpenRouter passes JSON mode on to OpenAI models only
+	supportsJsonMode: (model) => model.startsWith('openai/'),
+})
+
+/**
+ * OpenAI or any server implementing its API, e.g. Ollama, llama.cpp server or LM Studio
+ */
+export const openAICompatibleProvider = createOpenAICompatibleProvider({
+	id: 'openai-compatible',
+	label: 'OpenAI-compatible',
+	defaultBaseUrl: 'http://localhost:11434/v1',
+	defaultModel: 'llama3.1',
+	requiresApiKey: false,
+	supportsJsonMode: () => true,
+})
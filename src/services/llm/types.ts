@@ -0,0 +1,60 @@
+import type { LLMProviderId, ProviderCapabilities, TokenUsage } from '../../types'
+import type { CompletionChunk, ServerSentEvent } from '../../utils/sse'
+
+/**
+ * Connection settings of a provider
+ */
+export interface ProviderConfig {
+	/** May be empty for local servers that don't check keys */
+	apiKey: string
+	/** API root, e.g. `http://localhost:11434/v1`; the provider default when left out */
+	baseUrl?: string
+	/** Context window of the configured model, for servers that can't report it */
+	contextWindow?: number
+}
+
+export interface LLMMessage {
+	role: 'system' | 'user' | 'assistant'
+	content: string
+}
+
+/**
+ * A completion request in provider-neutral form
+ */
+export interface CompletionRequest {
+	model: string
+	messages: LLMMessage[]
+	stream?: boolean
+	/** Ask for a JSON object; ignored by providers without JSON mode */
+	jsonMode?: boolean
+	maxTokens?: number
+}
+
+export interface CompletionResult {
+	content: string
+	usage?: TokenUsage
+}
+
+/**
+ * Reads the events of one streamed reply. `done` marks the end of the stream,
+ * null an event without content.
+ */
+export type StreamEventParser = (event: ServerSentEvent) => CompletionChunk | 'done' | null
+
+/**
+ * Adapter translating completion requests to the API of one provider
+ */
+export interface LLMProvider {
+	id: LLMProviderId
+	label: string
+	defaultBaseUrl: string
+	/** Model suggested when none has been chosen */
+	defaultModel: string
+	requiresApiKey: boolean
+	getCapabilities: (model: string, config: ProviderConfig) => ProviderCapabilities
+	buildRequest: (request: CompletionRequest, config: ProviderConfig) => { url: string; init: RequestInit }
+	parseResponse: (data: unknown) => CompletionResult
+	createStreamParser: () => StreamEventParser
+	/** Request listing the available models; the response has them under `data` */
+	buildModelsRequest: (config: ProviderConfig) => { url: string; init: RequestInit }
+}
@@ -0,0 +1,124 @@
+import type { Project } from '../../types/project'
+
+/**
+ * Readers for the places projects were kept before the project repository:
+ * the separate `projectsDB` database of the old sync storage and the
+ * localStorage copies written while IndexedDB was unavailable
+ */
+
+export const LEGACY_DB_NAME = 'projectsDB'
+export const FALLBACK_PROJECT_PREFIX = 'doitBrainstorming_project_'
+
+// Shape of the conflict records the old sync storage queued as pending changes
+interface LegacyPendingChange {
+	id: string
+	type: 'create' | 'update' | 'delete'
+	timestamp: number
+	data: Record<string, unknown>
+}
+
+export interface LegacyConflictRecord {
+	id: string
+	projectId: string
+	timestamp: string
+	localVersion?: Project
+	remoteVersion?: Project
+}
+
+export interface LegacyDatabaseContents {
+	/** Projects, including the ones of queued create and update changes */
+	projects: Project[]
+	syncBases: Project[]
+	conflicts: LegacyConflictRecord[]
+}
+
+const readAll = async <T>(db: IDBDatabase, storeName: string): Promise<T[]> => {
+	if (!db.objectStoreNames.contains(storeName)) return []
+	return new Promise((resolve, reject) => {
+		const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll()
+		request.onsuccess = () => resolve(request.result as T[])
+		request.onerror = () => reject(new Error(`Failed to read ${storeName} from ${LEGACY_DB_NAME}`))
+	})
+}
+
+const openExisting = async (name: string): Promise<IDBDatabase | null> => {
+	if (typeof indexedDB === 'undefined') return null
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.open(name)
+		// A new database means there is nothing to read, don't leave an empty one behind
+		request.onupgradeneeded = (event) => {
+			if (event.oldVersion === 0) request.transaction?.abort()
+		}
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => {
+			if (request.error?.name === 'AbortError') {
+				resolve(null)
+			} else {
+				reject(request.error ?? new Error(`Failed to open ${name}`))
+			}
+		}
+	})
+}
+
+/**
+ * Read everything the old sync storage kept
+ * @returns The contents, or null when the database doesn't exist
+ */
+export async function readLegacyDatabase(): Promise<LegacyDatabaseContents | null> {
+	const db = await openExisting(LEGACY_DB_NAME)
+	if (db === null) return null
+
+	try {
+		const [projects, syncBases, changes] = await Promise.all([
+			readAll<Project>(db, 'projects'),
+			readAll<Project>(db, 'syncBases'),
+			readAll<LegacyPendingChange>(db, 'pendingChanges'),
+		])
+
+		const conflicts: LegacyConflictRecord[] = []
+		const queuedProjects: Project[] = []
+		for (const change of changes) {
+			if (change.data.type === 'conflict') {
+				conflicts.push({ ...change.data, id: change.id } as LegacyConflictRecord)
+			} else if (change.type !== 'delete' && typeof change.data.id === 'string') {
+				queuedProjects.push(change.data as unknown as Project)
+			}
+		}
+
+		return { projects: [...projects, ...queuedProjects], syncBases, conflicts }
+	} finally {
+		db.close()
+	}
+}
+
+/**
+ * Delete the old sync storage once its contents have been moved
+ */
+export async function deleteLegacyDatabase(): Promise<void> {
+	if (typeof indexedDB === 'undefined') return
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.deleteDatabase(LEGACY_DB_NAME)
+		request.onsuccess = () => resolve()
+		request.onerror = () => reject(request.error ?? new Error(`Failed to delete ${LEGACY_DB_NAME}`))
+		// Another tab still has it open; it is deleted once that tab closes it
+		request.onblocked = () => resolve()
+	})
+}
+
+/**
+ * Projects saved to localStorage while IndexedDB was unavailable
+ * @returns The projects with the localStorage key each was read from
+ */
+export function readFallbackProjects(): Array<{ key: string; project: Project }> {
+	const found: Array<{ key: string; project: Project }> = []
+	for (let index = 0; index < localStorage.length; index++) {
+		const key = localStorage.key(index)
+		if (key === null || !key.startsWith(FALLBACK_PROJECT_PREFIX)) continue
+		try {
+			found.push({ key, project: JSON.parse(localStorage.getItem(key) ?? 'null') as Project })
+		} catch {
+			// Leave unreadable entries in place
+		}
+	}
+	return found.filter(({ project }) => typeof project?.id === 'string')
+}
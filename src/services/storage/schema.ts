@@ -0,0 +1,164 @@
+/**
+ * Schema of the app database. Every change to the stores is a new entry in
+ * SCHEMA_MIGRATIONS; the database version is the version of the last entry.
+ */
+
+export const DB_NAME = 'doitBrainstorming'
+
+// Store names
+export const STORES = {
+	SETTINGS: 'settings',
+	COLORS: 'colors',
+	NODE_PREFERENCES: 'nodePreferences',
+	LOGS: 'logs',
+	SECURE_STORE: 'secureStore',
+	PROJECTS: 'projects',
+	PROJECT_HISTORY: 'projectHistory',
+	OFFLINE_QUEUE: 'offlineQueue',
+	GIT_OBJECTS: 'gitObjects',
+	GIT_COMMITS: 'gitCommits',
+	GIT_REFS: 'gitRefs',
+	CHAT_THREADS: 'chatThreads',
+	SYNC_BASES: 'syncBases',
+	CONFLICT_HISTORY: 'conflictHistory',
+	SNIPPETS: 'snippets',
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+export interface SchemaMigration {
+	version: number
+	description: string
+	/**
+	 * Changes the stores; runs inside the version change transaction, so it
+	 * must not wait for anything but requests on that transaction
+	 */
+	upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void
+}
+
+const createStore = (
+	db: IDBDatabase,
+	name: StoreName,
+	options: IDBObjectStoreParameters,
+	indexes: Array<[name: string, keyPath: string, options?: IDBIndexParameters]> = [],
+): void => {
+	if (db.objectStoreNames.contains(name)) return
+	const store = db.createObjectStore(name, options)
+	indexes.forEach(([indexName, keyPath, indexOptions]) => store.createIndex(indexName, keyPath, indexOptions))
+}
+
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+	{
+		version: 1,
+		description: 'Settings, colors, node preferences and logs',
+		upgrade: (db) => {
+			createStore(db, STORES.SETTINGS, { keyPath: 'key' })
+			createStore(db, STORES.COLORS, { keyPath: 'id' }, [
+				['name', 'name', { unique: true }],
+				['isDefault', 'isDefault', { unique: false }],
+			])
+			createStore(db, STORES.NODE_PREFERENCES, { keyPath: 'id' })
+			createStore(db, STORES.LOGS, { keyPath: 'id' }, [
+				['timestamp', 'timestamp', { unique: false }],
+				['level', 'level', { unique: false }],
+			])
+		},
+	},
+	{
+		version: 2,
+		description: 'Secure store and projects',
+		upgrade: (db) => {
+			createStore(db, STORES.SECURE_STORE, { keyPath: 'id' }, [
+				['key', 'key', { unique: true }],
+				['updatedAt', 'updatedAt', { unique: false }],
+			])
+			createStore(db, STORES.PROJECTS, { keyPath: 'id' }, [['updatedAt', 'updatedAt', { unique: false }]])
+		},
+	},
+	{
+		version: 3,
+		description: 'Project history, offline queue and project indexes',
+		upgrade: (db, transaction) => {
+			createStore(db, STORES.PROJECT_HISTORY, { keyPath: ['projectId', 'timestamp'] }, [
+				['projectId', 'projectId', { unique: false }],
+				['timestamp', 'timestamp', { unique: false }],
+				['action', 'action', { unique: false }],
+			])
+			createStore(db, STORES.OFFLINE_QUEUE, { keyPath: 'id', autoIncrement: true }, [
+				['timestamp', 'timestamp', { unique: false }],
+				['type', 'type', { unique: false }],
+			])
+
+			const projectsStore = transaction.objectStore(STORES.PROJECTS)
+			if (!projectsStore.indexNames.contains('isArchived')) {
+				projectsStore.createIndex('isArchived', 'isArchived', { unique: false })
+			}
+			if (!projectsStore.indexNames.contains('lastAccessedAt')) {
+				projectsStore.createIndex('lastAccessedAt', 'lastAccessedAt', { unique: false })
+			}
+			if (!projectsStore.indexNames.contains('tags')) {
+				projectsStore.createIndex('tags', 'tags', { unique: false, multiEntry: true })
+			}
+		},
+	},
+	{
+		version: 4,
+		description: 'Content-addressed git history',
+		upgrade: (db) => {
+			createStore(db, STORES.GIT_OBJECTS, { keyPath: 'hash' })
+			createStore(db, STORES.GIT_COMMITS, { keyPath: 'id' }, [
+				['projectId', 'projectId', { unique: false }],
+				['timestamp', 'timestamp', { unique: false }],
+			])
+			createStore(db, STORES.GIT_REFS, { keyPath: ['projectId', 'type', 'name'] }, [
+				['projectId', 'projectId', { unique: false }],
+			])
+		},
+	},
+	{
+		version: 5,
+		description: 'Chat threads',
+		upgrade: (db) => {
+			createStore(db, STORES.CHAT_THREADS, { keyPath: 'id' }, [
+				['projectId', 'projectId', { unique: false }],
+				['nodeId', 'nodeId', { unique: false }],
+				['updatedAt', 'updatedAt', { unique: false }],
+			])
+		},
+	},
+	{
+		version: 6,
+		description: 'Sync bases and conflict history, moved from the separate projectsDB',
+		upgrade: (db) => {
+			createStore(db, STORES.SYNC_BASES, { keyPath: 'id' })
+			createStore(db, STORES.CONFLICT_HISTORY, { keyPath: 'id' }, [
+				['projectId', 'projectId', { unique: false }],
+				['timestamp', 'timestamp', { unique: false }],
+			])
+		},
+	},
+	{
+		version: 7,
+		description: 'Snippet library',
+		upgrade: (db) => {
+			createStore(db, STORES.SNIPPETS, { keyPath: 'id' }, [
+				['updatedAt', 'updatedAt', { unique: false }],
+				['tags', 'tags', { unique: false, multiEntry: true }],
+			])
+		},
+	},
+]
+
+export const DB_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1]?.version ?? 1
+
+/**
+ * Brings the stores from an older version up to DB_VERSION
+ * @param db Database being upgraded
+ * @param transaction Version change transaction
+ * @param oldVersion Version the database had, 0 when it is new
+ */
+export function applySchemaMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+	SCHEMA_MIGRATIONS.filter((migration) => migration.version > oldVersion).forEach((migration) => {
+		migration.upgrade(db, transaction)
+	})
+}
@@ -0,0 +1,28 @@
+import type { SyncBackendId } from '../../types'
+
+import { localFolderBackend } from './localFolderBackend'
+import { s3Backend } from './s3Backend'
+import type { SyncBackend } from './types'
+import { webdavBackend } from './webdavBackend'
+
+export { localFolderBackend, s3Backend, webdavBackend }
+export { chooseSyncFolder, isLocalFolderSupported } from './localFolderBackend'
+export type { SyncBackend, SyncedProject } from './types'
+
+/**
+ * All available sync backends, in the order offered to the user
+ */
+export const SYNC_BACKENDS: readonly SyncBackend[] = [s3Backend, webdavBackend, localFolderBackend]
+
+/**
+ * Looks up a sync backend
+ * @param id Backend ID, S3 for projects that haven't chosen one
+ * @returns The backend
+ */
+export function getSyncBackend(id: SyncBackendId = 's3'): SyncBackend {
+	const backend = SYNC_BACKENDS.find((candidate) => candidate.id === id)
+	if (!backend) {
+		throw new Error(`Unknown sync backend: ${id}`)
+	}
+	return backend
+}
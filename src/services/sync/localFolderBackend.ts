@@ -0,0 +1,95 @@
+import indexedDBService from '../IndexedDBService'
+
+import type { SyncBackend, SyncedProject } from './types'
+
+// Parts of the File System Access API that the DOM typings don't cover yet
+type PermissionMode = { mode: 'read' | 'readwrite' }
+
+interface PermissionedDirectoryHandle extends FileSystemDirectoryHandle {
+	queryPermission: (descriptor: PermissionMode) => Promise<PermissionState>
+	requestPermission: (descriptor: PermissionMode) => Promise<PermissionState>
+}
+
+type DirectoryPickerWindow = Window & {
+	showDirectoryPicker?: (options?: { id?: string; mode?: PermissionMode['mode'] }) => Promise<FileSystemDirectoryHandle>
+}
+
+const getHandleKey = (projectId: string) => `syncFolder_${projectId}`
+
+const getFileName = (projectId: string) => `${projectId}.json`
+
+/**
+ * Whether the browser lets the user pick a folder to sync to
+ */
+export function isLocalFolderSupported(): boolean {
+	return typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function'
+}
+
+/**
+ * Asks the user for the folder to sync a project to and remembers it. Must be
+ * called from a user gesture.
+ * @param projectId Project ID
+ * @returns Name of the chosen folder, or null when the user cancelled
+ */
+export async function chooseSyncFolder(projectId: string): Promise<string | null> {
+	const { showDirectoryPicker } = window as DirectoryPickerWindow
+	if (showDirectoryPicker === undefined) {
+		throw new Error('Picking a folder is not supported by this browser')
+	}
+
+	try {
+		const handle = await showDirectoryPicker({ id: 'project-sync', mode: 'readwrite' })
+		await indexedDBService.saveSetting(getHandleKey(projectId), handle)
+		return handle.name
+	} catch (error) {
+		if (error instanceof DOMException && error.name === 'AbortError') return null
+		throw error
+	}
+}
+
+/**
+ * The remembered folder, asking the user again for access when needed. That
+ * only works during a user gesture, e.g. a manual sync.
+ */
+const requireFolder = async (projectId: string): Promise<FileSystemDirectoryHandle> => {
+	const handle = (await indexedDBService.getSetting(getHandleKey(projectId))) as PermissionedDirectoryHandle | null
+	if (handle === null || handle === undefined) throw new Error('No sync folder chosen for this project')
+
+	const descriptor: PermissionMode = { mode: 'readwrite' }
+	if ((await handle.queryPermission(descriptor)) !== 'granted' && (await handle.requestPermission(descriptor)) !== 'granted') {
+		throw new Error(`No permission to write to the folder ${handle.name}`)
+	}
+	return handle
+}
+
+/**
+ * Syncs projects to a folder on this device, e.g. one a desktop client syncs
+ * further. Works offline.
+ */
+export const localFolderBackend: SyncBackend = {
+	id: 'localFolder',
+	label: 'Local folder',
+	requiresNetwork: false,
+	isReady: async (projectId) => (await indexedDBService.getSetting(getHandleKey(projectId))) != null,
+	download: async (projectId) => {
+		const folder = await requireFolder(projectId)
+		try {
+			const fileHandle = await folder.getFileHandle(getFileName(projectId))
+			const file = await fileHandle.getFile()
+			return JSON.parse(await file.text()) as SyncedProject
+		} catch (error) {
+			if (error instanceof DOMException && error.name === 'NotFoundError') return null
+			throw error
+		}
+	},
+	upload: async (project) => {
+		const folder = await requireFolder(project.id)
+		const fileHandle = await folder.getFileHandle(getFileName(project.id), { create: true })
+		const writable = await fileHandle.createWritable()
+		try {
+			await writable.write(JSON.stringify(project, null, 2))
+		} finally {
+			await writable.close()
+		}
+	},
+}
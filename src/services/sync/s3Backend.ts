@@ -0,0 +1,20 @@
+import s3Service from '../S3Service'
+
+import type { SyncBackend } from './types'
+
+/**
+ * Syncs projects to the S3 bucket configured in the settings
+ */
+export const s3Backend: SyncBackend = {
+	id: 's3',
+	label: 'Amazon S3',
+	requiresNetwork: true,
+	isReady: async () => s3Service.isConfigured(),
+	download: async (projectId) => s3Service.downloadProject(projectId),
+	upload: async (project) => {
+		const result = await s3Service.uploadProject(project)
+		if (result == null) {
+			throw new Error(`Uploading project ${project.id} to S3 failed`)
+		}
+	},
+}
@@ -0,0 +1,27 @@
+import type { SyncBackendId, WithChatThreads } from '../../types'
+import type { Project, SyncSettings } from '../../types/project'
+
+/**
+ * A project as stored by a sync backend, together with its chat threads
+ */
+export type SyncedProject = Project & WithChatThreads
+
+/**
+ * Storage a project can be synced to. Conflict detection and the offline queue
+ * live in the sync service, so a backend only reads and writes whole projects.
+ */
+export interface SyncBackend {
+	id: SyncBackendId
+	label: string
+	/** Whether syncing needs a network connection, otherwise it also runs offline */
+	requiresNetwork: boolean
+	/** Whether the backend has everything it needs to sync the project */
+	isReady: (projectId: string, settings: SyncSettings) => Promise<boolean>
+	/**
+	 * Reads the stored version of a project
+	 * @returns The project, or null when it hasn't been stored yet
+	 */
+	download: (projectId: string, settings: SyncSettings) => Promise<SyncedProject | null>
+	/** Stores a project, replacing the previous version; throws when that fails */
+	upload: (project: SyncedProject, settings: SyncSettings) => Promise<void>
+}
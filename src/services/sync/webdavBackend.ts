@@ -0,0 +1,81 @@
+import type { SyncSettings } from '../../types/project'
+import credentialVaultService from '../CredentialVaultService'
+
+import type { SyncBackend, SyncedProject } from './types'
+
+/**
+ * Folder URL with a trailing slash, or null when the settings have none
+ */
+const getFolderUrl = (settings: SyncSettings): string | null => {
+	const url = settings.webdavUrl?.trim() ?? ''
+	if (url === '') return null
+	try {
+		const parsed = new URL(url)
+		if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null
+		return parsed.href.endsWith('/') ? parsed.href : `${parsed.href}/`
+	} catch {
+		return null
+	}
+}
+
+const getProjectUrl = (folderUrl: string, projectId: string) => `${folderUrl}${encodeURIComponent(projectId)}.json`
+
+/**
+ * Basic auth header; the credentials are UTF-8 encoded first since `btoa`
+ * only takes Latin-1
+ */
+const getAuthHeaders = (settings: SyncSettings): Record<string, string> => {
+	const password = credentialVaultService.getCredentials()?.webdavPassword ?? ''
+	const bytes = new TextEncoder().encode(`${settings.webdavUsername ?? ''}:${password}`)
+	return { Authorization: `Basic ${btoa(String.fromCharCode(...bytes))}` }
+}
+
+const toError = (action: string, response: Response) =>
+	new Error(`WebDAV ${action} failed: ${response.status} ${response.statusText}`)
+
+/**
+ * Syncs projects to a folder on a WebDAV server such as Nextcloud, one JSON
+ * file per project. The password comes from the credential vault.
+ */
+export const webdavBackend: SyncBackend = {
+	id: 'webdav',
+	label: 'WebDAV (Nextcloud)',
+	requiresNetwork: true,
+	isReady: async (_projectId, settings) =>
+		getFolderUrl(settings) !== null &&
+		(settings.webdavUsername?.trim() ?? '') !== '' &&
+		credentialVaultService.getCredentials() !== null,
+	download: async (projectId, settings) => {
+		const folderUrl = getFolderUrl(settings)
+		if (folderUrl === null) throw new Error('No WebDAV folder URL configured')
+
+		const response = await fetch(getProjectUrl(folderUrl, projectId), {
+			headers: getAuthHeaders(settings),
+			cache: 'no-store',
+		})
+		if (response.status === 404) return null
+		if (!response.ok) throw toError('download', response)
+		return (await response.json()) as SyncedProject
+	},
+	upload: async (project, settings) => {
+		const folderUrl = getFolderUrl(settings)
+		if (folderUrl === null) throw new Error('No WebDAV folder URL configured')
+
+		const headers = getAuthHeaders(settings)
+		const put = () =>
+			fetch(getProjectUrl(folderUrl, project.id), {
+				method: 'PUT',
+				headers: { ...headers, 'Content-Type': 'application/json' },
+				body: JSON.stringify(project),
+			})
+
+		let response = await put()
+		// 409 Conflict means the folder doesn't exist yet
+		if (response.status === 409) {
+			const created = await fetch(folderUrl, { method: 'MKCOL', headers })
+			if (!created.ok && created.status !== 405) throw toError('creating the folder', created)
+			response = await put()
+		}
+		if (!response.ok) throw toError('upload', response)
+	},
+}
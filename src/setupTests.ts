@@ -32,6 +32,24 @@ vi.mock('@mui/icons-material', () => ({
 	Bolt: createMockIcon('Bolt'),
 	Note: createMockIcon('Note'),
 	Send: createMockIcon('Send'),
+	// Icons of the canvas toolbars and menus
+	AccountTree: createMockIcon('AccountTree'),
+	AddCircleOutline: createMockIcon('AddCircleOutline'),
+	AutoFixHigh: createMockIcon('AutoFixHigh'),
+	ContentPaste: createMockIcon('ContentPaste'),
+	FactCheck: createMockIcon('FactCheck'),
+	FitScreen: createMockIcon('FitScreen'),
+	GridOff: createMockIcon('GridOff'),
+	GroupWork: createMockIcon('GroupWork'),
+	History: createMockIcon('History'),
+	LibraryBooks: createMockIcon('LibraryBooks'),
+	Redo: createMockIcon('Redo'),
+	Summarize: createMockIcon('Summarize'),
+	Undo: createMockIcon('Undo'),
+	Workspaces: createMockIcon('Workspaces'),
+	ZoomIn: createMockIcon('ZoomIn'),
+	ZoomOut: createMockIcon('ZoomOut'),
+	ZoomOutMap: createMockIcon('ZoomOutMap'),
 	// Default export for any other icons
 	default: createMockIcon('DefaultIcon'),
 }))
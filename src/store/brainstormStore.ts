@@ -8,9 +8,13 @@ import { create } from 'zustand'
 import type { CustomNodeType, CustomEdge, NodeData } from '../components/BrainstormFlow/types'
 import loggerService from '../services/LoggerService'
 import projectService from '../services/ProjectService'
-import type { Node as ProjectNode, Edge as ProjectEdge } from '../types'
-import type { NodeType } from '../types/enums'
-import { EdgeType } from '../types/enums'
+import type { Node as ProjectNode, Edge as ProjectEdge, GraphDiff } from '../types'
+import { EdgeType, NodeType } from '../types/enums'
+import { getAdditions, placeAdditions, resolveDiffEdges } from '../utils/graphDiff'
+import { groupNodes, isGroupNode, setNodeParent, ungroupNodes } from '../utils/groups'
+
+import type { CanvasSnapshot, HistoryAction, HistoryEntry } from './canvasHistory'
+import { applyCanvasPatch, diffCanvas, isEmptyPatch, pushHistoryEntry } from './canvasHistory'
 
 interface NewNodeParams {
     type: NodeType
@@ -32,6 +36,13 @@ const createDefaultNodeData = (id: string, type: NodeType, label?: string): Node
 	isArchived: false,
 })
 
+// Open history batch; nested batches share the outermost one
+interface HistoryBatch {
+    action: HistoryAction
+    before: CanvasSnapshot
+    depth: number
+}
+
 interface BrainstormState {
     projectId: string | null
     nodes: CustomNodeType[]
@@ -43,6 +54,7 @@ interface BrainstormState {
     autoSave: boolean
     setAutoSave: (autoSave: boolean) => void
     setProjectId: (id: string | null) => void
+    // Raw setters are not recorded in the history, wrap them in `transact` to make them undoable
     setNodes: (nodes: CustomNodeType[] | ((prev: CustomNodeType[]) => CustomNodeType[])) => void
     setEdges: (edges: CustomEdge[] | ((prev: CustomEdge[]) => CustomEdge[])) => void
     setActiveStep: (step: number) => void
@@ -60,6 +72,31 @@ interface BrainstormState {
     removeTag: (nodeId: string, tag: string) => void
     addEdge: (source: string, target: string) => void
     removeEdge: (edgeId: string) => void
+    /** Wraps nodes in a new group frame and returns its id */
+    groupNodes: (nodeIds: string[], title?: string) => string | undefined
+    ungroupNodes: (groupId: string) => void
+    toggleGroupCollapsed: (groupId: string) => void
+    setNodeGroup: (nodeId: string, groupId: string | null) => void
+    /** Adds pasted nodes and edges, selecting only the pasted nodes */
+    pasteNodes: (nodes: CustomNodeType[], edges: CustomEdge[]) => void
+    /** Removes nodes with their group members and edges, as one history step */
+    cutNodes: (nodeIds: string[]) => void
+    /** Applies the accepted changes of an AI graph operation, as one history step */
+    applyGraphDiff: (diff: GraphDiff, acceptedChangeIds: string[]) => void
+    /** Node the canvas should scroll to and select, e.g. picked from search */
+    focusedNodeId: string | null
+    focusNode: (nodeId: string | null) => void
+    /** Undo stack, oldest first */
+    past: HistoryEntry[]
+    /** Redo stack, the next entry to redo last */
+    future: HistoryEntry[]
+    historyBatch: HistoryBatch | null
+    undo: (steps?: number) => void
+    redo: (steps?: number) => void
+    beginBatch: (action: HistoryAction) => void
+    endBatch: () => void
+    transact: (action: HistoryAction, change: () => void) => void
+    clearHistory: () => void
 }
 
 // Type conversion helpers
@@ -136,6 +173,32 @@ const debouncedSave = debounce(async (projectId: string, nodes: CustomNodeType[]
 	}
 }, 1500)
 
+/**
+ * History bookkeeping for a change of the canvas from `state` to `next`.
+ * Nothing is recorded while a batch is open, the batch records once it ends.
+ */
+const recordHistory = (
+	state: BrainstormState,
+	action: HistoryAction,
+	next: Partial<CanvasSnapshot>,
+	coalesceKey?: string,
+): Pick<BrainstormState, 'past' | 'future'> | Record<string, never> => {
+	if (state.historyBatch !== null) return {}
+	const patch = diffCanvas(
+		{ nodes: state.nodes, edges: state.edges },
+		{ nodes: next.nodes ?? state.nodes, edges: next.edges ?? state.edges },
+	)
+	if (isEmptyPatch(patch)) return {}
+	const entry: HistoryEntry = {
+		id: uuidv4(),
+		action,
+		timestamp: Date.now(),
+		patch,
+		...(coalesceKey !== undefined ? { coalesceKey } : {}),
+	}
+	return { past: pushHistoryEntry(state.past, entry), future: [] }
+}
+
 export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 	projectId: null,
 	nodes: [],
@@ -145,8 +208,13 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 	activeTab: 1,
 	error: null,
 	autoSave: true,
+	past: [],
+	future: [],
+	historyBatch: null,
+	focusedNodeId: null,
 	setAutoSave: (autoSave: boolean) => set({ autoSave }),
-	setProjectId: (projectId) => set({ projectId }),
+	setProjectId: (projectId) =>
+		set((state) => (state.projectId === projectId ? { projectId } : { projectId, past: [], future: [], historyBatch: null })),
 	setNodes: (nodes) =>
 		set((state) => {
 			const newNodes = typeof nodes === 'function' ? nodes(state.nodes) : nodes
@@ -186,7 +254,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			if (state.projectId) {
 				debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
 			}
-			return { nodes: newNodes }
+			return { nodes: newNodes, ...recordHistory(state, 'editNode', { nodes: newNodes }, `edit:${nodeId}`) }
 		}),
 	addNode: ({ type, label, position }) => {
 		loggerService.info('Adding new node', { type, label })
@@ -218,12 +286,16 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			return {
 				...state,  // Preserve all existing state
 				nodes: newNodes,
+				...recordHistory(state, 'addNode', { nodes: newNodes }),
 			}
 		})
 	},
 	removeNode: (nodeId) =>
 		set((state) => {
-			const newNodes = state.nodes.filter((node) => node.id !== nodeId)
+			// Members of a deleted group stay on the canvas
+			const newNodes = state.nodes.some((node) => node.id === nodeId && isGroupNode(node))
+				? ungroupNodes(state.nodes, nodeId)
+				: state.nodes.filter((node) => node.id !== nodeId)
 			const newEdges = state.edges.filter(
 				(edge) => edge.source !== nodeId && edge.target !== nodeId,
 			)
@@ -234,6 +306,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 				...state,
 				nodes: newNodes,
 				edges: newEdges,
+				...recordHistory(state, 'removeNode', { nodes: newNodes, edges: newEdges }),
 			}
 		}),
 	updateNodePositions: (updatedNodes) =>
@@ -254,6 +327,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			return {
 				...state,
 				nodes: newNodes,
+				...recordHistory(state, 'moveNodes', { nodes: newNodes }),
 			}
 		}),
 
@@ -311,6 +385,9 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 					edges: convertedEdges,
 					projectId,
 					autoSave: project.syncSettings?.autoSave ?? true,
+					past: [],
+					future: [],
+					historyBatch: null,
 				}
 
 				// Set the state
@@ -350,7 +427,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			if (state.projectId) {
 				debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
 			}
-			return { nodes: newNodes }
+			return { nodes: newNodes, ...recordHistory(state, 'addTag', { nodes: newNodes }) }
 		}),
 
 	removeTag: (nodeId, tag) =>
@@ -370,7 +447,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			if (state.projectId) {
 				debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
 			}
-			return { nodes: newNodes }
+			return { nodes: newNodes, ...recordHistory(state, 'removeTag', { nodes: newNodes }) }
 		}),
 
 	toggleArchiveNode: (nodeId) =>
@@ -390,7 +467,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			if (state.projectId) {
 				debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
 			}
-			return { nodes: newNodes }
+			return { nodes: newNodes, ...recordHistory(state, 'archiveNode', { nodes: newNodes }) }
 		}),
 	addEdge: (source, target) => {
 		const newEdgeId = uuidv4()
@@ -407,7 +484,7 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			if (state.projectId) {
 				debouncedSave(state.projectId, state.nodes, newEdges, state.autoSave)
 			}
-			return { edges: newEdges }
+			return { edges: newEdges, ...recordHistory(state, 'addEdge', { edges: newEdges }) }
 		})
 	},
 	removeEdge: (edgeId) =>
@@ -416,6 +493,247 @@ export const useBrainstormStore = create<BrainstormState>((set, get) => ({
 			if (state.projectId) {
 				debouncedSave(state.projectId, state.nodes, newEdges, state.autoSave)
 			}
-			return { edges: newEdges }
+			return { edges: newEdges, ...recordHistory(state, 'removeEdge', { edges: newEdges }) }
+		}),
+
+	groupNodes: (nodeIds, title = 'Group') => {
+		const groupId = uuidv4()
+		const group: CustomNodeType = {
+			id: groupId,
+			type: NodeType.GROUP,
+			position: { x: 0, y: 0 },
+			data: createDefaultNodeData(groupId, NodeType.GROUP, title),
+		}
+		const state = get()
+		const newNodes = groupNodes(state.nodes, nodeIds, group)
+		if (newNodes === state.nodes) return undefined
+
+		set({ nodes: newNodes, ...recordHistory(state, 'groupNodes', { nodes: newNodes }) })
+		if (state.projectId) {
+			void debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
+		}
+		return groupId
+	},
+
+	ungroupNodes: (groupId) =>
+		set((state) => {
+			const newNodes = ungroupNodes(state.nodes, groupId)
+			if (state.projectId) {
+				void debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
+			}
+			return { nodes: newNodes, ...recordHistory(state, 'ungroupNodes', { nodes: newNodes }) }
+		}),
+
+	toggleGroupCollapsed: (groupId) =>
+		set((state) => {
+			const newNodes = state.nodes.map((node) =>
+				node.id === groupId && isGroupNode(node)
+					? { ...node, data: { ...node.data, collapsed: node.data.collapsed !== true } }
+					: node,
+			)
+			if (state.projectId) {
+				void debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
+			}
+			return { nodes: newNodes, ...recordHistory(state, 'collapseGroup', { nodes: newNodes }) }
+		}),
+
+	setNodeGroup: (nodeId, groupId) =>
+		set((state) => {
+			const newNodes = setNodeParent(state.nodes, nodeId, groupId ?? undefined)
+			if (newNodes === state.nodes) return {}
+			if (state.projectId) {
+				void debouncedSave(state.projectId, newNodes, state.edges, state.autoSave)
+			}
+			return { nodes: newNodes, ...recordHistory(state, 'moveNodes', { nodes: newNodes }) }
 		}),
+
+	pasteNodes: (nodes, edges) =>
+		set((state) => {
+			if (nodes.length === 0) return {}
+			const newNodes = [
+				...state.nodes.map((node) => (node.selected === true ? { ...node, selected: false } : node)),
+				...nodes.map((node) => ({ ...node, selected: true })),
+			]
+			const newEdges = [...state.edges, ...edges]
+			if (state.projectId) {
+				void debouncedSave(state.projectId, newNodes, newEdges, state.autoSave)
+			}
+			return {
+				nodes: newNodes,
+				edges: newEdges,
+				...recordHistory(state, 'pasteNodes', { nodes: newNodes, edges: newEdges }),
+			}
+		}),
+
+	cutNodes: (nodeIds) =>
+		set((state) => {
+			const ids = new Set(nodeIds)
+			// Members go with their group, as they were copied with it
+			const newNodes = state.nodes.filter(
+				(node) => !ids.has(node.id) && (node.parentId === undefined || !ids.has(node.parentId)),
+			)
+			if (newNodes.length === state.nodes.length) return {}
+			const remaining = new Set(newNodes.map((node) => node.id))
+			const newEdges = state.edges.filter((edge) => remaining.has(edge.source) && remaining.has(edge.target))
+			if (state.projectId) {
+				void debouncedSave(state.projectId, newNodes, newEdges, state.autoSave)
+			}
+			return {
+				nodes: newNodes,
+				edges: newEdges,
+				...recordHistory(state, 'cutNodes', { nodes: newNodes, edges: newEdges }),
+			}
+		}),
+
+	applyGraphDiff: (diff, acceptedChangeIds) =>
+		set((state) => {
+			const accepted = new Set(acceptedChangeIds)
+			const changes = diff.changes.filter((change) => accepted.has(change.id))
+			if (changes.length === 0) return {}
+
+			const additions = getAdditions(diff).filter((change) => accepted.has(change.id))
+			const positions = placeAdditions(diff, additions, state.nodes)
+			const createdIds = new Map<string, string>()
+			const added = additions.map((change): CustomNodeType => {
+				const id = uuidv4()
+				createdIds.set(change.node.id, id)
+				return {
+					id,
+					type: change.node.type,
+					position: positions.get(change.id) ?? { x: 0, y: 0 },
+					data: {
+						...createDefaultNodeData(id, change.node.type, change.node.title),
+						content: change.node.content,
+						tags: change.node.tags ?? [],
+					},
+				}
+			})
+
+			const updates = new Map(
+				changes.flatMap((change) => (change.kind === 'update' ? [[change.nodeId, change.after] as const] : [])),
+			)
+			let newNodes = [
+				...state.nodes.map((node) => {
+					const update = updates.get(node.id)
+					return update
+						? {
+							...node,
+							data: {
+								...node.data,
+								title: update.title,
+								label: update.title,
+								content: update.content,
+								updatedAt: new Date().toISOString(),
+							},
+						}
+						: node
+				}),
+				...added,
+			]
+			for (const change of changes) {
+				if (change.kind !== 'group') continue
+				const groupId = uuidv4()
+				newNodes = groupNodes(newNodes, change.nodeIds, {
+					id: groupId,
+					type: NodeType.GROUP,
+					position: { x: 0, y: 0 },
+					data: createDefaultNodeData(groupId, NodeType.GROUP, change.title),
+				})
+			}
+
+			const newEdges = [
+				...state.edges,
+				...resolveDiffEdges(diff, createdIds).map(({ source, target, label }): CustomEdge => ({
+					id: uuidv4(),
+					type: EdgeType.DEFAULT,
+					source,
+					target,
+					...(label !== undefined ? { label } : {}),
+				})),
+			]
+			if (state.projectId) {
+				void debouncedSave(state.projectId, newNodes, newEdges, state.autoSave)
+			}
+			return {
+				nodes: newNodes,
+				edges: newEdges,
+				...recordHistory(state, 'applyGraphDiff', { nodes: newNodes, edges: newEdges }),
+			}
+		}),
+
+	undo: (steps = 1) =>
+		set((state) => {
+			// The open batch would record on top of the undone state
+			if (state.historyBatch !== null) return {}
+			const past = [...state.past]
+			const future = [...state.future]
+			let canvas: CanvasSnapshot = { nodes: state.nodes, edges: state.edges }
+			for (let step = 0; step < steps; step++) {
+				const entry = past.pop()
+				if (entry === undefined) break
+				canvas = applyCanvasPatch(canvas, entry.patch, 'undo')
+				future.push(entry)
+			}
+			if (future.length === state.future.length) return {}
+			if (state.projectId) {
+				void debouncedSave(state.projectId, canvas.nodes, canvas.edges, state.autoSave)
+			}
+			return { ...canvas, past, future }
+		}),
+
+	redo: (steps = 1) =>
+		set((state) => {
+			if (state.historyBatch !== null) return {}
+			const past = [...state.past]
+			const future = [...state.future]
+			let canvas: CanvasSnapshot = { nodes: state.nodes, edges: state.edges }
+			for (let step = 0; step < steps; step++) {
+				const entry = future.pop()
+				if (entry === undefined) break
+				canvas = applyCanvasPatch(canvas, entry.patch, 'redo')
+				past.push(entry)
+			}
+			if (past.length === state.past.length) return {}
+			if (state.projectId) {
+				void debouncedSave(state.projectId, canvas.nodes, canvas.edges, state.autoSave)
+			}
+			return { ...canvas, past, future }
+		}),
+
+	beginBatch: (action) =>
+		set((state) => ({
+			historyBatch:
+				state.historyBatch === null
+					? { action, before: { nodes: state.nodes, edges: state.edges }, depth: 1 }
+					: { ...state.historyBatch, depth: state.historyBatch.depth + 1 },
+		})),
+
+	endBatch: () =>
+		set((state) => {
+			const batch = state.historyBatch
+			if (batch === null) return {}
+			if (batch.depth > 1) return { historyBatch: { ...batch, depth: batch.depth - 1 } }
+			// Record everything since the batch began as one entry
+			return {
+				historyBatch: null,
+				...recordHistory(
+					{ ...state, historyBatch: null, nodes: batch.before.nodes, edges: batch.before.edges },
+					batch.action,
+					{ nodes: state.nodes, edges: state.edges },
+				),
+			}
+		}),
+
+	transact: (action, change) => {
+		get().beginBatch(action)
+		try {
+			change()
+		} finally {
+			get().endBatch()
+		}
+	},
+
+	clearHistory: () => set({ past: [], future: [], historyBatch: null }),
+
+	focusNode: (nodeId) => set({ focusedNodeId: nodeId }),
 }))
@@ -0,0 +1,194 @@
+import isEqual from 'lodash/isEqual'
+import omit from 'lodash/omit'
+
+import type { CustomEdge, CustomNodeType } from '../components/BrainstormFlow/types'
+
+/**
+ * Canvas changes that can be undone. Used as the label of a history entry.
+ */
+export type HistoryAction =
+	| 'addNode'
+	| 'removeNode'
+	| 'editNode'
+	| 'archiveNode'
+	| 'moveNodes'
+	| 'addTag'
+	| 'removeTag'
+	| 'addEdge'
+	| 'removeEdge'
+	| 'autoLayout'
+	| 'insertNodes'
+	| 'groupNodes'
+	| 'ungroupNodes'
+	| 'collapseGroup'
+	| 'resizeGroup'
+	| 'pasteNodes'
+	| 'cutNodes'
+	| 'applyGraphDiff'
+
+/**
+ * Change of one node or edge. A missing `before` means the item was added, a
+ * missing `after` means it was removed.
+ */
+export interface ItemChange<T> {
+	id: string
+	index: number
+	before?: T
+	after?: T
+}
+
+export interface CanvasPatch {
+	nodes: ItemChange<CustomNodeType>[]
+	edges: ItemChange<CustomEdge>[]
+}
+
+export interface CanvasSnapshot {
+	nodes: CustomNodeType[]
+	edges: CustomEdge[]
+}
+
+/**
+ * One undoable command. Undo applies the patch backwards, redo forwards.
+ */
+export interface HistoryEntry {
+	id: string
+	action: HistoryAction
+	timestamp: number
+	patch: CanvasPatch
+	/** Entries with the same key that follow each other quickly are merged */
+	coalesceKey?: string
+}
+
+export type PatchDirection = 'undo' | 'redo'
+
+// Oldest entries are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 100
+
+// Window in which entries with the same coalesce key are merged
+export const COALESCE_WINDOW_MS = 1000
+
+// Properties React Flow changes on its own while the user interacts
+const TRANSIENT_PROPERTIES = ['selected', 'dragging', 'width', 'height', 'positionAbsolute', 'data.updatedAt']
+
+const isSameItem = <T extends { id: string }>(a: T, b: T) =>
+	a === b || isEqual(omit(a, TRANSIENT_PROPERTIES), omit(b, TRANSIENT_PROPERTIES))
+
+const diffItems = <T extends { id: string }>(before: T[], after: T[]): ItemChange<T>[] => {
+	const changes: ItemChange<T>[] = []
+	const afterById = new Map(after.map((item, index) => [item.id, { item, index }]))
+	const beforeIds = new Set<string>()
+
+	before.forEach((item, index) => {
+		beforeIds.add(item.id)
+		const next = afterById.get(item.id)
+		if (next === undefined) {
+			changes.push({ id: item.id, index, before: item })
+		} else if (!isSameItem(item, next.item)) {
+			changes.push({ id: item.id, index: next.index, before: item, after: next.item })
+		}
+	})
+	after.forEach((item, index) => {
+		if (!beforeIds.has(item.id)) {
+			changes.push({ id: item.id, index, after: item })
+		}
+	})
+
+	return changes
+}
+
+const applyItems = <T extends { id: string }>(items: T[], changes: ItemChange<T>[], direction: PatchDirection): T[] => {
+	const target = (change: ItemChange<T>) => (direction === 'undo' ? change.before : change.after)
+	const replacements = new Map<string, T>()
+	const removed = new Set<string>()
+	const inserted: { index: number; item: T }[] = []
+	const existing = new Set(items.map((item) => item.id))
+
+	for (const change of changes) {
+		const item = target(change)
+		if (item === undefined) {
+			removed.add(change.id)
+		} else if (existing.has(change.id)) {
+			replacements.set(change.id, item)
+		} else {
+			inserted.push({ index: change.index, item })
+		}
+	}
+
+	const result = items.filter((item) => !removed.has(item.id)).map((item) => replacements.get(item.id) ?? item)
+	// Restore removed items at their old place so the stacking order survives
+	inserted
+		.sort((a, b) => a.index - b.index)
+		.forEach(({ index, item }) => result.splice(Math.min(index, result.length), 0, item))
+	return result
+}
+
+/**
+ * Patch that turns `before` into `after`. Items are matched by id and only
+ * changed ones are kept; selection and measured sizes are ignored.
+ */
+export const diffCanvas = (before: CanvasSnapshot, after: CanvasSnapshot): CanvasPatch => ({
+	nodes: diffItems(before.nodes, after.nodes),
+	edges: diffItems(before.edges, after.edges),
+})
+
+export const isEmptyPatch = (patch: CanvasPatch) => patch.nodes.length === 0 && patch.edges.length === 0
+
+/**
+ * Applies a patch to the current canvas. Items touched since the patch was
+ * recorded are overwritten; everything else is left alone.
+ */
+export const applyCanvasPatch = (
+	snapshot: CanvasSnapshot,
+	patch: CanvasPatch,
+	direction: PatchDirection,
+): CanvasSnapshot => ({
+	nodes: applyItems(snapshot.nodes, patch.nodes, direction),
+	edges: applyItems(snapshot.edges, patch.edges, direction),
+})
+
+const mergeChanges = <T>(first: ItemChange<T>[], second: ItemChange<T>[]): ItemChange<T>[] => {
+	const merged = new Map(first.map((change) => [change.id, change]))
+	for (const change of second) {
+		const earlier = merged.get(change.id)
+		if (earlier === undefined) {
+			merged.set(change.id, change)
+			continue
+		}
+		// Keep the state before the first change and after the last one
+		const combined: ItemChange<T> = { id: change.id, index: earlier.index }
+		if (earlier.before !== undefined) combined.before = earlier.before
+		if (change.after !== undefined) combined.after = change.after
+		if (combined.before === undefined && combined.after === undefined) {
+			merged.delete(change.id)
+		} else {
+			merged.set(change.id, combined)
+		}
+	}
+	return [...merged.values()]
+}
+
+/**
+ * Adds an entry to the undo stack. It is merged into the previous entry when
+ * both share a coalesce key and were recorded within the coalesce window, e.g.
+ * typing into one node. The stack is capped at `MAX_HISTORY_ENTRIES`.
+ */
+export const pushHistoryEntry = (past: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+	const previous = past[past.length - 1]
+	if (
+		previous !== undefined &&
+		entry.coalesceKey !== undefined &&
+		previous.coalesceKey === entry.coalesceKey &&
+		entry.timestamp - previous.timestamp <= COALESCE_WINDOW_MS
+	) {
+		const merged: HistoryEntry = {
+			...previous,
+			timestamp: entry.timestamp,
+			patch: {
+				nodes: mergeChanges(previous.patch.nodes, entry.patch.nodes),
+				edges: mergeChanges(previous.patch.edges, entry.patch.edges),
+			},
+		}
+		return [...past.slice(0, -1), merged]
+	}
+	return [...past, entry].slice(-MAX_HISTORY_ENTRIES)
+}
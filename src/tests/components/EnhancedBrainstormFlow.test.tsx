@@ -95,6 +95,20 @@ vi.mock('@mui/icons-material', () => ({
 	FullscreenExit: () => <svg data-testid="FullscreenExitIcon" />,
 	FitScreen: () => <svg data-testid="FitScreenIcon" />, // Added missing icon
 	VisibilityOff: () => <svg data-testid="VisibilityOffIcon" />, // Added missing icon
+	AccountTree: () => <svg data-testid="AccountTreeIcon" />,
+	Summarize: () => <svg data-testid="SummarizeIcon" />,
+	Workspaces: () => <svg data-testid="WorkspacesIcon" />,
+	FactCheck: () => <svg data-testid="FactCheckIcon" />,
+	AutoFixHigh: () => <svg data-testid="AutoFixHighIcon" />,
+	LibraryBooks: () => <svg data-testid="LibraryBooksIcon" />,
+	GroupWork: () => <svg data-testid="GroupWorkIcon" />,
+	Undo: () => <svg data-testid="UndoIcon" />,
+	Redo: () => <svg data-testid="RedoIcon" />,
+	History: () => <svg data-testid="HistoryIcon" />,
+	GridOff: () => <svg data-testid="GridOffIcon" />,
+	AddCircleOutline: () => <svg data-testid="AddCircleOutlineIcon" />,
+	ContentPaste: () => <svg data-testid="ContentPasteIcon" />,
+	ZoomOutMap: () => <svg data-testid="ZoomOutMapIcon" />,
 	// Add any other icons used by EnhancedBrainstormFlow or its children if needed
 }))
 
@@ -0,0 +1,65 @@
+import type { Edge, Node, Project } from '../types'
+import { EdgeType, NodeType } from '../types/enums'
+import { ProjectTemplate } from '../types/project'
+
+// Timestamp of the fixtures, fixed so that tests don't depend on the clock
+export const FIXTURE_DATE = '2023-01-01T00:00:00.000Z'
+
+/**
+ * Idea node at the origin, titled by its id
+ * @param id Node id
+ * @param data Node data to change, e.g. title or tags
+ * @param fields Other fields to change, e.g. type or position
+ */
+export const createNode = (
+	id: string,
+	data: Partial<Node['data']> = {},
+	fields: Partial<Omit<Node, 'id' | 'data'>> = {},
+): Node => ({
+	id,
+	type: NodeType.IDEA,
+	position: { x: 0, y: 0 },
+	...fields,
+	data: {
+		id,
+		title: id,
+		content: '',
+		tags: [],
+		createdAt: FIXTURE_DATE,
+		updatedAt: FIXTURE_DATE,
+		...data,
+	},
+})
+
+/**
+ * Default edge, identified by its ends
+ * @param source Source node id
+ * @param target Target node id
+ * @param fields Fields to change, e.g. id, type or label
+ */
+export const createEdge = (source: string, target: string, fields: Partial<Edge> = {}): Edge => ({
+	id: `${source}-${target}`,
+	source,
+	target,
+	type: EdgeType.DEFAULT,
+	...fields,
+})
+
+/**
+ * Empty custom project that isn't synced
+ * @param fields Fields to change, e.g. nodes and edges
+ */
+export const createProject = (fields: Partial<Project> = {}): Project => ({
+	id: 'project-1',
+	name: 'Project',
+	description: '',
+	createdAt: FIXTURE_DATE,
+	updatedAt: FIXTURE_DATE,
+	version: '1.0.0',
+	template: ProjectTemplate.CUSTOM,
+	nodes: [],
+	edges: [],
+	syncSettings: { enableS3Sync: false, syncFrequency: 'manual', autoSave: true },
+	isPinned: false,
+	...fields,
+})
@@ -0,0 +1,108 @@
+import { createServer, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+/**
+ * What the mock server answers to the next request
+ */
+export interface SSEScript {
+	/** Raw `data:` payloads, sent one event at a time */
+	events: string[]
+	/** Pause between events in milliseconds */
+	delayMs?: number
+	/** Destroy the connection after this many events instead of ending it */
+	dropAfter?: number
+	/** Answer with this HTTP status and JSON body instead of a stream */
+	status?: number
+	body?: unknown
+}
+
+export interface MockSSEServer {
+	/** API root to configure providers with */
+	baseUrl: string
+	/** Sets the answer to the following requests */
+	respondWith: (script: SSEScript) => void
+	/** JSON bodies of all requests received */
+	requests: unknown[]
+	close: () => Promise<void>
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Resolves once the text is flushed, so that a dropped connection still delivers it
+const write = (response: ServerResponse, text: string) =>
+	new Promise<void>((resolve) => response.write(text, () => resolve()))
+
+const stream = async (response: ServerResponse, script: SSEScript) => {
+	response.writeHead(200, {
+		'Content-Type': 'text/event-stream',
+		'Cache-Control': 'no-cache',
+		Connection: 'keep-alive',
+	})
+	// Keep-alive comment as sent by OpenRouter
+	await write(response, ': OPENROUTER PROCESSING\n\n')
+
+	for (const [index, data] of script.events.entries()) {
+		if (script.dropAfter === index || response.destroyed) break
+		await write(response, `data: ${data}\n\n`)
+		if (script.delayMs !== undefined) await wait(script.delayMs)
+	}
+
+	if (script.dropAfter !== undefined) response.destroy()
+	else response.end()
+}
+
+/**
+ * Starts a local server streaming scripted server-sent events, to test
+ * streaming clients against a real HTTP connection
+ * @returns The running server
+ */
+export const startMockSSEServer = async (): Promise<MockSSEServer> => {
+	let script: SSEScript = { events: [] }
+	const requests: unknown[] = []
+
+	const server: Server = createServer((request, response) => {
+		let body = ''
+		request.on('data', (chunk: Buffer) => (body += chunk.toString()))
+		request.on('end', () => {
+			requests.push(body === '' ? null : JSON.parse(body))
+			if (script.status !== undefined) {
+				response.writeHead(script.status, { 'Content-Type': 'application/json' })
+				response.end(JSON.stringify(script.body ?? {}))
+				return
+			}
+			void stream(response, script)
+		})
+	})
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+	const { port } = server.address() as AddressInfo
+
+	return {
+		baseUrl: `http://127.0.0.1:${port}/api/v1`,
+		respondWith: (next) => {
+			script = next
+		},
+		requests,
+		close: () =>
+			new Promise<void>((resolve) => {
+				server.closeAllConnections()
+				server.close(() => resolve())
+			}),
+	}
+}
+
+/**
+ * A completion chunk as sent by OpenAI-compatible APIs
+ * @param content Text of the chunk
+ * @param extra Additional fields such as finish reason or usage
+ * @returns JSON payload of one event
+ */
+export const completionChunk = (
+	content: string | null,
+	extra: { finishReason?: string; usage?: Record<string, number> } = {},
+): string =>
+	JSON.stringify({
+		id: 'gen-1',
+		choices: [{ index: 0, delta: content === null ? {} : { content }, finish_reason: extra.finishReason ?? null }],
+		...(extra.usage ? { usage: extra.usage } : {}),
+	})
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { ChatHistoryService, MAX_MESSAGES_PER_THREAD, MAX_THREADS_PER_PROJECT } from '../../services/ChatHistoryService'
+import indexedDBService from '../../services/IndexedDBService'
+import type { ChatMessage, ChatThread } from '../../types'
+
+// In-memory stand-in for the chat thread store of IndexedDB
+const store = vi.hoisted(() => ({ threads: new Map<string, unknown>() }))
+
+vi.mock('../../services/IndexedDBService', () => ({
+	default: {
+		getChatThreads: vi.fn(async (projectId?: string) =>
+			[...(store.threads.values() as Iterable<ChatThread>)]
+				.filter((thread) => projectId === undefined || thread.projectId === projectId)
+				.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+		),
+		saveChatThreads: vi.fn(async (threads: ChatThread[], deletedIds: string[] = []) => {
+			threads.forEach((thread) => store.threads.set(thread.id, thread))
+			deletedIds.forEach((id) => store.threads.delete(id))
+		}),
+	},
+}))
+
+vi.mock('../../services/LoggerService', () => ({
+	default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const createMessage = (content: string, role: ChatMessage['role'] = 'user'): ChatMessage => ({
+	id: crypto.randomUUID(),
+	role,
+	content,
+	timestamp: '2024-01-01T00:00:00.000Z',
+})
+
+const createThread = (id: string, updatedAt: string, messages: ChatMessage[] = []): ChatThread => ({
+	id,
+	projectId: 'other-project',
+	title: `Thread ${id}`,
+	messages,
+	createdAt: updatedAt,
+	updatedAt,
+})
+
+describe('ChatHistoryService', () => {
+	const service = ChatHistoryService.getInstance()
+
+	beforeEach(() => {
+		store.threads.clear()
+		localStorage.clear()
+	})
+
+	it('moves the conversation kept in localStorage into a thread', async () => {
+		const messages = [createMessage('How should we price the team plan?'), createMessage('Per seat.', 'assistant')]
+		localStorage.setItem('chat_history_project-1', JSON.stringify(messages))
+
+		const threads = await service.getThreads('project-1')
+
+		expect(threads).toHaveLength(1)
+		expect(threads[0]).toMatchObject({ projectId: 'project-1', title: 'How should we price the team plan?', messages })
+		expect(localStorage.getItem('chat_history_project-1')).toBeNull()
+		expect(await service.getThreads('project-1')).toHaveLength(1)
+	})
+
+	it('migrates the legacy conversation once for concurrent reads', async () => {
+		localStorage.setItem('chat_history_project-1', JSON.stringify([createMessage('Hello')]))
+
+		await Promise.all([service.getThreads('project-1'), service.getThreads('project-1')])
+
+		expect(await service.getThreads('project-1')).toHaveLength(1)
+	})
+
+	it('keeps the legacy conversation when the thread could not be stored', async () => {
+		const json = JSON.stringify([createMessage('Hello')])
+		localStorage.setItem('chat_history_project-1', json)
+		vi.mocked(indexedDBService.saveChatThreads).mockRejectedValueOnce(new Error('Quota exceeded'))
+
+		await expect(service.getThreads('project-1')).rejects.toThrow('Quota exceeded')
+		expect(localStorage.getItem('chat_history_project-1')).toBe(json)
+		expect(await service.getThreads('project-1')).toHaveLength(1)
+	})
+
+	it('keeps threads per node and updates them', async () => {
+		const thread = await service.createThread('project-1', 'Pricing', { nodeId: 'node-1' })
+		const saved = await service.saveMessages(thread, [createMessage('Hello')])
+		const detached = await service.updateThread(saved, { title: 'Pricing ideas', nodeId: null })
+
+		expect(detached.title).toBe('Pricing ideas')
+		expect(detached.nodeId).toBeUndefined()
+		expect(detached.messages).toHaveLength(1)
+		expect(await service.getThreads('project-1')).toEqual([detached])
+	})
+
+	it('drops the oldest threads and messages beyond the limits', async () => {
+		const threads = Array.from({ length: MAX_THREADS_PER_PROJECT + 2 }, (_, index) =>
+			createThread(`thread-${index}`, new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString()),
+		)
+		await service.importThreads('project-1', threads)
+		const long = await service.createThread('project-1', 'Long', {
+			messages: Array.from({ length: MAX_MESSAGES_PER_THREAD + 5 }, (_, index) => createMessage(`Message ${index}`)),
+		})
+
+		const stored = await service.getThreads('project-1')
+		expect(stored).toHaveLength(MAX_THREADS_PER_PROJECT)
+		expect(stored.map((thread) => thread.id)).not.toContain('thread-2')
+		expect(stored.map((thread) => thread.id)).toContain('thread-3')
+		expect(long.messages).toHaveLength(MAX_MESSAGES_PER_THREAD)
+		expect(long.messages[0]?.content).toBe('Message 5')
+	})
+
+	it('finds threads by their title and messages', async () => {
+		await service.createThread('project-1', 'Launch plan', { messages: [createMessage('Book the conference venue')] })
+		await service.createThread('project-1', 'Logo', { messages: [createMessage('Try a rounder typeface')] })
+		await service.createThread('project-2', 'Venue', { messages: [createMessage('Conference dates')] })
+
+		const byMessage = await service.searchThreads('conf venue', 'project-1')
+		expect(byMessage.map((match) => match.thread.title)).toEqual(['Launch plan'])
+		expect(byMessage[0]?.messages.map((message) => message.content)).toEqual(['Book the conference venue'])
+
+		const byTitle = await service.searchThreads('logo', 'project-1')
+		expect(byTitle).toEqual([{ thread: expect.objectContaining({ title: 'Logo' }), messages: [] }])
+
+		expect(await service.searchThreads('conference')).toHaveLength(2)
+		expect(await service.searchThreads('  ')).toEqual([])
+	})
+
+	it('imports threads into a project, keeping the newer version of each', async () => {
+		await service.importThreads('project-1', [
+			createThread('a', '2024-01-02T00:00:00.000Z', [createMessage('Local')]),
+			createThread('b', '2024-01-01T00:00:00.000Z'),
+		])
+
+		const changed = await service.importThreads('project-1', [
+			createThread('a', '2024-01-01T00:00:00.000Z', [createMessage('Remote')]),
+			createThread('b', '2024-01-03T00:00:00.000Z', [createMessage('Remote')]),
+			createThread('c', '2024-01-01T00:00:00.000Z'),
+		])
+
+		const threads = await service.getThreads('project-1')
+		expect(changed).toBe(2)
+		expect(threads.map((thread) => thread.id)).toEqual(['b', 'a', 'c'])
+		expect(threads.every((thread) => thread.projectId === 'project-1')).toBe(true)
+		expect(threads.find((thread) => thread.id === 'a')?.messages[0]?.content).toBe('Local')
+		expect(threads.find((thread) => thread.id === 'b')?.messages[0]?.content).toBe('Remote')
+	})
+
+	it('deletes the threads of a project', async () => {
+		await service.createThread('project-1', 'First')
+		await service.createThread('project-2', 'Other')
+
+		await service.deleteProjectThreads('project-1')
+
+		expect(await service.getThreads('project-1')).toEqual([])
+		expect(await service.getThreads('project-2')).toHaveLength(1)
+	})
+})
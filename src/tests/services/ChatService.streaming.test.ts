@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+
+import { ChatService } from '../../services/ChatService'
+import type { ChatMessage } from '../../types'
+import { NodeType } from '../../types/enums'
+import { completionChunk, startMockSSEServer, type MockSSEServer } from '../mocks/sseServer'
+
+describe('ChatService streaming', () => {
+	let server: MockSSEServer
+	let chatService: TestChatService
+
+	class TestChatService extends ChatService {
+		public constructor(baseUrl: string) {
+			super()
+			this.configureProvider('openrouter', { apiKey: '', baseUrl })
+		}
+
+		protected override generateId(): string {
+			return 'reply-1'
+		}
+
+		protected override getTimestamp(): string {
+			return '2024-01-01T00:00:00.000Z'
+		}
+	}
+
+	const messages: ChatMessage[] = [{ id: '1', role: 'user', content: 'Hello', timestamp: '2024-01-01T00:00:00Z' }]
+
+	beforeAll(async () => {
+		server = await startMockSSEServer()
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	beforeEach(() => {
+		server.requests.length = 0
+		chatService = new TestChatService(server.baseUrl)
+		chatService.configure('test-api-key', 'test-model')
+	})
+
+	it('renders text as it arrives and reports usage', async () => {
+		server.respondWith({
+			events: [
+				completionChunk('Hel'),
+				completionChunk('lo!'),
+				completionChunk(null, { finishReason: 'stop' }),
+				completionChunk(null, { usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } }),
+				'[DONE]',
+			],
+		})
+		const updates: string[] = []
+
+		const reply = await chatService.streamMessage(messages, { onToken: (_delta, content) => updates.push(content) })
+
+		expect(updates).toEqual(['Hel', 'Hello!'])
+		expect(reply).toEqual({
+			id: 'reply-1',
+			role: 'assistant',
+			content: 'Hello!',
+			timestamp: '2024-01-01T00:00:00.000Z',
+			status: 'complete',
+			usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+		})
+		expect(server.requests[0]).toMatchObject({ model: 'test-model', stream: true })
+	})
+
+	it('keeps the partial reply when the connection drops', async () => {
+		server.respondWith({ events: [completionChunk('Part'), completionChunk('ial'), completionChunk(' rest')], dropAfter: 2 })
+
+		const reply = await chatService.streamMessage(messages)
+
+		expect(reply).toMatchObject({ content: 'Partial', status: 'interrupted' })
+	})
+
+	it('stops when aborted and keeps the text so far', async () => {
+		server.respondWith({ events: [completionChunk('One'), completionChunk(' two'), completionChunk(' three')], delayMs: 200 })
+		const controller = new AbortController()
+
+		const reply = await chatService.streamMessage(messages, {
+			signal: controller.signal,
+			onToken: () => controller.abort(),
+		})
+
+		expect(reply).toMatchObject({ content: 'One', status: 'stopped' })
+	})
+
+	it('fails on API errors and on streams without any text', async () => {
+		server.respondWith({ events: [], status: 401, body: { error: { message: 'Invalid key' } } })
+		await expect(chatService.streamMessage(messages)).rejects.toThrow('API error: Invalid key')
+
+		server.respondWith({ events: [completionChunk('Hi')], dropAfter: 0 })
+		await expect(chatService.streamMessage(messages)).rejects.toThrow()
+	})
+
+	it('sends retrieved nodes and returns the ones the reply cites', async () => {
+		server.respondWith({
+			events: [
+				completionChunk('Use tiers [node:pricing] and [node:unknown].'),
+				completionChunk(null, { finishReason: 'stop' }),
+				'[DONE]',
+			],
+		})
+
+		const reply = await chatService.streamMessage(messages, {
+			contextNodes: [{ id: 'pricing', title: 'Pricing tiers', content: 'Free and team plans', type: NodeType.IDEA }],
+		})
+
+		expect(reply.citations).toEqual(['pricing'])
+		expect(server.requests[0]).toMatchObject({
+			messages: [
+				{ role: 'system', content: expect.stringContaining('[node:pricing] (idea) Pricing tiers\nFree and team plans') },
+				{ role: 'user', content: 'Hello' },
+			],
+		})
+	})
+
+	it('streams from the Anthropic Messages API', async () => {
+		chatService.configureProvider('anthropic', { apiKey: 'anthropic-key', baseUrl: server.baseUrl })
+		server.respondWith({
+			events: [
+				JSON.stringify({ type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } }),
+				JSON.stringify({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+				JSON.stringify({ type: 'ping' }),
+				JSON.stringify({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } }),
+				JSON.stringify({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' there' } }),
+				JSON.stringify({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } }),
+				JSON.stringify({ type: 'message_stop' }),
+			],
+		})
+
+		const reply = await chatService.streamMessage(messages, {
+			projectContext: { name: 'Offsite' },
+			model: { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+		})
+
+		expect(reply).toMatchObject({
+			content: 'Hi there',
+			status: 'complete',
+			usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+		})
+		expect(server.requests[0]).toMatchObject({
+			model: 'claude-3-5-haiku-latest',
+			stream: true,
+			system: expect.stringContaining('Offsite'),
+			messages: [{ role: 'user', content: 'Hello' }],
+		})
+	})
+})
@@ -123,7 +123,9 @@ describe('ChatService', () => {
 			// Reset the configuration
 			unconfiguredService.configure('', '')
 
-			await expect(unconfiguredService.sendMessage([])).rejects.toThrow('ChatService is not configured')
+			await expect(unconfiguredService.sendMessage([])).rejects.toThrow(
+				'ChatService is not configured: OpenRouter is missing an API key.',
+			)
 		})
 
 		it('should send messages to the API and return the response', async () => {
@@ -404,11 +406,13 @@ describe('ChatService', () => {
 				],
 			}
 
-			mockFetch.mockImplementationOnce(() => createMockResponse(mockResponse))
+			mockFetch.mockImplementation(() => createMockResponse(mockResponse))
 
 			await expect(chatService.generateNodeSuggestions(prompt)).rejects.toThrow(
 				'Failed to parse node suggestions',
 			)
+			// The model is asked again before giving up
+			expect(mockFetch).toHaveBeenCalledTimes(3)
 		})
 
 		it('should handle invalid response structure', async () => {
@@ -424,9 +428,111 @@ describe('ChatService', () => {
 				],
 			}
 
-			mockFetch.mockImplementationOnce(() => createMockResponse(mockResponse))
+			mockFetch.mockImplementation(() => createMockResponse(mockResponse))
 
 			await expect(chatService.generateNodeSuggestions(prompt)).rejects.toThrow('Invalid response format')
+			expect(mockFetch).toHaveBeenCalledTimes(3)
+		})
+
+		it('should read JSON wrapped in prose and code fences', async () => {
+			const reply = 'Here are some ideas:\n```json\n{"nodes": [{"title": "Solar", "content": "Panels", "type": "idea",},]}\n```'
+			mockFetch.mockImplementationOnce(() => createMockResponse({ choices: [{ message: { content: reply } }] }))
+
+			const result = await chatService.generateNodeSuggestions('Energy')
+
+			expect(result.nodes).toEqual([{ title: 'Solar', content: 'Panels', type: 'idea', tags: [] }])
+			expect(mockFetch).toHaveBeenCalledTimes(1)
+		})
+
+		it('should ask again with the validation error', async () => {
+			const invalid = JSON.stringify({
+				nodes: [{ id: 'new-1', title: 'Solar', type: 'idea' }],
+				edges: [{ source: 'new-1', target: 'node-404' }],
+			})
+			const valid = JSON.stringify({
+				nodes: [{ id: 'new-1', title: 'Solar', type: 'idea' }],
+				edges: [{ source: 'new-1', target: 'node-1', label: 'powers' }],
+			})
+			mockFetch
+				.mockImplementationOnce(() => createMockResponse({ choices: [{ message: { content: invalid } }] }))
+				.mockImplementationOnce(() => createMockResponse({ choices: [{ message: { content: valid } }] }))
+
+			const existingNodes: NodeSuggestion[] = [
+				{ id: 'node-1', title: 'Energy', content: '', type: NodeType.IDEA },
+			]
+			const result = await chatService.generateNodeSuggestions('Energy', undefined, existingNodes)
+
+			expect(result.nodes).toEqual([{ id: 'new-1', title: 'Solar', content: '', type: 'idea', tags: [] }])
+			expect(result.edges).toEqual([{ source: 'new-1', target: 'node-1', label: 'powers' }])
+
+			const retryBody = JSON.parse(mockFetch.mock.calls[1]?.[1].body)
+			expect(retryBody.messages).toHaveLength(4)
+			expect(retryBody.messages[2]).toEqual({ role: 'assistant', content: invalid })
+			expect(retryBody.messages[3].content).toContain('edges.0.target: Unknown node id "node-404"')
+		})
+	})
+
+	describe('generateGraphDiff', () => {
+		const selection: NodeSuggestion[] = [
+			{ id: 'node-1', title: 'Solar', content: 'Panels on the roof', type: NodeType.IDEA },
+			{ id: 'node-2', title: 'Wind', content: 'A small turbine', type: NodeType.IDEA },
+		]
+		const others: NodeSuggestion[] = [{ id: 'node-3', title: 'Budget', content: '', type: NodeType.NOTE }]
+
+		it('should turn the reply into reviewable changes', async () => {
+			const reply = JSON.stringify({
+				nodes: [{ id: 'new-1', title: 'Battery', content: 'Store the power', type: 'resource' }],
+				edges: [{ source: 'node-1', target: 'new-1' }],
+				updates: [
+					{ id: 'node-1', title: 'Solar panels' },
+					{ id: 'node-2', title: 'Wind', content: 'A small turbine' },
+				],
+				groups: [{ title: 'Renewables', nodeIds: ['node-1', 'node-2'] }],
+			})
+			mockFetch.mockImplementationOnce(() => createMockResponse({ choices: [{ message: { content: reply } }] }))
+
+			const diff = await chatService.generateGraphDiff('expand', selection, others)
+
+			expect(diff).toEqual({
+				id: mockId,
+				operation: 'expand',
+				nodeIds: ['node-1', 'node-2'],
+				changes: [
+					{
+						kind: 'add',
+						id: 'add:new-1',
+						node: { id: 'new-1', title: 'Battery', content: 'Store the power', type: 'resource', tags: [] },
+					},
+					// The unchanged node is left out
+					{
+						kind: 'update',
+						id: 'update:node-1',
+						nodeId: 'node-1',
+						before: { title: 'Solar', content: 'Panels on the roof' },
+						after: { title: 'Solar panels', content: 'Panels on the roof' },
+					},
+					{ kind: 'group', id: 'group:1', title: 'Renewables', nodeIds: ['node-1', 'node-2'] },
+				],
+				edges: [{ source: 'node-1', target: 'new-1' }],
+			})
+			const body = JSON.parse(mockFetch.mock.calls[0]?.[1].body)
+			expect(body.messages[0].content).toContain('Expand each selected node')
+			expect(body.messages[0].content).toContain('"Budget"')
+		})
+
+		it('should only let updates and groups refer to the selected nodes', async () => {
+			const invalid = JSON.stringify({ updates: [{ id: 'node-3', title: 'Costs' }] })
+			const valid = JSON.stringify({ updates: [{ id: 'node-2', title: 'Wind power' }] })
+			mockFetch
+				.mockImplementationOnce(() => createMockResponse({ choices: [{ message: { content: invalid } }] }))
+				.mockImplementationOnce(() => createMockResponse({ choices: [{ message: { content: valid } }] }))
+
+			const diff = await chatService.generateGraphDiff('rewrite', selection, others)
+
+			expect(diff.changes).toHaveLength(1)
+			expect(diff.changes[0]).toMatchObject({ kind: 'update', nodeId: 'node-2' })
+			const retryBody = JSON.parse(mockFetch.mock.calls[1]?.[1].body)
+			expect(retryBody.messages[3].content).toContain('updates.0.id: Node "node-3" is not one of the selected nodes')
 		})
 	})
 
@@ -471,4 +577,53 @@ describe('ChatService', () => {
 			await expect(chatService.getAvailableModels()).rejects.toThrow('API error: Invalid API key')
 		})
 	})
+
+	describe('providers', () => {
+		const messages: ChatMessage[] = [{ id: '1', role: 'user', content: 'Hello', timestamp: '2023-01-01T00:00:00Z' }]
+
+		it('talks to a local OpenAI-compatible server without an API key', async () => {
+			chatService.configureProvider('openai-compatible', { apiKey: '', baseUrl: 'http://localhost:11434/v1/' })
+			mockFetch.mockImplementationOnce(() =>
+				createMockResponse({ choices: [{ message: { content: '{"nodes": []}' } }] }),
+			)
+
+			await chatService.generateNodeSuggestions('Plan a retreat', undefined, undefined, {
+				provider: 'openai-compatible',
+				model: 'llama3.1',
+			})
+
+			const [url, init] = mockFetch.mock.calls[0] ?? []
+			expect(url).toBe('http://localhost:11434/v1/chat/completions')
+			expect(init.headers).not.toHaveProperty('Authorization')
+			expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1', response_format: { type: 'json_object' } })
+		})
+
+		it('uses the default model set for another provider', async () => {
+			chatService.configureProvider('anthropic', { apiKey: 'anthropic-key' })
+			chatService.setDefaultModel({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest' })
+			mockFetch.mockImplementationOnce(() =>
+				createMockResponse({
+					content: [{ type: 'text', text: 'Hi!' }],
+					usage: { input_tokens: 10, output_tokens: 2 },
+				}),
+			)
+
+			const reply = await chatService.sendMessage(messages, { projectName: 'Offsite' })
+
+			expect(reply.content).toBe('Hi!')
+			const [url, init] = mockFetch.mock.calls[0] ?? []
+			expect(url).toBe('https://api.anthropic.com/v1/messages')
+			expect(init.headers).toMatchObject({ 'x-api-key': 'anthropic-key', 'anthropic-version': '2023-06-01' })
+			const body = JSON.parse(init.body)
+			expect(body.system).toContain('Offsite')
+			expect(body.messages).toEqual([{ role: 'user', content: 'Hello' }])
+		})
+
+		it('refuses providers that are missing their API key', async () => {
+			await expect(
+				chatService.sendMessage(messages, undefined, { provider: 'anthropic', model: 'claude-3-5-sonnet-latest' }),
+			).rejects.toThrow('ChatService is not configured')
+			expect(mockFetch).not.toHaveBeenCalled()
+		})
+	})
 })
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+import credentialVaultService from '../../services/CredentialVaultService'
+import { decrypt, encrypt } from '../../utils/encryption'
+
+// Secure store kept in memory, encrypting like the real one
+const secureStore = vi.hoisted(() => new Map<string, string>())
+// Password set on the store for all secure data
+const shared = vi.hoisted(() => ({ password: null as string | null }))
+
+vi.mock('../../services/IndexedDBService', () => ({
+	default: {
+		setEncryptionPassword: (next: string | null) => {
+			shared.password = next
+		},
+		hasSecureData: async (key: string) => secureStore.has(key),
+		storeSecureData: async (key: string, data: unknown, secret = shared.password) => {
+			secureStore.set(key, await encrypt(data, secret!))
+		},
+		getSecureData: async (key: string, secret = shared.password) => {
+			const stored = secureStore.get(key)
+			return stored === undefined ? null : decrypt(stored, secret!)
+		},
+		deleteSecureData: async (key: string) => {
+			secureStore.delete(key)
+		},
+	},
+}))
+
+vi.mock('../../services/LoggerService', () => ({
+	default: { error: vi.fn() },
+}))
+
+const credentials = {
+	openRouterApiKey: 'sk-or-v1-secret',
+	anthropicApiKey: 'sk-ant-secret',
+	openAICompatibleApiKey: '',
+	awsAccessKeyId: 'AKIAEXAMPLE',
+	awsSecretAccessKey: 'aws-secret',
+	webdavPassword: '',
+}
+
+describe('CredentialVaultService', () => {
+	beforeEach(async () => {
+		await credentialVaultService.destroy()
+		credentialVaultService.setIdleTimeout(15)
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('keeps credentials encrypted until unlocked with the passphrase', async () => {
+		const statuses: string[] = []
+		const removeListener = credentialVaultService.addStatusListener((status) => statuses.push(status))
+
+		await credentialVaultService.create('correct horse', credentials)
+		expect(credentialVaultService.getCredentials()).toEqual(credentials)
+		expect([...secureStore.values()].join()).not.toContain('sk-or-v1-secret')
+
+		credentialVaultService.lock()
+		expect(credentialVaultService.getCredentials()).toBeNull()
+		await expect(credentialVaultService.updateCredentials({ awsAccessKeyId: 'x' })).rejects.toThrow('locked')
+
+		expect(await credentialVaultService.unlock('wrong horse')).toBe(false)
+		expect(credentialVaultService.getStatus()).toBe('locked')
+		expect(await credentialVaultService.unlock('correct horse')).toBe(true)
+		expect(credentialVaultService.getCredentials()).toEqual(credentials)
+
+		await expect(credentialVaultService.create('another one')).rejects.toThrow('already exists')
+		expect(statuses).toEqual(['unlocked', 'locked', 'unlocked'])
+		removeListener()
+	})
+
+	it('locks after the idle timeout unless there is activity', async () => {
+		await credentialVaultService.create('correct horse', credentials)
+		vi.useFakeTimers()
+		credentialVaultService.setIdleTimeout(5)
+
+		vi.advanceTimersByTime(4 * 60 * 1000)
+		credentialVaultService.touch()
+		vi.advanceTimersByTime(4 * 60 * 1000)
+		expect(credentialVaultService.getStatus()).toBe('unlocked')
+
+		vi.advanceTimersByTime(60 * 1000)
+		expect(credentialVaultService.getStatus()).toBe('locked')
+		expect(credentialVaultService.getCredentials()).toBeNull()
+	})
+
+	it('re-encrypts the credentials with a new passphrase', async () => {
+		await credentialVaultService.create('correct horse', credentials)
+		const before = [...secureStore.values()]
+		credentialVaultService.lock()
+
+		expect(await credentialVaultService.changePassphrase('wrong horse', 'battery staple')).toBe(false)
+		await expect(credentialVaultService.changePassphrase('correct horse', 'short')).rejects.toThrow('at least')
+		expect(await credentialVaultService.changePassphrase('correct horse', 'battery staple')).toBe(true)
+		expect([...secureStore.values()]).not.toEqual(before)
+
+		credentialVaultService.lock()
+		expect(await credentialVaultService.unlock('correct horse')).toBe(false)
+		expect(await credentialVaultService.unlock('battery staple')).toBe(true)
+		expect(credentialVaultService.getCredentials()).toEqual(credentials)
+	})
+
+	it('refuses to change the passphrase or unlock without a stored vault', async () => {
+		await expect(credentialVaultService.changePassphrase('anything', 'battery staple')).rejects.toThrow('does not exist')
+		expect(secureStore.size).toBe(0)
+
+		await credentialVaultService.create('correct horse', credentials)
+		credentialVaultService.lock()
+		// Destroyed in another tab
+		secureStore.clear()
+		await expect(credentialVaultService.unlock('correct horse')).rejects.toThrow('does not exist')
+		expect(credentialVaultService.getStatus()).toBe('none')
+	})
+
+	it('leaves the shared encryption password alone while locked', async () => {
+		await credentialVaultService.create('correct horse', credentials)
+		credentialVaultService.lock()
+
+		expect(await credentialVaultService.unlock('wrong horse')).toBe(false)
+		expect(await credentialVaultService.changePassphrase('wrong horse', 'battery staple')).toBe(false)
+		expect(shared.password).toBeNull()
+	})
+
+	it('imports exported credentials only with the same passphrase', async () => {
+		await credentialVaultService.create('correct horse', credentials)
+		const sealed = await credentialVaultService.exportCredentials()
+		expect(sealed).not.toContain('sk-or-v1-secret')
+
+		await credentialVaultService.updateCredentials({ openRouterApiKey: '' })
+		expect(await credentialVaultService.importCredentials(sealed)).toBe(true)
+		expect(credentialVaultService.getCredentials()).toEqual(credentials)
+
+		await credentialVaultService.destroy()
+		await credentialVaultService.create('battery staple')
+		expect(await credentialVaultService.importCredentials(sealed)).toBe(false)
+		expect(credentialVaultService.getCredentials()?.openRouterApiKey).toBe('')
+	})
+})
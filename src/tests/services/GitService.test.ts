@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { GitService } from '../../services/GitService'
+import type { GitCommit, GitObject, GitRef } from '../../types'
+import { createEdge, createNode, createProject } from '../fixtures'
+
+// In-memory stand-in for the git stores of IndexedDB
+const store = vi.hoisted(() => ({
+	objects: new Map<string, unknown>(),
+	commits: new Map<string, unknown>(),
+	refs: new Map<string, unknown>(),
+}))
+
+vi.mock('../../services/IndexedDBService', () => {
+	const refKey = (ref: { projectId: string; type: string; name: string }) => `${ref.projectId}:${ref.type}:${ref.name}`
+	return {
+		default: {
+			saveGitCommit: vi.fn(async (objects: GitObject[], commit: GitCommit, refs: GitRef[]) => {
+				objects.forEach((object) => store.objects.set(object.hash, object))
+				store.commits.set(commit.id, commit)
+				refs.forEach((ref) => store.refs.set(refKey(ref), ref))
+			}),
+			getGitObjects: vi.fn(async (hashes: string[]) =>
+				hashes.map((hash) => store.objects.get(hash)).filter(Boolean),
+			),
+			getGitCommit: vi.fn(async (id: string) => store.commits.get(id) ?? null),
+			getGitCommits: vi.fn(async (projectId: string) =>
+				[...(store.commits.values() as Iterable<GitCommit>)]
+					.filter((commit) => commit.projectId === projectId)
+					.reverse(),
+			),
+			getGitRefs: vi.fn(async (projectId: string) =>
+				[...(store.refs.values() as Iterable<GitRef>)].filter((ref) => ref.projectId === projectId),
+			),
+			saveGitRef: vi.fn(async (ref: GitRef) => {
+				store.refs.set(refKey(ref), ref)
+			}),
+			deleteGitRef: vi.fn(async (projectId: string, type: string, name: string) => {
+				store.refs.delete(refKey({ projectId, type, name }))
+			}),
+		},
+	}
+})
+
+vi.mock('../../services/LoggerService', () => ({
+	default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+describe('GitService', () => {
+	const gitService = GitService.getInstance()
+
+	beforeEach(() => {
+		store.objects.clear()
+		store.commits.clear()
+		store.refs.clear()
+		localStorage.clear()
+	})
+
+	it('links commits to their parents and deduplicates unchanged blobs', async () => {
+		await gitService.commit(
+			createProject({ nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta' })] }),
+			'First',
+		)
+		const objectCount = store.objects.size
+		await gitService.commit(
+			createProject({ nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta 2' })] }),
+			'Second',
+		)
+
+		const [second, first] = await gitService.log('project-1')
+
+		expect(second!.parents).toEqual([first!.id])
+		expect(first!.parents).toEqual([])
+		// Only the edited node produced a new blob (plus the metadata with its new version)
+		expect(store.objects.size - objectCount).toBeLessThanOrEqual(2)
+		expect((await gitService.getCurrentCommit('project-1'))?.id).toBe(second!.id)
+		expect(await gitService.getCurrentBranch('project-1')).toBe('main')
+	})
+
+	it('diffs the trees of two commits', async () => {
+		await gitService.commit(
+			createProject({ nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta' })] }),
+			'First',
+		)
+		await gitService.commit(
+			createProject({
+				nodes: [createNode('a', { title: 'Alpha renamed' }), createNode('c', { title: 'Gamma' })],
+				edges: [createEdge('a', 'c', { id: 'e1' })],
+			}),
+			'Second',
+		)
+		const [second, first] = await gitService.log('project-1')
+
+		const diff = await gitService.diff(first!.id, second!.id)
+
+		expect(diff.nodes).toEqual({ added: ['c'], removed: ['b'], modified: ['a'] })
+		expect(diff.edges).toEqual({ added: ['e1'], removed: [], modified: [] })
+	})
+
+	it('keeps branches apart and checks out snapshots', async () => {
+		await gitService.commit(createProject({ nodes: [createNode('a', { title: 'Alpha' })] }), 'First')
+		await gitService.createBranch('project-1', 'feature')
+		await gitService.checkout('project-1', 'feature')
+		await gitService.commit(
+			createProject({ nodes: [createNode('a', { title: 'Alpha' }), createNode('f', { title: 'Feature' })] }),
+			'Feature work',
+		)
+
+		expect(await gitService.log('project-1', 'feature')).toHaveLength(2)
+		expect(await gitService.log('project-1', 'main')).toHaveLength(1)
+
+		const main = await gitService.checkout('project-1', 'main')
+		expect(main?.nodes.map((node) => node.id)).toEqual(['a'])
+		expect(await gitService.getCurrentBranch('project-1')).toBe('main')
+
+		await expect(gitService.deleteBranch('project-1', 'main')).rejects.toThrow()
+	})
+
+	it('tags commits and rejects duplicate tag names', async () => {
+		await gitService.commit(createProject({ nodes: [createNode('a', { title: 'Alpha' })] }), 'First')
+		const tag = await gitService.createTag('project-1', 'v1')
+
+		expect(tag.target).toBe((await gitService.getCurrentCommit('project-1'))?.id)
+		await expect(gitService.createTag('project-1', 'v1')).rejects.toThrow()
+		expect(await gitService.log('project-1', 'v1')).toHaveLength(1)
+	})
+
+	it('reverts a commit while keeping later changes', async () => {
+		await gitService.commit(createProject({ nodes: [createNode('a', { title: 'Alpha' })] }), 'First')
+		await gitService.commit(
+			createProject({ nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta' })] }),
+			'Add Beta',
+		)
+		await gitService.commit(
+			createProject({ nodes: [createNode('a', { title: 'Alpha edited' }), createNode('b', { title: 'Beta' })] }),
+			'Edit Alpha',
+		)
+		const addBeta = (await gitService.log('project-1')).find((commit) => commit.message === 'Add Beta')
+
+		const reverted = await gitService.revert('project-1', addBeta!.id)
+
+		expect(reverted.nodes.map((node) => node.data.title)).toEqual(['Alpha edited'])
+		const [head] = await gitService.log('project-1')
+		expect(head!.message).toBe('Revert "Add Beta"')
+	})
+
+	it('imports the legacy localStorage history as a linear chain', async () => {
+		localStorage.setItem(
+			'git_projects',
+			JSON.stringify([
+				{
+					id: 'project-1',
+					commits: [
+						{
+							id: 'old-1',
+							message: 'Legacy first',
+							timestamp: '2023-01-01T00:00:00.000Z',
+							version: '2023.1.1-00',
+							projectSnapshot: createProject({ nodes: [createNode('a', { title: 'Alpha' })] }),
+						},
+						{
+							id: 'old-2',
+							message: 'Legacy second',
+							timestamp: '2023-01-02T00:00:00.000Z',
+							version: '2023.1.2-00',
+							projectSnapshot: createProject({
+								nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta' })],
+							}),
+						},
+					],
+				},
+			]),
+		)
+
+		const commits = await gitService.log('project-1')
+
+		expect(commits.map((commit) => commit.message)).toEqual(['Legacy second', 'Legacy first'])
+		expect(commits[0]!.parents).toEqual([commits[1]!.id])
+		expect(localStorage.getItem('git_projects')).toBeNull()
+	})
+})
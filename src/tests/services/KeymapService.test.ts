@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+import { CHORD_TIMEOUT, type KeymapService } from '../../services/KeymapService'
+
+// Each test gets its own service, loaded from the stored settings
+const loadService = async (): Promise<KeymapService> => {
+	vi.resetModules()
+	return (await import('../../services/KeymapService')).default
+}
+
+const press = (key: string, modifiers: KeyboardEventInit = {}) => {
+	const event = new KeyboardEvent('keydown', { key, cancelable: true, ...modifiers })
+	window.dispatchEvent(event)
+	return event
+}
+
+describe('KeymapService', () => {
+	let unregister: Array<() => void> = []
+
+	beforeEach(() => {
+		localStorage.clear()
+		unregister = []
+	})
+
+	afterEach(() => {
+		unregister.forEach((remove) => remove())
+		vi.useRealTimers()
+	})
+
+	it('runs the handler of a keystroke and of a chord', async () => {
+		const service = await loadService()
+		const undo = vi.fn()
+		const projects = vi.fn()
+		unregister.push(service.registerHandlers({ 'history.undo': undo, 'navigation.projects': projects }))
+
+		expect(press('z', { ctrlKey: true }).defaultPrevented).toBe(true)
+		expect(undo).toHaveBeenCalledTimes(1)
+
+		press('g')
+		press('p')
+		expect(projects).toHaveBeenCalledTimes(1)
+	})
+
+	it('drops the start of a chord after the timeout', async () => {
+		vi.useFakeTimers()
+		const service = await loadService()
+		const projects = vi.fn()
+		unregister.push(service.registerHandlers({ 'navigation.projects': projects }))
+
+		press('g')
+		vi.advanceTimersByTime(CHORD_TIMEOUT + 1)
+		press('p')
+		expect(projects).not.toHaveBeenCalled()
+	})
+
+	it('runs the handler registered last and leaves keys a handler declines to the page', async () => {
+		const service = await loadService()
+		const first = vi.fn()
+		const second = vi.fn(() => false)
+		unregister.push(service.registerHandlers({ 'edit.delete': first }))
+		const removeSecond = service.registerHandlers({ 'edit.delete': second })
+
+		expect(press('Delete').defaultPrevented).toBe(false)
+		expect(second).toHaveBeenCalledTimes(1)
+		expect(first).not.toHaveBeenCalled()
+
+		removeSecond()
+		expect(press('Delete').defaultPrevented).toBe(true)
+		expect(first).toHaveBeenCalledTimes(1)
+	})
+
+	it('takes a binding from the action that had it', async () => {
+		const service = await loadService()
+
+		const conflicts = service.setBindings('view.toggleGrid', ['ctrl+g'])
+
+		expect(conflicts).toEqual([{ actionId: 'edit.group', binding: 'Ctrl+G' }])
+		expect(service.getKeymap()['view.toggleGrid']).toEqual(['Ctrl+G'])
+		expect(service.getKeymap()['edit.group']).toEqual([])
+
+		service.resetBindings('edit.group')
+		expect(service.getKeymap()['edit.group']).toEqual(['Ctrl+G'])
+		expect(() => service.setBindings('edit.group', ['Hyper+G'])).toThrow('not a valid key binding')
+	})
+
+	it('keeps the clipboard keys on the clipboard actions', async () => {
+		const service = await loadService()
+
+		expect(service.getKeymap()['edit.copy']).toEqual(['Ctrl+C'])
+		expect(() => service.setBindings('edit.copy', ['Ctrl+K'])).toThrow("edit.copy can't be rebound")
+		expect(() => service.setBindings('edit.group', ['Ctrl+V'])).toThrow('Ctrl+V is used by edit.paste')
+		expect(service.getSettings().bindings).toEqual({})
+	})
+
+	it('keeps the settings and imports what it exported', async () => {
+		const service = await loadService()
+		service.setPreset('vim')
+		service.setBindings('general.save', ['Ctrl+S'])
+		const exported = service.exportKeymap()
+
+		const reloaded = await loadService()
+		expect(reloaded.getSettings()).toEqual({ preset: 'vim', bindings: { 'general.save': ['Ctrl+S'] } })
+
+		reloaded.resetBindings()
+		reloaded.setPreset('default')
+		reloaded.importKeymap(exported)
+		expect(reloaded.getKeymap()['history.undo']).toEqual(['U'])
+		expect(reloaded.getKeymap()['general.save']).toEqual(['Ctrl+S'])
+	})
+
+	it('rejects files that are not a keymap or bind keys twice', async () => {
+		const service = await loadService()
+
+		expect(() => service.importKeymap('{')).toThrow('not valid JSON')
+		expect(() => service.importKeymap(JSON.stringify({ version: 1, preset: 'emacs', bindings: {} }))).toThrow(
+			'not a keymap export',
+		)
+		expect(() =>
+			service.importKeymap(JSON.stringify({ version: 1, preset: 'default', bindings: { 'edit.group': ['Ctrl+Z'] } })),
+		).toThrow('Ctrl+Z is bound to both edit.group and history.undo')
+		expect(service.getSettings()).toEqual({ preset: 'default', bindings: {} })
+	})
+})
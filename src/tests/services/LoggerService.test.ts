@@ -29,7 +29,8 @@ beforeEach(() => {
 vi.mock('../../services/OfflineService', () => ({
 	default: {
 		getOnlineStatus: vi.fn(),
-		addToSyncQueue: vi.fn(),
+		enqueue: vi.fn(),
+		registerCommandHandler: vi.fn(),
 		// Add the missing function to the mock
 		addOnlineStatusListener: vi.fn(),
 	},
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+import type { OfflineQueueEntry } from '../../services/IndexedDBService'
+import type { OfflineQueueStorage, OfflineService } from '../../services/OfflineService'
+
+// In-memory stand-in for the offlineQueue store
+const stored = new Map<string, OfflineQueueEntry>()
+const storage: OfflineQueueStorage = {
+	getOfflineQueue: async () => [...stored.values()],
+	saveOfflineQueueEntry: async (entry) => {
+		stored.set(entry.id, structuredClone(entry))
+	},
+	removeFromOfflineQueue: async (id) => {
+		stored.delete(id)
+	},
+}
+
+// A fresh service, as after a reload of the app
+const loadOfflineService = async (): Promise<OfflineService> => {
+	vi.resetModules()
+	const service = (await import('../../services/OfflineService')).default
+	await service.setQueueStorage(storage)
+	await vi.advanceTimersByTimeAsync(0)
+	return service
+}
+
+describe('OfflineService queue', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+		stored.clear()
+		// Answers the connectivity check
+		vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 200 })))
+		vi.spyOn(console, 'error').mockImplementation(() => {})
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		vi.unstubAllGlobals()
+		vi.restoreAllMocks()
+	})
+
+	it('keeps queued operations across a reload and runs them once a handler is registered', async () => {
+		const first = await loadOfflineService()
+		first.enqueue('project.sync', { projectId: 'p1' })
+		await vi.advanceTimersByTimeAsync(0)
+		expect([...stored.values()]).toEqual([expect.objectContaining({ operation: 'project.sync', projectId: 'p1' })])
+
+		const reloaded = await loadOfflineService()
+		expect(reloaded.getPendingOperationsCount()).toBe(1)
+
+		const handler = vi.fn(async () => {})
+		reloaded.registerCommandHandler('project.sync', handler)
+		await vi.advanceTimersByTimeAsync(0)
+
+		expect(handler).toHaveBeenCalledWith({ projectId: 'p1' })
+		expect(reloaded.getPendingOperationsCount()).toBe(0)
+		expect(stored.size).toBe(0)
+	})
+
+	it('keeps one operation of a type per project', async () => {
+		const service = await loadOfflineService()
+
+		service.enqueue('project.sync', { projectId: 'p1' })
+		service.enqueue('project.sync', { projectId: 'p2' })
+		service.enqueue('project.sync', { projectId: 'p1' }, 2)
+		await vi.advanceTimersByTimeAsync(0)
+
+		const operations = service.getQueuedOperations()
+		expect(operations.map((operation) => [operation.projectId, operation.priority])).toEqual([
+			['p1', 2],
+			['p2', 0],
+		])
+		expect(stored.size).toBe(2)
+	})
+
+	it('retries failed operations with exponential backoff until it gives up', async () => {
+		const service = await loadOfflineService()
+		service.configure({ maxRetries: 3 })
+		const handler = vi.fn(async () => {
+			throw new Error('Server unavailable')
+		})
+		service.registerCommandHandler('logs.sync', handler)
+
+		service.enqueue('logs.sync', {})
+		await vi.advanceTimersByTimeAsync(0)
+		expect(handler).toHaveBeenCalledTimes(1)
+		expect(service.getQueuedOperations()[0]).toMatchObject({ retries: 1, lastError: 'Server unavailable' })
+
+		await vi.advanceTimersByTimeAsync(1999)
+		expect(handler).toHaveBeenCalledTimes(1)
+		await vi.advanceTimersByTimeAsync(1)
+		expect(handler).toHaveBeenCalledTimes(2)
+
+		await vi.advanceTimersByTimeAsync(4000)
+		expect(handler).toHaveBeenCalledTimes(3)
+		expect(service.getQueuedOperations()[0]).toMatchObject({ retries: 3, failed: true })
+
+		await vi.advanceTimersByTimeAsync(60000)
+		expect(handler).toHaveBeenCalledTimes(3)
+	})
+
+	it('lets failed operations be retried or discarded', async () => {
+		const service = await loadOfflineService()
+		service.configure({ maxRetries: 1 })
+		const handler = vi.fn<(payload: { projectId: string }) => Promise<void>>().mockRejectedValueOnce(new Error('Offline'))
+		service.registerCommandHandler('project.sync', handler)
+
+		service.enqueue('project.sync', { projectId: 'p1' })
+		service.enqueue('project.sync', { projectId: 'p2' })
+		await vi.advanceTimersByTimeAsync(0)
+		const [failed] = service.getQueuedOperations()
+		expect(failed).toMatchObject({ projectId: 'p1', failed: true })
+
+		await service.retryOperation(failed?.id ?? '')
+		expect(handler).toHaveBeenLastCalledWith({ projectId: 'p1' })
+		expect(service.getPendingOperationsCount()).toBe(0)
+
+		handler.mockRejectedValue(new Error('Offline'))
+		service.enqueue('project.sync', { projectId: 'p3' })
+		await vi.advanceTimersByTimeAsync(0)
+		await service.discardOperation(service.getQueuedOperations()[0]?.id ?? '')
+		expect(service.getPendingOperationsCount()).toBe(0)
+		expect(stored.size).toBe(0)
+	})
+})
@@ -1,23 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
-import indexedDBService from '../../services/IndexedDBService'
+import projectRepository from '../../services/ProjectRepository'
 import projectService from '../../services/ProjectService'
 import type { Project } from '../../types'
 import { ProjectTemplate, createEmptyProject } from '../../types/project'
 
 // Mock dependencies before imports
 vi.mock('../../services/GitService')
+vi.mock('../../services/ChatHistoryService')
 vi.mock('../../services/LoggerService')
-vi.mock('../../services/IndexedDBService', () => ({
+vi.mock('../../services/ProjectRepository', () => ({
 	default: {
-		init: vi.fn().mockResolvedValue(true),
-		saveProject: vi.fn(),
-		getProject: vi.fn(),
-		getAllProjects: vi.fn(),
-		deleteProject: vi.fn(),
-		archiveProject: vi.fn(),
-		addProjectHistoryEntry: vi.fn(),
-		getProjectHistory: vi.fn(),
+		ready: vi.fn().mockResolvedValue(true),
+		get: vi.fn(),
+		list: vi.fn(),
+		save: vi.fn(),
+		saveWithCommit: vi.fn(),
+		delete: vi.fn(),
+		archive: vi.fn(),
+		recordHistory: vi.fn(),
+		getHistory: vi.fn(),
 	},
 }))
 
@@ -34,13 +36,14 @@ const createMockProject = (id: string, name: string): Project => {
 describe('Project Lifecycle Management', () => {
 	beforeEach(() => {
 		vi.clearAllMocks()
-		vi.mocked(indexedDBService.init).mockResolvedValue(true)
-		vi.mocked(indexedDBService.saveProject).mockImplementation((project) => Promise.resolve(project.id))
-		vi.mocked(indexedDBService.getAllProjects).mockResolvedValue([])
-		vi.mocked(indexedDBService.deleteProject).mockResolvedValue(undefined)
-		vi.mocked(indexedDBService.archiveProject).mockImplementation(async (id) => createMockProject(id, 'Archived Project'))
-		vi.mocked(indexedDBService.addProjectHistoryEntry).mockResolvedValue('history-id')
-		vi.mocked(indexedDBService.getProjectHistory).mockResolvedValue([])
+		vi.mocked(projectRepository.ready).mockResolvedValue(true)
+		vi.mocked(projectRepository.save).mockResolvedValue(undefined)
+		vi.mocked(projectRepository.saveWithCommit).mockImplementation(async (project) => project)
+		vi.mocked(projectRepository.list).mockResolvedValue([])
+		vi.mocked(projectRepository.delete).mockResolvedValue(undefined)
+		vi.mocked(projectRepository.archive).mockImplementation(async (id) => createMockProject(id, 'Archived Project'))
+		vi.mocked(projectRepository.recordHistory).mockResolvedValue(undefined)
+		vi.mocked(projectRepository.getHistory).mockResolvedValue([])
 	})
 
 	it('should create a new project successfully', async () => {
@@ -50,12 +53,10 @@ describe('Project Lifecycle Management', () => {
 			description: 'Test Description',
 			template: ProjectTemplate.CUSTOM,
 		}))
-		expect(vi.mocked(indexedDBService.saveProject)).toHaveBeenCalled()
-		expect(vi.mocked(indexedDBService.addProjectHistoryEntry)).toHaveBeenCalledWith(
-			expect.objectContaining({
-				projectId: expect.any(String),
-				action: 'create',
-			}),
+		expect(vi.mocked(projectRepository.saveWithCommit)).toHaveBeenCalledWith(
+			expect.objectContaining({ id: expect.any(String) }),
+			'Initial commit',
+			expect.objectContaining({ action: 'create' }),
 		)
 	})
 
@@ -64,32 +65,29 @@ describe('Project Lifecycle Management', () => {
 			createMockProject('1', 'Test Project 1'),
 			createMockProject('2', 'Test Project 2'),
 		]
-		vi.mocked(indexedDBService.getAllProjects).mockResolvedValueOnce(mockProjects)
+		vi.mocked(projectRepository.list).mockResolvedValueOnce(mockProjects)
 
 		const result = await projectService.getProjects()
 
 		expect(result).toEqual(mockProjects)
-		expect(vi.mocked(indexedDBService.getAllProjects)).toHaveBeenCalledWith(false)
+		expect(vi.mocked(projectRepository.list)).toHaveBeenCalledWith(false)
 	})
 
 	it('should delete an existing project', async () => {
 		const projectId = 'test-project-id'
 		const mockProject = createMockProject(projectId, 'Test Project')
-		vi.mocked(indexedDBService.getProject).mockResolvedValueOnce(mockProject)
+		vi.mocked(projectRepository.get).mockResolvedValueOnce(mockProject)
 
 		await projectService.deleteProject(projectId)
 
-		expect(vi.mocked(indexedDBService.deleteProject)).toHaveBeenCalledWith(projectId)
-		expect(vi.mocked(indexedDBService.addProjectHistoryEntry)).toHaveBeenCalledWith(
-			expect.objectContaining({
-				projectId,
-				action: 'delete',
-			}),
+		expect(vi.mocked(projectRepository.delete)).toHaveBeenCalledWith(
+			projectId,
+			expect.objectContaining({ action: 'delete' }),
 		)
 	})
 
 	it('should handle errors gracefully', async () => {
-		vi.mocked(indexedDBService.saveProject).mockRejectedValueOnce(new Error('DB Error'))
+		vi.mocked(projectRepository.saveWithCommit).mockRejectedValueOnce(new Error('DB Error'))
 
 		await expect(projectService.createProject('Failed Project', 'Test'))
 			.rejects.toThrow('Failed to save project')
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import type { ProjectRepository } from '../../services/ProjectRepository'
+import type { Project } from '../../types'
+import { createProject } from '../fixtures'
+
+// In-memory stand-in for the stores of IndexedDB and the legacy projectsDB
+const state = vi.hoisted(() => ({
+	stores: new Map<string, Map<string, unknown>>(),
+	failingStore: null as string | null,
+	transactions: [] as string[][],
+	legacy: null as unknown,
+	legacyDeleted: false,
+	legacyGitImports: 0,
+}))
+
+vi.mock('../../services/IndexedDBService', () => {
+	const keyOf = (storeName: string, value: Record<string, unknown>) => {
+		switch (storeName) {
+		case 'projectHistory':
+			return `${String(value.projectId)}:${String(value.timestamp)}`
+		case 'gitObjects':
+			return String(value.hash)
+		case 'gitRefs':
+			return `${String(value.projectId)}:${String(value.type)}:${String(value.name)}`
+		case 'settings':
+			return String(value.key)
+		default:
+			return String(value.id)
+		}
+	}
+	const storeOf = (storeName: string) => {
+		if (!state.stores.has(storeName)) state.stores.set(storeName, new Map())
+		return state.stores.get(storeName) as Map<string, unknown>
+	}
+
+	return {
+		default: {
+			init: vi.fn(async () => true),
+			getSetting: vi.fn(async (key: string) => (storeOf('settings').get(key) as { value: unknown } | undefined)?.value ?? null),
+			getProject: vi.fn(async (id: string) => storeOf('projects').get(id) ?? null),
+			getAllProjects: vi.fn(async () => [...storeOf('projects').values()]),
+			getProjectHistory: vi.fn(async (projectId: string) =>
+				[...(storeOf('projectHistory').values() as Iterable<{ projectId: string }>)].filter(
+					(entry) => entry.projectId === projectId,
+				),
+			),
+			getRecord: vi.fn(async (storeName: string, key: string) => storeOf(storeName).get(key) ?? null),
+			getRecords: vi.fn(async (storeName: string) => [...storeOf(storeName).values()]),
+			// Writes are staged and only applied when the whole callback succeeds
+			writeTransaction: vi.fn(async (storeNames: string[], write: (transaction: unknown) => void) => {
+				const staged: Array<() => void> = []
+				write({
+					objectStore: (storeName: string) => ({
+						put: (value: Record<string, unknown>) => {
+							if (state.failingStore === storeName) throw new Error(`Failed to write ${storeName}`)
+							staged.push(() => storeOf(storeName).set(keyOf(storeName, value), value))
+						},
+						delete: (key: string) => staged.push(() => storeOf(storeName).delete(key)),
+					}),
+				})
+				staged.forEach((apply) => apply())
+				state.transactions.push(storeNames)
+			}),
+		},
+	}
+})
+
+vi.mock('../../services/storage/legacyStores', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../../services/storage/legacyStores')>()),
+	readLegacyDatabase: vi.fn(async () => state.legacy),
+	deleteLegacyDatabase: vi.fn(async () => {
+		state.legacyDeleted = true
+	}),
+}))
+
+vi.mock('../../services/GitService', () => ({
+	default: {
+		prepareCommit: vi.fn(async (project: Project, message: string) => ({
+			project: { ...project, version: 'v2' },
+			objects: [{ hash: 'blob-1', type: 'node', content: {} }],
+			commit: { id: 'commit-1', projectId: project.id, parents: [], message },
+			refs: [{ projectId: project.id, type: 'branch', name: 'main', target: 'commit-1' }],
+		})),
+		commit: vi.fn(async (project: Project) => ({ ...project, version: 'v2' })),
+		importLegacyHistory: vi.fn(async () => {
+			state.legacyGitImports += 1
+			return 0
+		}),
+	},
+}))
+
+vi.mock('../../services/LoggerService', () => ({
+	default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const storeValues = (storeName: string) => [...(state.stores.get(storeName)?.values() ?? [])]
+
+// Each test gets its own repository, so the one-time migration runs again
+const loadRepository = async (): Promise<ProjectRepository> => {
+	vi.resetModules()
+	return (await import('../../services/ProjectRepository')).default
+}
+
+describe('ProjectRepository', () => {
+	beforeEach(() => {
+		state.stores.clear()
+		state.failingStore = null
+		state.transactions = []
+		state.legacy = null
+		state.legacyDeleted = false
+		state.legacyGitImports = 0
+		localStorage.clear()
+	})
+
+	it('stores a project with its history entry and commit in one transaction', async () => {
+		const repository = await loadRepository()
+		await repository.ready()
+		state.transactions = []
+
+		const committed = await repository.saveWithCommit(
+			createProject({ id: 'p1', updatedAt: '2024-01-02T00:00:00.000Z' }),
+			'Initial commit',
+			{ action: 'create' },
+		)
+
+		expect(committed.version).toBe('v2')
+		expect(state.transactions).toEqual([['projects', 'projectHistory', 'gitObjects', 'gitCommits', 'gitRefs']])
+		expect(await repository.get('p1')).toEqual(committed)
+		expect(storeValues('gitCommits')).toHaveLength(1)
+		expect(await repository.getHistory('p1')).toEqual([
+			expect.objectContaining({ action: 'create', details: { version: 'v2', commitMessage: 'Initial commit' } }),
+		])
+	})
+
+	it('writes the commits of a project one after the other', async () => {
+		const repository = await loadRepository()
+		await repository.ready()
+		const gitService = (await import('../../services/GitService')).default
+		const storedAtPrepare: number[] = []
+		vi.mocked(gitService.prepareCommit).mockImplementation(async (project, message) => {
+			storedAtPrepare.push(storeValues('gitCommits').length)
+			const id = `commit-${storedAtPrepare.length}`
+			return {
+				project: { ...project, version: id },
+				objects: [],
+				commit: {
+					id,
+					projectId: project.id,
+					parents: [],
+					tree: { meta: '', nodes: [], edges: [] },
+					message,
+					author: 'Test',
+					timestamp: '2024-01-02T00:00:00.000Z',
+					version: id,
+				},
+				refs: [],
+			}
+		})
+		const project = createProject({ id: 'p1', updatedAt: '2024-01-02T00:00:00.000Z' })
+
+		await Promise.all([
+			repository.saveWithCommit(project, 'First', { action: 'update' }),
+			repository.saveWithCommit(project, 'Second', { action: 'update' }),
+		])
+
+		expect(storedAtPrepare).toEqual([0, 1])
+		expect((await repository.get('p1'))?.version).toBe('commit-2')
+	})
+
+	it('stores nothing when part of a commit fails', async () => {
+		const repository = await loadRepository()
+		await repository.ready()
+		state.failingStore = 'gitCommits'
+
+		await expect(
+			repository.saveWithCommit(createProject({ id: 'p1', updatedAt: '2024-01-02T00:00:00.000Z' }), 'Change', {
+				action: 'update',
+			}),
+		).rejects.toThrow('Failed to write gitCommits')
+
+		expect(await repository.get('p1')).toBeNull()
+		expect(await repository.getHistory('p1')).toEqual([])
+		expect(storeValues('gitObjects')).toEqual([])
+	})
+
+	it('consolidates the legacy stores once and keeps superseded versions in the history', async () => {
+		const stored = createProject({ id: 'p1', name: 'Stored', updatedAt: '2024-01-02T00:00:00.000Z' })
+		const newerInLegacyDB = createProject({ id: 'p1', name: 'Newer in projectsDB', updatedAt: '2024-01-03T00:00:00.000Z' })
+		const onlyInFallback = createProject({ id: 'p2', name: 'Only in localStorage', updatedAt: '2024-01-01T00:00:00.000Z' })
+		const olderInFallback = createProject({ id: 'p1', name: 'Older in localStorage', updatedAt: '2024-01-01T00:00:00.000Z' })
+		state.stores.set('projects', new Map([['p1', stored]]))
+		state.legacy = {
+			projects: [newerInLegacyDB],
+			syncBases: [stored],
+			conflicts: [
+				{
+					id: 'conflict_p1_1',
+					projectId: 'p1',
+					timestamp: '2024-01-02T12:00:00.000Z',
+					localVersion: stored,
+					remoteVersion: newerInLegacyDB,
+				},
+				{ id: 'conflict_p1_2', projectId: 'p1', timestamp: '2024-01-02T13:00:00.000Z' },
+			],
+		}
+		localStorage.setItem('doitBrainstorming_project_p2', JSON.stringify(onlyInFallback))
+		localStorage.setItem('doitBrainstorming_project_p1', JSON.stringify(olderInFallback))
+
+		const repository = await loadRepository()
+		await repository.ready()
+
+		expect(await repository.get('p1')).toEqual(newerInLegacyDB)
+		expect(await repository.get('p2')).toEqual(onlyInFallback)
+		expect(await repository.getSyncBase('p1')).toEqual(stored)
+		expect(await repository.getConflictRecords('p1')).toEqual([
+			{
+				id: 'conflict_p1_1',
+				projectId: 'p1',
+				baseVersion: null,
+				localVersion: stored,
+				remoteVersion: newerInLegacyDB,
+				mergedVersion: null,
+				conflicts: [],
+				resolutions: {},
+				timestamp: '2024-01-02T12:00:00.000Z',
+			},
+		])
+
+		const superseded = (await repository.getHistory('p1')).map((entry) => entry.details?.supersededVersion)
+		expect(superseded).toEqual(expect.arrayContaining([stored, olderInFallback]))
+
+		expect(state.legacyGitImports).toBe(1)
+		expect(state.legacyDeleted).toBe(true)
+		expect(localStorage.getItem('doitBrainstorming_project_p1')).toBeNull()
+		expect(localStorage.getItem('doitBrainstorming_project_p2')).toBeNull()
+
+		const again = await loadRepository()
+		await again.ready()
+		expect(state.legacyGitImports).toBe(1)
+	})
+
+	it('keeps the legacy stores when moving them fails', async () => {
+		const legacy = createProject({ id: 'p1', name: 'Legacy', updatedAt: '2024-01-03T00:00:00.000Z' })
+		state.legacy = { projects: [legacy], syncBases: [], conflicts: [] }
+		state.failingStore = 'projects'
+
+		const repository = await loadRepository()
+
+		await expect(repository.ready()).resolves.toBe(true)
+		expect(state.legacyDeleted).toBe(false)
+		expect(storeValues('settings')).toEqual([])
+	})
+})
@@ -89,6 +89,8 @@ vi.mock('../../services/OfflineService', () => ({
 		isOnline: vi.fn().mockReturnValue(true),
 		queueAction: vi.fn(),
 		processQueue: vi.fn(),
+		enqueue: vi.fn(),
+		registerCommandHandler: vi.fn(() => () => {}),
 	},
 }))
 
@@ -251,6 +253,29 @@ describe('ProjectService', () => {
 		})
 	})
 
+	describe('importDiagram', () => {
+		it('should create a project holding the parsed graph', async () => {
+			// The node timestamps need a working Date constructor
+			vi.stubGlobal('Date', originalDate)
+			const saveSpy = vi
+				.spyOn(projectService, 'saveProjectWithCommit')
+				.mockImplementation(async (project) => project)
+
+			const result = await projectService.importDiagram('flow.mmd', 'flowchart LR\n  a[Plan] -->|then| b(Ship)')
+
+			expect(projectService.createProject).toHaveBeenCalledWith('flow', '')
+			expect(result.nodes.map((node) => node.data.title)).toEqual(['Plan', 'Ship'])
+			expect(result.edges[0]).toMatchObject({ source: result.nodes[0]!.id, label: 'then' })
+			expect(saveSpy).toHaveBeenCalledWith(result, 'Import diagram flow.mmd')
+			vi.unstubAllGlobals()
+		})
+
+		it('should reject documents without nodes', async () => {
+			await expect(projectService.importDiagram('empty.gv', 'digraph {}')).rejects.toThrow()
+			expect(projectService.createProject).not.toHaveBeenCalled()
+		})
+	})
+
 	describe('getProjects', () => {
 		it('should return all projects', async () => {
 			// The getProjects method is already mocked in beforeEach
@@ -17,14 +17,14 @@ vi.mock('../../services/OfflineService', () => ({
 	default: {
 		getInstance: vi.fn(() => ({
 			getOnlineStatus: vi.fn().mockReturnValue(true),
-			addToSyncQueue: vi.fn(),
+			enqueue: vi.fn(),
 			addOnlineStatusListener: vi.fn(),
 		})),
 	},
 	OfflineService: {
 		getInstance: vi.fn(() => ({
 			getOnlineStatus: vi.fn().mockReturnValue(true),
-			addToSyncQueue: vi.fn(),
+			enqueue: vi.fn(),
 			addOnlineStatusListener: vi.fn(),
 		})),
 	},
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { MAX_SNIPPET_HISTORY, SnippetService } from '../../services/SnippetService'
+import type { Project } from '../../types'
+import { NodeType } from '../../types/enums'
+import type { Snippet } from '../../types/snippet'
+import { SUBGRAPH_CLIPBOARD_VERSION, type SubgraphPayload } from '../../utils/subgraphClipboard'
+import { createProject } from '../fixtures'
+
+// In-memory stand-in for the snippet store and the projects
+const state = vi.hoisted(() => ({
+	snippets: new Map<string, unknown>(),
+	projects: [] as unknown[],
+	updatedProjects: [] as Array<{ id: string; nodes: unknown[] }>,
+}))
+
+vi.mock('../../services/IndexedDBService', () => ({
+	default: {
+		getRecord: vi.fn(async (_storeName: string, key: string) => state.snippets.get(key) ?? null),
+		getRecords: vi.fn(async () => [...state.snippets.values()]),
+		writeTransaction: vi.fn(async (_storeNames: string[], write: (transaction: unknown) => void) => {
+			write({
+				objectStore: () => ({
+					put: (value: { id: string }) => state.snippets.set(value.id, value),
+					delete: (key: string) => state.snippets.delete(key),
+				}),
+			})
+		}),
+	},
+}))
+
+vi.mock('../../services/ProjectService', () => ({
+	default: {
+		getProjects: vi.fn(async () => state.projects),
+		updateProject: vi.fn(async (id: string, updates: { nodes: unknown[] }) => {
+			state.updatedProjects.push({ id, nodes: updates.nodes })
+		}),
+	},
+}))
+
+vi.mock('../../services/LoggerService', () => ({
+	default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const createContent = (title: string): SubgraphPayload => ({
+	version: SUBGRAPH_CLIPBOARD_VERSION,
+	sourceProjectId: 'project-1',
+	nodes: [{ id: 'a', type: NodeType.IDEA, position: { x: 0, y: 0 }, title, content: '', tags: [] }],
+	edges: [],
+})
+
+const placedNode = (id: string, snippet: Snippet, version: number): Project['nodes'][number] => ({
+	id,
+	type: NodeType.IDEA,
+	position: { x: 0, y: 0 },
+	data: {
+		id,
+		title: 'Old',
+		content: '',
+		createdAt: '2024-01-01T00:00:00.000Z',
+		updatedAt: '2024-01-01T00:00:00.000Z',
+		snippet: { snippetId: snippet.id, version, sourceNodeId: 'a' },
+	},
+})
+
+describe('SnippetService', () => {
+	const service = SnippetService.getInstance()
+
+	beforeEach(() => {
+		state.snippets.clear()
+		state.projects = []
+		state.updatedProjects = []
+	})
+
+	it('saves a snippet without the project it was copied from', async () => {
+		const snippet = await service.createSnippet(' Idea ', createContent('Idea'), { tags: ['UX', 'ux ', ''] })
+
+		expect(snippet).toMatchObject({ name: 'Idea', version: 1, tags: ['ux'], history: [] })
+		expect(snippet.content.sourceProjectId).toBeUndefined()
+		expect(await service.getSnippet(snippet.id)).toEqual(snippet)
+	})
+
+	it('makes a new version when the content changes', async () => {
+		const snippet = await service.createSnippet('Idea', createContent('Idea'))
+
+		const renamed = await service.updateSnippet(snippet, { name: 'Renamed', content: createContent('Idea') })
+		expect(renamed.version).toBe(1)
+
+		const edited = await service.updateSnippet(renamed, { content: createContent('Better idea') })
+		expect(edited.version).toBe(2)
+		expect(edited.history).toEqual([{ version: 1, content: snippet.content, savedAt: renamed.updatedAt }])
+
+		const restored = await service.restoreVersion(edited, 1)
+		expect(restored.version).toBe(3)
+		expect(restored.content.nodes[0]?.title).toBe('Idea')
+	})
+
+	it('keeps a limited history', async () => {
+		let snippet = await service.createSnippet('Idea', createContent('Idea 0'))
+		for (let index = 1; index <= MAX_SNIPPET_HISTORY + 5; index++) {
+			snippet = await service.updateSnippet(snippet, { content: createContent(`Idea ${index}`) })
+		}
+
+		expect(snippet.history).toHaveLength(MAX_SNIPPET_HISTORY)
+		expect(snippet.history[0]?.version).toBe(snippet.version - 1)
+	})
+
+	it('searches by text and tag', async () => {
+		await service.createSnippet('Retro board', createContent('Went well'), { tags: ['agile'] })
+		await service.createSnippet('Risk list', createContent('Risks'), { tags: ['planning'] })
+
+		expect((await service.searchSnippets('went')).map((snippet) => snippet.name)).toEqual(['Retro board'])
+		expect((await service.searchSnippets('', 'planning')).map((snippet) => snippet.name)).toEqual(['Risk list'])
+	})
+
+	it('deletes a snippet', async () => {
+		const snippet = await service.createSnippet('Idea', createContent('Idea'))
+		await service.deleteSnippet(snippet.id)
+
+		expect(await service.getSnippets()).toEqual([])
+	})
+
+	it('updates the placed nodes in the projects that have outdated ones', async () => {
+		const snippet = await service.createSnippet('Idea', createContent('Idea'))
+		const edited = await service.updateSnippet(snippet, { content: createContent('Better idea') })
+		state.projects = [
+			createProject({ id: 'outdated', nodes: [placedNode('n1', snippet, 1), placedNode('n2', snippet, 1)] }),
+			createProject({ id: 'current', nodes: [placedNode('n3', snippet, 2)] }),
+			createProject({ id: 'unrelated' }),
+		]
+
+		expect(await service.updateInstances(edited)).toBe(2)
+		expect(state.updatedProjects.map((project) => project.id)).toEqual(['outdated'])
+		expect(state.updatedProjects[0]?.nodes).toMatchObject([
+			{ data: { title: 'Better idea', snippet: { version: 2 } } },
+			{ data: { title: 'Better idea', snippet: { version: 2 } } },
+		])
+	})
+})
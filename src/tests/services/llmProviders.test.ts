@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+
+import { getProvider, isLocalEndpoint, isProviderReady, LLM_PROVIDERS } from '../../services/llm'
+
+describe('LLM providers', () => {
+	it('offers every provider with its capabilities', () => {
+		expect(LLM_PROVIDERS.map((provider) => provider.id)).toEqual(['openrouter', 'openai-compatible', 'anthropic'])
+
+		expect(getProvider('openrouter').getCapabilities('openai/gpt-4o', { apiKey: 'key' })).toEqual({
+			streaming: true,
+			jsonMode: true,
+			contextWindow: 128000,
+		})
+		expect(getProvider('openrouter').getCapabilities('anthropic/claude-3-opus', { apiKey: 'key' }).jsonMode).toBe(false)
+		expect(getProvider('anthropic').getCapabilities('claude-3-5-sonnet-latest', { apiKey: 'key' }).contextWindow).toBe(200000)
+		// Local servers can't report the context window of the loaded model
+		expect(getProvider('openai-compatible').getCapabilities('llama3.1', { apiKey: '', contextWindow: 32768 })).toEqual({
+			streaming: true,
+			jsonMode: true,
+			contextWindow: 32768,
+		})
+	})
+
+	it('needs an API key only for hosted providers', () => {
+		expect(isProviderReady(getProvider('openai-compatible'), { apiKey: '' })).toBe(true)
+		expect(isProviderReady(getProvider('anthropic'), { apiKey: '' })).toBe(false)
+		expect(isProviderReady(getProvider('openrouter'), undefined)).toBe(false)
+	})
+
+	it('recognises endpoints that work offline', () => {
+		expect(isLocalEndpoint('http://localhost:11434/v1')).toBe(true)
+		expect(isLocalEndpoint('http://127.0.0.1:8080/v1')).toBe(true)
+		expect(isLocalEndpoint('http://[::1]:1234/v1')).toBe(true)
+		expect(isLocalEndpoint('http://studio.local:1234/v1')).toBe(true)
+		expect(isLocalEndpoint('https://openrouter.ai/api/v1')).toBe(false)
+		expect(isLocalEndpoint('not a url')).toBe(false)
+	})
+})
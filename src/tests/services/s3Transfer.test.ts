@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import {
+	downloadCompressedJson,
+	gunzipJson,
+	listObjectVersions,
+	restoreObjectVersion,
+	sha256Base64,
+	uploadCompressedJson,
+	type S3TransferClient,
+} from '../../lib/s3Transfer'
+
+interface StoredVersion {
+	versionId: string
+	body: Uint8Array
+	metadata: Record<string, string>
+	etag: string
+	lastModified: Date
+}
+
+const createError = (name: string) => Object.assign(new Error(name), { name })
+
+/**
+ * In-memory S3 with versioning and multipart uploads, standing in for MinIO
+ */
+const createS3Mock = () => {
+	const objects = new Map<string, StoredVersion[]>()
+	const uploads = new Map<string, { metadata: Record<string, string>; parts: Map<number, Uint8Array> }>()
+	const failingParts = new Set<number>()
+	// Cleared to act like a bucket whose CORS rules don't expose the headers
+	const cors = { exposeHeaders: true }
+	let counter = 0
+
+	const request = <T>(run: () => Promise<T> | T) => ({ promise: async () => run() })
+	const etagOf = async (body: Uint8Array) => `"${(await sha256Base64(body)).slice(0, 12)}"`
+	const store = (key: string, body: Uint8Array, metadata: Record<string, string>, etag: string) => {
+		counter += 1
+		const version = {
+			versionId: `v${counter}`,
+			body,
+			metadata,
+			etag,
+			lastModified: new Date(Date.UTC(2024, 0, 1, 0, 0, counter)),
+		}
+		objects.set(key, [...(objects.get(key) ?? []), version])
+		return { ETag: etag, VersionId: version.versionId }
+	}
+	const find = (key: string, versionId?: string) => {
+		const versions = objects.get(key) ?? []
+		const version = versionId !== undefined ? versions.find((item) => item.versionId === versionId) : versions.at(-1)
+		if (!version) throw createError(versionId !== undefined ? 'NoSuchVersion' : 'NoSuchKey')
+		return version
+	}
+
+	const client = {
+		putObject: vi.fn((params: { Key: string; Body: Uint8Array; Metadata?: Record<string, string> }) =>
+			request(async () => store(params.Key, params.Body, params.Metadata ?? {}, await etagOf(params.Body))),
+		),
+		getObject: vi.fn((params: { Key: string; VersionId?: string }) =>
+			request(() => {
+				const version = find(params.Key, params.VersionId)
+				return { Body: version.body, Metadata: version.metadata, ETag: version.etag }
+			}),
+		),
+		headObject: vi.fn((params: { Key: string; VersionId?: string }) =>
+			request(() => {
+				const version = find(params.Key, params.VersionId)
+				if (!cors.exposeHeaders) return { ContentLength: version.body.length }
+				return { ETag: version.etag, ContentLength: version.body.length, Metadata: version.metadata }
+			}),
+		),
+		copyObject: vi.fn((params: { Key: string; CopySource: string }) =>
+			request(() => {
+				const versionId = new URLSearchParams(params.CopySource.split('?')[1]).get('versionId') ?? undefined
+				const source = find(params.Key, versionId)
+				return { CopyObjectResult: { ETag: source.etag }, ...store(params.Key, source.body, source.metadata, source.etag) }
+			}),
+		),
+		createMultipartUpload: vi.fn((params: { Key: string; Metadata?: Record<string, string> }) =>
+			request(() => {
+				const uploadId = `upload-${uploads.size + 1}`
+				uploads.set(uploadId, { metadata: params.Metadata ?? {}, parts: new Map() })
+				return { UploadId: uploadId }
+			}),
+		),
+		uploadPart: vi.fn((params: { UploadId: string; PartNumber: number; Body: Uint8Array }) =>
+			request(async () => {
+				if (failingParts.delete(params.PartNumber)) throw createError('NetworkingError')
+				const upload = uploads.get(params.UploadId)
+				if (!upload) throw createError('NoSuchUpload')
+				upload.parts.set(params.PartNumber, params.Body.slice())
+				return { ETag: await etagOf(params.Body) }
+			}),
+		),
+		listParts: vi.fn((params: { UploadId: string }) =>
+			request(async () => {
+				const upload = uploads.get(params.UploadId)
+				if (!upload) throw createError('NoSuchUpload')
+				const parts = await Promise.all(
+					[...upload.parts].map(async ([PartNumber, body]) => ({ PartNumber, ETag: await etagOf(body) })),
+				)
+				return { Parts: parts }
+			}),
+		),
+		completeMultipartUpload: vi.fn(
+			(params: { Key: string; UploadId: string; MultipartUpload: { Parts: { PartNumber: number }[] } }) =>
+				request(async () => {
+					const upload = uploads.get(params.UploadId)
+					if (!upload) throw createError('NoSuchUpload')
+					const chunks = params.MultipartUpload.Parts.map((part) => upload.parts.get(part.PartNumber) ?? new Uint8Array())
+					const body = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0))
+					chunks.reduce((offset, chunk) => (body.set(chunk, offset), offset + chunk.length), 0)
+					uploads.delete(params.UploadId)
+					return store(params.Key, body, upload.metadata, `${(await etagOf(body)).slice(0, -1)}-${chunks.length}"`)
+				}),
+		),
+		abortMultipartUpload: vi.fn((params: { UploadId: string }) => request(() => uploads.delete(params.UploadId))),
+		listObjectVersions: vi.fn((params: { Prefix: string }) =>
+			request(() => ({
+				IsTruncated: false,
+				Versions: [...objects]
+					.filter(([key]) => key.startsWith(params.Prefix))
+					.flatMap(([key, versions]) =>
+						versions.map((version, index) => ({
+							Key: key,
+							VersionId: version.versionId,
+							LastModified: version.lastModified,
+							Size: version.body.length,
+							ETag: version.etag,
+							IsLatest: index === versions.length - 1,
+						})),
+					),
+			})),
+		),
+	}
+
+	return { client, s3: client as unknown as S3TransferClient, objects, uploads, failingParts, cors }
+}
+
+const target = { bucket: 'brainstorming', key: 'projects/p1/project.json.gz' }
+
+// Random text compresses badly, so that it spans several parts
+const createLargeValue = () => ({
+	id: 'p1',
+	notes: Array.from({ length: 40 }, () => crypto.randomUUID()),
+})
+
+describe('s3Transfer', () => {
+	let mock: ReturnType<typeof createS3Mock>
+
+	beforeEach(() => {
+		mock = createS3Mock()
+		localStorage.clear()
+	})
+
+	it('stores small values compressed in a single request', async () => {
+		const value = { id: 'p1', name: 'Small project', nodes: [] }
+
+		const result = await uploadCompressedJson(mock.s3, target, value, { metadata: { 'project-version': '1' } })
+
+		expect(mock.client.putObject).toHaveBeenCalledTimes(1)
+		expect(mock.client.createMultipartUpload).not.toHaveBeenCalled()
+		expect(result.versionId).toBe('v1')
+		expect(mock.objects.get(target.key)?.[0]?.metadata).toEqual({ 'project-version': '1', sha256: result.checksum })
+		expect(await downloadCompressedJson(mock.s3, target)).toEqual(value)
+	})
+
+	it('uploads large values in parts', async () => {
+		const value = createLargeValue()
+		const progress: number[] = []
+
+		await uploadCompressedJson(mock.s3, target, value, { partSize: 256, onProgress: (p) => progress.push(p) })
+
+		expect(mock.client.uploadPart.mock.calls.length).toBeGreaterThan(2)
+		expect(progress.at(-1)).toBe(100)
+		expect(await downloadCompressedJson(mock.s3, target)).toEqual(value)
+	})
+
+	it('resumes an interrupted multipart upload with the parts already stored', async () => {
+		const value = createLargeValue()
+		mock.failingParts.add(3)
+
+		await expect(uploadCompressedJson(mock.s3, target, value, { partSize: 256 })).rejects.toThrow('NetworkingError')
+		expect(localStorage.getItem(`s3_upload_${target.bucket}/${target.key}`)).not.toBeNull()
+
+		mock.client.uploadPart.mockClear()
+		await uploadCompressedJson(mock.s3, target, value, { partSize: 256 })
+
+		const resumedParts = mock.client.uploadPart.mock.calls.map(([params]) => params.PartNumber)
+		expect(resumedParts[0]).toBe(3)
+		expect(mock.client.createMultipartUpload).toHaveBeenCalledTimes(1)
+		expect(localStorage.getItem(`s3_upload_${target.bucket}/${target.key}`)).toBeNull()
+		expect(await downloadCompressedJson(mock.s3, target)).toEqual(value)
+	})
+
+	it('starts over when the unfinished upload was for other content', async () => {
+		mock.failingParts.add(2)
+		await expect(uploadCompressedJson(mock.s3, target, createLargeValue(), { partSize: 256 })).rejects.toThrow()
+
+		const value = createLargeValue()
+		await uploadCompressedJson(mock.s3, target, value, { partSize: 256 })
+
+		expect(mock.client.abortMultipartUpload).toHaveBeenCalledTimes(1)
+		expect(mock.client.createMultipartUpload).toHaveBeenCalledTimes(2)
+		expect(await downloadCompressedJson(mock.s3, target)).toEqual(value)
+	})
+
+	it('names the CORS configuration when the bucket hides the headers to verify an upload', async () => {
+		mock.cors.exposeHeaders = false
+
+		await expect(uploadCompressedJson(mock.s3, target, { id: 'p1' })).rejects.toMatchObject({
+			name: 'HeadersNotExposed',
+			message: expect.stringContaining('ExposeHeaders'),
+		})
+	})
+
+	it('rejects downloads whose checksum does not match', async () => {
+		await uploadCompressedJson(mock.s3, target, { id: 'p1' })
+		const stored = mock.objects.get(target.key)?.[0]
+		stored?.body.set([(stored.body.at(10) ?? 0) ^ 0xff], 10)
+
+		await expect(downloadCompressedJson(mock.s3, target)).rejects.toMatchObject({ name: 'ChecksumMismatch' })
+	})
+
+	it('rejects data that is not gzip instead of leaving the stream error unhandled', async () => {
+		await expect(gunzipJson(new TextEncoder().encode('not gzip'))).rejects.toThrow()
+	})
+
+	it('lists object versions and restores an earlier one', async () => {
+		await uploadCompressedJson(mock.s3, target, { id: 'p1', name: 'First' })
+		await uploadCompressedJson(mock.s3, target, { id: 'p1', name: 'Second' })
+		await uploadCompressedJson(mock.s3, { ...target, key: `${target.key}.bak` }, { id: 'other' })
+
+		const versions = await listObjectVersions(mock.s3, target)
+		expect(versions.map((version) => [version.versionId, version.isLatest])).toEqual([
+			['v2', true],
+			['v1', false],
+		])
+
+		const restored = await restoreObjectVersion(mock.s3, target, 'v1')
+
+		expect(restored).toBe('v4')
+		expect(await downloadCompressedJson(mock.s3, target)).toEqual({ id: 'p1', name: 'First' })
+		expect(await downloadCompressedJson(mock.s3, target, 'v2')).toEqual({ id: 'p1', name: 'Second' })
+		expect(await listObjectVersions(mock.s3, target)).toHaveLength(3)
+	})
+})
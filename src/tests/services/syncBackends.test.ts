@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import projectRepository from '../../services/ProjectRepository'
+import s3Service from '../../services/S3Service'
+import { searchService } from '../../services/SearchService'
+import { storageSyncService } from '../../services/StorageSyncService'
+import { getSyncBackend, webdavBackend } from '../../services/sync'
+import type { Project, SyncSettings } from '../../types/project'
+import { createProject } from '../fixtures'
+
+const mocks = vi.hoisted(() => ({
+	online: true,
+	syncQueue: new Map<string, { type: string; payload: unknown }>(),
+	handlers: new Map<string, (payload: unknown) => Promise<void>>(),
+	syncBase: null as unknown,
+	storedProject: null as unknown,
+}))
+
+vi.mock('../../services/CredentialVaultService', () => ({
+	default: { getCredentials: vi.fn(() => ({ webdavPassword: 'pässword' })) },
+}))
+
+vi.mock('../../services/OfflineService', () => ({
+	default: {
+		getOnlineStatus: vi.fn(() => mocks.online),
+		enqueue: vi.fn((type: string, payload: { projectId: string }) =>
+			mocks.syncQueue.set(`${type}:${payload.projectId}`, { type, payload }),
+		),
+		registerCommandHandler: vi.fn((type: string, handler: (payload: unknown) => Promise<void>) =>
+			mocks.handlers.set(type, handler),
+		),
+	},
+}))
+
+vi.mock('../../services/ProjectRepository', () => ({
+	default: {
+		getSyncBase: vi.fn(async () => mocks.syncBase),
+		saveSyncBase: vi.fn(async (project: unknown) => {
+			mocks.syncBase = project
+		}),
+		get: vi.fn(async () => mocks.storedProject),
+		save: vi.fn(),
+		addConflictRecord: vi.fn(),
+	},
+}))
+
+vi.mock('../../services/SearchService', () => ({
+	searchService: { indexProject: vi.fn() },
+}))
+
+vi.mock('../../services/ChatHistoryService', () => ({
+	default: { getThreads: vi.fn(async () => []), importThreads: vi.fn(async () => 0) },
+}))
+
+vi.mock('../../services/IndexedDBService', () => ({
+	default: { getSetting: vi.fn(async () => null), saveSetting: vi.fn() },
+}))
+
+vi.mock('../../services/S3Service', () => ({
+	default: { isConfigured: vi.fn(() => false), downloadProject: vi.fn(), uploadProject: vi.fn() },
+}))
+
+vi.mock('../../services/LoggerService', () => ({
+	default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const settings: SyncSettings = {
+	enableS3Sync: true,
+	syncFrequency: 'manual',
+	autoSave: true,
+	backend: 'webdav',
+	webdavUrl: 'https://cloud.example.com/remote.php/dav/files/me/Brainstorming',
+	webdavUsername: 'me',
+}
+
+const createSyncedProject = (name = 'Launch'): Project => createProject({ id: 'p1', name, syncSettings: settings })
+
+const fileUrl = `${settings.webdavUrl}/p1.json`
+
+describe('sync backends', () => {
+	const fetchMock = vi.fn<typeof fetch>()
+
+	beforeEach(() => {
+		fetchMock.mockReset()
+		vi.stubGlobal('fetch', fetchMock)
+		mocks.online = true
+		mocks.syncQueue.clear()
+		mocks.syncBase = null
+		mocks.storedProject = null
+	})
+
+	it('falls back to S3 for projects without a backend', () => {
+		expect(getSyncBackend().id).toBe('s3')
+		expect(getSyncBackend('localFolder').requiresNetwork).toBe(false)
+	})
+
+	it('reads a project file from WebDAV with basic auth', async () => {
+		fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(createSyncedProject()), { status: 200 }))
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }))
+
+		expect(await webdavBackend.download('p1', settings)).toMatchObject({ id: 'p1', name: 'Launch' })
+		expect(await webdavBackend.download('p1', settings)).toBeNull()
+
+		const [url, init] = fetchMock.mock.calls[0] ?? []
+		expect(url).toBe(fileUrl)
+		const auth = new Headers(init?.headers).get('Authorization') ?? ''
+		const decoded = new TextDecoder().decode(Uint8Array.from(atob(auth.replace('Basic ', '')), (c) => c.charCodeAt(0)))
+		expect(decoded).toBe('me:pässword')
+	})
+
+	it('creates the WebDAV folder when it is missing', async () => {
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 409 }))
+			.mockResolvedValueOnce(new Response(null, { status: 201 }))
+			.mockResolvedValueOnce(new Response(null, { status: 201 }))
+
+		await webdavBackend.upload(createSyncedProject(), settings)
+
+		expect(fetchMock.mock.calls.map(([url, init]) => [init?.method, url])).toEqual([
+			['PUT', fileUrl],
+			['MKCOL', `${settings.webdavUrl}/`],
+			['PUT', fileUrl],
+		])
+	})
+
+	it('is not ready without a folder URL and user', async () => {
+		expect(await webdavBackend.isReady('p1', settings)).toBe(true)
+		expect(await webdavBackend.isReady('p1', { ...settings, webdavUrl: 'not a url' })).toBe(false)
+		expect(await webdavBackend.isReady('p1', { ...settings, webdavUsername: '' })).toBe(false)
+	})
+
+	it('syncs through the backend chosen in the sync settings', async () => {
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValueOnce(new Response(null, { status: 201 }))
+
+		expect(await storageSyncService.syncProject(createSyncedProject())).toBe(true)
+
+		const [url, init] = fetchMock.mock.calls[1] ?? []
+		expect(url).toBe(fileUrl)
+		expect(JSON.parse(String(init?.body))).toMatchObject({ id: 'p1', chatThreads: [] })
+		expect(mocks.syncBase).toMatchObject({ id: 'p1' })
+	})
+
+	it('takes a remote rename instead of overwriting it', async () => {
+		mocks.syncBase = createSyncedProject()
+		fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(createSyncedProject('Relaunch')), { status: 200 }))
+
+		expect(await storageSyncService.syncProject(createSyncedProject())).toBe(true)
+
+		expect(fetchMock).toHaveBeenCalledTimes(1)
+		expect(vi.mocked(projectRepository.save)).toHaveBeenCalledWith(
+			expect.objectContaining({ name: 'Relaunch' }),
+			expect.objectContaining({ action: 'sync' }),
+		)
+		expect(vi.mocked(searchService.indexProject)).toHaveBeenCalledWith(expect.objectContaining({ name: 'Relaunch' }))
+	})
+
+	it('keeps the sync base when the upload fails', async () => {
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValueOnce(new Response(null, { status: 507, statusText: 'Insufficient Storage' }))
+
+		expect(await storageSyncService.syncProject(createSyncedProject())).toBe(false)
+		expect(mocks.syncBase).toBeNull()
+	})
+
+	it('stops without pushing when the stored version cannot be read', async () => {
+		vi.mocked(s3Service.isConfigured).mockReturnValue(true)
+		vi.mocked(s3Service.downloadProject).mockRejectedValueOnce(new Error('Access Denied'))
+		const project = { ...createSyncedProject(), syncSettings: { ...settings, backend: 's3' as const } }
+
+		expect(await storageSyncService.syncProject(project)).toBe(false)
+
+		expect(vi.mocked(s3Service.uploadProject)).not.toHaveBeenCalled()
+		expect(mocks.syncBase).toBeNull()
+	})
+
+	it('queues one sync per project while offline and runs it with the stored version', async () => {
+		mocks.online = false
+
+		expect(await storageSyncService.syncProject(createSyncedProject('First'))).toBe(false)
+		expect(await storageSyncService.syncProject(createSyncedProject('Second'))).toBe(false)
+		expect([...mocks.syncQueue.values()]).toEqual([{ type: 'project.sync', payload: { projectId: 'p1' } }])
+		expect(fetchMock).not.toHaveBeenCalled()
+
+		mocks.online = true
+		mocks.storedProject = createSyncedProject('Second')
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 404 }))
+			.mockResolvedValueOnce(new Response(null, { status: 201 }))
+		await mocks.handlers.get('project.sync')?.({ projectId: 'p1' })
+
+		const [, init] = fetchMock.mock.calls[1] ?? []
+		expect(JSON.parse(String(init?.body))).toMatchObject({ name: 'Second' })
+	})
+})
@@ -4,6 +4,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { CustomNodeType, CustomEdge } from '../../components/BrainstormFlow/types'
 import projectService from '../../services/ProjectService'
 import { useBrainstormStore } from '../../store/brainstormStore'
+import { MAX_HISTORY_ENTRIES } from '../../store/canvasHistory'
 import type { Project } from '../../types'
 import { NodeType , EdgeType } from '../../types/enums'
 import { ProjectTemplate } from '../../types/project'
@@ -30,6 +31,9 @@ describe('brainstormStore', () => {
 				activeStep: -1,
 				activeTab: 1,
 				autoSave: true,
+				past: [],
+				future: [],
+				historyBatch: null,
 			})
 		})
 		// Clear mocks
@@ -49,6 +53,9 @@ describe('brainstormStore', () => {
 				activeStep: -1,
 				activeTab: 1,
 				autoSave: true,
+				past: [],
+				future: [],
+				historyBatch: null,
 			})
 			// Ensure zustand store is properly reset
 			useBrainstormStore.destroy()
@@ -304,4 +311,205 @@ describe('brainstormStore', () => {
 			expect(finalState.isLoading).toBe(false)
 		})
 	})
+
+	describe('history', () => {
+		const titles = () => useBrainstormStore.getState().nodes.map((node) => node.data.title)
+
+		const addIdea = (label: string, x = 0) =>
+			useBrainstormStore.getState().addNode({ type: NodeType.IDEA, label, position: { x, y: 0 } })
+
+		it('undoes and redoes adding and removing nodes', () => {
+			addIdea('First')
+			addIdea('Second')
+			const [first, second] = useBrainstormStore.getState().nodes
+			useBrainstormStore.getState().addEdge(first!.id, second!.id)
+			useBrainstormStore.getState().removeNode(first!.id)
+
+			expect(titles()).toEqual(['Second'])
+			expect(useBrainstormStore.getState().edges).toHaveLength(0)
+
+			useBrainstormStore.getState().undo()
+			// The node comes back at its old place together with its edge
+			expect(titles()).toEqual(['First', 'Second'])
+			expect(useBrainstormStore.getState().edges).toHaveLength(1)
+
+			useBrainstormStore.getState().undo(2)
+			expect(titles()).toEqual(['First'])
+			expect(useBrainstormStore.getState().edges).toHaveLength(0)
+
+			useBrainstormStore.getState().redo(3)
+			expect(titles()).toEqual(['Second'])
+			expect(useBrainstormStore.getState().future).toHaveLength(0)
+		})
+
+		it('drops the redo stack on a new change', () => {
+			addIdea('First')
+			useBrainstormStore.getState().undo()
+			expect(useBrainstormStore.getState().future).toHaveLength(1)
+
+			addIdea('Second')
+			expect(useBrainstormStore.getState().future).toHaveLength(0)
+			useBrainstormStore.getState().redo()
+			expect(titles()).toEqual(['Second'])
+		})
+
+		it('coalesces quick edits of the same node', () => {
+			addIdea('Draft')
+			const nodeId = useBrainstormStore.getState().nodes[0]!.id
+
+			useBrainstormStore.getState().updateNodeData(nodeId, { title: 'D' })
+			vi.advanceTimersByTime(200)
+			useBrainstormStore.getState().updateNodeData(nodeId, { title: 'Do' })
+			vi.advanceTimersByTime(5000)
+			useBrainstormStore.getState().updateNodeData(nodeId, { title: 'Done' })
+
+			expect(useBrainstormStore.getState().past.map((entry) => entry.action)).toEqual([
+				'addNode',
+				'editNode',
+				'editNode',
+			])
+			useBrainstormStore.getState().undo()
+			expect(titles()).toEqual(['Do'])
+			useBrainstormStore.getState().undo()
+			expect(titles()).toEqual(['Draft'])
+		})
+
+		it('records a batch as a single step', () => {
+			addIdea('First', 0)
+			addIdea('Second', 100)
+			const ids = useBrainstormStore.getState().nodes.map((node) => node.id)
+			const store = useBrainstormStore.getState()
+
+			store.beginBatch('moveNodes')
+			for (const offset of [10, 20, 30]) {
+				store.updateNodePositions(ids.map((id, index) => ({ id, position: { x: index * 100 + offset, y: offset } })))
+			}
+			// Nothing is recorded until the batch ends
+			expect(useBrainstormStore.getState().past).toHaveLength(2)
+			store.endBatch()
+
+			expect(useBrainstormStore.getState().past).toHaveLength(3)
+			expect(useBrainstormStore.getState().past[2]!.action).toBe('moveNodes')
+			useBrainstormStore.getState().undo()
+			expect(useBrainstormStore.getState().nodes.map((node) => node.position)).toEqual([
+				{ x: 0, y: 0 },
+				{ x: 100, y: 0 },
+			])
+		})
+
+		it('drops an open batch when another project is opened', () => {
+			addIdea('First', 0)
+			useBrainstormStore.getState().beginBatch('resizeGroup')
+
+			useBrainstormStore.getState().setProjectId('other-project')
+
+			expect(useBrainstormStore.getState().historyBatch).toBeNull()
+		})
+
+		it('groups, collapses and ungroups nodes as undoable steps', () => {
+			addIdea('First', 0)
+			addIdea('Second', 300)
+			const ids = useBrainstormStore.getState().nodes.map((node) => node.id)
+
+			const groupId = useBrainstormStore.getState().groupNodes(ids, 'Phase')
+			expect(groupId).toBeDefined()
+			expect(titles()).toEqual(['Phase', 'First', 'Second'])
+			expect(useBrainstormStore.getState().nodes.filter((node) => node.parentId === groupId)).toHaveLength(2)
+
+			useBrainstormStore.getState().toggleGroupCollapsed(groupId!)
+			expect(useBrainstormStore.getState().nodes[0]!.data.collapsed).toBe(true)
+
+			// Removing a group keeps its members
+			useBrainstormStore.getState().removeNode(groupId!)
+			expect(titles()).toEqual(['First', 'Second'])
+			expect(useBrainstormStore.getState().nodes.map((node) => node.position.x)).toEqual([0, 300])
+
+			expect(useBrainstormStore.getState().past.map((entry) => entry.action).slice(-3)).toEqual([
+				'groupNodes',
+				'collapseGroup',
+				'removeNode',
+			])
+			useBrainstormStore.getState().undo(2)
+			expect(titles()).toEqual(['Phase', 'First', 'Second'])
+			expect(useBrainstormStore.getState().nodes[0]!.data.collapsed).not.toBe(true)
+			useBrainstormStore.getState().undo()
+			expect(useBrainstormStore.getState().nodes.every((node) => node.parentId === undefined)).toBe(true)
+		})
+
+		it('cuts a group with its members and pastes it back as single steps', () => {
+			addIdea('First', 0)
+			addIdea('Second', 300)
+			const [first, second] = useBrainstormStore.getState().nodes
+			useBrainstormStore.getState().addEdge(first!.id, second!.id)
+			const groupId = useBrainstormStore.getState().groupNodes([first!.id], 'Phase')!
+
+			const { nodes, edges } = useBrainstormStore.getState()
+			const group = nodes.filter((node) => node.id === groupId || node.parentId === groupId)
+			useBrainstormStore.getState().cutNodes([groupId])
+			expect(titles()).toEqual(['Second'])
+			expect(useBrainstormStore.getState().edges).toHaveLength(0)
+
+			useBrainstormStore.getState().pasteNodes(group, edges)
+			expect(titles()).toEqual(['Second', 'Phase', 'First'])
+			expect(useBrainstormStore.getState().nodes.filter((node) => node.selected === true)).toHaveLength(2)
+
+			expect(useBrainstormStore.getState().past.map((entry) => entry.action).slice(-2)).toEqual(['cutNodes', 'pasteNodes'])
+			useBrainstormStore.getState().undo()
+			expect(titles()).toEqual(['Second'])
+		})
+
+		it('applies the accepted changes of a graph diff as a single step', () => {
+			addIdea('First', 0)
+			addIdea('Second', 300)
+			const [first, second] = useBrainstormStore.getState().nodes
+
+			useBrainstormStore.getState().applyGraphDiff(
+				{
+					id: 'diff',
+					operation: 'expand',
+					nodeIds: [first!.id, second!.id],
+					changes: [
+						{ kind: 'add', id: 'add:x', node: { id: 'x', title: 'Child', content: 'Detail', type: NodeType.IDEA } },
+						{ kind: 'add', id: 'add:y', node: { id: 'y', title: 'Rejected', content: '', type: NodeType.IDEA } },
+						{
+							kind: 'update',
+							id: `update:${second!.id}`,
+							nodeId: second!.id,
+							before: { title: 'Second', content: '' },
+							after: { title: 'Second, clearer', content: 'Reworded' },
+						},
+						{ kind: 'group', id: 'group:0', title: 'Theme', nodeIds: [first!.id] },
+					],
+					edges: [
+						{ source: first!.id, target: 'x' },
+						{ source: first!.id, target: 'y' },
+					],
+				},
+				['add:x', `update:${second!.id}`, 'group:0'],
+			)
+
+			expect(titles()).toEqual(['Theme', 'First', 'Second, clearer', 'Child'])
+			const child = useBrainstormStore.getState().nodes[3]!
+			expect(useBrainstormStore.getState().edges.map((edge) => [edge.source, edge.target])).toEqual([
+				[first!.id, child.id],
+			])
+
+			expect(useBrainstormStore.getState().past.at(-1)!.action).toBe('applyGraphDiff')
+			useBrainstormStore.getState().undo()
+			expect(titles()).toEqual(['First', 'Second'])
+			expect(useBrainstormStore.getState().edges).toHaveLength(0)
+		})
+
+		it('caps the undo stack', () => {
+			for (let index = 0; index <= MAX_HISTORY_ENTRIES; index++) {
+				addIdea(`Node ${index}`)
+			}
+
+			const { past } = useBrainstormStore.getState()
+			expect(past).toHaveLength(MAX_HISTORY_ENTRIES)
+			useBrainstormStore.getState().undo(MAX_HISTORY_ENTRIES)
+			// The first node is beyond the history
+			expect(titles()).toEqual(['Node 0'])
+		})
+	})
 })
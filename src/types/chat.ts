@@ -1,5 +1,20 @@
 import type { NodeData, NodeType } from './index'
 
+/**
+ * Token counts reported at the end of a completion
+ */
+export interface TokenUsage {
+	promptTokens: number
+	completionTokens: number
+	totalTokens: number
+}
+
+/**
+ * How a streamed reply ended. `stopped` replies were cancelled by the user,
+ * `interrupted` ones lost the connection and hold the partial text.
+ */
+export type ChatMessageStatus = 'streaming' | 'complete' | 'stopped' | 'interrupted'
+
 /**
  * Chat message structure
  */
@@ -8,24 +23,66 @@ export interface ChatMessage {
 	role: 'user' | 'assistant' | 'system'
 	content: string
 	timestamp: string
+	status?: ChatMessageStatus
+	usage?: TokenUsage
+	/** IDs of the project nodes an assistant reply cites */
+	citations?: string[]
+}
+
+/**
+ * A named conversation of a project, optionally about one node
+ */
+export interface ChatThread {
+	id: string
+	projectId: string
+	title: string
+	/** Node the thread is attached to */
+	nodeId?: string
+	messages: ChatMessage[]
+	createdAt: string
+	updatedAt: string
+}
+
+/**
+ * A project file or synced copy of a project, which carries its chat threads
+ */
+export interface WithChatThreads {
+	chatThreads?: ChatThread[]
 }
 
 /**
  * Structure for a node suggestion from the chat
  */
 export interface NodeSuggestion {
+	/**
+	 * What edges refer to the node by: the node ID of existing nodes, an ID
+	 * made up by the model for suggested ones
+	 */
+	id?: string
 	title: string
 	content: string
 	type: NodeType
 	tags?: string[]
 }
 
+/**
+ * A suggested connection between suggested or existing nodes, referred to by
+ * their suggestion IDs
+ */
+export interface EdgeSuggestion {
+	source: string
+	target: string
+	label?: string
+}
+
 /**
  * Structure for a complete set of node suggestions from the chat
  */
 export interface ChatSuggestion {
 	id: string
 	nodes: NodeSuggestion[]
+	/** Connections among the suggested nodes and to existing ones */
+	edges?: EdgeSuggestion[]
 	originalMessage: string
 	timestamp: string
 	accepted: boolean
@@ -36,6 +93,7 @@ export interface ChatSuggestion {
  */
 export function createNodeSuggestionFromNodeData(nodeData: NodeData, type: NodeType): NodeSuggestion {
 	return {
+		id: nodeData.id,
 		title: nodeData.title || nodeData.label || '',
 		content: nodeData.content || '',
 		type,
@@ -43,6 +101,29 @@ export function createNodeSuggestionFromNodeData(nodeData: NodeData, type: NodeT
 	}
 }
 
+/**
+ * Translates suggested edges to the IDs of the nodes created from the
+ * suggestion. Edges to suggested nodes that were not accepted are left out.
+ * @param suggestion Suggestion holding the edges
+ * @param createdIds Node ID created for each accepted suggestion ID
+ * @returns Edges between existing nodes
+ */
+export function resolveSuggestedEdges(
+	suggestion: Pick<ChatSuggestion, 'nodes' | 'edges'>,
+	createdIds: Map<string, string>,
+): EdgeSuggestion[] {
+	const suggestedIds = new Set(suggestion.nodes.map((node) => node.id).filter((id) => id !== undefined))
+	// Anything that isn't a suggested node is the ID of an existing one
+	const resolve = (id: string) => createdIds.get(id) ?? (suggestedIds.has(id) ? undefined : id)
+
+	return (suggestion.edges ?? []).flatMap((edge) => {
+		const source = resolve(edge.source)
+		const target = resolve(edge.target)
+		if (source === undefined || target === undefined) return []
+		return [{ ...edge, source, target }]
+	})
+}
+
 /**
  * Create a node data from node suggestion
  */
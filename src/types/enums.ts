@@ -4,6 +4,8 @@ export enum NodeType {
 	TASK = 'task',
 	NOTE = 'note',
 	RESOURCE = 'resource',
+	// Frame holding other nodes, see `Node.parentId`
+	GROUP = 'group',
 }
 
 // Edge types
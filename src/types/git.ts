@@ -0,0 +1,67 @@
+// Content-addressed project history
+
+export type GitObjectKind = 'meta' | 'node' | 'edge'
+
+/**
+ * Immutable blob addressed by the SHA-256 hash of its content.
+ * Identical nodes or edges in different commits share one blob.
+ */
+export interface GitObject {
+	hash: string
+	kind: GitObjectKind
+	content: unknown
+}
+
+export interface GitTreeEntry {
+	id: string
+	hash: string
+}
+
+/**
+ * Snapshot of a project at a commit: the project metadata blob plus ordered
+ * node and edge blobs
+ */
+export interface GitTree {
+	meta: string
+	nodes: GitTreeEntry[]
+	edges: GitTreeEntry[]
+}
+
+export interface GitCommit {
+	id: string
+	projectId: string
+	parents: string[]
+	tree: GitTree
+	message: string
+	author: string
+	timestamp: string
+	version: string
+}
+
+export type GitRefType = 'branch' | 'tag' | 'head'
+
+/**
+ * Named pointer into the commit graph. Branches and tags point at a commit;
+ * HEAD points at a branch name, or at a commit when detached.
+ */
+export interface GitRef {
+	projectId: string
+	type: GitRefType
+	name: string
+	target: string
+	detached?: boolean
+}
+
+export interface GitChangeSet {
+	added: string[]
+	removed: string[]
+	modified: string[]
+}
+
+export interface GitDiff {
+	from: string
+	to: string
+	metaChanged: boolean
+	nodes: GitChangeSet
+	edges: GitChangeSet
+}
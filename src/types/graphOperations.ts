@@ -0,0 +1,62 @@
+import type { EdgeSuggestion, NodeSuggestion } from './chat'
+
+/**
+ * What the assistant can do with the selected nodes
+ */
+export type GraphOperation = 'expand' | 'summarize' | 'cluster' | 'critique' | 'rewrite'
+
+/**
+ * All graph operations, in the order offered in menus
+ */
+export const GRAPH_OPERATIONS: readonly GraphOperation[] = ['expand', 'summarize', 'cluster', 'critique', 'rewrite']
+
+/**
+ * A node the assistant wants to add; edges refer to it by `node.id`
+ */
+export interface GraphNodeAddition {
+	kind: 'add'
+	id: string
+	node: NodeSuggestion & { id: string }
+}
+
+/**
+ * New title and content for an existing node
+ */
+export interface GraphNodeUpdate {
+	kind: 'update'
+	id: string
+	nodeId: string
+	before: { title: string; content: string }
+	after: { title: string; content: string }
+}
+
+/**
+ * Existing nodes the assistant wants to put into a new group
+ */
+export interface GraphNodeGrouping {
+	kind: 'group'
+	id: string
+	title: string
+	nodeIds: string[]
+}
+
+/**
+ * One change of a graph diff, accepted or rejected on its own
+ */
+export type GraphChange = GraphNodeAddition | GraphNodeUpdate | GraphNodeGrouping
+
+/**
+ * Result of a graph operation, previewed before it is applied to the canvas
+ */
+export interface GraphDiff {
+	id: string
+	operation: GraphOperation
+	/** Nodes the operation ran on */
+	nodeIds: string[]
+	changes: GraphChange[]
+	/**
+	 * Connections between added and existing nodes. Edges to an added node are
+	 * only applied when that node is accepted.
+	 */
+	edges: EdgeSuggestion[]
+}
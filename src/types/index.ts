@@ -14,14 +14,47 @@ export type {
 } from './models'
 
 // Chat types
-export type { ChatMessage, NodeSuggestion, ChatSuggestion } from './chat'
+export type { ChatMessage, ChatMessageStatus, ChatThread, WithChatThreads, NodeSuggestion, EdgeSuggestion, ChatSuggestion, TokenUsage } from './chat'
 
-export { createNodeSuggestionFromNodeData, createNodeDataFromSuggestion } from './chat'
+export { createNodeSuggestionFromNodeData, createNodeDataFromSuggestion, resolveSuggestedEdges } from './chat'
+
+// Snippet library types
+export type { Snippet, SnippetRef, SnippetRevision } from './snippet'
+
+// AI graph operation types
+export type {
+	GraphOperation,
+	GraphNodeAddition,
+	GraphNodeUpdate,
+	GraphNodeGrouping,
+	GraphChange,
+	GraphDiff,
+} from './graphOperations'
+
+export { GRAPH_OPERATIONS } from './graphOperations'
+
+// LLM provider types
+export type { LLMProviderId, ModelChoice, ProviderCapabilities } from './llm'
+
+export { LLMProviderIdSchema, ModelChoiceSchema } from './llm'
 
 // Project types
-export type { Project } from './project'
+export type { Project, SyncBackendId, SyncSettings } from './project'
 
-export { createEmptyProject, isValidProject, normalizeProjectVersion, DEFAULT_PROJECT_VERSION } from './project'
+export { SyncBackendIdSchema, createEmptyProject, isValidProject, normalizeProjectVersion, DEFAULT_PROJECT_VERSION } from './project'
+
+// Git history types
+export type {
+	GitObjectKind,
+	GitObject,
+	GitTreeEntry,
+	GitTree,
+	GitCommit,
+	GitRefType,
+	GitRef,
+	GitChangeSet,
+	GitDiff,
+} from './git'
 
 // Flow types
 export type {
@@ -65,6 +98,7 @@ export const NodeColors: Record<NodeType, string> = {
 	[NodeType.TASK]: '#e8f5e9',
 	[NodeType.NOTE]: '#fff8e1',
 	[NodeType.RESOURCE]: '#f3e5f5',
+	[NodeType.GROUP]: '#eceff1',
 } as const
 
 export const NodeSizeConfig = {
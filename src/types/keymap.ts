@@ -0,0 +1,57 @@
+/**
+ * Actions that can be bound to keys. Canvas components register the handlers,
+ * the keymap decides which keys run them.
+ */
+export type KeymapActionId =
+	| 'view.zoomIn'
+	| 'view.zoomOut'
+	| 'view.fitView'
+	| 'view.toggleGrid'
+	| 'view.toggleFullscreen'
+	| 'view.toggleChat'
+	| 'edit.addNode'
+	| 'edit.delete'
+	| 'edit.group'
+	| 'edit.ungroup'
+	| 'edit.autoLayout'
+	| 'edit.copy'
+	| 'edit.cut'
+	| 'edit.paste'
+	| 'history.undo'
+	| 'history.redo'
+	| 'general.save'
+	| 'general.showShortcuts'
+	| 'general.help'
+	| 'navigation.projects'
+	| 'navigation.settings'
+	| 'navigation.home'
+
+export type KeymapCategory = 'navigation' | 'view' | 'editing' | 'history' | 'general'
+
+export interface KeymapAction {
+	id: KeymapActionId
+	/** Translation key of the action's name */
+	labelKey: string
+	category: KeymapCategory
+	/** Let the browser handle the key as well, e.g. Backspace in a page */
+	allowDefault?: boolean
+	/** Run by the browser on its own keys, e.g. the clipboard, so it can't be rebound */
+	fixed?: boolean
+}
+
+/**
+ * Key bindings per action. A binding is one or more keystrokes separated by
+ * spaces, e.g. 'Ctrl+Shift+Z' or the chord 'G P'.
+ */
+export type Keymap = Record<KeymapActionId, string[]>
+
+export type KeymapPresetId = 'default' | 'vim' | 'miro'
+
+/**
+ * What a user changed: the preset they started from and the actions they
+ * bound differently
+ */
+export interface KeymapSettings {
+	preset: KeymapPresetId
+	bindings: Partial<Keymap>
+}
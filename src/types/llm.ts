@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+/**
+ * LLM APIs the assistant can talk to. `openai-compatible` covers OpenAI itself
+ * and local servers such as Ollama, llama.cpp server and LM Studio.
+ */
+export const LLMProviderIdSchema = z.enum(['openrouter', 'openai-compatible', 'anthropic'])
+
+export type LLMProviderId = z.infer<typeof LLMProviderIdSchema>
+
+/**
+ * Provider and model used for a request, e.g. the model chosen for a project
+ */
+export const ModelChoiceSchema = z.object({
+	provider: LLMProviderIdSchema,
+	model: z.string().min(1),
+})
+
+export type ModelChoice = z.infer<typeof ModelChoiceSchema>
+
+/**
+ * What a provider supports for a model
+ */
+export interface ProviderCapabilities {
+	/** Replies can be streamed as server-sent events */
+	streaming: boolean
+	/** The API can be asked to answer with a JSON object only */
+	jsonMode: boolean
+	/** Context window in tokens */
+	contextWindow: number
+}
@@ -1,6 +1,7 @@
 import type { ReactNode } from 'react'
 
 import { NodeType, EdgeType, ThemeMode, LogLevel, LogCategory, NodeSize } from './enums'
+import type { SnippetRef } from './snippet'
 
 // Basic node types
 export interface NodeData {
@@ -14,6 +15,8 @@ export interface NodeData {
 	createdAt: string
 	updatedAt: string
 	label?: string // For backward compatibility
+	collapsed?: boolean // Groups only: shown as a summary chip with members hidden
+	snippet?: SnippetRef // Library snippet the node was placed from
 }
 
 export interface Node {
@@ -26,6 +29,8 @@ export interface Node {
 	}
 	style?: Record<string, unknown>
 	selected?: boolean
+	// Group the node belongs to; its position is then relative to the group
+	parentId?: string
 }
 
 export interface Edge {
@@ -1,5 +1,7 @@
 import { z } from 'zod'
 
+import { ModelChoiceSchema } from './llm'
+
 import type { Node, Edge } from '.'
 
 export enum ProjectTemplate {
@@ -10,8 +12,20 @@ export enum ProjectTemplate {
 	CUSTOM = 'custom',
 }
 
+/** Where a project is synced to */
+export const SyncBackendIdSchema = z.enum(['s3', 'webdav', 'localFolder'])
+
+export type SyncBackendId = z.infer<typeof SyncBackendIdSchema>
+
 export const SyncSettingsSchema = z.object({
 	enableS3Sync: z.boolean(),
+	/** Sync backend, S3 when not set */
+	backend: SyncBackendIdSchema.optional(),
+	/** Folder URL on the WebDAV server, e.g. a Nextcloud folder */
+	webdavUrl: z.string().optional(),
+	webdavUsername: z.string().optional(),
+	/** Name of the local folder picked for the project, for display only */
+	localFolderName: z.string().optional(),
 	syncFrequency: z.enum(['manual', 'onSave', 'interval']),
 	intervalMinutes: z.number().optional(),
 	lastSyncedAt: z.string().optional(),
@@ -33,6 +47,14 @@ export const ProjectSchema = z.object({
 	edges: z.array(z.custom<Edge>()),
 	syncSettings: SyncSettingsSchema,
 	isPinned: z.boolean().default(false),
+	/** Free-form labels, kept normalized by normalizeTags */
+	tags: z.array(z.string()).optional(),
+	/** Category path, levels separated by '/', e.g. 'Clients/Acme' */
+	category: z.string().optional(),
+	/** Set by the storage whenever the project is opened */
+	lastAccessedAt: z.string().optional(),
+	/** Assistant model for this project, instead of the default from the settings */
+	modelChoice: ModelChoiceSchema.optional(),
 })
 
 export type Project = z.infer<typeof ProjectSchema>
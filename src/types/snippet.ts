@@ -0,0 +1,38 @@
+import type { SubgraphPayload } from '../utils/subgraphClipboard'
+
+/**
+ * Link from a placed node back to the library snippet it came from
+ */
+export interface SnippetRef {
+	snippetId: string
+	/** Snippet version the node was placed from or last updated to */
+	version: number
+	/** Node of the snippet the placed node is a copy of */
+	sourceNodeId: string
+}
+
+/**
+ * Earlier content of a snippet, kept when it is edited
+ */
+export interface SnippetRevision {
+	version: number
+	content: SubgraphPayload
+	savedAt: string
+}
+
+/**
+ * Node or small subgraph saved to the personal library for reuse on any canvas
+ */
+export interface Snippet {
+	id: string
+	name: string
+	description: string
+	tags: string[]
+	/** Bumped whenever the nodes or edges change */
+	version: number
+	content: SubgraphPayload
+	/** Earlier versions, newest first */
+	history: SnippetRevision[]
+	createdAt: string
+	updatedAt: string
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+
+import { NodeType } from '../../types/enums'
+import {
+	LOD_NODE_TYPE,
+	selectVisibleElements,
+	syncSpatialIndex,
+	toLevelOfDetail,
+	viewportToRect,
+} from '../canvasVirtualization'
+import { SpatialIndex } from '../spatialIndex'
+
+interface TestNode {
+	id: string
+	type?: string
+	position: { x: number; y: number }
+	parentId?: string
+	selected?: boolean
+	width?: number
+	height?: number
+	style?: object
+}
+
+const node = (id: string, x: number, y: number, fields: Partial<TestNode> = {}): TestNode => ({
+	id,
+	type: NodeType.IDEA,
+	position: { x, y },
+	width: 100,
+	height: 50,
+	...fields,
+})
+
+const edge = (source: string, target: string) => ({ id: `${source}-${target}`, source, target })
+
+const ids = (items: Array<{ id: string }>) => items.map((item) => item.id)
+
+const viewportArea = { x: 0, y: 0, width: 1000, height: 1000 }
+
+describe('canvasVirtualization', () => {
+	it('turns the viewport into the shown area of the canvas', () => {
+		expect(viewportToRect({ x: -200, y: 100, zoom: 2 }, 800, 600)).toEqual({ x: 100, y: -50, width: 400, height: 300 })
+	})
+
+	it('keeps the index in step with moved and removed nodes', () => {
+		const index = new SpatialIndex()
+		const nodes = [node('a', 0, 0), node('b', 2000, 0)]
+		expect(syncSpatialIndex(index, nodes)).toBe(true)
+		expect(syncSpatialIndex(index, nodes)).toBe(false)
+
+		syncSpatialIndex(index, [node('a', 3000, 0)])
+		expect(index.get('a')).toEqual({ x: 3000, y: 0, width: 100, height: 50 })
+		expect(index.get('b')).toBeUndefined()
+	})
+
+	it('renders the nodes in view, selected nodes and the groups of shown members', () => {
+		const nodes = [
+			node('group', 900, 900, { type: NodeType.GROUP, width: 2000, height: 2000 }),
+			node('member', 50, 50, { parentId: 'group' }),
+			node('inView', 100, 100),
+			node('far', 5000, 5000),
+			node('selected', 8000, 8000, { selected: true }),
+		]
+		const index = new SpatialIndex()
+		syncSpatialIndex(index, nodes)
+
+		const visible = selectVisibleElements(index, nodes, [], viewportArea)
+
+		// The member sits at 950, 950 in its group
+		expect(ids(visible.nodes)).toEqual(['group', 'member', 'inView', 'selected'])
+	})
+
+	it('keeps edges crossing the view together with both of their nodes', () => {
+		const nodes = [node('left', -3000, 500), node('right', 3000, 500), node('a', 5000, 5000), node('b', 6000, 5000)]
+		const index = new SpatialIndex()
+		syncSpatialIndex(index, nodes)
+
+		const visible = selectVisibleElements(index, nodes, [edge('left', 'right'), edge('a', 'b')], viewportArea)
+
+		expect(ids(visible.nodes)).toEqual(['left', 'right'])
+		expect(ids(visible.edges)).toEqual(['left-right'])
+	})
+
+	it('draws nodes as simplified shapes of the same size, except groups', () => {
+		expect(toLevelOfDetail(node('a', 0, 0))).toMatchObject({ type: LOD_NODE_TYPE, style: { width: 100, height: 50 } })
+		const group = node('group', 0, 0, { type: NodeType.GROUP })
+		expect(toLevelOfDetail(group)).toBe(group)
+	})
+})
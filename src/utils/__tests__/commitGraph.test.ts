@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+
+import type { GitCommit } from '../../types'
+import { layoutCommitGraph } from '../commitGraph'
+
+const createCommit = (id: string, parents: string[] = []): GitCommit => ({
+	id,
+	projectId: 'project-1',
+	parents,
+	tree: { meta: 'meta', nodes: [], edges: [] },
+	message: id,
+	author: 'Tester',
+	timestamp: '2023-01-01T00:00:00.000Z',
+	version: '1.0.0',
+})
+
+describe('layoutCommitGraph', () => {
+	it('keeps a linear history in a single lane', () => {
+		const { rows, laneCount } = layoutCommitGraph([createCommit('c', ['b']), createCommit('b', ['a']), createCommit('a')])
+
+		expect(laneCount).toBe(1)
+		expect(rows.map((row) => row.lane)).toEqual([0, 0, 0])
+		expect(rows[2]!.outgoing).toEqual([])
+	})
+
+	it('opens a lane for a branch and joins it at the fork point', () => {
+		const { rows, laneCount } = layoutCommitGraph([
+			createCommit('feature', ['base']),
+			createCommit('main', ['base']),
+			createCommit('base'),
+		])
+
+		expect(laneCount).toBe(2)
+		expect(rows[0]!.lane).toBe(0)
+		expect(rows[1]!.lane).toBe(1)
+		expect(rows[1]!.passThrough).toEqual([0])
+		expect(rows[2]!.incoming).toEqual([0, 1])
+	})
+
+	it('draws one outgoing line per parent of a merge commit', () => {
+		const { rows } = layoutCommitGraph([
+			createCommit('merge', ['main', 'feature']),
+			createCommit('feature', ['base']),
+			createCommit('main', ['base']),
+			createCommit('base'),
+		])
+
+		expect(rows[0]!.outgoing).toEqual([0, 1])
+		expect(rows[1]!.lane).toBe(1)
+		expect(rows[2]!.lane).toBe(0)
+	})
+})
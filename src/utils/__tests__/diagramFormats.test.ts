@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest'
+
+import { createEdge, createNode, createProject } from '../../tests/fixtures'
+import type { Project } from '../../types'
+import { NodeType, EdgeType } from '../../types/enums'
+import {
+	detectDiagramFormat,
+	diagramToGraph,
+	exportDot,
+	exportMermaid,
+	parseDot,
+	parseMermaid,
+} from '../diagramFormats'
+
+const project = createProject({
+	name: 'Launch plan',
+	nodes: [
+		createNode('idea', { title: 'Launch "v2"' }),
+		createNode('task', { title: 'Write docs' }, { type: NodeType.TASK, position: { x: 300, y: 0 } }),
+		createNode('note', { title: 'Remember' }, { type: NodeType.NOTE, position: { x: 600, y: 0 } }),
+		createNode('resource', { title: 'Wiki' }, { type: NodeType.RESOURCE, position: { x: 900, y: 0 } }),
+	],
+	edges: [
+		createEdge('idea', 'task', { label: 'first | then' }),
+		createEdge('task', 'note', { type: EdgeType.STEP }),
+		createEdge('note', 'resource', { type: EdgeType.SMOOTHSTEP }),
+		createEdge('idea', 'resource', { type: EdgeType.STRAIGHT }),
+	],
+})
+
+describe('diagramFormats', () => {
+	it('exports Mermaid with shapes, link styles and labels', () => {
+		const mermaid = exportMermaid(project)
+
+		expect(mermaid).toContain('flowchart LR')
+		expect(mermaid).toContain('n1("Launch #quot;v2#quot;")')
+		expect(mermaid).toContain('n4[("Wiki")]')
+		expect(mermaid).toContain('n1 -->|"first #124; then"| n2')
+		expect(mermaid).toContain('n2 ==> n3')
+	})
+
+	it('round-trips a project through Mermaid', () => {
+		const diagram = parseMermaid(exportMermaid(project))
+
+		expect(diagram.title).toBe('Launch plan')
+		expect(diagram.direction).toBe('LR')
+		expect(diagram.nodes.map((node) => [node.label, node.type])).toEqual([
+			['Launch "v2"', NodeType.IDEA],
+			['Write docs', NodeType.TASK],
+			['Remember', NodeType.NOTE],
+			['Wiki', NodeType.RESOURCE],
+		])
+		expect(diagram.edges.map((edge) => [edge.type, edge.label])).toEqual([
+			[EdgeType.DEFAULT, 'first | then'],
+			[EdgeType.STEP, undefined],
+			[EdgeType.SMOOTHSTEP, undefined],
+			[EdgeType.STRAIGHT, undefined],
+		])
+	})
+
+	it('round-trips text that looks like Mermaid escapes', () => {
+		const titles = ['Issue #12; and #quot;', 'Line <br> tag', 'Two\nlines']
+		const nodes = titles.map((title, index) =>
+			createNode(`n${index}`, { title }, { position: { x: index * 300, y: 0 } }),
+		)
+
+		const { nodes: parsed } = parseMermaid(exportMermaid({ ...project, nodes, edges: [] }))
+
+		expect(parsed.map((node) => node.label)).toEqual(titles)
+	})
+
+	it('reads hand-written Mermaid with chains, groups and text links', () => {
+		const diagram = parseMermaid(
+			[
+				'graph TD',
+				'  %% comment',
+				'  A[Start] --> B{Decide} -- yes --> C((Done))',
+				'  subgraph extra',
+				'    D & E -.-> A',
+				'  end',
+				'  style A fill:#f9f',
+			].join('\n'),
+		)
+
+		expect(diagram.direction).toBe('TB')
+		expect(diagram.nodes.map((node) => node.label)).toEqual(['Start', 'Decide', 'Done', 'extra', 'D', 'E'])
+		expect(diagram.nodes[3]).toMatchObject({ key: 'extra', type: NodeType.GROUP })
+		expect(diagram.nodes[4]!.group).toBe('extra')
+		expect(diagram.edges).toHaveLength(4)
+		expect(diagram.edges[1]).toMatchObject({ source: 'B', target: 'C', label: 'yes', type: EdgeType.DEFAULT })
+		expect(diagram.edges[3]).toMatchObject({ source: 'E', target: 'A', type: EdgeType.SMOOTHSTEP })
+		expect(() => parseMermaid('sequenceDiagram\n  A->>B: hi')).toThrow()
+	})
+
+	it('round-trips a project through DOT', () => {
+		const dot = exportDot(project)
+		expect(dot).toContain('n1 [label="Launch \\"v2\\"", shape=ellipse];')
+		expect(dot).toContain('n1 -> n4 [arrowhead=none];')
+
+		const diagram = parseDot(dot)
+		expect(diagram.title).toBe('Launch plan')
+		expect(diagram.direction).toBe('LR')
+		expect(diagram.nodes.map((node) => node.type)).toEqual([
+			NodeType.IDEA,
+			NodeType.TASK,
+			NodeType.NOTE,
+			NodeType.RESOURCE,
+		])
+		expect(diagram.edges.map((edge) => edge.type)).toEqual([
+			EdgeType.DEFAULT,
+			EdgeType.STEP,
+			EdgeType.SMOOTHSTEP,
+			EdgeType.STRAIGHT,
+		])
+		expect(diagram.edges[0]!.label).toBe('first | then')
+	})
+
+	it('reads hand-written DOT with defaults, subgraphs and comments', () => {
+		const diagram = parseDot(`
+			/* header */
+			strict graph G {
+				node [shape=box]
+				a [label="Alpha\\nline two"] // trailing comment
+				a -- { b c } [label=fan]
+				subgraph cluster_x { d; e [shape=cylinder] }
+				d -- e
+			}
+		`)
+
+		expect(diagram.title).toBe('G')
+		expect(diagram.nodes.map((node) => [node.key, node.type])).toEqual([
+			['a', NodeType.TASK],
+			['b', NodeType.TASK],
+			['c', NodeType.TASK],
+			['cluster_x', NodeType.GROUP],
+			['d', NodeType.TASK],
+			['e', NodeType.RESOURCE],
+		])
+		expect(diagram.nodes[4]!.group).toBe('cluster_x')
+		expect(diagram.nodes[0]!.label).toBe('Alpha\nline two')
+		// Undirected edges have no arrow head
+		expect(diagram.edges.map((edge) => [edge.source, edge.target, edge.type, edge.label])).toEqual([
+			['a', 'b', EdgeType.STRAIGHT, 'fan'],
+			['a', 'c', EdgeType.STRAIGHT, 'fan'],
+			['d', 'e', EdgeType.STRAIGHT, undefined],
+		])
+		expect(() => parseDot('digraph { a -> }')).toThrow()
+	})
+
+	describe('groups', () => {
+		const grouped: Project = {
+			...project,
+			nodes: [
+				createNode('frame', { title: 'Phase 1', collapsed: true }, { type: NodeType.GROUP }),
+				createNode('idea', { title: 'Launch' }, { position: { x: 24, y: 0 }, parentId: 'frame' }),
+				createNode(
+					'task',
+					{ title: 'Write docs' },
+					{ type: NodeType.TASK, position: { x: 300, y: 0 }, parentId: 'frame' },
+				),
+				createNode('note', { title: 'Remember' }, { type: NodeType.NOTE, position: { x: 900, y: 0 } }),
+			],
+			edges: [createEdge('idea', 'task'), createEdge('task', 'note')],
+		}
+
+		it('round-trips groups through Mermaid subgraphs', () => {
+			const mermaid = exportMermaid(grouped)
+			expect(mermaid).toContain('    subgraph n1 ["Phase 1"]\n        n2("Launch")\n        n3["Write docs"]\n    end')
+			expect(mermaid).toContain('    class n1 collapsed')
+
+			const diagram = parseMermaid(mermaid)
+			expect(diagram.nodes.map((node) => [node.label, node.group])).toEqual([
+				['Phase 1', undefined],
+				['Launch', 'n1'],
+				['Write docs', 'n1'],
+				['Remember', undefined],
+			])
+			expect(diagram.nodes[0]).toMatchObject({ type: NodeType.GROUP, collapsed: true })
+		})
+
+		it('round-trips groups through DOT clusters', () => {
+			const dot = exportDot(grouped)
+			expect(dot).toContain('    subgraph cluster_n1 {\n        label="Phase 1";\n        collapsed=true;')
+
+			const diagram = parseDot(dot)
+			expect(diagram.nodes.map((node) => [node.label, node.group])).toEqual([
+				['Phase 1', undefined],
+				['Launch', 'cluster_n1'],
+				['Write docs', 'cluster_n1'],
+				['Remember', undefined],
+			])
+			expect(diagram.nodes[0]).toMatchObject({ type: NodeType.GROUP, collapsed: true })
+			expect(diagram.edges).toHaveLength(2)
+		})
+
+		it('frames imported groups around their members', () => {
+			const { nodes, edges } = diagramToGraph(
+				parseMermaid('flowchart LR\n  subgraph g [Phase]\n    a --> b\n  end\n  b --> c\n  a --> g'),
+			)
+
+			expect(nodes.map((node) => [node.data.title, node.type])).toEqual([
+				['Phase', NodeType.GROUP],
+				['a', NodeType.IDEA],
+				['b', NodeType.IDEA],
+				['c', NodeType.IDEA],
+			])
+			const group = nodes[0]!
+			expect(nodes[1]!.parentId).toBe(group.id)
+			expect(nodes[2]!.parentId).toBe(group.id)
+			expect(nodes[3]!.parentId).toBeUndefined()
+			// Members are placed relative to the frame, inside its padding
+			expect(nodes[1]!.position.x).toBeGreaterThan(0)
+			// The edge to the subgraph itself is dropped
+			expect(edges).toHaveLength(2)
+		})
+	})
+
+	it('detects the format and lays out imported graphs in layers', () => {
+		expect(detectDiagramFormat('graph.gv', '')).toBe('dot')
+		expect(detectDiagramFormat('paste', '// x\ndigraph { a -> b }')).toBe('dot')
+		expect(detectDiagramFormat('paste', 'graph LR\n  a --> b')).toBe('mermaid')
+
+		const { nodes, edges } = diagramToGraph(parseMermaid('flowchart TB\n  a[Root<br>more] --> b\n  a --> c'))
+		expect(nodes.map((node) => node.data.title)).toEqual(['Root', 'b', 'c'])
+		expect(nodes[0]!.data.content).toBe('more')
+		expect(edges).toHaveLength(2)
+		expect(edges[0]!.source).toBe(nodes[0]!.id)
+		expect(nodes[1]!.position.y).toBeGreaterThan(nodes[0]!.position.y)
+		expect(nodes[1]!.position.y).toBe(nodes[2]!.position.y)
+	})
+})
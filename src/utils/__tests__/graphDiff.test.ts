@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+
+import { createNode } from '../../tests/fixtures'
+import type { GraphDiff, GraphNodeAddition } from '../../types'
+import { NodeType } from '../../types/enums'
+import { getAdditions, placeAdditions, resolveDiffEdges } from '../graphDiff'
+
+const addition = (id: string): GraphNodeAddition => ({
+	kind: 'add',
+	id: `add:${id}`,
+	node: { id, title: `Title ${id}`, content: '', type: NodeType.IDEA },
+})
+
+const createDiff = (operation: GraphDiff['operation'], overrides: Partial<GraphDiff> = {}): GraphDiff => ({
+	id: 'diff',
+	operation,
+	nodeIds: ['a'],
+	changes: [addition('x'), addition('y')],
+	edges: [
+		{ source: 'a', target: 'x' },
+		{ source: 'a', target: 'y', label: 'leads to' },
+	],
+	...overrides,
+})
+
+describe('graphDiff', () => {
+	it('resolves edges to accepted additions only', () => {
+		const diff = createDiff('expand')
+		expect(getAdditions(diff)).toHaveLength(2)
+
+		const edges = resolveDiffEdges(diff, new Map([['y', 'node-y']]))
+		expect(edges).toEqual([{ source: 'a', target: 'node-y', label: 'leads to' }])
+	})
+
+	it('places expanded children below their parent', () => {
+		const diff = createDiff('expand')
+		const positions = placeAdditions(diff, getAdditions(diff), [createNode('a', {}, { position: { x: 0, y: 0 } })])
+
+		const [x, y] = [positions.get('add:x'), positions.get('add:y')]
+		expect(x?.y).toBeGreaterThan(0)
+		expect(x?.y).toBe(y?.y)
+		expect(x?.x).toBeLessThan(y?.x ?? 0)
+	})
+
+	it('places a summary above the selection', () => {
+		const diff = createDiff('summarize', {
+			nodeIds: ['a', 'b'],
+			changes: [addition('s')],
+			edges: [{ source: 's', target: 'a' }],
+		})
+		const selection = [
+			createNode('a', {}, { position: { x: 0, y: 100 } }),
+			createNode('b', {}, { position: { x: 400, y: 200 } }),
+		]
+		const positions = placeAdditions(diff, getAdditions(diff), selection)
+
+		expect(positions.get('add:s')?.y).toBeLessThan(100)
+	})
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+
+import { createNode } from '../../tests/fixtures'
+import { NodeType } from '../../types/enums'
+import {
+	findGroupAt,
+	GROUP_HEADER_HEIGHT,
+	GROUP_PADDING,
+	groupNodes,
+	orderGroupsFirst,
+	setNodeParent,
+	ungroupNodes,
+	type GroupableNode,
+} from '../groups'
+
+// Members have a measured size, which the canvas adds to its nodes
+const createMember = (id: string, x: number, y: number, parentId?: string): GroupableNode => ({
+	...createNode(id, {}, { position: { x, y }, ...(parentId !== undefined ? { parentId } : {}) }),
+	width: 100,
+	height: 50,
+})
+
+const createGroup = (id: string): GroupableNode => ({ id, type: NodeType.GROUP, position: { x: 0, y: 0 } })
+
+describe('groups', () => {
+	it('frames the members and makes their positions relative', () => {
+		const nodes = groupNodes([createMember('a', 100, 100), createMember('b', 300, 200), createMember('c', 900, 900)], ['a', 'b'], createGroup('g'))
+
+		expect(nodes.map((node) => node.id)).toEqual(['g', 'a', 'b', 'c'])
+		const [group, a, b, c] = nodes
+		expect(group!.position).toEqual({ x: 100 - GROUP_PADDING, y: 100 - GROUP_PADDING - GROUP_HEADER_HEIGHT })
+		expect(group!.style).toEqual({
+			width: 300 + GROUP_PADDING * 2,
+			height: 150 + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+		})
+		expect(a).toMatchObject({ parentId: 'g', position: { x: GROUP_PADDING, y: GROUP_PADDING + GROUP_HEADER_HEIGHT } })
+		expect(b!.parentId).toBe('g')
+		expect(c!.parentId).toBeUndefined()
+	})
+
+	it('does not group groups or empty selections', () => {
+		const nodes = [createGroup('g'), createMember('a', 0, 0)]
+
+		expect(groupNodes(nodes, ['g'], createGroup('h'))).toBe(nodes)
+		expect(groupNodes(nodes, [], createGroup('h'))).toBe(nodes)
+	})
+
+	it('keeps canvas positions when moving nodes between groups', () => {
+		const nodes = [{ ...createGroup('g'), position: { x: 50, y: 60 } }, createMember('a', 10, 20, 'g'), createMember('b', 200, 200)]
+
+		const released = setNodeParent(nodes, 'a', undefined)
+		expect(released[1]).toEqual(createMember('a', 60, 80))
+
+		const adopted = setNodeParent(nodes, 'b', 'g')
+		expect(adopted[2]).toEqual(createMember('b', 150, 140, 'g'))
+		// Only groups take members
+		expect(setNodeParent(nodes, 'a', 'b')).toBe(nodes)
+	})
+
+	it('releases members when ungrouping', () => {
+		const nodes = ungroupNodes([{ ...createGroup('g'), position: { x: 50, y: 60 } }, createMember('a', 10, 20, 'g')], 'g')
+
+		expect(nodes).toEqual([createMember('a', 60, 80)])
+	})
+
+	it('finds the expanded group under a point', () => {
+		const group = { ...createGroup('g'), position: { x: 0, y: 0 }, style: { width: 200, height: 200 } }
+		const nodes = [createMember('a', 50, 50), group]
+
+		expect(findGroupAt(nodes, { x: 100, y: 100 }, () => false)).toBe(group)
+		expect(findGroupAt(nodes, { x: 300, y: 100 }, () => false)).toBeUndefined()
+		expect(findGroupAt(nodes, { x: 100, y: 100 }, () => true)).toBeUndefined()
+		expect(orderGroupsFirst(nodes).map((node) => node.id)).toEqual(['g', 'a'])
+	})
+})
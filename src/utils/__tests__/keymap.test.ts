@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+
+import { keymapPresets } from '../../config/keymapConfig'
+import {
+	bindingsConflict,
+	eventToStroke,
+	findConflicts,
+	findKeymapConflicts,
+	formatBinding,
+	normalizeBinding,
+	parseStroke,
+} from '../keymap'
+
+const keyEvent = (key: string, modifiers: Partial<Record<'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey', boolean>> = {}, code?: string) => ({
+	key,
+	...(code !== undefined ? { code } : {}),
+	ctrlKey: false,
+	altKey: false,
+	shiftKey: false,
+	metaKey: false,
+	...modifiers,
+})
+
+describe('keymap', () => {
+	it('parses keystrokes and chords into their canonical form', () => {
+		expect(parseStroke('shift+ctrl+z')).toBe('Ctrl+Shift+Z')
+		expect(parseStroke('Ctrl++')).toBe('Ctrl+Plus')
+		expect(parseStroke('cmd+del')).toBe('Meta+Delete')
+		expect(parseStroke('Ctrl')).toBeNull()
+		expect(parseStroke('Hyper+A')).toBeNull()
+
+		expect(normalizeBinding(' g   p ')).toBe('G P')
+		expect(normalizeBinding('f1')).toBe('F1')
+		expect(normalizeBinding('A B C D')).toBeNull()
+		expect(formatBinding('Ctrl+Shift+Z G')).toBe('Ctrl + Shift + Z G')
+	})
+
+	it('reads the keystroke of keyboard events', () => {
+		expect(eventToStroke(keyEvent('z', { ctrlKey: true }))).toBe('Ctrl+Z')
+		expect(eventToStroke(keyEvent('!', { shiftKey: true }, 'Digit1'))).toBe('Shift+1')
+		expect(eventToStroke(keyEvent(' '))).toBe('Space')
+		expect(eventToStroke(keyEvent('Shift', { shiftKey: true }))).toBeNull()
+	})
+
+	it('finds bindings that are equal or start the other chord', () => {
+		expect(bindingsConflict('G', 'G P')).toBe(true)
+		expect(bindingsConflict('G P', 'G P')).toBe(true)
+		expect(bindingsConflict('G P', 'G S')).toBe(false)
+
+		const keymap = { ...keymapPresets.default, 'edit.group': ['G'] }
+		expect(findConflicts(keymap, 'G', 'edit.group').map((conflict) => conflict.actionId)).toEqual([
+			'navigation.projects',
+			'navigation.settings',
+			'navigation.home',
+		])
+		expect(findKeymapConflicts(keymap)).toHaveLength(3)
+	})
+
+	it('ships presets without conflicts', () => {
+		for (const keymap of Object.values(keymapPresets)) {
+			expect(findKeymapConflicts(keymap)).toEqual([])
+			Object.values(keymap)
+				.flat()
+				.forEach((binding) => expect(normalizeBinding(binding)).toBe(binding))
+		}
+	})
+})
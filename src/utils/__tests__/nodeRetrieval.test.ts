@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+
+import { createNode } from '../../tests/fixtures'
+import type { Node, NodeSuggestion } from '../../types'
+import { createNodeSuggestionFromNodeData } from '../../types/chat'
+import { NodeType } from '../../types/enums'
+import {
+	estimateTokens,
+	formatContextNode,
+	getRetrievalBudget,
+	NodeRetrievalIndex,
+	parseCitations,
+	splitCitations,
+	type RetrievableNode,
+} from '../nodeRetrieval'
+
+// The chat indexes the canvas nodes as suggestions made from their data
+const retrievable = (node: Node): RetrievableNode => ({
+	...createNodeSuggestionFromNodeData(node.data, node.type),
+	id: node.id,
+})
+
+const nodes: NodeSuggestion[] = [
+	retrievable(
+		createNode('pricing', { title: 'Pricing tiers', content: 'Free, team and enterprise plans', tags: ['business'] }),
+	),
+	retrievable(createNode('launch', { title: 'Launch event', content: 'Announce the team plan at the conference' })),
+	retrievable(createNode('logo', { title: 'Logo redesign', content: 'Try a rounder typeface' })),
+	{ title: 'Unsaved suggestion', content: 'pricing ideas', type: NodeType.IDEA },
+]
+
+describe('nodeRetrieval', () => {
+	it('ranks nodes by relevance and skips nodes without an ID', () => {
+		const index = new NodeRetrievalIndex(nodes)
+
+		expect(index.size).toBe(3)
+		expect(index.search('Which pricing plans suit a team?').map((hit) => hit.node.id)).toEqual([
+			'pricing',
+			'launch',
+		])
+		expect(index.search('unrelated')).toEqual([])
+	})
+
+	it('fills the budget with the most relevant nodes that fit', () => {
+		const long = retrievable(createNode('notes', { title: 'Team notes', content: 'team '.repeat(200) }))
+		const index = new NodeRetrievalIndex([long, ...nodes])
+		const [pricing] = nodes
+		const budget = estimateTokens(formatContextNode(pricing as RetrievableNode))
+
+		// The long node is the best match but too big for the budget
+		expect(index.retrieve('team', budget).map((node) => node.id)).toEqual(['pricing'])
+		expect(index.retrieve('team', 10_000).map((node) => node.id)).toEqual(['notes', 'pricing', 'launch'])
+	})
+
+	it('gives a share of the context window to retrieval', () => {
+		expect(getRetrievalBudget(8000)).toBe(2000)
+		expect(getRetrievalBudget(200_000)).toBe(8000)
+	})
+
+	it('finds citations of known nodes', () => {
+		const content = 'Start with [node:pricing] and [node:launch], see [node:pricing] and [node:missing].'
+		const known = new Set(['pricing', 'launch'])
+
+		expect(parseCitations(content, known)).toEqual(['pricing', 'launch'])
+		expect(splitCitations(content, known)).toEqual([
+			{ text: 'Start with ' },
+			{ nodeId: 'pricing', text: '[node:pricing]' },
+			{ text: ' and ' },
+			{ nodeId: 'launch', text: '[node:launch]' },
+			{ text: ', see ' },
+			{ nodeId: 'pricing', text: '[node:pricing]' },
+			{ text: ' and [node:missing].' },
+		])
+	})
+})
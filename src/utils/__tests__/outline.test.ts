@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+
+import { createEdge, createNode, createProject } from '../../tests/fixtures'
+import { NodeType } from '../../types/enums'
+import {
+	outlineToGraph,
+	outlineToMarkdown,
+	outlineToOpml,
+	parseMarkdownOutline,
+	parseOpmlOutline,
+	projectToOutline,
+} from '../outline'
+
+describe('outline', () => {
+	const project = createProject({
+		name: 'Launch plan',
+		nodes: [
+			createNode('root', { title: 'Launch' }),
+			createNode(
+				'marketing',
+				{ title: 'Marketing', tags: ['q3'] },
+				{ type: NodeType.TASK, position: { x: 0, y: 100 } },
+			),
+			createNode('docs', { title: 'Docs' }, { type: NodeType.NOTE, position: { x: 0, y: 200 } }),
+			createNode('loose', { title: 'Loose idea' }, { position: { x: 0, y: 300 } }),
+		],
+		edges: [createEdge('root', 'marketing'), createEdge('root', 'docs'), createEdge('marketing', 'docs')],
+	})
+
+	it('walks the graph as a forest rooted at nodes without incoming edges', () => {
+		const outline = projectToOutline(project)
+
+		expect(outline.items.map((item) => item.title)).toEqual(['Launch', 'Loose idea'])
+		expect(outline.items[0]!.children.map((item) => item.title)).toEqual(['Marketing', 'Docs'])
+		// Docs is only listed once even though two nodes point at it
+		expect(outline.items[0]!.children[0]!.children).toEqual([])
+	})
+
+	it('keeps cycles without a root', () => {
+		const cyclic = createProject({
+			nodes: [createNode('a', { title: 'A' }), createNode('b', { title: 'B' }, { position: { x: 0, y: 100 } })],
+			edges: [createEdge('a', 'b'), createEdge('b', 'a')],
+		})
+
+		const outline = projectToOutline(cyclic)
+
+		expect(outline.items.map((item) => item.title)).toEqual(['A'])
+		expect(outline.items[0]!.children.map((item) => item.title)).toEqual(['B'])
+	})
+
+	it('round-trips types, tags and nesting through Markdown', () => {
+		const markdown = outlineToMarkdown(projectToOutline(project))
+
+		expect(markdown).toContain('  - [task] Marketing #q3')
+
+		const parsed = parseMarkdownOutline(markdown)
+		expect(parsed.title).toBe('Launch plan')
+		expect(parsed.items[0]!.children[0]).toMatchObject({ title: 'Marketing', type: NodeType.TASK, tags: ['q3'] })
+		expect(parsed.items[0]!.children[1]).toMatchObject({ title: 'Docs', type: NodeType.NOTE })
+	})
+
+	it('reads plain Markdown lists with content lines', () => {
+		const parsed = parseMarkdownOutline('* Topic\n  Some detail\n  * Sub topic #idea-tag\n1. Second')
+
+		expect(parsed.items).toHaveLength(2)
+		expect(parsed.items[0]).toMatchObject({ title: 'Topic', content: 'Some detail', type: NodeType.IDEA })
+		expect(parsed.items[0]!.children[0]).toMatchObject({ title: 'Sub topic', tags: ['idea-tag'] })
+	})
+
+	it('round-trips through OPML', () => {
+		const opml = outlineToOpml(projectToOutline(project))
+		const parsed = parseOpmlOutline(opml)
+
+		expect(parsed.title).toBe('Launch plan')
+		expect(parsed.items[0]!.children[0]).toMatchObject({ title: 'Marketing', type: NodeType.TASK, tags: ['q3'] })
+		expect(() => parseOpmlOutline('<html></html>')).toThrow()
+	})
+
+	it('lists group members under their group and keeps the collapsed state', () => {
+		const grouped = createProject({
+			nodes: [
+				createNode('loose', { title: 'Loose idea' }),
+				createNode(
+					'frame',
+					{ title: 'Phase 1', collapsed: true },
+					{ type: NodeType.GROUP, position: { x: 0, y: 100 } },
+				),
+				createNode('member', { title: 'Member' }, { position: { x: 0, y: 24 }, parentId: 'frame' }),
+			],
+			edges: [createEdge('loose', 'member')],
+		})
+
+		const outline = projectToOutline(grouped)
+		expect(outline.items.map((item) => item.title)).toEqual(['Phase 1', 'Loose idea'])
+		expect(outline.items[0]).toMatchObject({ type: NodeType.GROUP, collapsed: true })
+		expect(outline.items[0]!.children.map((item) => item.title)).toEqual(['Member'])
+
+		const markdown = outlineToMarkdown(outline)
+		expect(markdown).toContain('- [group:collapsed] Phase 1')
+		expect(parseMarkdownOutline(markdown).items[0]).toMatchObject({ type: NodeType.GROUP, collapsed: true })
+		expect(parseOpmlOutline(outlineToOpml(outline)).items[0]).toMatchObject({ type: NodeType.GROUP, collapsed: true })
+	})
+
+	it('turns the children of a group into its members', () => {
+		const { nodes, edges } = outlineToGraph(parseMarkdownOutline('- [group] Phase\n  - A\n    - B\n  - C'))
+
+		expect(nodes.map((node) => node.data.title)).toEqual(['Phase', 'A', 'B', 'C'])
+		const [group, a, b, c] = nodes
+		expect(a!.parentId).toBe(group!.id)
+		expect(c!.parentId).toBe(group!.id)
+		expect(b!.parentId).toBeUndefined()
+		// Only A links to its child; members are not linked to the group
+		expect(edges.map((edge) => [edge.source, edge.target])).toEqual([[a!.id, b!.id]])
+	})
+
+	it('builds a laid-out graph from an outline', () => {
+		const { nodes, edges } = outlineToGraph(parseMarkdownOutline('- Root\n  - A\n  - B'))
+
+		expect(nodes.map((node) => node.data.title)).toEqual(['Root', 'A', 'B'])
+		expect(edges).toHaveLength(2)
+		expect(edges.every((edge) => edge.source === nodes[0]!.id)).toBe(true)
+		// Parent is centered between its children, one level to the left
+		expect(nodes[0]!.position.y).toBe((nodes[1]!.position.y + nodes[2]!.position.y) / 2)
+		expect(nodes[1]!.position.x).toBeGreaterThan(nodes[0]!.position.x)
+	})
+})
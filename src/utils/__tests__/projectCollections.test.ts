@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+
+import { createProject } from '../../tests/fixtures'
+import type { Project } from '../../types'
+import {
+	buildCategoryTree,
+	filterProjects,
+	getTagCounts,
+	normalizeCategory,
+	normalizeTags,
+} from '../projectCollections'
+
+describe('projectCollections', () => {
+	it('normalizes tags and category paths', () => {
+		expect(normalizeTags([' Design ', 'design', '', 'UX'])).toEqual(['design', 'ux'])
+		expect(normalizeCategory(' Clients / Acme /')).toBe('Clients/Acme')
+		expect(normalizeCategory(' / ')).toBeUndefined()
+	})
+
+	it('counts the projects per tag, most used first', () => {
+		const projects = [
+			createProject({ id: 'a', tags: ['ux', 'design'] }),
+			createProject({ id: 'b', tags: ['design'] }),
+			createProject({ id: 'c' }),
+		]
+
+		expect(getTagCounts(projects)).toEqual([
+			{ tag: 'design', count: 2 },
+			{ tag: 'ux', count: 1 },
+		])
+	})
+
+	it('builds a sorted category tree counting the projects below each category', () => {
+		const projects = [
+			createProject({ id: 'a', category: 'Clients/Acme' }),
+			createProject({ id: 'b', category: 'Clients/Globex' }),
+			createProject({ id: 'c', category: 'Clients' }),
+			createProject({ id: 'd', category: 'Archive' }),
+			createProject({ id: 'e' }),
+		]
+
+		expect(buildCategoryTree(projects)).toEqual([
+			{ name: 'Archive', path: 'Archive', count: 1, children: [] },
+			{
+				name: 'Clients',
+				path: 'Clients',
+				count: 3,
+				children: [
+					{ name: 'Acme', path: 'Clients/Acme', count: 1, children: [] },
+					{ name: 'Globex', path: 'Clients/Globex', count: 1, children: [] },
+				],
+			},
+		])
+	})
+
+	it('filters by tag, category and pin state', () => {
+		const projects = [
+			createProject({ id: 'a', tags: ['ux'], category: 'Clients/Acme', isPinned: true }),
+			createProject({ id: 'b', tags: ['ux'], category: 'ClientsOld' }),
+			createProject({ id: 'c', category: 'Clients' }),
+		]
+		const ids = (filtered: Project[]) => filtered.map((project) => project.id)
+
+		expect(ids(filterProjects(projects, { tag: 'UX' }))).toEqual(['a', 'b'])
+		expect(ids(filterProjects(projects, { category: 'Clients' }))).toEqual(['a', 'c'])
+		expect(ids(filterProjects(projects, { pinned: true }))).toEqual(['a'])
+	})
+
+	it('lists the opened projects most recently opened first', () => {
+		const projects = [
+			createProject({ id: 'a', lastAccessedAt: '2024-02-01T00:00:00.000Z' }),
+			createProject({ id: 'b' }),
+			createProject({ id: 'c', lastAccessedAt: '2024-03-01T00:00:00.000Z' }),
+		]
+
+		expect(filterProjects(projects, { recent: true }).map((project) => project.id)).toEqual(['c', 'a'])
+	})
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+
+import { createEdge, createNode, createProject } from '../../tests/fixtures'
+import { diffProjects, diffText, hasDiffChanges } from '../projectDiff'
+
+describe('diffText', () => {
+	it('reports inserted and deleted words', () => {
+		expect(diffText('the quick fox', 'the slow fox')).toEqual([
+			{ type: 'equal', value: 'the ' },
+			{ type: 'delete', value: 'quick' },
+			{ type: 'insert', value: 'slow' },
+			{ type: 'equal', value: ' fox' },
+		])
+	})
+
+	it('returns an empty diff for two empty strings', () => {
+		expect(diffText('', '')).toEqual([])
+	})
+})
+
+describe('diffProjects', () => {
+	const base = createProject({
+		nodes: [
+			createNode('a', { title: 'Alpha' }),
+			createNode('b', { title: 'Beta' }),
+			createNode('c', { title: 'Gamma' }),
+		],
+		edges: [createEdge('a', 'b', { id: 'e1' }), createEdge('b', 'c', { id: 'e2' })],
+	})
+
+	it('classifies added, removed, moved and edited nodes', () => {
+		const compare = createProject({
+			nodes: [
+				createNode('a', { title: 'Alpha' }),
+				createNode('b', { title: 'Beta' }, { position: { x: 200, y: 50 } }),
+				createNode('c', { title: 'Gamma ray', tags: ['science'] }),
+				createNode('d', { title: 'Delta' }),
+			],
+			edges: base.edges,
+		})
+
+		const diff = diffProjects(base, compare)
+		const status = Object.fromEntries(diff.nodes.map((node) => [node.id, node.status]))
+
+		expect(status).toEqual({ a: 'unchanged', b: 'moved', c: 'edited', d: 'added' })
+		expect(diff.summary).toEqual({ added: 1, removed: 0, moved: 1, edited: 1 })
+
+		const gamma = diff.nodes.find((node) => node.id === 'c')!
+		expect(gamma.fields.map((field) => field.field)).toEqual(['title', 'tags'])
+		expect(gamma.fields[1]).toEqual({ kind: 'tags', field: 'tags', added: ['science'], removed: [] })
+	})
+
+	it('reports removed nodes and edges and edited edge labels', () => {
+		const compare = createProject({
+			nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta' })],
+			edges: [createEdge('a', 'b', { id: 'e1', label: 'leads to' })],
+		})
+
+		const diff = diffProjects(base, compare)
+
+		expect(diff.nodes.find((node) => node.id === 'c')?.status).toBe('removed')
+		expect(diff.edges.map((edge) => [edge.id, edge.status])).toEqual([
+			['e1', 'edited'],
+			['e2', 'removed'],
+		])
+		expect(diff.edges[0]!.fields).toEqual([{ kind: 'value', field: 'label', before: undefined, after: 'leads to' }])
+	})
+
+	it('keeps the moved flag on nodes that were also edited', () => {
+		const compare = createProject({
+			nodes: [
+				createNode('a', { title: 'Alpha 2' }, { position: { x: 10, y: 10 } }),
+				createNode('b', { title: 'Beta' }),
+				createNode('c', { title: 'Gamma' }),
+			],
+			edges: base.edges,
+		})
+
+		const alpha = diffProjects(base, compare).nodes[0]!
+
+		expect(alpha.status).toBe('edited')
+		expect(alpha.moved).toBe(true)
+	})
+
+	it('detects when nothing changed', () => {
+		expect(hasDiffChanges(diffProjects(base, createProject({ nodes: base.nodes, edges: base.edges })))).toBe(false)
+	})
+})
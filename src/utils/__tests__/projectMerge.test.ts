@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+
+import { createEdge, createNode, createProject } from '../../tests/fixtures'
+import { getConflictId, hasGraphChanges, hasProjectChanges, mergeProjects } from '../projectMerge'
+
+describe('projectMerge', () => {
+	const base = createProject({
+		nodes: [createNode('a', { title: 'Alpha' }), createNode('b', { title: 'Beta' })],
+		edges: [createEdge('a', 'b', { id: 'e1' })],
+	})
+
+	it('keeps nodes added on both sides', () => {
+		const local = createProject({ nodes: [...base.nodes, createNode('c', { title: 'Local idea' })], edges: base.edges })
+		const remote = createProject({
+			nodes: [...base.nodes, createNode('d', { title: 'Remote idea' })],
+			edges: base.edges,
+		})
+
+		const { project, conflicts } = mergeProjects(base, local, remote)
+
+		expect(conflicts).toHaveLength(0)
+		expect(project.nodes.map((node) => node.id)).toEqual(['a', 'b', 'c', 'd'])
+	})
+
+	it('merges different fields of the same node', () => {
+		const local = createProject({
+			nodes: [createNode('a', { title: 'Alpha renamed' }), base.nodes[1]!],
+			edges: base.edges,
+		})
+		const remote = createProject({
+			nodes: [createNode('a', { title: 'Alpha', content: 'Remote content' }), base.nodes[1]!],
+			edges: base.edges,
+		})
+
+		const { project, conflicts } = mergeProjects(base, local, remote)
+
+		expect(conflicts).toHaveLength(0)
+		expect(project.nodes[0]!.data.title).toBe('Alpha renamed')
+		expect(project.nodes[0]!.data.content).toBe('Remote content')
+	})
+
+	it('merges tag additions and removals from both sides', () => {
+		const tagged = createProject({ nodes: [createNode('a', { title: 'Alpha', tags: ['x', 'y'] })] })
+		const local = createProject({ nodes: [createNode('a', { title: 'Alpha', tags: ['x', 'y', 'local'] })] })
+		const remote = createProject({ nodes: [createNode('a', { title: 'Alpha', tags: ['y', 'remote'] })] })
+
+		const { project, conflicts } = mergeProjects(tagged, local, remote)
+
+		expect(conflicts).toHaveLength(0)
+		expect(project.nodes[0]!.data.tags).toEqual(['y', 'local', 'remote'])
+	})
+
+	it('reports a conflict when both sides change the same field', () => {
+		const local = createProject({
+			nodes: [createNode('a', { title: 'Local title' }), base.nodes[1]!],
+			edges: base.edges,
+		})
+		const remote = createProject({
+			nodes: [createNode('a', { title: 'Remote title' }), base.nodes[1]!],
+			edges: base.edges,
+		})
+
+		const { project, conflicts } = mergeProjects(base, local, remote)
+
+		expect(conflicts).toEqual([
+			expect.objectContaining({
+				id: getConflictId('node', 'a', 'data.title'),
+				base: 'Alpha',
+				local: 'Local title',
+				remote: 'Remote title',
+			}),
+		])
+		expect(project.nodes[0]!.data.title).toBe('Local title')
+
+		const resolved = mergeProjects(base, local, remote, { [conflicts[0]!.id]: 'remote' })
+		expect(resolved.project.nodes[0]!.data.title).toBe('Remote title')
+	})
+
+	it('deletes unchanged nodes and drops their dangling edges', () => {
+		const local = createProject({ nodes: [base.nodes[0]!], edges: [] })
+		const remote = createProject({
+			nodes: [...base.nodes, createNode('c', { title: 'Gamma' })],
+			edges: [...base.edges, createEdge('b', 'c', { id: 'e2' })],
+		})
+
+		const { project, conflicts } = mergeProjects(base, local, remote)
+
+		expect(conflicts).toHaveLength(0)
+		expect(project.nodes.map((node) => node.id)).toEqual(['a', 'c'])
+		expect(project.edges).toHaveLength(0)
+	})
+
+	it('reports a conflict when a node is deleted on one side and edited on the other', () => {
+		const local = createProject({ nodes: [base.nodes[0]!], edges: [] })
+		const remote = createProject({
+			nodes: [base.nodes[0]!, createNode('b', { title: 'Beta edited' })],
+			edges: base.edges,
+		})
+
+		const { project, conflicts } = mergeProjects(base, local, remote)
+
+		expect(conflicts).toHaveLength(1)
+		expect(conflicts[0]!.id).toBe(getConflictId('node', 'b', '*'))
+		expect(project.nodes.map((node) => node.id)).toEqual(['a'])
+
+		const resolved = mergeProjects(base, local, remote, { [conflicts[0]!.id]: 'remote' })
+		expect(resolved.project.nodes.map((node) => node.id)).toEqual(['a', 'b'])
+	})
+
+	it('merges the name, description and tags of the project', () => {
+		const tagged = { ...base, tags: ['draft'] }
+		const local = { ...tagged, name: 'Local name', tags: ['draft', 'local'] }
+		const remote = {
+			...tagged,
+			description: 'Remote description',
+			tags: ['remote'],
+			updatedAt: '2023-01-02T00:00:00.000Z',
+		}
+
+		const { project, conflicts } = mergeProjects(tagged, local, remote)
+
+		expect(conflicts).toHaveLength(0)
+		expect(project).toMatchObject({ name: 'Local name', description: 'Remote description', tags: ['local', 'remote'] })
+
+		const renamed = mergeProjects(tagged, local, { ...remote, name: 'Remote name' })
+		expect(renamed.conflicts.map((conflict) => conflict.id)).toEqual([getConflictId('project', base.id, 'name')])
+		expect(renamed.project.name).toBe('Local name')
+	})
+
+	it('detects graph changes', () => {
+		expect(hasGraphChanges(base, createProject({ nodes: base.nodes, edges: base.edges }))).toBe(false)
+		expect(hasGraphChanges(base, createProject({ nodes: base.nodes, edges: [] }))).toBe(true)
+	})
+
+	it('counts changes to the project details as changes', () => {
+		const same = createProject({ nodes: base.nodes, edges: base.edges })
+
+		expect(hasProjectChanges(base, same)).toBe(false)
+		expect(hasProjectChanges(base, { ...same, name: 'Renamed' })).toBe(true)
+		expect(hasProjectChanges(base, { ...same, tags: ['client'] })).toBe(true)
+		expect(hasProjectChanges(base, { ...same, syncSettings: { ...same.syncSettings, backend: 'webdav' } })).toBe(true)
+		expect(hasProjectChanges(base, { ...same, updatedAt: '2030-01-01T00:00:00.000Z' })).toBe(false)
+	})
+})
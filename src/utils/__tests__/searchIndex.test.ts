@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+
+import { createNode, createProject } from '../../tests/fixtures'
+import type { Node } from '../../types'
+import { NodeType } from '../../types/enums'
+import { SearchIndex, tokenize } from '../searchIndex'
+
+// Archived nodes carry the flag in their data, which the node type leaves out
+const archive = (node: Node): Node => ({ ...node, data: { ...node.data, ...{ isArchived: true } } })
+
+const launch = createProject({
+	id: 'launch',
+	name: 'Launch',
+	nodes: [
+		createNode(
+			'docs',
+			{ title: 'Write documentation', content: 'Cover the café API', tags: ['writing'] },
+			{ type: NodeType.TASK },
+		),
+		createNode('blog', { title: 'Blog post', content: 'Announce the documentation', tags: ['writing', 'marketing'] }),
+		archive(createNode('old', { title: 'Old docs draft', updatedAt: '2022-06-01T00:00:00.000Z' })),
+	],
+})
+const research = createProject({
+	id: 'research',
+	name: 'Research',
+	nodes: [
+		createNode(
+			'survey',
+			{ title: 'User survey', tags: ['marketing'], updatedAt: '2024-03-05T10:00:00.000Z' },
+			{ type: NodeType.NOTE },
+		),
+	],
+})
+
+const ids = (index: SearchIndex, query: string, filters = {}) =>
+	index.search(query, filters).hits.map((hit) => hit.document.nodeId)
+
+describe('searchIndex', () => {
+	it('tokenizes without case and diacritics', () => {
+		expect(tokenize('Café-API, v2!')).toEqual(['cafe', 'api', 'v2'])
+	})
+
+	it('ranks title matches above content matches and needs every term', () => {
+		const index = new SearchIndex()
+		index.indexProject(launch)
+
+		expect(ids(index, 'documentation')).toEqual(['docs', 'blog'])
+		expect(ids(index, 'cafe api')).toEqual(['docs'])
+		expect(ids(index, 'documentation survey')).toEqual([])
+		// The last term matches as a prefix while typing
+		expect(ids(index, 'announce doc')).toEqual(['blog'])
+		// Tags and node types are searchable too
+		expect(ids(index, 'marketing')).toEqual(['blog'])
+		expect(ids(index, 'task')).toEqual(['docs'])
+	})
+
+	it('filters by facets and counts the alternatives', () => {
+		const index = new SearchIndex()
+		index.indexProject(launch)
+		index.indexProject(research)
+
+		const all = index.search('', {})
+		// Archived nodes are left out by default
+		expect(all.total).toBe(3)
+		expect(all.facets.projects).toEqual([
+			{ value: 'launch', label: 'Launch', count: 2 },
+			{ value: 'research', label: 'Research', count: 1 },
+		])
+		expect(all.facets.archived).toBe(1)
+
+		const marketing = index.search('', { tags: ['marketing'], projectIds: ['research'] })
+		expect(marketing.hits.map((hit) => hit.document.nodeId)).toEqual(['survey'])
+		// The project facet ignores its own filter
+		expect(marketing.facets.projects.map((facet) => facet.value)).toEqual(['launch', 'research'])
+
+		expect(ids(index, '', { types: [NodeType.NOTE, NodeType.TASK] })).toEqual(['survey', 'docs'])
+		expect(ids(index, '', { from: '2024-03-01', to: '2024-03-05' })).toEqual(['survey'])
+		expect(ids(index, 'docs', { archived: 'only' })).toEqual(['old'])
+		expect(ids(index, 'docs', { archived: 'include' })).toEqual(['old'])
+	})
+
+	it('updates projects incrementally and removes them', () => {
+		const index = new SearchIndex()
+		index.indexProject(launch)
+		index.indexProject(research)
+
+		index.indexProject({
+			...launch,
+			nodes: [createNode('docs', { title: 'Write release notes' }), createNode('faq', { title: 'FAQ documentation' })],
+		})
+		expect(ids(index, 'documentation')).toEqual(['faq'])
+		expect(ids(index, 'blog')).toEqual([])
+		expect(ids(index, 'release')).toEqual(['docs'])
+
+		index.removeProject('launch')
+		expect(index.size).toBe(1)
+		expect(ids(index, '')).toEqual(['survey'])
+	})
+})
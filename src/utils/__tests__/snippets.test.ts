@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+
+import { EdgeType, NodeType } from '../../types/enums'
+import type { Snippet } from '../../types/snippet'
+import { getSnippetTags, isSameContent, matchesSnippet, placeSnippet, updateSnippetInstances } from '../snippets'
+import { SUBGRAPH_CLIPBOARD_VERSION } from '../subgraphClipboard'
+
+const createSnippet = (overrides: Partial<Snippet> = {}): Snippet => ({
+	id: 'snippet-1',
+	name: 'Retro board',
+	description: 'Columns for a sprint retrospective',
+	tags: ['agile'],
+	version: 2,
+	content: {
+		version: SUBGRAPH_CLIPBOARD_VERSION,
+		nodes: [
+			{ id: 'a', type: NodeType.IDEA, position: { x: 100, y: 50 }, title: 'Went well', content: '', tags: ['retro'], color: '#00ff00' },
+			{ id: 'b', type: NodeType.IDEA, position: { x: 400, y: 50 }, title: 'To improve', content: 'Estimates', tags: [] },
+		],
+		edges: [{ source: 'a', target: 'b', type: EdgeType.DEFAULT }],
+	},
+	history: [],
+	createdAt: '2024-01-01T00:00:00.000Z',
+	updatedAt: '2024-01-02T00:00:00.000Z',
+	...overrides,
+})
+
+describe('snippets', () => {
+	describe('placeSnippet', () => {
+		it('places the nodes at the drop position with new ids', () => {
+			const { nodes, edges } = placeSnippet(createSnippet(), { x: 1000, y: 1000 })
+
+			expect(nodes.map((node) => node.position)).toEqual([
+				{ x: 1000, y: 1000 },
+				{ x: 1300, y: 1000 },
+			])
+			expect(nodes.map((node) => node.id)).not.toContain('a')
+			expect(edges).toHaveLength(1)
+			expect(edges[0]?.source).toBe(nodes[0]?.id)
+			expect(edges[0]?.target).toBe(nodes[1]?.id)
+			expect(nodes[0]?.data.color).toBe('#00ff00')
+		})
+
+		it('links every placed node to the snippet node it came from', () => {
+			const { nodes } = placeSnippet(createSnippet(), { x: 0, y: 0 })
+
+			expect(nodes.map((node) => (node.data as { snippet?: unknown }).snippet)).toEqual([
+				{ snippetId: 'snippet-1', version: 2, sourceNodeId: 'a' },
+				{ snippetId: 'snippet-1', version: 2, sourceNodeId: 'b' },
+			])
+		})
+	})
+
+	describe('matchesSnippet', () => {
+		it('matches name, tags and node text by word prefixes', () => {
+			const snippet = createSnippet()
+
+			expect(matchesSnippet(snippet, '')).toBe(true)
+			expect(matchesSnippet(snippet, 'retro')).toBe(true)
+			expect(matchesSnippet(snippet, 'agil')).toBe(true)
+			expect(matchesSnippet(snippet, 'estim board')).toBe(true)
+			expect(matchesSnippet(snippet, 'kanban')).toBe(false)
+		})
+	})
+
+	describe('getSnippetTags', () => {
+		it('counts tags, most used first', () => {
+			const snippets = [
+				createSnippet({ tags: ['agile', 'team'] }),
+				createSnippet({ id: 'snippet-2', tags: ['team'] }),
+			]
+
+			expect(getSnippetTags(snippets)).toEqual([
+				{ tag: 'team', count: 2 },
+				{ tag: 'agile', count: 1 },
+			])
+		})
+	})
+
+	describe('isSameContent', () => {
+		it('ignores the project the nodes were copied from', () => {
+			const { content } = createSnippet()
+
+			expect(isSameContent(content, { ...content, sourceProjectId: 'project-1' })).toBe(true)
+			expect(isSameContent(content, { ...content, edges: [] })).toBe(false)
+		})
+	})
+
+	describe('updateSnippetInstances', () => {
+		const placedNode = (id: string, sourceNodeId: string, version: number, snippetId = 'snippet-1') => ({
+			id,
+			position: { x: 5, y: 5 },
+			data: {
+				title: 'Old title',
+				label: 'Old title',
+				content: 'Old content',
+				tags: [],
+				color: '#123456',
+				snippet: { snippetId, version, sourceNodeId },
+			},
+		})
+
+		it('takes text, tags and color from the snippet and keeps the position', () => {
+			const { nodes, updated } = updateSnippetInstances([placedNode('x', 'b', 1)], createSnippet())
+
+			expect(updated).toBe(1)
+			expect(nodes[0]?.position).toEqual({ x: 5, y: 5 })
+			expect(nodes[0]?.data).toMatchObject({
+				title: 'To improve',
+				label: 'To improve',
+				content: 'Estimates',
+				tags: [],
+				snippet: { snippetId: 'snippet-1', version: 2, sourceNodeId: 'b' },
+			})
+			expect(nodes[0]?.data.color).toBeUndefined()
+		})
+
+		it('leaves current nodes and nodes of other snippets alone', () => {
+			const current = placedNode('x', 'a', 2)
+			const other = placedNode('y', 'a', 1, 'snippet-2')
+			const { nodes, updated } = updateSnippetInstances([current, other], createSnippet())
+
+			expect(updated).toBe(0)
+			expect(nodes[0]).toBe(current)
+			expect(nodes[1]).toBe(other)
+		})
+
+		it('only moves nodes removed from the snippet to the new version', () => {
+			const { nodes, updated } = updateSnippetInstances([placedNode('x', 'gone', 1)], createSnippet())
+
+			expect(updated).toBe(0)
+			expect(nodes[0]?.data.title).toBe('Old title')
+			expect(nodes[0]?.data.snippet.version).toBe(2)
+		})
+	})
+})
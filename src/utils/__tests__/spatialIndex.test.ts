@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+
+import { SpatialIndex, expandRect, rectsIntersect, unionRects, type Rect } from '../spatialIndex'
+
+// Deterministic pseudo-random numbers, so failures can be reproduced
+const random = (seed: number) => () => {
+	seed = (seed * 16807) % 2147483647
+	return seed / 2147483647
+}
+
+const bruteForce = (rects: Map<string, Rect>, area: Rect) =>
+	[...rects].filter(([, rect]) => rectsIntersect(rect, area)).map(([id]) => id).sort()
+
+describe('SpatialIndex', () => {
+	it('finds the same items as checking every rectangle', () => {
+		const next = random(42)
+		const rects = new Map<string, Rect>()
+		const index = new SpatialIndex()
+		for (let i = 0; i < 2000; i++) {
+			const rect = { x: next() * 20000 - 5000, y: next() * 12000 - 3000, width: 200, height: 100 }
+			rects.set(`n${i}`, rect)
+			index.set(`n${i}`, rect)
+		}
+
+		for (let query = 0; query < 50; query++) {
+			const area = { x: next() * 20000 - 5000, y: next() * 12000 - 3000, width: 1200, height: 800 }
+			expect(index.search(area).sort()).toEqual(bruteForce(rects, area))
+		}
+		expect(index.size).toBe(2000)
+	})
+
+	it('moves and removes items', () => {
+		const index = new SpatialIndex()
+		index.set('a', { x: 0, y: 0, width: 100, height: 100 })
+		index.set('b', { x: 500, y: 500, width: 100, height: 100 })
+
+		expect(index.set('a', { x: 0, y: 0, width: 100, height: 100 })).toBe(false)
+		expect(index.set('a', { x: 50000, y: -50000, width: 100, height: 100 })).toBe(true)
+		expect(index.search({ x: 0, y: 0, width: 200, height: 200 })).toEqual([])
+		expect(index.search({ x: 49900, y: -50100, width: 300, height: 300 })).toEqual(['a'])
+
+		expect(index.delete('b')).toBe(true)
+		expect(index.search({ x: 400, y: 400, width: 300, height: 300 })).toEqual([])
+		expect(index.getBounds()).toEqual({ x: 50000, y: -50000, width: 100, height: 100 })
+	})
+
+	it('leaves out items with broken bounds', () => {
+		const index = new SpatialIndex()
+		index.set('a', { x: Number.NaN, y: 0, width: 100, height: 100 })
+
+		expect(index.size).toBe(0)
+		expect(index.getBounds()).toBeNull()
+	})
+
+	it('combines rectangles', () => {
+		expect(expandRect({ x: 0, y: 0, width: 10, height: 10 }, 5)).toEqual({ x: -5, y: -5, width: 20, height: 20 })
+		expect(
+			unionRects([
+				{ x: 0, y: 0, width: 10, height: 10 },
+				{ x: 20, y: -10, width: 10, height: 10 },
+			]),
+		).toEqual({ x: 0, y: -10, width: 30, height: 20 })
+		expect(unionRects([])).toBeNull()
+	})
+})
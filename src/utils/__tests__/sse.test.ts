@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+
+import { parseCompletionChunk, readServerSentEvents, type ServerSentEvent } from '../sse'
+
+const streamOf = (parts: string[]) => {
+	const encoder = new TextEncoder()
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			parts.forEach((part) => controller.enqueue(encoder.encode(part)))
+			controller.close()
+		},
+	})
+}
+
+const collect = async (parts: string[]) => {
+	const events: ServerSentEvent[] = []
+	for await (const event of readServerSentEvents(streamOf(parts))) events.push(event)
+	return events
+}
+
+describe('sse', () => {
+	it('reads events split across chunks', async () => {
+		const events = await collect([': ping\n\nda', 'ta: {"a":1}\r\n\r\nevent: note\nid: 7\ndata: one\ndata: two\n', '\ndata: last'])
+
+		expect(events).toEqual([
+			{ event: 'message', data: '{"a":1}' },
+			{ event: 'note', id: '7', data: 'one\ntwo' },
+			{ event: 'message', data: 'last' },
+		])
+	})
+
+	it('reads a CRLF line break split across chunks as one break', async () => {
+		const events = await collect(['data: one\r', '\ndata: two\r\n\r', '\ndata: three\r\n\r\n'])
+
+		expect(events).toEqual([
+			{ event: 'message', data: 'one\ntwo' },
+			{ event: 'message', data: 'three' },
+		])
+	})
+
+	it('reads completion chunks', () => {
+		expect(parseCompletionChunk('{"choices":[{"delta":{"content":"Hi"},"finish_reason":null}]}')).toEqual({ delta: 'Hi' })
+		expect(
+			parseCompletionChunk('{"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":4,"total_tokens":7}}'),
+		).toEqual({ delta: '', usage: { promptTokens: 3, completionTokens: 4, totalTokens: 7 } })
+		expect(parseCompletionChunk('{"error":{"message":"Overloaded"}}')).toEqual({ delta: '', error: 'Overloaded' })
+		expect(parseCompletionChunk('not json')).toBeNull()
+	})
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+
+import { extractJson, parseStructuredOutput, repairJson } from '../structuredOutput'
+
+describe('structuredOutput', () => {
+	const schema = z.object({ nodes: z.array(z.object({ title: z.string() })) })
+
+	it('finds the JSON between prose and code fences', () => {
+		expect(extractJson('Sure! {"a": {"b": "}"}} Hope this helps')).toBe('{"a": {"b": "}"}}')
+		expect(extractJson('```json\n{"a": 1}\n```\nThe object above…')).toBe('{"a": 1}')
+		expect(extractJson('No data here')).toBeNull()
+	})
+
+	it('repairs comments, trailing commas and cut-off output', () => {
+		expect(JSON.parse(repairJson('{"a": 1, // note\n "b": [1, 2,],}'))).toEqual({ a: 1, b: [1, 2] })
+		expect(JSON.parse(repairJson('{"nodes": [{"title": "Sol'))).toEqual({ nodes: [{ title: 'Sol' }] })
+		expect(JSON.parse(repairJson('{"nodes": [{"title": "Solar", "content":'))).toEqual({
+			nodes: [{ title: 'Solar' }],
+		})
+		expect(JSON.parse(repairJson('{"nodes": [{"title": "Solar", "cont'))).toEqual({ nodes: [{ title: 'Solar' }] })
+	})
+
+	it('tells syntax errors from schema errors', () => {
+		expect(parseStructuredOutput('```\n{"nodes": [{"title": "Solar"}]\n```', schema)).toEqual({
+			success: true,
+			data: { nodes: [{ title: 'Solar' }] },
+		})
+		expect(parseStructuredOutput('I cannot help with that', schema)).toMatchObject({ success: false, kind: 'syntax' })
+		expect(parseStructuredOutput('{"nodes": [{"title": 1}]}', schema)).toEqual({
+			success: false,
+			kind: 'schema',
+			error: 'nodes.0.title: Expected string, received number',
+		})
+	})
+})
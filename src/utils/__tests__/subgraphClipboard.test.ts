@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+
+import { createNode } from '../../tests/fixtures'
+import { EdgeType, NodeType } from '../../types/enums'
+import { copySubgraph, parseSubgraph, pasteSubgraph, serializeSubgraph, SUBGRAPH_MIME_TYPE } from '../subgraphClipboard'
+
+const nodes = [
+	createNode(
+		'g',
+		{ title: 'Title g', content: 'Content g' },
+		{ type: NodeType.GROUP, position: { x: 100, y: 100 }, style: { width: 400, height: 300 } },
+	),
+	createNode(
+		'a',
+		{ title: 'Title a', content: 'Content a', tags: ['ux'], color: '#ff0000' },
+		{ position: { x: 20, y: 70 }, parentId: 'g' },
+	),
+	createNode('b', { title: 'Title b', content: 'Content b' }, { position: { x: 600, y: 100 } }),
+	createNode('c', { title: 'Title c', content: 'Content c' }, { position: { x: 900, y: 900 } }),
+]
+const edges = [
+	{ id: 'e1', source: 'a', target: 'b', type: EdgeType.DEFAULT, label: 'leads to' },
+	{ id: 'e2', source: 'b', target: 'c', type: EdgeType.DEFAULT },
+]
+
+describe('subgraphClipboard', () => {
+	it('copies selected nodes, members of selected groups and the edges between them', () => {
+		const payload = copySubgraph(nodes, edges, ['g', 'b'], 'project-1')!
+
+		expect(payload.sourceProjectId).toBe('project-1')
+		expect(payload.nodes.map((node) => node.id)).toEqual(['g', 'a', 'b'])
+		expect(payload.nodes[0]!.size).toEqual({ width: 400, height: 300 })
+		expect(payload.nodes[1]).toMatchObject({ parentId: 'g', position: { x: 20, y: 70 }, tags: ['ux'], color: '#ff0000' })
+		expect(payload.edges).toEqual([{ source: 'a', target: 'b', type: EdgeType.DEFAULT, label: 'leads to' }])
+
+		// A member copied without its group keeps its place on the canvas
+		const member = copySubgraph(nodes, edges, ['a'])!
+		expect(member.nodes).toEqual([expect.objectContaining({ id: 'a', position: { x: 120, y: 170 } })])
+		expect(member.nodes[0]!.parentId).toBeUndefined()
+
+		expect(copySubgraph(nodes, edges, [])).toBeNull()
+	})
+
+	it('pastes with new IDs at the cursor', () => {
+		const payload = copySubgraph(nodes, edges, ['g', 'b'])!
+		const { nodes: pasted, edges: pastedEdges } = pasteSubgraph(payload, { x: 0, y: 0 })
+		const [group, a, b] = pasted
+
+		expect(pasted.some((node) => ['g', 'a', 'b'].includes(node.id))).toBe(false)
+		expect(new Set(pasted.map((node) => node.id)).size).toBe(3)
+		// The top-left corner lands on the cursor, members stay relative to their group
+		expect(group).toMatchObject({ type: NodeType.GROUP, position: { x: 0, y: 0 }, style: { width: 400, height: 300 } })
+		expect(a).toMatchObject({ parentId: group!.id, position: { x: 20, y: 70 } })
+		expect(a!.data).toMatchObject({ id: a!.id, title: 'Title a', tags: ['ux'], color: '#ff0000' })
+		expect(b!.position).toEqual({ x: 500, y: 0 })
+		expect(pastedEdges).toEqual([
+			{ id: `e${a!.id}-${b!.id}`, source: a!.id, target: b!.id, type: EdgeType.DEFAULT, label: 'leads to' },
+		])
+
+		// Without a cursor the copy is placed next to the original
+		expect(pasteSubgraph(payload).nodes[2]!.position).toEqual({ x: 640, y: 140 })
+	})
+
+	it('round-trips through the clipboard formats', () => {
+		const payload = copySubgraph(nodes, edges, ['g', 'b'])!
+		const data = new Map(Object.entries(serializeSubgraph(payload, 'Copied nodes')))
+
+		expect(parseSubgraph(data.get(SUBGRAPH_MIME_TYPE)!)).toEqual(payload)
+		expect(data.get('text/markdown')).toContain('# Copied nodes')
+		expect(data.get('text/markdown')).toContain('  - [idea] Title a #ux')
+		expect(data.get('text/plain')).toBe('Title g\n  Content g\n  Title a\n    Content a\n    Title b\n      Content b\n')
+	})
+
+	it('rejects invalid data and newer payload versions', () => {
+		const payload = copySubgraph(nodes, edges, ['b'])!
+
+		expect(parseSubgraph('not json')).toBeNull()
+		expect(parseSubgraph(JSON.stringify({ ...payload, version: 2 }))).toBeNull()
+		expect(parseSubgraph(JSON.stringify({ ...payload, nodes: [] }))).toBeNull()
+	})
+})
@@ -0,0 +1,110 @@
+import type { Viewport } from 'reactflow'
+
+import { getAbsolutePosition, getNodeSize, isGroupNode, type GroupableNode } from './groups'
+import { rectsIntersect, unionRects, type Rect, type SpatialIndex } from './spatialIndex'
+
+// Below this many nodes everything is rendered
+export const VIRTUALIZATION_THRESHOLD = 200
+
+// Screen pixels rendered around the viewport, so panning doesn't show gaps
+export const VIEWPORT_MARGIN = 300
+
+// Below this zoom nodes are drawn as simplified shapes
+export const LOD_ZOOM = 0.4
+
+// Node type of the simplified shape
+export const LOD_NODE_TYPE = 'lod'
+
+interface CullableNode extends GroupableNode {
+	selected?: boolean
+}
+
+interface CullableEdge {
+	source: string
+	target: string
+}
+
+/**
+ * Area of the canvas shown in the viewport, in canvas coordinates
+ * @param viewport Pan and zoom of the canvas
+ * @param width Width of the canvas element in pixels
+ * @param height Height of the canvas element in pixels
+ */
+export function viewportToRect(viewport: Viewport, width: number, height: number): Rect {
+	return {
+		x: -viewport.x / viewport.zoom,
+		y: -viewport.y / viewport.zoom,
+		width: width / viewport.zoom,
+		height: height / viewport.zoom,
+	}
+}
+
+/**
+ * Brings the index up to date with the nodes. Only nodes whose bounds changed
+ * are moved, so this is cheap while dragging.
+ * @param index Index of the node bounds
+ * @param nodes Current nodes
+ * @returns Whether any bounds changed
+ */
+export function syncSpatialIndex(index: SpatialIndex, nodes: GroupableNode[]): boolean {
+	const nodesById = new Map(nodes.map((node) => [node.id, node]))
+	let changed = false
+	for (const node of nodes) {
+		const position = getAbsolutePosition(node, nodesById)
+		changed = index.set(node.id, { ...position, ...getNodeSize(node) }) || changed
+	}
+	for (const id of [...index.ids()]) {
+		if (!nodesById.has(id)) changed = index.delete(id) || changed
+	}
+	return changed
+}
+
+/**
+ * Picks the nodes and edges to render for an area of the canvas. Selected
+ * nodes are kept so they move along when dragged, groups of shown members are
+ * kept for React Flow, and edges crossing the area keep both of their nodes.
+ * @param index Index of the node bounds, in sync with the nodes
+ * @param nodes All nodes, in render order
+ * @param edges All edges
+ * @param area Area to render, e.g. the viewport with a margin
+ */
+export function selectVisibleElements<N extends CullableNode, E extends CullableEdge>(
+	index: SpatialIndex,
+	nodes: N[],
+	edges: E[],
+	area: Rect,
+): { nodes: N[]; edges: E[] } {
+	const shown = new Set(index.search(area))
+	nodes.forEach((node) => {
+		if (node.selected === true) shown.add(node.id)
+	})
+
+	const visibleEdges = edges.filter((edge) => {
+		const source = index.get(edge.source)
+		const target = index.get(edge.target)
+		if (source === undefined || target === undefined) return false
+		if (!shown.has(edge.source) || !shown.has(edge.target)) {
+			const span = unionRects([source, target])
+			if (span === null || !rectsIntersect(span, area)) return false
+			shown.add(edge.source)
+			shown.add(edge.target)
+		}
+		return true
+	})
+
+	nodes.forEach((node) => {
+		if (node.parentId !== undefined && shown.has(node.id)) shown.add(node.parentId)
+	})
+
+	return { nodes: nodes.filter((node) => shown.has(node.id)), edges: visibleEdges }
+}
+
+/**
+ * Simplified version of a node for drawing when zoomed out. Group frames stay
+ * as they are, they are cheap and hold the layout together.
+ * @param node Node to simplify
+ */
+export function toLevelOfDetail<N extends GroupableNode>(node: N): N {
+	if (isGroupNode(node)) return node
+	return { ...node, type: LOD_NODE_TYPE, style: { ...node.style, ...getNodeSize(node) } }
+}
@@ -0,0 +1,76 @@
+import type { GitCommit } from '../types'
+
+/**
+ * One row of the commit graph. Lanes are columns; a row draws
+ * - `incoming` lanes from the top edge into the commit dot,
+ * - `passThrough` lanes straight from top to bottom,
+ * - `outgoing` lanes from the commit dot to the bottom edge (one per parent).
+ */
+export interface CommitGraphRow {
+	commit: GitCommit
+	lane: number
+	incoming: number[]
+	passThrough: number[]
+	outgoing: number[]
+}
+
+export interface CommitGraphLayout {
+	rows: CommitGraphRow[]
+	laneCount: number
+}
+
+/**
+ * Assigns commits to lanes for drawing a branch graph next to a commit list
+ * @param commits Commits ordered newest first; every commit must come before its parents
+ * @returns Rows in the same order plus the number of lanes needed
+ */
+export function layoutCommitGraph(commits: GitCommit[]): CommitGraphLayout {
+	const known = new Set(commits.map((commit) => commit.id))
+	// Each lane holds the ID of the commit it is waiting for
+	const lanes: (string | null)[] = []
+	let laneCount = 0
+
+	const claimLane = (commitId: string): number => {
+		const free = lanes.indexOf(null)
+		if (free === -1) {
+			lanes.push(commitId)
+			return lanes.length - 1
+		}
+		lanes.splice(free, 1, commitId)
+		return free
+	}
+
+	const rows = commits.map((commit) => {
+		const incoming = lanes.flatMap((waiting, index) => (waiting === commit.id ? [index] : []))
+		const lane = incoming[0] ?? claimLane(commit.id)
+
+		for (const index of incoming) {
+			lanes.splice(index, 1, null)
+		}
+
+		const passThrough = lanes.flatMap((waiting, index) => (waiting !== null && index !== lane ? [index] : []))
+
+		const outgoing: number[] = []
+		const parents = commit.parents.filter((parent) => known.has(parent))
+		parents.forEach((parent, index) => {
+			if (index === 0) {
+				lanes.splice(lane, 1, parent)
+				outgoing.push(lane)
+				return
+			}
+			const existing = lanes.indexOf(parent)
+			outgoing.push(existing === -1 ? claimLane(parent) : existing)
+		})
+
+		// Free trailing lanes so the graph narrows again
+		while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+			lanes.pop()
+		}
+
+		laneCount = Math.max(laneCount, lane + 1, ...incoming.map((index) => index + 1), lanes.length)
+
+		return { commit, lane, incoming, passThrough, outgoing }
+	})
+
+	return { rows, laneCount }
+}
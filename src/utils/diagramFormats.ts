@@ -0,0 +1,1008 @@
+import type { Edge, Node, Project } from '../types'
+import { EdgeType, NodeType } from '../types/enums'
+
+import { groupNodes, isGroupNode } from './groups'
+import { generateUniqueId } from './idGenerator'
+
+export type DiagramFormat = 'mermaid' | 'dot'
+
+/** Main flow direction: top to bottom or left to right */
+export type DiagramDirection = 'TB' | 'LR'
+
+export interface DiagramNode {
+	/** Identifier used inside the diagram source */
+	key: string
+	label: string
+	type: NodeType
+	/** Key of the group (subgraph or cluster) the node belongs to */
+	group?: string
+	/** Groups only: shown collapsed on the canvas */
+	collapsed?: boolean
+}
+
+export interface DiagramEdge {
+	source: string
+	target: string
+	type: EdgeType
+	label?: string
+}
+
+/**
+ * Format independent graph read from a Mermaid or DOT document
+ */
+export interface Diagram {
+	title: string
+	direction: DiagramDirection
+	nodes: DiagramNode[]
+	edges: DiagramEdge[]
+}
+
+// Spacing of the layered layout built on import
+const LAYER_SPACING = 220
+const SIBLING_SPACING = 260
+
+/**
+ * Picks the direction that matches how the edges of a project mostly run
+ */
+function detectDirection(project: Project): DiagramDirection {
+	const positions = new Map(project.nodes.map((node) => [node.id, node.position]))
+	let horizontal = 0
+	let vertical = 0
+	for (const edge of project.edges) {
+		const source = positions.get(edge.source)
+		const target = positions.get(edge.target)
+		if (!source || !target) continue
+		horizontal += Math.abs(target.x - source.x)
+		vertical += Math.abs(target.y - source.y)
+	}
+	return horizontal > vertical ? 'LR' : 'TB'
+}
+
+/**
+ * Gives every node a short identifier that is valid in both formats
+ */
+function createKeys(project: Project): Map<string, string> {
+	return new Map(project.nodes.map((node, index) => [node.id, `n${index + 1}`]))
+}
+
+// Group frames are written as subgraphs, so edges to them are dropped
+const exportableEdges = (project: Project, keys: Map<string, string>) =>
+	project.edges.flatMap((edge) => {
+		const source = keys.get(edge.source)
+		const target = keys.get(edge.target)
+		return source !== undefined && target !== undefined ? [{ edge, source, target }] : []
+	})
+
+/**
+ * Splits the nodes of a project into group frames with their members and
+ * nodes outside of any group
+ */
+const partitionGroups = (project: Project) => {
+	const groups = project.nodes.filter(isGroupNode)
+	const groupIds = new Set(groups.map((group) => group.id))
+	return {
+		groups: groups.map((group) => ({
+			group,
+			members: project.nodes.filter((node) => node.parentId === group.id),
+		})),
+		ungrouped: project.nodes.filter(
+			(node) => !isGroupNode(node) && (node.parentId === undefined || !groupIds.has(node.parentId)),
+		),
+	}
+}
+
+// Mermaid ----------------------------------------------------------------
+
+const MERMAID_SHAPES: Record<NodeType, [string, string]> = {
+	[NodeType.IDEA]: ['(', ')'],
+	[NodeType.TASK]: ['[', ']'],
+	[NodeType.NOTE]: ['>', ']'],
+	[NodeType.RESOURCE]: ['[(', ')]'],
+	// Groups are written as subgraphs
+	[NodeType.GROUP]: ['[', ']'],
+}
+
+const MERMAID_LINKS: Record<EdgeType, string> = {
+	[EdgeType.DEFAULT]: '-->',
+	[EdgeType.STEP]: '==>',
+	[EdgeType.SMOOTHSTEP]: '-.->',
+	[EdgeType.STRAIGHT]: '---',
+}
+
+// Openers ordered so that two-character shapes win over their one-character prefix
+const MERMAID_OPENERS: { open: string; close: string; type: NodeType }[] = [
+	{ open: '([', close: '])', type: NodeType.IDEA },
+	{ open: '((', close: '))', type: NodeType.IDEA },
+	{ open: '[(', close: ')]', type: NodeType.RESOURCE },
+	{ open: '[[', close: ']]', type: NodeType.TASK },
+	{ open: '{{', close: '}}', type: NodeType.TASK },
+	{ open: '[/', close: '/]', type: NodeType.NOTE },
+	{ open: '[\\', close: '\\]', type: NodeType.NOTE },
+	{ open: '(', close: ')', type: NodeType.IDEA },
+	{ open: '[', close: ']', type: NodeType.TASK },
+	{ open: '{', close: '}', type: NodeType.TASK },
+	{ open: '>', close: ']', type: NodeType.NOTE },
+]
+
+const MERMAID_SKIPPED = /^(classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/
+
+// `#` goes first so that text looking like an entity, and `<` so that a typed `<br>`, come back as typed
+const escapeMermaid = (value: string) =>
+	value
+		.replace(/#/g, '#35;')
+		.replace(/"/g, '#quot;')
+		.replace(/\|/g, '#124;')
+		.replace(/</g, '#60;')
+		.replace(/\r?\n/g, '<br>')
+
+const unescapeMermaid = (value: string) =>
+	value
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/#(quot|\d+);/g, (_match, code: string) => (code === 'quot' ? '"' : String.fromCharCode(Number(code))))
+
+/**
+ * Writes the graph of a project as a Mermaid flowchart. Node types map to
+ * shapes (idea: rounded, task: box, note: flag, resource: cylinder) and edge
+ * types to link styles. Groups become subgraphs around their members, with
+ * the class `collapsed` when collapsed. Only node titles are written.
+ * @param project Project to export
+ * @returns Mermaid source
+ */
+export function exportMermaid(project: Project): string {
+	const keys = createKeys(project)
+	const lines = ['---', `title: ${project.name.replace(/\r?\n/g, ' ')}`, '---', `flowchart ${detectDirection(project)}`]
+	const { groups, ungrouped } = partitionGroups(project)
+
+	const writeNode = (node: Node, indent: string) => {
+		const [open, close] = MERMAID_SHAPES[node.type] ?? MERMAID_SHAPES[NodeType.IDEA]
+		lines.push(`${indent}${keys.get(node.id)}${open}"${escapeMermaid(node.data.title)}"${close}`)
+	}
+
+	for (const { group, members } of groups) {
+		lines.push(`    subgraph ${keys.get(group.id)} ["${escapeMermaid(group.data.title)}"]`)
+		members.forEach((node) => writeNode(node, '        '))
+		lines.push('    end')
+	}
+	ungrouped.forEach((node) => writeNode(node, '    '))
+
+	const collapsed = groups.filter(({ group }) => group.data.collapsed === true).map(({ group }) => keys.get(group.id))
+	if (collapsed.length > 0) {
+		lines.push('    classDef collapsed stroke-dasharray: 4 4', `    class ${collapsed.join(',')} collapsed`)
+	}
+
+	for (const { edge, source, target } of exportableEdges(project, keys)) {
+		const link = MERMAID_LINKS[edge.type ?? EdgeType.DEFAULT] ?? MERMAID_LINKS[EdgeType.DEFAULT]
+		const label = edge.label ? `|"${escapeMermaid(edge.label)}"|` : ''
+		lines.push(`    ${source} ${link}${label} ${target}`)
+	}
+
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Maps the characters of a Mermaid link to an edge type: thick links are
+ * steps, dotted links smooth steps and links without an arrow head straight
+ */
+function mermaidLinkType(link: string): EdgeType {
+	if (link.includes('=')) return EdgeType.STEP
+	if (link.includes('.')) return EdgeType.SMOOTHSTEP
+	if (!/[>ox]$/.test(link)) return EdgeType.STRAIGHT
+	return EdgeType.DEFAULT
+}
+
+/**
+ * Splits a line at `;` separators outside of quoted labels
+ */
+function splitStatements(line: string): string[] {
+	const statements: string[] = []
+	let quoted = false
+	let start = 0
+	for (let i = 0; i < line.length; i++) {
+		const char = line.charAt(i)
+		if (char === '"') quoted = !quoted
+		if (char === ';' && !quoted) {
+			statements.push(line.slice(start, i))
+			start = i + 1
+		}
+	}
+	statements.push(line.slice(start))
+	return statements.map((statement) => statement.trim()).filter(Boolean)
+}
+
+const MERMAID_ID = /^\s*\w[\w-]*/
+const MERMAID_LINK = /^\s*<?(-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-|--[ox]|==[ox])/
+const MERMAID_LINK_LABEL = /^\s*\|([^|]*)\|/
+const MERMAID_TEXT_LINK_OPEN = /^\s*<?(--|==|-\.)\s+/
+const MERMAID_TEXT_LINK_CLOSE = /\s+(-{2,}>|-{3,}|={2,}>|={3,}|\.-+>|\.-+)/
+
+/**
+ * Reads the node id a statement starts with. Ids are words joined by single
+ * hyphens, so `A-->B` starts with `A`.
+ */
+function readMermaidId(source: string): { id: string; length: number } | null {
+	const match = MERMAID_ID.exec(source)
+	if (!match) return null
+	const end = match[0].search(/-(?=-|$)/)
+	const text = end >= 0 ? match[0].slice(0, end) : match[0]
+	return { id: text.trim(), length: text.length }
+}
+
+/**
+ * Reads the link a statement continues with: an arrow with an optional
+ * `|label|`, or an arrow around its label like `-- label -->`
+ */
+function readMermaidLink(source: string): { type: EdgeType; label: string | undefined; length: number } | null {
+	const link = MERMAID_LINK.exec(source)
+	if (link) {
+		const label = MERMAID_LINK_LABEL.exec(source.slice(link[0].length))
+		return {
+			type: mermaidLinkType(link[1] ?? ''),
+			label: label?.[1],
+			length: link[0].length + (label?.[0].length ?? 0),
+		}
+	}
+
+	const open = MERMAID_TEXT_LINK_OPEN.exec(source)
+	if (!open) return null
+	const text = source.slice(open[0].length)
+	const close = MERMAID_TEXT_LINK_CLOSE.exec(text)
+	if (!close) return null
+	return {
+		type: mermaidLinkType(`${open[1] ?? ''}${close[1] ?? ''}`),
+		label: text.slice(0, close.index),
+		length: open[0].length + close.index + close[0].length,
+	}
+}
+
+/**
+ * Reads a Mermaid `flowchart` or `graph`. Subgraphs become groups holding the
+ * nodes first declared inside them; styling statements are ignored.
+ * @param text Mermaid source
+ * @returns Parsed diagram
+ * @throws Error if the document is not a flowchart
+ */
+export function parseMermaid(text: string): Diagram {
+	const diagram: Diagram = { title: '', direction: 'TB', nodes: [], edges: [] }
+	const nodes = new Map<string, DiagramNode>()
+	// Nodes given a shape or label; later bare references must not reset them
+	const defined = new Set<string>()
+	// Open subgraphs, innermost last
+	const subgraphs: string[] = []
+	let lines = text.split(/\r?\n/)
+
+	// Front matter with a title
+	if (lines[0]?.trim() === '---') {
+		const end = lines.indexOf('---', 1)
+		if (end > 0) {
+			for (const line of lines.slice(1, end)) {
+				const title = /^\s*title:\s*(.*)$/.exec(line)
+				if (title) diagram.title = title[1]?.trim() ?? ''
+			}
+			lines = lines.slice(end + 1)
+		}
+	}
+
+	const readNode = (source: string): { node: DiagramNode; rest: string } | null => {
+		const id = readMermaidId(source)
+		if (!id) return null
+		const key = id.id
+		let rest = source.slice(id.length)
+		let node = nodes.get(key)
+		if (!node) {
+			const group = subgraphs[subgraphs.length - 1]
+			node = { key, label: key, type: NodeType.IDEA, ...(group !== undefined ? { group } : {}) }
+			nodes.set(key, node)
+			diagram.nodes.push(node)
+		}
+
+		const shape = MERMAID_OPENERS.find(({ open }) => rest.startsWith(open))
+		if (shape) {
+			rest = rest.slice(shape.open.length)
+			let label: string
+			const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(rest)
+			if (quoted) {
+				label = quoted[1] ?? ''
+				rest = rest.slice(quoted[0].length)
+			} else {
+				const end = rest.indexOf(shape.close)
+				label = end >= 0 ? rest.slice(0, end) : rest
+				rest = end >= 0 ? rest.slice(end) : ''
+			}
+			if (rest.startsWith(shape.close)) rest = rest.slice(shape.close.length)
+			if (!defined.has(key)) {
+				node.label = unescapeMermaid(label.trim())
+				node.type = shape.type
+				defined.add(key)
+			}
+		}
+		return { node, rest }
+	}
+
+	// Reads `A & B`, returning the nodes and the remaining source
+	const readGroup = (source: string): { group: DiagramNode[]; rest: string } | null => {
+		const group: DiagramNode[] = []
+		let rest = source
+		for (;;) {
+			const result = readNode(rest)
+			if (!result) return group.length > 0 ? { group, rest } : null
+			group.push(result.node)
+			rest = result.rest
+			const ampersand = /^\s*&/.exec(rest)
+			if (!ampersand) return { group, rest }
+			rest = rest.slice(ampersand[0].length)
+		}
+	}
+
+	// Reads `subgraph id [title]`, `subgraph id` or `subgraph title`
+	const openSubgraph = (spec: string) => {
+		const id = readMermaidId(spec)
+		const rest = id ? spec.slice(id.length).trim() : ''
+		const titled = id !== null && rest.startsWith('[') && rest.endsWith(']')
+		const single = id !== null && id.length === spec.length
+		const key = titled || single ? id.id : `subgraph${subgraphs.length}_${diagram.nodes.length}`
+		const bracketed = rest.slice(1, -1).trim()
+		const quoted = /^"((?:[^"\\]|\\.)*)"$/.exec(bracketed)
+		const title = titled ? (quoted?.[1] ?? bracketed) : spec.replace(/^"(.*)"$/, '$1')
+		if (!nodes.has(key)) {
+			const node: DiagramNode = { key, label: unescapeMermaid(title.trim()), type: NodeType.GROUP }
+			nodes.set(key, node)
+			defined.add(key)
+			diagram.nodes.push(node)
+		}
+		subgraphs.push(key)
+	}
+
+	let header = false
+	for (const rawLine of lines) {
+		const line = rawLine.trim()
+		if (!line || line.startsWith('%%')) continue
+
+		if (!header) {
+			const match = /^(flowchart|graph)\b\s*(\w*)/i.exec(line)
+			if (!match) {
+				throw new Error('Not a Mermaid flowchart')
+			}
+			const direction = match[2]?.toUpperCase() ?? 'TB'
+			diagram.direction = direction === 'LR' || direction === 'RL' ? 'LR' : 'TB'
+			header = true
+			continue
+		}
+
+		for (const statement of splitStatements(line)) {
+			const subgraph = /^subgraph\s+(.+)$/.exec(statement)
+			if (subgraph) {
+				openSubgraph(subgraph[1]?.trim() ?? '')
+				continue
+			}
+			if (statement === 'end') {
+				subgraphs.pop()
+				continue
+			}
+			const collapsed = /^class\s+([\w,-]+)\s+collapsed$/.exec(statement)
+			if (collapsed) {
+				for (const key of collapsed[1]?.split(',') ?? []) {
+					const group = nodes.get(key)
+					if (group?.type === NodeType.GROUP) group.collapsed = true
+				}
+				continue
+			}
+			if (MERMAID_SKIPPED.test(statement)) continue
+
+			let current = readGroup(statement)
+			while (current) {
+				const link = readMermaidLink(current.rest)
+				if (!link) break
+
+				const next = readGroup(current.rest.slice(link.length))
+				if (!next) break
+				const { label } = link
+				const cleanLabel = label !== undefined ? unescapeMermaid(label.trim().replace(/^"(.*)"$/, '$1')) : ''
+				for (const source of current.group) {
+					for (const target of next.group) {
+						diagram.edges.push({
+							source: source.key,
+							target: target.key,
+							type: link.type,
+							...(cleanLabel ? { label: cleanLabel } : {}),
+						})
+					}
+				}
+				current = next
+			}
+		}
+	}
+
+	if (!header) {
+		throw new Error('Not a Mermaid flowchart')
+	}
+	return diagram
+}
+
+// Graphviz DOT -----------------------------------------------------------
+
+const DOT_SHAPES: Record<NodeType, string> = {
+	[NodeType.IDEA]: 'ellipse',
+	[NodeType.TASK]: 'box',
+	[NodeType.NOTE]: 'note',
+	[NodeType.RESOURCE]: 'cylinder',
+	// Groups are written as clusters
+	[NodeType.GROUP]: 'box',
+}
+
+const DOT_EDGE_ATTRIBUTES: Record<EdgeType, string[]> = {
+	[EdgeType.DEFAULT]: [],
+	[EdgeType.STEP]: ['style=bold'],
+	[EdgeType.SMOOTHSTEP]: ['style=dashed'],
+	[EdgeType.STRAIGHT]: ['arrowhead=none'],
+}
+
+const quoteDot = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`
+
+/**
+ * Writes the graph of a project as a Graphviz digraph. Node types map to
+ * shapes (idea: ellipse, task: box, note: note, resource: cylinder) and edge
+ * types to edge styles. Groups become clusters around their members, marked
+ * with `collapsed=true` when collapsed. Only node titles are written.
+ * @param project Project to export
+ * @returns DOT source
+ */
+export function exportDot(project: Project): string {
+	const keys = createKeys(project)
+	const lines = [
+		`digraph ${quoteDot(project.name)} {`,
+		`    label=${quoteDot(project.name)};`,
+		`    rankdir=${detectDirection(project)};`,
+	]
+
+	const { groups, ungrouped } = partitionGroups(project)
+
+	const writeNode = (node: Node, indent: string) => {
+		const shape = DOT_SHAPES[node.type] ?? DOT_SHAPES[NodeType.IDEA]
+		lines.push(`${indent}${keys.get(node.id)} [label=${quoteDot(node.data.title)}, shape=${shape}];`)
+	}
+
+	for (const { group, members } of groups) {
+		lines.push(`    subgraph cluster_${keys.get(group.id)} {`, `        label=${quoteDot(group.data.title)};`)
+		if (group.data.collapsed === true) lines.push('        collapsed=true;')
+		members.forEach((node) => writeNode(node, '        '))
+		lines.push('    }')
+	}
+	ungrouped.forEach((node) => writeNode(node, '    '))
+
+	for (const { edge, source, target } of exportableEdges(project, keys)) {
+		const attributes = [
+			...(edge.label ? [`label=${quoteDot(edge.label)}`] : []),
+			...(DOT_EDGE_ATTRIBUTES[edge.type ?? EdgeType.DEFAULT] ?? []),
+		]
+		lines.push(`    ${source} -> ${target}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`)
+	}
+
+	lines.push('}')
+	return `${lines.join('\n')}\n`
+}
+
+interface DotToken {
+	kind: 'id' | 'punct'
+	value: string
+}
+
+/**
+ * Reads a double-quoted DOT string starting at `start`. The escapes `\\n`, `\\l`
+ * and `\\r` are line breaks with different justification.
+ */
+function readQuoted(text: string, start: number): { value: string; end: number } {
+	let value = ''
+	let j = start + 1
+	while (j < text.length && text.charAt(j) !== '"') {
+		if (text.charAt(j) === '\\' && j + 1 < text.length) {
+			const next = text.charAt(j + 1)
+			value += next === 'n' || next === 'l' || next === 'r' ? '\n' : next === '"' ? '"' : `\\${next}`
+			j += 2
+		} else {
+			value += text.charAt(j)
+			j++
+		}
+	}
+	return { value: value.replace(/\n$/, ''), end: j + 1 }
+}
+
+/**
+ * Splits DOT source into identifiers (plain, numeral, quoted or HTML strings)
+ * and punctuation. Comments and preprocessor lines are dropped.
+ */
+function tokenizeDot(text: string): DotToken[] {
+	const tokens: DotToken[] = []
+	let i = 0
+
+	while (i < text.length) {
+		const rest = text.slice(i)
+		const skip = /^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest)
+		if (skip) {
+			i += skip[0].length
+			continue
+		}
+		if (rest.startsWith('#') && (i === 0 || text[i - 1] === '\n')) {
+			const end = text.indexOf('\n', i)
+			i = end < 0 ? text.length : end
+			continue
+		}
+
+		const edgeOp = /^(->|--)/.exec(rest)
+		if (edgeOp) {
+			tokens.push({ kind: 'punct', value: edgeOp[0] })
+			i += 2
+			continue
+		}
+		if ('{}[];,=:'.includes(rest.charAt(0))) {
+			tokens.push({ kind: 'punct', value: rest.charAt(0) })
+			i++
+			continue
+		}
+
+		if (rest.startsWith('"')) {
+			// Quoted strings can be concatenated with `+`
+			let value = ''
+			let concat: RegExpExecArray | null
+			do {
+				const quoted = readQuoted(text, i)
+				value += quoted.value
+				i = quoted.end
+				concat = /^\s*\+\s*(?=")/.exec(text.slice(i))
+				if (concat) i += concat[0].length
+			} while (concat)
+			tokens.push({ kind: 'id', value })
+			continue
+		}
+
+		if (rest.startsWith('<')) {
+			// HTML label: keep the text between tags
+			let depth = 0
+			let j = i
+			for (; j < text.length; j++) {
+				if (text.charAt(j) === '<') depth++
+				if (text.charAt(j) === '>') depth--
+				if (depth === 0) break
+			}
+			const html = text.slice(i + 1, j)
+			tokens.push({
+				kind: 'id',
+				value: html
+					.replace(/<br\s*\/?>/gi, '\n')
+					.replace(/<[^>]*>/g, '')
+					.trim(),
+			})
+			i = j + 1
+			continue
+		}
+
+		const id = /^(-?(?:\.\d+|\d+\.\d*|\d+)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(rest)
+		if (!id) {
+			throw new Error(`Unexpected character in DOT source: ${rest.charAt(0)}`)
+		}
+		tokens.push({ kind: 'id', value: id[0] })
+		i += id[0].length
+	}
+
+	return tokens
+}
+
+/**
+ * Maps Graphviz node shapes to node types
+ */
+function dotShapeType(shape: string | undefined): NodeType {
+	switch (shape?.toLowerCase()) {
+	case 'box':
+	case 'rect':
+	case 'rectangle':
+	case 'square':
+	case 'mrecord':
+	case 'record':
+		return NodeType.TASK
+	case 'note':
+	case 'tab':
+	case 'folder':
+		return NodeType.NOTE
+	case 'cylinder':
+	case 'box3d':
+	case 'component':
+		return NodeType.RESOURCE
+	default:
+		return NodeType.IDEA
+	}
+}
+
+/**
+ * Maps Graphviz edge attributes to an edge type
+ */
+function dotEdgeType(attributes: Map<string, string>, directed: boolean): EdgeType {
+	const style = attributes.get('style') ?? ''
+	if (style.includes('bold')) return EdgeType.STEP
+	if (style.includes('dashed') || style.includes('dotted')) return EdgeType.SMOOTHSTEP
+	if (!directed || attributes.get('arrowhead') === 'none' || attributes.get('dir') === 'none') {
+		return EdgeType.STRAIGHT
+	}
+	return EdgeType.DEFAULT
+}
+
+/**
+ * Reads a Graphviz `graph` or `digraph`. Clusters become groups holding the
+ * nodes first declared inside them, other subgraphs are flattened; an edge to
+ * a subgraph connects to each of its nodes.
+ * @param text DOT source
+ * @returns Parsed diagram
+ * @throws Error if the document is not valid DOT
+ */
+export function parseDot(text: string): Diagram {
+	const tokens = tokenizeDot(text)
+	const diagram: Diagram = { title: '', direction: 'TB', nodes: [], edges: [] }
+	const nodes = new Map<string, { node: DiagramNode; labeled: boolean; shaped: boolean }>()
+	let position = 0
+
+	const peek = (offset = 0) => tokens[position + offset]
+	const isPunct = (value: string, offset = 0) => {
+		const token = peek(offset)
+		return token?.kind === 'punct' && token.value === value
+	}
+	const expect = (value: string) => {
+		if (!isPunct(value)) {
+			throw new Error(`Expected "${value}" in DOT source`)
+		}
+		position++
+	}
+	const readId = (): string => {
+		const token = peek()
+		if (token?.kind !== 'id') {
+			throw new Error('Expected an identifier in DOT source')
+		}
+		position++
+		return token.value
+	}
+
+	// Skip `strict` and read the graph kind
+	if (peek()?.value.toLowerCase() === 'strict') position++
+	const kind = peek()?.value.toLowerCase()
+	if (kind !== 'graph' && kind !== 'digraph') {
+		throw new Error('Not a DOT graph')
+	}
+	const directed = kind === 'digraph'
+	position++
+	if (peek()?.kind === 'id') diagram.title = readId()
+
+	const readAttributes = (): Map<string, string> => {
+		const attributes = new Map<string, string>()
+		while (isPunct('[')) {
+			position++
+			while (!isPunct(']')) {
+				const key = readId().toLowerCase()
+				let value = 'true'
+				if (isPunct('=')) {
+					position++
+					value = readId()
+				}
+				attributes.set(key, value)
+				if (isPunct(',') || isPunct(';')) position++
+			}
+			position++
+		}
+		return attributes
+	}
+
+	const touchNode = (key: string, attributes: Map<string, string>, group: DiagramNode | undefined) => {
+		let entry = nodes.get(key)
+		if (!entry) {
+			const node: DiagramNode = { key, label: key, type: NodeType.IDEA, ...(group ? { group: group.key } : {}) }
+			entry = { node, labeled: false, shaped: false }
+			nodes.set(key, entry)
+			diagram.nodes.push(entry.node)
+		}
+		const label = attributes.get('label')
+		if (label !== undefined && !entry.labeled) {
+			entry.node.label = label === '\\N' ? key : label
+			entry.labeled = true
+		}
+		const shape = attributes.get('shape')
+		if (shape !== undefined && !entry.shaped) {
+			entry.node.type = dotShapeType(shape)
+			entry.shaped = true
+		}
+	}
+
+	// Reads `label` and `collapsed` of a cluster
+	const setGroupAttribute = (group: DiagramNode, key: string, value: string) => {
+		if (key === 'label') group.label = value
+		if (key === 'collapsed') group.collapsed = value === 'true'
+	}
+
+	// Reads statements until the closing brace; returns the nodes mentioned in the
+	// block. New nodes join `group`; a cluster block also sets its attributes.
+	const readBlock = (
+		nodeDefaults: Map<string, string>,
+		edgeDefaults: Map<string, string>,
+		topLevel: boolean,
+		group?: DiagramNode,
+		cluster?: DiagramNode,
+	): string[] => {
+		expect('{')
+		const mentioned: string[] = []
+		const localNodeDefaults = new Map(nodeDefaults)
+		const localEdgeDefaults = new Map(edgeDefaults)
+
+		// Reads a node id (with optional port) or a subgraph
+		const readOperand = (): string[] => {
+			if (isPunct('{') || peek()?.value.toLowerCase() === 'subgraph') {
+				let innerGroup = group
+				let innerCluster: DiagramNode | undefined
+				if (!isPunct('{')) {
+					position++
+					const name = peek()?.kind === 'id' ? readId() : undefined
+					// Clusters nested in a group stay part of it as groups are not nested
+					if (name?.startsWith('cluster') === true && !group && !nodes.has(name)) {
+						innerCluster = { key: name, label: name.replace(/^cluster_?/, ''), type: NodeType.GROUP }
+						innerGroup = innerCluster
+						nodes.set(name, { node: innerCluster, labeled: true, shaped: true })
+						diagram.nodes.push(innerCluster)
+					}
+				}
+				const inner = readBlock(localNodeDefaults, localEdgeDefaults, false, innerGroup, innerCluster)
+				mentioned.push(...inner)
+				return inner
+			}
+			const key = readId()
+			// Ports are not represented in the canvas
+			while (isPunct(':')) {
+				position++
+				readId()
+			}
+			return [key]
+		}
+
+		while (!isPunct('}')) {
+			if (peek() === undefined) {
+				throw new Error('Unexpected end of DOT source')
+			}
+			if (isPunct(';') || isPunct(',')) {
+				position++
+				continue
+			}
+
+			const keyword = peek()?.kind === 'id' ? peek()?.value.toLowerCase() : undefined
+			if ((keyword === 'graph' || keyword === 'node' || keyword === 'edge') && isPunct('[', 1)) {
+				position++
+				const attributes = readAttributes()
+				if (keyword === 'node') attributes.forEach((value, key) => localNodeDefaults.set(key, value))
+				if (keyword === 'edge') attributes.forEach((value, key) => localEdgeDefaults.set(key, value))
+				if (keyword === 'graph' && topLevel) {
+					const rankdir = attributes.get('rankdir')
+					if (rankdir !== undefined) diagram.direction = /^(LR|RL)$/i.test(rankdir) ? 'LR' : 'TB'
+					const label = attributes.get('label')
+					if (label !== undefined) diagram.title = label
+				}
+				if (keyword === 'graph' && cluster) {
+					attributes.forEach((value, key) => setGroupAttribute(cluster, key, value))
+				}
+				continue
+			}
+
+			if (peek()?.kind === 'id' && isPunct('=', 1)) {
+				const key = readId().toLowerCase()
+				position++
+				const value = readId()
+				if (topLevel && key === 'rankdir') diagram.direction = /^(LR|RL)$/i.test(value) ? 'LR' : 'TB'
+				if (topLevel && key === 'label') diagram.title = value
+				if (cluster) setGroupAttribute(cluster, key, value)
+				continue
+			}
+
+			const chain = [readOperand()]
+			while (isPunct('->') || isPunct('--')) {
+				position++
+				chain.push(readOperand())
+			}
+			const attributes = readAttributes()
+
+			if (chain.length === 1) {
+				for (const key of chain[0] ?? []) {
+					// Subgraph members were already declared inside the subgraph
+					if (!nodes.has(key) || attributes.size > 0) {
+						touchNode(key, new Map([...localNodeDefaults, ...attributes]), group)
+					}
+					mentioned.push(key)
+				}
+				continue
+			}
+
+			const edgeAttributes = new Map([...localEdgeDefaults, ...attributes])
+			const type = dotEdgeType(edgeAttributes, directed)
+			const label = edgeAttributes.get('label')
+			for (const keys of chain) {
+				for (const key of keys) {
+					if (!nodes.has(key)) touchNode(key, localNodeDefaults, group)
+					mentioned.push(key)
+				}
+			}
+			for (let i = 1; i < chain.length; i++) {
+				for (const source of chain[i - 1] ?? []) {
+					for (const target of chain.at(i) ?? []) {
+						diagram.edges.push({
+							source,
+							target,
+							type,
+							...(label ? { label } : {}),
+						})
+					}
+				}
+			}
+		}
+		position++
+		return mentioned
+	}
+
+	readBlock(new Map(), new Map(), true)
+	return diagram
+}
+
+// Shared -----------------------------------------------------------------
+
+/**
+ * Skips the whitespace and the line and block comments a document starts with
+ */
+function skipLeadingComments(text: string): string {
+	let rest = text.trimStart()
+	for (;;) {
+		const end = rest.startsWith('//') ? rest.indexOf('\n') : rest.startsWith('/*') ? rest.indexOf('*/', 2) + 1 : -1
+		if (end <= 0) return rest
+		rest = rest.slice(end + 1).trimStart()
+	}
+}
+
+/**
+ * Detects whether a document is Mermaid or DOT from its file name or content
+ * @param fileName File name
+ * @param text File content
+ * @returns Diagram format
+ */
+export function detectDiagramFormat(fileName: string, text: string): DiagramFormat {
+	if (/\.(dot|gv)$/i.test(fileName)) return 'dot'
+	if (/\.(mmd|mermaid)$/i.test(fileName)) return 'mermaid'
+	return /^(strict\s)?\s*(di)?graph\s*("[^"]*"|\w*)\s*\{/i.test(skipLeadingComments(text)) ? 'dot' : 'mermaid'
+}
+
+/**
+ * Parses a Mermaid or DOT document
+ * @param fileName File name used to detect the format
+ * @param text Document text
+ * @returns Parsed diagram
+ */
+export function parseDiagram(fileName: string, text: string): Diagram {
+	return detectDiagramFormat(fileName, text) === 'dot' ? parseDot(text) : parseMermaid(text)
+}
+
+/**
+ * Exports a project as a diagram document
+ * @param project Project to export
+ * @param format Target format
+ * @returns Document text
+ */
+export function exportProjectDiagram(project: Project, format: DiagramFormat): string {
+	return format === 'dot' ? exportDot(project) : exportMermaid(project)
+}
+
+/**
+ * Builds nodes and edges from a diagram. Nodes are placed in layers by their
+ * distance from the roots, following the diagram direction; groups are then
+ * framed around their members.
+ * @param diagram Diagram to convert
+ * @param origin Top-left position of the generated graph
+ * @returns New nodes and edges
+ */
+export function diagramToGraph(
+	diagram: Diagram,
+	origin: { x: number; y: number } = { x: 0, y: 0 },
+): { nodes: Node[]; edges: Edge[] } {
+	const groupKeys = new Set(diagram.nodes.filter(isGroupNode).map((node) => node.key))
+	const laidOut = diagram.nodes.filter((node) => !groupKeys.has(node.key))
+	// Group frames have no handles
+	const diagramEdges = diagram.edges.filter((edge) => !groupKeys.has(edge.source) && !groupKeys.has(edge.target))
+
+	const outgoing = new Map<string, string[]>()
+	const incoming = new Set<string>()
+	for (const edge of diagramEdges) {
+		if (edge.source === edge.target) continue
+		outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target])
+		incoming.add(edge.target)
+	}
+
+	// Breadth-first layering from the roots; cycles without a root start their own walk
+	const layers = new Map<string, number>()
+	const walk = (start: string) => {
+		layers.set(start, 0)
+		const queue = [start]
+		while (queue.length > 0) {
+			const key = queue.shift() ?? ''
+			const layer = layers.get(key) ?? 0
+			for (const target of outgoing.get(key) ?? []) {
+				if (!layers.has(target)) {
+					layers.set(target, layer + 1)
+					queue.push(target)
+				}
+			}
+		}
+	}
+	laidOut.filter((node) => !incoming.has(node.key)).forEach((node) => walk(node.key))
+	laidOut.filter((node) => !layers.has(node.key)).forEach((node) => walk(node.key))
+
+	const depth = Math.max(-1, ...laidOut.map((node) => layers.get(node.key) ?? 0)) + 1
+	const rows = Array.from({ length: depth }, (_, layer) =>
+		laidOut.filter((node) => (layers.get(node.key) ?? 0) === layer),
+	)
+	const widest = Math.max(0, ...rows.map((row) => row.length))
+
+	const now = new Date().toISOString()
+	const ids = new Map<string, string>()
+	let nodes: Node[] = []
+	rows.forEach((row, layer) => {
+		// Center each layer on the widest one
+		const offset = ((widest - row.length) * SIBLING_SPACING) / 2
+		row.forEach((item, index) => {
+			const along = offset + index * SIBLING_SPACING
+			const across = layer * LAYER_SPACING
+			const id = generateUniqueId()
+			const [title = '', ...content] = item.label.split('\n')
+			ids.set(item.key, id)
+			nodes.push({
+				id,
+				type: item.type,
+				position:
+					diagram.direction === 'LR'
+						? { x: origin.x + across, y: origin.y + along }
+						: { x: origin.x + along, y: origin.y + across },
+				data: {
+					id,
+					title,
+					content: content.join('\n'),
+					tags: [],
+					type: item.type,
+					createdAt: now,
+					updatedAt: now,
+				},
+			})
+		})
+	})
+
+	for (const group of diagram.nodes.filter((node) => groupKeys.has(node.key))) {
+		const id = generateUniqueId()
+		const memberIds = laidOut.filter((node) => node.group === group.key).flatMap((node) => ids.get(node.key) ?? [])
+		nodes = groupNodes(nodes, memberIds, {
+			id,
+			type: NodeType.GROUP,
+			position: origin,
+			data: {
+				id,
+				title: group.label,
+				content: '',
+				tags: [],
+				type: NodeType.GROUP,
+				...(group.collapsed === true ? { collapsed: true } : {}),
+				createdAt: now,
+				updatedAt: now,
+			},
+		})
+	}
+
+	const edges = diagramEdges.flatMap((edge): Edge[] => {
+		const source = ids.get(edge.source)
+		const target = ids.get(edge.target)
+		if (source === undefined || target === undefined) return []
+		return [
+			{
+				id: generateUniqueId(),
+				source,
+				target,
+				type: edge.type,
+				...(edge.label !== undefined ? { label: edge.label } : {}),
+			},
+		]
+	})
+
+	return { nodes, edges }
+}
@@ -0,0 +1,92 @@
+import type { EdgeSuggestion, GraphDiff, GraphNodeAddition } from '../types'
+import { resolveSuggestedEdges } from '../types/chat'
+
+import type { GroupableNode } from './groups'
+import { DEFAULT_NODE_SIZE, getAbsolutePosition, getNodeSize } from './groups'
+
+// Space between added nodes and between them and the selection
+const NODE_GAP = 40
+const LAYER_GAP = 80
+
+type Position = { x: number; y: number }
+
+/**
+ * Changes of a diff that add nodes
+ */
+export const getAdditions = (diff: GraphDiff): GraphNodeAddition[] =>
+	diff.changes.filter((change): change is GraphNodeAddition => change.kind === 'add')
+
+/**
+ * Edges of a diff between existing nodes and the nodes created for accepted
+ * additions. Edges to rejected additions are left out.
+ * @param diff Diff holding the edges
+ * @param createdIds Node ID created for each accepted addition, by the ID edges use
+ * @returns Edges with canvas node IDs
+ */
+export function resolveDiffEdges(diff: GraphDiff, createdIds: Map<string, string>): EdgeSuggestion[] {
+	return resolveSuggestedEdges({ nodes: getAdditions(diff).map((change) => change.node), edges: diff.edges }, createdIds)
+}
+
+// Lays out additions in a row centered on x
+const placeRow = (positions: Map<string, Position>, additions: GraphNodeAddition[], centerX: number, y: number) => {
+	const width = additions.length * DEFAULT_NODE_SIZE.width + (additions.length - 1) * NODE_GAP
+	additions.forEach((addition, index) => {
+		positions.set(addition.id, { x: centerX - width / 2 + index * (DEFAULT_NODE_SIZE.width + NODE_GAP), y })
+	})
+}
+
+/**
+ * Canvas positions for added nodes, near the nodes the operation ran on:
+ * children below their parent, summaries above the selection and other
+ * additions in a column to its right
+ * @param diff Diff the additions belong to
+ * @param additions Additions to place
+ * @param nodes All nodes of the canvas
+ * @returns Position by addition ID
+ */
+export function placeAdditions(diff: GraphDiff, additions: GraphNodeAddition[], nodes: GroupableNode[]): Map<string, Position> {
+	const nodesById = new Map(nodes.map((node) => [node.id, node]))
+	const boxes = diff.nodeIds.flatMap((id) => {
+		const node = nodesById.get(id)
+		return node ? [{ position: getAbsolutePosition(node, nodesById), size: getNodeSize(node) }] : []
+	})
+	const left = boxes.length > 0 ? Math.min(...boxes.map((box) => box.position.x)) : 0
+	const top = boxes.length > 0 ? Math.min(...boxes.map((box) => box.position.y)) : 0
+	const right = boxes.length > 0 ? Math.max(...boxes.map((box) => box.position.x + box.size.width)) : 0
+	const bottom = boxes.length > 0 ? Math.max(...boxes.map((box) => box.position.y + box.size.height)) : 0
+	const positions = new Map<string, Position>()
+
+	if (diff.operation === 'expand') {
+		// Children go below the selected node they expand
+		const childrenByParent = new Map<string, GraphNodeAddition[]>()
+		const orphans: GraphNodeAddition[] = []
+		for (const addition of additions) {
+			const parentId = diff.edges.find((edge) => edge.target === addition.node.id && nodesById.has(edge.source))?.source
+			if (parentId === undefined) {
+				orphans.push(addition)
+				continue
+			}
+			childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), addition])
+		}
+		for (const [parentId, children] of childrenByParent) {
+			const parent = nodesById.get(parentId)
+			if (!parent) continue
+			const position = getAbsolutePosition(parent, nodesById)
+			const size = getNodeSize(parent)
+			placeRow(positions, children, position.x + size.width / 2, position.y + size.height + LAYER_GAP)
+		}
+		// Below the children of the selection
+		placeRow(positions, orphans, (left + right) / 2, bottom + LAYER_GAP * 2 + DEFAULT_NODE_SIZE.height)
+		return positions
+	}
+
+	if (diff.operation === 'summarize') {
+		placeRow(positions, additions, (left + right) / 2, top - LAYER_GAP - DEFAULT_NODE_SIZE.height)
+		return positions
+	}
+
+	additions.forEach((addition, index) => {
+		positions.set(addition.id, { x: right + LAYER_GAP, y: top + index * (DEFAULT_NODE_SIZE.height + NODE_GAP) })
+	})
+	return positions
+}
@@ -0,0 +1,171 @@
+import { NodeType } from '../types/enums'
+
+/**
+ * The parts of a canvas or project node needed to manage group frames. Members
+ * of a group store their position relative to the group's top-left corner.
+ */
+export interface GroupableNode {
+	id: string
+	type?: string | undefined
+	position: { x: number; y: number }
+	parentId?: string
+	width?: number | null
+	height?: number | null
+	style?: object
+}
+
+interface Size {
+	width: number
+	height: number
+}
+
+// Space between the frame and its members; the header holds title and tags
+export const GROUP_PADDING = 24
+export const GROUP_HEADER_HEIGHT = 48
+
+// Size assumed for nodes React Flow has not measured yet
+export const DEFAULT_NODE_SIZE: Size = { width: 200, height: 100 }
+
+// Size of a collapsed group's summary chip
+export const COLLAPSED_GROUP_SIZE: Size = { width: 240, height: 56 }
+
+export const isGroupNode = (node: { type?: string | undefined }) => node.type === (NodeType.GROUP as string)
+
+const styleDimension = (style: object | undefined, key: 'width' | 'height'): number | undefined => {
+	const value = new Map(Object.entries(style ?? {})).get(key)
+	return typeof value === 'number' ? value : undefined
+}
+
+/**
+ * Size of a node: measured by React Flow, set on its style (group frames) or
+ * the default size
+ */
+export function getNodeSize(node: GroupableNode): Size {
+	return {
+		width: node.width ?? styleDimension(node.style, 'width') ?? DEFAULT_NODE_SIZE.width,
+		height: node.height ?? styleDimension(node.style, 'height') ?? DEFAULT_NODE_SIZE.height,
+	}
+}
+
+/**
+ * Canvas position of a node, resolving the position relative to its group
+ */
+export function getAbsolutePosition(node: GroupableNode, nodesById: Map<string, GroupableNode>): { x: number; y: number } {
+	const parent = node.parentId !== undefined ? nodesById.get(node.parentId) : undefined
+	if (parent === undefined) return node.position
+	return { x: parent.position.x + node.position.x, y: parent.position.y + node.position.y }
+}
+
+/**
+ * Position and size of a frame enclosing the given boxes with padding and room
+ * for the header
+ */
+export function frameAround(boxes: { position: { x: number; y: number }; size: Size }[]) {
+	const left = Math.min(...boxes.map((box) => box.position.x))
+	const top = Math.min(...boxes.map((box) => box.position.y))
+	const right = Math.max(...boxes.map((box) => box.position.x + box.size.width))
+	const bottom = Math.max(...boxes.map((box) => box.position.y + box.size.height))
+
+	return {
+		position: { x: left - GROUP_PADDING, y: top - GROUP_PADDING - GROUP_HEADER_HEIGHT },
+		size: { width: right - left + GROUP_PADDING * 2, height: bottom - top + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT },
+	}
+}
+
+/**
+ * Moves a node into a group or out of any group, keeping it where it is on the canvas
+ * @param nodes All nodes
+ * @param nodeId Node to move
+ * @param parentId Target group or undefined to release the node
+ * @returns Updated nodes
+ */
+export function setNodeParent<T extends GroupableNode>(nodes: T[], nodeId: string, parentId: string | undefined): T[] {
+	const nodesById = new Map<string, GroupableNode>(nodes.map((node) => [node.id, node]))
+	const parent = parentId !== undefined ? nodesById.get(parentId) : undefined
+	// Groups are not nested
+	if (parentId !== undefined && (parent === undefined || !isGroupNode(parent))) return nodes
+
+	return nodes.map((node) => {
+		if (node.id !== nodeId || node.parentId === parentId || isGroupNode(node)) return node
+		const absolute = getAbsolutePosition(node, nodesById)
+		const { parentId: _previous, ...rest } = node
+		return parent === undefined
+			? ({ ...rest, position: absolute } as T)
+			: { ...rest, parentId: parent.id, position: { x: absolute.x - parent.position.x, y: absolute.y - parent.position.y } } as T
+	})
+}
+
+/**
+ * Wraps nodes in a new group frame sized around them. Members of other groups
+ * move over; groups themselves cannot become members.
+ * @param nodes All nodes
+ * @param memberIds Nodes to put into the group
+ * @param group The new group node; its position and size are computed
+ * @returns Updated nodes with the group in front of its members, or the input if nothing can be grouped
+ */
+export function groupNodes<T extends GroupableNode>(nodes: T[], memberIds: string[], group: T): T[] {
+	const nodesById = new Map<string, GroupableNode>(nodes.map((node) => [node.id, node]))
+	const ids = new Set(memberIds)
+	const members = nodes.filter((node) => ids.has(node.id) && !isGroupNode(node))
+	if (members.length === 0) return nodes
+
+	const frame = frameAround(
+		members.map((node) => ({ position: getAbsolutePosition(node, nodesById), size: getNodeSize(node) })),
+	)
+	const frameNode = {
+		...group,
+		position: frame.position,
+		style: { ...group.style, width: frame.size.width, height: frame.size.height },
+	} as T
+
+	let result = [frameNode, ...nodes]
+	for (const member of members) {
+		result = setNodeParent(result, member.id, frameNode.id)
+	}
+	return result
+}
+
+/**
+ * Removes a group frame and releases its members at their canvas positions
+ * @param nodes All nodes
+ * @param groupId Group to dissolve
+ * @returns Updated nodes
+ */
+export function ungroupNodes<T extends GroupableNode>(nodes: T[], groupId: string): T[] {
+	let result = nodes
+	for (const member of nodes.filter((node) => node.parentId === groupId)) {
+		result = setNodeParent(result, member.id, undefined)
+	}
+	return result.filter((node) => node.id !== groupId)
+}
+
+/**
+ * Finds the group frame containing a canvas point
+ * @param nodes All nodes
+ * @param point Canvas position
+ * @param isCollapsed Collapsed groups do not take members
+ * @returns The group or undefined
+ */
+export function findGroupAt<T extends GroupableNode>(
+	nodes: T[],
+	point: { x: number; y: number },
+	isCollapsed: (group: T) => boolean,
+): T | undefined {
+	return nodes.find((node) => {
+		if (!isGroupNode(node) || isCollapsed(node)) return false
+		const { width, height } = getNodeSize(node)
+		return (
+			point.x >= node.position.x &&
+			point.x <= node.position.x + width &&
+			point.y >= node.position.y &&
+			point.y <= node.position.y + height
+		)
+	})
+}
+
+/**
+ * Orders groups in front of other nodes as React Flow needs parents before their children
+ */
+export function orderGroupsFirst<T extends GroupableNode>(nodes: T[]): T[] {
+	return [...nodes.filter(isGroupNode), ...nodes.filter((node) => !isGroupNode(node))]
+}
@@ -0,0 +1,204 @@
+import type { Keymap, KeymapActionId } from '../types/keymap'
+
+/**
+ * Keystrokes are written as modifiers and a key joined by '+', in the order
+ * Ctrl, Alt, Shift, Meta, e.g. 'Ctrl+Shift+Z'. Letters are upper case and
+ * '+' and ' ' are spelled 'Plus' and 'Space'. A binding is one keystroke or
+ * a chord of several separated by spaces, e.g. 'G P'.
+ */
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const
+
+type Modifier = (typeof MODIFIERS)[number]
+
+// Longest chord, so a typo doesn't leave a binding that waits forever
+export const MAX_CHORD_LENGTH = 3
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+	ctrl: 'Ctrl',
+	control: 'Ctrl',
+	alt: 'Alt',
+	option: 'Alt',
+	shift: 'Shift',
+	meta: 'Meta',
+	cmd: 'Meta',
+	command: 'Meta',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+	'+': 'Plus',
+	plus: 'Plus',
+	' ': 'Space',
+	space: 'Space',
+	esc: 'Escape',
+	escape: 'Escape',
+	del: 'Delete',
+	delete: 'Delete',
+	backspace: 'Backspace',
+	enter: 'Enter',
+	tab: 'Tab',
+	home: 'Home',
+	end: 'End',
+	pageup: 'PageUp',
+	pagedown: 'PageDown',
+	up: 'ArrowUp',
+	arrowup: 'ArrowUp',
+	down: 'ArrowDown',
+	arrowdown: 'ArrowDown',
+	left: 'ArrowLeft',
+	arrowleft: 'ArrowLeft',
+	right: 'ArrowRight',
+	arrowright: 'ArrowRight',
+}
+
+// Keys that only modify others and never make a keystroke of their own
+const IGNORED_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'Dead', 'Process', 'Unidentified'])
+
+/**
+ * The parts of a keyboard event needed to tell the keystroke
+ */
+export interface KeystrokeEvent {
+	key: string
+	code?: string
+	ctrlKey: boolean
+	altKey: boolean
+	shiftKey: boolean
+	metaKey: boolean
+}
+
+const normalizeKey = (key: string): string | null => {
+	if (key === '') return null
+	const alias = KEY_ALIASES[key.toLowerCase()]
+	if (alias !== undefined) return alias
+	if (key.length === 1) return key.toUpperCase()
+	if (/^f\d{1,2}$/i.test(key)) return key.toUpperCase()
+	return key
+}
+
+const toStroke = (modifiers: Set<Modifier>, key: string): string =>
+	[...MODIFIERS.filter((modifier) => modifiers.has(modifier)), key].join('+')
+
+/**
+ * Parse one keystroke as typed, e.g. 'ctrl+shift+z' or 'Ctrl++'
+ * @param stroke Keystroke
+ * @returns The keystroke in canonical form, or null when it isn't one
+ */
+export function parseStroke(stroke: string): string | null {
+	// A '+' after another '+' is the key itself
+	const parts = stroke.trim().split(/\+(?=.)/)
+	const key = normalizeKey(parts.pop() ?? '')
+	if (key === null || MODIFIER_ALIASES[key.toLowerCase()] !== undefined) return null
+
+	const modifiers = new Set<Modifier>()
+	for (const part of parts) {
+		const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()]
+		if (modifier === undefined) return null
+		modifiers.add(modifier)
+	}
+	return toStroke(modifiers, key)
+}
+
+/**
+ * Parse a binding as typed
+ * @param binding One keystroke or several separated by spaces
+ * @returns The binding in canonical form, or null when it isn't valid
+ */
+export function normalizeBinding(binding: string): string | null {
+	const strokes = binding.trim().split(/\s+/).map(parseStroke)
+	if (strokes.length === 0 || strokes.length > MAX_CHORD_LENGTH || strokes.some((stroke) => stroke === null)) {
+		return null
+	}
+	return strokes.join(' ')
+}
+
+/**
+ * The keystroke of a keyboard event
+ * @param event Keyboard event
+ * @returns The keystroke, or null for a modifier pressed on its own
+ */
+export function eventToStroke(event: KeystrokeEvent): string | null {
+	if (IGNORED_KEYS.has(event.key)) return null
+
+	// Digits keep their name with Shift, which would otherwise turn 1 into !
+	const digit = /^Digit(\d)$/.exec(event.code ?? '')?.[1]
+	const key = normalizeKey(digit ?? event.key)
+	if (key === null) return null
+
+	const modifiers = new Set<Modifier>()
+	if (event.ctrlKey) modifiers.add('Ctrl')
+	if (event.altKey) modifiers.add('Alt')
+	if (event.shiftKey) modifiers.add('Shift')
+	if (event.metaKey) modifiers.add('Meta')
+	return toStroke(modifiers, key)
+}
+
+/**
+ * Display form of a binding, e.g. 'Ctrl + Shift + Z' or 'G P'
+ * @param binding Binding in canonical form
+ */
+export function formatBinding(binding: string): string {
+	return binding
+		.split(' ')
+		.map((stroke) => stroke.split('+').join(' + '))
+		.join(' ')
+}
+
+/**
+ * Whether two bindings can't both be used: they are the same, or one is the
+ * start of the other's chord and would always run first
+ * @param a Binding in canonical form
+ * @param b Binding in canonical form
+ */
+export function bindingsConflict(a: string, b: string): boolean {
+	const strokesA = a.split(' ')
+	const strokesB = b.split(' ')
+	const length = Math.min(strokesA.length, strokesB.length)
+	return strokesA.slice(0, length).every((stroke, index) => stroke === strokesB.at(index))
+}
+
+/**
+ * The bindings of an action
+ * @param keymap Keymap, or the part of one a user changed
+ * @param actionId Action to look up
+ * @returns The bindings, empty when the keymap has none for the action
+ */
+export function getBindings(keymap: Partial<Keymap>, actionId: KeymapActionId): string[] {
+	return new Map(Object.entries(keymap)).get(actionId) ?? []
+}
+
+export interface KeymapConflict {
+	actionId: KeymapActionId
+	binding: string
+}
+
+/**
+ * Find the bindings of other actions that conflict with a binding
+ * @param keymap Keymap to search
+ * @param binding Binding in canonical form
+ * @param actionId Action the binding is for, its own bindings are skipped
+ * @returns The conflicting bindings
+ */
+export function findConflicts(keymap: Keymap, binding: string, actionId?: KeymapActionId): KeymapConflict[] {
+	return (Object.entries(keymap) as Array<[KeymapActionId, string[]]>).flatMap(([otherId, bindings]) =>
+		otherId === actionId
+			? []
+			: bindings.filter((other) => bindingsConflict(binding, other)).map((other) => ({ actionId: otherId, binding: other })),
+	)
+}
+
+/**
+ * Find every pair of conflicting bindings in a keymap
+ * @param keymap Keymap to check
+ * @returns Each conflict once, with the first action in keymap order
+ */
+export function findKeymapConflicts(keymap: Keymap): Array<[KeymapConflict, KeymapConflict]> {
+	const entries = (Object.entries(keymap) as Array<[KeymapActionId, string[]]>).flatMap(([actionId, bindings]) =>
+		bindings.map((binding) => ({ actionId, binding })),
+	)
+	return entries.flatMap((entry, index) =>
+		entries
+			.slice(index + 1)
+			.filter((other) => other.actionId !== entry.actionId && bindingsConflict(entry.binding, other.binding))
+			.map((other): [KeymapConflict, KeymapConflict] => [entry, other]),
+	)
+}
@@ -0,0 +1,183 @@
+import type { NodeSuggestion } from '../types'
+
+import { tokenize } from './searchIndex'
+
+/**
+ * A project node the chat can retrieve; only nodes with an ID can be cited
+ */
+export type RetrievableNode = NodeSuggestion & { id: string }
+
+export interface RetrievalHit {
+	node: RetrievableNode
+	score: number
+}
+
+/**
+ * A piece of an assistant reply: plain text or a citation of a node
+ */
+export type CitedSegment = { text: string } | { nodeId: string; text: string }
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2
+const B = 0.75
+
+// How often a term counts in each field
+const FIELD_WEIGHTS = { title: 3, tags: 2, type: 1, content: 1 } as const
+
+// Share of the model's context window given to retrieved nodes, and its cap
+const CONTEXT_SHARE = 0.25
+const MAX_CONTEXT_TOKENS = 8000
+
+// Words of a question that say nothing about which nodes are relevant
+const STOP_WORDS = new Set([
+	'a', 'an', 'and', 'are', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'of', 'on', 'or',
+	'should', 'that', 'the', 'this', 'to', 'we', 'what', 'which', 'who', 'why', 'with', 'you',
+])
+
+// `[node:<id>]`, how the model is asked to cite nodes
+const CITATION_PATTERN = /\[node:([^\]\s]+)\]/g
+
+/**
+ * Rough token count of a text, about four characters per token
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+/**
+ * Tokens of a model's context window that retrieved nodes may use
+ * @param contextWindow Context window of the model in tokens
+ */
+export const getRetrievalBudget = (contextWindow: number): number =>
+	Math.min(Math.floor(contextWindow * CONTEXT_SHARE), MAX_CONTEXT_TOKENS)
+
+/**
+ * A node as it is shown to the model, starting with its citation marker
+ */
+export const formatContextNode = (node: RetrievableNode): string =>
+	[
+		`[node:${node.id}] (${node.type}) ${node.title}`,
+		...(node.content !== '' ? [node.content] : []),
+		...((node.tags ?? []).length > 0 ? [`Tags: ${(node.tags ?? []).join(', ')}`] : []),
+	].join('\n')
+
+/**
+ * BM25 index over the nodes of one project. It is rebuilt whenever the nodes
+ * change, which is cheap at the size of a brainstorming canvas.
+ */
+export class NodeRetrievalIndex {
+	private nodes: RetrievableNode[]
+	// Weighted term frequencies and length of each node, in node order
+	private frequencies: Map<string, number>[]
+	private lengths: number[]
+	// Number of nodes containing each term
+	private documentFrequencies = new Map<string, number>()
+	private averageLength: number
+
+	constructor(nodes: NodeSuggestion[]) {
+		this.nodes = nodes.filter((node): node is RetrievableNode => node.id !== undefined && node.id !== '')
+		this.frequencies = this.nodes.map((node) => {
+			const frequencies = new Map<string, number>()
+			const add = (text: string, weight: number) =>
+				tokenize(text).forEach((term) => frequencies.set(term, (frequencies.get(term) ?? 0) + weight))
+			add(node.title, FIELD_WEIGHTS.title)
+			add((node.tags ?? []).join(' '), FIELD_WEIGHTS.tags)
+			add(node.type, FIELD_WEIGHTS.type)
+			add(node.content, FIELD_WEIGHTS.content)
+			return frequencies
+		})
+		this.lengths = this.frequencies.map((frequencies) => [...frequencies.values()].reduce((sum, value) => sum + value, 0))
+		this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(this.nodes.length, 1)
+		for (const frequencies of this.frequencies) {
+			for (const term of frequencies.keys()) {
+				this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1)
+			}
+		}
+	}
+
+	get size(): number {
+		return this.nodes.length
+	}
+
+	/**
+	 * Ranks the nodes sharing at least one term with the query
+	 * @param query Question or search text
+	 * @param limit Maximum number of hits
+	 * @returns Hits, best first
+	 */
+	search(query: string, limit = 20): RetrievalHit[] {
+		const terms = [...new Set(tokenize(query))].filter((term) => !STOP_WORDS.has(term))
+		const count = this.nodes.length
+
+		return this.nodes
+			.map((node, index) => {
+				const frequencies = this.frequencies.at(index) ?? new Map<string, number>()
+				const length = this.lengths.at(index) ?? 0
+				const score = terms.reduce((sum, term) => {
+					const frequency = frequencies.get(term) ?? 0
+					if (frequency === 0) return sum
+					const documentFrequency = this.documentFrequencies.get(term) ?? 0
+					const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5))
+					const normalized = K1 * (1 - B + (B * length) / (this.averageLength || 1))
+					return sum + (idf * frequency * (K1 + 1)) / (frequency + normalized)
+				}, 0)
+				return { node, score }
+			})
+			.filter((hit) => hit.score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit)
+	}
+
+	/**
+	 * The most relevant nodes for a question that fit into a token budget.
+	 * Nodes too long for the remaining budget are skipped in favour of shorter,
+	 * less relevant ones.
+	 * @param query Question to answer
+	 * @param budget Tokens the formatted nodes may use
+	 * @returns Nodes, most relevant first
+	 */
+	retrieve(query: string, budget: number): RetrievableNode[] {
+		let remaining = budget
+		return this.search(query, this.nodes.length).flatMap(({ node }) => {
+			const tokens = estimateTokens(formatContextNode(node))
+			if (tokens > remaining) return []
+			remaining -= tokens
+			return [node]
+		})
+	}
+}
+
+/**
+ * IDs of the nodes a reply cites, in order of first appearance
+ * @param content Reply text
+ * @param nodeIds Nodes that may be cited; other markers are ignored
+ */
+export function parseCitations(content: string, nodeIds: Set<string>): string[] {
+	const cited = [...content.matchAll(CITATION_PATTERN)].flatMap((match) => match.slice(1, 2))
+	return [...new Set(cited)].filter((id) => nodeIds.has(id))
+}
+
+/**
+ * Splits a reply into text and the citations between it, for rendering
+ * @param content Reply text
+ * @param nodeIds Nodes that may be cited; other markers stay text
+ */
+export function splitCitations(content: string, nodeIds: Set<string>): CitedSegment[] {
+	const segments: CitedSegment[] = []
+	let text = ''
+	let last = 0
+	for (const match of content.matchAll(CITATION_PATTERN)) {
+		const [marker, nodeId = ''] = match
+		const start = match.index ?? 0
+		text += content.slice(last, start)
+		last = start + marker.length
+		if (!nodeIds.has(nodeId)) {
+			text += marker
+			continue
+		}
+		if (text !== '') segments.push({ text })
+		segments.push({ nodeId, text: marker })
+		text = ''
+	}
+	text += content.slice(last)
+	if (text !== '') segments.push({ text })
+	return segments
+}
@@ -0,0 +1,386 @@
+import type { Edge, Node, Project } from '../types'
+import { EdgeType, NodeType } from '../types/enums'
+
+import { groupNodes, isGroupNode } from './groups'
+import { generateUniqueId } from './idGenerator'
+
+/**
+ * One entry of an outline. Children are the nodes an entry points to, or the
+ * members of a group.
+ */
+export interface OutlineItem {
+	title: string
+	content: string
+	type: NodeType
+	tags: string[]
+	children: OutlineItem[]
+	/** Groups only: shown collapsed on the canvas */
+	collapsed?: boolean
+}
+
+export interface Outline {
+	title: string
+	items: OutlineItem[]
+}
+
+export type OutlineFormat = 'markdown' | 'opml'
+
+// Spacing of the tree layout built on import
+const LEVEL_SPACING = 320
+const ROW_SPACING = 120
+
+const NODE_TYPES = new Set<string>(Object.values(NodeType))
+
+const byPosition = (a: Node, b: Node) => a.position.y - b.position.y || a.position.x - b.position.x
+
+/**
+ * Turns the graph of a project into a forest. Groups come first with their
+ * members as children; other roots are nodes without incoming edges. A node
+ * reachable from several parents is listed under the first one. Nodes that
+ * are only reachable through a cycle become extra roots.
+ * @param project Project to walk
+ * @returns Outline with the project name as title
+ */
+export function projectToOutline(project: Pick<Project, 'name' | 'nodes' | 'edges'>): Outline {
+	const nodesById = new Map(project.nodes.map((node) => [node.id, node]))
+	const children = new Map<string, Node[]>()
+	const incoming = new Set<string>()
+
+	// Membership wins over edges as groups are walked first
+	for (const node of project.nodes) {
+		if (node.parentId === undefined || !nodesById.has(node.parentId)) continue
+		children.set(node.parentId, [...(children.get(node.parentId) ?? []), node])
+		incoming.add(node.id)
+	}
+	for (const edge of project.edges) {
+		const target = nodesById.get(edge.target)
+		if (!target || !nodesById.has(edge.source) || edge.source === edge.target) continue
+		children.set(edge.source, [...(children.get(edge.source) ?? []), target])
+		incoming.add(edge.target)
+	}
+
+	const visited = new Set<string>()
+	const toItem = (node: Node): OutlineItem => {
+		visited.add(node.id)
+		const next = (children.get(node.id) ?? []).filter((child) => !visited.has(child.id)).sort(byPosition)
+		// Mark siblings first so a sibling is not pulled under an earlier sibling's subtree
+		next.forEach((child) => visited.add(child.id))
+		return {
+			title: node.data.title,
+			content: node.data.content ?? '',
+			type: node.type,
+			tags: node.data.tags ?? [],
+			children: next.map(toItem),
+			...(node.data.collapsed === true ? { collapsed: true } : {}),
+		}
+	}
+
+	const sorted = [...project.nodes].sort(byPosition)
+	const roots = sorted.filter((node) => !incoming.has(node.id))
+	const items = [...roots.filter(isGroupNode), ...roots.filter((node) => !isGroupNode(node))].map(toItem)
+	for (const node of sorted) {
+		if (!visited.has(node.id)) items.push(toItem(node))
+	}
+
+	return { title: project.name, items }
+}
+
+const escapeXml = (value: string) =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/\n/g, '&#10;')
+
+/**
+ * Writes an outline as nested Markdown bullets. The node type is written as a
+ * `[type]` prefix (`[group:collapsed]` for collapsed groups) and tags as
+ * trailing `#tag` words so the file can be imported again.
+ * @param outline Outline to write
+ * @returns Markdown text
+ */
+export function outlineToMarkdown(outline: Outline): string {
+	const lines = [`# ${outline.title}`, '']
+
+	const write = (item: OutlineItem, depth: number) => {
+		const indent = '  '.repeat(depth)
+		const tags = item.tags.map((tag) => ` #${tag.replace(/\s+/g, '-')}`).join('')
+		const type = item.collapsed === true ? `${item.type}:collapsed` : item.type
+		lines.push(`${indent}- [${type}] ${item.title.replace(/\n/g, ' ')}${tags}`)
+		for (const line of item.content.split('\n')) {
+			if (line.trim()) lines.push(`${indent}  ${line}`)
+		}
+		item.children.forEach((child) => write(child, depth + 1))
+	}
+
+	outline.items.forEach((item) => write(item, 0))
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Writes an outline as indented plain text without type markers, e.g. for
+ * pasting into apps that do not read Markdown
+ * @param outline Outline to write
+ * @returns Plain text
+ */
+export function outlineToPlainText(outline: Outline): string {
+	const lines: string[] = []
+
+	const write = (item: OutlineItem, depth: number) => {
+		const indent = '  '.repeat(depth)
+		lines.push(`${indent}${item.title.replace(/\n/g, ' ')}`)
+		for (const line of item.content.split('\n')) {
+			if (line.trim()) lines.push(`${indent}  ${line}`)
+		}
+		item.children.forEach((child) => write(child, depth + 1))
+	}
+
+	outline.items.forEach((item) => write(item, 0))
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Writes an outline as OPML 2.0. Content goes into `_note`, tags into `category`,
+ * the node type into `nodeType` and the state of collapsed groups into `collapsed`.
+ * @param outline Outline to write
+ * @returns OPML document
+ */
+export function outlineToOpml(outline: Outline): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<opml version="2.0">',
+		'  <head>',
+		`    <title>${escapeXml(outline.title)}</title>`,
+		`    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+		'  </head>',
+		'  <body>',
+	]
+
+	const write = (item: OutlineItem, depth: number) => {
+		const indent = '  '.repeat(depth + 2)
+		const attributes = [
+			`text="${escapeXml(item.title)}"`,
+			`nodeType="${item.type}"`,
+			...(item.content ? [`_note="${escapeXml(item.content)}"`] : []),
+			...(item.tags.length > 0 ? [`category="${escapeXml(item.tags.join(','))}"`] : []),
+			...(item.collapsed === true ? ['collapsed="true"'] : []),
+		].join(' ')
+		if (item.children.length === 0) {
+			lines.push(`${indent}<outline ${attributes}/>`)
+			return
+		}
+		lines.push(`${indent}<outline ${attributes}>`)
+		item.children.forEach((child) => write(child, depth + 1))
+		lines.push(`${indent}</outline>`)
+	}
+
+	outline.items.forEach((item) => write(item, 0))
+	lines.push('  </body>', '</opml>')
+	return `${lines.join('\n')}\n`
+}
+
+const parseNodeType = (value: string | null | undefined): NodeType =>
+	value && NODE_TYPES.has(value.toLowerCase()) ? (value.toLowerCase() as NodeType) : NodeType.IDEA
+
+/**
+ * Reads nested Markdown bullets (`-`, `*`, `+` or `1.`). Indented lines below a
+ * bullet become its content; a leading `#` heading becomes the outline title.
+ * @param text Markdown text
+ * @returns Parsed outline
+ */
+export function parseMarkdownOutline(text: string): Outline {
+	const outline: Outline = { title: '', items: [] }
+	// Stack of open items with the indentation of their bullet
+	const stack: { indent: number; item: OutlineItem }[] = []
+
+	for (const rawLine of text.replace(/\t/g, '    ').split(/\r?\n/)) {
+		if (!rawLine.trim()) continue
+
+		const heading = /^#{1,6}\s+(.*)$/.exec(rawLine)
+		if (heading && stack.length === 0 && !outline.title) {
+			outline.title = heading[1]?.trim() ?? ''
+			continue
+		}
+
+		const bullet = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/.exec(rawLine)
+		if (!bullet) {
+			// Continuation line: content of the innermost open item
+			const open = stack[stack.length - 1]
+			if (open !== undefined) {
+				const line = rawLine.trim()
+				open.item.content = open.item.content ? `${open.item.content}\n${line}` : line
+			}
+			continue
+		}
+
+		const indent = bullet[1]?.length ?? 0
+		let label = bullet[2]?.trim() ?? ''
+		let type = NodeType.IDEA
+		let collapsed = false
+		const typeMatch = /^\[(\w+)(:collapsed)?\]\s*(.*)$/.exec(label)
+		if (typeMatch && NODE_TYPES.has(typeMatch[1]?.toLowerCase() ?? '')) {
+			type = parseNodeType(typeMatch[1])
+			collapsed = typeMatch[2] !== undefined
+			label = typeMatch[3] ?? ''
+		}
+		const tags: string[] = []
+		let tagMatch: RegExpExecArray | null
+		while ((tagMatch = /\s+#([\w-]+)$/.exec(label)) !== null) {
+			tags.unshift(tagMatch[1] ?? '')
+			label = label.slice(0, tagMatch.index)
+		}
+
+		const item: OutlineItem = { title: label, content: '', type, tags, children: [], ...(collapsed ? { collapsed } : {}) }
+		while (stack.length > 0 && (stack[stack.length - 1]?.indent ?? 0) >= indent) {
+			stack.pop()
+		}
+		const parent = stack[stack.length - 1]
+		if (parent !== undefined) {
+			parent.item.children.push(item)
+		} else {
+			outline.items.push(item)
+		}
+		stack.push({ indent, item })
+	}
+
+	return outline
+}
+
+/**
+ * Reads an OPML document. Understands the attributes written by `outlineToOpml`
+ * and falls back to plain `text`/`title` for files from other outliners.
+ * @param text OPML document
+ * @returns Parsed outline
+ * @throws Error if the document is not valid OPML
+ */
+export function parseOpmlOutline(text: string): Outline {
+	const document = new DOMParser().parseFromString(text, 'application/xml')
+	const body = document.querySelector('opml > body')
+	if (document.querySelector('parsererror') || !body) {
+		throw new Error('Invalid OPML document')
+	}
+
+	const toItem = (element: Element): OutlineItem => ({
+		title: element.getAttribute('text') ?? element.getAttribute('title') ?? '',
+		content: element.getAttribute('_note') ?? '',
+		type: parseNodeType(element.getAttribute('nodeType')),
+		tags: (element.getAttribute('category') ?? '')
+			.split(',')
+			.map((tag) => tag.trim().replace(/^\//, ''))
+			.filter(Boolean),
+		children: Array.from(element.children)
+			.filter((child) => child.tagName === 'outline')
+			.map(toItem),
+		...(element.getAttribute('collapsed') === 'true' ? { collapsed: true } : {}),
+	})
+
+	return {
+		title: document.querySelector('opml > head > title')?.textContent?.trim() ?? '',
+		items: Array.from(body.children)
+			.filter((child) => child.tagName === 'outline')
+			.map(toItem),
+	}
+}
+
+/**
+ * Detects the outline format of a file from its name or content
+ * @param fileName File name
+ * @param text File content
+ * @returns Outline format
+ */
+export function detectOutlineFormat(fileName: string, text: string): OutlineFormat {
+	if (/\.(opml|xml)$/i.test(fileName) || /^\s*(<\?xml|<opml)/i.test(text)) {
+		return 'opml'
+	}
+	return 'markdown'
+}
+
+/**
+ * Builds nodes and edges from an outline, laid out as a left-to-right tree
+ * with every parent centered on its children. The children of a group become
+ * its members instead of being linked to it.
+ * @param outline Outline to convert
+ * @param origin Top-left position of the generated tree
+ * @returns New nodes and edges
+ */
+export function outlineToGraph(
+	outline: Outline,
+	origin: { x: number; y: number } = { x: 0, y: 0 },
+): { nodes: Node[]; edges: Edge[] } {
+	let nodes: Node[] = []
+	const edges: Edge[] = []
+	const groups: { group: Node; memberIds: string[] }[] = []
+	const now = new Date().toISOString()
+	let nextRow = 0
+
+	// Returns the row the item was placed on
+	const place = (item: OutlineItem, depth: number, parentId: string | null): number => {
+		const id = generateUniqueId()
+		const node: Node = {
+			id,
+			type: item.type,
+			position: { x: 0, y: 0 },
+			data: {
+				id,
+				title: item.title,
+				content: item.content,
+				tags: item.tags,
+				type: item.type,
+				...(item.collapsed === true ? { collapsed: true } : {}),
+				createdAt: now,
+				updatedAt: now,
+			},
+		}
+
+		// Groups are framed around their members once everything is placed
+		const parentGroup = groups.find(({ group }) => group.id === parentId)
+		if (item.type === NodeType.GROUP) {
+			groups.push({ group: node, memberIds: [] })
+		} else {
+			nodes.push(node)
+			if (parentGroup) {
+				parentGroup.memberIds.push(id)
+			} else if (parentId) {
+				edges.push({ id: generateUniqueId(), source: parentId, target: id, type: EdgeType.DEFAULT })
+			}
+		}
+
+		let row: number
+		if (item.children.length === 0) {
+			row = nextRow++
+		} else {
+			const rows = item.children.map((child) => place(child, depth + 1, id))
+			row = ((rows[0] ?? 0) + (rows[rows.length - 1] ?? 0)) / 2
+		}
+		node.position = { x: origin.x + depth * LEVEL_SPACING, y: origin.y + row * ROW_SPACING }
+		return row
+	}
+
+	outline.items.forEach((item) => place(item, 0, null))
+	for (const { group, memberIds } of groups) {
+		nodes = groupNodes(nodes, memberIds, group)
+	}
+	return { nodes, edges }
+}
+
+/**
+ * Exports a project as an outline document
+ * @param project Project to export
+ * @param format Target format
+ * @returns Document text
+ */
+export function exportProjectOutline(project: Project, format: OutlineFormat): string {
+	const outline = projectToOutline(project)
+	return format === 'opml' ? outlineToOpml(outline) : outlineToMarkdown(outline)
+}
+
+/**
+ * Parses an outline document in either format
+ * @param fileName File name used to detect the format
+ * @param text Document text
+ * @returns Parsed outline
+ */
+export function parseOutline(fileName: string, text: string): Outline {
+	return detectOutlineFormat(fileName, text) === 'opml' ? parseOpmlOutline(text) : parseMarkdownOutline(text)
+}
@@ -0,0 +1,141 @@
+import type { Project } from '../types'
+
+/**
+ * Grouping of projects by their tags and categories, and the pinned and
+ * recently opened views of the project list
+ */
+
+export const CATEGORY_SEPARATOR = '/'
+
+export interface TagCount {
+	tag: string
+	count: number
+}
+
+export interface CategoryTreeNode {
+	name: string
+	/** Full category path, e.g. 'Clients/Acme' */
+	path: string
+	/** Projects in this category or one below it */
+	count: number
+	children: CategoryTreeNode[]
+}
+
+/**
+ * Which projects a project list shows
+ */
+export interface ProjectListFilter {
+	pinned?: boolean
+	tag?: string
+	/** Shows the projects in this category and the ones below it */
+	category?: string
+	/** Most recently opened first, leaving out projects never opened */
+	recent?: boolean
+}
+
+/**
+ * Trim and lowercase tags and drop empty and duplicate ones
+ * @param tags Tags as entered
+ * @returns Normalized tags in their original order
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+	return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag !== ''))]
+}
+
+/**
+ * Trim every level of a category path and drop empty ones
+ * @param category Category as entered
+ * @returns The path, or undefined when nothing is left
+ */
+export function normalizeCategory(category: string | undefined): string | undefined {
+	const levels = (category ?? '')
+		.split(CATEGORY_SEPARATOR)
+		.map((level) => level.trim())
+		.filter((level) => level !== '')
+	return levels.length > 0 ? levels.join(CATEGORY_SEPARATOR) : undefined
+}
+
+/**
+ * Count the projects per tag
+ * @param projects Projects to count
+ * @returns Tags sorted by count, then alphabetically
+ */
+export function getTagCounts(projects: readonly Project[]): TagCount[] {
+	const counts = new Map<string, number>()
+	for (const project of projects) {
+		for (const tag of normalizeTags(project.tags ?? [])) {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1)
+		}
+	}
+	return [...counts]
+		.map(([tag, count]) => ({ tag, count }))
+		.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+/**
+ * Build the category tree of the given projects
+ * @param projects Projects to sort into categories
+ * @returns Top-level categories, each level sorted by name
+ */
+export function buildCategoryTree(projects: readonly Project[]): CategoryTreeNode[] {
+	const root: CategoryTreeNode = { name: '', path: '', count: 0, children: [] }
+
+	for (const project of projects) {
+		const category = normalizeCategory(project.category)
+		if (category === undefined) continue
+
+		let parent = root
+		for (const name of category.split(CATEGORY_SEPARATOR)) {
+			const path = parent.path === '' ? name : `${parent.path}${CATEGORY_SEPARATOR}${name}`
+			let child = parent.children.find((node) => node.path === path)
+			if (child === undefined) {
+				child = { name, path, count: 0, children: [] }
+				parent.children.push(child)
+			}
+			child.count += 1
+			parent = child
+		}
+	}
+
+	const sortLevel = (nodes: CategoryTreeNode[]): CategoryTreeNode[] =>
+		nodes
+			.sort((a, b) => a.name.localeCompare(b.name))
+			.map((node) => ({ ...node, children: sortLevel(node.children) }))
+	return sortLevel(root.children)
+}
+
+/**
+ * Whether a project is in a category or one below it
+ * @param project Project to check
+ * @param category Category path
+ */
+export function isInCategory(project: Project, category: string): boolean {
+	const projectCategory = normalizeCategory(project.category)
+	const path = normalizeCategory(category)
+	if (projectCategory === undefined || path === undefined) return false
+	return projectCategory === path || projectCategory.startsWith(`${path}${CATEGORY_SEPARATOR}`)
+}
+
+/**
+ * Apply a project list filter
+ * @param projects Projects to filter
+ * @param filter Filter to apply
+ * @returns The matching projects, sorted by last access for the recent view
+ */
+export function filterProjects(projects: readonly Project[], filter: ProjectListFilter): Project[] {
+	const tag = filter.tag !== undefined ? normalizeTags([filter.tag])[0] : undefined
+	const matching = projects.filter(
+		(project) =>
+			(filter.pinned !== true || project.isPinned) &&
+			(tag === undefined || normalizeTags(project.tags ?? []).includes(tag)) &&
+			(filter.category === undefined || isInCategory(project, filter.category)) &&
+			(filter.recent !== true || project.lastAccessedAt !== undefined),
+	)
+
+	if (filter.recent === true) {
+		return matching.sort(
+			(a, b) => new Date(b.lastAccessedAt ?? 0).getTime() - new Date(a.lastAccessedAt ?? 0).getTime(),
+		)
+	}
+	return matching
+}
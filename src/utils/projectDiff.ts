@@ -0,0 +1,250 @@
+import isEqual from 'lodash/isEqual'
+
+import type { Edge, Node, Project } from '../types'
+
+export type DiffStatus = 'added' | 'removed' | 'moved' | 'edited' | 'unchanged'
+
+export type TextSegmentType = 'equal' | 'insert' | 'delete'
+
+export interface TextSegment {
+	type: TextSegmentType
+	value: string
+}
+
+export interface TextFieldDiff {
+	kind: 'text'
+	field: 'title' | 'content'
+	before: string
+	after: string
+	segments: TextSegment[]
+}
+
+export interface TagsFieldDiff {
+	kind: 'tags'
+	field: 'tags'
+	added: string[]
+	removed: string[]
+}
+
+export interface ValueFieldDiff {
+	kind: 'value'
+	field: string
+	before: unknown
+	after: unknown
+}
+
+export type FieldDiff = TextFieldDiff | TagsFieldDiff | ValueFieldDiff
+
+/**
+ * Change of a single node. A node can be moved and edited at the same time;
+ * `status` is `edited` in that case and `moved` stays true.
+ */
+export interface NodeDiff {
+	id: string
+	status: DiffStatus
+	moved: boolean
+	fields: FieldDiff[]
+	before?: Node
+	after?: Node
+}
+
+export interface EdgeDiff {
+	id: string
+	status: Exclude<DiffStatus, 'moved'>
+	fields: ValueFieldDiff[]
+	before?: Edge
+	after?: Edge
+}
+
+export interface ProjectDiff {
+	nodes: NodeDiff[]
+	edges: EdgeDiff[]
+	summary: Record<Exclude<DiffStatus, 'unchanged'>, number>
+}
+
+// Positions closer than this are treated as unchanged (rounding from dragging)
+const MOVE_THRESHOLD = 1
+
+// Token pairs above this are diffed as a whole replacement to keep the LCS table small
+const MAX_TEXT_DIFF_CELLS = 250_000
+
+const VALUE_FIELDS = ['type', 'parentId', 'color', 'size', 'collapsed'] as const
+const EDGE_FIELDS = ['source', 'target', 'type', 'label'] as const
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? []
+
+const pushSegment = (segments: TextSegment[], type: TextSegmentType, value: string) => {
+	const last = segments[segments.length - 1]
+	if (last?.type === type) {
+		last.value += value
+	} else {
+		segments.push({ type, value })
+	}
+}
+
+/**
+ * Word-level diff of two strings based on the longest common subsequence
+ * @param before Old text
+ * @param after New text
+ * @returns Segments that rebuild `before` (equal + delete) and `after` (equal + insert)
+ */
+export function diffText(before: string, after: string): TextSegment[] {
+	if (before === after) {
+		return before ? [{ type: 'equal', value: before }] : []
+	}
+
+	const a = tokenize(before)
+	const b = tokenize(after)
+	const segments: TextSegment[] = []
+
+	if (a.length * b.length > MAX_TEXT_DIFF_CELLS) {
+		if (before) segments.push({ type: 'delete', value: before })
+		if (after) segments.push({ type: 'insert', value: after })
+		return segments
+	}
+
+	// lengths[i * width + j] = LCS length of a[i..] and b[j..]
+	const width = b.length + 1
+	const lengths = new Uint32Array((a.length + 1) * width)
+	const lcs = (i: number, j: number): number => lengths[i * width + j] ?? 0
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			const length = a.at(i) === b.at(j) ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1))
+			lengths.set([length], i * width + j)
+		}
+	}
+
+	let i = 0
+	let j = 0
+	while (i < a.length && j < b.length) {
+		const tokenA = a.at(i) ?? ''
+		const tokenB = b.at(j) ?? ''
+		if (tokenA === tokenB) {
+			pushSegment(segments, 'equal', tokenA)
+			i++
+			j++
+		} else if (lcs(i + 1, j) >= lcs(i, j + 1)) {
+			pushSegment(segments, 'delete', tokenA)
+			i++
+		} else {
+			pushSegment(segments, 'insert', tokenB)
+			j++
+		}
+	}
+	a.slice(i).forEach((token) => pushSegment(segments, 'delete', token))
+	b.slice(j).forEach((token) => pushSegment(segments, 'insert', token))
+
+	return segments
+}
+
+function diffNodeFields(before: Node, after: Node): FieldDiff[] {
+	const fields: FieldDiff[] = []
+
+	const texts = [
+		['title', before.data.title, after.data.title],
+		['content', before.data.content, after.data.content],
+	] as const
+	for (const [field, oldValue, newValue] of texts) {
+		const oldText = oldValue ?? ''
+		const newText = newValue ?? ''
+		if (oldText !== newText) {
+			fields.push({ kind: 'text', field, before: oldText, after: newText, segments: diffText(oldText, newText) })
+		}
+	}
+
+	const oldTags = before.data.tags ?? []
+	const newTags = after.data.tags ?? []
+	const addedTags = newTags.filter((tag) => !oldTags.includes(tag))
+	const removedTags = oldTags.filter((tag) => !newTags.includes(tag))
+	if (addedTags.length > 0 || removedTags.length > 0) {
+		fields.push({ kind: 'tags', field: 'tags', added: addedTags, removed: removedTags })
+	}
+
+	for (const field of VALUE_FIELDS) {
+		const oldValue = readValueField(before, field)
+		const newValue = readValueField(after, field)
+		if (!isEqual(oldValue, newValue)) {
+			fields.push({ kind: 'value', field, before: oldValue, after: newValue })
+		}
+	}
+
+	return fields
+}
+
+// Node type and group live on the node itself, the rest on its data
+const readValueField = (node: Node, field: (typeof VALUE_FIELDS)[number]): unknown =>
+	new Map<string, unknown>(Object.entries(field === 'type' || field === 'parentId' ? node : node.data)).get(field)
+
+const hasMoved = (before: Node, after: Node): boolean =>
+	Math.abs(before.position.x - after.position.x) > MOVE_THRESHOLD ||
+	Math.abs(before.position.y - after.position.y) > MOVE_THRESHOLD
+
+/**
+ * Structural diff of two versions of a project
+ * @param base The older version
+ * @param compare The newer version
+ * @returns Per-node and per-edge changes in compare order, followed by removed items
+ */
+export function diffProjects(base: Project, compare: Project): ProjectDiff {
+	const baseNodes = new Map(base.nodes.map((node) => [node.id, node]))
+	const compareNodeIds = new Set(compare.nodes.map((node) => node.id))
+	const nodes: NodeDiff[] = []
+
+	for (const after of compare.nodes) {
+		const before = baseNodes.get(after.id)
+		if (!before) {
+			nodes.push({ id: after.id, status: 'added', moved: false, fields: [], after })
+			continue
+		}
+		const fields = diffNodeFields(before, after)
+		const moved = hasMoved(before, after)
+		const status: DiffStatus = fields.length > 0 ? 'edited' : moved ? 'moved' : 'unchanged'
+		nodes.push({ id: after.id, status, moved, fields, before, after })
+	}
+	for (const before of base.nodes) {
+		if (!compareNodeIds.has(before.id)) {
+			nodes.push({ id: before.id, status: 'removed', moved: false, fields: [], before })
+		}
+	}
+
+	const baseEdges = new Map(base.edges.map((edge) => [edge.id, edge]))
+	const compareEdgeIds = new Set(compare.edges.map((edge) => edge.id))
+	const edges: EdgeDiff[] = []
+
+	for (const after of compare.edges) {
+		const before = baseEdges.get(after.id)
+		if (!before) {
+			edges.push({ id: after.id, status: 'added', fields: [], after })
+			continue
+		}
+		const beforeFields = new Map<string, unknown>(Object.entries(before))
+		const afterFields = new Map<string, unknown>(Object.entries(after))
+		const fields: ValueFieldDiff[] = EDGE_FIELDS.filter(
+			(field) => !isEqual(beforeFields.get(field), afterFields.get(field)),
+		).map((field) => ({ kind: 'value', field, before: beforeFields.get(field), after: afterFields.get(field) }))
+		edges.push({ id: after.id, status: fields.length > 0 ? 'edited' : 'unchanged', fields, before, after })
+	}
+	for (const before of base.edges) {
+		if (!compareEdgeIds.has(before.id)) {
+			edges.push({ id: before.id, status: 'removed', fields: [], before })
+		}
+	}
+
+	const summary = { added: 0, removed: 0, moved: 0, edited: 0 }
+	for (const item of [...nodes, ...edges]) {
+		if (item.status !== 'unchanged') {
+			summary[item.status]++
+		}
+	}
+
+	return { nodes, edges, summary }
+}
+
+/**
+ * Checks whether a diff contains any change
+ * @param diff Project diff
+ * @returns True if at least one node or edge changed
+ */
+export function hasDiffChanges(diff: ProjectDiff): boolean {
+	return Object.values(diff.summary).some((count) => count > 0)
+}
@@ -0,0 +1,342 @@
+import isEqual from 'lodash/isEqual'
+
+import type { Edge, Node, Project } from '../types'
+
+export type MergeEntity = 'project' | 'node' | 'edge'
+
+export type ConflictChoice = 'local' | 'remote'
+
+/**
+ * A change that was made on both sides and could not be merged automatically.
+ * `field` is a dotted path (`name`, `position`, `data.title`, ...) or `*` when
+ * one side deleted the entity while the other side modified it.
+ */
+export interface MergeConflict {
+	id: string
+	entity: MergeEntity
+	entityId: string
+	field: string
+	base?: unknown
+	local?: unknown
+	remote?: unknown
+}
+
+export interface ProjectMergeResult {
+	project: Project
+	conflicts: MergeConflict[]
+}
+
+export type ConflictResolutions = Record<string, ConflictChoice>
+
+// Project fields merged individually; the rest comes from the newer version
+const PROJECT_FIELDS = ['name', 'description', 'tags', 'category'] as const
+
+// Node fields merged individually; `data` is merged key by key
+const NODE_FIELDS = ['type', 'position', 'style', 'parentId'] as const
+const EDGE_FIELDS = ['source', 'target', 'type', 'label', 'animated', 'style'] as const
+
+// Fields that never cause a conflict on their own
+const IGNORED_DATA_FIELDS = new Set(['updatedAt', 'onEdit', 'onDelete', 'onChat'])
+
+interface MergeContext {
+	resolutions: Map<string, ConflictChoice>
+	conflicts: MergeConflict[]
+}
+
+// Fields of an entity by name; missing entities have none
+const toFields = (value: object | undefined): Map<string, unknown> => new Map(Object.entries(value ?? {}))
+
+// Rebuilds an entity from the merged fields of entities of the same type
+const fromFields = <T extends object>(fields: Map<string, unknown>): T => Object.fromEntries(fields) as T
+
+/**
+ * Builds the stable identifier used to match a conflict with its resolution
+ * @param entity Entity kind
+ * @param entityId Node or edge ID
+ * @param field Field path or `*` for delete/modify conflicts
+ * @returns Conflict identifier
+ */
+export function getConflictId(entity: MergeEntity, entityId: string, field: string): string {
+	return `${entity}:${entityId}:${field}`
+}
+
+function recordConflict(
+	context: MergeContext,
+	entity: MergeEntity,
+	entityId: string,
+	field: string,
+	values: { base: unknown; local: unknown; remote: unknown },
+): ConflictChoice {
+	const id = getConflictId(entity, entityId, field)
+	context.conflicts.push({ id, entity, entityId, field, ...values })
+	return context.resolutions.get(id) ?? 'local'
+}
+
+/**
+ * Merges two string arrays as sets relative to their common ancestor, keeping
+ * additions and removals from both sides
+ */
+function mergeStringSets(base: unknown, local: unknown, remote: unknown): string[] {
+	const baseSet = new Set(Array.isArray(base) ? (base as string[]) : [])
+	const localList = Array.isArray(local) ? (local as string[]) : []
+	const remoteList = Array.isArray(remote) ? (remote as string[]) : []
+	const remoteSet = new Set(remoteList)
+	const localSet = new Set(localList)
+
+	const kept = localList.filter((value) => !baseSet.has(value) || remoteSet.has(value))
+	const added = remoteList.filter((value) => !baseSet.has(value) && !localSet.has(value))
+	return [...kept, ...added]
+}
+
+/**
+ * Three-way merge of a single value; tags are merged as sets
+ * @returns The merged value, recording a conflict when both sides changed it differently
+ */
+function mergeValue(
+	context: MergeContext,
+	entity: MergeEntity,
+	entityId: string,
+	field: string,
+	base: unknown,
+	local: unknown,
+	remote: unknown,
+): unknown {
+	if (isEqual(local, remote)) return local
+	if (isEqual(local, base)) return remote
+	if (isEqual(remote, base)) return local
+
+	if (field === 'tags' || field === 'data.tags') {
+		return mergeStringSets(base, local, remote)
+	}
+
+	const choice = recordConflict(context, entity, entityId, field, { base, local, remote })
+	return choice === 'local' ? local : remote
+}
+
+function assignField(target: Map<string, unknown>, key: string, value: unknown): void {
+	if (value === undefined) {
+		target.delete(key)
+	} else {
+		target.set(key, value)
+	}
+}
+
+function latestTimestamp(...values: unknown[]): string | undefined {
+	const timestamps = values.filter((value): value is string => typeof value === 'string')
+	if (timestamps.length === 0) return undefined
+	return timestamps.reduce((latest, current) =>
+		new Date(current).getTime() > new Date(latest).getTime() ? current : latest,
+	)
+}
+
+function mergeNode(context: MergeContext, base: Node | undefined, local: Node, remote: Node): Node {
+	const baseFields = toFields(base)
+	const localFields = toFields(local)
+	const remoteFields = toFields(remote)
+	const merged = toFields(local)
+
+	for (const field of NODE_FIELDS) {
+		const value = mergeValue(
+			context,
+			'node',
+			local.id,
+			field,
+			baseFields.get(field),
+			localFields.get(field),
+			remoteFields.get(field),
+		)
+		assignField(merged, field, value)
+	}
+
+	const baseData = toFields(base?.data)
+	const localData = toFields(local.data)
+	const remoteData = toFields(remote.data)
+	const mergedData = toFields(local.data)
+	const keys = new Set([...baseData.keys(), ...localData.keys(), ...remoteData.keys()])
+
+	for (const key of keys) {
+		if (IGNORED_DATA_FIELDS.has(key)) continue
+		const value = mergeValue(
+			context,
+			'node',
+			local.id,
+			`data.${key}`,
+			baseData.get(key),
+			localData.get(key),
+			remoteData.get(key),
+		)
+		assignField(mergedData, key, value)
+	}
+
+	assignField(mergedData, 'updatedAt', latestTimestamp(localData.get('updatedAt'), remoteData.get('updatedAt')))
+	merged.set('data', Object.fromEntries(mergedData))
+
+	return fromFields<Node>(merged)
+}
+
+function mergeEdge(context: MergeContext, base: Edge | undefined, local: Edge, remote: Edge): Edge {
+	const baseFields = toFields(base)
+	const localFields = toFields(local)
+	const remoteFields = toFields(remote)
+	const merged = toFields(local)
+
+	for (const field of EDGE_FIELDS) {
+		const value = mergeValue(
+			context,
+			'edge',
+			local.id,
+			field,
+			baseFields.get(field),
+			localFields.get(field),
+			remoteFields.get(field),
+		)
+		assignField(merged, field, value)
+	}
+
+	return fromFields<Edge>(merged)
+}
+
+/**
+ * Merges a list of entities by ID. Entities keep the local order, entities that
+ * only exist remotely are appended in remote order.
+ */
+function mergeCollection<T extends { id: string }>(
+	context: MergeContext,
+	entity: MergeEntity,
+	base: T[],
+	local: T[],
+	remote: T[],
+	mergeEntity: (context: MergeContext, base: T | undefined, local: T, remote: T) => T,
+): T[] {
+	const baseById = new Map(base.map((item) => [item.id, item]))
+	const localById = new Map(local.map((item) => [item.id, item]))
+	const remoteById = new Map(remote.map((item) => [item.id, item]))
+
+	const orderedIds = [...local.map((item) => item.id)]
+	for (const item of remote) {
+		if (!localById.has(item.id)) orderedIds.push(item.id)
+	}
+	for (const item of base) {
+		if (!localById.has(item.id) && !remoteById.has(item.id)) orderedIds.push(item.id)
+	}
+
+	const result: T[] = []
+
+	for (const id of orderedIds) {
+		const baseItem = baseById.get(id)
+		const localItem = localById.get(id)
+		const remoteItem = remoteById.get(id)
+
+		if (localItem && remoteItem) {
+			result.push(mergeEntity(context, baseItem, localItem, remoteItem))
+			continue
+		}
+
+		if (!baseItem) {
+			// Added on one side only
+			const added = localItem ?? remoteItem
+			if (added) result.push(added)
+			continue
+		}
+
+		// Deleted on at least one side
+		const survivor = localItem ?? remoteItem
+		if (!survivor || isEqual(survivor, baseItem)) continue
+
+		const choice = recordConflict(context, entity, id, '*', {
+			base: baseItem,
+			local: localItem,
+			remote: remoteItem,
+		})
+		const kept = choice === 'local' ? localItem : remoteItem
+		if (kept) result.push(kept)
+	}
+
+	return result
+}
+
+/**
+ * Three-way merge of two divergent versions of a project: its nodes, edges,
+ * name, description, tags and category
+ * @param base The last version both sides agreed on, or null when unknown
+ * @param local The local version
+ * @param remote The remote version
+ * @param resolutions Choices for conflicts reported by a previous merge; unresolved conflicts keep the local value
+ * @returns The merged project and the conflicts that needed a choice
+ */
+export function mergeProjects(
+	base: Project | null,
+	local: Project,
+	remote: Project,
+	resolutions: ConflictResolutions = {},
+): ProjectMergeResult {
+	const context: MergeContext = { resolutions: new Map(Object.entries(resolutions)), conflicts: [] }
+
+	const nodes = mergeCollection(context, 'node', base?.nodes ?? [], local.nodes, remote.nodes, mergeNode)
+	const mergedEdges = mergeCollection(context, 'edge', base?.edges ?? [], local.edges, remote.edges, mergeEdge)
+
+	// Drop edges whose endpoints did not survive the merge
+	const nodeIds = new Set(nodes.map((node) => node.id))
+	const edges = mergedEdges.filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+
+	const newer =
+		new Date(remote.updatedAt).getTime() > new Date(local.updatedAt).getTime() ? remote : local
+
+	const baseFields = toFields(base ?? undefined)
+	const localFields = toFields(local)
+	const remoteFields = toFields(remote)
+	const merged = toFields(newer)
+
+	for (const field of PROJECT_FIELDS) {
+		const value = mergeValue(
+			context,
+			'project',
+			local.id,
+			field,
+			baseFields.get(field),
+			localFields.get(field),
+			remoteFields.get(field),
+		)
+		assignField(merged, field, value)
+	}
+
+	return {
+		project: {
+			...fromFields<Project>(merged),
+			nodes,
+			edges,
+			updatedAt: new Date().toISOString(),
+		},
+		conflicts: context.conflicts,
+	}
+}
+
+/**
+ * Checks whether two versions of a project differ in their nodes or edges
+ * @param a First project
+ * @param b Second project
+ * @returns True if nodes or edges differ
+ */
+export function hasGraphChanges(a: Project, b: Project): boolean {
+	return !isEqual(a.nodes, b.nodes) || !isEqual(a.edges, b.edges)
+}
+
+// Fields besides nodes and edges that a sync compares
+const pickSyncedFields = (project: Project) => ({
+	name: project.name,
+	description: project.description,
+	tags: project.tags,
+	category: project.category,
+	syncSettings: project.syncSettings,
+})
+
+/**
+ * Checks whether two versions of a project differ in anything a sync merges:
+ * nodes, edges, name, description, tags, category or sync settings
+ * @param a First project
+ * @param b Second project
+ * @returns True if the versions differ
+ */
+export function hasProjectChanges(a: Project, b: Project): boolean {
+	return hasGraphChanges(a, b) || !isEqual(pickSyncedFields(a), pickSyncedFields(b))
+}
@@ -0,0 +1,279 @@
+import type { Node, Project } from '../types'
+import type { NodeType } from '../types/enums'
+
+/**
+ * The parts of a project the index reads. Stored projects carry the archive flag.
+ */
+export type IndexableProject = Pick<Project, 'id' | 'name' | 'updatedAt' | 'nodes'> & { isArchived?: boolean }
+
+/**
+ * A node as stored in the search index
+ */
+export interface SearchDocument {
+	/** `projectId:nodeId` */
+	id: string
+	projectId: string
+	projectName: string
+	nodeId: string
+	title: string
+	content: string
+	tags: string[]
+	type: NodeType
+	updatedAt: string
+	/** The node or its whole project is archived */
+	archived: boolean
+}
+
+export interface SearchFilters {
+	projectIds?: string[]
+	types?: NodeType[]
+	/** Results must carry all of these tags */
+	tags?: string[]
+	/** Inclusive ISO date bounds on the last update */
+	from?: string
+	to?: string
+	/** Archived nodes are left out unless included or asked for exclusively */
+	archived?: 'exclude' | 'include' | 'only'
+}
+
+export interface SearchHit {
+	document: SearchDocument
+	score: number
+}
+
+export interface FacetCount {
+	value: string
+	count: number
+}
+
+/**
+ * Result counts per facet value. Each facet counts the matches of all other
+ * filters so that picking one value does not hide its alternatives.
+ */
+export interface SearchFacets {
+	projects: (FacetCount & { label: string })[]
+	types: FacetCount[]
+	tags: FacetCount[]
+	archived: number
+}
+
+export interface SearchResults {
+	hits: SearchHit[]
+	total: number
+	facets: SearchFacets
+}
+
+// How much a term found in each field counts
+const FIELD_WEIGHTS = { title: 3, tags: 2, type: 1, content: 1 } as const
+
+// Terms that only share a prefix with the query count less than exact matches
+const PREFIX_FACTOR = 0.6
+
+// Tags listed in the facets
+const MAX_TAG_FACETS = 20
+
+/**
+ * Splits text into lowercase terms without diacritics
+ */
+export const tokenize = (text: string): string[] =>
+	text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean)
+
+const toDocument = (project: IndexableProject, node: Node): SearchDocument => ({
+	id: `${project.id}:${node.id}`,
+	projectId: project.id,
+	projectName: project.name,
+	nodeId: node.id,
+	title: node.data.title || node.data.label || '',
+	content: node.data.content ?? '',
+	tags: node.data.tags ?? [],
+	type: node.type,
+	updatedAt: node.data.updatedAt || node.data.createdAt || project.updatedAt,
+	archived: project.isArchived === true || (node.data as { isArchived?: boolean }).isArchived === true,
+})
+
+const isSameDocument = (a: SearchDocument, b: SearchDocument) =>
+	a.projectName === b.projectName &&
+	a.title === b.title &&
+	a.content === b.content &&
+	a.type === b.type &&
+	a.updatedAt === b.updatedAt &&
+	a.archived === b.archived &&
+	a.tags.join('\n') === b.tags.join('\n')
+
+const countBy = (values: string[]): FacetCount[] => {
+	const counts = new Map<string, number>()
+	values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+	return [...counts.entries()]
+		.map(([value, count]) => ({ value, count }))
+		.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+/**
+ * In-memory inverted index over the nodes of all projects. Projects are
+ * re-indexed node by node, so saving a project only touches the nodes that
+ * changed.
+ */
+export class SearchIndex {
+	private documents = new Map<string, SearchDocument>()
+	// Term -> document id -> weighted term frequency
+	private postings = new Map<string, Map<string, number>>()
+	private projectDocuments = new Map<string, Set<string>>()
+
+	get size(): number {
+		return this.documents.size
+	}
+
+	/**
+	 * Adds a project or brings its indexed nodes up to date
+	 * @param project Project to index
+	 */
+	indexProject(project: IndexableProject): void {
+		const previous = this.projectDocuments.get(project.id) ?? new Set<string>()
+		const current = new Set<string>()
+
+		for (const node of project.nodes) {
+			const document = toDocument(project, node)
+			current.add(document.id)
+			const existing = this.documents.get(document.id)
+			if (existing !== undefined && isSameDocument(existing, document)) continue
+			if (existing !== undefined) this.removeDocument(existing.id)
+			this.addDocument(document)
+		}
+		for (const id of previous) {
+			if (!current.has(id)) this.removeDocument(id)
+		}
+		this.projectDocuments.set(project.id, current)
+	}
+
+	/**
+	 * Drops all nodes of a project
+	 * @param projectId Project to remove
+	 */
+	removeProject(projectId: string): void {
+		for (const id of this.projectDocuments.get(projectId) ?? []) {
+			this.removeDocument(id)
+		}
+		this.projectDocuments.delete(projectId)
+	}
+
+	clear(): void {
+		this.documents.clear()
+		this.postings.clear()
+		this.projectDocuments.clear()
+	}
+
+	/**
+	 * Finds nodes containing every query term; the last term also matches as a
+	 * prefix while it is being typed. Without a query all nodes passing the
+	 * filters are returned, most recently updated first.
+	 * @param query Search text
+	 * @param filters Facet filters
+	 * @param limit Maximum number of hits
+	 * @returns Ranked hits, the total number of matches and facet counts
+	 */
+	search(query: string, filters: SearchFilters = {}, limit = 50): SearchResults {
+		const scores = this.score(tokenize(query))
+		const matches = [...scores.keys()].flatMap((id) => this.documents.get(id) ?? [])
+
+		const passes = (document: SearchDocument, skip?: keyof SearchFilters) => {
+			const archived = filters.archived ?? 'exclude'
+			if (skip !== 'archived' && archived === 'exclude' && document.archived) return false
+			if (skip !== 'archived' && archived === 'only' && !document.archived) return false
+			const { projectIds = [], types = [], tags = [] } = filters
+			if (skip !== 'projectIds' && projectIds.length > 0 && !projectIds.includes(document.projectId)) return false
+			if (skip !== 'types' && types.length > 0 && !types.includes(document.type)) return false
+			if (skip !== 'tags' && tags.some((tag) => !document.tags.includes(tag))) return false
+			if (filters.from !== undefined && document.updatedAt < filters.from) return false
+			// A bare date includes the whole day
+			if (filters.to !== undefined && document.updatedAt.slice(0, filters.to.length) > filters.to) return false
+			return true
+		}
+
+		const filtered = matches.filter((document) => passes(document))
+		const hits = filtered
+			.map((document) => ({ document, score: scores.get(document.id) ?? 0 }))
+			.sort((a, b) => b.score - a.score || b.document.updatedAt.localeCompare(a.document.updatedAt))
+
+		const projectNames = new Map(matches.map((document) => [document.projectId, document.projectName]))
+		const matching = (skip: keyof SearchFilters) => matches.filter((document) => passes(document, skip))
+		const facets: SearchFacets = {
+			projects: countBy(matching('projectIds').map((document) => document.projectId)).map((facet) => ({
+				...facet,
+				label: projectNames.get(facet.value) ?? facet.value,
+			})),
+			types: countBy(matching('types').map((document) => document.type)),
+			tags: countBy(matching('tags').flatMap((document) => document.tags)).slice(0, MAX_TAG_FACETS),
+			archived: matching('archived').filter((document) => document.archived).length,
+		}
+
+		return { hits: hits.slice(0, limit), total: hits.length, facets }
+	}
+
+	// Scores documents containing all terms (TF-IDF with field weights)
+	private score(terms: string[]): Map<string, number> {
+		if (terms.length === 0) {
+			// Newest first once sorted, so every document scores the same
+			return new Map([...this.documents.keys()].map((id) => [id, 0]))
+		}
+
+		let result: Map<string, number> | null = null
+		for (const [index, term] of terms.entries()) {
+			const isLast = index === terms.length - 1
+			const termScores = new Map<string, number>()
+			for (const [indexed, postings] of this.postings) {
+				const exact = indexed === term
+				if (!exact && !(isLast && indexed.startsWith(term))) continue
+				const idf = Math.log(1 + this.documents.size / postings.size)
+				for (const [id, frequency] of postings) {
+					const value = frequency * idf * (exact ? 1 : PREFIX_FACTOR)
+					termScores.set(id, Math.max(termScores.get(id) ?? 0, value))
+				}
+			}
+
+			const previous = result
+			result = new Map(
+				[...termScores].flatMap(([id, value]): [string, number][] => {
+					if (previous === null) return [[id, value]]
+					const earlier = previous.get(id)
+					return earlier === undefined ? [] : [[id, earlier + value]]
+				}),
+			)
+		}
+		return result ?? new Map()
+	}
+
+	private addDocument(document: SearchDocument): void {
+		this.documents.set(document.id, document)
+		const frequencies = new Map<string, number>()
+		const add = (text: string, weight: number) =>
+			tokenize(text).forEach((term) => frequencies.set(term, (frequencies.get(term) ?? 0) + weight))
+
+		add(document.title, FIELD_WEIGHTS.title)
+		add(document.tags.join(' '), FIELD_WEIGHTS.tags)
+		add(document.type, FIELD_WEIGHTS.type)
+		add(document.content, FIELD_WEIGHTS.content)
+
+		for (const [term, frequency] of frequencies) {
+			const postings = this.postings.get(term) ?? new Map<string, number>()
+			postings.set(document.id, frequency)
+			this.postings.set(term, postings)
+		}
+	}
+
+	private removeDocument(id: string): void {
+		const document = this.documents.get(id)
+		if (document === undefined) return
+		this.documents.delete(id)
+		const terms = tokenize([document.title, document.tags.join(' '), document.type, document.content].join(' '))
+		for (const term of new Set(terms)) {
+			const postings = this.postings.get(term)
+			postings?.delete(id)
+			if (postings?.size === 0) this.postings.delete(term)
+		}
+	}
+}
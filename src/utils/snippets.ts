@@ -0,0 +1,146 @@
+import type { Snippet, SnippetRef } from '../types/snippet'
+
+import { generateUniqueId } from './idGenerator'
+import type { TagCount } from './projectCollections'
+import { tokenize } from './searchIndex'
+import { pasteSubgraph, type PastedEdge, type PastedNode, type SubgraphPayload } from './subgraphClipboard'
+
+/**
+ * Drag type of snippets dragged from the library onto a canvas; the data is
+ * the snippet ID
+ */
+export const SNIPPET_MIME_TYPE = 'application/x-doit-snippet'
+
+/**
+ * A node of the canvas or of a project that may have been placed from a snippet
+ */
+export interface SnippetInstanceNode {
+	data: {
+		title: string
+		label?: string
+		content?: string
+		tags?: string[]
+		color?: string
+		updatedAt?: string
+		snippet?: SnippetRef
+	}
+}
+
+/**
+ * Places the nodes and edges of a snippet, each node linked back to the
+ * snippet node it was copied from
+ * @param snippet Snippet to place
+ * @param at Canvas position for the top-left corner of the snippet
+ * @returns Nodes and edges to add
+ */
+export function placeSnippet(
+	snippet: Pick<Snippet, 'id' | 'version' | 'content'>,
+	at: { x: number; y: number },
+): { nodes: PastedNode[]; edges: PastedEdge[] } {
+	const sources = new Map<string, string>()
+	const { nodes, edges } = pasteSubgraph(snippet.content, at, (sourceNodeId) => {
+		const id = generateUniqueId()
+		sources.set(id, sourceNodeId)
+		return id
+	})
+
+	return {
+		nodes: nodes.map((node) => {
+			const sourceNodeId = sources.get(node.id)
+			if (sourceNodeId === undefined) return node
+			const ref: SnippetRef = { snippetId: snippet.id, version: snippet.version, sourceNodeId }
+			return { ...node, data: { ...node.data, snippet: ref } }
+		}),
+		edges,
+	}
+}
+
+/**
+ * Whether a snippet's name, description, tags or node text contain every
+ * query term; the terms also match the start of longer words
+ * @param snippet Snippet to check
+ * @param query Search text
+ */
+export function matchesSnippet(snippet: Snippet, query: string): boolean {
+	const terms = tokenize(query)
+	if (terms.length === 0) return true
+
+	const words = tokenize(
+		[
+			snippet.name,
+			snippet.description,
+			...snippet.tags,
+			...snippet.content.nodes.flatMap((node) => [node.title, node.content, ...node.tags]),
+		].join(' '),
+	)
+	return terms.every((term) => words.some((word) => word.startsWith(term)))
+}
+
+/**
+ * Tags used by the snippets with how often, most used first
+ * @param snippets Snippets of the library
+ */
+export function getSnippetTags(snippets: Snippet[]): TagCount[] {
+	const counts = new Map<string, number>()
+	for (const snippet of snippets) {
+		for (const tag of snippet.tags) {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1)
+		}
+	}
+	return [...counts]
+		.map(([tag, count]) => ({ tag, count }))
+		.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+/**
+ * Whether two snippet contents hold the same nodes and edges
+ */
+export function isSameContent(a: SubgraphPayload, b: SubgraphPayload): boolean {
+	const { sourceProjectId: _a, ...contentA } = a
+	const { sourceProjectId: _b, ...contentB } = b
+	return JSON.stringify(contentA) === JSON.stringify(contentB)
+}
+
+/**
+ * Brings nodes placed from an older version of a snippet up to date. Title,
+ * content, tags and color are taken from the snippet; positions and edges are
+ * left as they are, so changes made to the layout on the canvas survive.
+ * @param nodes Nodes of a canvas or project
+ * @param snippet Current version of the snippet
+ * @returns The nodes, and how many of them were updated
+ */
+export function updateSnippetInstances<N extends SnippetInstanceNode>(
+	nodes: N[],
+	snippet: Pick<Snippet, 'id' | 'version' | 'content'>,
+): { nodes: N[]; updated: number } {
+	const sources = new Map(snippet.content.nodes.map((node) => [node.id, node]))
+	const now = new Date().toISOString()
+	let updated = 0
+
+	const result = nodes.map((node) => {
+		const ref = node.data.snippet
+		if (ref === undefined || ref.snippetId !== snippet.id || ref.version >= snippet.version) return node
+		const snippetRef: SnippetRef = { ...ref, version: snippet.version }
+		const source = sources.get(ref.sourceNodeId)
+		// Nodes removed from the snippet keep their text
+		if (source === undefined) return { ...node, data: { ...node.data, snippet: snippetRef } }
+
+		updated += 1
+		const { color: _color, ...data } = node.data
+		return {
+			...node,
+			data: {
+				...data,
+				title: source.title,
+				label: source.title,
+				content: source.content,
+				tags: source.tags,
+				...(source.color !== undefined ? { color: source.color } : {}),
+				updatedAt: now,
+				snippet: snippetRef,
+			},
+		}
+	})
+
+	return { nodes: result, updated }
+}
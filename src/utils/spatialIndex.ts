@@ -0,0 +1,209 @@
+/**
+ * Axis-aligned rectangle in canvas coordinates
+ */
+export interface Rect {
+	x: number
+	y: number
+	width: number
+	height: number
+}
+
+// Items per quadrant before it splits, and how deep quadrants nest
+const MAX_ITEMS = 8
+const MAX_DEPTH = 10
+
+// Size of the first quadrant, grown when items land outside of it
+const INITIAL_SIZE = 4096
+
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+	a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height
+
+const rectContains = (outer: Rect, inner: Rect): boolean =>
+	inner.x >= outer.x &&
+	inner.y >= outer.y &&
+	inner.x + inner.width <= outer.x + outer.width &&
+	inner.y + inner.height <= outer.y + outer.height
+
+const rectsEqual = (a: Rect, b: Rect): boolean =>
+	a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height
+
+/**
+ * Grows a rectangle by a margin on every side
+ * @param rect Rectangle to grow
+ * @param margin Margin to add, in the rectangle's units
+ */
+export const expandRect = (rect: Rect, margin: number): Rect => ({
+	x: rect.x - margin,
+	y: rect.y - margin,
+	width: rect.width + margin * 2,
+	height: rect.height + margin * 2,
+})
+
+/**
+ * Smallest rectangle enclosing all given rectangles
+ * @returns The enclosing rectangle, or null without rectangles
+ */
+export const unionRects = (rects: Iterable<Rect>): Rect | null => {
+	let minX = Infinity
+	let minY = Infinity
+	let maxX = -Infinity
+	let maxY = -Infinity
+	for (const rect of rects) {
+		minX = Math.min(minX, rect.x)
+		minY = Math.min(minY, rect.y)
+		maxX = Math.max(maxX, rect.x + rect.width)
+		maxY = Math.max(maxY, rect.y + rect.height)
+	}
+	return minX === Infinity ? null : { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+interface Quadrant {
+	bounds: Rect
+	depth: number
+	// Items that don't fit into a single child quadrant
+	ids: Set<string>
+	children: Quadrant[] | null
+}
+
+const createQuadrant = (bounds: Rect, depth: number): Quadrant => ({ bounds, depth, ids: new Set(), children: null })
+
+/**
+ * Quadtree over the bounds of canvas items. Items are kept in the smallest
+ * quadrant that holds them whole, so moving one only touches the quadrants
+ * it leaves and enters.
+ */
+export class SpatialIndex {
+	private root = createQuadrant({ x: -INITIAL_SIZE / 2, y: -INITIAL_SIZE / 2, width: INITIAL_SIZE, height: INITIAL_SIZE }, 0)
+	private items = new Map<string, { rect: Rect; quadrant: Quadrant }>()
+
+	get size(): number {
+		return this.items.size
+	}
+
+	/**
+	 * Adds an item or moves it to new bounds
+	 * @param id Item id
+	 * @param rect Bounds of the item
+	 * @returns Whether the bounds changed
+	 */
+	set(id: string, rect: Rect): boolean {
+		const current = this.items.get(id)
+		if (current !== undefined && rectsEqual(current.rect, rect)) return false
+		this.delete(id)
+		// A broken position would grow the tree forever
+		if (![rect.x, rect.y, rect.width, rect.height].every(Number.isFinite)) return current !== undefined
+		while (!rectContains(this.root.bounds, rect)) {
+			this.grow(rect)
+		}
+		this.insert(this.root, id, rect)
+		return true
+	}
+
+	/**
+	 * Removes an item
+	 * @param id Item id
+	 * @returns Whether the item was indexed
+	 */
+	delete(id: string): boolean {
+		const current = this.items.get(id)
+		if (current === undefined) return false
+		current.quadrant.ids.delete(id)
+		this.items.delete(id)
+		return true
+	}
+
+	/**
+	 * Bounds of an item
+	 * @param id Item id
+	 * @returns The bounds, or undefined when the item isn't indexed
+	 */
+	get(id: string): Rect | undefined {
+		return this.items.get(id)?.rect
+	}
+
+	/**
+	 * Ids of all indexed items
+	 */
+	ids(): IterableIterator<string> {
+		return this.items.keys()
+	}
+
+	/**
+	 * Finds the items whose bounds intersect a rectangle
+	 * @param rect Area to search, e.g. the viewport
+	 * @returns Ids of the items in the area
+	 */
+	search(rect: Rect): string[] {
+		const found: string[] = []
+		const visit = (quadrant: Quadrant) => {
+			for (const id of quadrant.ids) {
+				const item = this.items.get(id)
+				if (item !== undefined && rectsIntersect(item.rect, rect)) found.push(id)
+			}
+			quadrant.children?.forEach((child) => {
+				if (rectsIntersect(child.bounds, rect)) visit(child)
+			})
+		}
+		if (rectsIntersect(this.root.bounds, rect)) visit(this.root)
+		return found
+	}
+
+	/**
+	 * Bounds enclosing all items
+	 * @returns The bounds, or null when the index is empty
+	 */
+	getBounds(): Rect | null {
+		return unionRects([...this.items.values()].map((item) => item.rect))
+	}
+
+	private insert(quadrant: Quadrant, id: string, rect: Rect): void {
+		let target = quadrant
+		for (;;) {
+			if (target.children === null && target.ids.size >= MAX_ITEMS && target.depth < MAX_DEPTH) {
+				this.split(target)
+			}
+			const child = target.children?.find((candidate) => rectContains(candidate.bounds, rect))
+			if (child === undefined) break
+			target = child
+		}
+		target.ids.add(id)
+		this.items.set(id, { rect, quadrant: target })
+	}
+
+	private split(quadrant: Quadrant): void {
+		const { x, y } = quadrant.bounds
+		const width = quadrant.bounds.width / 2
+		const height = quadrant.bounds.height / 2
+		quadrant.children = [
+			createQuadrant({ x, y, width, height }, quadrant.depth + 1),
+			createQuadrant({ x: x + width, y, width, height }, quadrant.depth + 1),
+			createQuadrant({ x, y: y + height, width, height }, quadrant.depth + 1),
+			createQuadrant({ x: x + width, y: y + height, width, height }, quadrant.depth + 1),
+		]
+
+		// Items that fit a child move down
+		const ids = [...quadrant.ids]
+		quadrant.ids.clear()
+		for (const id of ids) {
+			const item = this.items.get(id)
+			if (item !== undefined) this.insert(quadrant, id, item.rect)
+		}
+	}
+
+	// Doubles the root towards the rectangle and indexes all items again
+	private grow(rect: Rect): void {
+		const { x, y, width, height } = this.root.bounds
+		const growLeft = rect.x < x
+		const growUp = rect.y < y
+		this.root = createQuadrant(
+			{ x: growLeft ? x - width : x, y: growUp ? y - height : y, width: width * 2, height: height * 2 },
+			0,
+		)
+
+		const items = [...this.items.entries()]
+		this.items.clear()
+		for (const [id, item] of items) {
+			this.insert(this.root, id, item.rect)
+		}
+	}
+}
@@ -0,0 +1,122 @@
+import type { TokenUsage } from '../types'
+
+/**
+ * A server-sent event
+ */
+export interface ServerSentEvent {
+	/** Event name, `message` when the server sends none */
+	event: string
+	data: string
+	id?: string
+}
+
+/**
+ * What a chat completion stream delivers in one chunk
+ */
+export interface CompletionChunk {
+	/** Text to append to the reply */
+	delta: string
+	finishReason?: string
+	usage?: TokenUsage
+	/** Error the provider reported inside the stream */
+	error?: string
+}
+
+// Marks the end of an OpenAI-compatible completion stream
+export const STREAM_DONE = '[DONE]'
+
+const toEvent = (lines: string[]): ServerSentEvent | null => {
+	let event = 'message'
+	let id: string | undefined
+	const data: string[] = []
+	for (const line of lines) {
+		// Lines starting with a colon are comments, e.g. keep-alive pings
+		if (line.startsWith(':')) continue
+		const colon = line.indexOf(':')
+		const field = colon === -1 ? line : line.slice(0, colon)
+		const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+		if (field === 'event') event = value
+		else if (field === 'data') data.push(value)
+		else if (field === 'id') id = value
+	}
+	if (data.length === 0) return null
+	return { event, data: data.join('\n'), ...(id !== undefined ? { id } : {}) }
+}
+
+/**
+ * Reads server-sent events from a response body as they arrive
+ * @param body Response body stream
+ * @returns Events in the order they were sent
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+	const reader = body.getReader()
+	const decoder = new TextDecoder()
+	let buffer = ''
+	let lines: string[] = []
+
+	try {
+		for (;;) {
+			const { done, value } = await reader.read()
+			buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+			// A trailing `\r` may be the first half of a `\r\n` split across chunks
+			const heldBack = !done && buffer.endsWith('\r') ? '\r' : ''
+			const parts = buffer.slice(0, buffer.length - heldBack.length).split(/\r\n|\r|\n/)
+			// The last part may be an incomplete line
+			buffer = done ? '' : (parts.pop() ?? '') + heldBack
+			for (const line of parts) {
+				if (line !== '') {
+					lines.push(line)
+					continue
+				}
+				const event = toEvent(lines)
+				lines = []
+				if (event !== null) yield event
+			}
+
+			if (done) {
+				// A stream may end without the blank line after its last event
+				const event = toEvent(lines)
+				if (event !== null) yield event
+				return
+			}
+		}
+	} finally {
+		reader.releaseLock()
+	}
+}
+
+/**
+ * Reads the payload of one OpenAI-compatible completion chunk
+ * @param data JSON data of a server-sent event
+ * @returns The chunk, or null for data that is not a completion chunk
+ */
+export const parseCompletionChunk = (data: string): CompletionChunk | null => {
+	let payload: unknown
+	try {
+		payload = JSON.parse(data)
+	} catch {
+		return null
+	}
+	if (payload === null || typeof payload !== 'object') return null
+
+	const { choices, usage, error } = payload as {
+		choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>
+		usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null
+		error?: { message?: string }
+	}
+	const choice = choices?.[0]
+	const chunk: CompletionChunk = { delta: choice?.delta?.content ?? '' }
+	if (typeof choice?.finish_reason === 'string') chunk.finishReason = choice.finish_reason
+	if (usage) {
+		const promptTokens = usage.prompt_tokens ?? 0
+		const completionTokens = usage.completion_tokens ?? 0
+		chunk.usage = {
+			promptTokens,
+			completionTokens,
+			totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+		}
+	}
+	if (error) chunk.error = error.message ?? 'Unknown stream error'
+	return chunk
+}
@@ -0,0 +1,125 @@
+import type { z } from 'zod'
+
+/**
+ * Outcome of reading structured data from a model reply. `syntax` errors mean
+ * no JSON could be read at all, `schema` errors that it has the wrong shape.
+ */
+export type StructuredOutputResult<T> =
+	| { success: true; data: T }
+	| { success: false; kind: 'syntax' | 'schema'; error: string }
+
+/**
+ * Finds the JSON value in a model reply, skipping prose around it and code
+ * fences. A value cut off at the end of the reply is returned as far as it goes.
+ * @param text Model reply
+ * @returns JSON text, or null when the reply contains no object or array
+ */
+export function extractJson(text: string): string | null {
+	const fenced = /```(?:json)?\s*\n?([\s\S]*?)(?:```|$)/i.exec(text)
+	const source = fenced?.[1] !== undefined && /[{[]/.test(fenced[1]) ? fenced[1] : text
+
+	const start = source.search(/[{[]/)
+	if (start === -1) return null
+
+	const stack: string[] = []
+	let inString = false
+	let escaped = false
+	for (let index = start; index < source.length; index++) {
+		const char = source.charAt(index)
+		if (inString) {
+			if (escaped) escaped = false
+			else if (char === '\\') escaped = true
+			else if (char === '"') inString = false
+			continue
+		}
+		if (char === '"') inString = true
+		else if (char === '{' || char === '[') stack.push(char)
+		else if (char === '}' || char === ']') {
+			stack.pop()
+			if (stack.length === 0) return source.slice(start, index + 1)
+		}
+	}
+	return source.slice(start).trimEnd()
+}
+
+/**
+ * Repairs the mistakes models make most often: comments, trailing commas and
+ * output cut off before the closing brackets
+ * @param json Almost valid JSON
+ * @returns JSON that has a better chance of parsing
+ */
+export function repairJson(json: string): string {
+	const stack: string[] = []
+	let output = ''
+	let inString = false
+	let escaped = false
+
+	for (let index = 0; index < json.length; index++) {
+		const char = json.charAt(index)
+		if (inString) {
+			output += char
+			if (escaped) escaped = false
+			else if (char === '\\') escaped = true
+			else if (char === '"') inString = false
+			continue
+		}
+		// Line comments, as in the format examples of prompts
+		if (char === '/' && json[index + 1] === '/') {
+			while (index < json.length && json.charAt(index) !== '\n') index++
+			continue
+		}
+		if (char === '"') inString = true
+		else if (char === '{' || char === '[') stack.push(char)
+		else if (char === '}' || char === ']') {
+			stack.pop()
+			output = output.replace(/,\s*$/, '')
+		}
+		output += char
+	}
+
+	if (inString) output += '"'
+	// Drop a member that was cut off before its value
+	if (stack[stack.length - 1] === '{') output = output.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*$/, '$1')
+	output = output.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '').replace(/,\s*$/, '')
+	return output + stack.reverse().map((opener) => (opener === '{' ? '}' : ']')).join('')
+}
+
+/**
+ * Describes validation errors in a way a model can act on
+ * @param error Validation error
+ * @returns One line per issue with the path of the offending value
+ */
+export function formatValidationError(error: z.ZodError): string {
+	return error.issues
+		.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+		.join('\n')
+}
+
+/**
+ * Reads and validates structured data from a model reply
+ * @param text Model reply
+ * @param schema Schema the data must match
+ * @returns The data, or what is wrong with the reply
+ */
+export function parseStructuredOutput<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): StructuredOutputResult<T> {
+	const json = extractJson(text)
+	if (json === null) {
+		return { success: false, kind: 'syntax', error: 'The reply contains no JSON object' }
+	}
+
+	let value: unknown
+	try {
+		value = JSON.parse(json)
+	} catch {
+		try {
+			value = JSON.parse(repairJson(json))
+		} catch (error) {
+			return { success: false, kind: 'syntax', error: error instanceof Error ? error.message : String(error) }
+		}
+	}
+
+	const result = schema.safeParse(value)
+	return result.success
+		? { success: true, data: result.data }
+		: { success: false, kind: 'schema', error: formatValidationError(result.error) }
+}
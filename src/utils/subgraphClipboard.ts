@@ -0,0 +1,275 @@
+import { z } from 'zod'
+
+import { EdgeType, NodeType } from '../types/enums'
+
+import type { GroupableNode } from './groups'
+import { getAbsolutePosition, getNodeSize, isGroupNode } from './groups'
+import { generateUniqueId } from './idGenerator'
+import { outlineToMarkdown, outlineToPlainText, projectToOutline } from './outline'
+
+/**
+ * Clipboard type of copied canvas nodes. Browsers keep custom types between
+ * tabs and windows of the same browser.
+ */
+export const SUBGRAPH_MIME_TYPE = 'application/x-doit-subgraph+json'
+
+/** Bumped whenever the payload changes incompatibly; newer payloads are not pasted */
+export const SUBGRAPH_CLIPBOARD_VERSION = 1
+
+// Shift of pasted nodes when there is no cursor position to paste at
+const PASTE_OFFSET = { x: 40, y: 40 }
+
+const positionSchema = z.object({ x: z.number(), y: z.number() })
+
+const clipboardNodeSchema = z.object({
+	id: z.string(),
+	type: z.nativeEnum(NodeType),
+	/** Relative to the parent when the parent was copied too, otherwise on the canvas */
+	position: positionSchema,
+	parentId: z.string().optional(),
+	/** Groups only: frame size */
+	size: z.object({ width: z.number(), height: z.number() }).optional(),
+	title: z.string(),
+	content: z.string(),
+	tags: z.array(z.string()),
+	color: z.string().optional(),
+	collapsed: z.boolean().optional(),
+})
+
+const clipboardEdgeSchema = z.object({
+	source: z.string(),
+	target: z.string(),
+	type: z.nativeEnum(EdgeType).optional(),
+	label: z.string().optional(),
+	animated: z.boolean().optional(),
+})
+
+const subgraphPayloadSchema = z.object({
+	version: z.literal(SUBGRAPH_CLIPBOARD_VERSION),
+	sourceProjectId: z.string().optional(),
+	nodes: z.array(clipboardNodeSchema).min(1),
+	edges: z.array(clipboardEdgeSchema),
+})
+
+export type SubgraphPayload = z.infer<typeof subgraphPayloadSchema>
+
+/**
+ * A canvas node that can be copied
+ */
+export type CopyableNode = GroupableNode & {
+	type: NodeType
+	data: {
+		title: string
+		content?: string
+		tags?: string[]
+		color?: string
+		collapsed?: boolean
+	}
+}
+
+/**
+ * A canvas edge that can be copied
+ */
+export interface CopyableEdge {
+	source: string
+	target: string
+	type?: string
+	label?: unknown
+	animated?: boolean
+}
+
+/**
+ * A node created by pasting, usable both on the canvas and in a project
+ */
+export interface PastedNode {
+	id: string
+	type: NodeType
+	position: { x: number; y: number }
+	parentId?: string
+	style?: { width: number; height: number }
+	data: {
+		id: string
+		type: NodeType
+		title: string
+		label: string
+		content: string
+		tags: string[]
+		color?: string
+		collapsed?: boolean
+		createdAt: string
+		updatedAt: string
+	}
+}
+
+export interface PastedEdge {
+	id: string
+	source: string
+	target: string
+	type: EdgeType
+	label?: string
+	animated?: boolean
+}
+
+const EDGE_TYPES = new Set<string>(Object.values(EdgeType))
+
+/**
+ * Collects the selected nodes, the members of selected groups and the edges
+ * between them. Nodes whose group is left behind get their canvas position.
+ * @param nodes All nodes of the canvas
+ * @param edges All edges of the canvas
+ * @param selectedIds Nodes to copy
+ * @param sourceProjectId Project the nodes are copied from
+ * @returns Payload, or null when nothing is selected
+ */
+export function copySubgraph(
+	nodes: CopyableNode[],
+	edges: CopyableEdge[],
+	selectedIds: Iterable<string>,
+	sourceProjectId?: string,
+): SubgraphPayload | null {
+	const selected = new Set(selectedIds)
+	const nodesById = new Map(nodes.map((node) => [node.id, node]))
+	const copied = nodes.filter(
+		(node) => selected.has(node.id) || (node.parentId !== undefined && selected.has(node.parentId)),
+	)
+	if (copied.length === 0) return null
+	const copiedIds = new Set(copied.map((node) => node.id))
+
+	return {
+		version: SUBGRAPH_CLIPBOARD_VERSION,
+		...(sourceProjectId !== undefined ? { sourceProjectId } : {}),
+		nodes: copied.map((node) => {
+			const keepsParent = node.parentId !== undefined && copiedIds.has(node.parentId)
+			return {
+				id: node.id,
+				type: node.type,
+				position: keepsParent ? node.position : getAbsolutePosition(node, nodesById),
+				...(keepsParent ? { parentId: node.parentId } : {}),
+				...(isGroupNode(node) ? { size: getNodeSize(node) } : {}),
+				title: node.data.title,
+				content: node.data.content ?? '',
+				tags: node.data.tags ?? [],
+				...(node.data.color !== undefined ? { color: node.data.color } : {}),
+				...(node.data.collapsed === true ? { collapsed: true } : {}),
+			}
+		}),
+		edges: edges
+			.filter((edge) => copiedIds.has(edge.source) && copiedIds.has(edge.target))
+			.map((edge) => ({
+				source: edge.source,
+				target: edge.target,
+				...(edge.type !== undefined && EDGE_TYPES.has(edge.type) ? { type: edge.type as EdgeType } : {}),
+				...(typeof edge.label === 'string' ? { label: edge.label } : {}),
+				...(edge.animated === true ? { animated: true } : {}),
+			})),
+	}
+}
+
+// Builds nodes and edges from a payload, moving top-level nodes by the offset
+const toGraph = (
+	payload: SubgraphPayload,
+	offset: { x: number; y: number },
+	createId: (id: string) => string,
+): { nodes: PastedNode[]; edges: PastedEdge[] } => {
+	const ids = new Map(payload.nodes.map((node) => [node.id, createId(node.id)]))
+	const now = new Date().toISOString()
+
+	const nodes = payload.nodes.map((node): PastedNode => {
+		const id = ids.get(node.id) ?? createId(node.id)
+		const parentId = node.parentId !== undefined ? ids.get(node.parentId) : undefined
+		return {
+			id,
+			type: node.type,
+			// Members move with their group
+			position:
+				parentId !== undefined
+					? node.position
+					: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+			...(parentId !== undefined ? { parentId } : {}),
+			...(node.size ? { style: { width: node.size.width, height: node.size.height } } : {}),
+			data: {
+				id,
+				type: node.type,
+				title: node.title,
+				label: node.title,
+				content: node.content,
+				tags: node.tags,
+				...(node.color !== undefined ? { color: node.color } : {}),
+				...(node.collapsed === true ? { collapsed: true } : {}),
+				createdAt: now,
+				updatedAt: now,
+			},
+		}
+	})
+
+	const edges = payload.edges.flatMap((edge): PastedEdge[] => {
+		const source = ids.get(edge.source)
+		const target = ids.get(edge.target)
+		if (source === undefined || target === undefined) return []
+		return [
+			{
+				id: `e${source}-${target}`,
+				source,
+				target,
+				type: edge.type ?? EdgeType.DEFAULT,
+				...(edge.label !== undefined ? { label: edge.label } : {}),
+				...(edge.animated === true ? { animated: true } : {}),
+			},
+		]
+	})
+
+	// Groups first, React Flow needs parents before their members
+	return { nodes: [...nodes.filter(isGroupNode), ...nodes.filter((node) => !isGroupNode(node))], edges }
+}
+
+/**
+ * Turns a payload into new nodes and edges with fresh IDs, keeping titles,
+ * content, tags, colors and group membership
+ * @param payload Copied subgraph
+ * @param at Canvas position for the top-left corner of the pasted nodes;
+ * without it they are placed slightly offset from where they were copied
+ * @param createId Creates the ID of a pasted node from the copied node's ID
+ * @returns Nodes and edges to add
+ */
+export function pasteSubgraph(
+	payload: SubgraphPayload,
+	at?: { x: number; y: number },
+	createId: (id: string) => string = () => generateUniqueId(),
+): { nodes: PastedNode[]; edges: PastedEdge[] } {
+	const topLevel = payload.nodes.filter((node) => node.parentId === undefined)
+	const left = Math.min(...topLevel.map((node) => node.position.x))
+	const top = Math.min(...topLevel.map((node) => node.position.y))
+	const offset = at && Number.isFinite(left) && Number.isFinite(top) ? { x: at.x - left, y: at.y - top } : PASTE_OFFSET
+	return toGraph(payload, offset, createId)
+}
+
+/**
+ * Writes a payload in all clipboard formats: the payload itself, and a
+ * Markdown and plain text outline for other apps
+ * @param payload Copied subgraph
+ * @param title Heading of the Markdown outline
+ * @returns Clipboard data by MIME type
+ */
+export function serializeSubgraph(payload: SubgraphPayload, title: string): Record<string, string> {
+	const { nodes, edges } = toGraph(payload, { x: 0, y: 0 }, (id) => id)
+	const outline = projectToOutline({ name: title, nodes, edges })
+	return {
+		[SUBGRAPH_MIME_TYPE]: JSON.stringify(payload),
+		'text/markdown': outlineToMarkdown(outline),
+		'text/plain': outlineToPlainText(outline),
+	}
+}
+
+/**
+ * Reads a payload from the clipboard
+ * @param data Text stored under `SUBGRAPH_MIME_TYPE`
+ * @returns Payload, or null for invalid data and payloads of a newer version
+ */
+export function parseSubgraph(data: string): SubgraphPayload | null {
+	try {
+		const result = subgraphPayloadSchema.safeParse(JSON.parse(data))
+		return result.success ? result.data : null
+	} catch {
+		return null
+	}
+}